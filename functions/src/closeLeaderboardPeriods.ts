@@ -0,0 +1,135 @@
+/**
+ * closeLeaderboardPeriods
+ * Scheduled job that closes leaderboard periods once they end: snapshots the
+ * final standings of every leaderboard onto the period and records podium
+ * finishes on the players' profiles.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentReference, Firestore } from 'firebase-admin/firestore';
+import {
+  CATEGORY_FILTER_LABELS,
+  LEADERBOARD_METRIC_LABELS,
+  PERIOD_STANDINGS_SIZE,
+  SEASON_BADGE_RANKS,
+  getPeriodField,
+  getPeriodValue,
+  parseCategoryFilter,
+} from '../../src/lib/leaderboardPeriods';
+import type {
+  CategoryFilter,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  PeriodEntry,
+  PeriodStanding,
+} from '../../src/types/leaderboard';
+
+/**
+ * Snapshots one period's final standings and awards its podium finishes
+ */
+const closePeriod = async (db: Firestore, periodRef: DocumentReference): Promise<void> => {
+  const period = (await periodRef.get()).data() as LeaderboardPeriod;
+  const entriesRef = periodRef.collection('entries');
+
+  const boards = (Object.keys(CATEGORY_FILTER_LABELS) as CategoryFilter[]).flatMap((categoryFilter) =>
+    (Object.keys(LEADERBOARD_METRIC_LABELS) as LeaderboardMetric[]).map((metric) => ({
+      categoryFilter,
+      metric,
+    }))
+  );
+
+  const standings = await Promise.all(
+    boards.map(async ({ categoryFilter, metric }) => {
+      const { category, gender } = parseCategoryFilter(categoryFilter);
+      const field = getPeriodField(metric, category);
+      const snapshot = await (gender ? entriesRef.where('gender', '==', gender) : entriesRef)
+        .orderBy(field, 'desc')
+        .limit(PERIOD_STANDINGS_SIZE)
+        .get();
+
+      return snapshot.docs.map((doc, index): PeriodStanding => {
+        const entry = doc.data() as PeriodEntry;
+        return {
+          uid: doc.id,
+          username: entry.username,
+          displayName: entry.displayName,
+          ...(entry.photoURL && { photoURL: entry.photoURL }),
+          rank: index + 1,
+          value: getPeriodValue(entry, metric, category),
+        };
+      });
+    })
+  );
+
+  const batch = db.batch();
+
+  batch.update(periodRef, {
+    status: 'closed',
+    closedAt: FieldValue.serverTimestamp(),
+    standings: Object.fromEntries(
+      boards.map(({ categoryFilter, metric }, index) => [`${categoryFilter}_${metric}`, standings[index]])
+    ),
+  });
+
+  // Only finishes with something to show for them earn a badge
+  boards.forEach(({ categoryFilter, metric }, index) => {
+    standings[index]
+      .filter((standing) => standing.rank <= SEASON_BADGE_RANKS && standing.value > 0)
+      .forEach((standing) => {
+        batch.set(
+          db.collection('users').doc(standing.uid).collection('seasonFinishes')
+            .doc(`${periodRef.id}_${categoryFilter}_${metric}`),
+          {
+            periodId: periodRef.id,
+            periodLabel: period.label,
+            periodType: period.type,
+            categoryFilter,
+            metric,
+            rank: standing.rank,
+            value: standing.value,
+            endedAt: period.endAt,
+          }
+        );
+      });
+  });
+
+  await batch.commit();
+};
+
+/**
+ * Closes every active period that has ended
+ * @param db - Firestore instance
+ * @param nowMs - Current time in epoch ms
+ * @returns Number of periods closed
+ */
+export const closeEndedPeriods = async (db: Firestore, nowMs: number): Promise<number> => {
+  // Needs the leaderboardPeriods index in firestore.indexes.json
+  const snapshot = await db
+    .collection('leaderboardPeriods')
+    .where('status', '==', 'active')
+    .where('endAt', '<=', Timestamp.fromMillis(nowMs))
+    .get();
+
+  let closed = 0;
+
+  for (const { ref } of snapshot.docs) {
+    try {
+      await closePeriod(db, ref);
+      closed++;
+    } catch (error) {
+      logger.error('Failed to close leaderboard period', { periodId: ref.id, error });
+    }
+  }
+
+  return closed;
+};
+
+export const closeLeaderboardPeriods = onSchedule(
+  { schedule: 'every day 00:15', timeZone: 'UTC' },
+  async () => {
+    const closed = await closeEndedPeriods(getFirestore(), Date.now());
+    logger.info('Leaderboard period close complete', { closed });
+  }
+);
@@ -0,0 +1,66 @@
+/**
+ * Club Results
+ * Adds a settled match to the leaderboard of every club all its players
+ * belong to. Runs inside the settleMatch transaction.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, Transaction } from 'firebase-admin/firestore';
+import { getClubsForMatch } from '../../src/lib/club';
+import type { Club } from '../../src/types/club';
+import type { PointChanges } from '../../src/types/lobby';
+import type { ResultWrite } from './tournamentResults';
+
+/**
+ * Reads the clubs the players share and works out the writes that add the
+ * match to each club's standings. All reads happen here, before settleMatch writes.
+ * @param db - Firestore
+ * @param tx - settleMatch transaction
+ * @param userSnaps - Players' user documents
+ * @param pointChanges - Rating change for each player
+ * @param winnerIds - Players on the winning team
+ * @returns Writes to apply, empty when the players share no club
+ */
+export const getClubResultWrites = async (
+  db: Firestore,
+  tx: Transaction,
+  userSnaps: DocumentSnapshot[],
+  pointChanges: PointChanges,
+  winnerIds: string[]
+): Promise<ResultWrite[]> => {
+  const playerIds = userSnaps.map((snap) => snap.id);
+  if (playerIds.length === 0) {
+    return [];
+  }
+
+  // Any shared club is one of the first player's clubs
+  const clubsSnap = await tx.get(
+    db.collection('clubs').where('memberIds', 'array-contains', playerIds[0])
+  );
+  const clubs = getClubsForMatch(
+    clubsSnap.docs.map((snap) => ({ ...(snap.data() as Club), id: snap.id })),
+    playerIds
+  );
+
+  return clubs.flatMap((club) =>
+    userSnaps.map((snap): ResultWrite => {
+      const photoURL = snap.get('profilePictureUrl') || snap.get('photoURL');
+      const isWinner = winnerIds.includes(snap.id);
+
+      return {
+        ref: db.collection('clubs').doc(club.id).collection('standings').doc(snap.id),
+        data: {
+          uid: snap.id,
+          username: snap.get('username') ?? '',
+          displayName: snap.get('displayName') || 'Unknown',
+          ...(photoURL && { photoURL }),
+          wins: FieldValue.increment(isWinner ? 1 : 0),
+          losses: FieldValue.increment(isWinner ? 0 : 1),
+          matches: FieldValue.increment(1),
+          ratingGain: FieldValue.increment(pointChanges[snap.id] ?? 0),
+          updatedAt: FieldValue.serverTimestamp(),
+        },
+      };
+    })
+  );
+};
@@ -0,0 +1,70 @@
+/**
+ * expireLadderChallenges
+ * Scheduled sweeper: expires ladder challenges that were not played within
+ * their ladder's challenge window, freeing both players to challenge again.
+ * Challenges whose game is being played are left for the result to settle.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import * as logger from 'firebase-functions/logger';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import type { Lobby } from '../../src/types/lobby';
+import type { LadderChallenge } from '../../src/types/ladder';
+
+// Upper bound on challenges examined per run; the next run picks up the rest
+const SWEEP_BATCH_SIZE = 200;
+
+/**
+ * Expires every open challenge past its deadline
+ * Each challenge is re-checked in its own transaction, so one accepted or
+ * settled since the query is left alone.
+ * @param db - Firestore instance
+ * @param nowMs - Current time in epoch ms
+ * @returns Number of challenges expired
+ */
+export const sweepLadderChallenges = async (db: Firestore, nowMs: number): Promise<number> => {
+  // Needs the challenges collection-group index in firestore.indexes.json
+  const snapshot = await db
+    .collectionGroup('challenges')
+    .where('status', 'in', ['pending', 'accepted'])
+    .where('expiresAt', '<', Timestamp.fromMillis(nowMs))
+    .limit(SWEEP_BATCH_SIZE)
+    .get();
+
+  let expired = 0;
+
+  for (const { ref } of snapshot.docs) {
+    try {
+      const didExpire = await db.runTransaction(async (tx) => {
+        const challengeSnap = await tx.get(ref);
+        const challenge = challengeSnap.data() as LadderChallenge | undefined;
+        if (!challenge || (challenge.status !== 'pending' && challenge.status !== 'accepted')) {
+          return false;
+        }
+
+        if (challenge.roomCode) {
+          const lobbySnap = await tx.get(db.collection('lobbies').doc(challenge.roomCode));
+          const lobby = lobbySnap.data() as Lobby | undefined;
+          if (lobby?.gameStarted && !lobby.gameCompleted) {
+            return false;
+          }
+        }
+
+        tx.update(ref, { status: 'expired' });
+        return true;
+      });
+
+      if (didExpire) expired++;
+    } catch (error) {
+      logger.error('Failed to expire ladder challenge', { path: ref.path, error });
+    }
+  }
+
+  return expired;
+};
+
+export const expireLadderChallenges = onSchedule('every 60 minutes', async () => {
+  const expired = await sweepLadderChallenges(getFirestore(), Date.now());
+  logger.info('Ladder challenge sweep complete', { expired });
+});
@@ -0,0 +1,180 @@
+/**
+ * expireLobbies
+ * Scheduled lifecycle sweeper: expires waiting lobbies that have gone idle and
+ * cancels started games that never reached a final score. Writes the same
+ * fields as cancelMatch so the app treats them like a host cancellation.
+ * Also settles submitted scores whose confirmation window has passed, so a
+ * result stands even when no player opens the app.
+ */
+
+import { onSchedule } from 'firebase-functions/v2/scheduler';
+import { onRequest } from 'firebase-functions/v2/https';
+import * as logger from 'firebase-functions/logger';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  LOBBY_IDLE_TIMEOUT_MINUTES,
+  MAX_GAME_DURATION_MINUTES,
+  SYSTEM_CANCELLER_ID,
+  getExpiryMessage,
+  getLobbyExpiryReason,
+} from '../../src/lib/lobbyLifecycle';
+import type { LobbyExpiryOptions } from '../../src/lib/lobbyLifecycle';
+import { SCORE_CONFIRMATION_TIMEOUT_MS } from '../../src/lib/validation';
+import { settleLobby } from './settleMatch';
+import type { Lobby } from '../../src/types/lobby';
+
+// Upper bound on lobbies examined per query per run; the next run picks up the rest
+const SWEEP_BATCH_SIZE = 200;
+
+export interface SweepResult {
+  examined: number;
+  expired: number;
+  cancelled: number;
+  settled: number;
+}
+
+/**
+ * Reads timeouts from the functions environment, falling back to the app defaults
+ */
+const getExpiryOptions = (): LobbyExpiryOptions => {
+  return {
+    idleTimeoutMinutes: Number(process.env.LOBBY_IDLE_TIMEOUT_MINUTES) || LOBBY_IDLE_TIMEOUT_MINUTES,
+    maxGameDurationMinutes: Number(process.env.MAX_GAME_DURATION_MINUTES) || MAX_GAME_DURATION_MINUTES,
+  };
+};
+
+/**
+ * Settles every submitted score whose confirmation window has passed
+ * settleLobby re-checks each lobby in its transaction, so a score that was
+ * disputed, resubmitted or settled by a player since the query is left alone.
+ * @param db - Firestore instance
+ * @param nowMs - Current time in epoch ms
+ * @returns Counts of lobbies examined and settled
+ */
+const settleTimedOutScores = async (
+  db: Firestore,
+  nowMs: number
+): Promise<{ examined: number; settled: number }> => {
+  const submittedCutoff = Timestamp.fromMillis(nowMs - SCORE_CONFIRMATION_TIMEOUT_MS);
+
+  // Settled and cancelled lobbies keep scoreStatus 'pending' but are
+  // completed; needs the composite index in firestore.indexes.json
+  const pendingSnap = await db.collection('lobbies')
+    .where('gameCompleted', '==', false)
+    .where('scoreStatus', '==', 'pending')
+    .where('scoreSubmittedAt', '<', submittedCutoff)
+    .limit(SWEEP_BATCH_SIZE)
+    .get();
+
+  let settled = 0;
+
+  for (const lobbySnap of pendingSnap.docs) {
+    try {
+      await settleLobby(db, lobbySnap.id, nowMs);
+      settled++;
+    } catch (error) {
+      logger.error('Failed to settle timed-out score', { roomCode: lobbySnap.id, error });
+    }
+  }
+
+  return { examined: pendingSnap.size, settled };
+};
+
+/**
+ * Expires every open lobby past its idle timeout or maximum game duration,
+ * and settles scores left unconfirmed past the confirmation window
+ * Each lobby is cancelled in its own transaction after re-checking it, so a
+ * lobby that saw activity (or a score submission) since the query is left alone.
+ * @param db - Firestore instance
+ * @param nowMs - Current time in epoch ms
+ * @param options - Idle timeout and maximum game duration
+ * @returns Counts of lobbies examined, expired while waiting, cancelled mid-game
+ * and settled after the confirmation window
+ */
+export const sweepLobbies = async (
+  db: Firestore,
+  nowMs: number,
+  options: LobbyExpiryOptions = getExpiryOptions()
+): Promise<SweepResult> => {
+  const lobbies = db.collection('lobbies');
+  const idleCutoff = Timestamp.fromMillis(nowMs - options.idleTimeoutMinutes * 60 * 1000);
+  const durationCutoff = Timestamp.fromMillis(nowMs - options.maxGameDurationMinutes * 60 * 1000);
+
+  // Open lobbies carry gameCompleted: false; both queries need the composite
+  // indexes in firestore.indexes.json
+  const [idleSnap, longRunningSnap] = await Promise.all([
+    lobbies
+      .where('gameCompleted', '==', false)
+      .where('lastActivity', '<', idleCutoff)
+      .limit(SWEEP_BATCH_SIZE)
+      .get(),
+    lobbies
+      .where('gameCompleted', '==', false)
+      .where('gameStartedAt', '<', durationCutoff)
+      .limit(SWEEP_BATCH_SIZE)
+      .get(),
+  ]);
+
+  const candidateRefs = new Map(
+    [...idleSnap.docs, ...longRunningSnap.docs].map((snap) => [snap.id, snap.ref])
+  );
+  const result: SweepResult = { examined: candidateRefs.size, expired: 0, cancelled: 0, settled: 0 };
+
+  for (const lobbyRef of candidateRefs.values()) {
+    try {
+      const reason = await db.runTransaction(async (tx) => {
+        const lobbySnap = await tx.get(lobbyRef);
+        if (!lobbySnap.exists) return null;
+
+        const expiryReason = getLobbyExpiryReason(lobbySnap.data() as Lobby, nowMs, options);
+        if (!expiryReason) return null;
+
+        tx.update(lobbyRef, {
+          cancelled: true,
+          cancelledAt: FieldValue.serverTimestamp(),
+          cancelledBy: SYSTEM_CANCELLER_ID,
+          cancelReason: getExpiryMessage(expiryReason, options),
+          expiredReason: expiryReason,
+          gameCompleted: true,
+          gameCompletedAt: FieldValue.serverTimestamp(),
+          lastActivity: FieldValue.serverTimestamp(),
+        });
+        return expiryReason;
+      });
+
+      if (reason === 'idle') result.expired++;
+      if (reason === 'max_duration') result.cancelled++;
+    } catch (error) {
+      logger.error('Failed to expire lobby', { roomCode: lobbyRef.id, error });
+    }
+  }
+
+  const timedOut = await settleTimedOutScores(db, nowMs);
+  result.examined += timedOut.examined;
+  result.settled = timedOut.settled;
+
+  return result;
+};
+
+export const expireLobbies = onSchedule('every 10 minutes', async () => {
+  const result = await sweepLobbies(getFirestore(), Date.now());
+  logger.info('Lobby sweep complete', result);
+});
+
+/**
+ * Runs the sweep on demand so it can be exercised against the emulator
+ * Not served outside the emulator.
+ */
+export const expireLobbiesNow = onRequest(async (req, res) => {
+  if (process.env.FUNCTIONS_EMULATOR !== 'true') {
+    res.status(404).send('Not found');
+    return;
+  }
+
+  // ?now=<epoch ms> simulates a later sweep without waiting out the timeouts
+  const nowParam = Number(req.query.now);
+  const nowMs = Number.isFinite(nowParam) && nowParam > 0 ? nowParam : Date.now();
+  const result = await sweepLobbies(getFirestore(), nowMs);
+  res.json(result);
+});
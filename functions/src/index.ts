@@ -0,0 +1,15 @@
+/**
+ * Cloud Functions entry point
+ * Trusted server-side operations that clients cannot perform under rules
+ */
+
+import { initializeApp } from 'firebase-admin/app';
+
+initializeApp();
+
+export { settleMatch } from './settleMatch';
+export { expireLobbies, expireLobbiesNow } from './expireLobbies';
+export { expireLadderChallenges } from './expireLadderChallenges';
+export { closeLeaderboardPeriods } from './closeLeaderboardPeriods';
+export { syncLobbyChat } from './syncLobbyChat';
+export { syncClubChat } from './syncClubChat';
@@ -0,0 +1,122 @@
+/**
+ * Ladder Results
+ * Feeds a settled lobby's result into its ladder challenge: completes the
+ * challenge and swaps rungs when the challenger wins. Runs inside the
+ * settleMatch transaction.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type { Firestore, Transaction } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { applyChallengeResult, getChallengeError } from '../../src/lib/ladder';
+import { getLobbyPlayerIds } from '../../src/lib/validation';
+import type { GameScore, Lobby } from '../../src/types/lobby';
+import type { Ladder, LadderChallenge } from '../../src/types/ladder';
+import type { ResultWrite } from './tournamentResults';
+
+/**
+ * Reads the challenge a lobby was started for and works out the writes that
+ * record its result. All reads happen here, before settleMatch writes.
+ * Challenges cancelled by the end of a season are skipped, and one from an
+ * earlier season never moves the current rungs. Challenges played after their
+ * deadline, or no longer within range, are left for expireLadderChallenges.
+ * @param db - Firestore
+ * @param tx - settleMatch transaction
+ * @param roomCode - Lobby document ID
+ * @param lobby - Lobby being settled
+ * @param winner - Winning lobby team
+ * @param score - Match score
+ * @param nowMs - Settlement time in epoch ms
+ * @returns Writes to apply, empty when the lobby is not an open challenge
+ */
+export const getLadderResultWrites = async (
+  db: Firestore,
+  tx: Transaction,
+  roomCode: string,
+  lobby: Lobby,
+  winner: 1 | 2,
+  score: GameScore,
+  nowMs: number
+): Promise<ResultWrite[]> => {
+  if (!lobby.ladderId || !lobby.ladderChallengeId) {
+    return [];
+  }
+
+  const ladderRef = db.collection('ladders').doc(lobby.ladderId);
+  const challengeRef = ladderRef.collection('challenges').doc(lobby.ladderChallengeId);
+  const [ladderSnap, challengeSnap] = await Promise.all([tx.get(ladderRef), tx.get(challengeRef)]);
+
+  const ladder = ladderSnap.data() as Ladder | undefined;
+  const challenge = challengeSnap.data() as LadderChallenge | undefined;
+
+  if (!ladder || challenge?.status !== 'accepted' || challenge.roomCode !== roomCode) {
+    logger.warn('Lobby is not the active game of its ladder challenge', {
+      roomCode,
+      ladderId: lobby.ladderId,
+      challengeId: lobby.ladderChallengeId,
+    });
+    return [];
+  }
+
+  const playerIds = getLobbyPlayerIds(lobby);
+  if (
+    playerIds.length !== 2 ||
+    !playerIds.includes(challenge.challengerId) ||
+    !playerIds.includes(challenge.defenderId)
+  ) {
+    logger.warn('Lobby players no longer match the ladder challenge', {
+      roomCode,
+      players: playerIds,
+    });
+    return [];
+  }
+
+  // A game started before the deadline may finish after it
+  const playedAtMs = lobby.gameStartedAt?.toMillis() ?? nowMs;
+  if (!challenge.expiresAt || challenge.expiresAt.toMillis() <= playedAtMs) {
+    logger.warn('Ladder challenge was played after its deadline', {
+      roomCode,
+      challengeId: lobby.ladderChallengeId,
+    });
+    return [];
+  }
+
+  const isCurrentSeason = challenge.season === ladder.season;
+  const rangeError = isCurrentSeason
+    ? getChallengeError(ladder, challenge.challengerId, challenge.defenderId, [])
+    : null;
+  if (rangeError) {
+    logger.warn('Ladder challenge is no longer within range', {
+      roomCode,
+      challengeId: lobby.ladderChallengeId,
+      reason: rangeError,
+    });
+    return [];
+  }
+
+  // The challenger is seated on team 1 but may have swapped sides
+  const challengerTeam = lobby.team1.player1?.uid === challenge.challengerId ? 1 : 2;
+  const winnerId = winner === challengerTeam ? challenge.challengerId : challenge.defenderId;
+
+  const writes: ResultWrite[] = [{
+    ref: challengeRef,
+    data: {
+      status: 'completed',
+      winnerId,
+      score: challengerTeam === 1 ? score : { team1: score.team2, team2: score.team1 },
+      completedAt: FieldValue.serverTimestamp(),
+    },
+  }];
+
+  if (isCurrentSeason) {
+    writes.push({
+      ref: ladderRef,
+      data: {
+        rungs: applyChallengeResult(ladder.rungs, challenge.challengerId, challenge.defenderId, winnerId),
+        activeIds: FieldValue.arrayUnion(challenge.challengerId, challenge.defenderId),
+      },
+    });
+  }
+
+  return writes;
+};
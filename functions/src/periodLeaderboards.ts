@@ -0,0 +1,97 @@
+/**
+ * Period Leaderboards
+ * Adds a settled match to each player's totals for every period it falls in:
+ * the calendar month and quarter, and any custom season in progress.
+ * Runs inside the settleMatch transaction.
+ */
+
+import { FieldValue, Timestamp } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore, Transaction } from 'firebase-admin/firestore';
+import { getCalendarPeriods } from '../../src/lib/leaderboardPeriods';
+import type { LeaderboardPeriod } from '../../src/types/leaderboard';
+import type { PointChanges } from '../../src/types/lobby';
+import type { UserRankings } from '../../src/types/user';
+import type { ResultWrite } from './tournamentResults';
+
+/**
+ * Reads the periods a match counts towards and works out the writes that add
+ * it to each player's totals. All reads happen here, before settleMatch writes.
+ * Calendar periods are created the first time a match lands in them; custom
+ * seasons are created with the createLeaderboardSeason script.
+ * @param db - Firestore
+ * @param tx - settleMatch transaction
+ * @param nowMs - Settlement time, which is also the match's createdAt
+ * @param userSnaps - Players' user documents
+ * @param pointChanges - Rating change for each player
+ * @param winnerIds - Players on the winning team
+ * @param rankingCategory - Rating category the match was played in
+ * @returns Writes to apply
+ */
+export const getPeriodLeaderboardWrites = async (
+  db: Firestore,
+  tx: Transaction,
+  nowMs: number,
+  userSnaps: DocumentSnapshot[],
+  pointChanges: PointChanges,
+  winnerIds: string[],
+  rankingCategory: keyof UserRankings
+): Promise<ResultWrite[]> => {
+  const periodsRef = db.collection('leaderboardPeriods');
+  const calendarPeriods = getCalendarPeriods(nowMs);
+
+  const [calendarSnaps, customSnap] = await Promise.all([
+    tx.getAll(...calendarPeriods.map((period) => periodsRef.doc(period.id))),
+    tx.get(periodsRef.where('type', '==', 'custom').where('status', '==', 'active')),
+  ]);
+
+  const writes: ResultWrite[] = [];
+
+  calendarPeriods.forEach((period, index) => {
+    if (calendarSnaps[index].exists) return;
+    writes.push({
+      ref: periodsRef.doc(period.id),
+      data: {
+        type: period.type,
+        label: period.label,
+        startAt: Timestamp.fromMillis(period.startMs),
+        endAt: Timestamp.fromMillis(period.endMs),
+        status: 'active',
+      },
+    });
+  });
+
+  const customPeriodIds = customSnap.docs
+    .filter((snap) => {
+      const { startAt, endAt } = snap.data() as LeaderboardPeriod;
+      return startAt.toMillis() <= nowMs && nowMs < endAt.toMillis();
+    })
+    .map((snap) => snap.id);
+
+  const periodIds = [...calendarPeriods.map((period) => period.id), ...customPeriodIds];
+
+  userSnaps
+    .filter((snap) => snap.exists)
+    .forEach((snap) => {
+      const photoURL = snap.get('profilePictureUrl') || snap.get('photoURL');
+      const gender = snap.get('gender');
+      const isWinner = winnerIds.includes(snap.id);
+
+      const entry = {
+        uid: snap.id,
+        username: snap.get('username') ?? '',
+        displayName: snap.get('displayName') || 'Unknown',
+        ...(photoURL && { photoURL }),
+        ...((gender === 'male' || gender === 'female') && { gender }),
+        ratingGain: { [rankingCategory]: FieldValue.increment(pointChanges[snap.id] ?? 0) },
+        wins: { [rankingCategory]: FieldValue.increment(isWinner ? 1 : 0) },
+        matches: { [rankingCategory]: FieldValue.increment(1) },
+        updatedAt: FieldValue.serverTimestamp(),
+      };
+
+      periodIds.forEach((periodId) => {
+        writes.push({ ref: periodsRef.doc(periodId).collection('entries').doc(snap.id), data: entry });
+      });
+    });
+
+  return writes;
+};
@@ -0,0 +1,87 @@
+/**
+ * backfillCareerStats
+ * One-off backfill of the career breakdown in each player's matchStats
+ * (per-type wins and losses, current and best streak). settleMatch keeps it up
+ * to date from then on. Run after migrateMatches, since it reads `matches`.
+ *
+ * Run with admin credentials (GOOGLE_APPLICATION_CREDENTIALS, or
+ * FIRESTORE_EMULATOR_HOST against the emulator):
+ *   npm run backfill:career-stats -- --dry-run
+ *   npm run backfill:career-stats
+ */
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldPath } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import { summarizeCareer } from '../../../src/lib/careerStats';
+import { toPlayerRecords } from '../../../src/lib/matchRecords';
+import type { Match } from '../../../src/types/game';
+
+// Users read per page
+const PAGE_SIZE = 200;
+
+export interface BackfillResult {
+  usersRead: number;
+  usersUpdated: number;
+}
+
+/**
+ * Rebuilds one player's career breakdown from every match they played
+ * Totals are rebuilt too, so they agree with the breakdown
+ */
+const backfillUser = async (db: Firestore, uid: string, dryRun: boolean): Promise<boolean> => {
+  const snapshot = await db
+    .collection('matches')
+    .where('playerIds', 'array-contains', uid)
+    .orderBy('createdAt', 'desc')
+    .get();
+
+  if (snapshot.empty) return false;
+
+  const matches = snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Match));
+  const career = summarizeCareer(toPlayerRecords(matches, uid).reverse());
+
+  if (!dryRun) {
+    await db.collection('users').doc(uid).update({ matchStats: career });
+  }
+  return true;
+};
+
+/**
+ * Backfills the career breakdown for every player with settled matches
+ * @param db - Firestore instance
+ * @param dryRun - Count what would change without writing
+ * @returns Counts of users read and updated
+ */
+export const backfillCareerStats = async (db: Firestore, dryRun: boolean): Promise<BackfillResult> => {
+  const result: BackfillResult = { usersRead: 0, usersUpdated: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    let pageQuery = db.collection('users').orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastId) pageQuery = pageQuery.startAfter(lastId);
+
+    const snapshot = await pageQuery.get();
+    for (const userSnap of snapshot.docs) {
+      result.usersRead++;
+      if (await backfillUser(db, userSnap.id, dryRun)) result.usersUpdated++;
+    }
+
+    if (snapshot.size < PAGE_SIZE) return result;
+    lastId = snapshot.docs[snapshot.size - 1].id;
+  }
+};
+
+if (require.main === module) {
+  initializeApp();
+  const dryRun = process.argv.includes('--dry-run');
+
+  backfillCareerStats(getFirestore(), dryRun)
+    .then((result) => {
+      console.log(dryRun ? 'Dry run, nothing written:' : 'Backfill complete:', result);
+    })
+    .catch((error) => {
+      console.error('Career stats backfill failed:', error);
+      process.exit(1);
+    });
+}
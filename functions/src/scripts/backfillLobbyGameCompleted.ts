@@ -0,0 +1,73 @@
+/**
+ * backfillLobbyGameCompleted
+ * One-off backfill of `gameCompleted: false` on lobbies created before
+ * createLobby wrote the field. expireLobbies queries on it, so without the
+ * field older lobbies are never swept. Completed lobbies already have it.
+ *
+ * Run with admin credentials (GOOGLE_APPLICATION_CREDENTIALS, or
+ * FIRESTORE_EMULATOR_HOST against the emulator):
+ *   npm run backfill:lobby-game-completed -- --dry-run
+ *   npm run backfill:lobby-game-completed
+ */
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldPath } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+
+// Lobbies read per page (one write batch per page)
+const PAGE_SIZE = 200;
+
+export interface BackfillResult {
+  lobbiesRead: number;
+  lobbiesUpdated: number;
+}
+
+/**
+ * Sets `gameCompleted: false` on every lobby missing the field
+ * @param db - Firestore instance
+ * @param dryRun - Count what would change without writing
+ * @returns Counts of lobbies read and updated
+ */
+export const backfillLobbyGameCompleted = async (db: Firestore, dryRun: boolean): Promise<BackfillResult> => {
+  const result: BackfillResult = { lobbiesRead: 0, lobbiesUpdated: 0 };
+  let lastId: string | null = null;
+
+  for (;;) {
+    let pageQuery = db.collection('lobbies').orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastId) pageQuery = pageQuery.startAfter(lastId);
+
+    const snapshot = await pageQuery.get();
+    const batch = db.batch();
+    let pending = 0;
+
+    for (const lobbySnap of snapshot.docs) {
+      result.lobbiesRead++;
+      if (lobbySnap.get('gameCompleted') !== undefined) continue;
+
+      batch.update(lobbySnap.ref, { gameCompleted: false });
+      pending++;
+    }
+
+    if (!dryRun && pending > 0) {
+      await batch.commit();
+    }
+    result.lobbiesUpdated += pending;
+
+    if (snapshot.size < PAGE_SIZE) return result;
+    lastId = snapshot.docs[snapshot.size - 1].id;
+  }
+};
+
+if (require.main === module) {
+  initializeApp();
+  const dryRun = process.argv.includes('--dry-run');
+
+  backfillLobbyGameCompleted(getFirestore(), dryRun)
+    .then((result) => {
+      console.log(dryRun ? 'Dry run, nothing written:' : 'Backfill complete:', result);
+    })
+    .catch((error) => {
+      console.error('Lobby gameCompleted backfill failed:', error);
+      process.exit(1);
+    });
+}
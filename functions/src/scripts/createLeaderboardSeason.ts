@@ -0,0 +1,140 @@
+/**
+ * createLeaderboardSeason
+ * Creates a custom leaderboard season (any date range, alongside the automatic
+ * monthly and quarterly periods). settleMatch adds matches to it while it
+ * runs and closeLeaderboardPeriods closes it when it ends. Matches already
+ * played since the start are added from `matches` by their createdAt, so a
+ * season can start in the past; re-running rebuilds those totals.
+ *
+ * Run with admin credentials (GOOGLE_APPLICATION_CREDENTIALS, or
+ * FIRESTORE_EMULATOR_HOST against the emulator):
+ *   npm run create:leaderboard-season -- --id=summer-2026 --label="Summer League" --start=2026-06-01 --end=2026-09-01 --dry-run
+ *   npm run create:leaderboard-season -- --id=summer-2026 --label="Summer League" --start=2026-06-01 --end=2026-09-01
+ */
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, Timestamp } from 'firebase-admin/firestore';
+import type { Firestore } from 'firebase-admin/firestore';
+import { getRankingKey } from '../../../src/lib/points';
+import type { Match } from '../../../src/types/game';
+import type { PeriodBounds, PeriodEntry, PeriodTotals } from '../../../src/types/leaderboard';
+
+// Writes per batch (Firestore allows 500 per batch)
+const BATCH_SIZE = 400;
+
+export interface SeasonResult {
+  matchesRead: number;
+  playersWritten: number;
+}
+
+type EntryTotals = Pick<PeriodEntry, 'ratingGain' | 'wins' | 'matches'>;
+
+const addTo = (totals: PeriodTotals, key: keyof PeriodTotals, amount: number) => {
+  totals[key] = (totals[key] ?? 0) + amount;
+};
+
+/**
+ * Creates (or updates) a custom season and rebuilds its totals from the
+ * matches already played in it
+ * @param db - Firestore instance
+ * @param season - Season ID, label and date range
+ * @param nowMs - Current time in epoch ms
+ * @param dryRun - Count what would be written without writing
+ * @returns Counts of matches read and players written
+ */
+export const createLeaderboardSeason = async (
+  db: Firestore,
+  season: PeriodBounds,
+  nowMs: number,
+  dryRun: boolean
+): Promise<SeasonResult> => {
+  const seasonRef = db.collection('leaderboardPeriods').doc(season.id);
+  const snapshot = season.startMs < nowMs
+    ? await db
+      .collection('matches')
+      .where('createdAt', '>=', Timestamp.fromMillis(season.startMs))
+      .where('createdAt', '<', Timestamp.fromMillis(Math.min(season.endMs, nowMs)))
+      .get()
+    : null;
+
+  const totals = new Map<string, EntryTotals>();
+  snapshot?.docs.forEach((doc) => {
+    const match = doc.data() as Match;
+    const key = match.ratingCategory ?? getRankingKey(match.gameCategory);
+
+    match.players.forEach((player) => {
+      const entry = totals.get(player.uid) ?? { ratingGain: {}, wins: {}, matches: {} };
+      addTo(entry.ratingGain, key, player.pointsChange);
+      addTo(entry.wins, key, match.winnerIds.includes(player.uid) ? 1 : 0);
+      addTo(entry.matches, key, 1);
+      totals.set(player.uid, entry);
+    });
+  });
+
+  const result: SeasonResult = { matchesRead: snapshot?.size ?? 0, playersWritten: totals.size };
+  if (dryRun) return result;
+
+  await seasonRef.set({
+    type: 'custom',
+    label: season.label,
+    startAt: Timestamp.fromMillis(season.startMs),
+    endAt: Timestamp.fromMillis(season.endMs),
+    status: 'active',
+  });
+
+  const uids = [...totals.keys()];
+  for (let i = 0; i < uids.length; i += BATCH_SIZE) {
+    const chunk = uids.slice(i, i + BATCH_SIZE);
+    const userSnaps = await db.getAll(...chunk.map((uid) => db.collection('users').doc(uid)));
+    const batch = db.batch();
+
+    userSnaps.forEach((userSnap) => {
+      const photoURL = userSnap.get('profilePictureUrl') || userSnap.get('photoURL');
+      const gender = userSnap.get('gender');
+
+      batch.set(seasonRef.collection('entries').doc(userSnap.id), {
+        uid: userSnap.id,
+        username: userSnap.get('username') ?? '',
+        displayName: userSnap.get('displayName') || 'Unknown',
+        ...(photoURL && { photoURL }),
+        ...((gender === 'male' || gender === 'female') && { gender }),
+        ...totals.get(userSnap.id),
+        updatedAt: Timestamp.fromMillis(nowMs),
+      });
+    });
+
+    await batch.commit();
+  }
+
+  return result;
+};
+
+/**
+ * Reads --name=value arguments
+ */
+const getArg = (name: string): string | undefined => {
+  const prefix = `--${name}=`;
+  return process.argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+};
+
+if (require.main === module) {
+  initializeApp();
+  const dryRun = process.argv.includes('--dry-run');
+  const [id, label, start, end] = ['id', 'label', 'start', 'end'].map(getArg);
+  const startMs = Date.parse(start ?? '');
+  const endMs = Date.parse(end ?? '');
+
+  if (!id || !label || Number.isNaN(startMs) || Number.isNaN(endMs) || endMs <= startMs) {
+    console.error('Usage: --id=<season-id> --label=<name> --start=<YYYY-MM-DD> --end=<YYYY-MM-DD> [--dry-run]');
+    process.exit(1);
+  }
+
+  createLeaderboardSeason(getFirestore(), { id, type: 'custom', label, startMs, endMs }, Date.now(), dryRun)
+    .then((result) => {
+      console.log(dryRun ? 'Dry run, nothing written:' : 'Season created:', result);
+    })
+    .catch((error) => {
+      console.error('Creating leaderboard season failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,260 @@
+/**
+ * migrateMatches
+ * One-off migration onto the unified `matches` collection. Per-player records
+ * from `matchHistory` (written by settleMatch) and legacy per-player records in
+ * `matches` (written by the old client path) are grouped back into the match
+ * they came from and rewritten as one Match document per match.
+ *
+ * Legacy `matches` records are replaced; `matchHistory` is left in place as a
+ * read-only archive. Match IDs are derived from the source records, so the
+ * migration can be re-run safely.
+ *
+ * Run with admin credentials (GOOGLE_APPLICATION_CREDENTIALS, or
+ * FIRESTORE_EMULATOR_HOST against the emulator):
+ *   npm run migrate:matches -- --dry-run
+ *   npm run migrate:matches
+ */
+
+import { initializeApp } from 'firebase-admin/app';
+import { getFirestore, FieldPath } from 'firebase-admin/firestore';
+import type { CollectionReference, Firestore, Timestamp } from 'firebase-admin/firestore';
+import { getPlayerPairs } from '../../../src/lib/matchRecords';
+import type { Match, MatchPlayer } from '../../../src/types/game';
+import type { MatchHistoryRecord } from '../../../src/types/user';
+
+// Documents read per page and writes per batch (Firestore allows 500 per batch)
+const PAGE_SIZE = 500;
+const BATCH_SIZE = 400;
+
+// Per-player records of one match are written together; the legacy client path
+// wrote them one after another, so allow a few minutes between them
+const MATCH_WINDOW_MS = 5 * 60 * 1000;
+
+type LegacySource = 'matchHistory' | 'matches';
+
+interface LegacyRecord extends Omit<MatchHistoryRecord, 'createdAt'> {
+  source: LegacySource;
+  duration?: number;
+  createdAt: Timestamp;
+}
+
+export interface MigrationResult {
+  recordsRead: number;
+  matchesWritten: number;
+  duplicatesSkipped: number;
+  legacyRecordsDeleted: number;
+}
+
+/**
+ * Reads every per-player record in a collection, page by page
+ * Unified Match documents already in `matches` are skipped
+ */
+const readLegacyRecords = async (
+  collectionRef: CollectionReference,
+  source: LegacySource
+): Promise<LegacyRecord[]> => {
+  const records: LegacyRecord[] = [];
+  let lastId: string | null = null;
+
+  for (;;) {
+    let pageQuery = collectionRef.orderBy(FieldPath.documentId()).limit(PAGE_SIZE);
+    if (lastId) pageQuery = pageQuery.startAfter(lastId);
+
+    const snapshot = await pageQuery.get();
+    snapshot.docs.forEach((doc) => {
+      const data = doc.data();
+      if (typeof data.playerId !== 'string' || Array.isArray(data.players)) return;
+      records.push({ ...(data as Omit<LegacyRecord, 'id' | 'source'>), id: doc.id, source });
+    });
+
+    if (snapshot.size < PAGE_SIZE) return records;
+    lastId = snapshot.docs[snapshot.size - 1].id;
+  }
+};
+
+/**
+ * Groups per-player records into the matches they came from
+ * Records share a match when they have the same room code, were written
+ * within MATCH_WINDOW_MS of each other and name each player at most once.
+ */
+const groupRecords = (records: LegacyRecord[]): LegacyRecord[][] => {
+  const sorted = [...records].sort((a, b) =>
+    a.gameId.localeCompare(b.gameId) || a.createdAt.toMillis() - b.createdAt.toMillis()
+  );
+  const groups: LegacyRecord[][] = [];
+  let current: LegacyRecord[] = [];
+
+  sorted.forEach((record) => {
+    const first = current[0];
+    const maxPlayers = record.gameType === 'singles' ? 2 : 4;
+    const sameMatch = !!first &&
+      first.gameId === record.gameId &&
+      record.createdAt.toMillis() - first.createdAt.toMillis() <= MATCH_WINDOW_MS &&
+      current.length < maxPlayers &&
+      !current.some((r) => r.playerId === record.playerId);
+
+    if (!sameMatch) {
+      current = [];
+      groups.push(current);
+    }
+    current.push(record);
+  });
+
+  return groups;
+};
+
+/**
+ * Gets a key that identifies a match by room code and players, so the same
+ * match recorded in both collections is only migrated once
+ */
+const getGroupKey = (group: LegacyRecord[]): string => {
+  return [group[0].gameId, ...group.map((r) => r.playerId).sort()].join('|');
+};
+
+/**
+ * Collects display names for players from the records that name them
+ * Records never store the player's own name, only their opponents' and partner's
+ */
+const collectNames = (records: LegacyRecord[]): Map<string, string> => {
+  const names = new Map<string, string>();
+
+  records.forEach((record) => {
+    record.opponentIds?.forEach((uid, index) => {
+      const name = record.opponentNames[index];
+      if (name) names.set(uid, name);
+    });
+    if (record.partnerId && record.partnerName) {
+      names.set(record.partnerId, record.partnerName);
+    }
+  });
+
+  return names;
+};
+
+/**
+ * Merges one match's per-player records into a Match document
+ * Records do not store the player's team, so winners are placed on the team
+ * with the higher match score (team 1 when no score was recorded).
+ */
+const mergeRecords = (
+  group: LegacyRecord[],
+  names: Map<string, string>
+): Omit<Match, 'createdAt'> & { createdAt: Timestamp } => {
+  const [first] = group;
+  const scored = group.find((r) => r.score);
+  const winner: Match['winner'] = scored?.score && scored.score.team2 > scored.score.team1 ? 2 : 1;
+  const loser: MatchPlayer['team'] = winner === 1 ? 2 : 1;
+
+  const players: MatchPlayer[] = group
+    .map((record) => ({
+      uid: record.playerId,
+      displayName: names.get(record.playerId) ?? 'Unknown',
+      team: record.result === 'win' ? winner : loser,
+      pointsChange: record.pointsChange,
+      ...(record.ratingBefore !== undefined && { ratingBefore: record.ratingBefore }),
+      ...(record.ratingAfter !== undefined && { ratingAfter: record.ratingAfter }),
+    }))
+    .sort((a, b) => a.team - b.team);
+  const playerIds = players.map((p) => p.uid);
+
+  const ratingCategory = group.find((r) => r.ratingCategory)?.ratingCategory;
+  const games = group.find((r) => r.games)?.games;
+  const duration = group.find((r) => typeof r.duration === 'number')?.duration;
+
+  return {
+    id: first.id,
+    gameId: first.gameId,
+    gameType: first.gameType,
+    gameCategory: first.gameCategory,
+    ...(ratingCategory && { ratingCategory }),
+    players,
+    playerIds,
+    playerPairs: getPlayerPairs(playerIds),
+    winnerIds: players.filter((p) => p.team === winner).map((p) => p.uid),
+    loserIds: players.filter((p) => p.team === loser).map((p) => p.uid),
+    winner,
+    ...(scored?.score && { score: scored.score }),
+    ...(games && { games }),
+    ...(duration !== undefined && { duration }),
+    status: group.every((r) => r.status === 'confirmed') ? 'confirmed' : 'pending',
+    createdAt: first.createdAt,
+  };
+};
+
+/**
+ * Migrates per-player match records onto one Match document per match
+ * @param db - Firestore instance
+ * @param dryRun - Count what would change without writing
+ * @returns Counts of records read, matches written and legacy records removed
+ */
+export const migrateMatches = async (db: Firestore, dryRun: boolean): Promise<MigrationResult> => {
+  const matchesRef = db.collection('matches');
+  const historyRecords = await readLegacyRecords(db.collection('matchHistory'), 'matchHistory');
+  const legacyRecords = await readLegacyRecords(matchesRef, 'matches');
+  const allRecords = [...historyRecords, ...legacyRecords];
+
+  // Settled history wins over the unverified legacy copy of the same match
+  const historyGroups = groupRecords(historyRecords);
+  const settledKeys = new Set(historyGroups.map(getGroupKey));
+  const legacyGroups = groupRecords(legacyRecords);
+  const newLegacyGroups = legacyGroups.filter((group) => !settledKeys.has(getGroupKey(group)));
+
+  // Fill in names the records cannot provide from user profiles
+  const names = collectNames(allRecords);
+  const unnamedIds = [...new Set(allRecords.map((r) => r.playerId))].filter((uid) => !names.has(uid));
+  if (unnamedIds.length > 0) {
+    const userSnaps = await db.getAll(...unnamedIds.map((uid) => db.collection('users').doc(uid)));
+    userSnaps.forEach((snap) => {
+      const displayName = snap.get('displayName');
+      if (typeof displayName === 'string' && displayName) names.set(snap.id, displayName);
+    });
+  }
+
+  const matches = [...historyGroups, ...newLegacyGroups].map((group) => mergeRecords(group, names));
+  const matchIds = new Set(matches.map((match) => match.id));
+  const legacyToDelete = legacyRecords.filter((record) => !matchIds.has(record.id));
+
+  const result: MigrationResult = {
+    recordsRead: allRecords.length,
+    matchesWritten: matches.length,
+    duplicatesSkipped: legacyGroups.length - newLegacyGroups.length,
+    legacyRecordsDeleted: legacyToDelete.length,
+  };
+
+  if (dryRun) {
+    return result;
+  }
+
+  const writes = [
+    ...matches.map(({ id, ...match }) => ({ id, match })),
+    ...legacyToDelete.map((record) => ({ id: record.id, match: null })),
+  ];
+
+  for (let i = 0; i < writes.length; i += BATCH_SIZE) {
+    const batch = db.batch();
+    writes.slice(i, i + BATCH_SIZE).forEach(({ id, match }) => {
+      if (match) {
+        batch.set(matchesRef.doc(id), match);
+      } else {
+        batch.delete(matchesRef.doc(id));
+      }
+    });
+    await batch.commit();
+  }
+
+  return result;
+};
+
+if (require.main === module) {
+  initializeApp();
+  const dryRun = process.argv.includes('--dry-run');
+
+  migrateMatches(getFirestore(), dryRun)
+    .then((result) => {
+      console.log(dryRun ? 'Dry run, nothing written:' : 'Migration complete:', result);
+    })
+    .catch((error) => {
+      console.error('Match migration failed:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,341 @@
+/**
+ * settleMatch
+ * Trusted match settlement: checks the proposed score was confirmed by every
+ * player (or timed out), re-derives stakes from current ratings, writes the
+ * match document and applies ranking deltas in a single transaction.
+ * Tournament matches and ladder challenges also record their result, and
+ * every match adds to its players' period and club leaderboard totals.
+ */
+
+import { onCall, HttpsError } from 'firebase-functions/v2/https';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import type { DocumentSnapshot, Firestore } from 'firebase-admin/firestore';
+import {
+  MARGIN_OF_VICTORY_ENABLED,
+  getDefaultRankings,
+  getGameCategory,
+  getMarginMultiplier,
+  getPointChanges,
+  getRankingKey,
+  updateRankings,
+} from '../../src/lib/points';
+import type { SeatedPlayer } from '../../src/lib/points';
+import { calculateMatchStakes, getUncertaintyUpdates } from '../../src/lib/ratingEngine';
+import {
+  getGameFormat,
+  getMatchResult,
+  getMatchScore,
+  isSupportedGameFormat,
+} from '../../src/lib/scoreValidation';
+import { getPlayerPairs } from '../../src/lib/matchRecords';
+import { getCareerCountKey, getNextStreak } from '../../src/lib/careerStats';
+import {
+  MATCH_ALREADY_SETTLED_ERROR,
+  SCORE_NOT_READY_ERROR,
+  canSettleScore,
+  getLobbyPlayerIds,
+  validatePickleballScore,
+} from '../../src/lib/validation';
+import { getTournamentResultWrites } from './tournamentResults';
+import { getLadderResultWrites } from './ladderResults';
+import { getPeriodLeaderboardWrites } from './periodLeaderboards';
+import { getClubResultWrites } from './clubResults';
+import type { GameScore, Lobby, Player, Team } from '../../src/types/lobby';
+import type { MatchPlayer, SettleMatchRequest, SettleMatchResponse } from '../../src/types/game';
+import type { UserRankings } from '../../src/types/user';
+
+/**
+ * Gets the UIDs of every player seated on a team
+ */
+const getTeamPlayers = (team: Team): Player[] => {
+  return [team.player1, team.player2].filter((p): p is Player => !!p?.uid);
+};
+
+/**
+ * Reads rating inputs for one player from their user document
+ */
+const getRatedPlayer = (
+  userSnap: DocumentSnapshot,
+  rankingCategory: keyof UserRankings
+): SeatedPlayer => {
+  return {
+    uid: userSnap.id,
+    rating: userSnap.get(`rankings.${rankingCategory}`) ?? 1000,
+    gamesPlayed: userSnap.get('matchStats.totalMatches') ?? 0,
+    deviation: userSnap.get(`rankingDeviations.${rankingCategory}`),
+    volatility: userSnap.get(`rankingVolatilities.${rankingCategory}`),
+  };
+};
+
+/**
+ * Validates the untrusted callable payload
+ */
+const parseRequest = (data: unknown): SettleMatchRequest => {
+  const payload = (data ?? {}) as Partial<SettleMatchRequest>;
+
+  if (typeof payload.roomCode !== 'string' || payload.roomCode.length === 0) {
+    throw new HttpsError('invalid-argument', 'roomCode is required');
+  }
+
+  return { roomCode: payload.roomCode };
+};
+
+/**
+ * Settles a lobby's submitted score in one transaction
+ * Used by the settleMatch callable and by the lobby sweeper, which settles
+ * scores whose confirmation window passed while nobody had the app open
+ * @param db - Firestore instance
+ * @param roomCode - Lobby to settle
+ * @param nowMs - Current time in epoch ms (decides the confirmation timeout)
+ * @param callerId - Player asking to settle; omitted when the sweeper settles
+ * @returns Winning team and each player's rating change
+ */
+export const settleLobby = async (
+  db: Firestore,
+  roomCode: string,
+  nowMs: number,
+  callerId?: string
+): Promise<SettleMatchResponse> => {
+  const lobbyRef = db.collection('lobbies').doc(roomCode);
+
+  return db.runTransaction(async (tx): Promise<SettleMatchResponse> => {
+    // All reads must happen before any writes in a transaction
+    const lobbySnap = await tx.get(lobbyRef);
+
+    if (!lobbySnap.exists) {
+      throw new HttpsError('not-found', 'Lobby not found');
+    }
+
+    const lobby = lobbySnap.data() as Lobby;
+
+    if (callerId !== undefined && !getLobbyPlayerIds(lobby).includes(callerId)) {
+      throw new HttpsError('permission-denied', 'Only players in this match can settle it');
+    }
+
+    if (!lobby.gameStarted) {
+      throw new HttpsError('failed-precondition', 'Game has not started yet');
+    }
+
+    if (lobby.gameCompleted) {
+      throw new HttpsError('failed-precondition', MATCH_ALREADY_SETTLED_ERROR);
+    }
+
+    if (!lobby.proposedScores || !canSettleScore(lobby, nowMs)) {
+      throw new HttpsError(
+        'failed-precondition',
+        lobby.scoreStatus === 'disputed'
+          ? 'Score is disputed and must be resolved by the host'
+          : SCORE_NOT_READY_ERROR
+      );
+    }
+
+    // Lobbies submitted before per-game scores only carry proposedScores
+    const gameFormat = getGameFormat(lobby);
+    if (!isSupportedGameFormat(gameFormat)) {
+      throw new HttpsError('failed-precondition', 'Unsupported game format');
+    }
+
+    const games: GameScore[] = lobby.proposedGames ?? [lobby.proposedScores];
+    if (!Array.isArray(games) || games.length > gameFormat.bestOf) {
+      throw new HttpsError('failed-precondition', 'Invalid score');
+    }
+
+    // The proposed games are client-written: every game must be a whole,
+    // non-negative score within the maximum before the result is worked out
+    const gameError = games
+      .map((game) => validatePickleballScore(game?.team1, game?.team2, gameFormat))
+      .find((error) => error !== null);
+    if (gameError) {
+      throw new HttpsError('failed-precondition', gameError);
+    }
+
+    const matchResult = getMatchResult(games, gameFormat);
+    if (!matchResult.valid || !matchResult.winner) {
+      throw new HttpsError('failed-precondition', matchResult.error || 'Invalid score');
+    }
+    const { team1: team1Score, team2: team2Score } = getMatchScore(games, gameFormat);
+
+    const team1Players = getTeamPlayers(lobby.team1);
+    const team2Players = getTeamPlayers(lobby.team2);
+    const requiredPlayers = lobby.gameMode === 'singles' ? 1 : 2;
+
+    if (team1Players.length !== requiredPlayers || team2Players.length !== requiredPlayers) {
+      throw new HttpsError('failed-precondition', 'Both teams must be full to settle a match');
+    }
+
+    const allPlayers = [...team1Players, ...team2Players];
+    const userRefs = allPlayers.map((p) => db.collection('users').doc(p.uid));
+    const userSnaps = await tx.getAll(...userRefs);
+
+    // Rating track comes from the players' genders, not the client-written lobby field
+    const gameCategory = getGameCategory(
+      lobby.gameMode,
+      userSnaps.map((snap) => snap.get('gender'))
+    );
+    const rankingCategory = getRankingKey(gameCategory);
+
+    const ratedPlayers = userSnaps.map((snap) => getRatedPlayer(snap, rankingCategory));
+    const team1Rated = ratedPlayers.slice(0, requiredPlayers);
+    const team2Rated = ratedPlayers.slice(requiredPlayers);
+    const stakesSnapshot = calculateMatchStakes(team1Rated, team2Rated);
+
+    // One rating update per match, decided by the match result (not each game)
+    const winner = matchResult.winner;
+    const [winners, losers] = winner === 1
+      ? [team1Players, team2Players]
+      : [team2Players, team1Players];
+    const team1Points = games.reduce((sum, game) => sum + game.team1, 0);
+    const team2Points = games.reduce((sum, game) => sum + game.team2, 0);
+    const marginMultiplier = MARGIN_OF_VICTORY_ENABLED
+      ? getMarginMultiplier(Math.max(team1Points, team2Points), Math.min(team1Points, team2Points))
+      : 1;
+    const pointChanges = getPointChanges(
+      stakesSnapshot,
+      winners.map((p) => p.uid),
+      losers.map((p) => p.uid),
+      marginMultiplier
+    );
+    const uncertaintyUpdates = getUncertaintyUpdates(team1Rated, team2Rated, winner);
+
+    // Tournament matches advance their bracket and ladder challenges move
+    // the rungs (read before any writes)
+    const tournamentWrites = await getTournamentResultWrites(
+      db,
+      tx,
+      roomCode,
+      lobby,
+      winner,
+      games,
+      { team1: team1Score, team2: team2Score }
+    );
+    const ladderWrites = await getLadderResultWrites(
+      db,
+      tx,
+      roomCode,
+      lobby,
+      winner,
+      { team1: team1Score, team2: team2Score },
+      nowMs
+    );
+    const periodWrites = await getPeriodLeaderboardWrites(
+      db,
+      tx,
+      nowMs,
+      userSnaps,
+      pointChanges,
+      winners.map((p) => p.uid),
+      rankingCategory
+    );
+    const clubWrites = await getClubResultWrites(
+      db,
+      tx,
+      userSnaps,
+      pointChanges,
+      winners.map((p) => p.uid)
+    );
+
+    const startedAt = lobby.gameStartedAt?.toMillis() ?? nowMs;
+    const gameDuration = Math.floor((nowMs - startedAt) / 1000);
+
+    const matchPlayers: MatchPlayer[] = [];
+
+    allPlayers.forEach((player, index) => {
+      const isTeam1 = index < requiredPlayers;
+      const isWinner = (winner === 1) === isTeam1;
+      const playerPoints = pointChanges[player.uid];
+
+      const userSnap = userSnaps[index];
+      const currentRankings: UserRankings = {
+        ...getDefaultRankings(),
+        ...(userSnap.get('rankings') as Partial<UserRankings> | undefined),
+      };
+      const newRankings = updateRankings(currentRankings, rankingCategory, playerPoints);
+
+      matchPlayers.push({
+        uid: player.uid,
+        displayName: player.displayName || 'Unknown',
+        team: isTeam1 ? 1 : 2,
+        pointsChange: playerPoints,
+        ratingBefore: currentRankings[rankingCategory],
+        ratingAfter: newRankings[rankingCategory],
+      });
+
+      if (!userSnap.exists) {
+        return;
+      }
+
+      const currentStreak = userSnap.get('matchStats.currentStreak') ?? 0;
+      const bestWinStreak = userSnap.get('matchStats.bestWinStreak') ?? 0;
+      const streak = getNextStreak(currentStreak, isWinner);
+
+      tx.update(userSnap.ref, {
+        [`rankings.${rankingCategory}`]: newRankings[rankingCategory],
+        [`rankingDeviations.${rankingCategory}`]: uncertaintyUpdates[player.uid].deviation,
+        [`rankingVolatilities.${rankingCategory}`]: uncertaintyUpdates[player.uid].volatility,
+        'matchStats.wins': FieldValue.increment(isWinner ? 1 : 0),
+        'matchStats.losses': FieldValue.increment(isWinner ? 0 : 1),
+        'matchStats.totalMatches': FieldValue.increment(1),
+        [`matchStats.${getCareerCountKey(lobby.gameMode, isWinner)}`]: FieldValue.increment(1),
+        'matchStats.currentStreak': streak,
+        'matchStats.bestWinStreak': Math.max(bestWinStreak, streak),
+        lastMatchAt: FieldValue.serverTimestamp(),
+      });
+    });
+
+    // One match document; each player's history is a projection of it
+    const playerIds = allPlayers.map((p) => p.uid);
+    tx.set(db.collection('matches').doc(), {
+      gameId: roomCode,
+      gameType: lobby.gameMode,
+      gameCategory,
+      ratingCategory: rankingCategory,
+      players: matchPlayers,
+      playerIds,
+      playerPairs: getPlayerPairs(playerIds),
+      winnerIds: winners.map((p) => p.uid),
+      loserIds: losers.map((p) => p.uid),
+      winner,
+      score: {
+        team1: team1Score,
+        team2: team2Score,
+      },
+      // Only include per-game scores for best-of-N matches
+      ...(gameFormat.bestOf > 1 ? { games } : {}),
+      duration: gameDuration,
+      status: 'confirmed',
+      createdAt: FieldValue.serverTimestamp(),
+    });
+
+    tx.update(lobbyRef, {
+      gameCompleted: true,
+      gameCompletedAt: FieldValue.serverTimestamp(),
+      finalScores: {
+        team1: team1Score,
+        team2: team2Score,
+      },
+      finalGames: games,
+      gameCategory,
+      winner,
+      pointChanges,
+      stakesSnapshot,
+      lastActivity: FieldValue.serverTimestamp(),
+    });
+
+    [...tournamentWrites, ...ladderWrites, ...periodWrites, ...clubWrites].forEach(({ ref, data }) =>
+      tx.set(ref, data, { merge: true })
+    );
+
+    return { winner, pointChanges };
+  });
+};
+
+export const settleMatch = onCall<SettleMatchRequest, Promise<SettleMatchResponse>>(
+  async (request) => {
+    if (!request.auth) {
+      throw new HttpsError('unauthenticated', 'You must be signed in to settle a match');
+    }
+
+    const { roomCode } = parseRequest(request.data);
+    return settleLobby(getFirestore(), roomCode, Date.now(), request.auth.uid);
+  }
+);
@@ -0,0 +1,74 @@
+/**
+ * syncClubChat
+ * Keeps a club's group chat in step with the club: members follow memberIds,
+ * and the chat takes the club's name and photo. Only the chat created for
+ * the club (chat.clubId) is ever written.
+ */
+
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import * as logger from 'firebase-functions/logger';
+import { getFirestore, FieldValue } from 'firebase-admin/firestore';
+import type { Chat, ChatParticipant } from '../../src/types/chat';
+import type { Club } from '../../src/types/club';
+
+export const syncClubChat = onDocumentUpdated('clubs/{clubId}', async (event) => {
+  const after = event.data?.after.data() as Club | undefined;
+
+  if (!after?.chatId) {
+    return;
+  }
+
+  const db = getFirestore();
+  const chatRef = db.collection('chats').doc(after.chatId);
+  const chatSnap = await chatRef.get();
+
+  if (!chatSnap.exists) {
+    return;
+  }
+
+  const chat = chatSnap.data() as Chat;
+  if (chat.clubId !== event.params.clubId) {
+    logger.warn('Club chatId points at another chat', {
+      clubId: event.params.clubId,
+      chatId: after.chatId,
+    });
+    return;
+  }
+
+  const addedIds = after.memberIds.filter((id) => !chat.participantIds.includes(id));
+  const removedIds = chat.participantIds.filter((id) => !after.memberIds.includes(id));
+  const photoURL = after.photoURL ?? null;
+  const renamed = chat.name !== after.name || (chat.photoURL ?? null) !== photoURL;
+
+  if (addedIds.length === 0 && removedIds.length === 0 && !renamed) {
+    return;
+  }
+
+  const chatUpdates: Record<string, unknown> = {
+    participantIds: after.memberIds,
+    name: after.name,
+    photoURL,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+
+  after.members
+    .filter((member) => addedIds.includes(member.uid))
+    .forEach((member) => {
+      const participant: ChatParticipant = {
+        userId: member.uid,
+        username: member.username,
+        displayName: member.displayName,
+        photoURL: member.photoURL ?? null,
+      };
+      chatUpdates[`participantInfo.${member.uid}`] = participant;
+      chatUpdates[`unreadCount.${member.uid}`] = 0;
+    });
+
+  await chatRef.update(chatUpdates);
+
+  logger.info('Club chat synced', {
+    clubId: event.params.clubId,
+    added: addedIds.length,
+    removed: removedIds.length,
+  });
+});
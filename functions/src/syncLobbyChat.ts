@@ -0,0 +1,120 @@
+/**
+ * syncLobbyChat
+ * Keeps a lobby's chat in step with the lobby: members follow the team slots
+ * and waiting list, lobby changes are posted as system messages, and the chat
+ * is archived once the game is over.
+ */
+
+import { onDocumentUpdated } from 'firebase-functions/v2/firestore';
+import * as logger from 'firebase-functions/logger';
+import { getFirestore, FieldValue, Timestamp } from 'firebase-admin/firestore';
+import {
+  SYSTEM_SENDER_ID,
+  SYSTEM_SENDER_NAME,
+  getLobbyChatEvents,
+  getLobbyChatMemberIds,
+  isLobbyChatFor,
+} from '../../src/lib/lobbyChat';
+import type { Chat, ChatParticipant } from '../../src/types/chat';
+import type { Lobby } from '../../src/types/lobby';
+
+export const syncLobbyChat = onDocumentUpdated('lobbies/{roomCode}', async (event) => {
+  const before = event.data?.before.data() as Lobby | undefined;
+  const after = event.data?.after.data() as Lobby | undefined;
+
+  if (!before || !after?.chatId) {
+    return;
+  }
+
+  const db = getFirestore();
+  const chatRef = db.collection('chats').doc(after.chatId);
+  const chatSnap = await chatRef.get();
+
+  if (!chatSnap.exists) {
+    return;
+  }
+
+  const chat = chatSnap.data() as Chat;
+  if (!isLobbyChatFor(chatRef.id, chat, event.params.roomCode)) {
+    logger.warn('Lobby chatId points at another chat', {
+      roomCode: event.params.roomCode,
+      chatId: chatRef.id,
+    });
+    return;
+  }
+
+  if (chat.archived) {
+    return;
+  }
+
+  const memberIds = getLobbyChatMemberIds(after);
+  const addedIds = memberIds.filter((id) => !chat.participantIds.includes(id));
+  const removedIds = chat.participantIds.filter((id) => !memberIds.includes(id));
+  const events = getLobbyChatEvents(before, after);
+  const archive = !!after.gameCompleted;
+
+  if (addedIds.length === 0 && removedIds.length === 0 && events.length === 0 && !archive) {
+    return;
+  }
+
+  const newUserSnaps = await Promise.all(addedIds.map((id) => db.collection('users').doc(id).get()));
+  const batch = db.batch();
+  const chatUpdates: Record<string, unknown> = {
+    participantIds: memberIds,
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+
+  newUserSnaps.forEach((userSnap) => {
+    const participant: ChatParticipant = {
+      userId: userSnap.id,
+      username: userSnap.get('username') ?? '',
+      displayName: userSnap.get('displayName') ?? 'Unknown',
+      photoURL: userSnap.get('profilePictureUrl') ?? null,
+    };
+    chatUpdates[`participantInfo.${userSnap.id}`] = participant;
+    chatUpdates[`unreadCount.${userSnap.id}`] = 0;
+  });
+
+  // Messages are ordered by createdAt; a server timestamp would tie them
+  const nowMs = Date.now();
+  events.forEach((text, index) => {
+    batch.set(chatRef.collection('messages').doc(), {
+      senderId: SYSTEM_SENDER_ID,
+      senderName: SYSTEM_SENDER_NAME,
+      text,
+      type: 'system',
+      createdAt: Timestamp.fromMillis(nowMs + index),
+      readBy: [],
+    });
+  });
+
+  if (events.length > 0) {
+    chatUpdates.lastMessage = {
+      text: events[events.length - 1],
+      senderId: SYSTEM_SENDER_ID,
+      senderName: SYSTEM_SENDER_NAME,
+      timestamp: FieldValue.serverTimestamp(),
+    };
+    memberIds
+      .filter((id) => !addedIds.includes(id))
+      .forEach((id) => {
+        chatUpdates[`unreadCount.${id}`] = FieldValue.increment(events.length);
+      });
+  }
+
+  if (archive) {
+    chatUpdates.archived = true;
+    chatUpdates.archivedAt = FieldValue.serverTimestamp();
+  }
+
+  batch.update(chatRef, chatUpdates);
+  await batch.commit();
+
+  logger.info('Lobby chat synced', {
+    roomCode: after.roomCode,
+    added: addedIds.length,
+    removed: removedIds.length,
+    events: events.length,
+    archived: archive,
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tournament Results
+ * Feeds a settled lobby's result into its tournament: records the match,
+ * advances the bracket and completes the tournament after its last match.
+ * Runs inside the settleMatch transaction.
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import type { DocumentReference, Firestore, Transaction } from 'firebase-admin/firestore';
+import * as logger from 'firebase-functions/logger';
+import { applyMatchResult, isScheduleComplete } from '../../src/lib/tournament';
+import { getChampionIds } from '../../src/lib/tournamentStandings';
+import { getLobbyPlayerIds } from '../../src/lib/validation';
+import type { GameScore, Lobby, Team } from '../../src/types/lobby';
+import type { Tournament, TournamentMatch, TournamentSide } from '../../src/types/tournament';
+
+// A document write settleMatch merges in after its own (tournaments, ladders, periods, clubs)
+export interface ResultWrite {
+  ref: DocumentReference;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Checks if a lobby team holds exactly a side's players
+ */
+const isSameSide = (team: Team, side: TournamentSide | null): boolean => {
+  const teamIds = [team.player1?.uid, team.player2?.uid].filter(Boolean).sort();
+  const sideIds = [...(side?.playerIds ?? [])].sort();
+  return teamIds.length === sideIds.length && teamIds.every((uid, index) => uid === sideIds[index]);
+};
+
+/**
+ * Reads the tournament a lobby was started for and works out the writes
+ * that record its result. All reads happen here, before settleMatch writes.
+ * Lobbies whose players no longer match the scheduled sides are skipped;
+ * the organizer can reset the match and start it again.
+ * @param db - Firestore
+ * @param tx - settleMatch transaction
+ * @param roomCode - Lobby document ID
+ * @param lobby - Lobby being settled
+ * @param winner - Winning lobby team
+ * @param games - Per-game scores
+ * @param score - Match score
+ * @returns Writes to apply, empty when the lobby is not a tournament match
+ */
+export const getTournamentResultWrites = async (
+  db: Firestore,
+  tx: Transaction,
+  roomCode: string,
+  lobby: Lobby,
+  winner: 1 | 2,
+  games: GameScore[],
+  score: GameScore
+): Promise<ResultWrite[]> => {
+  if (!lobby.tournamentId || !lobby.tournamentMatchId) {
+    return [];
+  }
+
+  const tournamentRef = db.collection('tournaments').doc(lobby.tournamentId);
+  const [tournamentSnap, matchesSnap] = await Promise.all([
+    tx.get(tournamentRef),
+    tx.get(tournamentRef.collection('matches')),
+  ]);
+
+  const tournament = tournamentSnap.data() as Tournament | undefined;
+  const matches = matchesSnap.docs.map((doc) => ({ ...doc.data(), id: doc.id } as TournamentMatch));
+  const match = matches.find((m) => m.id === lobby.tournamentMatchId);
+
+  if (tournament?.status !== 'in_progress' || match?.status !== 'in_progress' || match.roomCode !== roomCode) {
+    logger.warn('Lobby is not the active game of its tournament match', {
+      roomCode,
+      tournamentId: lobby.tournamentId,
+      matchId: lobby.tournamentMatchId,
+    });
+    return [];
+  }
+
+  // Players may have swapped sides in the lobby
+  const flipped = isSameSide(lobby.team1, match.team2) && isSameSide(lobby.team2, match.team1);
+  if (!flipped && !(isSameSide(lobby.team1, match.team1) && isSameSide(lobby.team2, match.team2))) {
+    logger.warn('Lobby players no longer match the tournament match', {
+      roomCode,
+      players: getLobbyPlayerIds(lobby),
+    });
+    return [];
+  }
+
+  const flip = (value: GameScore): GameScore => ({ team1: value.team2, team2: value.team1 });
+  const changed = applyMatchResult(
+    matches,
+    match.id,
+    flipped ? (winner === 1 ? 2 : 1) : winner,
+    flipped ? games.map(flip) : games,
+    flipped ? flip(score) : score
+  );
+
+  const writes: ResultWrite[] = changed.map(({ id, ...data }) => ({
+    ref: tournamentRef.collection('matches').doc(id),
+    data,
+  }));
+
+  const changedById = new Map(changed.map((m) => [m.id, m]));
+  const updatedMatches = matches.map((m) => changedById.get(m.id) ?? m);
+
+  if (isScheduleComplete(updatedMatches)) {
+    writes.push({
+      ref: tournamentRef,
+      data: {
+        status: 'completed',
+        championIds: getChampionIds(tournament, updatedMatches),
+        completedAt: FieldValue.serverTimestamp(),
+      },
+    });
+  }
+
+  return writes;
+};
@@ -67,8 +67,8 @@ export const ChatListItem = memo(({ chat, onPress }: ChatListItemProps) => {
     >
       {/* Avatar */}
       <View className="mr-4">
-        {chat.type === 'group' ? (
-          // Group chat avatar - photo or letter avatar
+        {chat.type === 'group' || chat.type === 'lobby' ? (
+          // Group or lobby chat avatar - photo or letter avatar
           <View className="items-center justify-center overflow-hidden bg-green-500 rounded-full w-14 h-14">
             {chat.displayPhotoURL ? (
               <Image
@@ -10,7 +10,7 @@ import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { Reply, Copy, Share2, Star } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
 
-import type { Message } from '@/types/chat';
+import type { Message, MessageType } from '@/types/chat';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -32,7 +32,7 @@ interface MenuAction {
   label: string;
   icon: React.ReactNode;
   onPress: () => void;
-  showForTypes?: ('text' | 'image' | 'location')[];
+  showForTypes?: MessageType[];
 }
 
 export const MessageContextMenu = memo(({
@@ -0,0 +1,67 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { Avatar } from '@/components/ui/Avatar';
+import type { ClubJoinRequest } from '@/types/club';
+
+interface ClubJoinRequestCardProps {
+  request: ClubJoinRequest;
+  disabled?: boolean;
+  onApprove: (request: ClubJoinRequest) => void;
+  onDecline: (request: ClubJoinRequest) => void;
+  onPress: (request: ClubJoinRequest) => void;
+}
+
+/**
+ * A pending request to join a club, for the owner and admins to answer
+ */
+export const ClubJoinRequestCard = memo(({
+  request,
+  disabled = false,
+  onApprove,
+  onDecline,
+  onPress,
+}: ClubJoinRequestCardProps) => {
+  return (
+    <View className="p-3 mb-2 bg-white border border-gray-200 rounded-lg">
+      <Pressable onPress={() => onPress(request)} className="flex-row items-center active:opacity-70">
+        <Avatar uri={request.photoURL} name={request.displayName} size="sm" />
+        <View className="flex-1 ml-3">
+          <Text className="text-sm font-medium !text-gray-900" numberOfLines={1}>
+            {request.displayName}
+          </Text>
+          <Text className="text-xs !text-gray-500" numberOfLines={1}>@{request.username}</Text>
+        </View>
+        {request.createdAt && (
+          <Text className="text-xs !text-gray-400">
+            {request.createdAt.toDate().toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+          </Text>
+        )}
+      </Pressable>
+
+      <View className="flex-row gap-2 mt-2">
+        <Pressable
+          onPress={() => onApprove(request)}
+          disabled={disabled}
+          className={`items-center flex-1 py-2 bg-green-500 rounded-lg ${
+            disabled ? 'opacity-50' : 'active:bg-green-600'
+          }`}
+        >
+          <Text className="text-sm font-semibold !text-white">Approve</Text>
+        </Pressable>
+        <Pressable
+          onPress={() => onDecline(request)}
+          disabled={disabled}
+          className={`items-center px-4 py-2 bg-gray-100 rounded-lg ${
+            disabled ? 'opacity-50' : 'active:bg-gray-200'
+          }`}
+        >
+          <Text className="text-sm font-semibold !text-gray-700">Decline</Text>
+        </Pressable>
+      </View>
+    </View>
+  );
+});
+
+ClubJoinRequestCard.displayName = 'ClubJoinRequestCard';
+
+export type { ClubJoinRequestCardProps };
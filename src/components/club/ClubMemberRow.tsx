@@ -0,0 +1,68 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { Avatar } from '@/components/ui/Avatar';
+import { CLUB_ROLE_LABELS } from '@/lib/club';
+import type { ClubMember, ClubRole } from '@/types/club';
+
+interface ClubMemberAction {
+  label: string;
+  onPress: (member: ClubMember) => void;
+  destructive?: boolean;
+}
+
+interface ClubMemberRowProps {
+  member: ClubMember;
+  role: ClubRole;
+  isMe?: boolean;
+  actions?: ClubMemberAction[];
+  onPress: (member: ClubMember) => void;
+}
+
+/**
+ * One club member with their role, and the management actions open to the viewer
+ */
+export const ClubMemberRow = memo(({ member, role, isMe = false, actions = [], onPress }: ClubMemberRowProps) => {
+  return (
+    <View className={`px-3 py-2.5 mb-1 rounded-lg ${isMe ? 'bg-green-50' : ''}`}>
+      <Pressable onPress={() => onPress(member)} className="flex-row items-center active:opacity-70">
+        <Avatar uri={member.photoURL} name={member.displayName} size="sm" />
+        <View className="flex-1 ml-3">
+          <Text
+            className={`text-sm ${isMe ? 'font-bold !text-green-700' : 'font-medium !text-gray-900'}`}
+            numberOfLines={1}
+          >
+            {member.displayName}
+          </Text>
+          <Text className="text-xs !text-gray-500" numberOfLines={1}>@{member.username}</Text>
+        </View>
+        {role !== 'member' && (
+          <View className={`px-2 py-0.5 rounded-full ${role === 'owner' ? 'bg-amber-100' : 'bg-gray-100'}`}>
+            <Text className={`text-xs font-semibold ${role === 'owner' ? '!text-amber-700' : '!text-gray-600'}`}>
+              {CLUB_ROLE_LABELS[role]}
+            </Text>
+          </View>
+        )}
+      </Pressable>
+
+      {actions.length > 0 && (
+        <View className="flex-row flex-wrap gap-2 mt-2 ml-11">
+          {actions.map((action) => (
+            <Pressable
+              key={action.label}
+              onPress={() => action.onPress(member)}
+              className="px-3 py-1 bg-gray-100 rounded-full active:bg-gray-200"
+            >
+              <Text className={`text-xs font-semibold ${action.destructive ? '!text-red-500' : '!text-gray-700'}`}>
+                {action.label}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+});
+
+ClubMemberRow.displayName = 'ClubMemberRow';
+
+export type { ClubMemberRowProps, ClubMemberAction };
@@ -0,0 +1,51 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { Avatar } from '@/components/ui/Avatar';
+import { Card } from '@/components/ui/Card';
+import { getRankDisplay } from '@/components/leaderboard/LeaderboardRow';
+import type { ClubStanding } from '@/types/club';
+
+interface ClubStandingRowProps {
+  standing: ClubStanding;
+  rank: number;
+  isCurrentUser?: boolean;
+  onPress?: () => void;
+}
+
+/**
+ * One row of a club leaderboard: record and rating gained in matches between members
+ */
+export const ClubStandingRow = memo(({ standing, rank, isCurrentUser, onPress }: ClubStandingRowProps) => {
+  const displayName = standing.displayName || 'Unknown User';
+  const ratingGain = Math.round(standing.ratingGain);
+
+  return (
+    <Card variant="outlined" className={`mb-3 py-0 px-0 ${isCurrentUser ? 'border-2 border-blue-500' : ''}`}>
+      <Pressable onPress={onPress} className="active:bg-gray-50">
+        <View className="flex-row items-center p-4">
+          <Avatar uri={standing.photoURL} name={displayName} size="md" />
+
+          <View className="flex-1 ml-3">
+            <Text className="text-base font-semibold text-gray-900">
+              {displayName}
+              {isCurrentUser && (
+                <Text className="text-sm font-normal text-blue-600"> (You)</Text>
+              )}
+            </Text>
+            <Text className="mt-1 text-sm text-gray-500">
+              {standing.wins}-{standing.losses} • {ratingGain > 0 ? '+' : ''}{ratingGain.toLocaleString()} rating
+            </Text>
+          </View>
+
+          <View className="items-center justify-center ml-4">
+            {getRankDisplay(rank)}
+          </View>
+        </View>
+      </Pressable>
+    </Card>
+  );
+});
+
+ClubStandingRow.displayName = 'ClubStandingRow';
+
+export type { ClubStandingRowProps };
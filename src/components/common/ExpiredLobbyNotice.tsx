@@ -0,0 +1,43 @@
+import { memo } from "react";
+import { View, Text, Pressable } from "react-native";
+import { Clock, X } from "lucide-react-native";
+import type { Lobby } from "@/types/lobby";
+
+interface ExpiredLobbyNoticeProps {
+  lobby: Lobby;
+  onDismiss: () => void;
+}
+
+/**
+ * Tells a player that one of their lobbies was closed by the expiry sweeper
+ */
+export const ExpiredLobbyNotice = memo(
+  ({ lobby, onDismiss }: ExpiredLobbyNoticeProps) => {
+    return (
+      <View className="p-4 mb-4 border-2 border-gray-200 rounded-lg bg-gray-50">
+        <View className="flex-row items-start gap-2">
+          <Clock size={20} color="#6b7280" className="mt-0.5" />
+          <View className="flex-1">
+            <Text className="mb-1 text-base font-semibold !text-gray-900">
+              {lobby.expiredReason === "idle" ? "Lobby Expired" : "Game Cancelled"}
+            </Text>
+            <Text className="text-sm !text-gray-600">
+              Room {lobby.roomCode}: {lobby.cancelReason ?? "closed for inactivity"}
+            </Text>
+          </View>
+          <Pressable
+            onPress={onDismiss}
+            hitSlop={8}
+            className="p-1 rounded-full active:bg-gray-200"
+          >
+            <X size={18} color="#6b7280" />
+          </Pressable>
+        </View>
+      </View>
+    );
+  }
+);
+
+ExpiredLobbyNotice.displayName = "ExpiredLobbyNotice";
+
+export type { ExpiredLobbyNoticeProps };
@@ -0,0 +1,152 @@
+import { memo, useEffect, useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator } from 'react-native';
+import { Scale } from 'lucide-react-native';
+import {
+  Actionsheet,
+  ActionsheetBackdrop,
+  ActionsheetContent,
+  ActionsheetDragIndicatorWrapper,
+  ActionsheetDragIndicator,
+} from '@gluestack-ui/themed';
+import type { TeamPairing } from '@/lib/teamBalance';
+
+interface BalanceTeamsSheetProps {
+  visible: boolean;
+  pairings: TeamPairing[];
+  loading: boolean;
+  onClose: () => void;
+  onApply: (pairing: TeamPairing) => Promise<void>;
+}
+
+const formatPercent = (probability: number): string => `${Math.round(probability * 100)}%`;
+
+export const BalanceTeamsSheet = memo(({
+  visible,
+  pairings,
+  loading,
+  onClose,
+  onApply,
+}: BalanceTeamsSheetProps) => {
+  const [selectedIndex, setSelectedIndex] = useState(0);
+
+  // Preselect the most balanced pairing each time the sheet opens
+  useEffect(() => {
+    if (visible) setSelectedIndex(0);
+  }, [visible, pairings]);
+
+  const selected = pairings[selectedIndex];
+
+  const handleApply = async (): Promise<void> => {
+    if (!selected) return;
+    onClose();
+    await onApply(selected);
+  };
+
+  return (
+    <Actionsheet isOpen={visible} onClose={onClose}>
+      <ActionsheetBackdrop />
+      <ActionsheetContent className="px-0 pb-8">
+        <ActionsheetDragIndicatorWrapper>
+          <ActionsheetDragIndicator />
+        </ActionsheetDragIndicatorWrapper>
+
+        <View className="w-full px-4 py-4">
+          {/* Title */}
+          <View className="flex-row items-center justify-center gap-2 mb-1">
+            <Scale size={20} color="#111827" />
+            <Text className="text-xl font-bold !text-gray-900">Balance Teams</Text>
+          </View>
+          <Text className="mb-4 text-sm text-center !text-gray-500">
+            Every pairing, most evenly matched first
+          </Text>
+
+          {loading ? (
+            <View className="items-center py-8">
+              <ActivityIndicator />
+            </View>
+          ) : (
+            <View className="gap-3 mb-6">
+              {pairings.map((pairing, index) => {
+                const isSelected = index === selectedIndex;
+                return (
+                  <Pressable
+                    key={pairing.team1[1].player.uid}
+                    onPress={() => setSelectedIndex(index)}
+                    className={`p-3 rounded-lg border-2 ${
+                      isSelected ? 'border-green-500 bg-green-50' : 'border-gray-200 bg-white'
+                    }`}
+                  >
+                    <View className="flex-row items-center justify-between mb-2">
+                      <Text className="text-xs font-semibold !text-gray-500">
+                        Rating gap {pairing.ratingGap}
+                      </Text>
+                      <View className="flex-row gap-1">
+                        {index === 0 && (
+                          <Text className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 !text-green-700">
+                            Most balanced
+                          </Text>
+                        )}
+                        {pairing.isCurrent && (
+                          <Text className="px-2 py-0.5 text-xs font-semibold rounded-full bg-gray-100 !text-gray-600">
+                            Current
+                          </Text>
+                        )}
+                      </View>
+                    </View>
+
+                    {/* Team 1 */}
+                    <View className="flex-row items-center justify-between">
+                      <Text className="flex-1 text-sm font-medium !text-green-800" numberOfLines={1}>
+                        {pairing.team1[0].player.displayName} & {pairing.team1[1].player.displayName}
+                      </Text>
+                      <Text className="ml-2 text-sm font-bold !text-green-800">
+                        {formatPercent(pairing.team1WinProbability)}
+                      </Text>
+                    </View>
+                    <Text className="mb-1 text-xs !text-gray-500">Team rating {pairing.team1Rating}</Text>
+
+                    {/* Team 2 */}
+                    <View className="flex-row items-center justify-between">
+                      <Text className="flex-1 text-sm font-medium !text-blue-800" numberOfLines={1}>
+                        {pairing.team2[0].player.displayName} & {pairing.team2[1].player.displayName}
+                      </Text>
+                      <Text className="ml-2 text-sm font-bold !text-blue-800">
+                        {formatPercent(1 - pairing.team1WinProbability)}
+                      </Text>
+                    </View>
+                    <Text className="text-xs !text-gray-500">Team rating {pairing.team2Rating}</Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          )}
+
+          {/* Buttons */}
+          <View className="flex-row gap-3">
+            <Pressable
+              onPress={onClose}
+              className="flex-1 py-4 bg-gray-100 rounded-lg active:bg-gray-200"
+            >
+              <Text className="font-medium text-center !text-gray-700">Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleApply}
+              disabled={!selected || selected.isCurrent}
+              className={`flex-1 py-4 rounded-lg ${
+                selected && !selected.isCurrent ? 'bg-green-500 active:bg-green-600' : 'bg-gray-300'
+              }`}
+            >
+              <Text className="font-bold text-center !text-white">
+                {selected?.isCurrent ? 'Already Set' : 'Use These Teams'}
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      </ActionsheetContent>
+    </Actionsheet>
+  );
+});
+
+BalanceTeamsSheet.displayName = 'BalanceTeamsSheet';
+
+export type { BalanceTeamsSheetProps };
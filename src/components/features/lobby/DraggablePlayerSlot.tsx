@@ -11,7 +11,7 @@ import * as Haptics from 'expo-haptics';
 import { ChevronsUpDown } from 'lucide-react-native';
 import { Avatar } from '@/components/ui/Avatar';
 import { LoadingSpinner } from '@/components/common';
-import type { Player } from '@/types/lobby';
+import type { Player, PlayerStake } from '@/types/lobby';
 
 interface DraggablePlayerSlotProps {
   player?: Player;
@@ -22,6 +22,7 @@ interface DraggablePlayerSlotProps {
   hostId: string;
   gameMode: 'singles' | 'doubles';
   playerRating?: number;
+  playerStake?: PlayerStake;
   onDragStart: (team: number, slot: number, width: number, height: number) => void;
   onDragMove?: (x: number, y: number) => void;
   onDragEnd: (x: number, y: number) => void;
@@ -39,6 +40,7 @@ export const DraggablePlayerSlot = memo(({
   hostId,
   gameMode,
   playerRating = 1000,
+  playerStake,
   onDragStart,
   onDragMove,
   onDragEnd,
@@ -222,9 +224,14 @@ export const DraggablePlayerSlot = memo(({
                   )}
                 </View>
                 
-                {/* Rating (below username) */}
+                {/* Rating + individual stakes (below username) */}
                 <Text className="text-sm text-gray-600 mt-0.5">
                   {playerRating} points
+                  {playerStake && (
+                    <Text className="text-xs text-gray-500">
+                      {'  '}Win: +{playerStake.win} | Lose: -{playerStake.loss}
+                    </Text>
+                  )}
                 </Text>
               </View>
               {isHost && canDrag && (
@@ -0,0 +1,49 @@
+import { View, Text, Pressable } from 'react-native';
+import { memo } from 'react';
+import { ChevronRight, UserPlus } from 'lucide-react-native';
+import { Card } from '@/components/ui/Card';
+import { Avatar } from '@/components/ui/Avatar';
+import type { JoinRequest } from '@/types/lobby';
+
+interface JoinRequestsCardProps {
+  requests: JoinRequest[];
+  onRequestPress: (request: JoinRequest) => void;
+}
+
+export const JoinRequestsCard = memo(({
+  requests,
+  onRequestPress,
+}: JoinRequestsCardProps) => {
+  if (requests.length === 0) return null;
+
+  return (
+    <Card variant="outlined" padding="lg" className="mb-4 border-yellow-200 bg-yellow-50">
+      <View className="flex-row items-center gap-2 mb-3">
+        <UserPlus size={18} color="#92400e" />
+        <Text className="text-base font-semibold !text-yellow-900">
+          Join Requests ({requests.length})
+        </Text>
+      </View>
+
+      <View className="gap-2">
+        {requests.map((request) => (
+          <Pressable
+            key={request.uid}
+            onPress={() => onRequestPress(request)}
+            className="flex-row items-center gap-3 p-2 bg-white rounded-lg active:bg-gray-50"
+          >
+            <Avatar uri={request.photoURL} name={request.displayName} size="xs" />
+            <Text className="flex-1 text-sm font-medium !text-gray-900" numberOfLines={1}>
+              {request.displayName}
+            </Text>
+            <ChevronRight size={18} color="#9ca3af" />
+          </Pressable>
+        ))}
+      </View>
+    </Card>
+  );
+});
+
+JoinRequestsCard.displayName = 'JoinRequestsCard';
+
+export type { JoinRequestsCardProps };
@@ -1,19 +1,24 @@
 import { View, Text, Pressable } from 'react-native';
 import { memo } from 'react';
-import { QrCode, Radio } from 'lucide-react-native';
+import { MessageCircle, QrCode, Radio } from 'lucide-react-native';
 
 interface LobbyHeaderProps {
   roomCode: string;
-  isScanning: boolean;
-  onQrPress: () => void;
-  onScanPress: () => void;
+  isScanning?: boolean;
+  // Each action button is hidden when its handler is omitted
+  onQrPress?: () => void;
+  onScanPress?: () => void;
+  onChatPress?: () => void;
+  isOpeningChat?: boolean;
 }
 
 export const LobbyHeader = memo(({ 
   roomCode, 
-  isScanning, 
+  isScanning = false, 
   onQrPress, 
-  onScanPress 
+  onScanPress,
+  onChatPress,
+  isOpeningChat = false,
 }: LobbyHeaderProps) => {
   return (
     <View className="flex-row items-center justify-between px-4 py-3 bg-white border-b border-gray-200">
@@ -29,28 +34,45 @@ export const LobbyHeader = memo(({
 
       {/* Action Buttons */}
       <View className="flex-row gap-2">
+        {/* Lobby Chat Button */}
+        {onChatPress && (
+          <Pressable
+            onPress={onChatPress}
+            disabled={isOpeningChat}
+            className={`h-12 px-4 rounded-lg flex-row items-center justify-center bg-gray-100 active:bg-gray-200 ${
+              isOpeningChat ? 'opacity-50' : ''
+            }`}
+          >
+            <MessageCircle size={20} color="#374151" />
+          </Pressable>
+        )}
+
         {/* QR Code Button */}
-        <Pressable
-          onPress={onQrPress}
-          className="flex-row items-center justify-center h-12 px-4 bg-gray-100 rounded-lg active:bg-gray-200"
-        >
-          <QrCode size={20} color="#374151" />
-        </Pressable>
+        {onQrPress && (
+          <Pressable
+            onPress={onQrPress}
+            className="flex-row items-center justify-center h-12 px-4 bg-gray-100 rounded-lg active:bg-gray-200"
+          >
+            <QrCode size={20} color="#374151" />
+          </Pressable>
+        )}
 
         {/* Scan Button */}
-        <Pressable
-          onPress={onScanPress}
-          className={`h-12 px-4 rounded-lg flex-row items-center justify-center ${
-            isScanning 
-              ? 'bg-green-500 active:bg-green-600' 
-              : 'bg-gray-100 active:bg-gray-200'
-          }`}
-        >
-          <Radio 
-            size={20} 
-            color={isScanning ? '#ffffff' : '#374151'} 
-          />
-        </Pressable>
+        {onScanPress && (
+          <Pressable
+            onPress={onScanPress}
+            className={`h-12 px-4 rounded-lg flex-row items-center justify-center ${
+              isScanning 
+                ? 'bg-green-500 active:bg-green-600' 
+                : 'bg-gray-100 active:bg-gray-200'
+            }`}
+          >
+            <Radio 
+              size={20} 
+              color={isScanning ? '#ffffff' : '#374151'} 
+            />
+          </Pressable>
+        )}
       </View>
     </View>
   );
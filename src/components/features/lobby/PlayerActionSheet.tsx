@@ -8,7 +8,7 @@ import {
   ActionsheetDragIndicator,
   Divider,
 } from '@gluestack-ui/themed';
-import { User, UserRoundX } from 'lucide-react-native';
+import { Ban, User, UserRoundCheck, UserRoundX } from 'lucide-react-native';
 import { Avatar } from '@/components/ui/Avatar';
 import { useAlert } from '@/hooks/common/useAlert';
 import type { Player } from '@/types/lobby';
@@ -21,6 +21,10 @@ interface PlayerActionSheetProps {
   onClose: () => void;
   onViewProfile: (userId: string) => void;
   onRemove: () => void;
+  onBan?: () => void;
+  // Set when the sheet is opened from a join request instead of a seated player
+  onApprove?: () => void;
+  onReject?: () => void;
 }
 
 export const PlayerActionSheet = memo(({
@@ -31,6 +35,9 @@ export const PlayerActionSheet = memo(({
   onClose,
   onViewProfile,
   onRemove,
+  onBan,
+  onApprove,
+  onReject,
 }: PlayerActionSheetProps) => {
   const alert = useAlert();
   
@@ -57,6 +64,33 @@ export const PlayerActionSheet = memo(({
     );
   };
 
+  const handleBan = () => {
+    alert.confirm(
+      `Remove and block ${player.displayName}?`,
+      "They won't be able to rejoin or ask to join this lobby.",
+      {
+        onConfirm: () => {
+          onClose();
+          onBan?.();
+        },
+        confirmText: 'Block',
+        confirmStyle: 'destructive',
+      }
+    );
+  };
+
+  const handleApprove = () => {
+    onClose();
+    onApprove?.();
+  };
+
+  const handleReject = () => {
+    onClose();
+    onReject?.();
+  };
+
+  const isJoinRequest = !!onApprove;
+
   return (
     <Actionsheet isOpen={visible} onClose={onClose}>
       <ActionsheetBackdrop />
@@ -103,8 +137,32 @@ export const PlayerActionSheet = memo(({
               </Text>
             </Pressable>
 
+            {/* Join Request - Host approves or declines */}
+            {isHost && isJoinRequest && (
+              <>
+                <Pressable
+                  onPress={handleApprove}
+                  className="flex-row items-center gap-3 px-4 py-4 mt-2 rounded-lg active:bg-green-50"
+                >
+                  <UserRoundCheck size={20} color="#16A34A" />
+                  <Text className="text-base font-medium !text-green-700">
+                    Approve Request
+                  </Text>
+                </Pressable>
+                <Pressable
+                  onPress={handleReject}
+                  className="flex-row items-center gap-3 px-4 py-4 mt-2 rounded-lg active:bg-red-50"
+                >
+                  <UserRoundX size={20} color="#DC2626" />
+                  <Text className="text-base font-medium !text-red-600">
+                    Decline Request
+                  </Text>
+                </Pressable>
+              </>
+            )}
+
             {/* Remove from Lobby - Host only, not for host player */}
-            {isHost && !isHostPlayer && (
+            {isHost && !isHostPlayer && !isJoinRequest && (
               <Pressable
                 onPress={handleRemove}
                 className="flex-row items-center gap-3 px-4 py-4 mt-2 rounded-lg active:bg-red-50"
@@ -115,6 +173,19 @@ export const PlayerActionSheet = memo(({
                 </Text>
               </Pressable>
             )}
+
+            {/* Remove and Block - Host only */}
+            {isHost && !isHostPlayer && !isJoinRequest && onBan && (
+              <Pressable
+                onPress={handleBan}
+                className="flex-row items-center gap-3 px-4 py-4 mt-2 rounded-lg active:bg-red-50"
+              >
+                <Ban size={20} color="#DC2626" />
+                <Text className="text-base font-medium !text-red-600">
+                  Remove and Block
+                </Text>
+              </Pressable>
+            )}
           </View>
 
           <Divider className="my-4" />
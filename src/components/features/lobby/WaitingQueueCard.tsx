@@ -0,0 +1,75 @@
+import { View, Text } from 'react-native';
+import { memo } from 'react';
+import { ListOrdered } from 'lucide-react-native';
+import { Card } from '@/components/ui/Card';
+import { Avatar } from '@/components/ui/Avatar';
+import { ROTATION_RULE_LABELS } from '@/lib/rotation';
+import type { QueueEstimate } from '@/lib/rotation';
+import type { RotationRule } from '@/types/lobby';
+
+interface WaitingQueueCardProps {
+  rule: RotationRule;
+  gameNumber: number;
+  estimates: QueueEstimate[];
+  currentUserId?: string;
+}
+
+/**
+ * Formats a wait estimate as "Next game" or "~30 min (2 games)"
+ */
+const formatWait = (estimate: QueueEstimate): string => {
+  if (estimate.gamesToWait === 1) return `Next game · ~${estimate.minutes} min`;
+  return `~${estimate.minutes} min (${estimate.gamesToWait} games)`;
+};
+
+export const WaitingQueueCard = memo(({
+  rule,
+  gameNumber,
+  estimates,
+  currentUserId,
+}: WaitingQueueCardProps) => {
+  return (
+    <Card variant="outlined" padding="lg">
+      <View className="flex-row items-center justify-between mb-3">
+        <View className="flex-row items-center gap-2">
+          <ListOrdered size={18} color="#374151" />
+          <Text className="text-base font-semibold !text-gray-900">Queue</Text>
+        </View>
+        <Text className="text-xs !text-gray-500">
+          {ROTATION_RULE_LABELS[rule]} · Game {gameNumber}
+        </Text>
+      </View>
+
+      {estimates.length === 0 ? (
+        <Text className="text-sm !text-gray-500">
+          Nobody is waiting. Players who join a full court are added here.
+        </Text>
+      ) : (
+        <View className="gap-2">
+          {estimates.map((estimate) => (
+            <View
+              key={estimate.player.uid}
+              className={`flex-row items-center gap-3 p-2 rounded-lg ${
+                estimate.player.uid === currentUserId ? 'bg-green-50' : 'bg-gray-50'
+              }`}
+            >
+              <Text className="w-5 text-sm font-bold text-center !text-gray-500">
+                {estimate.position}
+              </Text>
+              <Avatar uri={estimate.player.photoURL} name={estimate.player.displayName} size="xs" />
+              <Text className="flex-1 text-sm font-medium !text-gray-900" numberOfLines={1}>
+                {estimate.player.displayName}
+                {estimate.player.uid === currentUserId ? ' (You)' : ''}
+              </Text>
+              <Text className="text-xs !text-gray-500">{formatWait(estimate)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </Card>
+  );
+});
+
+WaitingQueueCard.displayName = 'WaitingQueueCard';
+
+export type { WaitingQueueCardProps };
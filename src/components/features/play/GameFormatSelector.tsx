@@ -0,0 +1,82 @@
+import { memo } from 'react';
+import { Pressable } from 'react-native';
+import { View, Text } from 'react-native';
+import type { GameFormat } from '@/types/game';
+
+interface GameFormatSelectorProps {
+  format: GameFormat;
+  onChange: (format: GameFormat) => void;
+}
+
+interface FormatOption<T> {
+  value: T;
+  label: string;
+}
+
+const POINTS_OPTIONS: FormatOption<number>[] = [
+  { value: 11, label: '11' },
+  { value: 15, label: '15' },
+  { value: 21, label: '21' },
+];
+
+const WIN_BY_OPTIONS: FormatOption<GameFormat['winBy']>[] = [
+  { value: 2, label: 'Win by 2' },
+  { value: 1, label: 'Win by 1' },
+];
+
+const BEST_OF_OPTIONS: FormatOption<GameFormat['bestOf']>[] = [
+  { value: 1, label: '1 Game' },
+  { value: 3, label: 'Best of 3' },
+  { value: 5, label: 'Best of 5' },
+];
+
+export const GameFormatSelector = memo(({
+  format,
+  onChange,
+}: GameFormatSelectorProps) => {
+  const renderRow = <T extends number>(
+    label: string,
+    options: FormatOption<T>[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => (
+    <View>
+      <Text className="mb-2 text-sm font-semibold text-gray-700">{label}</Text>
+      <View className="flex-row p-1 bg-gray-100 rounded-lg">
+        {options.map((option) => (
+          <Pressable
+            key={option.value}
+            onPress={() => onSelect(option.value)}
+            className={`flex-1 py-2 rounded-md ${
+              selected === option.value ? 'bg-white' : ''
+            }`}
+          >
+            <Text
+              className={`text-center font-semibold ${
+                selected === option.value ? 'text-gray-900' : 'text-gray-600'
+              }`}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+
+  return (
+    <View className="gap-3">
+      {renderRow('Points to Win', POINTS_OPTIONS, format.pointsToWin, (pointsToWin) =>
+        onChange({ ...format, pointsToWin })
+      )}
+      {renderRow('Win By', WIN_BY_OPTIONS, format.winBy, (winBy) =>
+        onChange({ ...format, winBy })
+      )}
+      {renderRow('Match Length', BEST_OF_OPTIONS, format.bestOf, (bestOf) =>
+        onChange({ ...format, bestOf })
+      )}
+    </View>
+  );
+});
+
+GameFormatSelector.displayName = 'GameFormatSelector';
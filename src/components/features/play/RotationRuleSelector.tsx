@@ -0,0 +1,62 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { ROTATION_RULE_LABELS } from '@/lib/rotation';
+import type { RotationRule } from '@/types/lobby';
+
+interface RotationRuleSelectorProps {
+  rule: RotationRule | null;
+  onChange: (rule: RotationRule | null) => void;
+}
+
+interface RuleOption {
+  value: RotationRule | null;
+  label: string;
+}
+
+const RULE_OPTIONS: RuleOption[] = [
+  { value: null, label: 'Single Game' },
+  { value: 'winners_stay', label: ROTATION_RULE_LABELS.winners_stay },
+  { value: 'everyone_rotates', label: ROTATION_RULE_LABELS.everyone_rotates },
+];
+
+const RULE_DESCRIPTIONS: Record<RotationRule, string> = {
+  winners_stay: 'Losers go to the back of the queue and the next players challenge the winners.',
+  everyone_rotates: 'Everyone comes off after each game and the next players in the queue go on.',
+};
+
+export const RotationRuleSelector = memo(({
+  rule,
+  onChange,
+}: RotationRuleSelectorProps) => {
+  return (
+    <View>
+      <Text className="mb-2 text-sm font-semibold text-gray-700">Open Play Rotation</Text>
+      <View className="flex-row p-1 bg-gray-100 rounded-lg">
+        {RULE_OPTIONS.map((option) => (
+          <Pressable
+            key={option.value ?? 'none'}
+            onPress={() => onChange(option.value)}
+            className={`flex-1 py-2 rounded-md ${
+              rule === option.value ? 'bg-white' : ''
+            }`}
+          >
+            <Text
+              className={`text-center text-sm font-semibold ${
+                rule === option.value ? 'text-gray-900' : 'text-gray-600'
+              }`}
+            >
+              {option.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+      {rule && (
+        <Text className="mt-2 text-xs text-gray-500">
+          {RULE_DESCRIPTIONS[rule]} The next game is set up automatically.
+        </Text>
+      )}
+    </View>
+  );
+});
+
+RotationRuleSelector.displayName = 'RotationRuleSelector';
@@ -5,7 +5,7 @@
  * Psychology: Context-aware copy, haptic feedback for emotions
  */
 
-import { memo, useEffect, useMemo, useRef } from 'react';
+import { memo, useEffect, useMemo, useRef, useState } from 'react';
 import { View, Text, Pressable, Animated, Easing } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { 
@@ -16,20 +16,24 @@ import {
   RotateCcw,
   Heart,
   CheckCircle,
+  ArrowRight,
 } from 'lucide-react-native';
 import * as Haptics from 'expo-haptics';
-import { shareMatchResult } from '@/lib/share';
-import { useAlert } from '@/hooks/common/useAlert';
 import { ScreenHeader } from '@/components/common';
 import { Avatar } from '@/components/ui/Avatar';
-import type { Lobby } from '@/types/lobby';
+import { ShareCardSheet } from './ShareCardSheet';
+import { REMATCH_ARRANGEMENT_LABELS, getRematchArrangements } from '@/lib/rematch';
+import type { Lobby, RematchArrangement } from '@/types/lobby';
 
 interface GameSummaryProps {
   lobby: Lobby;
   currentUserId: string;
   currentUserName: string;
+  currentUsername?: string;  // Profile link on the share card
   onPlayAgain: () => void;
-  onRematch?: () => void;
+  onRematch?: (arrangement: RematchArrangement) => void;
+  onJoinRematch?: () => void;  // Go to the rematch the host created
+  onNextGame?: () => void;  // Open play: join the next rotation game
 }
 
 // =============================================================================
@@ -147,11 +151,15 @@ export const GameSummary = memo(({
   lobby, 
   currentUserId, 
   currentUserName,
+  currentUsername,
   onPlayAgain, 
-  onRematch 
+  onRematch,
+  onJoinRematch,
+  onNextGame,
 }: GameSummaryProps) => {
-  const alert = useAlert();
   const insets = useSafeAreaInsets();
+  const [showShareSheet, setShowShareSheet] = useState(false);
+  const [arrangement, setArrangement] = useState<RematchArrangement>('same');
 
   // Animation refs
   const iconScale = useRef(new Animated.Value(0)).current;
@@ -169,19 +177,17 @@ export const GameSummary = memo(({
   }
 
   const { team1, team2 } = lobby.finalScores;
+  const finalGames = lobby.finalGames ?? [];
   const winningTeam = lobby.winner;
   const isHost = currentUserId === lobby.hostId;
 
-  // Get point changes from lobby
-  const team1Points = lobby.pointChanges?.team1 ?? 0;
-  const team2Points = lobby.pointChanges?.team2 ?? 0;
-
   // Determine current user's position
   const isOnTeam1 = 
     lobby.team1.player1?.uid === currentUserId || 
     lobby.team1.player2?.uid === currentUserId;
   
-  const currentUserPoints = isOnTeam1 ? team1Points : team2Points;
+  // Point changes are per player (doubles partners can differ)
+  const currentUserPoints = lobby.pointChanges?.[currentUserId] ?? 0;
   const userWon = (isOnTeam1 && winningTeam === 1) || (!isOnTeam1 && winningTeam === 2);
 
   // Calculate score difference for context
@@ -308,20 +314,27 @@ export const GameSummary = memo(({
 
   const handleShare = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    
-    try {
-      await shareMatchResult(lobby, currentUserName, currentUserPoints);
-      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-    } catch (error) {
-      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-      console.error('Error sharing:', error);
-      alert.show('Share Failed', 'Unable to share match result. Please try again.');
-    }
+    setShowShareSheet(true);
   };
 
   const handleRematchPress = async () => {
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
-    onRematch?.();
+    onRematch?.(arrangement);
+  };
+
+  const handleArrangementPress = async (next: RematchArrangement) => {
+    await Haptics.selectionAsync();
+    setArrangement(next);
+  };
+
+  const handleJoinRematchPress = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onJoinRematch?.();
+  };
+
+  const handleNextGamePress = async () => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    onNextGame?.();
   };
 
   return (
@@ -398,6 +411,15 @@ export const GameSummary = memo(({
           </Text>
         </Animated.View>
 
+        {/* Per-game scores for best-of-N matches */}
+        {finalGames.length > 1 && (
+          <Animated.View style={{ opacity: scoreOpacity }} className="mb-4 -mt-2">
+            <Text className="text-sm text-center !text-gray-500">
+              {finalGames.map((game) => `${game.team1}-${game.team2}`).join(' · ')}
+            </Text>
+          </Animated.View>
+        )}
+
         {/* Points earned/lost - single display */}
         <Animated.View
           style={{ opacity: pointsOpacity }}
@@ -445,6 +467,23 @@ export const GameSummary = memo(({
           innerStyle={{ paddingBottom: Math.max(insets.bottom, 16) }}
         >
           <View style={{ paddingBottom: Math.max(insets.bottom, 16) }}>
+            <View className="flex-row gap-2 mb-3">
+              {getRematchArrangements(lobby.gameMode).map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => handleArrangementPress(option)}
+                  className={`flex-1 items-center py-2 rounded-lg active:opacity-70 ${
+                    arrangement === option ? 'bg-green-50 border border-green-500' : 'bg-gray-100 border border-gray-100'
+                  }`}
+                >
+                  <Text className={`text-sm font-medium ${
+                    arrangement === option ? '!text-green-700' : '!text-gray-600'
+                  }`}>
+                    {REMATCH_ARRANGEMENT_LABELS[option]}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
             <Pressable
               onPress={handleRematchPress}
               className="flex-row items-center justify-center gap-2 py-4 bg-green-500 rounded-xl active:bg-green-600"
@@ -455,6 +494,57 @@ export const GameSummary = memo(({
           </View>
         </Animated.View>
       )}
+
+      {onJoinRematch && (
+        <Animated.View 
+          style={{
+            transform: [{ translateY: buttonSlide }],
+            opacity: buttonOpacity,
+          }}
+          className="px-6 pt-4 bg-white border-t border-gray-100"
+        >
+          <View style={{ paddingBottom: Math.max(insets.bottom, 16) }}>
+            <Pressable
+              onPress={handleJoinRematchPress}
+              className="flex-row items-center justify-center gap-2 py-4 bg-green-500 rounded-xl active:bg-green-600"
+            >
+              <RotateCcw size={20} color="white" />
+              <Text className="text-lg font-bold !text-white">Join Rematch</Text>
+            </Pressable>
+          </View>
+        </Animated.View>
+      )}
+
+      {onNextGame && (
+        <Animated.View 
+          style={{
+            transform: [{ translateY: buttonSlide }],
+            opacity: buttonOpacity,
+          }}
+          className="px-6 pt-4 bg-white border-t border-gray-100"
+        >
+          <View style={{ paddingBottom: Math.max(insets.bottom, 16) }}>
+            <Pressable
+              onPress={handleNextGamePress}
+              className="flex-row items-center justify-center gap-2 py-4 bg-green-500 rounded-xl active:bg-green-600"
+            >
+              <Text className="text-lg font-bold !text-white">
+                Next Game ({(lobby.rotationGameNumber ?? 1) + 1})
+              </Text>
+              <ArrowRight size={20} color="white" />
+            </Pressable>
+          </View>
+        </Animated.View>
+      )}
+
+      <ShareCardSheet
+        visible={showShareSheet}
+        onClose={() => setShowShareSheet(false)}
+        lobby={lobby}
+        currentUserName={currentUserName}
+        currentUsername={currentUsername}
+        currentUserPoints={currentUserPoints}
+      />
     </SafeAreaView>
   );
 });
@@ -0,0 +1,169 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { Undo2 } from 'lucide-react-native';
+import * as Haptics from 'expo-haptics';
+import { Card } from '@/components/ui/Card';
+import type { LiveScoreState } from '@/lib/liveScoring';
+import type { GameFormat } from '@/types/game';
+import type { GameMode, ScoringSystem } from '@/types/lobby';
+
+interface LiveScoreboardProps {
+  gameMode: GameMode;
+  bestOf: GameFormat['bestOf'];
+  system: ScoringSystem | null;
+  state: LiveScoreState | null;
+  rallyCount: number;
+  canScore: boolean;
+  onStart: (system: ScoringSystem) => void;
+  onRallyWon: (team: 1 | 2) => void;
+  onUndo: () => void;
+}
+
+export const LiveScoreboard = memo(({
+  gameMode,
+  bestOf,
+  system,
+  state,
+  rallyCount,
+  canScore,
+  onStart,
+  onRallyWon,
+  onUndo,
+}: LiveScoreboardProps) => {
+  const handleRallyWon = async (team: 1 | 2) => {
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    onRallyWon(team);
+  };
+
+  // Not tracking yet - offer to start
+  if (!state || !system) {
+    if (!canScore) return null;
+
+    return (
+      <Card variant="outlined" padding="lg">
+        <Text className="mb-1 text-base font-semibold !text-gray-900">
+          Keep Score Live
+        </Text>
+        <Text className="mb-4 text-sm !text-gray-500">
+          Tap each rally as it's played. Everyone's phone follows along.
+        </Text>
+        <View className="flex-row gap-3">
+          <Pressable
+            onPress={() => onStart('standard')}
+            className="flex-1 py-3 bg-green-500 rounded-lg active:bg-green-600"
+          >
+            <Text className="font-bold text-center !text-white">Side-Out</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => onStart('rally')}
+            className="flex-1 py-3 bg-gray-100 rounded-lg active:bg-gray-200"
+          >
+            <Text className="font-medium text-center !text-gray-700">Rally Scoring</Text>
+          </Pressable>
+        </View>
+      </Card>
+    );
+  }
+
+  const gamesWon = state.games.reduce(
+    (won, game) => (game.team1 > game.team2
+      ? { ...won, team1: won.team1 + 1 }
+      : { ...won, team2: won.team2 + 1 }),
+    { team1: 0, team2: 0 }
+  );
+  const currentGame = state.isGameOver ? state.games.length : state.games.length + 1;
+
+  const getCall = (): string => {
+    if (state.isMatchOver) return bestOf > 1 ? 'Match!' : 'Game!';
+    if (state.isGameOver) return 'Game!';
+    return state.call;
+  };
+
+  const renderTeam = (team: 1 | 2) => {
+    const isServing = state.servingTeam === team;
+    const score = team === 1 ? state.team1 : state.team2;
+
+    return (
+      <View className="items-center flex-1">
+        <Text className={`text-xs font-semibold ${team === 1 ? '!text-green-700' : '!text-blue-700'}`}>
+          Team {team}
+        </Text>
+        <Text className={`text-5xl font-bold ${team === 1 ? '!text-green-800' : '!text-blue-800'}`}>
+          {score}
+        </Text>
+        <View className="h-5 mt-1">
+          {isServing && !state.isGameOver && (
+            <Text className="text-xs font-semibold !text-yellow-700">
+              {system === 'standard' && gameMode === 'doubles'
+                ? `Serving · Server ${state.serverNumber}`
+                : 'Serving'}
+            </Text>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <Card variant="outlined" padding="lg">
+      <View className="flex-row items-center justify-between mb-3">
+        <View>
+          <Text className="text-sm font-semibold !text-gray-500">
+            {system === 'standard' ? 'Side-Out Scoring' : 'Rally Scoring'}
+          </Text>
+          {bestOf > 1 && (
+            <Text className="text-xs !text-gray-500">
+              Game {currentGame} of {bestOf} · Games {gamesWon.team1}–{gamesWon.team2}
+            </Text>
+          )}
+        </View>
+        {canScore && rallyCount > 0 && (
+          <Pressable
+            onPress={onUndo}
+            className="flex-row items-center gap-1 px-2 py-1 bg-gray-100 rounded active:bg-gray-200"
+          >
+            <Undo2 size={14} color="#374151" />
+            <Text className="text-xs font-medium !text-gray-700">Undo</Text>
+          </Pressable>
+        )}
+      </View>
+
+      <View className="flex-row items-center">
+        {renderTeam(1)}
+        <Text className="text-lg !text-gray-400">–</Text>
+        {renderTeam(2)}
+      </View>
+
+      {/* Score call */}
+      <Text className="mt-3 text-2xl font-bold text-center !text-gray-900">
+        {getCall()}
+      </Text>
+      {state.isGameOver && !state.isMatchOver && (
+        <Text className="mt-1 text-xs text-center !text-gray-500">
+          Next rally starts game {currentGame + 1}
+        </Text>
+      )}
+
+      {canScore && !state.isMatchOver && (
+        <View className="flex-row gap-3 mt-4">
+          <Pressable
+            onPress={() => handleRallyWon(1)}
+            className="flex-1 py-4 bg-green-500 rounded-lg active:bg-green-600"
+          >
+            <Text className="font-bold text-center !text-white">Team 1 Won Rally</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => handleRallyWon(2)}
+            className="flex-1 py-4 bg-blue-500 rounded-lg active:bg-blue-600"
+          >
+            <Text className="font-bold text-center !text-white">Team 2 Won Rally</Text>
+          </Pressable>
+        </View>
+      )}
+    </Card>
+  );
+});
+
+LiveScoreboard.displayName = 'LiveScoreboard';
+
+export type { LiveScoreboardProps };
@@ -0,0 +1,199 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { AlertTriangle, Check, Clock } from 'lucide-react-native';
+import { Card } from '@/components/ui/Card';
+import { Avatar } from '@/components/ui/Avatar';
+import type { GameScore, Lobby, Player } from '@/types/lobby';
+
+interface ScoreConfirmationViewProps {
+  lobby: Lobby;
+  currentUserId: string;
+  isHost: boolean;
+  hasConfirmed: boolean;
+  isDisputed: boolean;
+  secondsRemaining: number;
+  onConfirm: () => void;
+  onDispute: () => void;
+  onAcceptCounter: () => void;
+  onReenter: () => void;
+}
+
+/**
+ * Formats remaining seconds as M:SS
+ */
+const formatCountdown = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+/**
+ * Formats per-game scores as "11-7, 9-11, 11-5"
+ */
+const formatGames = (games: GameScore[]): string => {
+  return games.map((game) => `${game.team1}-${game.team2}`).join(', ');
+};
+
+export const ScoreConfirmationView = memo(({
+  lobby,
+  currentUserId,
+  isHost,
+  hasConfirmed,
+  isDisputed,
+  secondsRemaining,
+  onConfirm,
+  onDispute,
+  onAcceptCounter,
+  onReenter,
+}: ScoreConfirmationViewProps) => {
+  const proposed = lobby.proposedScores;
+  const proposedGames = lobby.proposedGames ?? [];
+  const dispute = lobby.scoreDispute;
+  const confirmations = lobby.scoreConfirmations || {};
+
+  const players = [
+    lobby.team1.player1,
+    lobby.team1.player2,
+    lobby.team2.player1,
+    lobby.team2.player2,
+  ].filter((p): p is Player => !!p?.uid);
+
+  const disputedByName = players.find((p) => p.uid === dispute?.disputedBy)?.displayName || 'A player';
+
+  const renderStatus = (player: Player) => {
+    const status = confirmations[player.uid];
+
+    if (status === true) {
+      return (
+        <View className="flex-row items-center gap-1 px-2 py-1 bg-green-100 rounded">
+          <Check size={12} color="#15803d" />
+          <Text className="text-xs font-semibold !text-green-700">Confirmed</Text>
+        </View>
+      );
+    }
+
+    if (status === false) {
+      return (
+        <View className="flex-row items-center gap-1 px-2 py-1 bg-red-100 rounded">
+          <AlertTriangle size={12} color="#b91c1c" />
+          <Text className="text-xs font-semibold !text-red-700">Disputed</Text>
+        </View>
+      );
+    }
+
+    return (
+      <View className="px-2 py-1 bg-gray-100 rounded">
+        <Text className="text-xs font-semibold !text-gray-600">Waiting</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View className="gap-4 px-4 py-6">
+      {/* Proposed Score */}
+      <Card variant="outlined" padding="lg">
+        <Text className="mb-3 text-sm font-semibold text-center !text-gray-500">
+          {isDisputed ? 'Submitted Score' : 'Confirm Final Score'}
+        </Text>
+        <View className="flex-row items-center justify-center gap-6">
+          <View className="items-center">
+            <Text className="text-xs !text-green-700">Team 1</Text>
+            <Text className="text-4xl font-bold !text-green-800">{proposed?.team1 ?? '-'}</Text>
+          </View>
+          <Text className="text-lg !text-gray-400">–</Text>
+          <View className="items-center">
+            <Text className="text-xs !text-blue-700">Team 2</Text>
+            <Text className="text-4xl font-bold !text-blue-800">{proposed?.team2 ?? '-'}</Text>
+          </View>
+        </View>
+        {proposedGames.length > 1 && (
+          <Text className="mt-2 text-xs text-center !text-gray-500">
+            Games: {formatGames(proposedGames)}
+          </Text>
+        )}
+        {!isDisputed && (
+          <View className="flex-row items-center justify-center gap-1 mt-4">
+            <Clock size={14} color="#6b7280" />
+            <Text className="text-xs !text-gray-500">
+              Settles automatically in {formatCountdown(secondsRemaining)}
+            </Text>
+          </View>
+        )}
+      </Card>
+
+      {/* Dispute Banner */}
+      {isDisputed && dispute && (
+        <Card variant="outlined" padding="lg" className="bg-red-50 !border-red-200">
+          <Text className="mb-1 text-base font-semibold !text-red-800">
+            Score disputed
+          </Text>
+          <Text className="text-sm !text-red-700">
+            {disputedByName} says the score was {dispute.team1} – {dispute.team2}
+            {dispute.games && dispute.games.length > 1 ? ` (${formatGames(dispute.games)})` : ''}.
+          </Text>
+          <Text className="mt-2 text-xs !text-red-600">
+            {isHost
+              ? 'Accept their score, re-enter it, or cancel the match.'
+              : 'Waiting for the host to resolve the dispute.'}
+          </Text>
+        </Card>
+      )}
+
+      {/* Per-player Status */}
+      <View className="gap-2">
+        {players.map((player) => (
+          <View
+            key={player.uid}
+            className="flex-row items-center gap-3 p-3 bg-white border border-gray-200 rounded-lg"
+          >
+            <Avatar uri={player.photoURL} name={player.displayName} size="sm" />
+            <Text className="flex-1 text-base !text-gray-900">
+              {player.displayName}
+              {player.uid === currentUserId ? ' (You)' : ''}
+            </Text>
+            {renderStatus(player)}
+          </View>
+        ))}
+      </View>
+
+      {/* Actions */}
+      {!isDisputed && !hasConfirmed && (
+        <View className="flex-row gap-3">
+          <Pressable
+            onPress={onDispute}
+            className="flex-1 py-4 bg-gray-100 rounded-lg active:bg-gray-200"
+          >
+            <Text className="font-medium text-center !text-gray-700">Dispute</Text>
+          </Pressable>
+          <Pressable
+            onPress={onConfirm}
+            className="flex-1 py-4 bg-green-500 rounded-lg active:bg-green-600"
+          >
+            <Text className="font-bold text-center !text-white">Confirm</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {isDisputed && isHost && (
+        <View className="gap-3">
+          <Pressable
+            onPress={onAcceptCounter}
+            className="py-4 bg-green-500 rounded-lg active:bg-green-600"
+          >
+            <Text className="font-bold text-center !text-white">Accept Counter-Score</Text>
+          </Pressable>
+          <Pressable
+            onPress={onReenter}
+            className="py-4 bg-gray-100 rounded-lg active:bg-gray-200"
+          >
+            <Text className="font-medium text-center !text-gray-700">Re-enter Score</Text>
+          </Pressable>
+        </View>
+      )}
+    </View>
+  );
+});
+
+ScoreConfirmationView.displayName = 'ScoreConfirmationView';
+
+export type { ScoreConfirmationViewProps };
@@ -1,4 +1,4 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect } from 'react';
 import { View, Text, Pressable } from 'react-native';
 import * as Haptics from 'expo-haptics';
 import {
@@ -10,35 +10,92 @@ import {
 } from '@gluestack-ui/themed';
 import { HorizontalNumberPicker } from './HorizontalNumberPicker';
 import { LoadingSpinner } from '@/components/common';
-import { isValidPickleballScore } from '@/lib/scoreValidation';
+import {
+  DEFAULT_GAME_FORMAT,
+  getGamesToWin,
+  getMatchResult,
+  getMaxSelectableScore,
+  getValidScoreRange,
+} from '@/lib/scoreValidation';
 import { useToast } from '@/hooks/common/useToast';
+import type { GameFormat } from '@/types/game';
+import type { GameScore } from '@/types/lobby';
 
 interface ScorePickerSheetProps {
   visible: boolean;
   onClose: () => void;
-  onSubmit: (team1Score: number, team2Score: number) => Promise<void>;
-  defaultTeam1Score?: number;
-  defaultTeam2Score?: number;
+  onSubmit: (games: GameScore[]) => Promise<void>;
+  format?: GameFormat;
+  defaultGames?: GameScore[];
+  title?: string;
+  submitLabel?: string;
 }
 
+/**
+ * Builds the games shown when the sheet opens
+ * Best-of-N matches start with the minimum number of games needed to win
+ */
+const getInitialGames = (format: GameFormat, defaultGames?: GameScore[]): GameScore[] => {
+  if (defaultGames && defaultGames.length > 0) {
+    return defaultGames;
+  }
+
+  const game = { team1: format.pointsToWin, team2: format.pointsToWin - 2 };
+  return Array.from({ length: getGamesToWin(format.bestOf) }, () => ({ ...game }));
+};
+
 export const ScorePickerSheet = ({
   visible,
   onClose,
   onSubmit,
-  defaultTeam1Score = 11,
-  defaultTeam2Score = 9,
+  format = DEFAULT_GAME_FORMAT,
+  defaultGames,
+  title = 'Enter Final Scores',
+  submitLabel = 'Submit Score',
 }: ScorePickerSheetProps) => {
-  const [team1Score, setTeam1Score] = useState(defaultTeam1Score);
-  const [team2Score, setTeam2Score] = useState(defaultTeam2Score);
+  const [games, setGames] = useState<GameScore[]>(() => getInitialGames(format, defaultGames));
+  const [activeGame, setActiveGame] = useState(0);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const toast = useToast();
 
+  const isMatch = format.bestOf > 1;
+  const maxScore = getMaxSelectableScore(format);
+  const team1Score = games[activeGame]?.team1 ?? 0;
+  const team2Score = games[activeGame]?.team2 ?? 0;
+
+  // Start from the latest defaults every time the sheet opens
+  useEffect(() => {
+    if (visible) {
+      setGames(getInitialGames(format, defaultGames));
+      setActiveGame(0);
+    }
+  }, [visible]);
+
+  const setActiveScore = useCallback((team: 'team1' | 'team2', value: number) => {
+    setGames((prev) => prev.map((game, index) => (
+      index === activeGame ? { ...game, [team]: value } : game
+    )));
+  }, [activeGame]);
+
+  const setTeam1Score = useCallback((value: number) => setActiveScore('team1', value), [setActiveScore]);
+  const setTeam2Score = useCallback((value: number) => setActiveScore('team2', value), [setActiveScore]);
+
+  const handleAddGame = useCallback(() => {
+    setGames((prev) => [...prev, { team1: format.pointsToWin, team2: format.pointsToWin - 2 }]);
+    setActiveGame(games.length);
+  }, [format.pointsToWin, games.length]);
+
+  const handleRemoveGame = useCallback(() => {
+    setGames((prev) => prev.slice(0, -1));
+    setActiveGame((prev) => Math.min(prev, games.length - 2));
+  }, [games.length]);
+
   const handleSubmit = useCallback(async () => {
     // Medium impact for submit button press (intentional action)
     await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
 
-    // Validate with comprehensive pickleball rules
-    const validation = isValidPickleballScore(team1Score, team2Score);
+    // Validate every game and the match result with the lobby's rules
+    const validation = getMatchResult(games, format);
     
     if (!validation.valid) {
       toast.error(validation.error || 'Invalid score');
@@ -50,12 +107,9 @@ export const ScorePickerSheet = ({
     // Submit scores
     setIsSubmitting(true);
     try {
-      await onSubmit(team1Score, team2Score);
+      await onSubmit(games);
       // Success haptic for successful submission
       await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-      // Reset on success
-      setTeam1Score(defaultTeam1Score);
-      setTeam2Score(defaultTeam2Score);
     } catch (err) {
       toast.error(err instanceof Error ? err.message : 'Failed to submit scores');
       // Error haptic for submission failure
@@ -63,7 +117,7 @@ export const ScorePickerSheet = ({
     } finally {
       setIsSubmitting(false);
     }
-  }, [team1Score, team2Score, onSubmit, defaultTeam1Score, defaultTeam2Score, toast]);
+  }, [games, format, onSubmit, toast]);
 
   return (
     <Actionsheet isOpen={visible} onClose={onClose}>
@@ -77,18 +131,55 @@ export const ScorePickerSheet = ({
         {/* Content */}
         <View className="w-full py-6">
           {/* Header */}
-          <Text className="px-4 mb-12 text-xl font-bold text-center !text-gray-900">
-            Enter Final Scores
+          <Text
+            className={`px-4 text-xl font-bold text-center !text-gray-900 ${isMatch ? 'mb-6' : 'mb-12'}`}
+          >
+            {title}
           </Text>
 
-          {/* Team 1 Picker */}
+          {/* Game Tabs (best-of-N) */}
+          {isMatch && (
+            <View className="flex-row flex-wrap gap-2 px-4 mb-8">
+              {games.map((game, index) => (
+                <Pressable
+                  key={index}
+                  onPress={() => setActiveGame(index)}
+                  className={`px-3 py-2 rounded-lg ${
+                    index === activeGame ? 'bg-green-500' : 'bg-gray-100'
+                  }`}
+                >
+                  <Text
+                    className={`text-sm font-semibold ${
+                      index === activeGame ? '!text-white' : '!text-gray-700'
+                    }`}
+                  >
+                    G{index + 1} {game.team1}-{game.team2}
+                  </Text>
+                </Pressable>
+              ))}
+              {games.length < format.bestOf && (
+                <Pressable onPress={handleAddGame} className="px-3 py-2 bg-gray-100 rounded-lg">
+                  <Text className="text-sm font-semibold !text-gray-700">+ Game</Text>
+                </Pressable>
+              )}
+              {games.length > getGamesToWin(format.bestOf) && (
+                <Pressable onPress={handleRemoveGame} className="px-3 py-2 bg-gray-100 rounded-lg">
+                  <Text className="text-sm font-semibold !text-gray-700">− Game</Text>
+                </Pressable>
+              )}
+            </View>
+          )}
+
+          {/* Team 1 Picker (remounted per game so it scrolls to that game's score) */}
           <HorizontalNumberPicker
+            key={`team1-${activeGame}`}
             value={team1Score}
             onChange={setTeam1Score}
             min={0}
-            max={20}
+            max={maxScore}
             label="Team 1"
             color="green"
+            hint={getValidScoreRange(team2Score, format).explanation}
           />
 
           {/* VS Divider */}
@@ -100,12 +191,14 @@ export const ScorePickerSheet = ({
 
           {/* Team 2 Picker */}
           <HorizontalNumberPicker
+            key={`team2-${activeGame}`}
             value={team2Score}
             onChange={setTeam2Score}
             min={0}
-            max={20}
+            max={maxScore}
             label="Team 2"
             color="blue"
+            hint={getValidScoreRange(team1Score, format).explanation}
           />
 
           {/* Spacer before submit */}
@@ -128,7 +221,7 @@ export const ScorePickerSheet = ({
             className="items-center py-4 mx-4 mt-2 bg-green-500 rounded-lg active:bg-green-600 disabled:opacity-50"
           >
             <Text className="text-lg font-bold !text-white">
-              Submit Score
+              {submitLabel}
             </Text>
           </Pressable>
         </View>
@@ -0,0 +1,231 @@
+/**
+ * ShareCard - Match result drawn as an SVG image
+ *
+ * Drawn in export pixels (SHARE_CARD_SIZES) and scaled to `width` for preview,
+ * so the ref's toDataURL exports a full-size PNG whatever the preview size.
+ */
+
+import { forwardRef, memo } from 'react';
+import Svg, {
+  Circle,
+  ClipPath,
+  Defs,
+  G,
+  Image as SvgImage,
+  LinearGradient,
+  Rect,
+  Stop,
+  Text as SvgText,
+} from 'react-native-svg';
+import { SHARE_CARD_SIZES, formatRatingDelta } from '@/lib/shareCard';
+import type { ShareCardData, ShareCardLayout, ShareCardPlayer, ShareCardTeam } from '@/lib/shareCard';
+
+interface ShareCardProps {
+  data: ShareCardData;
+  layout: ShareCardLayout;
+  width: number;  // Rendered width; height follows the layout's aspect ratio
+}
+
+const AVATAR_RADIUS = 72;
+const CONTENT_HEIGHT = 1080;  // Square canvas; taller layouts centre it vertically
+
+const getInitials = (name: string): string => {
+  return name
+    .split(' ')
+    .map((part) => part.charAt(0))
+    .join('')
+    .slice(0, 2)
+    .toUpperCase();
+};
+
+const getDeltaColor = (delta: number): string => (delta >= 0 ? '#bbf7d0' : '#fecaca');
+
+interface CardPlayerProps {
+  player: ShareCardPlayer;
+  cx: number;
+  cy: number;
+}
+
+const CardPlayer = ({ player, cx, cy }: CardPlayerProps) => {
+  const clipId = `avatar-${player.uid}`;
+  const firstName = player.displayName.split(' ')[0];
+
+  return (
+    <G>
+      <Circle cx={cx} cy={cy} r={AVATAR_RADIUS + 6} fill="#ffffff" />
+      {player.photoURL ? (
+        <>
+          <Defs>
+            <ClipPath id={clipId}>
+              <Circle cx={cx} cy={cy} r={AVATAR_RADIUS} />
+            </ClipPath>
+          </Defs>
+          <SvgImage
+            href={{ uri: player.photoURL }}
+            x={cx - AVATAR_RADIUS}
+            y={cy - AVATAR_RADIUS}
+            width={AVATAR_RADIUS * 2}
+            height={AVATAR_RADIUS * 2}
+            preserveAspectRatio="xMidYMid slice"
+            clipPath={`url(#${clipId})`}
+          />
+        </>
+      ) : (
+        <>
+          <Circle cx={cx} cy={cy} r={AVATAR_RADIUS} fill="#15803d" />
+          <SvgText
+            x={cx}
+            y={cy + 20}
+            fontSize={56}
+            fontWeight="bold"
+            fill="#ffffff"
+            textAnchor="middle"
+          >
+            {getInitials(player.displayName)}
+          </SvgText>
+        </>
+      )}
+      <SvgText
+        x={cx}
+        y={cy + AVATAR_RADIUS + 56}
+        fontSize={40}
+        fontWeight="bold"
+        fill="#ffffff"
+        textAnchor="middle"
+      >
+        {firstName}
+      </SvgText>
+      {player.ratingDelta !== null && (
+        <SvgText
+          x={cx}
+          y={cy + AVATAR_RADIUS + 104}
+          fontSize={36}
+          fontWeight="bold"
+          fill={getDeltaColor(player.ratingDelta)}
+          textAnchor="middle"
+        >
+          {formatRatingDelta(player.ratingDelta)}
+        </SvgText>
+      )}
+    </G>
+  );
+};
+
+interface CardTeamProps {
+  team: ShareCardTeam;
+  cx: number;
+}
+
+const CardTeam = ({ team, cx }: CardTeamProps) => {
+  // Doubles stack both players; singles centre the one player
+  const avatarYs = team.players.length > 1 ? [330, 640] : [480];
+
+  return (
+    <G>
+      {team.isWinner && (
+        <SvgText
+          x={cx}
+          y={190}
+          fontSize={32}
+          fontWeight="bold"
+          letterSpacing={4}
+          fill="#fde047"
+          textAnchor="middle"
+        >
+          WINNER
+        </SvgText>
+      )}
+      {team.players.map((player, index) => (
+        <CardPlayer key={player.uid} player={player} cx={cx} cy={avatarYs[index]} />
+      ))}
+    </G>
+  );
+};
+
+export const ShareCard = memo(forwardRef<Svg, ShareCardProps>(({ data, layout, width }, ref) => {
+  const size = SHARE_CARD_SIZES[layout];
+  const contentTop = (size.height - CONTENT_HEIGHT) / 2;
+  const isStory = layout === 'story';
+
+  return (
+    <Svg
+      ref={ref}
+      width={width}
+      height={(width * size.height) / size.width}
+      viewBox={`0 0 ${size.width} ${size.height}`}
+    >
+      <Defs>
+        <LinearGradient id="cardBackground" x1="0" y1="0" x2="0" y2="1">
+          <Stop offset="0" stopColor="#16a34a" />
+          <Stop offset="1" stopColor="#14532d" />
+        </LinearGradient>
+      </Defs>
+      <Rect x={0} y={0} width={size.width} height={size.height} fill="url(#cardBackground)" />
+
+      {/* Header */}
+      <SvgText
+        x={size.width / 2}
+        y={isStory ? 200 : 96}
+        fontSize={isStory ? 64 : 48}
+        fontWeight="bold"
+        letterSpacing={8}
+        fill="#ffffff"
+        textAnchor="middle"
+      >
+        PICKLEBEAN
+      </SvgText>
+      <SvgText
+        x={size.width / 2}
+        y={isStory ? 270 : 148}
+        fontSize={34}
+        fill="#dcfce7"
+        textAnchor="middle"
+      >
+        {`${data.categoryLabel} · ${data.dateLabel}`}
+      </SvgText>
+
+      {/* Teams and score */}
+      <G y={contentTop}>
+        <CardTeam team={data.team1} cx={230} />
+        <CardTeam team={data.team2} cx={850} />
+
+        <SvgText
+          x={size.width / 2}
+          y={540}
+          fontSize={150}
+          fontWeight="bold"
+          fill="#ffffff"
+          textAnchor="middle"
+        >
+          {`${data.team1.score}-${data.team2.score}`}
+        </SvgText>
+        {data.gameScores && (
+          <SvgText
+            x={size.width / 2}
+            y={610}
+            fontSize={34}
+            fill="#dcfce7"
+            textAnchor="middle"
+          >
+            {data.gameScores}
+          </SvgText>
+        )}
+      </G>
+
+      {/* Footer */}
+      <SvgText
+        x={size.width / 2}
+        y={size.height - (isStory ? 200 : 56)}
+        fontSize={32}
+        fill="#dcfce7"
+        textAnchor="middle"
+      >
+        {data.profileUrl ?? 'picklebean.app'}
+      </SvgText>
+    </Svg>
+  );
+}));
+
+ShareCard.displayName = 'ShareCard';
+
+export type { ShareCardProps };
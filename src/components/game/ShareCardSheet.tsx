@@ -0,0 +1,138 @@
+import { memo, useMemo, useRef, useState } from 'react';
+import { View, Text, Pressable, ActivityIndicator, useWindowDimensions } from 'react-native';
+import { Share2 } from 'lucide-react-native';
+import {
+  Actionsheet,
+  ActionsheetBackdrop,
+  ActionsheetContent,
+  ActionsheetDragIndicatorWrapper,
+  ActionsheetDragIndicator,
+} from '@gluestack-ui/themed';
+import * as Haptics from 'expo-haptics';
+import type Svg from 'react-native-svg';
+import { ShareCard } from './ShareCard';
+import { shareMatchCard } from '@/lib/share';
+import {
+  SHARE_CARD_LAYOUT_LABELS,
+  SHARE_CARD_SIZES,
+  getShareCardData,
+} from '@/lib/shareCard';
+import type { ShareCardLayout } from '@/lib/shareCard';
+import { useAlert } from '@/hooks/common/useAlert';
+import type { Lobby } from '@/types/lobby';
+
+interface ShareCardSheetProps {
+  visible: boolean;
+  onClose: () => void;
+  lobby: Lobby;
+  currentUserName: string;
+  currentUsername?: string;  // For the profile link on the card
+  currentUserPoints: number;
+}
+
+const LAYOUTS: ShareCardLayout[] = ['square', 'story'];
+
+// Keep the story preview from filling the whole sheet
+const MAX_PREVIEW_HEIGHT_RATIO = 0.5;
+
+export const ShareCardSheet = memo(({
+  visible,
+  onClose,
+  lobby,
+  currentUserName,
+  currentUsername,
+  currentUserPoints,
+}: ShareCardSheetProps) => {
+  const alert = useAlert();
+  const { width: screenWidth, height: screenHeight } = useWindowDimensions();
+  const cardRef = useRef<Svg>(null);
+  const [layout, setLayout] = useState<ShareCardLayout>('square');
+  const [isSharing, setIsSharing] = useState(false);
+
+  const data = useMemo(() => getShareCardData(lobby, currentUsername), [lobby, currentUsername]);
+
+  const size = SHARE_CARD_SIZES[layout];
+  const previewWidth = Math.min(
+    screenWidth - 48,
+    (screenHeight * MAX_PREVIEW_HEIGHT_RATIO * size.width) / size.height
+  );
+
+  const handleShare = async (): Promise<void> => {
+    if (!cardRef.current) return;
+
+    setIsSharing(true);
+    try {
+      await shareMatchCard(cardRef.current, layout, lobby, currentUserName, currentUserPoints);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      onClose();
+    } catch (error) {
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      console.error('Error sharing card:', error);
+      alert.show('Share Failed', 'Unable to share match result. Please try again.');
+    } finally {
+      setIsSharing(false);
+    }
+  };
+
+  return (
+    <Actionsheet isOpen={visible} onClose={onClose}>
+      <ActionsheetBackdrop />
+      <ActionsheetContent className="px-0 pb-8">
+        <ActionsheetDragIndicatorWrapper>
+          <ActionsheetDragIndicator />
+        </ActionsheetDragIndicatorWrapper>
+
+        <View className="w-full px-6 py-4">
+          <Text className="mb-4 text-xl font-bold text-center !text-gray-900">
+            Share Result
+          </Text>
+
+          {/* Layout toggle */}
+          <View className="flex-row self-center p-1 mb-4 bg-gray-100 rounded-full">
+            {LAYOUTS.map((option) => (
+              <Pressable
+                key={option}
+                onPress={() => setLayout(option)}
+                className={`px-5 py-2 rounded-full ${layout === option ? 'bg-white' : ''}`}
+              >
+                <Text className={`text-sm font-semibold ${
+                  layout === option ? '!text-gray-900' : '!text-gray-500'
+                }`}>
+                  {SHARE_CARD_LAYOUT_LABELS[option]}
+                </Text>
+              </Pressable>
+            ))}
+          </View>
+
+          {/* Preview - also the element exported to PNG */}
+          {data && (
+            <View className="items-center mb-6 overflow-hidden rounded-xl">
+              <ShareCard ref={cardRef} data={data} layout={layout} width={previewWidth} />
+            </View>
+          )}
+
+          <Pressable
+            onPress={handleShare}
+            disabled={!data || isSharing}
+            className={`flex-row items-center justify-center gap-2 py-4 rounded-lg bg-blue-600 active:bg-blue-700 ${
+              !data || isSharing ? 'opacity-50' : ''
+            }`}
+          >
+            {isSharing ? (
+              <ActivityIndicator color="#ffffff" />
+            ) : (
+              <>
+                <Share2 size={18} color="#ffffff" />
+                <Text className="font-bold !text-white">Share Image</Text>
+              </>
+            )}
+          </Pressable>
+        </View>
+      </ActionsheetContent>
+    </Actionsheet>
+  );
+});
+
+ShareCardSheet.displayName = 'ShareCardSheet';
+
+export type { ShareCardSheetProps };
@@ -0,0 +1,224 @@
+import { memo, useState } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { ChevronDown, X } from 'lucide-react-native';
+import {
+  Actionsheet,
+  ActionsheetBackdrop,
+  ActionsheetContent,
+  ActionsheetDragIndicatorWrapper,
+  ActionsheetDragIndicator,
+} from '@gluestack-ui/themed';
+import {
+  EMPTY_HISTORY_FILTERS,
+  HISTORY_CATEGORY_LABELS,
+  HISTORY_DATE_RANGE_LABELS,
+  hasHistoryFilters,
+} from '@/lib/historyFilters';
+import type { HistoryDateRange, HistoryFilterState, HistoryPlayerOption } from '@/lib/historyFilters';
+
+interface MatchFilterBarProps {
+  filters: HistoryFilterState;
+  players: HistoryPlayerOption[];  // Opponents and partners to offer
+  onChange: (filters: HistoryFilterState) => void;
+}
+
+type FilterSheet = 'category' | 'result' | 'player' | 'relation' | 'date';
+
+interface SheetOption {
+  key: string;
+  label: string;
+  selected: boolean;
+  apply: () => HistoryFilterState;
+}
+
+const RESULT_LABELS = { win: 'Wins', loss: 'Losses' } as const;
+const RELATION_LABELS = { opponent: 'Against', partner: 'Partnered' } as const;
+
+const SHEET_TITLES: Record<FilterSheet, string> = {
+  category: 'Game Type',
+  result: 'Result',
+  player: 'Player',
+  relation: 'Played',
+  date: 'Date Range',
+};
+
+interface FilterChipProps {
+  label: string;
+  active: boolean;
+  onPress: () => void;
+}
+
+const FilterChip = memo(({ label, active, onPress }: FilterChipProps) => (
+  <Pressable
+    onPress={onPress}
+    className={`flex-row items-center gap-1 px-3 py-1.5 rounded-full active:opacity-70 ${
+      active ? 'bg-green-500' : 'bg-gray-100'
+    }`}
+  >
+    <Text className={`text-sm font-medium ${active ? '!text-white' : '!text-gray-700'}`}>
+      {label}
+    </Text>
+    <ChevronDown size={14} color={active ? '#ffffff' : '#6b7280'} />
+  </Pressable>
+));
+
+FilterChip.displayName = 'FilterChip';
+
+/**
+ * Horizontal row of match history filters; each chip opens a picker sheet
+ */
+export const MatchFilterBar = memo(({ filters, players, onChange }: MatchFilterBarProps) => {
+  const [openSheet, setOpenSheet] = useState<FilterSheet | null>(null);
+
+  const getOptions = (sheet: FilterSheet): SheetOption[] => {
+    switch (sheet) {
+      case 'category':
+        return [
+          { key: 'all', label: 'All Types', selected: !filters.category, apply: () => ({ ...filters, category: undefined }) },
+          ...(Object.keys(HISTORY_CATEGORY_LABELS) as (keyof typeof HISTORY_CATEGORY_LABELS)[]).map((category) => ({
+            key: category,
+            label: HISTORY_CATEGORY_LABELS[category],
+            selected: filters.category === category,
+            apply: () => ({ ...filters, category }),
+          })),
+        ];
+      case 'result':
+        return [
+          { key: 'all', label: 'All Results', selected: !filters.result, apply: () => ({ ...filters, result: undefined }) },
+          ...(['win', 'loss'] as const).map((result) => ({
+            key: result,
+            label: RESULT_LABELS[result],
+            selected: filters.result === result,
+            apply: () => ({ ...filters, result }),
+          })),
+        ];
+      case 'player':
+        return [
+          {
+            key: 'all',
+            label: 'Anyone',
+            selected: !filters.player,
+            apply: () => ({ ...filters, player: undefined, relation: undefined }),
+          },
+          ...players.map((player) => ({
+            key: player.uid,
+            label: player.name,
+            selected: filters.player?.uid === player.uid,
+            apply: () => ({ ...filters, player }),
+          })),
+        ];
+      case 'relation':
+        return [
+          { key: 'all', label: 'Against or Partnered', selected: !filters.relation, apply: () => ({ ...filters, relation: undefined }) },
+          ...(['opponent', 'partner'] as const).map((relation) => ({
+            key: relation,
+            label: RELATION_LABELS[relation],
+            selected: filters.relation === relation,
+            apply: () => ({ ...filters, relation }),
+          })),
+        ];
+      case 'date':
+        return (Object.keys(HISTORY_DATE_RANGE_LABELS) as HistoryDateRange[]).map((dateRange) => ({
+          key: dateRange,
+          label: HISTORY_DATE_RANGE_LABELS[dateRange],
+          selected: filters.dateRange === dateRange,
+          apply: () => ({ ...filters, dateRange }),
+        }));
+    }
+  };
+
+  const handleSelect = (option: SheetOption) => {
+    onChange(option.apply());
+    setOpenSheet(null);
+  };
+
+  return (
+    <>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={{ gap: 8 }}
+      >
+        {hasHistoryFilters(filters) && (
+          <Pressable
+            onPress={() => onChange(EMPTY_HISTORY_FILTERS)}
+            className="flex-row items-center gap-1 px-3 py-1.5 rounded-full bg-gray-100 active:opacity-70"
+          >
+            <X size={14} color="#6b7280" />
+            <Text className="text-sm font-medium !text-gray-700">Clear</Text>
+          </Pressable>
+        )}
+        <FilterChip
+          label={filters.category ? HISTORY_CATEGORY_LABELS[filters.category] : 'Type'}
+          active={!!filters.category}
+          onPress={() => setOpenSheet('category')}
+        />
+        <FilterChip
+          label={filters.result ? RESULT_LABELS[filters.result] : 'Result'}
+          active={!!filters.result}
+          onPress={() => setOpenSheet('result')}
+        />
+        <FilterChip
+          label={filters.player ? filters.player.name : 'Player'}
+          active={!!filters.player}
+          onPress={() => setOpenSheet('player')}
+        />
+        {filters.player && (
+          <FilterChip
+            label={filters.relation ? RELATION_LABELS[filters.relation] : 'Against or Partnered'}
+            active={!!filters.relation}
+            onPress={() => setOpenSheet('relation')}
+          />
+        )}
+        <FilterChip
+          label={HISTORY_DATE_RANGE_LABELS[filters.dateRange]}
+          active={filters.dateRange !== 'all'}
+          onPress={() => setOpenSheet('date')}
+        />
+      </ScrollView>
+
+      <Actionsheet isOpen={openSheet !== null} onClose={() => setOpenSheet(null)}>
+        <ActionsheetBackdrop />
+        <ActionsheetContent className="px-0 pb-8">
+          <ActionsheetDragIndicatorWrapper>
+            <ActionsheetDragIndicator />
+          </ActionsheetDragIndicatorWrapper>
+
+          {openSheet && (
+            <View className="w-full px-6 py-4">
+              <Text className="mb-4 text-xl font-bold text-center !text-gray-900">
+                {SHEET_TITLES[openSheet]}
+              </Text>
+
+              <ScrollView style={{ maxHeight: 360 }}>
+                {getOptions(openSheet).map((option) => (
+                  <Pressable
+                    key={option.key}
+                    onPress={() => handleSelect(option)}
+                    className="flex-row items-center justify-between py-3 border-b border-gray-100 active:opacity-70"
+                  >
+                    <Text className={`text-base ${
+                      option.selected ? 'font-semibold !text-green-600' : '!text-gray-900'
+                    }`}>
+                      {option.label}
+                    </Text>
+                  </Pressable>
+                ))}
+              </ScrollView>
+
+              {openSheet === 'player' && players.length === 0 && (
+                <Text className="mt-2 text-sm text-center !text-gray-500">
+                  Players you meet will appear here
+                </Text>
+              )}
+            </View>
+          )}
+        </ActionsheetContent>
+      </Actionsheet>
+    </>
+  );
+});
+
+MatchFilterBar.displayName = 'MatchFilterBar';
+
+export type { MatchFilterBarProps };
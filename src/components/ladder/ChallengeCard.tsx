@@ -0,0 +1,126 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { isChallengeOpen } from '@/lib/ladder';
+import type { LadderChallenge, LadderChallengeStatus, LadderMember } from '@/types/ladder';
+
+interface ChallengeCardProps {
+  challenge: LadderChallenge;
+  members: LadderMember[];
+  currentUserId: string;
+  onAccept: (challenge: LadderChallenge) => void;
+  onDecline: (challenge: LadderChallenge) => void;
+  onCancel: (challenge: LadderChallenge) => void;
+  onOpenLobby: (roomCode: string) => void;
+}
+
+const STATUS_LABELS: Record<LadderChallengeStatus, string> = {
+  pending: 'Waiting for reply',
+  accepted: 'Playing',
+  completed: 'Final',
+  declined: 'Declined',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+};
+
+const getMemberName = (members: LadderMember[], uid: string) =>
+  members.find((m) => m.uid === uid)?.displayName || 'Player';
+
+/**
+ * One ladder challenge with its result or the actions open to the viewer
+ */
+export const ChallengeCard = memo(({
+  challenge,
+  members,
+  currentUserId,
+  onAccept,
+  onDecline,
+  onCancel,
+  onOpenLobby,
+}: ChallengeCardProps) => {
+  const isOpen = isChallengeOpen(challenge, Date.now());
+  const isPending = isOpen && challenge.status === 'pending';
+  const isPlayer = challenge.playerIds.includes(currentUserId);
+  const statusLabel = challenge.status === 'pending' && !isOpen
+    ? STATUS_LABELS.expired
+    : STATUS_LABELS[challenge.status];
+
+  const renderPlayer = (uid: string, role: string, points?: number) => {
+    const isWinner = challenge.winnerId === uid;
+
+    return (
+      <View className="flex-row items-center justify-between py-1">
+        <Text
+          className={`flex-1 text-sm ${isWinner ? 'font-bold !text-gray-900' : '!text-gray-600'}`}
+          numberOfLines={1}
+        >
+          {getMemberName(members, uid)}
+          <Text className="text-xs !text-gray-400"> · {role}</Text>
+        </Text>
+        {points !== undefined && (
+          <Text className={`ml-2 text-sm ${isWinner ? 'font-bold !text-green-600' : '!text-gray-500'}`}>
+            {points}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View className="p-3 mb-2 bg-white border border-gray-200 rounded-lg">
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-xs font-semibold !text-gray-500 uppercase">
+          {isPending
+            ? `Play by ${challenge.expiresAt.toDate().toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}`
+            : 'Challenge'}
+        </Text>
+        <Text className={`text-xs font-medium ${
+          challenge.status === 'accepted' ? '!text-green-600' : '!text-gray-400'
+        }`}>
+          {statusLabel}
+        </Text>
+      </View>
+
+      {renderPlayer(challenge.challengerId, 'Challenger', challenge.score?.team1)}
+      {renderPlayer(challenge.defenderId, 'Defender', challenge.score?.team2)}
+
+      {isPending && currentUserId === challenge.defenderId && (
+        <View className="flex-row gap-2 mt-2">
+          <Pressable
+            onPress={() => onAccept(challenge)}
+            className="items-center flex-1 py-2 bg-green-500 rounded-lg active:bg-green-600"
+          >
+            <Text className="text-sm font-semibold !text-white">Accept & Play</Text>
+          </Pressable>
+          <Pressable
+            onPress={() => onDecline(challenge)}
+            className="items-center px-4 py-2 bg-gray-100 rounded-lg active:bg-gray-200"
+          >
+            <Text className="text-sm font-semibold !text-gray-700">Decline</Text>
+          </Pressable>
+        </View>
+      )}
+
+      {isPending && currentUserId === challenge.challengerId && (
+        <Pressable
+          onPress={() => onCancel(challenge)}
+          className="items-center py-2 mt-2 bg-gray-100 rounded-lg active:bg-gray-200"
+        >
+          <Text className="text-sm font-semibold !text-gray-700">Withdraw Challenge</Text>
+        </Pressable>
+      )}
+
+      {challenge.status === 'accepted' && challenge.roomCode && isPlayer && (
+        <Pressable
+          onPress={() => onOpenLobby(challenge.roomCode as string)}
+          className="items-center py-2 mt-2 bg-green-500 rounded-lg active:bg-green-600"
+        >
+          <Text className="text-sm font-semibold !text-white">Go to Lobby</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+});
+
+ChallengeCard.displayName = 'ChallengeCard';
+
+export type { ChallengeCardProps };
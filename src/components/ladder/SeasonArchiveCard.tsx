@@ -0,0 +1,59 @@
+import { memo, useState } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { ChevronDown, ChevronUp } from 'lucide-react-native';
+import type { LadderSeason } from '@/types/ladder';
+
+interface SeasonArchiveCardProps {
+  season: LadderSeason;
+  currentUserId?: string;
+}
+
+const PODIUM_SIZE = 3;
+
+const formatDate = (date: LadderSeason['endedAt']) =>
+  date?.toDate().toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) ?? '';
+
+/**
+ * Final standings of a past ladder season, collapsed to the top three
+ */
+export const SeasonArchiveCard = memo(({ season, currentUserId }: SeasonArchiveCardProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const standings = expanded ? season.standings : season.standings.slice(0, PODIUM_SIZE);
+  const canExpand = season.standings.length > PODIUM_SIZE;
+
+  return (
+    <View className="p-4 mb-2 rounded-lg bg-gray-50">
+      <Pressable
+        onPress={() => setExpanded((value) => !value)}
+        disabled={!canExpand}
+        className="flex-row items-center justify-between mb-2"
+      >
+        <View>
+          <Text className="text-sm font-bold !text-gray-900">Season {season.season}</Text>
+          <Text className="text-xs !text-gray-500">Ended {formatDate(season.endedAt)}</Text>
+        </View>
+        {canExpand && (expanded
+          ? <ChevronUp size={18} color="#6b7280" />
+          : <ChevronDown size={18} color="#6b7280" />)}
+      </Pressable>
+
+      {standings.map((member, index) => (
+        <View key={member.uid} className="flex-row items-center py-1">
+          <Text className="w-8 text-sm font-semibold !text-gray-500">{index + 1}</Text>
+          <Text
+            className={`flex-1 text-sm ${
+              member.uid === currentUserId ? 'font-bold !text-green-700' : '!text-gray-900'
+            }`}
+            numberOfLines={1}
+          >
+            {member.displayName}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+SeasonArchiveCard.displayName = 'SeasonArchiveCard';
+
+export type { SeasonArchiveCardProps };
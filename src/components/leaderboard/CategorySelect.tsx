@@ -1,28 +1,17 @@
 import { memo, useRef, useEffect } from 'react';
 import { View, Text, Pressable, ScrollView } from 'react-native';
-import type { GameCategory } from '@/types/lobby';
-
-export type CategoryFilter =
-  | 'all_singles'
-  | 'mens_singles'
-  | 'womens_singles'
-  | 'all_doubles'
-  | 'mens_doubles'
-  | 'womens_doubles';
+import { CATEGORY_FILTER_LABELS } from '@/lib/leaderboardPeriods';
+import type { CategoryFilter } from '@/types/leaderboard';
 
 interface CategorySelectProps {
   value: CategoryFilter;
   onChange: (value: CategoryFilter) => void;
 }
 
-const categories: { value: CategoryFilter; label: string }[] = [
-  { value: 'all_doubles', label: 'Doubles' },
-  { value: 'all_singles', label: 'Singles' },
-  { value: 'mens_doubles', label: "Men's Doubles" },
-  { value: 'womens_doubles', label: "Women's Doubles" },
-  { value: 'mens_singles', label: "Men's Singles" },
-  { value: 'womens_singles', label: "Women's Singles" },
-];
+const categories = (Object.keys(CATEGORY_FILTER_LABELS) as CategoryFilter[]).map((value) => ({
+  value,
+  label: CATEGORY_FILTER_LABELS[value],
+}));
 
 export const CategorySelect = memo(({ value, onChange }: CategorySelectProps) => {
   const scrollViewRef = useRef<ScrollView>(null);
@@ -86,26 +75,4 @@ export const CategorySelect = memo(({ value, onChange }: CategorySelectProps) =>
 
 CategorySelect.displayName = 'CategorySelect';
 
-/**
- * Helper to convert CategoryFilter to GameCategory and gender
- */
-export const parseCategoryFilter = (
-  filter: CategoryFilter
-): { category: GameCategory; gender: 'male' | 'female' | undefined } => {
-  switch (filter) {
-    case 'all_singles':
-      return { category: 'singles', gender: undefined };
-    case 'mens_singles':
-      return { category: 'singles', gender: 'male' };
-    case 'womens_singles':
-      return { category: 'singles', gender: 'female' };
-    case 'all_doubles':
-      return { category: 'same_gender_doubles', gender: undefined };
-    case 'mens_doubles':
-      return { category: 'same_gender_doubles', gender: 'male' };
-    case 'womens_doubles':
-      return { category: 'same_gender_doubles', gender: 'female' };
-  }
-};
-
 export type { CategorySelectProps };
@@ -13,6 +13,9 @@ interface LeaderboardPageProps {
   currentUserId?: string;
   onRefresh: () => void;
   onUserPress: (username: string) => void;
+  // Empty state text, e.g. for a local leaderboard that needs setting up
+  emptyTitle?: string;
+  emptyMessage?: string;
 }
 
 export const LeaderboardPage = memo(({
@@ -23,6 +26,8 @@ export const LeaderboardPage = memo(({
   currentUserId,
   onRefresh,
   onUserPress,
+  emptyTitle = 'No Rankings Yet',
+  emptyMessage = 'Be the first to play and claim the top spot!',
 }: LeaderboardPageProps) => {
   const renderItem = useCallback(
     ({ item, index }: { item: UserDocument; index: number }) => {
@@ -53,14 +58,14 @@ export const LeaderboardPage = memo(({
           <Trophy size={32} color="#9ca3af" />
         </View>
         <Text className="mb-2 text-xl font-bold text-gray-900">
-          No Rankings Yet
+          {emptyTitle}
         </Text>
         <Text className="text-base text-center text-gray-600">
-          Be the first to play and claim the top spot!
+          {emptyMessage}
         </Text>
       </View>
     );
-  }, [loading]);
+  }, [loading, emptyTitle, emptyMessage]);
 
   return (
     <FlatList
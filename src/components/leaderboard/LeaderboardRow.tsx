@@ -3,6 +3,8 @@ import { View, Text, Pressable } from 'react-native';
 import { Trophy, Medal } from 'lucide-react-native';
 import { Avatar } from '@/components/ui/Avatar';
 import { Card } from '@/components/ui/Card';
+import { getRankingKey } from '@/lib/points';
+import { isProvisionalRating } from '@/lib/ratingEngine';
 import type { UserDocument } from '@/types/user';
 import type { GameCategory } from '@/types/lobby';
 
@@ -33,7 +35,7 @@ const getUserPoints = (user: UserDocument, category: GameCategory): number => {
 /**
  * Get rank display (trophy/medal for top 3, number for rest)
  */
-const getRankDisplay = (rank: number) => {
+export const getRankDisplay = (rank: number) => {
   switch (rank) {
     case 1:
       return <Trophy size={24} color="#EAB308" />; // Gold
@@ -52,6 +54,7 @@ const getRankDisplay = (rank: number) => {
 
 export const LeaderboardRow = memo(({ user, rank, category, isCurrentUser, onPress }: LeaderboardRowProps) => {
   const points = getUserPoints(user, category);
+  const isProvisional = isProvisionalRating(user, getRankingKey(category));
   const displayName = user.displayName || 'Unknown User';
 
   return (
@@ -73,9 +76,16 @@ export const LeaderboardRow = memo(({ user, rank, category, isCurrentUser, onPre
                 <Text className="text-sm font-normal text-blue-600"> (You)</Text>
               )}
             </Text>
-            <Text className="mt-1 text-sm text-gray-500">
-              {points.toLocaleString()} Points
-            </Text>
+            <View className="flex-row items-center gap-2 mt-1">
+              <Text className="text-sm text-gray-500">
+                {points.toLocaleString()} Points
+              </Text>
+              {isProvisional && (
+                <View className="px-2 py-0.5 bg-amber-100 rounded">
+                  <Text className="text-xs font-semibold text-amber-700">Provisional</Text>
+                </View>
+              )}
+            </View>
           </View>
 
           {/* Rank/Medal on Right */}
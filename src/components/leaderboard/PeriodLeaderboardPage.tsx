@@ -0,0 +1,100 @@
+import { memo, useCallback } from 'react';
+import { View, Text, FlatList, RefreshControl } from 'react-native';
+import { Trophy } from 'lucide-react-native';
+import type { GameCategory } from '@/types/lobby';
+import type { LeaderboardMetric, PeriodEntry } from '@/types/leaderboard';
+import { PeriodLeaderboardRow } from './PeriodLeaderboardRow';
+
+interface PeriodLeaderboardPageProps {
+  entries: PeriodEntry[];
+  category: GameCategory;
+  metric: LeaderboardMetric;
+  periodLabel: string;
+  isClosed: boolean;
+  loading: boolean;
+  refreshing: boolean;
+  currentUserId?: string;
+  onRefresh: () => void;
+  onUserPress: (username: string) => void;
+}
+
+export const PeriodLeaderboardPage = memo(({
+  entries,
+  category,
+  metric,
+  periodLabel,
+  isClosed,
+  loading,
+  refreshing,
+  currentUserId,
+  onRefresh,
+  onUserPress,
+}: PeriodLeaderboardPageProps) => {
+  const renderItem = useCallback(
+    ({ item, index }: { item: PeriodEntry; index: number }) => (
+      <PeriodLeaderboardRow
+        entry={item}
+        rank={index + 1}
+        category={category}
+        metric={metric}
+        isCurrentUser={item.uid === currentUserId}
+        onPress={() => onUserPress(item.username)}
+      />
+    ),
+    [category, metric, currentUserId, onUserPress]
+  );
+
+  const keyExtractor = useCallback((item: PeriodEntry) => item.uid, []);
+
+  const renderEmptyState = useCallback(() => {
+    if (loading) return null;
+
+    return (
+      <View className="items-center justify-center flex-1 px-4 py-12">
+        <View className="items-center justify-center w-20 h-20 mb-4 bg-gray-100 rounded-full">
+          <Trophy size={32} color="#9ca3af" />
+        </View>
+        <Text className="mb-2 text-xl font-bold text-gray-900">
+          No Matches in {periodLabel}
+        </Text>
+        <Text className="text-base text-center text-gray-600">
+          {isClosed
+            ? 'Nobody played this category during the period.'
+            : 'Play a match to get on this leaderboard!'}
+        </Text>
+      </View>
+    );
+  }, [loading, periodLabel, isClosed]);
+
+  return (
+    <FlatList
+      data={entries}
+      renderItem={renderItem}
+      keyExtractor={keyExtractor}
+      style={{ flex: 1 }}
+      contentContainerStyle={{
+        paddingHorizontal: 16,
+        paddingTop: 16,
+        flexGrow: 1,
+      }}
+      ListEmptyComponent={renderEmptyState}
+      ListFooterComponent={
+        entries.length > 0 ? (
+          <View className="py-4">
+            <Text className="text-sm text-center text-gray-500">
+              {isClosed ? 'Final standings' : 'Standings so far'} • {entries.length} players
+            </Text>
+          </View>
+        ) : null
+      }
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+      showsVerticalScrollIndicator={false}
+    />
+  );
+});
+
+PeriodLeaderboardPage.displayName = 'PeriodLeaderboardPage';
+
+export type { PeriodLeaderboardPageProps };
@@ -0,0 +1,61 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { Avatar } from '@/components/ui/Avatar';
+import { Card } from '@/components/ui/Card';
+import { formatPeriodValue, getPeriodValue } from '@/lib/leaderboardPeriods';
+import { getRankingKey } from '@/lib/points';
+import type { GameCategory } from '@/types/lobby';
+import type { LeaderboardMetric, PeriodEntry } from '@/types/leaderboard';
+import { getRankDisplay } from './LeaderboardRow';
+
+interface PeriodLeaderboardRowProps {
+  entry: PeriodEntry;
+  rank: number;
+  category: GameCategory;
+  metric: LeaderboardMetric;
+  isCurrentUser?: boolean;
+  onPress?: () => void;
+}
+
+export const PeriodLeaderboardRow = memo(({
+  entry,
+  rank,
+  category,
+  metric,
+  isCurrentUser,
+  onPress,
+}: PeriodLeaderboardRowProps) => {
+  const value = getPeriodValue(entry, metric, category);
+  const matches = entry.matches?.[getRankingKey(category)] ?? 0;
+  const displayName = entry.displayName || 'Unknown User';
+
+  return (
+    <Card variant="outlined" className={`mb-3 py-0 px-0 ${isCurrentUser ? 'border-2 border-blue-500' : ''}`}>
+      <Pressable onPress={onPress} className="active:bg-gray-50">
+        <View className="flex-row items-center p-4">
+          <Avatar uri={entry.photoURL} name={displayName} size="md" />
+
+          <View className="flex-1 ml-3">
+            <Text className="text-base font-semibold text-gray-900">
+              {displayName}
+              {isCurrentUser && (
+                <Text className="text-sm font-normal text-blue-600"> (You)</Text>
+              )}
+            </Text>
+            <Text className="mt-1 text-sm text-gray-500">
+              {formatPeriodValue(value, metric)} • {matches} {matches === 1 ? 'match' : 'matches'}
+            </Text>
+          </View>
+
+          <View className="items-center justify-center ml-4">
+            {getRankDisplay(rank)}
+          </View>
+        </View>
+      </Pressable>
+    </Card>
+  );
+});
+
+PeriodLeaderboardRow.displayName = 'PeriodLeaderboardRow';
+
+export type { PeriodLeaderboardRowProps };
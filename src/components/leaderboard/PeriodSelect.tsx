@@ -0,0 +1,91 @@
+import { memo } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { LEADERBOARD_METRIC_LABELS } from '@/lib/leaderboardPeriods';
+import type { LeaderboardMetric, LeaderboardPeriod } from '@/types/leaderboard';
+
+interface PeriodSelectProps {
+  periods: LeaderboardPeriod[];
+  // null for the all-time rankings
+  periodId: string | null;
+  metric: LeaderboardMetric;
+  onPeriodChange: (periodId: string | null) => void;
+  onMetricChange: (metric: LeaderboardMetric) => void;
+}
+
+const metrics = Object.keys(LEADERBOARD_METRIC_LABELS) as LeaderboardMetric[];
+
+export const PeriodSelect = memo(({
+  periods,
+  periodId,
+  metric,
+  onPeriodChange,
+  onMetricChange,
+}: PeriodSelectProps) => {
+  const options = [
+    { id: null, label: 'All-Time' },
+    ...periods.map((period) => ({
+      id: period.id,
+      label: period.status === 'active' ? period.label : `${period.label} (Final)`,
+    })),
+  ];
+
+  return (
+    <View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        className="flex-row px-4 -mx-4"
+        contentContainerStyle={{ paddingRight: 16 }}
+      >
+        {options.map((option) => {
+          const isSelected = periodId === option.id;
+          return (
+            <Pressable
+              key={option.id ?? 'all_time'}
+              onPress={() => onPeriodChange(option.id)}
+              className={`mr-2 px-3 py-1.5 rounded-full ${
+                isSelected ? 'bg-gray-900' : 'bg-gray-100'
+              }`}
+            >
+              <Text
+                className={`text-xs font-medium ${
+                  isSelected ? 'text-white' : 'text-gray-700'
+                }`}
+              >
+                {option.label}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </ScrollView>
+
+      {/* Ranking metric, only for periods (all-time ranks by rating) */}
+      {periodId && (
+        <View className="flex-row p-1 mt-3 bg-gray-100 rounded-lg">
+          {metrics.map((value) => {
+            const isSelected = metric === value;
+            return (
+              <Pressable
+                key={value}
+                onPress={() => onMetricChange(value)}
+                className={`flex-1 items-center py-1.5 rounded-md ${isSelected ? 'bg-white' : ''}`}
+              >
+                <Text
+                  className={`text-sm font-medium ${
+                    isSelected ? 'text-gray-900' : 'text-gray-500'
+                  }`}
+                >
+                  {LEADERBOARD_METRIC_LABELS[value]}
+                </Text>
+              </Pressable>
+            );
+          })}
+        </View>
+      )}
+    </View>
+  );
+});
+
+PeriodSelect.displayName = 'PeriodSelect';
+
+export type { PeriodSelectProps };
@@ -0,0 +1,75 @@
+import { memo } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { LEADERBOARD_SCOPE_LABELS, NEARBY_RADIUS_OPTIONS_KM } from '@/lib/leaderboardScope';
+import type { LeaderboardScope } from '@/types/leaderboard';
+
+interface ScopeSelectProps {
+  scope: LeaderboardScope;
+  radiusKm: number;
+  onScopeChange: (scope: LeaderboardScope) => void;
+  onRadiusChange: (radiusKm: number) => void;
+}
+
+const scopes = Object.keys(LEADERBOARD_SCOPE_LABELS) as LeaderboardScope[];
+
+export const ScopeSelect = memo(({ scope, radiusKm, onScopeChange, onRadiusChange }: ScopeSelectProps) => {
+  return (
+    <View>
+      <View className="flex-row p-1 bg-gray-100 rounded-lg">
+        {scopes.map((value) => {
+          const isSelected = scope === value;
+          return (
+            <Pressable
+              key={value}
+              onPress={() => onScopeChange(value)}
+              className={`flex-1 items-center py-1.5 rounded-md ${isSelected ? 'bg-white' : ''}`}
+            >
+              <Text
+                className={`text-sm font-medium ${
+                  isSelected ? 'text-gray-900' : 'text-gray-500'
+                }`}
+              >
+                {LEADERBOARD_SCOPE_LABELS[value]}
+              </Text>
+            </Pressable>
+          );
+        })}
+      </View>
+
+      {/* Radius, only for players near me */}
+      {scope === 'nearby' && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          className="flex-row px-4 mt-3 -mx-4"
+          contentContainerStyle={{ paddingRight: 16 }}
+        >
+          {NEARBY_RADIUS_OPTIONS_KM.map((option) => {
+            const isSelected = radiusKm === option;
+            return (
+              <Pressable
+                key={option}
+                onPress={() => onRadiusChange(option)}
+                className={`mr-2 px-3 py-1.5 rounded-full ${
+                  isSelected ? 'bg-gray-900' : 'bg-gray-100'
+                }`}
+              >
+                <Text
+                  className={`text-xs font-medium ${
+                    isSelected ? 'text-white' : 'text-gray-700'
+                  }`}
+                >
+                  Within {option} km
+                </Text>
+              </Pressable>
+            );
+          })}
+        </ScrollView>
+      )}
+    </View>
+  );
+});
+
+ScopeSelect.displayName = 'ScopeSelect';
+
+export type { ScopeSelectProps };
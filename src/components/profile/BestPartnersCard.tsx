@@ -0,0 +1,42 @@
+import { memo } from 'react';
+import { View, Text } from 'react-native';
+import type { PartnerStats } from '@/types/user';
+
+interface BestPartnersCardProps {
+  partners: PartnerStats[];
+  maxPartners?: number;
+}
+
+/**
+ * A player's doubles partners ranked by win rate
+ * Renders nothing until someone has enough matches with a partner
+ */
+export const BestPartnersCard = memo(({ partners, maxPartners = 3 }: BestPartnersCardProps) => {
+  if (partners.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="p-4 rounded-lg bg-green-50">
+      <Text className="mb-2 text-xs font-semibold text-gray-500 uppercase">
+        Best Partners
+      </Text>
+
+      {partners.slice(0, maxPartners).map((partner, index) => (
+        <View key={partner.partnerId} className="flex-row items-center py-1.5">
+          <Text className="w-6 text-sm font-bold text-gray-400">{index + 1}</Text>
+          <Text className="flex-1 text-sm font-medium text-gray-900" numberOfLines={1}>
+            {partner.partnerName}
+          </Text>
+          <Text className="text-xs text-gray-600">
+            {partner.winRate}% · {partner.wins}-{partner.losses}
+          </Text>
+        </View>
+      ))}
+    </View>
+  );
+});
+
+BestPartnersCard.displayName = 'BestPartnersCard';
+
+export type { BestPartnersCardProps };
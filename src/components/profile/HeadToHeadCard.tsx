@@ -0,0 +1,74 @@
+import { memo } from 'react';
+import { View, Text } from 'react-native';
+import { formatRelativeDate } from '@/lib/dateFormat';
+import type { HeadToHeadStats } from '@/types/user';
+
+interface HeadToHeadCardProps {
+  stats: HeadToHeadStats;
+  opponentUsername: string;
+}
+
+const formatMargin = (margin: number): string => `${margin > 0 ? '+' : ''}${margin}`;
+
+/**
+ * "You vs @them" record shown on another player's profile
+ */
+export const HeadToHeadCard = memo(({ stats, opponentUsername }: HeadToHeadCardProps) => {
+  const hasPartnered = stats.partnerWins + stats.partnerLosses > 0;
+
+  return (
+    <View className="p-4 rounded-lg bg-gray-50">
+      <Text className="mb-3 text-xs font-semibold text-gray-500 uppercase">
+        You vs @{opponentUsername}
+      </Text>
+
+      {stats.recentMeetings.length === 0 ? (
+        <Text className="text-sm text-gray-600">You haven't played each other yet.</Text>
+      ) : (
+        <>
+          {/* Record */}
+          <View className="flex-row items-baseline gap-4 mb-3">
+            <Text className="text-2xl font-bold text-gray-900">
+              {stats.wins}-{stats.losses}
+            </Text>
+            {stats.averageMargin !== null && (
+              <Text className="text-xs text-gray-600">
+                {formatMargin(stats.averageMargin)} pts avg margin
+              </Text>
+            )}
+            {hasPartnered && (
+              <Text className="text-xs text-gray-600">
+                {stats.partnerWins}-{stats.partnerLosses} as partners
+              </Text>
+            )}
+          </View>
+
+          {/* Last meetings */}
+          {stats.recentMeetings.map((meeting) => (
+            <View
+              key={meeting.matchId}
+              className="flex-row items-center justify-between py-1.5 border-t border-gray-200"
+            >
+              <Text className={`w-6 text-sm font-bold ${
+                meeting.result === 'win' ? '!text-green-600' : '!text-red-500'
+              }`}>
+                {meeting.result === 'win' ? 'W' : 'L'}
+              </Text>
+              <Text className="flex-1 text-sm text-gray-700">
+                {meeting.relation === 'partner' ? 'As partners' : 'Against'}
+                {meeting.score ? ` · ${meeting.score.team1}-${meeting.score.team2}` : ''}
+              </Text>
+              <Text className="text-xs text-gray-500">
+                {formatRelativeDate(meeting.createdAt)}
+              </Text>
+            </View>
+          ))}
+        </>
+      )}
+    </View>
+  );
+});
+
+HeadToHeadCard.displayName = 'HeadToHeadCard';
+
+export type { HeadToHeadCardProps };
@@ -0,0 +1,76 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { getChallengeError, getRung } from '@/lib/ladder';
+import type { Ladder } from '@/types/ladder';
+
+interface LadderChallengeCardProps {
+  ladders: Ladder[];  // Ladders both the viewer and this player are on
+  viewerId: string;
+  opponentId: string;
+  opponentUsername: string;
+  challengingLadderId: string | null;  // Ladder a challenge is being sent on
+  onChallenge: (ladder: Ladder) => void;
+}
+
+/**
+ * Ladders shared with another player, with a challenge button where they
+ * are within range above the viewer
+ */
+export const LadderChallengeCard = memo(({
+  ladders,
+  viewerId,
+  opponentId,
+  opponentUsername,
+  challengingLadderId,
+  onChallenge,
+}: LadderChallengeCardProps) => {
+  if (ladders.length === 0) return null;
+
+  return (
+    <View className="p-4 rounded-lg bg-gray-50">
+      <Text className="mb-2 text-xs font-semibold text-gray-500 uppercase">Ladders</Text>
+
+      {ladders.map((ladder) => {
+        // Open challenges are checked when the challenge is sent
+        const challengeError = getChallengeError(ladder, viewerId, opponentId, []);
+        const isSending = challengingLadderId === ladder.id;
+
+        return (
+          <View
+            key={ladder.id}
+            className="flex-row items-center justify-between py-2 border-t border-gray-200"
+          >
+            <View className="flex-1 mr-2">
+              <Text className="text-sm font-semibold text-gray-900" numberOfLines={1}>
+                {ladder.name}
+              </Text>
+              <Text className="text-xs text-gray-500">
+                You #{getRung(ladder.rungs, viewerId)} · @{opponentUsername} #{getRung(ladder.rungs, opponentId)}
+              </Text>
+            </View>
+
+            {challengeError ? (
+              <Text className="max-w-[45%] text-xs text-right text-gray-400">{challengeError}</Text>
+            ) : (
+              <Pressable
+                onPress={() => onChallenge(ladder)}
+                disabled={!!challengingLadderId}
+                className={`px-4 py-2 bg-green-500 rounded-lg ${
+                  challengingLadderId ? 'opacity-50' : 'active:bg-green-600'
+                }`}
+              >
+                <Text className="text-sm font-semibold !text-white">
+                  {isSending ? 'Sending...' : 'Challenge'}
+                </Text>
+              </Pressable>
+            )}
+          </View>
+        );
+      })}
+    </View>
+  );
+});
+
+LadderChallengeCard.displayName = 'LadderChallengeCard';
+
+export type { LadderChallengeCardProps };
@@ -1,18 +1,25 @@
-import { memo, useState, type ReactNode } from 'react';
-import { View, Text, Pressable, FlatList, ScrollView, RefreshControl } from 'react-native';
+import { memo, useMemo, useState, type ReactNode } from 'react';
+import { View, Text, FlatList, ScrollView, RefreshControl, ActivityIndicator } from 'react-native';
 import { useMatches } from '@/hooks/firestore/useMatches';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
 import { MatchCard } from '@/components/history/MatchCard';
 import { MatchDetailModal } from '@/components/history/MatchDetailModal';
+import { MatchFilterBar } from '@/components/history/MatchFilterBar';
 import { isGravity } from '@/config/product';
 import { FLOATING_TAB_BAR_HEIGHT } from '@/navigation/tabs/GravityTabNavigator';
+import {
+  EMPTY_HISTORY_FILTERS,
+  getHistoryPlayers,
+  hasHistoryFilters,
+  toMatchHistoryFilters,
+} from '@/lib/historyFilters';
+import type { HistoryFilterState } from '@/lib/historyFilters';
 import type { MatchHistoryRecord } from '@/types/user';
 
 interface MatchesTabProps {
   userId: string;
   header?: ReactNode;
-  onViewAllHistory?: () => void;
   refreshing?: boolean;
   onRefresh?: () => void;
   isOwnProfile?: boolean;
@@ -21,24 +28,43 @@ interface MatchesTabProps {
 // Bottom padding for content - accounts for floating tab bar in Gravity mode
 const CONTENT_BOTTOM_PADDING = isGravity ? FLOATING_TAB_BAR_HEIGHT : 16;
 
-export const MatchesTab = memo(({ userId, header, onViewAllHistory, refreshing = false, onRefresh, isOwnProfile = false }: MatchesTabProps) => {
-  const { matches, loading, error } = useMatches(userId);
+export const MatchesTab = memo(({ userId, header, refreshing = false, onRefresh, isOwnProfile = false }: MatchesTabProps) => {
+  const [filterState, setFilterState] = useState<HistoryFilterState>(EMPTY_HISTORY_FILTERS);
+  // Date presets resolve against the time the filter was picked, not every render
+  const filters = useMemo(() => toMatchHistoryFilters(filterState), [filterState]);
+  const { matches, loading, loadingMore, error, hasMore, loadMore } = useMatches(userId, 20, filters);
   const [selectedMatch, setSelectedMatch] = useState<MatchHistoryRecord | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
 
-  // Show only recent 10 matches
-  const recentMatches = matches.slice(0, 10);
+  // Keep the selected player offered even once the list only shows their matches
+  const players = useMemo(() => {
+    const options = getHistoryPlayers(matches);
+    const selected = filterState.player;
+    return selected && !options.some((p) => p.uid === selected.uid) ? [selected, ...options] : options;
+  }, [matches, filterState.player]);
 
   const handleMatchPress = (match: MatchHistoryRecord) => {
     setSelectedMatch(match);
     setModalVisible(true);
   };
 
-  const handleViewAll = () => {
-    onViewAllHistory?.();
-  };
+  // Section header with filters, shown above the list and the empty state
+  const sectionHeader = (
+    <View className="px-4 pt-6 mb-3">
+      <Text className="mb-3 text-lg font-bold text-gray-900">
+        Matches
+      </Text>
+      {(matches.length > 0 || hasHistoryFilters(filterState)) && (
+        <MatchFilterBar
+          filters={filterState}
+          players={players}
+          onChange={setFilterState}
+        />
+      )}
+    </View>
+  );
 
-  if (loading) {
+  if (loading && !hasHistoryFilters(filterState)) {
     return (
       <View className="items-center justify-center flex-1 py-12">
         <LoadingSpinner size="large" />
@@ -54,7 +80,7 @@ export const MatchesTab = memo(({ userId, header, onViewAllHistory, refreshing =
     );
   }
 
-  if (recentMatches.length === 0) {
+  if (matches.length === 0) {
     return (
       <ScrollView
         className="flex-1 bg-white"
@@ -68,23 +94,28 @@ export const MatchesTab = memo(({ userId, header, onViewAllHistory, refreshing =
       >
         {header}
         
-        {/* Section header */}
-        <View className="px-4 pt-6">
-          <Text className="mb-3 text-lg font-bold text-gray-900">
-            Matches
-          </Text>
-        </View>
+        {sectionHeader}
         
         <View className="items-center justify-start px-4 py-12">
-          <Text className="mb-2 text-lg font-bold !text-gray-900">
-            No matches yet
-          </Text>
-          <Text className="text-sm text-center !text-gray-500">
-            {isOwnProfile
-              ? "Play your first match to see it here!"
-              : "This user hasn't played any matches yet"
-            }
-          </Text>
+          {loading ? (
+            <LoadingSpinner />
+          ) : hasHistoryFilters(filterState) ? (
+            <Text className="text-sm text-center !text-gray-500">
+              No matches fit these filters
+            </Text>
+          ) : (
+            <>
+              <Text className="mb-2 text-lg font-bold !text-gray-900">
+                No matches yet
+              </Text>
+              <Text className="text-sm text-center !text-gray-500">
+                {isOwnProfile
+                  ? "Play your first match to see it here!"
+                  : "This user hasn't played any matches yet"
+                }
+              </Text>
+            </>
+          )}
         </View>
       </ScrollView>
     );
@@ -93,7 +124,7 @@ export const MatchesTab = memo(({ userId, header, onViewAllHistory, refreshing =
   return (
     <>
       <FlatList
-        data={recentMatches}
+        data={matches}
         renderItem={({ item }) => (
           <View className="px-4">
             <MatchCard
@@ -114,25 +145,15 @@ export const MatchesTab = memo(({ userId, header, onViewAllHistory, refreshing =
           <>
             {header}
             
-            {/* Section header */}
-            <View className="px-4 pt-6">
-              <Text className="mb-3 text-lg font-bold text-gray-900">
-                Matches
-              </Text>
-            </View>
+            {sectionHeader}
           </>
         }
+        onEndReachedThreshold={0.5}
+        onEndReached={hasMore ? loadMore : undefined}
         ListFooterComponent={
-          matches.length > 10 ? (
-            <View className="px-4">
-              <Pressable
-                onPress={handleViewAll}
-                className="items-center py-4 active:opacity-70"
-              >
-                <Text className="text-sm font-semibold !text-green-600">
-                  View All Match History →
-                </Text>
-              </Pressable>
+          loadingMore ? (
+            <View className="py-4">
+              <ActivityIndicator color="#16a34a" />
             </View>
           ) : null
         }
@@ -2,14 +2,17 @@ import { memo } from 'react';
 import { View, Text, Pressable } from 'react-native';
 import { Avatar } from '@/components/ui/Avatar';
 import { Button } from '@/components/ui/Button';
+import type { Club } from '@/types/club';
 
 interface ProfileHeroProps {
   profilePicture: string | null;
   fullName: string;
   username: string;
   bio?: string;
+  isProvisional?: boolean;
   followingCount?: number;
   followersCount?: number;
+  clubs?: Pick<Club, 'id' | 'name' | 'photoURL'>[];
   isOwnProfile: boolean;
   isFollowing?: boolean;
   followLoading?: boolean;
@@ -18,6 +21,7 @@ interface ProfileHeroProps {
   onFollowPress?: () => void;
   onFollowingPress?: () => void;
   onFollowersPress?: () => void;
+  onClubPress?: (clubId: string) => void;
 }
 
 export const ProfileHero = memo(({
@@ -25,8 +29,10 @@ export const ProfileHero = memo(({
   fullName,
   username,
   bio,
+  isProvisional = false,
   followingCount = 0,
   followersCount = 0,
+  clubs = [],
   isOwnProfile,
   isFollowing = false,
   followLoading = false,
@@ -35,6 +41,7 @@ export const ProfileHero = memo(({
   onFollowPress,
   onFollowingPress,
   onFollowersPress,
+  onClubPress,
 }: ProfileHeroProps) => {
   return (
     <View>
@@ -46,7 +53,13 @@ export const ProfileHero = memo(({
           <Text className="text-2xl font-bold !text-gray-900">
             {fullName}
           </Text>
-
+          {isProvisional && (
+            <View className="self-start px-2 py-1 mt-2 bg-amber-100 rounded">
+              <Text className="text-xs font-semibold !text-amber-700">
+                Provisional rating
+              </Text>
+            </View>
+          )}
         </View>
       </View>
 
@@ -84,6 +97,24 @@ export const ProfileHero = memo(({
         </Pressable>
       </View>
 
+      {/* Clubs */}
+      {clubs.length > 0 && (
+        <View className="flex-row flex-wrap gap-2 mb-4">
+          {clubs.map((club) => (
+            <Pressable
+              key={club.id}
+              onPress={() => onClubPress?.(club.id)}
+              className="flex-row items-center py-1 pl-1 pr-3 bg-gray-100 rounded-full active:bg-gray-200"
+            >
+              <Avatar uri={club.photoURL} name={club.name} size="xs" />
+              <Text className="ml-1.5 text-sm font-medium !text-gray-700" numberOfLines={1}>
+                {club.name}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+
       {/* Action Buttons */}
       {isOwnProfile ? (
         <Pressable 
@@ -0,0 +1,77 @@
+import { memo, useState } from 'react';
+import { View, Text, LayoutChangeEvent } from 'react-native';
+import Svg, { Path, Circle, Line } from 'react-native-svg';
+
+interface RatingChartProps {
+  ratings: number[];  // Oldest first
+  height?: number;
+  color?: string;
+}
+
+const PADDING = 8;
+
+/**
+ * Line chart of rating over time
+ * Scales the series to fit the available width with a little vertical headroom
+ */
+export const RatingChart = memo(({
+  ratings,
+  height = 160,
+  color = '#16a34a',
+}: RatingChartProps) => {
+  const [width, setWidth] = useState(0);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  if (ratings.length < 2) {
+    return (
+      <View className="items-center justify-center" style={{ height }}>
+        <Text className="text-sm !text-gray-500">
+          Play more matches to see your rating trend
+        </Text>
+      </View>
+    );
+  }
+
+  const min = Math.min(...ratings);
+  const max = Math.max(...ratings);
+  const range = Math.max(max - min, 20);
+  const plotWidth = width - PADDING * 2;
+  const plotHeight = height - PADDING * 2;
+
+  const points = ratings.map((rating, index) => ({
+    x: PADDING + (index / (ratings.length - 1)) * plotWidth,
+    y: PADDING + (1 - (rating - min) / range) * plotHeight,
+  }));
+
+  const path = points
+    .map((p, index) => `${index === 0 ? 'M' : 'L'}${p.x.toFixed(1)},${p.y.toFixed(1)}`)
+    .join(' ');
+  const last = points[points.length - 1];
+
+  return (
+    <View onLayout={handleLayout} style={{ height }}>
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {/* Baseline at the starting rating */}
+          <Line
+            x1={PADDING}
+            y1={points[0].y}
+            x2={width - PADDING}
+            y2={points[0].y}
+            stroke="#e5e7eb"
+            strokeDasharray="4,4"
+          />
+          <Path d={path} stroke={color} strokeWidth={2.5} fill="none" />
+          <Circle cx={last.x} cy={last.y} r={4} fill={color} />
+        </Svg>
+      )}
+    </View>
+  );
+});
+
+RatingChart.displayName = 'RatingChart';
+
+export type { RatingChartProps };
@@ -0,0 +1,57 @@
+import { memo } from 'react';
+import { View, Text } from 'react-native';
+import { Trophy, Medal } from 'lucide-react-native';
+import {
+  CATEGORY_FILTER_LABELS,
+  LEADERBOARD_METRIC_LABELS,
+  getOrdinal,
+} from '@/lib/leaderboardPeriods';
+import type { SeasonFinish } from '@/types/leaderboard';
+
+interface SeasonBadgesProps {
+  finishes: SeasonFinish[];
+  maxBadges?: number;
+}
+
+const RANK_COLORS: Record<number, string> = {
+  1: '#EAB308', // Gold
+  2: '#9CA3AF', // Silver
+  3: '#D97706', // Bronze
+};
+
+/**
+ * Podium finishes in past monthly, quarterly and custom season leaderboards
+ * Renders nothing until the player has finished on a podium
+ */
+export const SeasonBadges = memo(({ finishes, maxBadges = 6 }: SeasonBadgesProps) => {
+  if (finishes.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="p-4 rounded-lg bg-amber-50">
+      <Text className="mb-2 text-xs font-semibold text-gray-500 uppercase">
+        Season Finishes
+      </Text>
+
+      {finishes.slice(0, maxBadges).map((finish) => {
+        const Icon = finish.rank === 1 ? Trophy : Medal;
+        return (
+          <View key={finish.id} className="flex-row items-center py-1.5">
+            <Icon size={16} color={RANK_COLORS[finish.rank] ?? '#9CA3AF'} />
+            <Text className="flex-1 ml-2 text-sm font-medium text-gray-900" numberOfLines={1}>
+              {getOrdinal(finish.rank)} · {CATEGORY_FILTER_LABELS[finish.categoryFilter]}
+            </Text>
+            <Text className="text-xs text-gray-600">
+              {finish.periodLabel} · {LEADERBOARD_METRIC_LABELS[finish.metric]}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+});
+
+SeasonBadges.displayName = 'SeasonBadges';
+
+export type { SeasonBadgesProps };
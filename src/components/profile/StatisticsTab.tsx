@@ -1,86 +1,72 @@
-import { memo, useMemo } from 'react';
-import { View, Text, ScrollView } from 'react-native';
+import { memo, useMemo, useState } from 'react';
+import { View, Text, ScrollView, Pressable } from 'react-native';
 import { Trophy, Flame } from 'lucide-react-native';
 import { useMatches } from '@/hooks/firestore/useMatches';
+import { useRatingHistory } from '@/hooks/firestore/useRatingHistory';
+import { summarizeRatingHistory } from '@/lib/ratingHistory';
+import { getWinRate, hasCareerBreakdown } from '@/lib/careerStats';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { ErrorMessage } from '@/components/common/ErrorMessage';
+import { RatingChart } from './RatingChart';
+import type { MatchStats, UserRankings } from '@/types/user';
 
 interface StatisticsTabProps {
   userId: string;
+  matchStats?: MatchStats;  // Career totals; the breakdown is shown once it has been stored
 }
 
-export const StatisticsTab = memo(({ userId }: StatisticsTabProps) => {
-  const { matches, loading, error } = useMatches(userId);
+// Matches shown under Recent Form
+const RECENT_FORM_COUNT = 10;
 
-  // Calculate statistics
+const RATING_CATEGORIES: { key: keyof UserRankings; label: string }[] = [
+  { key: 'singles', label: 'Singles' },
+  { key: 'sameGenderDoubles', label: 'Doubles' },
+  { key: 'mixedDoubles', label: 'Mixed' },
+];
+
+export const StatisticsTab = memo(({ userId, matchStats }: StatisticsTabProps) => {
+  const { matches, loading, error } = useMatches(userId, RECENT_FORM_COUNT);
+  const { history } = useRatingHistory(userId);
+  const [ratingCategory, setRatingCategory] = useState<keyof UserRankings>('singles');
+
+  const ratingSeries = history[ratingCategory];
+  const ratingSummary = useMemo(() => summarizeRatingHistory(ratingSeries), [ratingSeries]);
+  const chartRatings = useMemo(
+    () => (ratingSeries.length > 0
+      ? [ratingSeries[0].ratingBefore, ...ratingSeries.map((p) => p.ratingAfter)]
+      : []),
+    [ratingSeries]
+  );
+
+  // Career statistics come from the stored matchStats; only recent form needs matches
   const stats = useMemo(() => {
-    const totalWins = matches.filter(m => m.result === 'win').length;
-    const totalLosses = matches.filter(m => m.result === 'loss').length;
-    const totalMatches = matches.length;
-
-    const singlesMatches = matches.filter(m => m.gameCategory === 'singles');
-    const singlesWins = singlesMatches.filter(m => m.result === 'win').length;
-    const singlesLosses = singlesMatches.filter(m => m.result === 'loss').length;
-    const singlesWinRate = singlesMatches.length > 0 
-      ? Math.round((singlesWins / singlesMatches.length) * 100) 
-      : 0;
-
-    const doublesMatches = matches.filter(m => m.gameCategory !== 'singles');
-    const doublesWins = doublesMatches.filter(m => m.result === 'win').length;
-    const doublesLosses = doublesMatches.filter(m => m.result === 'loss').length;
-    const doublesWinRate = doublesMatches.length > 0 
-      ? Math.round((doublesWins / doublesMatches.length) * 100) 
-      : 0;
-
-    // Calculate current streak
-    let currentStreak = 0;
-    let streakType: 'win' | 'loss' | null = null;
-    
-    for (const match of matches) {
-      if (streakType === null) {
-        streakType = match.result;
-        currentStreak = 1;
-      } else if (match.result === streakType) {
-        currentStreak++;
-      } else {
-        break;
-      }
-    }
-
-    // Calculate best win streak
-    let bestStreak = 0;
-    let tempStreak = 0;
-    
-    for (const match of matches) {
-      if (match.result === 'win') {
-        tempStreak++;
-        bestStreak = Math.max(bestStreak, tempStreak);
-      } else {
-        tempStreak = 0;
-      }
-    }
-
-    // Recent form (last 10 matches)
-    const recentForm = matches.slice(0, 10).map(m => m.result);
+    const totalWins = matchStats?.wins || 0;
+    const totalLosses = matchStats?.losses || 0;
+    const singlesWins = matchStats?.singlesWins || 0;
+    const singlesLosses = matchStats?.singlesLosses || 0;
+    const doublesWins = matchStats?.doublesWins || 0;
+    const doublesLosses = matchStats?.doublesLosses || 0;
+    const streak = matchStats?.currentStreak || 0;
 
     return {
       totalWins,
       totalLosses,
-      totalMatches,
+      totalMatches: matchStats?.totalMatches || 0,
+      hasBreakdown: hasCareerBreakdown(matchStats),
       singlesWins,
       singlesLosses,
-      singlesTotal: singlesMatches.length,
-      singlesWinRate,
+      singlesTotal: singlesWins + singlesLosses,
+      singlesWinRate: getWinRate(singlesWins, singlesLosses),
       doublesWins,
       doublesLosses,
-      doublesTotal: doublesMatches.length,
-      doublesWinRate,
-      currentStreak,
-      streakType,
-      bestStreak,
-      recentForm,
+      doublesTotal: doublesWins + doublesLosses,
+      doublesWinRate: getWinRate(doublesWins, doublesLosses),
+      currentStreak: Math.abs(streak),
+      streakType: streak > 0 ? 'win' : streak < 0 ? 'loss' : null,
+      bestStreak: matchStats?.bestWinStreak || 0,
+      recentForm: matches.map((m) => m.result),
     };
-  }, [matches]);
+  }, [matchStats, matches]);
 
   if (loading) {
     return (
@@ -124,71 +110,123 @@ export const StatisticsTab = memo(({ userId }: StatisticsTabProps) => {
         </Text>
       </View>
 
-      {/* By Game Type */}
+      {/* Rating History */}
       <View className="p-4 mb-4 bg-white border border-gray-200 rounded-xl">
         <Text className="mb-3 text-base font-semibold !text-gray-900">
-          By Game Type
+          Rating History
         </Text>
-        
-        <View className="mb-3">
-          <Text className="mb-1 text-sm font-medium !text-gray-900">
-            Singles Performance
-          </Text>
-          <Text className="text-sm !text-gray-600">
-            {stats.singlesWins} Wins • {stats.singlesLosses} Losses
-            {stats.singlesTotal > 0 && ` (${stats.singlesWinRate}%)`}
-          </Text>
-        </View>
 
-        <View>
-          <Text className="mb-1 text-sm font-medium !text-gray-900">
-            Doubles Performance
-          </Text>
-          <Text className="text-sm !text-gray-600">
-            {stats.doublesWins} Wins • {stats.doublesLosses} Losses
-            {stats.doublesTotal > 0 && ` (${stats.doublesWinRate}%)`}
-          </Text>
+        <View className="flex-row gap-2 mb-3">
+          {RATING_CATEGORIES.map(({ key, label }) => (
+            <Pressable
+              key={key}
+              onPress={() => setRatingCategory(key)}
+              className={`px-3 py-1 rounded-full ${
+                ratingCategory === key ? 'bg-green-500' : 'bg-gray-100'
+              }`}
+            >
+              <Text className={`text-sm font-medium ${
+                ratingCategory === key ? '!text-white' : '!text-gray-700'
+              }`}>
+                {label}
+              </Text>
+            </Pressable>
+          ))}
         </View>
-      </View>
 
-      {/* Streaks */}
-      <View className="p-4 mb-4 bg-white border border-gray-200 rounded-xl">
-        <Text className="mb-3 text-base font-semibold !text-gray-900">
-          Streaks
-        </Text>
-        
-        {stats.currentStreak > 1 && (
-          <View className="flex-row items-center mb-3">
-            <View className="items-center justify-center w-10 h-10 mr-3 bg-orange-100 rounded-full">
-              <Flame size={20} color="#ea580c" />
+        <RatingChart ratings={chartRatings} />
+
+        {ratingSummary && (
+          <View className="flex-row justify-between mt-3">
+            <View className="items-center flex-1">
+              <Text className="text-xs !text-gray-500">Peak</Text>
+              <Text className="text-base font-semibold !text-gray-900">{ratingSummary.peak}</Text>
             </View>
-            <View>
-              <Text className="text-sm font-medium !text-gray-900">
-                Current Streak
-              </Text>
-              <Text className="text-sm !text-gray-600">
-                {stats.currentStreak} {stats.streakType === 'win' ? 'wins' : 'losses'} in a row
+            <View className="items-center flex-1">
+              <Text className="text-xs !text-gray-500">Lowest</Text>
+              <Text className="text-base font-semibold !text-gray-900">{ratingSummary.low}</Text>
+            </View>
+            <View className="items-center flex-1">
+              <Text className="text-xs !text-gray-500">Last 30 Days</Text>
+              <Text className={`text-base font-semibold ${
+                ratingSummary.delta30d >= 0 ? '!text-green-600' : '!text-red-600'
+              }`}>
+                {ratingSummary.delta30d >= 0 ? '+' : ''}{ratingSummary.delta30d}
               </Text>
             </View>
           </View>
         )}
+      </View>
+
+      {/* By Game Type */}
+      {stats.hasBreakdown && (
+        <View className="p-4 mb-4 bg-white border border-gray-200 rounded-xl">
+          <Text className="mb-3 text-base font-semibold !text-gray-900">
+            By Game Type
+          </Text>
+        
+          <View className="mb-3">
+            <Text className="mb-1 text-sm font-medium !text-gray-900">
+              Singles Performance
+            </Text>
+            <Text className="text-sm !text-gray-600">
+              {stats.singlesWins} Wins • {stats.singlesLosses} Losses
+              {stats.singlesTotal > 0 && ` (${stats.singlesWinRate}%)`}
+            </Text>
+          </View>
 
-        {stats.bestStreak > 0 && (
-          <View className="flex-row items-center">
-            <View className="items-center justify-center w-10 h-10 mr-3 bg-yellow-100 rounded-full">
-              <Trophy size={20} color="#ca8a04" />
+          <View>
+            <Text className="mb-1 text-sm font-medium !text-gray-900">
+              Doubles Performance
+            </Text>
+            <Text className="text-sm !text-gray-600">
+              {stats.doublesWins} Wins • {stats.doublesLosses} Losses
+              {stats.doublesTotal > 0 && ` (${stats.doublesWinRate}%)`}
+            </Text>
+          </View>
+        </View>
+      )}
+
+      {/* Streaks */}
+      {stats.hasBreakdown && (
+        <View className="p-4 mb-4 bg-white border border-gray-200 rounded-xl">
+          <Text className="mb-3 text-base font-semibold !text-gray-900">
+            Streaks
+          </Text>
+        
+          {stats.currentStreak > 1 && (
+            <View className="flex-row items-center mb-3">
+              <View className="items-center justify-center w-10 h-10 mr-3 bg-orange-100 rounded-full">
+                <Flame size={20} color="#ea580c" />
+              </View>
+              <View>
+                <Text className="text-sm font-medium !text-gray-900">
+                  Current Streak
+                </Text>
+                <Text className="text-sm !text-gray-600">
+                  {stats.currentStreak} {stats.streakType === 'win' ? 'wins' : 'losses'} in a row
+                </Text>
+              </View>
             </View>
-            <View>
-              <Text className="text-sm font-medium !text-gray-900">
-                Best Streak
-              </Text>
-              <Text className="text-sm !text-gray-600">
-                {stats.bestStreak} wins
-              </Text>
+          )}
+
+          {stats.bestStreak > 0 && (
+            <View className="flex-row items-center">
+              <View className="items-center justify-center w-10 h-10 mr-3 bg-yellow-100 rounded-full">
+                <Trophy size={20} color="#ca8a04" />
+              </View>
+              <View>
+                <Text className="text-sm font-medium !text-gray-900">
+                  Best Streak
+                </Text>
+                <Text className="text-sm !text-gray-600">
+                  {stats.bestStreak} wins
+                </Text>
+              </View>
             </View>
-          </View>
-        )}
-      </View>
+          )}
+        </View>
+      )}
 
       {/* Recent Form */}
       {stats.recentForm.length > 0 && (
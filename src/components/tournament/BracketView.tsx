@@ -0,0 +1,89 @@
+import { memo } from 'react';
+import { View, Text, ScrollView } from 'react-native';
+import { getBracketRounds, getRoundLabel, getSideName } from '@/lib/tournamentStandings';
+import type { TournamentBracket, TournamentMatch, TournamentPlayer } from '@/types/tournament';
+
+interface BracketViewProps {
+  matches: TournamentMatch[];
+  players: TournamentPlayer[];
+  bracket: TournamentBracket;
+  title?: string;
+}
+
+interface BracketMatchProps {
+  match: TournamentMatch;
+  players: TournamentPlayer[];
+}
+
+const BracketMatch = memo(({ match, players }: BracketMatchProps) => {
+  const renderSide = (team: 1 | 2) => {
+    const side = team === 1 ? match.team1 : match.team2;
+    const isWinner = !!match.winner && match.winner === team;
+    const points = match.score ? (team === 1 ? match.score.team1 : match.score.team2) : null;
+
+    return (
+      <View className={`flex-row items-center justify-between px-2 py-1.5 ${isWinner ? 'bg-green-50' : ''}`}>
+        <Text
+          className={`flex-1 text-xs ${isWinner ? 'font-bold !text-gray-900' : '!text-gray-600'}`}
+          numberOfLines={1}
+        >
+          {getSideName(side?.playerIds, players)}
+        </Text>
+        {points !== null && (
+          <Text className={`ml-1 text-xs ${isWinner ? 'font-bold !text-green-600' : '!text-gray-500'}`}>
+            {points}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View className={`w-40 overflow-hidden bg-white border rounded-md ${
+      match.status === 'in_progress' ? 'border-green-500' : 'border-gray-200'
+    }`}>
+      {renderSide(1)}
+      <View className="h-px bg-gray-100" />
+      {renderSide(2)}
+    </View>
+  );
+});
+
+BracketMatch.displayName = 'BracketMatch';
+
+/**
+ * Elimination bracket laid out as columns of rounds, scrolling sideways
+ * Winners move right as results settle.
+ */
+export const BracketView = memo(({ matches, players, bracket, title }: BracketViewProps) => {
+  const rounds = getBracketRounds(matches, bracket);
+
+  if (rounds.length === 0) {
+    return null;
+  }
+
+  return (
+    <View className="mb-4">
+      {title && (
+        <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">{title}</Text>
+      )}
+
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 12 }}>
+        {rounds.map((round, index) => (
+          <View key={round[0].id} className="justify-around gap-3">
+            <Text className="text-xs font-medium text-center !text-gray-500">
+              {getRoundLabel(bracket, index + 1, rounds.length)}
+            </Text>
+            {round.map((match) => (
+              <BracketMatch key={match.id} match={match} players={players} />
+            ))}
+          </View>
+        ))}
+      </ScrollView>
+    </View>
+  );
+});
+
+BracketView.displayName = 'BracketView';
+
+export type { BracketViewProps };
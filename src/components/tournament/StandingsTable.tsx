@@ -0,0 +1,58 @@
+import { memo } from 'react';
+import { View, Text } from 'react-native';
+import { getSideName } from '@/lib/tournamentStandings';
+import type { TournamentPlayer, TournamentStanding } from '@/types/tournament';
+
+interface StandingsTableProps {
+  standings: TournamentStanding[];  // Already ranked
+  players: TournamentPlayer[];
+  title?: string;
+  currentUserId?: string;  // Highlights the viewer's row
+}
+
+/**
+ * Round-robin table: wins, losses and point difference
+ */
+export const StandingsTable = memo(({ standings, players, title, currentUserId }: StandingsTableProps) => {
+  return (
+    <View className="p-4 mb-4 rounded-lg bg-gray-50">
+      {title && (
+        <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">{title}</Text>
+      )}
+
+      <View className="flex-row pb-2 border-b border-gray-200">
+        <Text className="w-6 text-xs !text-gray-400">#</Text>
+        <Text className="flex-1 text-xs !text-gray-400">Player</Text>
+        <Text className="w-12 text-xs text-center !text-gray-400">W-L</Text>
+        <Text className="w-12 text-xs text-right !text-gray-400">+/-</Text>
+      </View>
+
+      {standings.map((row, index) => {
+        const diff = row.pointsFor - row.pointsAgainst;
+        const isCurrentUser = !!currentUserId && row.playerIds.includes(currentUserId);
+
+        return (
+          <View key={row.id} className="flex-row items-center py-2">
+            <Text className="w-6 text-sm font-bold !text-gray-400">{index + 1}</Text>
+            <Text
+              className={`flex-1 text-sm ${isCurrentUser ? 'font-bold !text-green-700' : 'font-medium !text-gray-900'}`}
+              numberOfLines={1}
+            >
+              {getSideName(row.playerIds, players)}
+            </Text>
+            <Text className="w-12 text-sm text-center !text-gray-700">
+              {row.wins}-{row.losses}
+            </Text>
+            <Text className={`w-12 text-sm text-right ${diff > 0 ? '!text-green-600' : '!text-gray-500'}`}>
+              {diff > 0 ? '+' : ''}{diff}
+            </Text>
+          </View>
+        );
+      })}
+    </View>
+  );
+});
+
+StandingsTable.displayName = 'StandingsTable';
+
+export type { StandingsTableProps };
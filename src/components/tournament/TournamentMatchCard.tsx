@@ -0,0 +1,109 @@
+import { memo } from 'react';
+import { View, Text, Pressable } from 'react-native';
+import { getSideName } from '@/lib/tournamentStandings';
+import type { TournamentMatch, TournamentMatchStatus, TournamentPlayer } from '@/types/tournament';
+
+interface TournamentMatchCardProps {
+  match: TournamentMatch;
+  players: TournamentPlayer[];
+  label: string;  // Round name shown above the sides
+  canStart: boolean;  // Viewer is in the match or runs the tournament
+  isOrganizer: boolean;
+  onStart: (match: TournamentMatch) => void;
+  onOpenLobby: (roomCode: string) => void;
+  onReset: (match: TournamentMatch) => void;
+}
+
+const STATUS_LABELS: Record<TournamentMatchStatus, string> = {
+  pending: 'Waiting',
+  ready: 'Ready',
+  in_progress: 'Playing',
+  completed: 'Final',
+  bye: 'Bye',
+};
+
+/**
+ * One scheduled tournament match with its result or the action to play it
+ */
+export const TournamentMatchCard = memo(({
+  match,
+  players,
+  label,
+  canStart,
+  isOrganizer,
+  onStart,
+  onOpenLobby,
+  onReset,
+}: TournamentMatchCardProps) => {
+  const renderSide = (team: 1 | 2) => {
+    const side = team === 1 ? match.team1 : match.team2;
+    const isWinner = match.winner === team && match.status === 'completed';
+    const points = match.score ? (team === 1 ? match.score.team1 : match.score.team2) : null;
+
+    return (
+      <View className="flex-row items-center justify-between py-1">
+        <Text
+          className={`flex-1 text-sm ${isWinner ? 'font-bold !text-gray-900' : '!text-gray-600'}`}
+          numberOfLines={1}
+        >
+          {getSideName(side?.playerIds, players)}
+        </Text>
+        {points !== null && (
+          <Text className={`ml-2 text-sm ${isWinner ? 'font-bold !text-green-600' : '!text-gray-500'}`}>
+            {points}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View className="p-3 mb-2 bg-white border border-gray-200 rounded-lg">
+      <View className="flex-row items-center justify-between mb-1">
+        <Text className="text-xs font-semibold !text-gray-500 uppercase">{label}</Text>
+        <Text className={`text-xs font-medium ${
+          match.status === 'in_progress' ? '!text-green-600' : '!text-gray-400'
+        }`}>
+          {STATUS_LABELS[match.status]}
+        </Text>
+      </View>
+
+      {renderSide(1)}
+      {renderSide(2)}
+
+      {match.status === 'ready' && canStart && (
+        <Pressable
+          onPress={() => onStart(match)}
+          className="items-center py-2 mt-2 bg-green-500 rounded-lg active:bg-green-600"
+        >
+          <Text className="text-sm font-semibold !text-white">Start Match</Text>
+        </Pressable>
+      )}
+
+      {match.status === 'in_progress' && match.roomCode && (
+        <View className="flex-row gap-2 mt-2">
+          {canStart && (
+            <Pressable
+              onPress={() => onOpenLobby(match.roomCode as string)}
+              className="items-center flex-1 py-2 bg-green-500 rounded-lg active:bg-green-600"
+            >
+              <Text className="text-sm font-semibold !text-white">Go to Lobby</Text>
+            </Pressable>
+          )}
+          {isOrganizer && (
+            <Pressable
+              onPress={() => onReset(match)}
+              className="items-center px-4 py-2 bg-gray-100 rounded-lg active:bg-gray-200"
+            >
+              <Text className="text-sm font-semibold !text-gray-700">Reset</Text>
+            </Pressable>
+          )}
+        </View>
+      )}
+    </View>
+  );
+});
+
+TournamentMatchCard.displayName = 'TournamentMatchCard';
+
+export type { TournamentMatchCardProps };
@@ -1,6 +1,7 @@
 import { initializeApp } from 'firebase/app';
-import { initializeAuth, getReactNativePersistence } from 'firebase/auth';
-import { getFirestore } from 'firebase/firestore';
+import { initializeAuth, getReactNativePersistence, connectAuthEmulator } from 'firebase/auth';
+import { getFirestore, connectFirestoreEmulator } from 'firebase/firestore';
+import { getFunctions, connectFunctionsEmulator } from 'firebase/functions';
 import { getStorage } from 'firebase/storage';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 
@@ -19,6 +20,10 @@ export const ENV = process.env.EXPO_PUBLIC_ENV || 'development';
 export const IS_DEV = ENV === 'development';
 export const IS_PROD = ENV === 'production';
 
+// Local Firebase emulator suite (auth, firestore, functions)
+export const USE_EMULATOR = process.env.EXPO_PUBLIC_USE_FIREBASE_EMULATOR === 'true';
+const EMULATOR_HOST = process.env.EXPO_PUBLIC_FIREBASE_EMULATOR_HOST || 'localhost';
+
 // Log environment information in development
 if (__DEV__) {
   console.log('='.repeat(50));
@@ -27,6 +32,7 @@ if (__DEV__) {
   console.log('Environment:', ENV.toUpperCase());
   console.log('Project ID:', firebaseConfig.projectId);
   console.log('Auth Domain:', firebaseConfig.authDomain);
+  console.log('Emulators:', USE_EMULATOR ? EMULATOR_HOST : 'off');
   console.log('='.repeat(50));
 
   if (IS_PROD) {
@@ -48,5 +54,13 @@ export const auth = initializeAuth(app, {
 
 export const firestore = getFirestore(app);
 export const storage = getStorage(app);
+export const functions = getFunctions(app);
+
+// IMPORTANT: Emulators must be connected before any reads/writes are issued
+if (USE_EMULATOR) {
+  connectAuthEmulator(auth, `http://${EMULATOR_HOST}:9099`, { disableWarnings: true });
+  connectFirestoreEmulator(firestore, EMULATOR_HOST, 8080);
+  connectFunctionsEmulator(functions, EMULATOR_HOST, 5001);
+}
 
 export default app;
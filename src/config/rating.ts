@@ -0,0 +1,16 @@
+/**
+ * Rating Configuration
+ *
+ * Determines which rating engine calculates stakes and settles matches.
+ * Set via EXPO_PUBLIC_RATING_ENGINE for the app and in functions/.env for
+ * settleMatch. Both must match or the stakes shown won't be what is applied.
+ */
+
+import type { RatingEngineId } from '@/types/rating';
+
+/**
+ * Current active rating engine
+ * Reads from environment variable, defaults to 'ELO'
+ */
+export const RATING_ENGINE: RatingEngineId =
+  (process.env.EXPO_PUBLIC_RATING_ENGINE as RatingEngineId) || 'ELO';
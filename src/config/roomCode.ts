@@ -0,0 +1,20 @@
+/**
+ * Room Code Configuration
+ *
+ * Determines how many characters new room codes have.
+ * Set via EXPO_PUBLIC_ROOM_CODE_LENGTH. Existing codes of any supported length
+ * stay joinable whatever the configured length.
+ */
+
+// Every length a room code may have been generated with
+export const MIN_ROOM_CODE_LENGTH = 4;
+export const MAX_ROOM_CODE_LENGTH = 8;
+
+/**
+ * Length of newly generated room codes
+ * Reads from environment variable, defaults to 6 and is clamped to 4-8
+ */
+export const ROOM_CODE_LENGTH: number = Math.min(
+  MAX_ROOM_CODE_LENGTH,
+  Math.max(MIN_ROOM_CODE_LENGTH, Number(process.env.EXPO_PUBLIC_ROOM_CODE_LENGTH) || 6)
+);
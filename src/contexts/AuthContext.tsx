@@ -237,6 +237,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           rankings: {
             singles: 1000,
             sameGenderDoubles: 1000,
+            mixedDoubles: 1000,
           },
           matchStats: {
             totalMatches: 0,
@@ -300,6 +301,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           rankings: {
             singles: 1000,
             sameGenderDoubles: 1000,
+            mixedDoubles: 1000,
           },
           matchStats: {
             totalMatches: 0,
@@ -342,6 +344,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
           rankings: {
             singles: 1000,
             sameGenderDoubles: 1000,
+            mixedDoubles: 1000,
           },
           matchStats: {
             totalMatches: 0,
@@ -6,6 +6,7 @@
 
 import { useAuth } from '@/contexts/AuthContext';
 import { MOCK_COURTS } from '@/mocks/courts';
+import { getRatingConfidence, getUserDeviation } from '@/lib/ratingEngine';
 import { evaluateReadiness } from './evaluateReadiness';
 import { GO_FIXTURE } from './fixtures';
 import type { PlayNowEngineOutput, EngineReadinessInput } from './types';
@@ -24,7 +25,10 @@ export function usePlayNowEngine(params?: UsePlayNowEngineParams): PlayNowEngine
     availableCourtsCount: MOCK_COURTS.length, // = 10 courts
     dataConfidence: "HIGH", // PHASE 0 STUB: Passes confidence check
     userSkill: userDocument?.rankings?.singles
-      ? { rating: userDocument.rankings.singles, confidence: "MEDIUM" }
+      ? {
+          rating: userDocument.rankings.singles,
+          confidence: getRatingConfidence(getUserDeviation(userDocument, 'singles')),
+        }
       : null,
   };
 
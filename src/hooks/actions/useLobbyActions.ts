@@ -5,16 +5,37 @@
 
 import { useCallback } from 'react';
 import * as lobbyService from '@/services/lobbyService';
-import type { Player, GameMode, Lobby } from '@/types/lobby';
+import type { Player, GameMode, GameScore, LobbyPrefill, RotationRule, SlotChangeResult } from '@/types/lobby';
+import type { GameFormat } from '@/types/game';
 
 interface UseLobbyActionsReturn {
-  createLobby: (hostId: string, gameMode: GameMode, hostData: Player) => Promise<string>;
-  joinLobby: (roomCode: string, playerData: Player) => Promise<Lobby | null>;
-  leaveLobby: (roomCode: string, userId: string) => Promise<void>;
+  createLobby: (
+    hostId: string,
+    gameMode: GameMode,
+    hostData: Player,
+    gameFormat?: GameFormat,
+    rotationRule?: RotationRule | null,
+    isPrivate?: boolean,
+    prefill?: LobbyPrefill | null
+  ) => Promise<string>;
+  joinLobby: (roomCode: string, playerData: Player) => Promise<SlotChangeResult>;
+  leaveLobby: (roomCode: string, userId: string) => Promise<SlotChangeResult>;
   deleteLobby: (roomCode: string) => Promise<void>;
   startGame: (roomCode: string) => Promise<void>;
   endGame: (roomCode: string, scores: { team1: number; team2: number }) => Promise<void>;
+  submitScore: (
+    roomCode: string,
+    submittedBy: string,
+    games: GameScore[],
+    format?: GameFormat
+  ) => Promise<void>;
   confirmScore: (roomCode: string, playerId: string, confirmed: boolean) => Promise<void>;
+  disputeScore: (
+    roomCode: string,
+    playerId: string,
+    counterGames: GameScore[],
+    format?: GameFormat
+  ) => Promise<void>;
 }
 
 /**
@@ -24,20 +45,28 @@ interface UseLobbyActionsReturn {
  */
 export const useLobbyActions = (): UseLobbyActionsReturn => {
   const createLobby = useCallback(
-    async (hostId: string, gameMode: GameMode, hostData: Player): Promise<string> => {
-      return lobbyService.createLobby(hostId, gameMode, hostData);
+    async (
+      hostId: string,
+      gameMode: GameMode,
+      hostData: Player,
+      gameFormat?: GameFormat,
+      rotationRule?: RotationRule | null,
+      isPrivate?: boolean,
+      prefill?: LobbyPrefill | null
+    ): Promise<string> => {
+      return lobbyService.createLobby(hostId, gameMode, hostData, gameFormat, rotationRule, isPrivate, prefill);
     },
     []
   );
 
   const joinLobby = useCallback(
-    async (roomCode: string, playerData: Player): Promise<Lobby | null> => {
+    async (roomCode: string, playerData: Player): Promise<SlotChangeResult> => {
       return lobbyService.joinLobby(roomCode, playerData);
     },
     []
   );
 
-  const leaveLobby = useCallback(async (roomCode: string, userId: string): Promise<void> => {
+  const leaveLobby = useCallback(async (roomCode: string, userId: string): Promise<SlotChangeResult> => {
     return lobbyService.leaveLobby(roomCode, userId);
   }, []);
 
@@ -56,6 +85,18 @@ export const useLobbyActions = (): UseLobbyActionsReturn => {
     []
   );
 
+  const submitScore = useCallback(
+    async (
+      roomCode: string,
+      submittedBy: string,
+      games: GameScore[],
+      format?: GameFormat
+    ): Promise<void> => {
+      return lobbyService.submitScore(roomCode, submittedBy, games, format);
+    },
+    []
+  );
+
   const confirmScore = useCallback(
     async (roomCode: string, playerId: string, confirmed: boolean): Promise<void> => {
       return lobbyService.confirmScore(roomCode, playerId, confirmed);
@@ -63,6 +104,18 @@ export const useLobbyActions = (): UseLobbyActionsReturn => {
     []
   );
 
+  const disputeScore = useCallback(
+    async (
+      roomCode: string,
+      playerId: string,
+      counterGames: GameScore[],
+      format?: GameFormat
+    ): Promise<void> => {
+      return lobbyService.disputeScore(roomCode, playerId, counterGames, format);
+    },
+    []
+  );
+
   return {
     createLobby,
     joinLobby,
@@ -70,6 +123,8 @@ export const useLobbyActions = (): UseLobbyActionsReturn => {
     deleteLobby,
     startGame,
     endGame,
+    submitScore,
     confirmScore,
+    disputeScore,
   };
 };
@@ -21,8 +21,8 @@ const transformToChatListItem = (chat: Chat, currentUserId: string): ChatListIte
   let displayName: string;
   let displayPhotoURL: string | null = null;
 
-  if (chat.type === 'group') {
-    // Group chat - use group name and group photo
+  if (chat.type === 'group' || chat.type === 'lobby') {
+    // Group or lobby chat - use chat name and group photo
     displayName = chat.name || 'Group Chat';
     displayPhotoURL = chat.photoURL || null;
   } else {
@@ -0,0 +1,115 @@
+/**
+ * useClub Hook
+ * Real-time club, leaderboard and join request listener
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, doc, onSnapshot, query, where } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { canManageClub, rankClubStandings } from '@/lib/club';
+import type { Club, ClubJoinRequest, ClubStanding } from '@/types/club';
+
+interface UseClubReturn {
+  club: Club | null;
+  standings: ClubStanding[];  // Current members, best first
+  requests: ClubJoinRequest[];  // Pending requests (owner and admins only)
+  myRequest: ClubJoinRequest | null;  // The current user's own request
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook to listen to a club, its leaderboard and its join requests in real-time
+ * Rules only let the owner and admins list requests, so other players listen to their own
+ * @param clubId - Club ID
+ * @param userId - Current user ID
+ * @returns Club, ranked standings, join requests, loading state and error
+ */
+export const useClub = (
+  clubId: string,
+  userId: string | undefined
+): UseClubReturn => {
+  const [club, setClub] = useState<Club | null>(null);
+  const [allStandings, setAllStandings] = useState<ClubStanding[]>([]);
+  const [requests, setRequests] = useState<ClubJoinRequest[]>([]);
+  const [myRequest, setMyRequest] = useState<ClubJoinRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const canManage = !!club && !!userId && canManageClub(club, userId);
+
+  useEffect(() => {
+    if (!clubId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const handleError = (err: Error) => {
+      console.error('Error listening to club:', err);
+      setError(err);
+      setLoading(false);
+    };
+
+    const unsubscribeClub = onSnapshot(
+      doc(firestore, 'clubs', clubId),
+      (snapshot) => {
+        setClub(snapshot.exists() ? ({ ...snapshot.data(), id: snapshot.id } as Club) : null);
+        setLoading(false);
+      },
+      handleError
+    );
+
+    const unsubscribeStandings = onSnapshot(
+      collection(firestore, 'clubs', clubId, 'standings'),
+      (snapshot) => {
+        setAllStandings(snapshot.docs.map((doc) => ({ ...doc.data(), uid: doc.id } as ClubStanding)));
+      },
+      handleError
+    );
+
+    return () => {
+      unsubscribeClub();
+      unsubscribeStandings();
+    };
+  }, [clubId]);
+
+  useEffect(() => {
+    if (!clubId || !userId) {
+      setRequests([]);
+      setMyRequest(null);
+      return;
+    }
+
+    const handleError = (err: Error) => {
+      console.error('Error listening to club join requests:', err);
+    };
+
+    if (canManage) {
+      return onSnapshot(
+        query(collection(firestore, 'clubs', clubId, 'joinRequests'), where('status', '==', 'pending')),
+        (snapshot) => {
+          setRequests(snapshot.docs.map((doc) => ({ ...doc.data(), uid: doc.id } as ClubJoinRequest)));
+        },
+        handleError
+      );
+    }
+
+    return onSnapshot(
+      doc(firestore, 'clubs', clubId, 'joinRequests', userId),
+      (snapshot) => {
+        setMyRequest(snapshot.exists() ? ({ ...snapshot.data(), uid: snapshot.id } as ClubJoinRequest) : null);
+      },
+      handleError
+    );
+  }, [clubId, userId, canManage]);
+
+  const standings = useMemo(
+    () => rankClubStandings(allStandings, club?.memberIds ?? []),
+    [allStandings, club?.memberIds]
+  );
+
+  return { club, standings, requests, myRequest, loading, error };
+};
@@ -0,0 +1,123 @@
+/**
+ * useClubs Hook
+ * Real-time lists of recent clubs, the user's clubs and their invites,
+ * and the clubs shown on a player's profile
+ */
+
+import { useState, useEffect } from 'react';
+import { collection, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import type { QueryConstraint } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import type { Club } from '@/types/club';
+
+interface UseClubsReturn {
+  clubs: Club[];
+  myClubs: Club[];
+  invites: Club[];
+  loading: boolean;
+  error: Error | null;
+}
+
+const LIST_LIMIT = 20;
+
+/**
+ * Hook to list clubs
+ * @param userId - User whose clubs and invites to list
+ * @returns Recently created clubs, clubs the user belongs to, clubs that have
+ * invited them (newest first), loading state and error
+ */
+export const useClubs = (userId: string): UseClubsReturn => {
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [myClubs, setMyClubs] = useState<Club[]>([]);
+  const [invites, setInvites] = useState<Club[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setClubs([]);
+      setMyClubs([]);
+      setInvites([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const clubsRef = collection(firestore, 'clubs');
+    const listen = (
+      constraints: QueryConstraint[],
+      setList: (clubs: Club[]) => void
+    ) => onSnapshot(
+      query(clubsRef, ...constraints, orderBy('createdAt', 'desc'), limit(LIST_LIMIT)),
+      (snapshot) => {
+        setList(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Club)));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to clubs:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    const unsubscribers = [
+      listen([], setClubs),
+      listen([where('memberIds', 'array-contains', userId)], setMyClubs),
+      listen([where('invitedIds', 'array-contains', userId)], setInvites),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [userId]);
+
+  return { clubs, myClubs, invites, loading, error };
+};
+
+interface UseUserClubsReturn {
+  clubs: Club[];
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook to list the clubs a player belongs to, for their profile
+ * @param userId - Player
+ * @returns Their clubs (newest first), loading state and error
+ */
+export const useUserClubs = (userId: string): UseUserClubsReturn => {
+  const [clubs, setClubs] = useState<Club[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setClubs([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    return onSnapshot(
+      query(
+        collection(firestore, 'clubs'),
+        where('memberIds', 'array-contains', userId),
+        orderBy('createdAt', 'desc'),
+        limit(LIST_LIMIT)
+      ),
+      (snapshot) => {
+        setClubs(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Club)));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to user clubs:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+  }, [userId]);
+
+  return { clubs, loading, error };
+};
@@ -0,0 +1,102 @@
+/**
+ * useHeadToHead Hook
+ * Record between two players and a player's best doubles partners
+ */
+
+import { useState, useEffect } from 'react';
+import { getHeadToHead, getPartnerStats } from '@/services/headToHeadService';
+import type { HeadToHeadStats, PartnerStats } from '@/types/user';
+
+interface UseHeadToHeadReturn {
+  stats: HeadToHeadStats | null;
+  loading: boolean;
+  error: Error | null;
+}
+
+interface UseBestPartnersReturn {
+  partners: PartnerStats[];
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook to load the record between two players
+ * @param userId - Player whose side the stats are from (usually the viewer)
+ * @param otherUserId - Player they met; skipped when empty or the same player
+ * @returns Head-to-head stats, loading state and error
+ */
+export const useHeadToHead = (userId: string, otherUserId: string): UseHeadToHeadReturn => {
+  const [stats, setStats] = useState<HeadToHeadStats | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId || !otherUserId || userId === otherUserId) {
+      setStats(null);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getHeadToHead(userId, otherUserId)
+      .then((result) => {
+        if (!cancelled) setStats(result);
+      })
+      .catch((err) => {
+        console.error('Error loading head-to-head:', err);
+        if (!cancelled) setError(err as Error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, otherUserId]);
+
+  return { stats, loading, error };
+};
+
+/**
+ * Hook to load a player's doubles partners ranked by win rate
+ * @param userId - Player
+ * @returns Partners (best first), loading state and error
+ */
+export const useBestPartners = (userId: string): UseBestPartnersReturn => {
+  const [partners, setPartners] = useState<PartnerStats[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    getPartnerStats(userId)
+      .then((result) => {
+        if (!cancelled) setPartners(result);
+      })
+      .catch((err) => {
+        console.error('Error loading partner stats:', err);
+        if (!cancelled) setError(err as Error);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
+  return { partners, loading, error };
+};
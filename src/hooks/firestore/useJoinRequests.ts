@@ -0,0 +1,81 @@
+/**
+ * useJoinRequests Hook
+ * Real-time join requests for a private lobby
+ */
+
+import { useState, useEffect } from 'react';
+import { collection, doc, onSnapshot, query, where } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import type { JoinRequest } from '@/types/lobby';
+
+interface UseJoinRequestsReturn {
+  requests: JoinRequest[];  // Pending requests (host only)
+  myRequest: JoinRequest | null;  // The current user's own request
+  loading: boolean;
+}
+
+/**
+ * Hook to listen to a lobby's join requests in real-time
+ * Rules only let the host list requests, so other players listen to their own
+ * @param roomCode - Room code of a private lobby ('' to skip)
+ * @param userId - Current user ID
+ * @param isHost - Whether the current user hosts the lobby
+ * @returns Pending requests for the host, the user's own request otherwise
+ */
+export const useJoinRequests = (
+  roomCode: string,
+  userId: string | undefined,
+  isHost: boolean
+): UseJoinRequestsReturn => {
+  const [requests, setRequests] = useState<JoinRequest[]>([]);
+  const [myRequest, setMyRequest] = useState<JoinRequest | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!roomCode || !userId) {
+      setRequests([]);
+      setMyRequest(null);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+
+    const handleError = (err: Error) => {
+      console.error('Error listening to join requests:', err);
+      setLoading(false);
+    };
+
+    if (isHost) {
+      const q = query(
+        collection(firestore, 'lobbies', roomCode, 'joinRequests'),
+        where('status', '==', 'pending')
+      );
+
+      return onSnapshot(
+        q,
+        (snapshot) => {
+          // Oldest first; a just-written request has no server timestamp yet
+          const pending = snapshot.docs.map((d) => d.data() as JoinRequest);
+          pending.sort((a, b) =>
+            (a.createdAt?.toMillis() ?? Date.now()) - (b.createdAt?.toMillis() ?? Date.now())
+          );
+          setRequests(pending);
+          setLoading(false);
+        },
+        handleError
+      );
+    }
+
+    return onSnapshot(
+      doc(firestore, 'lobbies', roomCode, 'joinRequests', userId),
+      (snapshot) => {
+        setMyRequest(snapshot.exists() ? (snapshot.data() as JoinRequest) : null);
+        setLoading(false);
+      },
+      handleError
+    );
+  }, [roomCode, userId, isHost]);
+
+  return { requests, myRequest, loading };
+};
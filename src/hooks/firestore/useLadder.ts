@@ -0,0 +1,87 @@
+/**
+ * useLadder Hook
+ * Real-time ladder, challenge and season archive listener; rungs move as
+ * each challenge settles
+ */
+
+import { useState, useEffect } from 'react';
+import { collection, doc, limit, onSnapshot, orderBy, query } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import type { Ladder, LadderChallenge, LadderSeason } from '@/types/ladder';
+
+interface UseLadderReturn {
+  ladder: Ladder | null;
+  challenges: LadderChallenge[];
+  seasons: LadderSeason[];
+  loading: boolean;
+  error: Error | null;
+}
+
+const CHALLENGE_LIMIT = 30;
+
+/**
+ * Hook to listen to a ladder, its recent challenges and past seasons in real-time
+ * @param ladderId - Ladder ID
+ * @returns Ladder, challenges (newest first), archived seasons (latest first),
+ * loading state and error
+ */
+export const useLadder = (ladderId: string): UseLadderReturn => {
+  const [ladder, setLadder] = useState<Ladder | null>(null);
+  const [challenges, setChallenges] = useState<LadderChallenge[]>([]);
+  const [seasons, setSeasons] = useState<LadderSeason[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!ladderId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const handleError = (err: Error) => {
+      console.error('Error listening to ladder:', err);
+      setError(err);
+      setLoading(false);
+    };
+
+    const unsubscribeLadder = onSnapshot(
+      doc(firestore, 'ladders', ladderId),
+      (snapshot) => {
+        setLadder(snapshot.exists() ? ({ ...snapshot.data(), id: snapshot.id } as Ladder) : null);
+        setLoading(false);
+      },
+      handleError
+    );
+
+    const unsubscribeChallenges = onSnapshot(
+      query(
+        collection(firestore, 'ladders', ladderId, 'challenges'),
+        orderBy('createdAt', 'desc'),
+        limit(CHALLENGE_LIMIT)
+      ),
+      (snapshot) => {
+        setChallenges(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as LadderChallenge)));
+      },
+      handleError
+    );
+
+    const unsubscribeSeasons = onSnapshot(
+      query(collection(firestore, 'ladders', ladderId, 'seasons'), orderBy('season', 'desc')),
+      (snapshot) => {
+        setSeasons(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as LadderSeason)));
+      },
+      handleError
+    );
+
+    return () => {
+      unsubscribeLadder();
+      unsubscribeChallenges();
+      unsubscribeSeasons();
+    };
+  }, [ladderId]);
+
+  return { ladder, challenges, seasons, loading, error };
+};
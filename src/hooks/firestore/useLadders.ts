@@ -0,0 +1,77 @@
+/**
+ * useLadders Hook
+ * Real-time lists of recent ladders and the user's own
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import type { QueryConstraint } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import type { Ladder } from '@/types/ladder';
+
+interface UseLaddersReturn {
+  ladders: Ladder[];
+  myLadders: Ladder[];
+  loading: boolean;
+  error: Error | null;
+}
+
+const LIST_LIMIT = 20;
+
+/**
+ * Hook to list ladders
+ * @param userId - Current user's ID
+ * @returns Recently created ladders, ladders the user runs or plays on
+ * (newest first), loading state and error
+ */
+export const useLadders = (userId: string): UseLaddersReturn => {
+  const [ladders, setLadders] = useState<Ladder[]>([]);
+  const [hosted, setHosted] = useState<Ladder[]>([]);
+  const [playing, setPlaying] = useState<Ladder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const laddersRef = collection(firestore, 'ladders');
+    const listen = (
+      constraints: QueryConstraint[],
+      setList: (ladders: Ladder[]) => void
+    ) => onSnapshot(
+      query(laddersRef, ...constraints, orderBy('createdAt', 'desc'), limit(LIST_LIMIT)),
+      (snapshot) => {
+        setList(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Ladder)));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to ladders:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    const unsubscribers = [
+      listen([], setLadders),
+      listen([where('hostId', '==', userId)], setHosted),
+      listen([where('rungs', 'array-contains', userId)], setPlaying),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [userId]);
+
+  const myLadders = useMemo(() => {
+    const byId = new Map([...hosted, ...playing].map((l) => [l.id, l]));
+    return [...byId.values()].sort(
+      (a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0)
+    );
+  }, [hosted, playing]);
+
+  return { ladders, myLadders, loading, error };
+};
@@ -4,8 +4,9 @@
  */
 
 import { useState, useEffect, useCallback } from 'react';
-import { collection, query, where, orderBy, limit, onSnapshot } from 'firebase/firestore';
+import { collection, query, where, orderBy, limit, onSnapshot, documentId } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
+import { chunkScopeValues, rankScopedPlayers } from '@/lib/leaderboardScope';
 import type { UserDocument } from '@/types/user';
 import type { GameCategory } from '@/types/lobby';
 
@@ -40,7 +41,7 @@ export const useLeaderboard = (
     const categoryToField: Record<GameCategory, string> = {
       'singles': 'rankings.singles',
       'same_gender_doubles': 'rankings.sameGenderDoubles',
-      'mixed_doubles': 'rankings.sameGenderDoubles',  // Both map to sameGenderDoubles
+      'mixed_doubles': 'rankings.mixedDoubles',
     };
 
     const rankingField = categoryToField[category];
@@ -91,6 +92,82 @@ export const useLeaderboard = (
   return { rankings, loading, error, refetch };
 };
 
+/**
+ * Hook to listen to a local leaderboard in real-time
+ * Lists every player whose field matches one of the values (split into `in`
+ * queries of 30), then filters, orders and limits them on the device.
+ * @param field - 'homeCourtId' to scope by home courts, 'uid' for a list of players
+ * @param values - Court IDs or user IDs in scope
+ * @param category - Game category to get rankings for
+ * @param gender - Gender filter ('male' | 'female') - only applies to singles/same_gender_doubles
+ * @param limitCount - Maximum number of users to return (default: 50)
+ * @returns Ranking data, loading state, and error
+ */
+export const useScopedLeaderboard = (
+  field: 'homeCourtId' | 'uid',
+  values: string[],
+  category: GameCategory = 'singles',
+  gender?: 'male' | 'female',
+  limitCount = 50
+): UseLeaderboardReturn => {
+  const [rankings, setRankings] = useState<UserDocument[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  // Compare by content so callers can pass a new array each render
+  const valuesKey = values.join(',');
+
+  useEffect(() => {
+    const chunks = chunkScopeValues(valuesKey ? valuesKey.split(',') : []);
+
+    if (chunks.length === 0) {
+      setRankings([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    // Latest result of each chunk; rank once every chunk has reported
+    const results: (UserDocument[] | undefined)[] = chunks.map(() => undefined);
+
+    const unsubscribes = chunks.map((chunk, index) =>
+      onSnapshot(
+        query(
+          collection(firestore, 'users'),
+          where(field === 'uid' ? documentId() : field, 'in', chunk)
+        ),
+        (snapshot) => {
+          results[index] = snapshot.docs.map((doc) => ({
+            uid: doc.id,
+            ...doc.data(),
+          })) as UserDocument[];
+
+          if (results.every(Boolean)) {
+            setRankings(rankScopedPlayers(results.flat() as UserDocument[], category, gender, limitCount));
+            setLoading(false);
+          }
+        },
+        (err) => {
+          console.error('Error listening to local leaderboard:', err);
+          setError(err as Error);
+          setLoading(false);
+        }
+      )
+    );
+
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  }, [field, valuesKey, category, gender, limitCount]);
+
+  const refetch = useCallback(() => {
+    setLoading(true);
+    setError(null);
+  }, []);
+
+  return { rankings, loading, error, refetch };
+};
+
 /**
  * Convenience hooks for specific categories
  */
@@ -0,0 +1,175 @@
+/**
+ * useLeaderboardPeriods Hooks
+ * Real-time period (monthly, quarterly, custom season) leaderboards and the
+ * podium finishes players earn when a period closes
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { collection, query, where, orderBy, limit, onSnapshot } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { getPeriodField } from '@/lib/leaderboardPeriods';
+import type { GameCategory } from '@/types/lobby';
+import type {
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  PeriodEntry,
+  SeasonFinish,
+} from '@/types/leaderboard';
+
+interface UseLeaderboardPeriodsReturn {
+  periods: LeaderboardPeriod[];
+  loading: boolean;
+  error: Error | null;
+}
+
+interface UsePeriodLeaderboardReturn {
+  entries: PeriodEntry[];
+  loading: boolean;
+  error: Error | null;
+  refetch: () => void;
+}
+
+interface UseSeasonFinishesReturn {
+  finishes: SeasonFinish[];
+  loading: boolean;
+  error: Error | null;
+}
+
+const PERIOD_LIMIT = 12;
+const FINISH_LIMIT = 20;
+
+/**
+ * Hook to list recent leaderboard periods
+ * @returns Periods, latest ending first (current ones before closed ones), loading state and error
+ */
+export const useLeaderboardPeriods = (): UseLeaderboardPeriodsReturn => {
+  const [periods, setPeriods] = useState<LeaderboardPeriod[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, 'leaderboardPeriods'), orderBy('endAt', 'desc'), limit(PERIOD_LIMIT)),
+      (snapshot) => {
+        setPeriods(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as LeaderboardPeriod)));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to leaderboard periods:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, []);
+
+  return { periods, loading, error };
+};
+
+/**
+ * Hook to listen to one period's leaderboard in real-time
+ * Only players who have played the category in the period are listed.
+ * @param periodId - Period ID
+ * @param category - Game category to rank
+ * @param metric - Rank by rating gained or wins
+ * @param gender - Gender filter ('male' | 'female') - only applies to singles/same_gender_doubles
+ * @param limitCount - Maximum number of players to fetch (default: 50)
+ * @returns Period entries best first, loading state, and error
+ */
+export const usePeriodLeaderboard = (
+  periodId: string,
+  category: GameCategory,
+  metric: LeaderboardMetric,
+  gender?: 'male' | 'female',
+  limitCount = 50
+): UsePeriodLeaderboardReturn => {
+  const [entries, setEntries] = useState<PeriodEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!periodId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const entriesRef = collection(firestore, 'leaderboardPeriods', periodId, 'entries');
+    const field = getPeriodField(metric, category);
+
+    const q = gender && category !== 'mixed_doubles'
+      ? query(entriesRef, where('gender', '==', gender), orderBy(field, 'desc'), limit(limitCount))
+      : query(entriesRef, orderBy(field, 'desc'), limit(limitCount));
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        setEntries(snapshot.docs.map((doc) => ({ ...doc.data(), uid: doc.id } as PeriodEntry)));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to period leaderboard:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [periodId, category, metric, gender, limitCount]);
+
+  const refetch = useCallback(() => {
+    setLoading(true);
+    setError(null);
+  }, []);
+
+  return { entries, loading, error, refetch };
+};
+
+/**
+ * Hook to list a player's podium finishes in closed periods
+ * @param userId - Player's user ID
+ * @returns Finishes, most recent first, loading state and error
+ */
+export const useSeasonFinishes = (userId: string): UseSeasonFinishesReturn => {
+  const [finishes, setFinishes] = useState<SeasonFinish[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setFinishes([]);
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const unsubscribe = onSnapshot(
+      query(
+        collection(firestore, 'users', userId, 'seasonFinishes'),
+        orderBy('endedAt', 'desc'),
+        limit(FINISH_LIMIT)
+      ),
+      (snapshot) => {
+        setFinishes(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as SeasonFinish)));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to season finishes:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId]);
+
+  return { finishes, loading, error };
+};
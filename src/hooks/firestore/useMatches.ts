@@ -1,39 +1,80 @@
 /**
  * useMatches Hook
- * Real-time user match history listener
+ * Paginated user match history: the first page is a real-time listener,
+ * older pages load on demand with a cursor
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { collection, query, where, orderBy, limit, onSnapshot } from 'firebase/firestore';
-import { firestore } from '@/config/firebase';
-import type { MatchHistoryRecord } from '@/types/user';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { onSnapshot } from 'firebase/firestore';
+import type { QueryDocumentSnapshot } from 'firebase/firestore';
+import {
+  getMatchHistoryPage,
+  getMatchHistoryQuery,
+  toMatchHistoryPage,
+} from '@/services/matchService';
+import type { MatchHistoryFilters, MatchHistoryRecord } from '@/types/user';
 
 interface UseMatchesReturn {
   matches: MatchHistoryRecord[];
   loading: boolean;
+  loadingMore: boolean;
   error: Error | null;
   hasMore: boolean;
+  loadMore: () => Promise<void>;
   refetch: () => void;
 }
 
+const NO_FILTERS: MatchHistoryFilters = {};
+
+/**
+ * Merges pages, dropping matches seen twice
+ * Matches are immutable, so a match pushed off the live first page by a newer
+ * one is kept rather than lost between pages.
+ */
+const mergePages = (...pages: MatchHistoryRecord[][]): MatchHistoryRecord[] => {
+  const seen = new Set<string>();
+  return pages.flat().filter((record) => {
+    if (seen.has(record.id)) return false;
+    seen.add(record.id);
+    return true;
+  });
+};
+
 /**
- * Hook to listen to user's match history in real-time
+ * Hook to read a user's match history a page at a time
  * @param userId - User ID to get matches for
- * @param limitCount - Maximum number of matches to fetch (default: 20)
- * @param status - Filter by match status (optional)
- * @returns Match history data, loading state, error, and pagination info
+ * @param pageSize - Matches per page (default: 20)
+ * @param filters - Category, result, other player and date range filters
+ * @returns Loaded matches (newest first), loading states, error, and pagination controls
  */
 export const useMatches = (
   userId: string,
-  limitCount = 20,
-  status?: 'pending' | 'confirmed' | 'disputed'
+  pageSize = 20,
+  filters: MatchHistoryFilters = NO_FILTERS
 ): UseMatchesReturn => {
-  const [matches, setMatches] = useState<MatchHistoryRecord[]>([]);
+  const [firstPage, setFirstPage] = useState<MatchHistoryRecord[]>([]);
+  const [olderPages, setOlderPages] = useState<MatchHistoryRecord[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [error, setError] = useState<Error | null>(null);
   const [hasMore, setHasMore] = useState(false);
+  const [reloadCount, setReloadCount] = useState(0);
+
+  // Cursor of the last loaded match; bumped generation discards stale page loads
+  const cursorRef = useRef<QueryDocumentSnapshot | null>(null);
+  const generationRef = useRef(0);
+
+  // Callers usually pass a fresh filters object each render
+  const filtersKey = JSON.stringify(filters);
+  const stableFilters = useMemo(() => filters, [filtersKey]);
 
   useEffect(() => {
+    const generation = ++generationRef.current;
+    cursorRef.current = null;
+    setFirstPage([]);
+    setOlderPages([]);
+    setHasMore(false);
+
     if (!userId) {
       setLoading(false);
       return;
@@ -42,35 +83,18 @@ export const useMatches = (
     setLoading(true);
     setError(null);
 
-      // Build query
-      let q = query(
-        collection(firestore, 'matchHistory'),
-        where('playerId', '==', userId),
-        orderBy('createdAt', 'desc'),
-        limit(limitCount + 1) // Fetch one extra to check if there are more
-      );
-
-      // Add status filter if provided
-      if (status) {
-        q = query(
-          collection(firestore, 'matchHistory'),
-          where('playerId', '==', userId),
-          where('status', '==', status),
-          orderBy('createdAt', 'desc'),
-          limit(limitCount + 1)
-        );
-      }
-
     const unsubscribe = onSnapshot(
-      q,
+      getMatchHistoryQuery(userId, stableFilters, pageSize),
       (snapshot) => {
-        const matchList = snapshot.docs.slice(0, limitCount).map((doc) => ({
-          id: doc.id,
-          ...doc.data(),
-        })) as MatchHistoryRecord[];
+        const page = toMatchHistoryPage(snapshot.docs, userId, stableFilters, pageSize);
+
+        setFirstPage((prev) => mergePages(page.records, prev));
 
-        setMatches(matchList);
-        setHasMore(snapshot.docs.length > limitCount);
+        // Once older pages are loaded their cursor stays put
+        if (generation === generationRef.current && !cursorRef.current) {
+          cursorRef.current = page.cursor;
+          setHasMore(page.hasMore);
+        }
         setLoading(false);
       },
       (err) => {
@@ -81,19 +105,36 @@ export const useMatches = (
     );
 
     return () => unsubscribe();
-  }, [userId, limitCount, status]);
+  }, [userId, pageSize, stableFilters, reloadCount]);
+
+  const loadMore = useCallback(async () => {
+    if (!userId || !hasMore || loading || loadingMore || !cursorRef.current) {
+      return;
+    }
+
+    const generation = generationRef.current;
+    setLoadingMore(true);
+
+    try {
+      const page = await getMatchHistoryPage(userId, stableFilters, pageSize, cursorRef.current);
+      if (generation !== generationRef.current) return;
+
+      cursorRef.current = page.cursor;
+      setOlderPages((prev) => [...prev, ...page.records]);
+      setHasMore(page.hasMore);
+    } catch (err) {
+      console.error('Error loading more matches:', err);
+      setError(err as Error);
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [userId, hasMore, loading, loadingMore, stableFilters, pageSize]);
 
   const refetch = useCallback(() => {
-    setLoading(true);
-    setError(null);
+    setReloadCount((count) => count + 1);
   }, []);
 
-  return { matches, loading, error, hasMore, refetch };
-};
+  const matches = useMemo(() => mergePages(firstPage, olderPages), [firstPage, olderPages]);
 
-/**
- * Hook to listen to pending matches only (convenience wrapper)
- */
-export const usePendingMatches = (userId: string): UseMatchesReturn => {
-  return useMatches(userId, 10, 'pending');
+  return { matches, loading, loadingMore, error, hasMore, loadMore, refetch };
 };
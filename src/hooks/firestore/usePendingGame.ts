@@ -1,7 +1,13 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { collection, query, where, onSnapshot, Timestamp } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
 import { useAuth } from '@/contexts/AuthContext';
+import { getLobbyExpiryReason } from '@/lib/lobbyLifecycle';
+import {
+  getExpiredLobbyNoticeId,
+  getSeenExpiredLobbies,
+  markExpiredLobbySeen,
+} from '@/lib/expiredLobbyNotices';
 import type { Lobby } from '@/types/lobby';
 
 export interface PendingGame {
@@ -12,17 +18,30 @@ export interface PendingGame {
 
 interface UsePendingGameReturn {
   pendingGame: PendingGame | null;
+  expiredLobby: Lobby | null;  // Most recent lobby of the user's that the sweeper expired
+  dismissExpiredLobby: () => void;
   loading: boolean;
 }
 
+const getExpiryNoticeId = (lobby: Lobby): string => {
+  return getExpiredLobbyNoticeId(lobby.roomCode, lobby.cancelledAt?.toMillis() ?? 0);
+};
+
 export const usePendingGame = (suppressBanner: boolean = false): UsePendingGameReturn => {
   const [pendingGame, setPendingGame] = useState<PendingGame | null>(null);
+  const [expiredLobbies, setExpiredLobbies] = useState<Lobby[]>([]);
+  const [seenExpiredLobbies, setSeenExpiredLobbies] = useState<string[] | null>(null);
   const [loading, setLoading] = useState(true);
   const { user } = useAuth();
 
+  useEffect(() => {
+    getSeenExpiredLobbies().then(setSeenExpiredLobbies);
+  }, []);
+
   useEffect(() => {
     if (!user) {
       setPendingGame(null);
+      setExpiredLobbies([]);
       setLoading(false);
       return;
     }
@@ -43,14 +62,11 @@ export const usePendingGame = (suppressBanner: boolean = false): UsePendingGameR
       q,
       (snapshot) => {
         let userPendingGame: PendingGame | null = null;
+        const userExpiredLobbies: Lobby[] = [];
+        const now = Date.now();
 
         snapshot.docs.forEach((doc) => {
           const lobby = { ...doc.data(), id: doc.id } as Lobby & { id: string };
-          
-          // Skip completed games
-          if (lobby.gameCompletedAt) {
-            return;
-          }
 
           // Check if current user is in this lobby
           const isInTeam1 = 
@@ -60,17 +76,30 @@ export const usePendingGame = (suppressBanner: boolean = false): UsePendingGameR
             lobby.team2.player1?.uid === user.id || 
             lobby.team2.player2?.uid === user.id;
 
-          if (isInTeam1 || isInTeam2) {
-            userPendingGame = {
-              roomCode: lobby.roomCode,
-              type: lobby.gameStarted ? 'game' : 'lobby',
-              lobby
-            };
+          if (!isInTeam1 && !isInTeam2) {
+            return;
           }
+
+          if (lobby.expiredReason) {
+            userExpiredLobbies.push(lobby);
+            return;
+          }
+
+          // Skip completed games, and abandoned ones the sweeper hasn't reached yet
+          if (lobby.gameCompletedAt || getLobbyExpiryReason(lobby, now)) {
+            return;
+          }
+
+          userPendingGame = {
+            roomCode: lobby.roomCode,
+            type: lobby.gameStarted ? 'game' : 'lobby',
+            lobby
+          };
         });
 
         // Don't set pending game if banner is suppressed (during creation/joining)
         setPendingGame(suppressBanner ? null : userPendingGame);
+        setExpiredLobbies(userExpiredLobbies);
         setLoading(false);
       },
       (error) => {
@@ -82,5 +111,19 @@ export const usePendingGame = (suppressBanner: boolean = false): UsePendingGameR
     return () => unsubscribe();
   }, [user, suppressBanner]);
 
-  return { pendingGame, loading };
+  const expiredLobby = seenExpiredLobbies
+    ? expiredLobbies
+        .filter((lobby) => !seenExpiredLobbies.includes(getExpiryNoticeId(lobby)))
+        .sort((a, b) => (b.cancelledAt?.toMillis() ?? 0) - (a.cancelledAt?.toMillis() ?? 0))[0] ?? null
+    : null;
+
+  const dismissExpiredLobby = useCallback(() => {
+    if (!expiredLobby) return;
+
+    const noticeId = getExpiryNoticeId(expiredLobby);
+    setSeenExpiredLobbies((seen) => [noticeId, ...(seen ?? [])]);
+    markExpiredLobbySeen(noticeId);
+  }, [expiredLobby]);
+
+  return { pendingGame, expiredLobby, dismissExpiredLobby, loading };
 };
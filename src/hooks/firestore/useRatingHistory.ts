@@ -0,0 +1,94 @@
+/**
+ * useRatingHistory Hook
+ * Real-time rating-over-time series built from settled match history
+ */
+
+import { useState, useEffect } from 'react';
+import { collection, query, where, orderBy, limit, onSnapshot, Timestamp } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { toPlayerRecords } from '@/lib/matchRecords';
+import type { Match } from '@/types/game';
+import type { RatingHistoryPoint, UserRankings } from '@/types/user';
+
+type RatingHistoryByCategory = Record<keyof UserRankings, RatingHistoryPoint[]>;
+
+interface UseRatingHistoryReturn {
+  history: RatingHistoryByCategory;
+  loading: boolean;
+  error: Error | null;
+}
+
+const emptyHistory = (): RatingHistoryByCategory => ({
+  singles: [],
+  sameGenderDoubles: [],
+  mixedDoubles: [],
+});
+
+/**
+ * Hook to listen to a user's rating history in real-time
+ * Matches settled before ratings were recorded are skipped
+ * @param userId - User ID to get rating history for
+ * @param limitCount - Maximum number of recent matches to read (default: 100)
+ * @returns Rating history per category (oldest first), loading state and error
+ */
+export const useRatingHistory = (
+  userId: string,
+  limitCount = 100
+): UseRatingHistoryReturn => {
+  const [history, setHistory] = useState<RatingHistoryByCategory>(emptyHistory);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const q = query(
+      collection(firestore, 'matches'),
+      where('playerIds', 'array-contains', userId),
+      orderBy('createdAt', 'desc'),
+      limit(limitCount)
+    );
+
+    const unsubscribe = onSnapshot(
+      q,
+      (snapshot) => {
+        const byCategory = emptyHistory();
+
+        const matches = snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Match));
+
+        // Walk oldest → newest so each series is chronological
+        toPlayerRecords(matches, userId).reverse().forEach((record) => {
+          const { ratingCategory, ratingBefore, ratingAfter } = record;
+          if (!ratingCategory || ratingBefore === undefined || ratingAfter === undefined) return;
+
+          const createdAt = record.createdAt as Date | Timestamp | null;
+          byCategory[ratingCategory].push({
+            matchId: record.id,
+            category: ratingCategory,
+            ratingBefore,
+            ratingAfter,
+            createdAt: createdAt instanceof Timestamp ? createdAt.toDate() : new Date(),
+          });
+        });
+
+        setHistory(byCategory);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to rating history:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    return () => unsubscribe();
+  }, [userId, limitCount]);
+
+  return { history, loading, error };
+};
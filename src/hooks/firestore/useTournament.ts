@@ -0,0 +1,69 @@
+/**
+ * useTournament Hook
+ * Real-time tournament and schedule listener; standings and the bracket are
+ * derived from the matches, so they update as each result settles
+ */
+
+import { useState, useEffect } from 'react';
+import { collection, doc, onSnapshot } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import type { Tournament, TournamentMatch } from '@/types/tournament';
+
+interface UseTournamentReturn {
+  tournament: Tournament | null;
+  matches: TournamentMatch[];
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Hook to listen to a tournament and its matches in real-time
+ * @param tournamentId - Tournament ID
+ * @returns Tournament, its matches (empty until it starts), loading state and error
+ */
+export const useTournament = (tournamentId: string): UseTournamentReturn => {
+  const [tournament, setTournament] = useState<Tournament | null>(null);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!tournamentId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const handleError = (err: Error) => {
+      console.error('Error listening to tournament:', err);
+      setError(err);
+      setLoading(false);
+    };
+
+    const unsubscribeTournament = onSnapshot(
+      doc(firestore, 'tournaments', tournamentId),
+      (snapshot) => {
+        setTournament(snapshot.exists() ? ({ ...snapshot.data(), id: snapshot.id } as Tournament) : null);
+        setLoading(false);
+      },
+      handleError
+    );
+
+    const unsubscribeMatches = onSnapshot(
+      collection(firestore, 'tournaments', tournamentId, 'matches'),
+      (snapshot) => {
+        setMatches(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as TournamentMatch)));
+      },
+      handleError
+    );
+
+    return () => {
+      unsubscribeTournament();
+      unsubscribeMatches();
+    };
+  }, [tournamentId]);
+
+  return { tournament, matches, loading, error };
+};
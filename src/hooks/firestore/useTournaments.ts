@@ -0,0 +1,76 @@
+/**
+ * useTournaments Hook
+ * Real-time lists of tournaments open for registration and the user's own
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import { collection, limit, onSnapshot, orderBy, query, where } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import type { Tournament } from '@/types/tournament';
+
+interface UseTournamentsReturn {
+  openTournaments: Tournament[];
+  myTournaments: Tournament[];
+  loading: boolean;
+  error: Error | null;
+}
+
+const LIST_LIMIT = 20;
+
+/**
+ * Hook to list tournaments
+ * @param userId - Current user's ID
+ * @returns Tournaments taking entries, tournaments the user hosts or plays in
+ * (newest first), loading state and error
+ */
+export const useTournaments = (userId: string): UseTournamentsReturn => {
+  const [openTournaments, setOpenTournaments] = useState<Tournament[]>([]);
+  const [hosted, setHosted] = useState<Tournament[]>([]);
+  const [playing, setPlaying] = useState<Tournament[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    const tournamentsRef = collection(firestore, 'tournaments');
+    const listen = (
+      constraint: ReturnType<typeof where>,
+      setList: (tournaments: Tournament[]) => void
+    ) => onSnapshot(
+      query(tournamentsRef, constraint, orderBy('createdAt', 'desc'), limit(LIST_LIMIT)),
+      (snapshot) => {
+        setList(snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Tournament)));
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening to tournaments:', err);
+        setError(err as Error);
+        setLoading(false);
+      }
+    );
+
+    const unsubscribers = [
+      listen(where('status', '==', 'registration'), setOpenTournaments),
+      listen(where('hostId', '==', userId), setHosted),
+      listen(where('playerIds', 'array-contains', userId), setPlaying),
+    ];
+
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [userId]);
+
+  const myTournaments = useMemo(() => {
+    const byId = new Map([...hosted, ...playing].map((t) => [t.id, t]));
+    return [...byId.values()].sort(
+      (a, b) => (b.createdAt?.toMillis() ?? 0) - (a.createdAt?.toMillis() ?? 0)
+    );
+  }, [hosted, playing]);
+
+  return { openTournaments, myTournaments, loading, error };
+};
@@ -0,0 +1,72 @@
+/**
+ * Hook to drive live point-by-point scoring during a game
+ * Replays the shared rally log so every player's phone shows the same score
+ */
+
+import { useCallback, useMemo } from 'react';
+import { getLiveScoreState } from '@/lib/liveScoring';
+import { getGameFormat } from '@/lib/scoreValidation';
+import type { LiveScoreState } from '@/lib/liveScoring';
+import { recordRally, startLiveScoring, undoLastRally } from '@/services/lobbyService';
+import type { Lobby, ScoringSystem } from '@/types/lobby';
+
+interface UseLiveScoringReturn {
+  isActive: boolean;
+  system: ScoringSystem | null;
+  state: LiveScoreState | null;
+  rallyCount: number;
+  start: (system: ScoringSystem) => Promise<void>;
+  rallyWon: (team: 1 | 2) => Promise<void>;
+  undo: () => Promise<void>;
+}
+
+/**
+ * Manages the live scoring log for a lobby
+ * @param lobby - Lobby of the game in progress (or null while loading)
+ * @param userId - Current user's ID
+ * @returns Derived score state and scorer actions
+ */
+export const useLiveScoring = (
+  lobby: Lobby | null,
+  userId: string | undefined
+): UseLiveScoringReturn => {
+  const liveScoring = lobby?.liveScoring ?? null;
+  const gameMode = lobby?.gameMode ?? 'singles';
+  const format = lobby ? getGameFormat(lobby) : undefined;
+
+  // Lobby snapshots carry a new format object on every update; keep one per format
+  const gameFormat = useMemo(
+    () => (format ? { pointsToWin: format.pointsToWin, winBy: format.winBy, bestOf: format.bestOf } : undefined),
+    [format?.pointsToWin, format?.winBy, format?.bestOf]
+  );
+
+  const state = useMemo(() => {
+    if (!liveScoring) return null;
+    return getLiveScoreState(liveScoring.rallies, gameMode, liveScoring.system, gameFormat);
+  }, [liveScoring, gameMode, gameFormat]);
+
+  const start = useCallback(async (system: ScoringSystem): Promise<void> => {
+    if (!lobby || !userId) return;
+    await startLiveScoring(lobby.roomCode, userId, system);
+  }, [lobby, userId]);
+
+  const rallyWon = useCallback(async (team: 1 | 2): Promise<void> => {
+    if (!lobby || !userId || state?.isMatchOver) return;
+    await recordRally(lobby.roomCode, team, userId);
+  }, [lobby, userId, state?.isMatchOver]);
+
+  const undo = useCallback(async (): Promise<void> => {
+    if (!lobby) return;
+    await undoLastRally(lobby.roomCode);
+  }, [lobby]);
+
+  return {
+    isActive: !!liveScoring,
+    system: liveScoring?.system ?? null,
+    state,
+    rallyCount: liveScoring?.rallies.length ?? 0,
+    start,
+    rallyWon,
+    undo,
+  };
+};
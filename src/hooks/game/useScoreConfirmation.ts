@@ -0,0 +1,153 @@
+/**
+ * Hook to drive the score confirmation phase of a finished game
+ * Tracks who has confirmed, counts down the timeout and triggers settlement
+ */
+
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { completeMatch } from '@/lib/matchHistory';
+import {
+  MATCH_ALREADY_SETTLED_ERROR,
+  SCORE_CONFIRMATION_TIMEOUT_MS,
+  SCORE_NOT_READY_ERROR,
+  canSettleScore,
+  getLobbyPlayerIds,
+} from '@/lib/validation';
+import { getGameFormat } from '@/lib/scoreValidation';
+import { confirmScore, disputeScore } from '@/services/lobbyService';
+import type { GameScore, Lobby } from '@/types/lobby';
+
+// Wait before retrying a settlement that failed for a passing reason
+const SETTLE_RETRY_DELAY_MS = 5000;
+
+// Give up (and show the error) after this many tries of the same submission
+const MAX_SETTLE_ATTEMPTS = 5;
+
+// Callable error codes worth trying again (network, server load, contention)
+const TRANSIENT_ERROR_CODES = [
+  'functions/unavailable',
+  'functions/deadline-exceeded',
+  'functions/internal',
+  'functions/aborted',
+  'functions/resource-exhausted',
+  'functions/unknown',
+];
+
+/**
+ * Checks if a settlement failure may succeed on a later try.
+ * Permanent rejections (an invalid score, an unsupported format, teams that
+ * are not full) fail the same way every time.
+ */
+const isRetryableSettleError = (err: unknown): boolean => {
+  return err instanceof FirebaseError && (
+    TRANSIENT_ERROR_CODES.includes(err.code) ||
+    (err.code === 'functions/failed-precondition' && err.message === SCORE_NOT_READY_ERROR)
+  );
+};
+
+interface UseScoreConfirmationReturn {
+  playerIds: string[];
+  confirmedCount: number;
+  hasConfirmed: boolean;
+  isDisputed: boolean;
+  secondsRemaining: number;
+  settleError: string | null;  // Why settlement stopped, once it will not be retried
+  confirm: () => Promise<void>;
+  dispute: (games: GameScore[]) => Promise<void>;
+}
+
+/**
+ * Manages confirm/dispute actions and automatic settlement for a lobby
+ * @param lobby - Lobby in the confirmation phase (or null while loading)
+ * @param userId - Current user's ID
+ * @returns Confirmation progress and actions
+ */
+export const useScoreConfirmation = (
+  lobby: Lobby | null,
+  userId: string | undefined
+): UseScoreConfirmationReturn => {
+  const [now, setNow] = useState(Date.now());
+  const [settleError, setSettleError] = useState<string | null>(null);
+  const settlingKeyRef = useRef<string | null>(null);
+  const settleAttemptsRef = useRef({ key: '', count: 0 });
+
+  const playerIds = useMemo(() => (lobby ? getLobbyPlayerIds(lobby) : []), [lobby]);
+  const confirmations = lobby?.scoreConfirmations || {};
+  const confirmedCount = playerIds.filter((id) => confirmations[id] === true).length;
+  const hasConfirmed = !!userId && confirmations[userId] === true;
+  const isDisputed = lobby?.scoreStatus === 'disputed';
+  const isPending = lobby?.scoreStatus === 'pending' && !lobby.gameCompleted;
+
+  const submittedAtMs = lobby?.scoreSubmittedAt?.toMillis() ?? null;
+  const secondsRemaining = submittedAtMs
+    ? Math.max(0, Math.ceil((submittedAtMs + SCORE_CONFIRMATION_TIMEOUT_MS - now) / 1000))
+    : 0;
+
+  // Tick once per second while waiting so the countdown and timeout stay live
+  useEffect(() => {
+    if (!isPending) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isPending]);
+
+  // Settle once everyone confirmed or the timeout passed.
+  // Any player's device may trigger this; the server transaction rejects duplicates.
+  // Passing failures (the network, or this clock running ahead of the server's
+  // at the timeout) are retried after a short wait, a few times at most.
+  useEffect(() => {
+    if (!lobby || !submittedAtMs || !canSettleScore(lobby, now)) return;
+
+    const settlingKey = `${lobby.roomCode}-${submittedAtMs}`;
+    if (settlingKeyRef.current === settlingKey) return;
+    settlingKeyRef.current = settlingKey;
+
+    if (settleAttemptsRef.current.key !== settlingKey) {
+      settleAttemptsRef.current = { key: settlingKey, count: 0 };
+      setSettleError(null);
+    }
+    settleAttemptsRef.current.count += 1;
+
+    completeMatch(lobby).catch((err) => {
+      if (
+        err instanceof FirebaseError &&
+        err.code === 'functions/failed-precondition' &&
+        err.message === MATCH_ALREADY_SETTLED_ERROR
+      ) {
+        return; // Already settled by another player
+      }
+      console.error('Error settling match:', err);
+
+      if (!isRetryableSettleError(err) || settleAttemptsRef.current.count >= MAX_SETTLE_ATTEMPTS) {
+        setSettleError(err instanceof Error ? err.message : 'Failed to settle the match');
+        return;
+      }
+      setTimeout(() => {
+        if (settlingKeyRef.current === settlingKey) {
+          settlingKeyRef.current = null;
+        }
+      }, SETTLE_RETRY_DELAY_MS);
+    });
+  }, [lobby, now, submittedAtMs]);
+
+  const confirm = useCallback(async (): Promise<void> => {
+    if (!lobby || !userId) return;
+    await confirmScore(lobby.roomCode, userId, true);
+  }, [lobby, userId]);
+
+  const dispute = useCallback(async (games: GameScore[]): Promise<void> => {
+    if (!lobby || !userId) return;
+    await disputeScore(lobby.roomCode, userId, games, getGameFormat(lobby));
+  }, [lobby, userId]);
+
+  return {
+    playerIds,
+    confirmedCount,
+    hasConfirmed,
+    isDisputed,
+    secondsRemaining,
+    settleError,
+    confirm,
+    dispute,
+  };
+};
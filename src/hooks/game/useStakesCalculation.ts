@@ -6,7 +6,11 @@
 import { useState, useEffect } from 'react';
 import { doc, getDoc } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
-import { getTeamRating, calculatePointsChange } from '@/lib/points';
+import { getGameCategory, getRankingKey, getTeamProfile } from '@/lib/points';
+import { calculateMatchStakes } from '@/lib/ratingEngine';
+import type { SeatedPlayer } from '@/lib/points';
+import type { GameCategory, PlayerStake } from '@/types/lobby';
+import type { UserDocument } from '@/types/user';
 
 interface StakesData {
   team1Win: number;
@@ -15,28 +19,23 @@ interface StakesData {
   team2Loss: number;
   team1Avg: number;
   team2Avg: number;
+  playerStakes: { [playerId: string]: PlayerStake };
+  gameCategory: GameCategory | null;
   loading: boolean;
   error: Error | null;
 }
 
-interface PlayerData {
-  rating: number;
-  gamesPlayed: number;
-}
-
 /**
  * Calculates match stakes for both teams showing win/loss scenarios
  * @param team1PlayerIds - Array of player UIDs on team 1
  * @param team2PlayerIds - Array of player UIDs on team 2
  * @param gameMode - Game mode (singles or doubles)
- * @param gameCategory - Specific category for rating lookup
- * @returns Stakes data with points for all scenarios
+ * @returns Stakes data with team and per-player points for all scenarios
  */
 export const useStakesCalculation = (
   team1PlayerIds: string[],
   team2PlayerIds: string[],
-  gameMode: 'singles' | 'doubles',
-  gameCategory: 'singles' | 'same_gender_doubles' | 'mixed_doubles'
+  gameMode: 'singles' | 'doubles'
 ): StakesData => {
   const [stakesData, setStakesData] = useState<StakesData>({
     team1Win: 0,
@@ -45,12 +44,14 @@ export const useStakesCalculation = (
     team2Loss: 0,
     team1Avg: 0,
     team2Avg: 0,
+    playerStakes: {},
+    gameCategory: null,
     loading: true,
     error: null,
   });
 
   useEffect(() => {
-    const calculateStakes = async () => {
+    const loadStakes = async () => {
       try {
         setStakesData(prev => ({ ...prev, loading: true, error: null }));
 
@@ -66,79 +67,46 @@ export const useStakesCalculation = (
         }
 
         // Fetch player data from Firestore by UID
-        const fetchPlayerData = async (playerId: string): Promise<PlayerData> => {
+        const fetchPlayerData = async (playerId: string): Promise<UserDocument> => {
           const userDoc = await getDoc(doc(firestore, 'users', playerId));
           if (!userDoc.exists()) {
             throw new Error(`Player ${playerId} not found`);
           }
 
-          const userData = userDoc.data();
-          const rankings = userData.rankings || {};
-          const matchStats = userData.matchStats || {};
-
-          // Map game category to ranking key
-          const rankingKey = gameCategory === 'singles' ? 'singles' : 'sameGenderDoubles';
-
-          return {
-            rating: rankings[rankingKey] || 1000,
-            gamesPlayed: matchStats.totalMatches || 0,
-          };
+          return userDoc.data() as UserDocument;
         };
 
         // Fetch data for all players
-        const [team1Data, team2Data] = await Promise.all([
+        const [team1Users, team2Users] = await Promise.all([
           Promise.all(validTeam1Ids.map(fetchPlayerData)),
           Promise.all(validTeam2Ids.map(fetchPlayerData)),
         ]);
 
-        // Calculate team averages
-        const team1Ratings = team1Data.map(p => p.rating);
-        const team2Ratings = team2Data.map(p => p.rating);
-        const team1Games = team1Data.map(p => p.gamesPlayed);
-        const team2Games = team2Data.map(p => p.gamesPlayed);
-
-        const team1Avg = gameMode === 'singles' 
-          ? team1Ratings[0]
-          : getTeamRating(team1Ratings[0], team1Ratings[1]);
-        
-        const team2Avg = gameMode === 'singles'
-          ? team2Ratings[0]
-          : getTeamRating(team2Ratings[0], team2Ratings[1]);
-
-        const team1AvgGames = gameMode === 'singles'
-          ? team1Games[0]
-          : Math.round((team1Games[0] + team1Games[1]) / 2);
-
-        const team2AvgGames = gameMode === 'singles'
-          ? team2Games[0]
-          : Math.round((team2Games[0] + team2Games[1]) / 2);
-
-        // Calculate points for both scenarios
-        // Team 1 wins
-        const team1WinPoints = calculatePointsChange(
-          team1Avg,
-          team2Avg,
-          team1AvgGames,
-          team2AvgGames,
-          false
+        // Rating track follows the players' genders, same as settlement
+        const gameCategory = getGameCategory(
+          gameMode,
+          [...team1Users, ...team2Users].map((u) => u.gender)
         );
+        const rankingKey = getRankingKey(gameCategory);
+
+        const toSeatedPlayer = (uid: string, userData: UserDocument): SeatedPlayer => ({
+          uid,
+          rating: userData.rankings?.[rankingKey] || 1000,
+          gamesPlayed: userData.matchStats?.totalMatches || 0,
+          deviation: userData.rankingDeviations?.[rankingKey],
+          volatility: userData.rankingVolatilities?.[rankingKey],
+        });
 
-        // Team 2 wins
-        const team2WinPoints = calculatePointsChange(
-          team2Avg,
-          team1Avg,
-          team2AvgGames,
-          team1AvgGames,
-          false
-        );
+        const team1Data = team1Users.map((u, i) => toSeatedPlayer(validTeam1Ids[i], u));
+        const team2Data = team2Users.map((u, i) => toSeatedPlayer(validTeam2Ids[i], u));
+        const { players, ...teamStakes } = calculateMatchStakes(team1Data, team2Data);
 
         setStakesData({
-          team1Win: team1WinPoints,
-          team1Loss: team2WinPoints, // What team 1 loses if team 2 wins
-          team2Win: team2WinPoints,
-          team2Loss: team1WinPoints, // What team 2 loses if team 1 wins
-          team1Avg,
-          team2Avg,
+          ...teamStakes,
+          playerStakes: players,
+          team1Avg: getTeamProfile(team1Data).rating,
+          team2Avg: getTeamProfile(team2Data).rating,
+          gameCategory,
           loading: false,
           error: null,
         });
@@ -152,8 +120,8 @@ export const useStakesCalculation = (
       }
     };
 
-    calculateStakes();
-  }, [team1PlayerIds, team2PlayerIds, gameMode, gameCategory]);
+    loadStakes();
+  }, [team1PlayerIds, team2PlayerIds, gameMode]);
 
   return stakesData;
 };
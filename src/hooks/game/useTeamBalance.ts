@@ -0,0 +1,74 @@
+/**
+ * Hook to rank the possible doubles pairings of a full lobby
+ * Reads each player's gender and ratings so every pairing is rated on its own track
+ */
+
+import { useState, useEffect } from 'react';
+import { doc, getDoc } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { getTeamPairings } from '@/lib/teamBalance';
+import type { BalancePlayer, TeamPairing } from '@/lib/teamBalance';
+import type { Lobby, Player } from '@/types/lobby';
+import type { UserDocument } from '@/types/user';
+
+interface UseTeamBalanceReturn {
+  pairings: TeamPairing[];
+  loading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Calculates the three doubles pairings of a full lobby, best balanced first
+ * @param lobby - Doubles lobby with all four slots filled
+ * @param enabled - Only fetch ratings while the result is being shown
+ * @returns Pairings, loading state and error
+ */
+export const useTeamBalance = (lobby: Lobby | null, enabled: boolean): UseTeamBalanceReturn => {
+  const [pairings, setPairings] = useState<TeamPairing[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+
+  const seatedPlayers = lobby
+    ? [lobby.team1.player1, lobby.team1.player2, lobby.team2.player1, lobby.team2.player2]
+    : [];
+  const playerKey = seatedPlayers.map((p) => p?.uid ?? '').join(',');
+
+  useEffect(() => {
+    const players = seatedPlayers.filter((p): p is Player => !!p?.uid);
+    if (!enabled || lobby?.gameMode !== 'doubles' || players.length !== 4) {
+      setPairings([]);
+      return;
+    }
+
+    const loadPairings = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const users = await Promise.all(
+          players.map(async (player) => {
+            const userDoc = await getDoc(doc(firestore, 'users', player.uid));
+            return userDoc.data() as UserDocument | undefined;
+          })
+        );
+
+        const balancePlayers = players.map((player, i): BalancePlayer => ({
+          player,
+          gender: users[i]?.gender,
+          rankings: users[i]?.rankings,
+        }));
+
+        setPairings(getTeamPairings(balancePlayers as [BalancePlayer, BalancePlayer, BalancePlayer, BalancePlayer]));
+      } catch (err) {
+        console.error('Error balancing teams:', err);
+        setError(err instanceof Error ? err : new Error('Failed to balance teams'));
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadPairings();
+  }, [enabled, lobby?.gameMode, playerKey]);
+
+  return { pairings, loading, error };
+};
@@ -0,0 +1,109 @@
+import {
+  getCareerCountKey,
+  getNextStreak,
+  getWinRate,
+  hasCareerBreakdown,
+  summarizeCareer,
+} from '../careerStats';
+import type { MatchHistoryRecord } from '@/types/user';
+
+const record = (
+  gameType: MatchHistoryRecord['gameType'],
+  result: MatchHistoryRecord['result']
+): MatchHistoryRecord => ({
+  id: 'm',
+  gameId: 'm',
+  playerId: 'me',
+  gameType,
+  gameCategory: gameType === 'singles' ? 'singles' : 'same_gender_doubles',
+  result,
+  pointsChange: result === 'win' ? 10 : -10,
+  opponentNames: [],
+  status: 'confirmed',
+  createdAt: new Date(2026, 0, 1),
+});
+
+describe('Career Stats', () => {
+  describe('getCareerCountKey', () => {
+    it.each([
+      ['singles', true, 'singlesWins'],
+      ['singles', false, 'singlesLosses'],
+      ['doubles', true, 'doublesWins'],
+      ['doubles', false, 'doublesLosses'],
+    ] as const)('counts a %s match (won: %s) under %s', (gameType, isWinner, key) => {
+      expect(getCareerCountKey(gameType, isWinner)).toBe(key);
+    });
+  });
+
+  describe('getNextStreak', () => {
+    it.each([
+      [0, true, 1],
+      [3, true, 4],
+      [-2, true, 1],
+      [0, false, -1],
+      [-2, false, -3],
+      [5, false, -1],
+    ])('goes from %i after a match (won: %s) to %i', (current, isWinner, next) => {
+      expect(getNextStreak(current, isWinner)).toBe(next);
+    });
+  });
+
+  describe('summarizeCareer', () => {
+    it('starts from zero with no matches', () => {
+      expect(summarizeCareer([])).toEqual({
+        totalMatches: 0,
+        wins: 0,
+        losses: 0,
+        singlesWins: 0,
+        singlesLosses: 0,
+        doublesWins: 0,
+        doublesLosses: 0,
+        currentStreak: 0,
+        bestWinStreak: 0,
+      });
+    });
+
+    it('replays records oldest first into totals, breakdown and streaks', () => {
+      const stats = summarizeCareer([
+        record('singles', 'win'),
+        record('doubles', 'win'),
+        record('doubles', 'win'),
+        record('singles', 'loss'),
+        record('doubles', 'win'),
+        record('doubles', 'loss'),
+        record('singles', 'loss'),
+      ]);
+
+      expect(stats).toEqual({
+        totalMatches: 7,
+        wins: 4,
+        losses: 3,
+        singlesWins: 1,
+        singlesLosses: 2,
+        doublesWins: 3,
+        doublesLosses: 1,
+        currentStreak: -2,
+        bestWinStreak: 3,
+      });
+    });
+  });
+
+  describe('getWinRate', () => {
+    it('rounds to a whole percentage', () => {
+      expect(getWinRate(2, 1)).toBe(67);
+      expect(getWinRate(1, 0)).toBe(100);
+    });
+
+    it('is 0 before any matches', () => {
+      expect(getWinRate(0, 0)).toBe(0);
+    });
+  });
+
+  describe('hasCareerBreakdown', () => {
+    it('needs a stored best win streak', () => {
+      expect(hasCareerBreakdown(undefined)).toBe(false);
+      expect(hasCareerBreakdown({ totalMatches: 3, wins: 2, losses: 1 })).toBe(false);
+      expect(hasCareerBreakdown({ totalMatches: 3, wins: 2, losses: 1, bestWinStreak: 0 })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import {
+  canJoinDirectly,
+  canManageClub,
+  getClubRole,
+  getClubsForMatch,
+  rankClubStandings,
+} from '../club';
+import type { Timestamp } from 'firebase/firestore';
+import type { ClubStanding } from '@/types/club';
+
+const club = {
+  ownerId: 'owner',
+  adminIds: ['owner', 'admin'],
+  memberIds: ['owner', 'admin', 'member'],
+};
+
+const standing = (uid: string, wins: number, matches: number, ratingGain = 0): ClubStanding => ({
+  uid,
+  username: uid,
+  displayName: uid.toUpperCase(),
+  wins,
+  losses: matches - wins,
+  matches,
+  ratingGain,
+  updatedAt: { toMillis: () => 0 } as Timestamp,
+});
+
+describe('Club Rules', () => {
+  describe('getClubRole', () => {
+    it.each([
+      ['owner', 'owner'],
+      ['admin', 'admin'],
+      ['member', 'member'],
+      ['stranger', null],
+    ])('gives %s the role %s', (uid, role) => {
+      expect(getClubRole(club, uid)).toBe(role);
+    });
+
+    it('gives no role to an admin who has left', () => {
+      expect(getClubRole({ ...club, memberIds: ['owner', 'member'] }, 'admin')).toBeNull();
+    });
+  });
+
+  describe('canManageClub', () => {
+    it('lets the owner and admins manage members', () => {
+      expect(canManageClub(club, 'owner')).toBe(true);
+      expect(canManageClub(club, 'admin')).toBe(true);
+      expect(canManageClub(club, 'member')).toBe(false);
+      expect(canManageClub(club, 'stranger')).toBe(false);
+    });
+  });
+
+  describe('canJoinDirectly', () => {
+    it('lets anyone into an open club', () => {
+      expect(canJoinDirectly({ joinPolicy: 'open', invitedIds: [] }, 'me')).toBe(true);
+    });
+
+    it.each(['request', 'invite'] as const)('needs an invite to skip asking when the policy is %s', (joinPolicy) => {
+      expect(canJoinDirectly({ joinPolicy, invitedIds: ['me'] }, 'me')).toBe(true);
+      expect(canJoinDirectly({ joinPolicy, invitedIds: ['other'] }, 'me')).toBe(false);
+    });
+  });
+
+  describe('getClubsForMatch', () => {
+    it('keeps the clubs every player belongs to', () => {
+      const clubs = [
+        { id: 'both', memberIds: ['a', 'b', 'c'] },
+        { id: 'one', memberIds: ['a'] },
+        { id: 'doubles', memberIds: ['a', 'b', 'c', 'd'] },
+      ];
+
+      expect(getClubsForMatch(clubs, ['a', 'b']).map((c) => c.id)).toEqual(['both', 'doubles']);
+      expect(getClubsForMatch(clubs, ['a', 'b', 'c', 'd']).map((c) => c.id)).toEqual(['doubles']);
+    });
+  });
+
+  describe('rankClubStandings', () => {
+    it('orders by wins, then win rate, then rating gained', () => {
+      const ranked = rankClubStandings([
+        standing('slow', 5, 10),
+        standing('gainer', 3, 4, 40),
+        standing('best', 6, 8),
+        standing('sharp', 5, 6),
+        standing('steady', 3, 4, 10),
+      ], ['slow', 'gainer', 'best', 'sharp', 'steady']);
+
+      expect(ranked.map((s) => s.uid)).toEqual(['best', 'sharp', 'slow', 'gainer', 'steady']);
+    });
+
+    it('drops players who have left the club', () => {
+      const ranked = rankClubStandings([standing('gone', 9, 9), standing('here', 1, 2)], ['here']);
+      expect(ranked.map((s) => s.uid)).toEqual(['here']);
+    });
+
+    it('ranks players without matches last', () => {
+      const ranked = rankClubStandings([standing('new', 0, 0), standing('played', 0, 3, 5)], ['new', 'played']);
+      expect(ranked.map((s) => s.uid)).toEqual(['played', 'new']);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import {
+  DEFAULT_DEVIATION,
+  DEFAULT_VOLATILITY,
+  MIN_DEVIATION,
+  PROVISIONAL_DEVIATION,
+  estimateDeviation,
+  getTeamGlicko2,
+  isProvisionalDeviation,
+  updateGlicko2,
+} from '../glicko2';
+import type { Glicko2Rating } from '../glicko2';
+
+const newPlayer: Glicko2Rating = { rating: 1000, deviation: DEFAULT_DEVIATION, volatility: DEFAULT_VOLATILITY };
+
+describe('Glicko-2', () => {
+  describe('updateGlicko2', () => {
+    // Glickman's worked example (1500 / 200 / 0.06 against 1400 / 30), shifted
+    // to the app's 1000 centre. Expected values follow the paper's algorithm.
+    const player: Glicko2Rating = { rating: 1000, deviation: 200, volatility: 0.06 };
+    const opponent: Glicko2Rating = { rating: 900, deviation: 30, volatility: 0.06 };
+
+    it('matches the reference example for a win', () => {
+      const result = updateGlicko2(player, opponent, 1);
+      expect(result.rating).toBeCloseTo(1063.56, 1);
+      expect(result.deviation).toBeCloseTo(175.40, 1);
+      expect(result.volatility).toBeCloseTo(0.06, 4);
+    });
+
+    it('matches the reference example for a loss', () => {
+      const result = updateGlicko2(player, { rating: 1050, deviation: 100, volatility: 0.06 }, 0);
+      expect(result.rating).toBeCloseTo(926.69, 1);
+      expect(result.deviation).toBeCloseTo(175.90, 1);
+    });
+
+    it('gains more for beating a stronger opponent', () => {
+      const weaker = updateGlicko2(newPlayer, { ...newPlayer, rating: 900 }, 1);
+      const stronger = updateGlicko2(newPlayer, { ...newPlayer, rating: 1100 }, 1);
+      expect(stronger.rating - 1000).toBeGreaterThan(weaker.rating - 1000);
+    });
+
+    it('moves uncertain players further than established ones', () => {
+      const established = { ...newPlayer, deviation: 60 };
+      const uncertainGain = updateGlicko2(newPlayer, newPlayer, 1).rating - 1000;
+      const establishedGain = updateGlicko2(established, newPlayer, 1).rating - 1000;
+      expect(uncertainGain).toBeGreaterThan(establishedGain);
+    });
+
+    it('settles on a stable rating as games are played', () => {
+      let current = newPlayer;
+      const changes: number[] = [];
+      for (let i = 0; i < 40; i++) {
+        const next = updateGlicko2(current, { rating: 1000, deviation: 60, volatility: 0.06 }, i % 2 === 0 ? 1 : 0);
+        changes.push(Math.abs(next.rating - current.rating));
+        expect(next.deviation).toBeLessThanOrEqual(current.deviation);
+        current = next;
+      }
+
+      expect(changes[changes.length - 1]).toBeLessThan(changes[0] / 4);
+      expect(current.rating).toBeGreaterThan(950);
+      expect(current.rating).toBeLessThan(1050);
+      expect(isProvisionalDeviation(current.deviation)).toBe(false);
+    });
+
+    it('converges on a volatility for a large upset', () => {
+      const result = updateGlicko2({ rating: 600, deviation: 40, volatility: 0.06 }, { rating: 1600, deviation: 40, volatility: 0.06 }, 1);
+      expect(Number.isFinite(result.volatility)).toBe(true);
+      expect(result.volatility).toBeGreaterThan(0.06);
+      expect(result.rating).toBeGreaterThan(600);
+    });
+
+    it('keeps deviation between the minimum and the default', () => {
+      let current: Glicko2Rating = { rating: 1000, deviation: MIN_DEVIATION, volatility: 0.0001 };
+      for (let i = 0; i < 10; i++) {
+        current = updateGlicko2(current, { rating: 1000, deviation: MIN_DEVIATION, volatility: 0.06 }, 1);
+      }
+      expect(current.deviation).toBeGreaterThanOrEqual(MIN_DEVIATION);
+
+      const unknown = updateGlicko2({ ...newPlayer, deviation: 500 }, newPlayer, 1);
+      expect(unknown.deviation).toBeLessThanOrEqual(DEFAULT_DEVIATION);
+    });
+  });
+
+  describe('getTeamGlicko2', () => {
+    it('returns a single player unchanged', () => {
+      expect(getTeamGlicko2([newPlayer])).toBe(newPlayer);
+    });
+
+    it('averages ratings and combines deviations as a root mean square', () => {
+      const team = getTeamGlicko2([
+        { rating: 900, deviation: 60, volatility: 0.05 },
+        { rating: 1100, deviation: 80, volatility: 0.07 },
+      ]);
+      expect(team.rating).toBe(1000);
+      expect(team.deviation).toBeCloseTo(Math.sqrt((60 * 60 + 80 * 80) / 2), 6);
+      expect(team.volatility).toBeCloseTo(0.06, 6);
+    });
+  });
+
+  describe('provisional threshold', () => {
+    it('treats deviations above the threshold as provisional', () => {
+      expect(isProvisionalDeviation(PROVISIONAL_DEVIATION + 0.01)).toBe(true);
+      expect(isProvisionalDeviation(PROVISIONAL_DEVIATION)).toBe(false);
+      expect(isProvisionalDeviation(MIN_DEVIATION)).toBe(false);
+    });
+
+    it('estimates the default deviation for a player with no games', () => {
+      expect(estimateDeviation(0)).toBe(DEFAULT_DEVIATION);
+      expect(isProvisionalDeviation(estimateDeviation(0))).toBe(true);
+    });
+
+    it('estimates a shrinking deviation that leaves provisional and stops at a floor', () => {
+      expect(estimateDeviation(10)).toBeLessThan(estimateDeviation(5));
+      expect(isProvisionalDeviation(estimateDeviation(50))).toBe(false);
+      expect(estimateDeviation(100000)).toBe(2 * MIN_DEVIATION);
+    });
+  });
+});
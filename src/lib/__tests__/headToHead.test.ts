@@ -0,0 +1,119 @@
+import {
+  RECENT_MEETINGS_COUNT,
+  getBestPartners,
+  getScoreMargin,
+  summarizeHeadToHead,
+} from '../headToHead';
+import type { MatchHistoryRecord } from '@/types/user';
+
+const record = (id: string, fields: Partial<MatchHistoryRecord> = {}): MatchHistoryRecord => ({
+  id,
+  gameId: id,
+  playerId: 'me',
+  gameType: 'singles',
+  gameCategory: 'singles',
+  result: 'win',
+  pointsChange: 10,
+  opponentIds: ['them'],
+  opponentNames: ['Them'],
+  status: 'confirmed',
+  score: { team1: 11, team2: 7 },
+  createdAt: new Date(2026, 0, Number(id.replace(/\D/g, '')) || 1),
+  ...fields,
+});
+
+describe('Head-to-Head', () => {
+  describe('getScoreMargin', () => {
+    it('is positive for a win and negative for a loss', () => {
+      expect(getScoreMargin(record('m1'))).toBe(4);
+      expect(getScoreMargin(record('m2', { result: 'loss' }))).toBe(-4);
+    });
+
+    it('works out the player side when they were on team 2', () => {
+      expect(getScoreMargin(record('m1', { score: { team1: 6, team2: 11 } }))).toBe(5);
+      expect(getScoreMargin(record('m2', { result: 'loss', score: { team1: 11, team2: 9 } }))).toBe(-2);
+    });
+
+    it('totals every game of a best-of-N match', () => {
+      const bestOf3 = record('m1', {
+        score: { team1: 2, team2: 1 },
+        games: [{ team1: 11, team2: 4 }, { team1: 9, team2: 11 }, { team1: 11, team2: 8 }],
+      });
+      expect(getScoreMargin(bestOf3)).toBe(8);
+    });
+
+    it('is 0 without a score', () => {
+      expect(getScoreMargin(record('m1', { score: undefined }))).toBe(0);
+    });
+  });
+
+  describe('summarizeHeadToHead', () => {
+    it('counts the record and average margin against the opponent', () => {
+      const stats = summarizeHeadToHead(
+        [record('m1'), record('m2'), record('m3', { result: 'loss', score: { team1: 11, team2: 4 } })],
+        []
+      );
+      expect(stats).toMatchObject({ wins: 2, losses: 1, partnerWins: 0, partnerLosses: 0 });
+      expect(stats.averageMargin).toBeCloseTo((4 + 4 - 7) / 3, 1);
+    });
+
+    it('has no average margin without meetings', () => {
+      expect(summarizeHeadToHead([], []).averageMargin).toBeNull();
+    });
+
+    it('counts results as partners separately', () => {
+      const stats = summarizeHeadToHead([], [record('m1'), record('m2', { result: 'loss' }), record('m3')]);
+      expect(stats).toMatchObject({ wins: 0, losses: 0, partnerWins: 2, partnerLosses: 1 });
+    });
+
+    it('lists the most recent meetings of either kind, newest first', () => {
+      const opponents = [1, 3, 5, 7].map((day) => record(`m${day}`));
+      const partners = [2, 4, 6].map((day) => record(`m${day}`));
+      const { recentMeetings } = summarizeHeadToHead(opponents, partners);
+
+      expect(recentMeetings).toHaveLength(RECENT_MEETINGS_COUNT);
+      expect(recentMeetings.map((m) => [m.matchId, m.relation])).toEqual([
+        ['m7', 'opponent'],
+        ['m6', 'partner'],
+        ['m5', 'opponent'],
+        ['m4', 'partner'],
+        ['m3', 'opponent'],
+      ]);
+    });
+
+    it('reads Firestore timestamps as dates', () => {
+      const date = new Date(2026, 5, 1);
+      const stamped = record('m1', { createdAt: { toDate: () => date } as unknown as Date });
+      expect(summarizeHeadToHead([stamped], []).recentMeetings[0].createdAt).toEqual(date);
+    });
+  });
+
+  describe('getBestPartners', () => {
+    const doubles = (id: string, partnerId: string, result: MatchHistoryRecord['result']) =>
+      record(id, { gameType: 'doubles', partnerId, partnerName: partnerId.toUpperCase(), result });
+
+    it('ranks partners by win rate, then by matches together', () => {
+      const partners = getBestPartners([
+        doubles('m1', 'a', 'win'),
+        doubles('m2', 'a', 'loss'),
+        doubles('m3', 'b', 'win'),
+        doubles('m4', 'b', 'win'),
+        doubles('m5', 'c', 'win'),
+        doubles('m6', 'c', 'win'),
+        doubles('m7', 'c', 'win'),
+      ]);
+
+      expect(partners.map((p) => [p.partnerId, p.wins, p.losses, p.winRate])).toEqual([
+        ['c', 3, 0, 100],
+        ['b', 2, 0, 100],
+        ['a', 1, 1, 50],
+      ]);
+    });
+
+    it('leaves out partners with too few matches together and singles records', () => {
+      const partners = getBestPartners([doubles('m1', 'a', 'win'), record('m2'), record('m3')]);
+      expect(partners).toEqual([]);
+      expect(getBestPartners([doubles('m1', 'a', 'win')], 1)).toHaveLength(1);
+    });
+  });
+});
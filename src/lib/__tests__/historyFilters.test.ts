@@ -0,0 +1,101 @@
+import {
+  EMPTY_HISTORY_FILTERS,
+  getDateRangeStart,
+  getHistoryPlayers,
+  hasHistoryFilters,
+  toMatchHistoryFilters,
+} from '../historyFilters';
+import type { MatchHistoryRecord } from '@/types/user';
+
+const record = (id: string, fields: Partial<MatchHistoryRecord> = {}): MatchHistoryRecord => ({
+  id,
+  gameId: id,
+  playerId: 'me',
+  gameType: 'doubles',
+  gameCategory: 'same_gender_doubles',
+  result: 'win',
+  pointsChange: 10,
+  opponentIds: [],
+  opponentNames: [],
+  status: 'confirmed',
+  createdAt: new Date(2026, 0, 1),
+  ...fields,
+});
+
+const now = new Date(2026, 5, 15, 12);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('History Filters', () => {
+  describe('getDateRangeStart', () => {
+    it.each([
+      ['30d', new Date(now.getTime() - 30 * DAY_MS)],
+      ['90d', new Date(now.getTime() - 90 * DAY_MS)],
+      ['year', new Date(2026, 0, 1)],
+      ['all', undefined],
+    ] as const)('starts %s at %s', (range, start) => {
+      expect(getDateRangeStart(range, now)).toEqual(start);
+    });
+  });
+
+  describe('getHistoryPlayers', () => {
+    it('lists opponents and partners, most often met first', () => {
+      const players = getHistoryPlayers([
+        record('m1', { opponentIds: ['a', 'b'], opponentNames: ['Ana', 'Ben'], partnerId: 'c', partnerName: 'Cy' }),
+        record('m2', { opponentIds: ['b', 'c'], opponentNames: ['Ben', 'Cy'], partnerId: 'a', partnerName: 'Ana' }),
+        record('m3', { opponentIds: ['b'], opponentNames: ['Ben'] }),
+      ]);
+
+      expect(players).toEqual([
+        { uid: 'b', name: 'Ben', matches: 3 },
+        { uid: 'a', name: 'Ana', matches: 2 },
+        { uid: 'c', name: 'Cy', matches: 2 },
+      ]);
+    });
+
+    it('names players without a stored name Unknown', () => {
+      const players = getHistoryPlayers([record('m1', { opponentIds: ['a'], opponentNames: [], partnerId: 'b' })]);
+      expect(players.map((p) => p.name)).toEqual(['Unknown', 'Unknown']);
+    });
+
+    it('skips records without opponent IDs', () => {
+      expect(getHistoryPlayers([record('m1', { opponentIds: undefined, opponentNames: ['Old'] })])).toEqual([]);
+    });
+  });
+
+  describe('toMatchHistoryFilters', () => {
+    const player = { uid: 'a', name: 'Ana', matches: 2 };
+
+    it('returns no filters for an empty filter bar', () => {
+      expect(toMatchHistoryFilters(EMPTY_HISTORY_FILTERS, now)).toEqual({});
+    });
+
+    it('converts every selection', () => {
+      expect(toMatchHistoryFilters({
+        category: 'mixed_doubles',
+        result: 'loss',
+        player,
+        relation: 'partner',
+        dateRange: 'year',
+      }, now)).toEqual({
+        category: 'mixed_doubles',
+        result: 'loss',
+        otherPlayerId: 'a',
+        relation: 'partner',
+        from: new Date(2026, 0, 1),
+      });
+    });
+
+    it('ignores a relation without a player', () => {
+      expect(toMatchHistoryFilters({ relation: 'opponent', dateRange: 'all' }, now)).toEqual({});
+      expect(toMatchHistoryFilters({ player, dateRange: 'all' }, now)).toEqual({ otherPlayerId: 'a' });
+    });
+  });
+
+  describe('hasHistoryFilters', () => {
+    it('is false only when nothing is selected', () => {
+      expect(hasHistoryFilters(EMPTY_HISTORY_FILTERS)).toBe(false);
+      expect(hasHistoryFilters({ dateRange: '30d' })).toBe(true);
+      expect(hasHistoryFilters({ result: 'win', dateRange: 'all' })).toBe(true);
+    });
+  });
+});
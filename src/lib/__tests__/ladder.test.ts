@@ -0,0 +1,118 @@
+import {
+  applyChallengeResult,
+  getChallengeError,
+  getChallengeExpiry,
+  getNextSeasonRungs,
+  getRung,
+  isChallengeOpen,
+} from '../ladder';
+import type { Timestamp } from 'firebase/firestore';
+import type { LadderChallenge } from '@/types/ladder';
+
+const NOW = Date.UTC(2026, 5, 1);
+const at = (ms: number) => ({ toMillis: () => ms }) as Timestamp;
+
+const challenge = (
+  challengerId: string,
+  defenderId: string,
+  fields: Partial<LadderChallenge> = {}
+): LadderChallenge => ({
+  id: `${challengerId}-${defenderId}`,
+  challengerId,
+  defenderId,
+  playerIds: [challengerId, defenderId],
+  season: 1,
+  status: 'pending',
+  createdAt: at(NOW),
+  expiresAt: at(NOW + 1000),
+  ...fields,
+});
+
+// a holds the top rung
+const rungs = ['a', 'b', 'c', 'd', 'e', 'f'];
+
+describe('Ladder Rules', () => {
+  describe('getRung', () => {
+    it('is 1-based, or null off the ladder', () => {
+      expect(getRung(rungs, 'a')).toBe(1);
+      expect(getRung(rungs, 'f')).toBe(6);
+      expect(getRung(rungs, 'z')).toBeNull();
+    });
+  });
+
+  describe('isChallengeOpen', () => {
+    it('keeps pending challenges open until they expire', () => {
+      expect(isChallengeOpen(challenge('b', 'a'), NOW)).toBe(true);
+      expect(isChallengeOpen(challenge('b', 'a'), NOW + 1000)).toBe(false);
+    });
+
+    it('keeps accepted challenges open past the deadline', () => {
+      expect(isChallengeOpen(challenge('b', 'a', { status: 'accepted' }), NOW + 5000)).toBe(true);
+    });
+
+    it.each(['completed', 'declined', 'cancelled', 'expired'] as const)('treats %s challenges as closed', (status) => {
+      expect(isChallengeOpen(challenge('b', 'a', { status }), NOW)).toBe(false);
+    });
+  });
+
+  describe('getChallengeExpiry', () => {
+    it('adds the challenge window in days', () => {
+      expect(getChallengeExpiry(NOW, 7)).toBe(NOW + 7 * 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('getChallengeError', () => {
+    const ladder = { rungs, challengeRange: 3 };
+
+    it('allows challenges up to the range above', () => {
+      expect(getChallengeError(ladder, 'e', 'b', [])).toBeNull();
+      expect(getChallengeError(ladder, 'b', 'a', [])).toBeNull();
+    });
+
+    it.each([
+      ['z', 'a', 'Join the ladder to challenge'],
+      ['b', 'z', 'This player is not on the ladder'],
+      ['b', 'b', "You can't challenge yourself"],
+      ['a', 'b', 'You can only challenge players above you'],
+      ['f', 'b', 'You can challenge up to 3 rungs above you'],
+    ])('stops %s challenging %s: %s', (challengerId, defenderId, error) => {
+      expect(getChallengeError(ladder, challengerId, defenderId, [])).toBe(error);
+    });
+
+    it('allows one open challenge per player', () => {
+      expect(getChallengeError(ladder, 'd', 'b', [challenge('d', 'c')])).toBe('You already have an open challenge');
+      expect(getChallengeError(ladder, 'd', 'b', [challenge('c', 'b')])).toBe('This player already has an open challenge');
+      expect(getChallengeError(ladder, 'd', 'b', [challenge('f', 'e')])).toBeNull();
+    });
+  });
+
+  describe('applyChallengeResult', () => {
+    it('swaps rungs when the challenger wins', () => {
+      expect(applyChallengeResult(rungs, 'e', 'b', 'e')).toEqual(['a', 'e', 'c', 'd', 'b', 'f']);
+    });
+
+    it('changes nothing when the defender wins', () => {
+      expect(applyChallengeResult(rungs, 'e', 'b', 'b')).toBe(rungs);
+    });
+
+    it('changes nothing if a player left or the challenger is already above', () => {
+      expect(applyChallengeResult(rungs, 'z', 'b', 'z')).toBe(rungs);
+      expect(applyChallengeResult(rungs, 'a', 'b', 'a')).toBe(rungs);
+    });
+  });
+
+  describe('getNextSeasonRungs', () => {
+    it('re-seeds everyone by rating on reset, keeping the order on ties', () => {
+      const next = getNextSeasonRungs(
+        { rungs, activeIds: [], seasonMode: 'reset' },
+        { a: 1000, b: 1200, c: 1100, d: 1100, e: 900 }
+      );
+      expect(next).toEqual(['b', 'c', 'd', 'a', 'e', 'f']);
+    });
+
+    it('drops inactive members below active ones on decay, keeping each group in order', () => {
+      const next = getNextSeasonRungs({ rungs, activeIds: ['f', 'b', 'd'], seasonMode: 'decay' }, {});
+      expect(next).toEqual(['b', 'd', 'f', 'a', 'c', 'e']);
+    });
+  });
+});
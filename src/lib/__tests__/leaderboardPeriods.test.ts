@@ -0,0 +1,103 @@
+import {
+  formatPeriodValue,
+  getCalendarPeriods,
+  getMonthlyPeriod,
+  getOrdinal,
+  getPeriodField,
+  getPeriodValue,
+  getQuarterlyPeriod,
+  parseCategoryFilter,
+} from '../leaderboardPeriods';
+
+describe('Leaderboard Periods', () => {
+  describe('getMonthlyPeriod', () => {
+    it('covers the calendar month in UTC', () => {
+      expect(getMonthlyPeriod(Date.UTC(2026, 9, 19, 15))).toEqual({
+        id: '2026-10',
+        type: 'monthly',
+        label: 'October 2026',
+        startMs: Date.UTC(2026, 9, 1),
+        endMs: Date.UTC(2026, 10, 1),
+      });
+    });
+
+    it('includes the first instant of the month and rolls over the year', () => {
+      expect(getMonthlyPeriod(Date.UTC(2026, 11, 1)).id).toBe('2026-12');
+      expect(getMonthlyPeriod(Date.UTC(2026, 11, 31, 23, 59)).endMs).toBe(Date.UTC(2027, 0, 1));
+      expect(getMonthlyPeriod(Date.UTC(2027, 0, 1)).id).toBe('2027-01');
+    });
+  });
+
+  describe('getQuarterlyPeriod', () => {
+    it.each([
+      [Date.UTC(2026, 0, 1), '2026-Q1', Date.UTC(2026, 0, 1), Date.UTC(2026, 3, 1)],
+      [Date.UTC(2026, 2, 31, 23), '2026-Q1', Date.UTC(2026, 0, 1), Date.UTC(2026, 3, 1)],
+      [Date.UTC(2026, 3, 1), '2026-Q2', Date.UTC(2026, 3, 1), Date.UTC(2026, 6, 1)],
+      [Date.UTC(2026, 11, 15), '2026-Q4', Date.UTC(2026, 9, 1), Date.UTC(2027, 0, 1)],
+    ])('puts %i in %s', (nowMs, id, startMs, endMs) => {
+      expect(getQuarterlyPeriod(nowMs)).toMatchObject({ id, type: 'quarterly', startMs, endMs });
+    });
+
+    it('labels the quarter', () => {
+      expect(getQuarterlyPeriod(Date.UTC(2026, 7, 1)).label).toBe('Q3 2026');
+    });
+  });
+
+  describe('getCalendarPeriods', () => {
+    it('returns the month and the quarter', () => {
+      expect(getCalendarPeriods(Date.UTC(2026, 4, 5)).map((p) => p.id)).toEqual(['2026-05', '2026-Q2']);
+    });
+  });
+
+  describe('period totals', () => {
+    const entry = { ratingGain: { singles: 42, mixedDoubles: -8 }, wins: { singles: 3 } };
+
+    it('builds the field a leaderboard is ordered by', () => {
+      expect(getPeriodField('rating_gain', 'singles')).toBe('ratingGain.singles');
+      expect(getPeriodField('wins', 'same_gender_doubles')).toBe('wins.sameGenderDoubles');
+      expect(getPeriodField('wins', 'mixed_doubles')).toBe('wins.mixedDoubles');
+    });
+
+    it('reads a total, or 0 for a category not played', () => {
+      expect(getPeriodValue(entry, 'rating_gain', 'singles')).toBe(42);
+      expect(getPeriodValue(entry, 'rating_gain', 'mixed_doubles')).toBe(-8);
+      expect(getPeriodValue(entry, 'wins', 'same_gender_doubles')).toBe(0);
+    });
+
+    it('formats totals for display', () => {
+      expect(formatPeriodValue(42, 'rating_gain')).toBe('+42 rating');
+      expect(formatPeriodValue(-8, 'rating_gain')).toBe('-8 rating');
+      expect(formatPeriodValue(0, 'rating_gain')).toBe('0 rating');
+      expect(formatPeriodValue(1, 'wins')).toBe('1 win');
+      expect(formatPeriodValue(7, 'wins')).toBe('7 wins');
+    });
+  });
+
+  describe('parseCategoryFilter', () => {
+    it.each([
+      ['all_singles', 'singles', undefined],
+      ['mens_singles', 'singles', 'male'],
+      ['womens_doubles', 'same_gender_doubles', 'female'],
+      ['all_doubles', 'same_gender_doubles', undefined],
+    ] as const)('maps %s to %s', (filter, category, gender) => {
+      expect(parseCategoryFilter(filter)).toEqual({ category, gender });
+    });
+  });
+
+  describe('getOrdinal', () => {
+    it.each([
+      [1, '1st'],
+      [2, '2nd'],
+      [3, '3rd'],
+      [4, '4th'],
+      [11, '11th'],
+      [12, '12th'],
+      [13, '13th'],
+      [21, '21st'],
+      [102, '102nd'],
+      [111, '111th'],
+    ])('names rank %i %s', (rank, ordinal) => {
+      expect(getOrdinal(rank)).toBe(ordinal);
+    });
+  });
+});
@@ -0,0 +1,103 @@
+import {
+  LEADERBOARD_SCOPE_LABELS,
+  SCOPE_QUERY_CHUNK_SIZE,
+  chunkScopeValues,
+  getCourtCoords,
+  getCourtIdsWithinKm,
+  rankScopedPlayers,
+} from '../leaderboardScope';
+import type { Court } from '@/types/court';
+import type { UserDocument, UserRankings } from '@/types/user';
+
+// location.ts also wraps the native location module, which is not needed here
+jest.mock('expo-location', () => ({}));
+
+const court = (id: string, latitude: number, longitude: number) => ({ id, latitude, longitude }) as Court;
+
+const user = (
+  uid: string,
+  gender: UserDocument['gender'],
+  rankings: Partial<UserRankings>
+) => ({ uid, gender, rankings }) as UserDocument;
+
+// About 1.1 km per 0.01 degrees of latitude
+const home = { lat: 40, lng: -74 };
+
+describe('Leaderboard Scope', () => {
+  it('labels every scope', () => {
+    expect(Object.keys(LEADERBOARD_SCOPE_LABELS)).toEqual(['everyone', 'home_court', 'nearby', 'following']);
+  });
+
+  describe('getCourtCoords', () => {
+    it("reads the court's position", () => {
+      expect(getCourtCoords(court('c1', 40.5, -73.9))).toEqual({ lat: 40.5, lng: -73.9 });
+    });
+  });
+
+  describe('getCourtIdsWithinKm', () => {
+    const courts = [
+      court('far', 40.5, -74),
+      court('near', 40.01, -74),
+      court('here', 40, -74),
+      court('edge', 40.08, -74),
+    ];
+
+    it('keeps courts within the radius, nearest first', () => {
+      expect(getCourtIdsWithinKm(courts, home, 10)).toEqual(['here', 'near', 'edge']);
+    });
+
+    it('drops courts just outside the radius', () => {
+      expect(getCourtIdsWithinKm(courts, home, 5)).toEqual(['here', 'near']);
+      expect(getCourtIdsWithinKm(courts, home, 0)).toEqual(['here']);
+    });
+
+    it('returns nothing without courts in range', () => {
+      expect(getCourtIdsWithinKm([], home, 50)).toEqual([]);
+      expect(getCourtIdsWithinKm([court('far', 41, -74)], home, 50)).toEqual([]);
+    });
+  });
+
+  describe('chunkScopeValues', () => {
+    it('splits values into groups one query can take', () => {
+      const values = Array.from({ length: SCOPE_QUERY_CHUNK_SIZE * 2 + 1 }, (_, i) => `u${i}`);
+      const chunks = chunkScopeValues(values);
+
+      expect(chunks.map((chunk) => chunk.length)).toEqual([SCOPE_QUERY_CHUNK_SIZE, SCOPE_QUERY_CHUNK_SIZE, 1]);
+      expect(chunks.flat()).toEqual(values);
+    });
+
+    it('has no groups without values', () => {
+      expect(chunkScopeValues([])).toEqual([]);
+    });
+  });
+
+  describe('rankScopedPlayers', () => {
+    const players = [
+      user('ana', 'female', { singles: 1100, sameGenderDoubles: 1300, mixedDoubles: 900 }),
+      user('ben', 'male', { singles: 1200, sameGenderDoubles: 1000, mixedDoubles: 1250 }),
+      user('cy', 'female', { singles: 1150 }),
+      user('dee', 'male', {}),
+    ];
+    const ids = (ranked: UserDocument[]) => ranked.map((player) => player.uid);
+
+    it("orders players by the category's rating track", () => {
+      expect(ids(rankScopedPlayers(players, 'singles', undefined, 10))).toEqual(['ben', 'cy', 'ana', 'dee']);
+      expect(ids(rankScopedPlayers(players, 'same_gender_doubles', undefined, 10))).toEqual(['ana', 'ben', 'cy', 'dee']);
+      expect(ids(rankScopedPlayers(players, 'mixed_doubles', undefined, 10))).toEqual(['ben', 'cy', 'dee', 'ana']);
+    });
+
+    it('filters by gender except for mixed doubles', () => {
+      expect(ids(rankScopedPlayers(players, 'singles', 'female', 10))).toEqual(['cy', 'ana']);
+      expect(ids(rankScopedPlayers(players, 'mixed_doubles', 'female', 10))).toHaveLength(4);
+    });
+
+    it('keeps at most the limit', () => {
+      expect(ids(rankScopedPlayers(players, 'singles', undefined, 2))).toEqual(['ben', 'cy']);
+    });
+
+    it('leaves the input order alone', () => {
+      rankScopedPlayers(players, 'singles', undefined, 10);
+      expect(ids(players)).toEqual(['ana', 'ben', 'cy', 'dee']);
+    });
+  });
+});
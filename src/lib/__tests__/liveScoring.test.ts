@@ -0,0 +1,128 @@
+import { getLiveScoreState, getScoreCall } from '../liveScoring';
+import type { GameFormat } from '@/types/game';
+import type { Rally } from '@/types/lobby';
+
+// '1' or '2' per rally, e.g. '1122'
+const rallies = (winners: string): Rally[] =>
+  [...winners].map((w, i) => ({ winner: w === '1' ? 1 : 2, recordedBy: 'scorer', recordedAt: i }));
+
+const bestOf3: GameFormat = { pointsToWin: 11, winBy: 2, bestOf: 3 };
+const winBy1: GameFormat = { pointsToWin: 11, winBy: 1, bestOf: 1 };
+
+describe('Live Scoring', () => {
+  describe('side-out doubles', () => {
+    it.each([
+      ['', 0, 0, 1, 2, '0-0-2'],          // 0-0-2 start
+      ['1', 1, 0, 1, 2, '1-0-2'],         // serving team scores
+      ['2', 0, 0, 2, 1, '0-0-1'],         // first service turn has one server
+      ['22', 0, 1, 2, 1, '1-0-1'],
+      ['21', 0, 0, 2, 2, '0-0-2'],        // second server
+      ['211', 0, 0, 1, 1, '0-0-1'],       // side-out
+      ['121', 1, 0, 2, 2, '0-1-2'],
+      ['1211', 1, 0, 1, 1, '1-0-1'],
+    ])('replays "%s" to %i-%i, team %i serving, server %i (%s)', (log, team1, team2, servingTeam, serverNumber, call) => {
+      const state = getLiveScoreState(rallies(log), 'doubles', 'standard');
+      expect(state).toMatchObject({ team1, team2, servingTeam, serverNumber, call });
+    });
+  });
+
+  describe('side-out singles', () => {
+    it.each([
+      ['', 0, 0, 1, '0-0'],
+      ['1', 1, 0, 1, '1-0'],
+      ['2', 0, 0, 2, '0-0'],             // side-out on the first lost rally
+      ['22', 0, 1, 2, '1-0'],
+      ['221', 0, 1, 1, '0-1'],
+    ])('replays "%s" to %i-%i, team %i serving (%s)', (log, team1, team2, servingTeam, call) => {
+      const state = getLiveScoreState(rallies(log), 'singles', 'standard');
+      expect(state).toMatchObject({ team1, team2, servingTeam, serverNumber: 1, call });
+    });
+  });
+
+  describe('rally scoring', () => {
+    it.each([
+      ['2', 0, 1, 2, '1-0'],
+      ['21', 1, 1, 1, '1-1'],
+      ['211', 2, 1, 1, '2-1'],
+    ])('replays "%s" to %i-%i, team %i serving (%s)', (log, team1, team2, servingTeam, call) => {
+      const state = getLiveScoreState(rallies(log), 'doubles', 'rally');
+      expect(state).toMatchObject({ team1, team2, servingTeam, serverNumber: 1, call });
+    });
+  });
+
+  describe('game end', () => {
+    const tenAll = '12'.repeat(10);
+
+    it.each([
+      ['1'.repeat(10), 10, 0, false],
+      ['1'.repeat(11), 11, 0, true],
+      [tenAll + '1', 11, 10, false],       // must win by 2
+      [tenAll + '12', 11, 11, false],
+      [tenAll + '11', 12, 10, true],
+    ])('replays "%s" to %i-%i, game over: %s', (log, team1, team2, isGameOver) => {
+      const state = getLiveScoreState(rallies(log), 'doubles', 'rally');
+      expect(state).toMatchObject({ team1, team2, isGameOver, isMatchOver: isGameOver });
+    });
+
+    it('ends a win-by-1 game as soon as a team reaches the target', () => {
+      const state = getLiveScoreState(rallies(tenAll + '1'), 'doubles', 'rally', winBy1);
+      expect(state).toMatchObject({ team1: 11, team2: 10, isGameOver: true, isMatchOver: true });
+    });
+
+    it('ignores rallies after the match is won', () => {
+      const state = getLiveScoreState(rallies('1'.repeat(11) + '222'), 'doubles', 'rally');
+      expect(state).toMatchObject({ team1: 11, team2: 0, isMatchOver: true, games: [{ team1: 11, team2: 0 }] });
+    });
+
+    it('starts the next game of a best-of-3 with the other team serving at 0-0-2', () => {
+      const state = getLiveScoreState(rallies('1'.repeat(11)), 'doubles', 'standard', bestOf3);
+      expect(state).toMatchObject({ isGameOver: true, isMatchOver: false, games: [{ team1: 11, team2: 0 }] });
+
+      const next = getLiveScoreState(rallies('1'.repeat(11) + '2'), 'doubles', 'standard', bestOf3);
+      expect(next).toMatchObject({
+        team1: 0,
+        team2: 1,
+        servingTeam: 2,
+        serverNumber: 2,
+        call: '1-0-2',
+        isGameOver: false,
+        games: [{ team1: 11, team2: 0 }],
+      });
+    });
+
+    it('ends a best-of-3 once a team wins two games', () => {
+      const state = getLiveScoreState(rallies('1'.repeat(22)), 'doubles', 'rally', bestOf3);
+      expect(state.isMatchOver).toBe(true);
+      expect(state.games).toEqual([{ team1: 11, team2: 0 }, { team1: 11, team2: 0 }]);
+    });
+  });
+
+  describe('undo', () => {
+    // Undo removes the last rally from the log (undoLastRally), so the state
+    // is the replay of the shorter log
+    const undo = (log: string) => rallies(log).slice(0, -1);
+
+    it.each([
+      ['1', 0, 0, 1, 2, '0-0-2'],          // undoes a point
+      ['12', 1, 0, 1, 2, '1-0-2'],         // undoes a side-out
+      ['211', 0, 0, 2, 2, '0-0-2'],        // undoes a side-out back to the second server
+    ])('undoing the last rally of "%s" restores %i-%i, team %i serving, server %i', (log, team1, team2, servingTeam, serverNumber, call) => {
+      const state = getLiveScoreState(undo(log), 'doubles', 'standard');
+      expect(state).toMatchObject({ team1, team2, servingTeam, serverNumber, call });
+    });
+
+    it('reopens a game whose winning rally is undone', () => {
+      const state = getLiveScoreState(undo('1'.repeat(11)), 'doubles', 'standard');
+      expect(state).toMatchObject({ team1: 10, team2: 0, isGameOver: false, isMatchOver: false, games: [] });
+    });
+  });
+
+  describe('getScoreCall', () => {
+    it('calls the serving score first', () => {
+      const state = { team1: 3, team2: 7, servingTeam: 2 as const, serverNumber: 1 as const };
+      expect(getScoreCall(state, 'doubles', 'standard')).toBe('7-3-1');
+      expect(getScoreCall(state, 'doubles', 'rally')).toBe('7-3');
+      expect(getScoreCall(state, 'singles', 'standard')).toBe('7-3');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  getFinalScoreMessage,
+  getLobbyChatEvents,
+  getLobbyChatId,
+  getLobbyChatMemberIds,
+  getLobbyChatName,
+  isLobbyChatFor,
+  isMultiMemberChat,
+} from '../lobbyChat';
+import type { Timestamp } from 'firebase/firestore';
+import type { Lobby, Player } from '@/types/lobby';
+
+const at = { toMillis: () => Date.UTC(2026, 0, 1) } as Timestamp;
+const p = (uid: string): Player => ({ uid, displayName: uid.toUpperCase() });
+
+const lobby = (fields: Partial<Lobby> = {}): Lobby => ({
+  roomCode: 'K7MX3Q',
+  hostId: 'host',
+  gameMode: 'doubles',
+  team1: { player1: p('host') },
+  team2: {},
+  gameStarted: false,
+  createdAt: at,
+  lastActivity: at,
+  ...fields,
+});
+
+describe('Lobby Chat', () => {
+  describe('chat identity', () => {
+    it('derives the chat ID and name from the room code', () => {
+      expect(getLobbyChatId('K7MX3Q')).toBe('lobby-K7MX3Q');
+      expect(getLobbyChatName('K7MX3Q')).toBe('Game K7MX3Q');
+    });
+
+    it("recognises the lobby's own chat by ID or by its room code", () => {
+      expect(isLobbyChatFor('lobby-K7MX3Q', {}, 'K7MX3Q')).toBe(true);
+      expect(isLobbyChatFor('chat-1', { lobbyRoomCode: 'K7MX3Q' }, 'K7MX3Q')).toBe(true);
+    });
+
+    it("rejects another lobby's chat or an unrelated chat", () => {
+      expect(isLobbyChatFor('lobby-AAAA', { lobbyRoomCode: 'AAAA' }, 'K7MX3Q')).toBe(false);
+      expect(isLobbyChatFor('chat-1', {}, 'K7MX3Q')).toBe(false);
+    });
+
+    it.each([
+      ['group', true],
+      ['lobby', true],
+      ['individual', false],
+      [undefined, false],
+    ] as const)('treats chats of type %s as multi-member: %s', (type, expected) => {
+      expect(isMultiMemberChat(type)).toBe(expected);
+    });
+  });
+
+  describe('getLobbyChatMemberIds', () => {
+    it('lists the host, seated players and the queue once each, host first', () => {
+      const members = getLobbyChatMemberIds(lobby({
+        hostId: 'host',
+        team1: { player1: p('a'), player2: p('host') },
+        team2: { player1: p('b') },
+        waitingPlayers: [p('c'), p('a')],
+      }));
+
+      expect(members).toEqual(['host', 'a', 'b', 'c']);
+    });
+
+    it('keeps a host who is not playing', () => {
+      expect(getLobbyChatMemberIds(lobby({ team1: { player1: p('a') } }))).toEqual(['host', 'a']);
+    });
+  });
+
+  describe('getFinalScoreMessage', () => {
+    it('lists every game when per-game scores were recorded', () => {
+      const finalGames = [{ team1: 11, team2: 7 }, { team1: 9, team2: 11 }, { team1: 11, team2: 5 }];
+      expect(getFinalScoreMessage(lobby({ finalGames }))).toBe('Final 11-7, 9-11, 11-5');
+    });
+
+    it('falls back to the final score, or null without one', () => {
+      expect(getFinalScoreMessage(lobby({ finalScores: { team1: 11, team2: 9 } }))).toBe('Final 11-9');
+      expect(getFinalScoreMessage(lobby({ finalGames: [] }))).toBeNull();
+    });
+  });
+
+  describe('getLobbyChatEvents', () => {
+    it('posts nothing for an unrelated change', () => {
+      expect(getLobbyChatEvents(lobby(), lobby({ isPrivate: true }))).toEqual([]);
+    });
+
+    it('announces joins, team moves and the queue', () => {
+      const before = lobby({ team1: { player1: p('host'), player2: p('a') } });
+      const after = lobby({
+        team1: { player1: p('host') },
+        team2: { player1: p('a'), player2: p('b') },
+        waitingPlayers: [p('c')],
+      });
+
+      expect(getLobbyChatEvents(before, after)).toEqual([
+        'A moved to team 2',
+        'B joined team 2',
+        'C joined the queue',
+      ]);
+    });
+
+    it('announces a queued player taking a seat as a join, not a departure', () => {
+      const before = lobby({ waitingPlayers: [p('c')] });
+      const after = lobby({ team2: { player1: p('c') }, waitingPlayers: [] });
+
+      expect(getLobbyChatEvents(before, after)).toEqual(['C joined team 2']);
+    });
+
+    it('announces players leaving a seat or the queue', () => {
+      const before = lobby({ team2: { player1: p('a') }, waitingPlayers: [p('c')] });
+
+      expect(getLobbyChatEvents(before, lobby())).toEqual(['A left the lobby', 'C left the lobby']);
+    });
+
+    it('announces the start and the final score', () => {
+      expect(getLobbyChatEvents(lobby(), lobby({ gameStarted: true }))).toEqual(['Game started']);
+
+      const finished = lobby({ gameStarted: true, gameCompleted: true, finalScores: { team1: 11, team2: 4 } });
+      expect(getLobbyChatEvents(lobby({ gameStarted: true }), finished)).toEqual(['Final 11-4']);
+    });
+
+    it('announces a cancellation with its reason', () => {
+      const cancelled = (cancelReason?: string) =>
+        lobby({ gameCompleted: true, cancelled: true, cancelReason });
+
+      expect(getLobbyChatEvents(lobby(), cancelled('Rain'))).toEqual(['Game cancelled: Rain']);
+      expect(getLobbyChatEvents(lobby(), cancelled())).toEqual(['Game cancelled']);
+    });
+
+    it('stays quiet when a game completes without a score', () => {
+      expect(getLobbyChatEvents(lobby({ gameStarted: true }), lobby({ gameStarted: true, gameCompleted: true }))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import {
+  LOBBY_IDLE_TIMEOUT_MINUTES,
+  MAX_GAME_DURATION_MINUTES,
+  getExpiryMessage,
+  getLobbyExpiryReason,
+} from '../lobbyLifecycle';
+import type { Timestamp } from 'firebase/firestore';
+import type { Lobby } from '@/types/lobby';
+
+const NOW = Date.UTC(2026, 5, 1, 12);
+const MINUTE_MS = 60 * 1000;
+const at = (ms: number) => ({ toMillis: () => ms }) as Timestamp;
+
+const lobby = (fields: Partial<Lobby> = {}): Lobby => ({
+  roomCode: 'K7MX3Q',
+  hostId: 'host',
+  gameMode: 'singles',
+  team1: { player1: { uid: 'host', displayName: 'Host' } },
+  team2: {},
+  gameStarted: false,
+  createdAt: at(NOW - 5 * MINUTE_MS),
+  lastActivity: at(NOW - 5 * MINUTE_MS),
+  ...fields,
+});
+
+const idleSince = (minutes: number) => lobby({ lastActivity: at(NOW - minutes * MINUTE_MS) });
+
+const startedAgo = (minutes: number, fields: Partial<Lobby> = {}) => lobby({
+  gameStarted: true,
+  gameStartedAt: at(NOW - minutes * MINUTE_MS),
+  ...fields,
+});
+
+describe('Lobby Lifecycle', () => {
+  describe('getLobbyExpiryReason', () => {
+    describe('waiting lobbies', () => {
+      it('keeps a lobby with recent activity', () => {
+        expect(getLobbyExpiryReason(idleSince(5), NOW)).toBeNull();
+      });
+
+      it('expires a stale lobby as idle', () => {
+        expect(getLobbyExpiryReason(idleSince(LOBBY_IDLE_TIMEOUT_MINUTES + 1), NOW)).toBe('idle');
+      });
+
+      it('expires only once the idle timeout has passed', () => {
+        expect(getLobbyExpiryReason(idleSince(LOBBY_IDLE_TIMEOUT_MINUTES), NOW)).toBeNull();
+        expect(getLobbyExpiryReason(idleSince(LOBBY_IDLE_TIMEOUT_MINUTES), NOW + 1)).toBe('idle');
+      });
+
+      it('falls back to the creation time, and keeps lobbies with neither', () => {
+        const created = (ms: number) => lobby({ lastActivity: undefined, createdAt: at(ms) });
+        expect(getLobbyExpiryReason(created(NOW - 31 * MINUTE_MS), NOW)).toBe('idle');
+        expect(getLobbyExpiryReason(created(NOW - 5 * MINUTE_MS), NOW)).toBeNull();
+
+        const untimed = lobby({ lastActivity: undefined, createdAt: undefined as unknown as Timestamp });
+        expect(getLobbyExpiryReason(untimed, NOW)).toBeNull();
+      });
+    });
+
+    describe('games in progress', () => {
+      it('keeps a game within the maximum duration, however long since the last activity', () => {
+        expect(getLobbyExpiryReason(startedAgo(60, { lastActivity: at(NOW - 60 * MINUTE_MS) }), NOW)).toBeNull();
+      });
+
+      it('cancels an abandoned game after the maximum duration', () => {
+        expect(getLobbyExpiryReason(startedAgo(MAX_GAME_DURATION_MINUTES + 1), NOW)).toBe('max_duration');
+      });
+
+      it('cancels only once the maximum duration has passed', () => {
+        expect(getLobbyExpiryReason(startedAgo(MAX_GAME_DURATION_MINUTES), NOW)).toBeNull();
+        expect(getLobbyExpiryReason(startedAgo(MAX_GAME_DURATION_MINUTES), NOW + 1)).toBe('max_duration');
+      });
+
+      it('falls back to the last activity without a start time', () => {
+        const unstamped = startedAgo(0, {
+          gameStartedAt: undefined,
+          lastActivity: at(NOW - (MAX_GAME_DURATION_MINUTES + 1) * MINUTE_MS),
+        });
+        expect(getLobbyExpiryReason(unstamped, NOW)).toBe('max_duration');
+      });
+
+      it('leaves a score awaiting confirmation to settle', () => {
+        expect(getLobbyExpiryReason(startedAgo(MAX_GAME_DURATION_MINUTES + 60, { scoreStatus: 'pending' }), NOW)).toBeNull();
+      });
+
+      it('still cancels a game whose score is disputed', () => {
+        expect(getLobbyExpiryReason(startedAgo(MAX_GAME_DURATION_MINUTES + 1, { scoreStatus: 'disputed' }), NOW))
+          .toBe('max_duration');
+      });
+    });
+
+    describe('finished lobbies', () => {
+      it.each([
+        ['completed', { gameCompleted: true }],
+        ['cancelled', { cancelled: true }],
+      ] as const)('never expires a %s lobby', (_, fields) => {
+        expect(getLobbyExpiryReason(startedAgo(MAX_GAME_DURATION_MINUTES * 2, fields), NOW)).toBeNull();
+        expect(getLobbyExpiryReason(lobby({ ...fields, lastActivity: at(0) }), NOW)).toBeNull();
+      });
+    });
+
+    it('uses the given timeouts', () => {
+      const options = { idleTimeoutMinutes: 10, maxGameDurationMinutes: 60 };
+      expect(getLobbyExpiryReason(idleSince(11), NOW, options)).toBe('idle');
+      expect(getLobbyExpiryReason(startedAgo(61), NOW, options)).toBe('max_duration');
+    });
+  });
+
+  describe('getExpiryMessage', () => {
+    it('explains each reason with the configured limits', () => {
+      expect(getExpiryMessage('idle')).toBe(`Lobby expired after ${LOBBY_IDLE_TIMEOUT_MINUTES} minutes without activity`);
+      expect(getExpiryMessage('max_duration', { idleTimeoutMinutes: 30, maxGameDurationMinutes: 60 }))
+        .toBe('Game cancelled after running for more than 1 hour without a final score');
+      expect(getExpiryMessage('max_duration', { idleTimeoutMinutes: 30, maxGameDurationMinutes: 240 }))
+        .toBe('Game cancelled after running for more than 4 hours without a final score');
+    });
+  });
+});
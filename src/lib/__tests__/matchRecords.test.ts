@@ -0,0 +1,150 @@
+import {
+  getHistoryQueryAnchor,
+  getPairKey,
+  getPlayerPairs,
+  matchesHistoryFilters,
+  needsClientFilter,
+  toPlayerRecord,
+  toPlayerRecords,
+} from '../matchRecords';
+import type { Timestamp } from 'firebase/firestore';
+import type { Match, MatchPlayer } from '@/types/game';
+import type { MatchHistoryRecord } from '@/types/user';
+
+const createdAt = { toMillis: () => Date.UTC(2026, 0, 1) } as Timestamp;
+
+const player = (uid: string, team: 1 | 2, pointsChange: number, fields: Partial<MatchPlayer> = {}): MatchPlayer => ({
+  uid,
+  displayName: uid.toUpperCase(),
+  team,
+  pointsChange,
+  ...fields,
+});
+
+const match = (id: string, players: MatchPlayer[], fields: Partial<Match> = {}): Match => ({
+  id,
+  gameId: `room-${id}`,
+  gameType: players.length === 2 ? 'singles' : 'doubles',
+  gameCategory: players.length === 2 ? 'singles' : 'same_gender_doubles',
+  players,
+  playerIds: players.map((p) => p.uid),
+  playerPairs: getPlayerPairs(players.map((p) => p.uid)),
+  winnerIds: players.filter((p) => p.team === 1).map((p) => p.uid),
+  loserIds: players.filter((p) => p.team === 2).map((p) => p.uid),
+  winner: 1,
+  status: 'confirmed',
+  createdAt,
+  ...fields,
+});
+
+const singles = match('s1', [player('a', 1, 12), player('b', 2, -12)], { score: { team1: 11, team2: 7 } });
+const doubles = match('d1', [
+  player('a', 1, 10, { ratingBefore: 1000, ratingAfter: 1010 }),
+  player('b', 1, 8),
+  player('c', 2, -9),
+  player('d', 2, -9),
+]);
+
+describe('Match Records', () => {
+  describe('getPairKey', () => {
+    it('builds the same key in either order', () => {
+      expect(getPairKey('b', 'a')).toBe('a_b');
+      expect(getPairKey('a', 'b')).toBe('a_b');
+    });
+  });
+
+  describe('getPlayerPairs', () => {
+    it('has one pair for singles', () => {
+      expect(getPlayerPairs(['b', 'a'])).toEqual(['a_b']);
+    });
+
+    it('pairs every two of four doubles players', () => {
+      expect(getPlayerPairs(['a', 'b', 'c', 'd'])).toEqual(['a_b', 'a_c', 'a_d', 'b_c', 'b_d', 'c_d']);
+    });
+
+    it('has no pairs without two players', () => {
+      expect(getPlayerPairs(['a'])).toEqual([]);
+      expect(getPlayerPairs([])).toEqual([]);
+    });
+  });
+
+  describe('toPlayerRecord', () => {
+    it("projects a singles match into each player's view without a partner", () => {
+      expect(toPlayerRecord(singles, 'a')).toEqual({
+        id: 's1',
+        gameId: 'room-s1',
+        playerId: 'a',
+        gameType: 'singles',
+        gameCategory: 'singles',
+        result: 'win',
+        pointsChange: 12,
+        opponentIds: ['b'],
+        opponentNames: ['B'],
+        status: 'confirmed',
+        score: { team1: 11, team2: 7 },
+        createdAt,
+      });
+      expect(toPlayerRecord(singles, 'b')).toMatchObject({ result: 'loss', pointsChange: -12, opponentIds: ['a'] });
+      expect(toPlayerRecord(singles, 'b')).not.toHaveProperty('partnerId');
+    });
+
+    it('names the partner and both opponents in doubles', () => {
+      expect(toPlayerRecord(doubles, 'c')).toMatchObject({
+        result: 'loss',
+        pointsChange: -9,
+        opponentIds: ['a', 'b'],
+        opponentNames: ['A', 'B'],
+        partnerId: 'd',
+        partnerName: 'D',
+      });
+    });
+
+    it('copies the ratings around the match only when they were stored', () => {
+      expect(toPlayerRecord(doubles, 'a')).toMatchObject({ ratingBefore: 1000, ratingAfter: 1010 });
+      expect(toPlayerRecord(doubles, 'b')).not.toHaveProperty('ratingBefore');
+      expect(toPlayerRecord(doubles, 'b')).not.toHaveProperty('score');
+    });
+
+    it('returns null for a player who was not in the match', () => {
+      expect(toPlayerRecord(singles, 'z')).toBeNull();
+    });
+  });
+
+  describe('toPlayerRecords', () => {
+    it("keeps the order and skips matches the player wasn't in", () => {
+      const other = match('s2', [player('c', 1, 5), player('d', 2, -5)]);
+      const records = toPlayerRecords([doubles, other, singles], 'a');
+
+      expect(records.map((r) => r.id)).toEqual(['d1', 's1']);
+      expect(toPlayerRecords([other], 'a')).toEqual([]);
+    });
+  });
+
+  describe('getHistoryQueryAnchor', () => {
+    it('anchors on the pair, then the result, then the player', () => {
+      expect(getHistoryQueryAnchor('a', { otherPlayerId: 'b', result: 'win' })).toEqual({ field: 'playerPairs', value: 'a_b' });
+      expect(getHistoryQueryAnchor('a', { result: 'win' })).toEqual({ field: 'winnerIds', value: 'a' });
+      expect(getHistoryQueryAnchor('a', { result: 'loss' })).toEqual({ field: 'loserIds', value: 'a' });
+      expect(getHistoryQueryAnchor('a', {})).toEqual({ field: 'playerIds', value: 'a' });
+    });
+  });
+
+  describe('client-side filters', () => {
+    const record = toPlayerRecord(doubles, 'a') as MatchHistoryRecord;
+
+    it('are needed only when a player filter is combined with a relation or result', () => {
+      expect(needsClientFilter({ otherPlayerId: 'b' })).toBe(false);
+      expect(needsClientFilter({ otherPlayerId: 'b', relation: 'partner' })).toBe(true);
+      expect(needsClientFilter({ otherPlayerId: 'b', result: 'win' })).toBe(true);
+      expect(needsClientFilter({ result: 'win' })).toBe(false);
+    });
+
+    it('check the result and whether the other player was a partner or an opponent', () => {
+      expect(matchesHistoryFilters(record, { result: 'win' })).toBe(true);
+      expect(matchesHistoryFilters(record, { result: 'loss' })).toBe(false);
+      expect(matchesHistoryFilters(record, { otherPlayerId: 'b', relation: 'partner' })).toBe(true);
+      expect(matchesHistoryFilters(record, { otherPlayerId: 'c', relation: 'partner' })).toBe(false);
+      expect(matchesHistoryFilters(record, { otherPlayerId: 'c', relation: 'opponent' })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { getGameCategory, getRankingKey } from '../points';
+
+describe('Game Categories', () => {
+  describe('getGameCategory', () => {
+    it('classifies singles regardless of gender', () => {
+      expect(getGameCategory('singles', ['male', 'female'])).toBe('singles');
+    });
+
+    it('classifies one man and one woman on each team as mixed', () => {
+      expect(getGameCategory('doubles', ['male', 'female', 'female', 'male'])).toBe('mixed_doubles');
+    });
+
+    it('classifies four men or four women as same gender', () => {
+      expect(getGameCategory('doubles', ['male', 'male', 'male', 'male'])).toBe('same_gender_doubles');
+      expect(getGameCategory('doubles', ['female', 'female', 'female', 'female'])).toBe('same_gender_doubles');
+    });
+
+    it('classifies men against women as same gender, not mixed', () => {
+      expect(getGameCategory('doubles', ['male', 'male', 'female', 'female'])).toBe('same_gender_doubles');
+    });
+
+    it('classifies a mixed team against a same-gender team as same gender', () => {
+      expect(getGameCategory('doubles', ['male', 'female', 'male', 'male'])).toBe('same_gender_doubles');
+      expect(getGameCategory('doubles', ['female', 'female', 'female', 'male'])).toBe('same_gender_doubles');
+    });
+
+    it('classifies games with a player whose gender is not set as same gender', () => {
+      expect(getGameCategory('doubles', ['male', undefined, 'female', 'male'])).toBe('same_gender_doubles');
+      expect(getGameCategory('doubles', [undefined, undefined, undefined, undefined])).toBe('same_gender_doubles');
+    });
+
+    it('does not classify a lobby with empty seats as mixed', () => {
+      expect(getGameCategory('doubles', ['male', 'female', 'male'])).toBe('same_gender_doubles');
+    });
+  });
+
+  describe('getRankingKey', () => {
+    it('maps each category to its rating track', () => {
+      expect(getRankingKey('singles')).toBe('singles');
+      expect(getRankingKey('same_gender_doubles')).toBe('sameGenderDoubles');
+      expect(getRankingKey('mixed_doubles')).toBe('mixedDoubles');
+    });
+  });
+});
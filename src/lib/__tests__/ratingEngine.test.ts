@@ -0,0 +1,118 @@
+import {
+  calculateGlicko2Stakes,
+  calculateMatchStakes,
+  getRatingConfidence,
+  getUncertaintyUpdates,
+  isProvisionalPlayer,
+  isProvisionalRating,
+  toGlicko2,
+} from '../ratingEngine';
+import { calculateStakes } from '../points';
+import { DEFAULT_DEVIATION, DEFAULT_VOLATILITY, PROVISIONAL_DEVIATION } from '../glicko2';
+import type { SeatedPlayer } from '../points';
+import type { UserDocument } from '@/types/user';
+
+const player = (uid: string, rating: number, gamesPlayed = 20, deviation?: number): SeatedPlayer => ({
+  uid,
+  rating,
+  gamesPlayed,
+  deviation,
+});
+
+const userWith = (fields: Partial<UserDocument>): UserDocument => fields as UserDocument;
+
+describe('Rating Engine', () => {
+  describe('calculateMatchStakes', () => {
+    const team1 = [player('a', 1100, 20, 80)];
+    const team2 = [player('b', 950, 5, 200)];
+
+    it('uses ELO stakes for the ELO engine', () => {
+      expect(calculateMatchStakes(team1, team2, 'ELO')).toEqual(calculateStakes(team1, team2));
+    });
+
+    it('uses Glicko-2 stakes for the GLICKO2 engine', () => {
+      expect(calculateMatchStakes(team1, team2, 'GLICKO2')).toEqual(calculateGlicko2Stakes(team1, team2));
+    });
+
+    it('defaults to ELO when no engine is configured', () => {
+      expect(calculateMatchStakes(team1, team2)).toEqual(calculateStakes(team1, team2));
+    });
+  });
+
+  describe('calculateGlicko2Stakes', () => {
+    it('gives the underdog more to win than the favourite', () => {
+      const stakes = calculateGlicko2Stakes([player('a', 1200, 20, 60)], [player('b', 1000, 20, 60)]);
+      expect(stakes.players.b.win).toBeGreaterThan(stakes.players.a.win);
+      expect(stakes.players.a.loss).toBeGreaterThan(stakes.players.b.loss);
+    });
+
+    it('stakes uncertain doubles players more than established partners', () => {
+      const stakes = calculateGlicko2Stakes(
+        [player('a', 1000, 40, 60), player('b', 1000, 0, 300)],
+        [player('c', 1000, 20, 80), player('d', 1000, 20, 80)]
+      );
+      expect(stakes.players.b.win).toBeGreaterThan(stakes.players.a.win);
+      expect(stakes.players.b.loss).toBeGreaterThan(stakes.players.a.loss);
+    });
+
+    it('never stakes less than one point', () => {
+      const stakes = calculateGlicko2Stakes([player('a', 2000, 500, 30)], [player('b', 600, 500, 30)]);
+      expect(stakes.players.a.win).toBeGreaterThanOrEqual(1);
+    });
+  });
+
+  describe('toGlicko2', () => {
+    it('estimates deviation and volatility for older accounts', () => {
+      expect(toGlicko2({ rating: 1000, gamesPlayed: 0 })).toEqual({
+        rating: 1000,
+        deviation: DEFAULT_DEVIATION,
+        volatility: DEFAULT_VOLATILITY,
+      });
+    });
+
+    it('keeps stored deviation and volatility', () => {
+      expect(toGlicko2({ rating: 1000, gamesPlayed: 0, deviation: 90, volatility: 0.05 }).deviation).toBe(90);
+    });
+  });
+
+  describe('getUncertaintyUpdates', () => {
+    it('lowers the deviation of every player after a match', () => {
+      const updates = getUncertaintyUpdates(
+        [player('a', 1000, 0), player('b', 1000, 0)],
+        [player('c', 1000, 0), player('d', 1000, 0)],
+        1
+      );
+      expect(Object.keys(updates).sort()).toEqual(['a', 'b', 'c', 'd']);
+      Object.values(updates).forEach(({ deviation }) => {
+        expect(deviation).toBeLessThan(DEFAULT_DEVIATION);
+      });
+    });
+  });
+
+  describe('provisional ratings', () => {
+    it('is provisional with no games and no stored deviation', () => {
+      expect(isProvisionalRating(userWith({}), 'singles')).toBe(true);
+    });
+
+    it('reads the stored deviation of the requested track', () => {
+      const user = userWith({
+        rankingDeviations: { singles: PROVISIONAL_DEVIATION, sameGenderDoubles: 200, mixedDoubles: 200 },
+      });
+      expect(isProvisionalRating(user, 'singles')).toBe(false);
+      expect(isProvisionalRating(user, 'mixedDoubles')).toBe(true);
+    });
+
+    it('treats a player as provisional until any track is established', () => {
+      const deviations = { singles: 200, sameGenderDoubles: 200, mixedDoubles: 200 };
+      expect(isProvisionalPlayer(userWith({ rankingDeviations: deviations }))).toBe(true);
+      expect(isProvisionalPlayer(userWith({ rankingDeviations: { ...deviations, mixedDoubles: 90 } }))).toBe(false);
+    });
+
+    it('maps deviation to a confidence level', () => {
+      expect(getRatingConfidence(PROVISIONAL_DEVIATION + 1)).toBe('LOW');
+      expect(getRatingConfidence(PROVISIONAL_DEVIATION)).toBe('MEDIUM');
+      expect(getRatingConfidence(71)).toBe('MEDIUM');
+      expect(getRatingConfidence(70)).toBe('HIGH');
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { summarizeRatingHistory } from '../ratingHistory';
+import type { RatingHistoryPoint } from '@/types/user';
+
+const NOW = Date.UTC(2026, 5, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const point = (daysAgo: number, ratingBefore: number, ratingAfter: number): RatingHistoryPoint => ({
+  matchId: `m${daysAgo}`,
+  category: 'singles',
+  ratingBefore,
+  ratingAfter,
+  createdAt: new Date(NOW - daysAgo * DAY_MS),
+});
+
+describe('Rating History', () => {
+  describe('summarizeRatingHistory', () => {
+    it('is null without matches', () => {
+      expect(summarizeRatingHistory([], NOW)).toBeNull();
+    });
+
+    it('summarises a single match', () => {
+      expect(summarizeRatingHistory([point(2, 1000, 1012)], NOW)).toEqual({
+        current: 1012,
+        peak: 1012,
+        low: 1000,
+        delta30d: 12,
+      });
+    });
+
+    it('counts the rating before the first match towards the peak and low', () => {
+      const summary = summarizeRatingHistory([point(3, 1000, 990), point(2, 990, 1005), point(1, 1005, 998)], NOW);
+      expect(summary).toMatchObject({ current: 998, peak: 1005, low: 990 });
+
+      const onlyLosses = summarizeRatingHistory([point(2, 1100, 1090), point(1, 1090, 1080)], NOW);
+      expect(onlyLosses).toMatchObject({ peak: 1100, low: 1080 });
+    });
+
+    it('measures the 30-day change from the last match before the window', () => {
+      const summary = summarizeRatingHistory([
+        point(60, 1000, 1020),
+        point(40, 1020, 1050),
+        point(10, 1050, 1040),
+        point(1, 1040, 1065),
+      ], NOW);
+
+      expect(summary?.delta30d).toBe(15);
+    });
+
+    it('measures from before the first match when every match is within the window', () => {
+      const summary = summarizeRatingHistory([point(20, 1000, 1010), point(5, 1010, 1030)], NOW);
+      expect(summary?.delta30d).toBe(30);
+    });
+
+    it('has no 30-day change when every match is older', () => {
+      const summary = summarizeRatingHistory([point(90, 1000, 1010), point(45, 1010, 1030)], NOW);
+      expect(summary?.delta30d).toBe(0);
+    });
+
+    it('counts a match exactly 30 days ago inside the window', () => {
+      const summary = summarizeRatingHistory([point(31, 1000, 1010), point(30, 1010, 1030)], NOW);
+      expect(summary?.delta30d).toBe(20);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { REMATCH_ARRANGEMENT_LABELS, getRematchArrangements, getRematchTeams } from '../rematch';
+import type { Timestamp } from 'firebase/firestore';
+import type { Lobby, Player } from '@/types/lobby';
+
+const at = { toMillis: () => Date.UTC(2026, 0, 1) } as Timestamp;
+const p = (uid: string): Player => ({ uid, displayName: uid.toUpperCase() });
+
+const lobby = (fields: Partial<Lobby> = {}): Lobby => ({
+  roomCode: 'K7MX3Q',
+  hostId: 'a',
+  gameMode: 'doubles',
+  team1: { player1: p('a'), player2: p('b') },
+  team2: { player1: p('c'), player2: p('d') },
+  gameStarted: true,
+  gameCompleted: true,
+  winner: 1,
+  createdAt: at,
+  lastActivity: at,
+  ...fields,
+});
+
+const singles = lobby({ gameMode: 'singles', team1: { player1: p('a') }, team2: { player1: p('c') } });
+
+const seatIds = ({ team1, team2 }: ReturnType<typeof getRematchTeams>) => [
+  [team1.player1?.uid, team1.player2?.uid],
+  [team2.player1?.uid, team2.player2?.uid],
+];
+
+describe('Rematch Seating', () => {
+  describe('getRematchArrangements', () => {
+    it('offers new partners only in doubles', () => {
+      expect(getRematchArrangements('doubles')).toEqual(['same', 'switch_sides', 'shuffle_partners']);
+      expect(getRematchArrangements('singles')).toEqual(['same', 'switch_sides']);
+    });
+
+    it('labels every arrangement', () => {
+      getRematchArrangements('doubles').forEach((arrangement) => {
+        expect(REMATCH_ARRANGEMENT_LABELS[arrangement]).toBeTruthy();
+      });
+    });
+  });
+
+  describe('getRematchTeams', () => {
+    it('keeps every player in their seat', () => {
+      expect(seatIds(getRematchTeams(lobby(), 'same'))).toEqual([['a', 'b'], ['c', 'd']]);
+      expect(seatIds(getRematchTeams(singles, 'same'))).toEqual([['a', undefined], ['c', undefined]]);
+    });
+
+    it('swaps the teams and keeps the slot order', () => {
+      expect(seatIds(getRematchTeams(lobby(), 'switch_sides'))).toEqual([['c', 'd'], ['a', 'b']]);
+      expect(seatIds(getRematchTeams(singles, 'switch_sides'))).toEqual([['c', undefined], ['a', undefined]]);
+    });
+
+    it.each([
+      [0.2, [['a', 'c'], ['b', 'd']]],
+      [0.7, [['a', 'd'], ['b', 'c']]],
+    ])('gives everyone a new partner (random %d)', (roll, seats) => {
+      expect(seatIds(getRematchTeams(lobby(), 'shuffle_partners', () => roll))).toEqual(seats);
+    });
+
+    it('never keeps a partnership when shuffling', () => {
+      const { team1, team2 } = getRematchTeams(lobby(), 'shuffle_partners');
+      const partners = [team1, team2].map((team) => [team.player1?.uid, team.player2?.uid].sort().join());
+
+      expect(partners).not.toContain('a,b');
+      expect(partners).not.toContain('c,d');
+    });
+
+    it('keeps singles seats when asked to shuffle', () => {
+      expect(seatIds(getRematchTeams(singles, 'shuffle_partners', () => 0))).toEqual([['a', undefined], ['c', undefined]]);
+    });
+
+    it('carries over players whole and leaves empty slots out', () => {
+      const short = lobby({ team1: { player1: p('a') }, team2: { player2: p('d') } });
+      const teams = getRematchTeams(short, 'same');
+
+      expect(teams).toEqual({ team1: { player1: p('a') }, team2: { player1: p('d') } });
+      expect(teams.team1).not.toHaveProperty('player2');
+    });
+  });
+});
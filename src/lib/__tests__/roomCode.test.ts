@@ -0,0 +1,80 @@
+import {
+  ROOM_CODE_ALPHABET,
+  formatRoomCode,
+  generateRoomCode,
+  getMaxRoomCodeLength,
+  getRoomCodeError,
+  validateRoomCode,
+} from '../roomCode';
+import { MAX_ROOM_CODE_LENGTH, ROOM_CODE_LENGTH } from '@/config/roomCode';
+
+describe('Room Codes', () => {
+  describe('generateRoomCode', () => {
+    it('uses the configured length by default', () => {
+      expect(generateRoomCode()).toHaveLength(ROOM_CODE_LENGTH);
+      expect(generateRoomCode(8)).toHaveLength(8);
+    });
+
+    it('only draws from the unambiguous alphabet', () => {
+      const code = generateRoomCode(200);
+      expect([...code].every((char) => ROOM_CODE_ALPHABET.includes(char))).toBe(true);
+      expect(code).not.toMatch(/[01OI]/);
+    });
+
+    it('always generates codes that validate', () => {
+      expect(validateRoomCode(generateRoomCode())).toBe(true);
+    });
+  });
+
+  describe('validateRoomCode', () => {
+    it.each(['K7MX', 'K7MX3', 'K7MX3Q', 'K7MX3QA', 'K7MX3QAB'])('accepts %s, whatever length it was generated with', (code) => {
+      expect(validateRoomCode(code)).toBe(true);
+    });
+
+    it.each(['AB10', 'OOOO', 'I1I1', '0000'])('accepts the legacy 4-character code %s', (code) => {
+      expect(validateRoomCode(code)).toBe(true);
+    });
+
+    it.each([
+      ['', 'empty'],
+      ['K7M', 'too short'],
+      ['K7MX3QABC', 'too long'],
+      ['K7MX0Q', 'a look-alike outside legacy codes'],
+      ['k7mx3q', 'lowercase'],
+      ['K7-X3Q', 'punctuation'],
+    ])('rejects %p (%s)', (code) => {
+      expect(validateRoomCode(code)).toBe(false);
+    });
+  });
+
+  describe('getMaxRoomCodeLength', () => {
+    it('fits the longest supported code', () => {
+      expect(getMaxRoomCodeLength()).toBe(MAX_ROOM_CODE_LENGTH);
+    });
+  });
+
+  describe('formatRoomCode', () => {
+    it('uppercases and strips whitespace', () => {
+      expect(formatRoomCode(' k7 mx3q ')).toBe('K7MX3Q');
+      expect(formatRoomCode('')).toBe('');
+    });
+  });
+
+  describe('getRoomCodeError', () => {
+    it('accepts typed codes of every supported length, and legacy codes', () => {
+      expect(getRoomCodeError('k7mx')).toBeNull();
+      expect(getRoomCodeError('k7mx3qab')).toBeNull();
+      expect(getRoomCodeError('ab10')).toBeNull();
+    });
+
+    it.each([
+      ['', 'Room code is required'],
+      ['K7M', 'Room code must be 4-8 characters'],
+      ['K7MX3QABC', 'Room code must be 4-8 characters'],
+      ['K7-X3Q', 'Room code must contain only letters and numbers'],
+      ['K7MX0Q', 'Room codes never contain 0, O, 1 or I - check for look-alike characters'],
+    ])('explains what is wrong with %p', (code, error) => {
+      expect(getRoomCodeError(code)).toBe(error);
+    });
+  });
+});
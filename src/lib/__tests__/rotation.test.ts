@@ -0,0 +1,102 @@
+import { getNextRotation, getQueueEstimates, getTeamPlayers, toTeam } from '../rotation';
+import type { Lobby, Player } from '@/types/lobby';
+
+const player = (uid: string): Player => ({ uid, displayName: uid.toUpperCase() });
+const uids = (players: Player[]): string[] => players.map((p) => p.uid);
+
+const lobbyWith = (gameMode: Lobby['gameMode'], team1: string[], team2: string[], waiting: string[]): Lobby =>
+  ({
+    gameMode,
+    team1: toTeam(team1.map(player)),
+    team2: toTeam(team2.map(player)),
+    waitingPlayers: waiting.map(player),
+  }) as Lobby;
+
+describe('Open-Play Rotation', () => {
+  describe('toTeam / getTeamPlayers', () => {
+    it('leaves player2 unset for a single player', () => {
+      expect(toTeam([player('a')])).toEqual({ player1: player('a') });
+    });
+
+    it('reads seated players in slot order', () => {
+      expect(uids(getTeamPlayers({ player2: player('b') }))).toEqual(['b']);
+      expect(uids(getTeamPlayers(toTeam([player('a'), player('b')])))).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('getNextRotation', () => {
+    it('keeps winners on their side and seats the front of the queue (winners stay)', () => {
+      const lobby = lobbyWith('doubles', ['a', 'b'], ['c', 'd'], ['e', 'f', 'g']);
+      const next = getNextRotation(lobby, 2, 'winners_stay');
+
+      expect(uids(getTeamPlayers(next.team1))).toEqual(['e', 'f']);
+      expect(uids(getTeamPlayers(next.team2))).toEqual(['c', 'd']);
+      expect(uids(next.waitingPlayers)).toEqual(['g', 'a', 'b']);
+    });
+
+    it('pulls the losers straight back on with a short queue (winners stay)', () => {
+      const lobby = lobbyWith('doubles', ['a', 'b'], ['c', 'd'], ['e']);
+      const next = getNextRotation(lobby, 1, 'winners_stay');
+
+      expect(uids(getTeamPlayers(next.team1))).toEqual(['a', 'b']);
+      expect(uids(getTeamPlayers(next.team2))).toEqual(['e', 'c']);
+      expect(uids(next.waitingPlayers)).toEqual(['d']);
+    });
+
+    it('replays the same game when nobody is waiting (winners stay)', () => {
+      const next = getNextRotation(lobbyWith('singles', ['a'], ['b'], []), 1, 'winners_stay');
+
+      expect(next.team1).toEqual({ player1: player('a') });
+      expect(next.team2).toEqual({ player1: player('b') });
+      expect(next.waitingPlayers).toEqual([]);
+    });
+
+    it('rotates every player out and seats the queue team 1 first (everyone rotates)', () => {
+      const lobby = lobbyWith('doubles', ['a', 'b'], ['c', 'd'], ['e', 'f', 'g', 'h', 'i']);
+      const next = getNextRotation(lobby, 1, 'everyone_rotates');
+
+      expect(uids(getTeamPlayers(next.team1))).toEqual(['e', 'f']);
+      expect(uids(getTeamPlayers(next.team2))).toEqual(['g', 'h']);
+      expect(uids(next.waitingPlayers)).toEqual(['i', 'a', 'b', 'c', 'd']);
+    });
+
+    it('queues winners ahead of losers when everyone rotates', () => {
+      const lobby = lobbyWith('singles', ['a'], ['b'], ['c']);
+      const next = getNextRotation(lobby, 2, 'everyone_rotates');
+
+      expect(uids(getTeamPlayers(next.team1))).toEqual(['c']);
+      expect(uids(getTeamPlayers(next.team2))).toEqual(['b']);
+      expect(uids(next.waitingPlayers)).toEqual(['a']);
+    });
+  });
+
+  describe('getQueueEstimates', () => {
+    const lobby = lobbyWith('doubles', ['a', 'b'], ['c', 'd'], ['e', 'f', 'g', 'h', 'i']);
+
+    it('frees one team of seats per game when winners stay', () => {
+      const estimates = getQueueEstimates(lobby, 'winners_stay');
+      expect(estimates.map((e) => [e.player.uid, e.position, e.gamesToWait])).toEqual([
+        ['e', 1, 1],
+        ['f', 2, 1],
+        ['g', 3, 2],
+        ['h', 4, 2],
+        ['i', 5, 3],
+      ]);
+    });
+
+    it('frees every seat per game when everyone rotates', () => {
+      const estimates = getQueueEstimates(lobby, 'everyone_rotates', 10);
+      expect(estimates.map((e) => [e.gamesToWait, e.minutes])).toEqual([
+        [1, 10],
+        [1, 10],
+        [1, 10],
+        [1, 10],
+        [2, 20],
+      ]);
+    });
+
+    it('returns nothing for an empty queue', () => {
+      expect(getQueueEstimates(lobbyWith('singles', ['a'], ['b'], []), 'winners_stay')).toEqual([]);
+    });
+  });
+});
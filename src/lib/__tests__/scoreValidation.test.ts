@@ -1,4 +1,10 @@
-import { getValidScoreRange, isValidPickleballScore, clampScoreToRange } from '../scoreValidation';
+import {
+  getValidScoreRange,
+  isValidPickleballScore,
+  clampScoreToRange,
+  getMatchResult,
+} from '../scoreValidation';
+import type { GameFormat } from '@/types/game';
 
 describe('Pickleball Score Validation', () => {
   describe('getValidScoreRange', () => {
@@ -81,6 +87,73 @@ describe('Pickleball Score Validation', () => {
     });
   });
 
+  describe('custom game formats', () => {
+    const to15: GameFormat = { pointsToWin: 15, winBy: 2, bestOf: 1 };
+    const to11WinBy1: GameFormat = { pointsToWin: 11, winBy: 1, bestOf: 1 };
+
+    it('accepts 15-13 and 17-15 when playing to 15', () => {
+      expect(isValidPickleballScore(15, 13, to15).valid).toBe(true);
+      expect(isValidPickleballScore(17, 15, to15).valid).toBe(true);
+    });
+
+    it('rejects 11-5 when playing to 15', () => {
+      const result = isValidPickleballScore(11, 5, to15);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('15 points');
+    });
+
+    it('accepts 11-10 when playing win by 1', () => {
+      expect(isValidPickleballScore(11, 10, to11WinBy1).valid).toBe(true);
+    });
+
+    it('rejects 12-10 when playing win by 1 (would have ended at 11)', () => {
+      expect(isValidPickleballScore(12, 10, to11WinBy1).valid).toBe(false);
+    });
+
+    it('caps the range at the target when playing win by 1', () => {
+      expect(getValidScoreRange(10, to11WinBy1).max).toBe(11);
+      expect(getValidScoreRange(11, to11WinBy1).max).toBe(10);
+    });
+  });
+
+  describe('getMatchResult', () => {
+    const bestOf3: GameFormat = { pointsToWin: 11, winBy: 2, bestOf: 3 };
+
+    it('decides the winner from games won', () => {
+      const result = getMatchResult([
+        { team1: 11, team2: 7 },
+        { team1: 9, team2: 11 },
+        { team1: 11, team2: 5 },
+      ], bestOf3);
+      expect(result.valid).toBe(true);
+      expect(result.winner).toBe(1);
+      expect(result.gamesWon).toEqual({ team1: 2, team2: 1 });
+    });
+
+    it('rejects a match that is not finished', () => {
+      const result = getMatchResult([{ team1: 11, team2: 7 }], bestOf3);
+      expect(result.valid).toBe(false);
+    });
+
+    it('rejects games played after the match was decided', () => {
+      const result = getMatchResult([
+        { team1: 11, team2: 7 },
+        { team1: 11, team2: 4 },
+        { team1: 5, team2: 11 },
+      ], bestOf3);
+      expect(result.valid).toBe(false);
+    });
+
+    it('rejects an invalid game score', () => {
+      const result = getMatchResult([
+        { team1: 11, team2: 10 },
+        { team1: 11, team2: 4 },
+      ], bestOf3);
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain('Game 1');
+    });
+  });
+
   describe('clampScoreToRange', () => {
     it('returns value if within range', () => {
       const range = { min: 0, max: 11, explanation: '' };
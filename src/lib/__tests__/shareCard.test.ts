@@ -0,0 +1,107 @@
+import { formatRatingDelta, getProfileUrl, getShareCardData } from '../shareCard';
+import type { Timestamp } from 'firebase/firestore';
+import type { Lobby, Player } from '@/types/lobby';
+
+const completedAt = new Date(2026, 6, 4, 18);
+const at = { toMillis: () => completedAt.getTime(), toDate: () => completedAt } as Timestamp;
+const p = (uid: string, fields: Partial<Player> = {}): Player => ({ uid, displayName: uid.toUpperCase(), ...fields });
+
+const lobby = (fields: Partial<Lobby> = {}): Lobby => ({
+  roomCode: 'K7MX3Q',
+  hostId: 'a',
+  gameMode: 'singles',
+  team1: { player1: p('a', { photoURL: 'https://example.com/a.png' }) },
+  team2: { player1: p('b') },
+  gameStarted: true,
+  gameCompleted: true,
+  gameCompletedAt: at,
+  finalScores: { team1: 11, team2: 7 },
+  finalGames: [{ team1: 11, team2: 7 }],
+  winner: 1,
+  pointChanges: { a: 12, b: -12 },
+  createdAt: at,
+  lastActivity: at,
+  ...fields,
+});
+
+describe('Share Card', () => {
+  describe('formatRatingDelta', () => {
+    it.each([
+      [12, '+12'],
+      [-8, '-8'],
+      [0, '0'],
+    ])('formats %i as %s', (delta, text) => {
+      expect(formatRatingDelta(delta)).toBe(text);
+    });
+  });
+
+  describe('getProfileUrl', () => {
+    it("links to the player's profile", () => {
+      expect(getProfileUrl('dink_master')).toBe('https://picklebean-ranking-app.web.app/profile/dink_master');
+    });
+  });
+
+  describe('getShareCardData', () => {
+    it('is null before the match has a result', () => {
+      expect(getShareCardData(lobby({ finalScores: undefined }))).toBeNull();
+      expect(getShareCardData(lobby({ winner: undefined }))).toBeNull();
+    });
+
+    it('lays out a singles result', () => {
+      expect(getShareCardData(lobby(), 'ana')).toEqual({
+        team1: {
+          players: [{ uid: 'a', displayName: 'A', photoURL: 'https://example.com/a.png', ratingDelta: 12 }],
+          score: 11,
+          isWinner: true,
+        },
+        team2: {
+          players: [{ uid: 'b', displayName: 'B', ratingDelta: -12 }],
+          score: 7,
+          isWinner: false,
+        },
+        gameScores: null,
+        categoryLabel: 'Singles',
+        dateLabel: completedAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }),
+        profileUrl: 'https://picklebean-ranking-app.web.app/profile/ana',
+      });
+    });
+
+    it('lists every game of a best-of-N match', () => {
+      const data = getShareCardData(lobby({
+        finalScores: { team1: 1, team2: 2 },
+        finalGames: [{ team1: 11, team2: 7 }, { team1: 9, team2: 11 }, { team1: 5, team2: 11 }],
+        winner: 2,
+      }));
+
+      expect(data?.gameScores).toBe('11-7 · 9-11 · 5-11');
+      expect(data?.team2.isWinner).toBe(true);
+    });
+
+    it('shows both doubles players and no delta for unrated players', () => {
+      const data = getShareCardData(lobby({
+        gameMode: 'doubles',
+        gameCategory: 'mixed_doubles',
+        team1: { player1: p('a'), player2: p('b') },
+        team2: { player1: p('c'), player2: p('d') },
+        pointChanges: { a: 10, b: 10, c: -10 },
+      }));
+
+      expect(data?.categoryLabel).toBe('Mixed Doubles');
+      expect(data?.team1.players.map((player) => player.uid)).toEqual(['a', 'b']);
+      expect(data?.team2.players.map((player) => player.ratingDelta)).toEqual([-10, null]);
+    });
+
+    it('works out the category for lobbies from before it was stored', () => {
+      expect(getShareCardData(lobby())?.categoryLabel).toBe('Singles');
+      expect(getShareCardData(lobby({
+        gameMode: 'doubles',
+        team1: { player1: p('a'), player2: p('b') },
+        team2: { player1: p('c'), player2: p('d') },
+      }))?.categoryLabel).toBe('Same Gender Doubles');
+    });
+
+    it('has no profile link without a username', () => {
+      expect(getShareCardData(lobby())?.profileUrl).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { getSlotChangeMessage } from '../slotChanges';
+
+describe('Slot Change Messages', () => {
+  describe('getSlotChangeMessage', () => {
+    it('says nothing when the change went through first time', () => {
+      expect(getSlotChangeMessage({ ok: true, retried: false, slot: { team: 1, slot: 2 } })).toBeNull();
+      expect(getSlotChangeMessage({ ok: true, retried: false })).toBeNull();
+    });
+
+    it('says where a retried join landed', () => {
+      expect(getSlotChangeMessage({ ok: true, retried: true, slot: { team: 2, slot: 1 } }))
+        .toBe('Slot taken, retried - seated on Team 2');
+      expect(getSlotChangeMessage({ ok: true, retried: true, queued: true }))
+        .toBe('Slot taken, retried - added to the queue');
+    });
+
+    it('says nothing for a retried leave, move or removal', () => {
+      expect(getSlotChangeMessage({ ok: true, retried: true })).toBeNull();
+    });
+
+    it.each([
+      ['not_found', 'Lobby not found. It may have been closed.'],
+      ['full', 'Lobby is full'],
+      ['already_seated', 'Already in this lobby'],
+      ['slot_changed', 'Someone else just changed the teams. Check them and try again.'],
+      ['game_started', 'The game has already started'],
+      ['conflict', 'Slot taken, retrying failed. Please try again.'],
+    ] as const)('explains %s', (error, message) => {
+      expect(getSlotChangeMessage({ ok: false, error, retried: false })).toBe(message);
+    });
+
+    it('says when the lobby filled up during a retry', () => {
+      expect(getSlotChangeMessage({ ok: false, error: 'full', retried: true }))
+        .toBe('Slot taken, retried - the lobby is now full');
+    });
+
+    it('falls back to a generic message without an error', () => {
+      expect(getSlotChangeMessage({ ok: false, retried: false })).toBe('Something went wrong. Please try again.');
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { getPairingTeams, getTeamPairings } from '../teamBalance';
+import type { BalancePlayer } from '../teamBalance';
+
+const balancePlayer = (
+  uid: string,
+  rating: number,
+  fields: Partial<BalancePlayer> = {}
+): BalancePlayer => ({
+  player: { uid, displayName: uid.toUpperCase() },
+  rankings: { sameGenderDoubles: rating },
+  ...fields,
+});
+
+const pairingIds = (pairing: { team1: BalancePlayer[]; team2: BalancePlayer[] }) => [
+  pairing.team1.map((p) => p.player.uid),
+  pairing.team2.map((p) => p.player.uid),
+];
+
+describe('Team Balancing', () => {
+  describe('getTeamPairings', () => {
+    it('lists all three pairings with the first player on team 1', () => {
+      const pairings = getTeamPairings([
+        balancePlayer('a', 1000),
+        balancePlayer('b', 1000),
+        balancePlayer('c', 1000),
+        balancePlayer('d', 1000),
+      ]);
+
+      expect(pairings).toHaveLength(3);
+      pairings.forEach((pairing) => expect(pairing.team1[0].player.uid).toBe('a'));
+      expect(pairings.map((p) => p.team1[1].player.uid).sort()).toEqual(['b', 'c', 'd']);
+    });
+
+    it('puts the strongest player with the weakest first', () => {
+      const pairings = getTeamPairings([
+        balancePlayer('a', 1400),
+        balancePlayer('b', 1300),
+        balancePlayer('c', 1100),
+        balancePlayer('d', 1000),
+      ]);
+
+      expect(pairingIds(pairings[0])).toEqual([['a', 'd'], ['b', 'c']]);
+      expect(pairings[0].ratingGap).toBe(0);
+      expect(pairings[0].team1WinProbability).toBeCloseTo(0.5, 6);
+      expect(pairings.map((p) => p.ratingGap)).toEqual([...pairings.map((p) => p.ratingGap)].sort((x, y) => x - y));
+    });
+
+    it('marks the current teams and keeps them first on a tie', () => {
+      const pairings = getTeamPairings([
+        balancePlayer('a', 1200),
+        balancePlayer('b', 1000),
+        balancePlayer('c', 1200),
+        balancePlayer('d', 1000),
+      ]);
+
+      expect(pairings[0].isCurrent).toBe(true);
+      expect(pairingIds(pairings[0])).toEqual([['a', 'b'], ['c', 'd']]);
+      expect(pairings.filter((p) => p.isCurrent)).toHaveLength(1);
+    });
+
+    it('favours the stronger team in the win probability', () => {
+      const pairings = getTeamPairings([
+        balancePlayer('a', 1500),
+        balancePlayer('b', 1400),
+        balancePlayer('c', 1000),
+        balancePlayer('d', 900),
+      ]);
+      const current = pairings.find((p) => p.isCurrent);
+
+      expect(current?.team1Rating).toBeGreaterThan(current?.team2Rating ?? Infinity);
+      expect(current?.team1WinProbability).toBeGreaterThan(0.5);
+    });
+
+    it('counts unrated players as 1000', () => {
+      const [pairing] = getTeamPairings([
+        balancePlayer('a', 1000, { rankings: undefined }),
+        balancePlayer('b', 1000),
+        balancePlayer('c', 1000),
+        balancePlayer('d', 1000, { rankings: {} }),
+      ]);
+
+      expect(pairing.ratingGap).toBe(0);
+    });
+
+    it('rates each pairing on the track it would count towards', () => {
+      const man = (uid: string, sameGender: number, mixed: number) =>
+        balancePlayer(uid, 0, { gender: 'male', rankings: { sameGenderDoubles: sameGender, mixedDoubles: mixed } });
+      const woman = (uid: string, sameGender: number, mixed: number) =>
+        balancePlayer(uid, 0, { gender: 'female', rankings: { sameGenderDoubles: sameGender, mixedDoubles: mixed } });
+
+      // Seated as two men against two women, which is not mixed
+      const pairings = getTeamPairings([
+        man('a', 1000, 1400),
+        man('b', 1000, 1400),
+        woman('c', 1000, 1000),
+        woman('d', 1000, 1000),
+      ]);
+      const current = pairings.find((p) => p.isCurrent);
+      const mixed = pairings.filter((p) => !p.isCurrent);
+
+      expect(current).toMatchObject({ category: 'same_gender_doubles', ratingGap: 0 });
+      mixed.forEach((pairing) => {
+        expect(pairing).toMatchObject({ category: 'mixed_doubles', team1Rating: 1200, team2Rating: 1200 });
+      });
+    });
+  });
+
+  describe('getPairingTeams', () => {
+    it('seats a pairing as lobby teams', () => {
+      const [best] = getTeamPairings([
+        balancePlayer('a', 1400),
+        balancePlayer('b', 1300),
+        balancePlayer('c', 1100),
+        balancePlayer('d', 1000),
+      ]);
+
+      expect(getPairingTeams(best)).toEqual({
+        team1: { player1: best.team1[0].player, player2: best.team1[1].player },
+        team2: { player1: best.team2[0].player, player2: best.team2[1].player },
+      });
+    });
+  });
+});
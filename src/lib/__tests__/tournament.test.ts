@@ -0,0 +1,199 @@
+import {
+  applyMatchResult,
+  generateSchedule,
+  getBracketSeedOrder,
+  getRoundRobinRounds,
+  getTournamentStartError,
+  isScheduleComplete,
+  seedEntries,
+} from '../tournament';
+import type { TournamentMatch, TournamentPlayer } from '@/types/tournament';
+
+// p1 is the highest rated
+const players = (count: number): TournamentPlayer[] =>
+  Array.from({ length: count }, (_, i) => ({ uid: `p${i + 1}`, displayName: `Player ${i + 1}`, rating: 2000 - i * 100 }));
+
+const byId = (matches: TournamentMatch[], id: string): TournamentMatch => {
+  const match = matches.find((m) => m.id === id);
+  if (!match) throw new Error(`No match ${id}`);
+  return match;
+};
+
+// Applies a result and merges the changed matches back into the schedule
+const play = (matches: TournamentMatch[], id: string, winner: 1 | 2): TournamentMatch[] => {
+  const changed = applyMatchResult(matches, id, winner, [{ team1: 11, team2: 5 }], { team1: 11, team2: 5 });
+  return matches.map((match) => changed.find((c) => c.id === match.id) ?? match);
+};
+
+describe('Tournament Scheduling', () => {
+  describe('getTournamentStartError', () => {
+    it('requires enough players for the format', () => {
+      expect(getTournamentStartError({ format: 'round_robin', gameMode: 'singles', players: players(2), poolCount: 1 }))
+        .toBe('At least 3 players are needed');
+      expect(getTournamentStartError({ format: 'double_elimination', gameMode: 'doubles', players: players(6), poolCount: 1 }))
+        .toBe('At least 8 players are needed');
+    });
+
+    it('requires an even number of players for fixed doubles pairs', () => {
+      expect(getTournamentStartError({ format: 'single_elimination', gameMode: 'doubles', players: players(5), poolCount: 1 }))
+        .toBe('Doubles needs an even number of players');
+    });
+
+    it('requires three entries in every pool', () => {
+      expect(getTournamentStartError({ format: 'round_robin', gameMode: 'singles', players: players(5), poolCount: 2 }))
+        .toBe('Each pool needs at least 3 entries');
+      expect(getTournamentStartError({ format: 'round_robin', gameMode: 'singles', players: players(6), poolCount: 2 }))
+        .toBeNull();
+    });
+
+    it('only runs rotating partners as doubles', () => {
+      expect(getTournamentStartError({ format: 'rotating_partners', gameMode: 'singles', players: players(4), poolCount: 1 }))
+        .toBe('Rotating partners is a doubles format');
+    });
+  });
+
+  describe('seedEntries', () => {
+    it('seeds singles entries by rating', () => {
+      const entries = seedEntries([...players(3)].reverse(), 'single_elimination', 'singles');
+      expect(entries.map((e) => [e.seed, e.id])).toEqual([[1, 'p1'], [2, 'p2'], [3, 'p3']]);
+    });
+
+    it('pairs the strongest remaining player with the weakest in doubles', () => {
+      const entries = seedEntries(players(4), 'single_elimination', 'doubles');
+      expect(entries.map((e) => e.playerIds)).toEqual([['p1', 'p4'], ['p2', 'p3']]);
+    });
+
+    it('fills round-robin pools in snake order', () => {
+      const entries = seedEntries(players(6), 'round_robin', 'singles', 2);
+      expect(entries.map((e) => e.pool)).toEqual([0, 1, 1, 0, 0, 1]);
+    });
+  });
+
+  describe('getRoundRobinRounds', () => {
+    it.each([4, 5, 6, 7])('pairs %i entries so everyone meets everyone once', (count) => {
+      const items = Array.from({ length: count }, (_, i) => i);
+      const rounds = getRoundRobinRounds(items);
+      const meetings = rounds
+        .flat()
+        .filter((pair): pair is [number, number] => pair[0] !== null && pair[1] !== null)
+        .map(([a, b]) => [Math.min(a, b), Math.max(a, b)].join('-'));
+
+      expect(rounds).toHaveLength(count % 2 === 0 ? count - 1 : count);
+      expect(new Set(meetings).size).toBe((count * (count - 1)) / 2);
+      expect(meetings).toHaveLength((count * (count - 1)) / 2);
+    });
+
+    it('sits one entry out each round with an odd count', () => {
+      const rounds = getRoundRobinRounds(['a', 'b', 'c', 'd', 'e']);
+      const sittingOut = rounds.map((pairs) => {
+        const pair = pairs.find(([a, b]) => a === null || b === null);
+        return pair?.[0] ?? pair?.[1];
+      });
+      expect([...sittingOut].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    });
+  });
+
+  describe('round robin schedule', () => {
+    it('schedules each pool separately', () => {
+      const entries = seedEntries(players(7), 'round_robin', 'singles', 2);
+      const matches = generateSchedule('round_robin', entries, 2);
+
+      // Pools of 4 and 3: 6 + 3 matches, none between pools
+      expect(matches).toHaveLength(9);
+      matches.forEach((match) => {
+        const pools = [match.team1, match.team2].map((side) => entries.find((e) => e.id === side?.entryId)?.pool);
+        expect(pools).toEqual([match.pool, match.pool]);
+        expect(match.status).toBe('ready');
+      });
+    });
+
+    it('gives every player a new partner each round in rotating partners', () => {
+      const entries = seedEntries(players(5), 'rotating_partners', 'doubles');
+      const matches = generateSchedule('rotating_partners', entries);
+      const partnerships = matches
+        .flatMap((match) => [match.team1?.playerIds, match.team2?.playerIds])
+        .map((ids) => [...(ids ?? [])].sort().join('&'));
+
+      expect(matches).toHaveLength(5);
+      expect(new Set(partnerships).size).toBe(partnerships.length);
+    });
+  });
+
+  describe('getBracketSeedOrder', () => {
+    it('keeps the top two seeds apart until the final', () => {
+      expect(getBracketSeedOrder(2)).toEqual([1, 2]);
+      expect(getBracketSeedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+  });
+
+  describe('single elimination', () => {
+    const entries = seedEntries(players(5), 'single_elimination', 'singles');
+    const matches = generateSchedule('single_elimination', entries);
+
+    it('pads an odd field to a power of two with byes for the top seeds', () => {
+      expect(matches.filter((m) => m.bracket === 'winners')).toHaveLength(7);
+      expect(matches.filter((m) => m.status === 'bye').map((m) => m.id)).toEqual(['w-r1-m0', 'w-r1-m2', 'w-r1-m3']);
+      expect(byId(matches, 'w-r1-m1')).toMatchObject({ status: 'ready', playerIds: ['p4', 'p5'] });
+    });
+
+    it('advances bye winners into the next round', () => {
+      expect(byId(matches, 'w-r2-m0')).toMatchObject({ status: 'pending', team1: { playerIds: ['p1'] }, team2: null });
+      expect(byId(matches, 'w-r2-m1')).toMatchObject({ status: 'ready', playerIds: ['p2', 'p3'] });
+    });
+
+    it('advances the winner of a played match', () => {
+      const changed = applyMatchResult(matches, 'w-r1-m1', 2, [{ team1: 9, team2: 11 }], { team1: 9, team2: 11 });
+
+      expect(changed.map((m) => m.id)).toEqual(['w-r1-m1', 'w-r2-m0']);
+      expect(changed[0]).toMatchObject({ status: 'completed', winner: 2, score: { team1: 9, team2: 11 } });
+      expect(changed[1]).toMatchObject({ status: 'ready', playerIds: ['p1', 'p5'] });
+    });
+
+    it('is complete once the final is played', () => {
+      let current = play(matches, 'w-r1-m1', 1);
+      current = play(current, 'w-r2-m0', 1);
+      expect(isScheduleComplete(current)).toBe(false);
+      current = play(current, 'w-r2-m1', 1);
+      current = play(current, 'w-r3-m0', 2);
+
+      expect(isScheduleComplete(current)).toBe(true);
+      expect(byId(current, 'w-r3-m0').team2?.playerIds).toEqual(['p2']);
+    });
+  });
+
+  describe('double elimination', () => {
+    const entries = seedEntries(players(4), 'double_elimination', 'singles');
+    const matches = generateSchedule('double_elimination', entries);
+
+    it('drops first-round losers into the losers bracket', () => {
+      let current = play(matches, 'w-r1-m0', 1);  // p1 beats p4
+      current = play(current, 'w-r1-m1', 2);      // p3 beats p2
+
+      expect(byId(current, 'w-r2-m0')).toMatchObject({ status: 'ready', playerIds: ['p1', 'p3'] });
+      expect(byId(current, 'l-r1-m0')).toMatchObject({ status: 'ready', playerIds: ['p4', 'p2'] });
+    });
+
+    it('sends the winners bracket loser and the losers bracket winner on to meet', () => {
+      let current = play(matches, 'w-r1-m0', 1);
+      current = play(current, 'w-r1-m1', 2);
+      current = play(current, 'l-r1-m0', 2);      // p2 survives
+      current = play(current, 'w-r2-m0', 1);      // p3 drops to the losers bracket
+
+      expect(byId(current, 'l-r2-m0')).toMatchObject({ status: 'ready', playerIds: ['p2', 'p3'] });
+
+      current = play(current, 'l-r2-m0', 1);
+      expect(byId(current, 'final')).toMatchObject({ status: 'ready', playerIds: ['p1', 'p2'] });
+
+      current = play(current, 'final', 1);
+      expect(isScheduleComplete(current)).toBe(true);
+    });
+
+    it('gives byes in the losers bracket to players whose opponent had a bye', () => {
+      const odd = generateSchedule('double_elimination', seedEntries(players(6), 'double_elimination', 'singles'));
+      const byes = odd.filter((m) => m.status === 'bye').map((m) => m.id);
+
+      expect(byes).toEqual(expect.arrayContaining(['w-r1-m0', 'w-r1-m2']));
+      expect(byId(odd, 'l-r1-m0').team1).toEqual({ playerIds: [] });
+    });
+  });
+});
@@ -0,0 +1,188 @@
+import {
+  getBracketRounds,
+  getChampionIds,
+  getRoundLabel,
+  getSideName,
+  getStandings,
+} from '../tournamentStandings';
+import type { GameScore } from '@/types/lobby';
+import type { TournamentEntry, TournamentMatch } from '@/types/tournament';
+
+const entry = (id: string, pool?: number): TournamentEntry => ({
+  id,
+  seed: Number(id.replace(/\D/g, '')) || 1,
+  playerIds: [id],
+  ...(pool !== undefined && { pool }),
+});
+
+// A completed pool match between two entries
+const result = (
+  a: string,
+  b: string,
+  winner: 1 | 2,
+  games: GameScore[],
+  pool?: number
+): TournamentMatch => ({
+  id: `${a}-${b}`,
+  bracket: 'pool',
+  round: 1,
+  position: 0,
+  ...(pool !== undefined && { pool }),
+  team1: { entryId: a, playerIds: [a] },
+  team2: { entryId: b, playerIds: [b] },
+  playerIds: [a, b],
+  status: 'completed',
+  winner,
+  games,
+  score: games.length === 1 ? games[0] : { team1: winner === 1 ? 2 : 1, team2: winner === 2 ? 2 : 1 },
+});
+
+describe('Tournament Standings', () => {
+  describe('getStandings', () => {
+    it('ranks by wins first', () => {
+      const standings = getStandings(
+        [entry('a'), entry('b'), entry('c')],
+        [
+          result('a', 'b', 2, [{ team1: 10, team2: 12 }]),
+          result('b', 'c', 1, [{ team1: 11, team2: 9 }]),
+          result('a', 'c', 1, [{ team1: 11, team2: 0 }]),
+        ]
+      );
+      expect(standings.map((row) => [row.id, row.wins, row.losses])).toEqual([
+        ['b', 2, 0],
+        ['a', 1, 1],
+        ['c', 0, 2],
+      ]);
+    });
+
+    it('breaks ties on wins by point difference', () => {
+      const standings = getStandings(
+        [entry('a'), entry('b'), entry('c')],
+        [
+          result('a', 'b', 1, [{ team1: 11, team2: 2 }]),   // a +9
+          result('b', 'c', 1, [{ team1: 11, team2: 9 }]),   // b -7
+          result('c', 'a', 1, [{ team1: 11, team2: 7 }]),   // c -2
+        ]
+      );
+      expect(standings.map((row) => row.id)).toEqual(['a', 'c', 'b']);
+    });
+
+    it('breaks ties on point difference by points scored', () => {
+      const standings = getStandings(
+        [entry('a'), entry('b'), entry('c'), entry('d')],
+        [
+          result('a', 'b', 1, [{ team1: 11, team2: 9 }]),
+          result('c', 'd', 1, [{ team1: 13, team2: 11 }]),
+        ]
+      );
+      expect(standings.map((row) => row.id)).toEqual(['c', 'a', 'd', 'b']);
+    });
+
+    it('totals the points of every game in best-of-N matches', () => {
+      const [winner] = getStandings(
+        [entry('a'), entry('b')],
+        [result('a', 'b', 1, [{ team1: 11, team2: 5 }, { team1: 8, team2: 11 }, { team1: 11, team2: 9 }])]
+      );
+      expect(winner).toMatchObject({ id: 'a', played: 1, pointsFor: 30, pointsAgainst: 25 });
+    });
+
+    it('ignores unplayed and bracket matches', () => {
+      const pending: TournamentMatch = { ...result('a', 'b', 1, [{ team1: 11, team2: 0 }]), status: 'ready', winner: undefined };
+      const bracket: TournamentMatch = { ...result('a', 'b', 1, [{ team1: 11, team2: 0 }]), bracket: 'winners' };
+      const standings = getStandings([entry('a'), entry('b')], [pending, bracket]);
+      expect(standings.every((row) => row.played === 0)).toBe(true);
+    });
+
+    it('credits each player of a rotating-partners pair', () => {
+      const match: TournamentMatch = {
+        id: 'rp-r1-m0',
+        bracket: 'pool',
+        round: 1,
+        position: 0,
+        team1: { playerIds: ['a', 'b'] },
+        team2: { playerIds: ['c', 'd'] },
+        playerIds: ['a', 'b', 'c', 'd'],
+        status: 'completed',
+        winner: 1,
+        score: { team1: 11, team2: 4 },
+      };
+      const standings = getStandings(['a', 'b', 'c', 'd'].map((id) => entry(id)), [match]);
+
+      expect(standings.filter((row) => row.wins === 1).map((row) => row.id).sort()).toEqual(['a', 'b']);
+      expect(standings.find((row) => row.id === 'c')).toMatchObject({ losses: 1, pointsFor: 4, pointsAgainst: 11 });
+    });
+  });
+
+  describe('getChampionIds', () => {
+    it('returns the leader of each pool', () => {
+      const entries = [entry('a', 0), entry('b', 0), entry('c', 1), entry('d', 1)];
+      const matches = [
+        result('a', 'b', 2, [{ team1: 4, team2: 11 }], 0),
+        result('c', 'd', 1, [{ team1: 11, team2: 6 }], 1),
+      ];
+      expect(getChampionIds({ format: 'round_robin', poolCount: 2, entries }, matches)).toEqual(['b', 'c']);
+    });
+
+    it('returns the winner of the last winners bracket match in single elimination', () => {
+      const final: TournamentMatch = {
+        ...result('a', 'b', 2, [{ team1: 9, team2: 11 }]),
+        id: 'w-r2-m0',
+        bracket: 'winners',
+        round: 2,
+      };
+      const semi: TournamentMatch = { ...result('a', 'c', 1, [{ team1: 11, team2: 3 }]), bracket: 'winners' };
+      expect(getChampionIds({ format: 'single_elimination', poolCount: 1 }, [semi, final])).toEqual(['b']);
+    });
+
+    it('returns the grand final winner in double elimination', () => {
+      const final: TournamentMatch = { ...result('a', 'b', 1, [{ team1: 11, team2: 7 }]), id: 'final', bracket: 'final' };
+      const winnersFinal: TournamentMatch = { ...result('b', 'a', 1, [{ team1: 11, team2: 7 }]), bracket: 'winners', round: 2 };
+      expect(getChampionIds({ format: 'double_elimination', poolCount: 1 }, [winnersFinal, final])).toEqual(['a']);
+    });
+  });
+
+  describe('getBracketRounds', () => {
+    it('groups a bracket by round, top to bottom', () => {
+      const match = (id: string, round: number, position: number): TournamentMatch => ({
+        ...result('a', 'b', 1, [{ team1: 11, team2: 0 }]),
+        id,
+        bracket: 'winners',
+        round,
+        position,
+      });
+      const rounds = getBracketRounds(
+        [match('w-r2-m0', 2, 0), match('w-r1-m1', 1, 1), match('w-r1-m0', 1, 0), result('x', 'y', 1, [{ team1: 11, team2: 0 }])],
+        'winners'
+      );
+      expect(rounds.map((round) => round.map((m) => m.id))).toEqual([['w-r1-m0', 'w-r1-m1'], ['w-r2-m0']]);
+    });
+  });
+
+  describe('getRoundLabel', () => {
+    it.each([
+      ['winners', 3, 3, 'Final'],
+      ['winners', 2, 3, 'Semifinals'],
+      ['winners', 2, 4, 'Quarterfinals'],
+      ['winners', 1, 4, 'Round 1'],
+      ['losers', 2, 4, 'Losers Round 2'],
+      ['final', 1, 1, 'Grand Final'],
+      ['pool', 3, 5, 'Round 3'],
+    ] as const)('labels %s round %i of %i as "%s"', (bracket, round, roundCount, label) => {
+      expect(getRoundLabel(bracket, round, roundCount)).toBe(label);
+    });
+  });
+
+  describe('getSideName', () => {
+    const players = [
+      { uid: 'a', displayName: 'Ana', rating: 1000 },
+      { uid: 'b', displayName: 'Ben', rating: 1000 },
+    ];
+
+    it('names pairs, byes and sides not yet known', () => {
+      expect(getSideName(['a', 'b'], players)).toBe('Ana & Ben');
+      expect(getSideName([], players)).toBe('BYE');
+      expect(getSideName(undefined, players)).toBe('TBD');
+      expect(getSideName(['z'], players)).toBe('Player');
+    });
+  });
+});
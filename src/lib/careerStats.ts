@@ -0,0 +1,90 @@
+/**
+ * Career Stats Utilities
+ * Rules for the career breakdown stored in a player's matchStats, so profiles
+ * can show career numbers without reading every match
+ * Shared by the settleMatch function, the backfill script and the app
+ */
+
+import type { MatchHistoryRecord, MatchStats } from '@/types/user';
+
+type CareerCountKey = 'singlesWins' | 'singlesLosses' | 'doublesWins' | 'doublesLosses';
+
+export type CareerStats = Required<MatchStats>;
+
+/**
+ * Gets the matchStats counter a settled match adds to
+ * @param gameType - Singles or doubles
+ * @param isWinner - Whether the player won
+ * @returns Counter key under matchStats
+ */
+export const getCareerCountKey = (
+  gameType: MatchHistoryRecord['gameType'],
+  isWinner: boolean
+): CareerCountKey => {
+  if (gameType === 'singles') {
+    return isWinner ? 'singlesWins' : 'singlesLosses';
+  }
+  return isWinner ? 'doublesWins' : 'doublesLosses';
+};
+
+/**
+ * Gets a player's streak after a match
+ * @param currentStreak - Streak before the match (positive wins, negative losses)
+ * @param isWinner - Whether the player won
+ * @returns Streak after the match
+ */
+export const getNextStreak = (currentStreak: number, isWinner: boolean): number => {
+  if (isWinner) {
+    return currentStreak > 0 ? currentStreak + 1 : 1;
+  }
+  return currentStreak < 0 ? currentStreak - 1 : -1;
+};
+
+/**
+ * Builds the career breakdown from a player's full match history
+ * @param records - The player's records, oldest first
+ * @returns Career stats as settleMatch would have accumulated them
+ */
+export const summarizeCareer = (records: MatchHistoryRecord[]): CareerStats => {
+  const stats: CareerStats = {
+    totalMatches: 0,
+    wins: 0,
+    losses: 0,
+    singlesWins: 0,
+    singlesLosses: 0,
+    doublesWins: 0,
+    doublesLosses: 0,
+    currentStreak: 0,
+    bestWinStreak: 0,
+  };
+
+  records.forEach((record) => {
+    const isWinner = record.result === 'win';
+    stats.totalMatches++;
+    stats[isWinner ? 'wins' : 'losses']++;
+    stats[getCareerCountKey(record.gameType, isWinner)]++;
+    stats.currentStreak = getNextStreak(stats.currentStreak, isWinner);
+    stats.bestWinStreak = Math.max(stats.bestWinStreak, stats.currentStreak);
+  });
+
+  return stats;
+};
+
+/**
+ * Gets a win rate as a whole percentage
+ * @param wins - Matches won
+ * @param losses - Matches lost
+ * @returns 0-100, or 0 before any matches
+ */
+export const getWinRate = (wins: number, losses: number): number => {
+  const total = wins + losses;
+  return total > 0 ? Math.round((wins / total) * 100) : 0;
+};
+
+/**
+ * Checks if a player's matchStats carries the career breakdown
+ * Players who have not played since it was added need the backfill first
+ */
+export const hasCareerBreakdown = (matchStats: MatchStats | undefined): boolean => {
+  return typeof matchStats?.bestWinStreak === 'number';
+};
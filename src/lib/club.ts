@@ -0,0 +1,84 @@
+/**
+ * Club Rules
+ * Roles, who may join and which matches count towards a club's leaderboard.
+ * Shared by the app and the settleMatch function (club standings)
+ */
+
+import type { Club, ClubJoinPolicy, ClubRole, ClubStanding } from '@/types/club';
+
+export const MAX_CLUB_MEMBERS = 200;
+export const MAX_CLUB_HOME_COURTS = 3;
+
+export const CLUB_JOIN_POLICY_LABELS: Record<ClubJoinPolicy, string> = {
+  open: 'Open',
+  request: 'Request to join',
+  invite: 'Invite only',
+};
+
+export const CLUB_ROLE_LABELS: Record<ClubRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  member: 'Member',
+};
+
+/**
+ * Gets a player's role in a club
+ * @param club - Club
+ * @param uid - Player
+ * @returns Role, or null if they are not a member
+ */
+export const getClubRole = (
+  club: Pick<Club, 'ownerId' | 'adminIds' | 'memberIds'>,
+  uid: string
+): ClubRole | null => {
+  if (!club.memberIds.includes(uid)) return null;
+  if (club.ownerId === uid) return 'owner';
+  if (club.adminIds.includes(uid)) return 'admin';
+  return 'member';
+};
+
+/**
+ * Checks if a player can manage a club's members (owner or admin)
+ */
+export const canManageClub = (club: Pick<Club, 'ownerId' | 'adminIds' | 'memberIds'>, uid: string): boolean => {
+  const role = getClubRole(club, uid);
+  return role === 'owner' || role === 'admin';
+};
+
+/**
+ * Checks if a player can join straight away, without asking
+ * @param club - Club
+ * @param uid - Player
+ * @returns true for open clubs and players with an invite
+ */
+export const canJoinDirectly = (club: Pick<Club, 'joinPolicy' | 'invitedIds'>, uid: string): boolean => {
+  return club.joinPolicy === 'open' || club.invitedIds.includes(uid);
+};
+
+/**
+ * Finds the clubs a match counts for: those every player belongs to
+ * @param clubs - Clubs of one of the players
+ * @param playerIds - Everyone who played
+ * @returns Clubs whose leaderboard the match goes on
+ */
+export const getClubsForMatch = <T extends Pick<Club, 'memberIds'>>(clubs: T[], playerIds: string[]): T[] => {
+  return clubs.filter((club) => playerIds.every((uid) => club.memberIds.includes(uid)));
+};
+
+/**
+ * Orders a club leaderboard: most wins first, then best win rate, then rating gained
+ * @param standings - Club standings
+ * @param memberIds - Current members; players who have left are dropped
+ * @returns Standings, best first
+ */
+export const rankClubStandings = (standings: ClubStanding[], memberIds: string[]): ClubStanding[] => {
+  const winRate = (standing: ClubStanding) => (standing.matches > 0 ? standing.wins / standing.matches : 0);
+
+  return standings
+    .filter((standing) => memberIds.includes(standing.uid))
+    .sort((a, b) =>
+      b.wins - a.wins ||
+      winRate(b) - winRate(a) ||
+      b.ratingGain - a.ratingGain
+    );
+};
@@ -0,0 +1,43 @@
+/**
+ * Expired Lobby Notices - AsyncStorage helpers tracking which expiry notices a player has dismissed
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+const SEEN_EXPIRED_LOBBIES_KEY = 'seen_expired_lobbies';
+const MAX_SEEN_EXPIRED_LOBBIES = 20;
+
+/**
+ * Get IDs of expiry notices the player has already dismissed
+ */
+export const getSeenExpiredLobbies = async (): Promise<string[]> => {
+  try {
+    const data = await AsyncStorage.getItem(SEEN_EXPIRED_LOBBIES_KEY);
+    return data ? JSON.parse(data) : [];
+  } catch (error) {
+    console.error('Error getting seen expired lobbies:', error);
+    return [];
+  }
+};
+
+/**
+ * Notice ID for an expired lobby
+ * Room codes are reused, so the cancellation time is part of the ID
+ */
+export const getExpiredLobbyNoticeId = (roomCode: string, cancelledAtMs: number): string => {
+  return `${roomCode}:${cancelledAtMs}`;
+};
+
+/**
+ * Mark an expiry notice as seen, keeping only the most recent few
+ */
+export const markExpiredLobbySeen = async (noticeId: string): Promise<void> => {
+  try {
+    const seen = await getSeenExpiredLobbies();
+    const updated = [noticeId, ...seen.filter(id => id !== noticeId)].slice(0, MAX_SEEN_EXPIRED_LOBBIES);
+
+    await AsyncStorage.setItem(SEEN_EXPIRED_LOBBIES_KEY, JSON.stringify(updated));
+  } catch (error) {
+    console.error('Error marking expired lobby seen:', error);
+  }
+};
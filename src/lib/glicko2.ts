@@ -0,0 +1,156 @@
+/**
+ * Glicko-2 Rating Utilities
+ * Pure functions for rating, deviation and volatility updates
+ * See http://www.glicko.net/glicko/glicko2.pdf
+ */
+
+/**
+ * A player's Glicko-2 state on the app's points scale
+ */
+export interface Glicko2Rating {
+  rating: number;
+  deviation: number;
+  volatility: number;
+}
+
+export const DEFAULT_DEVIATION = 350;
+export const DEFAULT_VOLATILITY = 0.06;
+export const MIN_DEVIATION = 30;
+
+// Deviation above which a rating is shown as provisional
+export const PROVISIONAL_DEVIATION = 110;
+
+// System constant: how much volatility may change per match
+const TAU = 0.5;
+// Converts between the points scale and the internal Glicko-2 scale
+const SCALE = 173.7178;
+// Ratings are centred on the default 1000 points (only differences matter)
+const CENTER = 1000;
+const CONVERGENCE = 0.000001;
+
+/**
+ * Reduces the impact of an opponent's result by their uncertainty
+ */
+const g = (phi: number): number => {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+};
+
+/**
+ * Expected score against an opponent on the internal scale
+ */
+const expected = (mu: number, opponentMu: number, opponentPhi: number): number => {
+  return 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+};
+
+/**
+ * Solves for the new volatility with the Illinois algorithm (step 5 of the paper)
+ */
+const solveVolatility = (phi: number, sigma: number, v: number, delta: number): number => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number): number => {
+    const ex = Math.exp(x);
+    const denom = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * denom * denom) - (x - a) / (TAU * TAU);
+  };
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) {
+      k++;
+    }
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA = fA / 2;
+    }
+    B = C;
+    fB = fC;
+  }
+
+  return Math.exp(A / 2);
+};
+
+/**
+ * Updates a player's Glicko-2 state after a single game
+ * @param player - Player's current state
+ * @param opponent - Opponent's current state (a team composite in doubles)
+ * @param score - 1 for a win, 0 for a loss
+ * @returns Player's new state
+ */
+export const updateGlicko2 = (
+  player: Glicko2Rating,
+  opponent: Glicko2Rating,
+  score: 0 | 1
+): Glicko2Rating => {
+  const mu = (player.rating - CENTER) / SCALE;
+  const phi = player.deviation / SCALE;
+  const opponentMu = (opponent.rating - CENTER) / SCALE;
+  const opponentPhi = opponent.deviation / SCALE;
+
+  const gPhi = g(opponentPhi);
+  const E = expected(mu, opponentMu, opponentPhi);
+  const v = 1 / (gPhi * gPhi * E * (1 - E));
+  const delta = v * gPhi * (score - E);
+
+  const newSigma = solveVolatility(phi, player.volatility, v, delta);
+  const phiStar = Math.sqrt(phi * phi + newSigma * newSigma);
+  const newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const newMu = mu + newPhi * newPhi * gPhi * (score - E);
+
+  return {
+    rating: newMu * SCALE + CENTER,
+    deviation: Math.min(DEFAULT_DEVIATION, Math.max(MIN_DEVIATION, newPhi * SCALE)),
+    volatility: newSigma,
+  };
+};
+
+/**
+ * Collapses a team into a single Glicko-2 opponent (identity for singles)
+ * Uses the mean rating and the root-mean-square deviation
+ * @param players - One player for singles, two for doubles
+ * @returns Composite opponent state
+ */
+export const getTeamGlicko2 = (players: Glicko2Rating[]): Glicko2Rating => {
+  if (players.length === 1) {
+    return players[0];
+  }
+
+  const count = players.length;
+  return {
+    rating: players.reduce((sum, p) => sum + p.rating, 0) / count,
+    deviation: Math.sqrt(players.reduce((sum, p) => sum + p.deviation * p.deviation, 0) / count),
+    volatility: players.reduce((sum, p) => sum + p.volatility, 0) / count,
+  };
+};
+
+/**
+ * Estimates a deviation for players rated before deviations were stored
+ * Shrinks from the default as games are played
+ * @param gamesPlayed - Total games played
+ * @returns Estimated rating deviation
+ */
+export const estimateDeviation = (gamesPlayed: number): number => {
+  return Math.max(2 * MIN_DEVIATION, DEFAULT_DEVIATION / Math.sqrt(1 + gamesPlayed / 5));
+};
+
+/**
+ * Checks if a rating is still too uncertain to be considered established
+ * @param deviation - Rating deviation
+ * @returns true if the rating should be shown as provisional
+ */
+export const isProvisionalDeviation = (deviation: number): boolean => {
+  return deviation > PROVISIONAL_DEVIATION;
+};
@@ -0,0 +1,125 @@
+/**
+ * Head-to-Head Utilities
+ * Aggregates match history records into records between two players and
+ * results with each doubles partner
+ */
+
+import type {
+  HeadToHeadMeeting,
+  HeadToHeadStats,
+  MatchHistoryRecord,
+  PartnerStats,
+} from '@/types/user';
+
+// Meetings listed on a head-to-head card
+export const RECENT_MEETINGS_COUNT = 5;
+
+// Partners need a few games together before a win rate means much
+export const MIN_PARTNER_MATCHES = 2;
+
+/**
+ * Gets the record's createdAt as a Date (Firestore returns a Timestamp)
+ */
+const toDate = (value: MatchHistoryRecord['createdAt'] | { toDate: () => Date }): Date => {
+  return 'toDate' in value ? value.toDate() : value;
+};
+
+/**
+ * Works out the points the player won minus the points they lost
+ * Records do not store the player's team, so it is taken from the result:
+ * the winning team is the one with the higher match score.
+ * @param record - Player's match history record
+ * @returns Signed point margin (positive for wins), or 0 without a score
+ */
+export const getScoreMargin = (record: MatchHistoryRecord): number => {
+  if (!record.score) return 0;
+
+  const team1Won = record.score.team1 > record.score.team2;
+  const isTeam1 = team1Won === (record.result === 'win');
+  const games = record.games && record.games.length > 0 ? record.games : [record.score];
+
+  return games.reduce(
+    (margin, game) => margin + (isTeam1 ? game.team1 - game.team2 : game.team2 - game.team1),
+    0
+  );
+};
+
+const toMeeting = (
+  record: MatchHistoryRecord,
+  relation: HeadToHeadMeeting['relation']
+): HeadToHeadMeeting => ({
+  matchId: record.id,
+  relation,
+  result: record.result,
+  margin: getScoreMargin(record),
+  ...(record.score && { score: record.score }),
+  createdAt: toDate(record.createdAt),
+});
+
+/**
+ * Summarises the record between two players
+ * @param opponentRecords - First player's records against the second
+ * @param partnerRecords - First player's records partnering the second
+ * @returns Head-to-head stats from the first player's side
+ */
+export const summarizeHeadToHead = (
+  opponentRecords: MatchHistoryRecord[],
+  partnerRecords: MatchHistoryRecord[]
+): HeadToHeadStats => {
+  const wins = opponentRecords.filter((r) => r.result === 'win').length;
+  const totalMargin = opponentRecords.reduce((sum, r) => sum + getScoreMargin(r), 0);
+
+  const recentMeetings = [
+    ...opponentRecords.map((r) => toMeeting(r, 'opponent')),
+    ...partnerRecords.map((r) => toMeeting(r, 'partner')),
+  ]
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+    .slice(0, RECENT_MEETINGS_COUNT);
+
+  return {
+    wins,
+    losses: opponentRecords.length - wins,
+    partnerWins: partnerRecords.filter((r) => r.result === 'win').length,
+    partnerLosses: partnerRecords.filter((r) => r.result === 'loss').length,
+    averageMargin: opponentRecords.length > 0
+      ? Math.round((totalMargin / opponentRecords.length) * 10) / 10
+      : null,
+    recentMeetings,
+  };
+};
+
+/**
+ * Ranks a player's doubles partners by win rate
+ * @param records - Player's match history records
+ * @param minMatches - Matches together needed to be ranked
+ * @returns Partners sorted by win rate, then by matches played together
+ */
+export const getBestPartners = (
+  records: MatchHistoryRecord[],
+  minMatches: number = MIN_PARTNER_MATCHES
+): PartnerStats[] => {
+  const byPartner = new Map<string, PartnerStats>();
+
+  records.forEach((record) => {
+    if (!record.partnerId) return;
+
+    const stats = byPartner.get(record.partnerId) ?? {
+      partnerId: record.partnerId,
+      partnerName: record.partnerName || 'Unknown',
+      wins: 0,
+      losses: 0,
+      winRate: 0,
+    };
+    if (record.result === 'win') stats.wins++;
+    else stats.losses++;
+    byPartner.set(record.partnerId, stats);
+  });
+
+  return [...byPartner.values()]
+    .filter((stats) => stats.wins + stats.losses >= minMatches)
+    .map((stats) => ({
+      ...stats,
+      winRate: Math.round((stats.wins / (stats.wins + stats.losses)) * 100),
+    }))
+    .sort((a, b) => b.winRate - a.winRate || (b.wins + b.losses) - (a.wins + a.losses));
+};
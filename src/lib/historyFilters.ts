@@ -0,0 +1,110 @@
+/**
+ * History Filter Utilities
+ * Options for the match history filter bar
+ */
+
+import type { MatchHistoryFilters, MatchHistoryRecord } from '@/types/user';
+
+export type HistoryDateRange = 'all' | '30d' | '90d' | 'year';
+
+export const HISTORY_DATE_RANGE_LABELS: Record<HistoryDateRange, string> = {
+  all: 'All Time',
+  '30d': 'Last 30 Days',
+  '90d': 'Last 90 Days',
+  year: 'This Year',
+};
+
+export const HISTORY_CATEGORY_LABELS: Record<NonNullable<MatchHistoryFilters['category']>, string> = {
+  singles: 'Singles',
+  same_gender_doubles: 'Doubles',
+  mixed_doubles: 'Mixed',
+};
+
+// A player the user has met, offered as an opponent/partner filter
+export interface HistoryPlayerOption {
+  uid: string;
+  name: string;
+  matches: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Gets the start of a date range preset
+ * @param range - Date range preset
+ * @param now - Current time
+ * @returns Earliest match date, or undefined for all time
+ */
+export const getDateRangeStart = (range: HistoryDateRange, now: Date = new Date()): Date | undefined => {
+  switch (range) {
+    case '30d':
+      return new Date(now.getTime() - 30 * DAY_MS);
+    case '90d':
+      return new Date(now.getTime() - 90 * DAY_MS);
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1);
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Lists the players in loaded history, most often met first
+ * @param records - Loaded match history
+ * @returns Opponents and partners with how many loaded matches included them
+ */
+export const getHistoryPlayers = (records: MatchHistoryRecord[]): HistoryPlayerOption[] => {
+  const players = new Map<string, HistoryPlayerOption>();
+
+  const addPlayer = (uid: string, name: string) => {
+    const option = players.get(uid) ?? { uid, name, matches: 0 };
+    option.matches++;
+    players.set(uid, option);
+  };
+
+  records.forEach((record) => {
+    record.opponentIds?.forEach((uid, index) => addPlayer(uid, record.opponentNames[index] || 'Unknown'));
+    if (record.partnerId) addPlayer(record.partnerId, record.partnerName || 'Unknown');
+  });
+
+  return [...players.values()].sort((a, b) => b.matches - a.matches);
+};
+
+// Filter bar selections; converted to query filters with toMatchHistoryFilters
+export interface HistoryFilterState {
+  category?: MatchHistoryFilters['category'];
+  result?: MatchHistoryFilters['result'];
+  player?: HistoryPlayerOption;
+  relation?: MatchHistoryFilters['relation'];
+  dateRange: HistoryDateRange;
+}
+
+export const EMPTY_HISTORY_FILTERS: HistoryFilterState = { dateRange: 'all' };
+
+/**
+ * Converts filter bar selections into match history filters
+ * @param state - Filter bar selections
+ * @param now - Current time, for date range presets
+ * @returns Filters for useMatches
+ */
+export const toMatchHistoryFilters = (
+  state: HistoryFilterState,
+  now: Date = new Date()
+): MatchHistoryFilters => {
+  const from = getDateRangeStart(state.dateRange, now);
+
+  return {
+    ...(state.category && { category: state.category }),
+    ...(state.result && { result: state.result }),
+    ...(state.player && { otherPlayerId: state.player.uid }),
+    ...(state.player && state.relation && { relation: state.relation }),
+    ...(from && { from }),
+  };
+};
+
+/**
+ * Checks if any filter bar selection is set
+ */
+export const hasHistoryFilters = (state: HistoryFilterState): boolean => {
+  return !!(state.category || state.result || state.player || state.dateRange !== 'all');
+};
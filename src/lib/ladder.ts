@@ -0,0 +1,155 @@
+/**
+ * Ladder Rules
+ * Who may challenge whom, how a result moves the rungs and how a new season
+ * starts. Shared by the app (challenges, seasons) and the settleMatch
+ * function (results)
+ */
+
+import type {
+  Ladder,
+  LadderChallenge,
+  LadderSeasonMode,
+} from '@/types/ladder';
+
+export const MAX_LADDER_MEMBERS = 100;
+
+export const CHALLENGE_RANGE_OPTIONS = [1, 2, 3, 5];
+export const DEFAULT_CHALLENGE_RANGE = 3;
+
+export const CHALLENGE_EXPIRY_DAYS_OPTIONS = [3, 7, 14];
+export const DEFAULT_CHALLENGE_EXPIRY_DAYS = 7;
+
+export const LADDER_SEASON_MODE_LABELS: Record<LadderSeasonMode, string> = {
+  reset: 'Reset by rating',
+  decay: 'Inactive players drop',
+};
+
+/**
+ * Gets a member's rung
+ * @param rungs - Member UIDs, top rung first
+ * @param uid - Member to find
+ * @returns 1-based rung, or null if they are not on the ladder
+ */
+export const getRung = (rungs: string[], uid: string): number | null => {
+  const index = rungs.indexOf(uid);
+  return index >= 0 ? index + 1 : null;
+};
+
+/**
+ * Checks if a challenge still ties up its two players
+ * A pending challenge past its deadline is treated as expired before the
+ * sweep marks it; an accepted one stays open while its game may be in play.
+ * @param challenge - Challenge to check
+ * @param nowMs - Current time in epoch ms
+ * @returns True while the challenge is waiting to be accepted or played
+ */
+export const isChallengeOpen = (challenge: LadderChallenge, nowMs: number): boolean => {
+  if (challenge.status === 'accepted') return true;
+  return challenge.status === 'pending' && challenge.expiresAt.toMillis() > nowMs;
+};
+
+/**
+ * Gets the deadline for a new challenge
+ * @param nowMs - Time the challenge is made, in epoch ms
+ * @param expiryDays - Ladder's challenge window
+ * @returns Deadline in epoch ms
+ */
+export const getChallengeExpiry = (nowMs: number, expiryDays: number): number => {
+  return nowMs + expiryDays * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Checks whether one member may challenge another
+ * @param ladder - Ladder both players are on
+ * @param challengerId - Member making the challenge
+ * @param defenderId - Member being challenged
+ * @param openChallenges - The ladder's open challenges
+ * @returns Reason the challenge is not allowed, or null
+ */
+export const getChallengeError = (
+  ladder: Pick<Ladder, 'rungs' | 'challengeRange'>,
+  challengerId: string,
+  defenderId: string,
+  openChallenges: LadderChallenge[]
+): string | null => {
+  const challengerRung = getRung(ladder.rungs, challengerId);
+  const defenderRung = getRung(ladder.rungs, defenderId);
+
+  if (challengerRung === null) {
+    return 'Join the ladder to challenge';
+  }
+  if (defenderRung === null) {
+    return 'This player is not on the ladder';
+  }
+  if (challengerId === defenderId) {
+    return "You can't challenge yourself";
+  }
+  if (defenderRung > challengerRung) {
+    return 'You can only challenge players above you';
+  }
+  if (challengerRung - defenderRung > ladder.challengeRange) {
+    return `You can challenge up to ${ladder.challengeRange} rungs above you`;
+  }
+  if (openChallenges.some((c) => c.playerIds.includes(challengerId))) {
+    return 'You already have an open challenge';
+  }
+  if (openChallenges.some((c) => c.playerIds.includes(defenderId))) {
+    return 'This player already has an open challenge';
+  }
+  return null;
+};
+
+/**
+ * Moves the rungs after a challenge is played
+ * A challenger who wins swaps places with the defender; otherwise nothing moves.
+ * @param rungs - Member UIDs, top rung first
+ * @param challengerId - Member who made the challenge
+ * @param defenderId - Member who was challenged
+ * @param winnerId - Member who won
+ * @returns Updated rungs (unchanged if either player has left the ladder)
+ */
+export const applyChallengeResult = (
+  rungs: string[],
+  challengerId: string,
+  defenderId: string,
+  winnerId: string
+): string[] => {
+  const challengerIndex = rungs.indexOf(challengerId);
+  const defenderIndex = rungs.indexOf(defenderId);
+
+  if (
+    winnerId !== challengerId ||
+    challengerIndex < 0 ||
+    defenderIndex < 0 ||
+    challengerIndex < defenderIndex
+  ) {
+    return rungs;
+  }
+
+  const next = [...rungs];
+  next[defenderIndex] = challengerId;
+  next[challengerIndex] = defenderId;
+  return next;
+};
+
+/**
+ * Orders the rungs for the start of a new season
+ * @param ladder - Ladder at the end of its season
+ * @param ratings - Singles rating of each member (used by reset)
+ * @returns Rungs for the next season, top first
+ */
+export const getNextSeasonRungs = (
+  ladder: Pick<Ladder, 'rungs' | 'activeIds' | 'seasonMode'>,
+  ratings: Record<string, number>
+): string[] => {
+  if (ladder.seasonMode === 'reset') {
+    // Stable sort keeps the current order between equal ratings
+    return [...ladder.rungs].sort((a, b) => (ratings[b] ?? 0) - (ratings[a] ?? 0));
+  }
+
+  const active = new Set(ladder.activeIds);
+  return [
+    ...ladder.rungs.filter((uid) => active.has(uid)),
+    ...ladder.rungs.filter((uid) => !active.has(uid)),
+  ];
+};
@@ -0,0 +1,170 @@
+/**
+ * Leaderboard Periods
+ * Monthly, quarterly and custom seasons ranked by rating gained or wins within
+ * the period, alongside the all-time rankings
+ * Shared by the app (period leaderboards, badges) and Cloud Functions
+ * (period totals in settleMatch, closing periods)
+ */
+
+import { getRankingKey } from './points';
+import type { GameCategory } from '@/types/lobby';
+import type {
+  CategoryFilter,
+  LeaderboardMetric,
+  PeriodBounds,
+  PeriodEntry,
+} from '@/types/leaderboard';
+
+// In display order
+export const CATEGORY_FILTER_LABELS: Record<CategoryFilter, string> = {
+  all_doubles: 'Doubles',
+  all_singles: 'Singles',
+  mens_doubles: "Men's Doubles",
+  womens_doubles: "Women's Doubles",
+  mens_singles: "Men's Singles",
+  womens_singles: "Women's Singles",
+};
+
+export const LEADERBOARD_METRIC_LABELS: Record<LeaderboardMetric, string> = {
+  rating_gain: 'Rating Gained',
+  wins: 'Wins',
+};
+
+// Players kept in a closed period's final standings
+export const PERIOD_STANDINGS_SIZE = 10;
+
+// Finishes at or above this rank earn a profile badge
+export const SEASON_BADGE_RANKS = 3;
+
+const METRIC_FIELDS: Record<LeaderboardMetric, 'ratingGain' | 'wins'> = {
+  rating_gain: 'ratingGain',
+  wins: 'wins',
+};
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+/**
+ * Helper to convert CategoryFilter to GameCategory and gender
+ */
+export const parseCategoryFilter = (
+  filter: CategoryFilter
+): { category: GameCategory; gender: 'male' | 'female' | undefined } => {
+  switch (filter) {
+    case 'all_singles':
+      return { category: 'singles', gender: undefined };
+    case 'mens_singles':
+      return { category: 'singles', gender: 'male' };
+    case 'womens_singles':
+      return { category: 'singles', gender: 'female' };
+    case 'all_doubles':
+      return { category: 'same_gender_doubles', gender: undefined };
+    case 'mens_doubles':
+      return { category: 'same_gender_doubles', gender: 'male' };
+    case 'womens_doubles':
+      return { category: 'same_gender_doubles', gender: 'female' };
+  }
+};
+
+/**
+ * Gets the period entry field a leaderboard is ordered by
+ * @param metric - Rating gained or wins
+ * @param category - Rating category
+ * @returns Field path, e.g. "ratingGain.singles"
+ */
+export const getPeriodField = (metric: LeaderboardMetric, category: GameCategory): string => {
+  return `${METRIC_FIELDS[metric]}.${getRankingKey(category)}`;
+};
+
+/**
+ * Reads a player's total for one leaderboard
+ * @param entry - Player's period totals
+ * @param metric - Rating gained or wins
+ * @param category - Rating category
+ * @returns Total, 0 if they have not played the category this period
+ */
+export const getPeriodValue = (
+  entry: Pick<PeriodEntry, 'ratingGain' | 'wins'>,
+  metric: LeaderboardMetric,
+  category: GameCategory
+): number => {
+  return entry[METRIC_FIELDS[metric]]?.[getRankingKey(category)] ?? 0;
+};
+
+/**
+ * Formats a period total for display
+ * @param value - Rating gained or wins
+ * @param metric - Which of the two it is
+ * @returns e.g. "+42 rating" or "7 wins"
+ */
+export const formatPeriodValue = (value: number, metric: LeaderboardMetric): string => {
+  if (metric === 'wins') {
+    return `${value} ${value === 1 ? 'win' : 'wins'}`;
+  }
+  return `${value > 0 ? '+' : ''}${value.toLocaleString()} rating`;
+};
+
+/**
+ * Gets the calendar month containing a time
+ * @param nowMs - Time in epoch ms
+ * @returns Month bounds in UTC
+ */
+export const getMonthlyPeriod = (nowMs: number): PeriodBounds => {
+  const date = new Date(nowMs);
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+
+  return {
+    id: `${year}-${String(month + 1).padStart(2, '0')}`,
+    type: 'monthly',
+    label: `${MONTH_NAMES[month]} ${year}`,
+    startMs: Date.UTC(year, month, 1),
+    endMs: Date.UTC(year, month + 1, 1),
+  };
+};
+
+/**
+ * Gets the calendar quarter containing a time
+ * @param nowMs - Time in epoch ms
+ * @returns Quarter bounds in UTC
+ */
+export const getQuarterlyPeriod = (nowMs: number): PeriodBounds => {
+  const date = new Date(nowMs);
+  const year = date.getUTCFullYear();
+  const quarter = Math.floor(date.getUTCMonth() / 3);
+
+  return {
+    id: `${year}-Q${quarter + 1}`,
+    type: 'quarterly',
+    label: `Q${quarter + 1} ${year}`,
+    startMs: Date.UTC(year, quarter * 3, 1),
+    endMs: Date.UTC(year, quarter * 3 + 3, 1),
+  };
+};
+
+/**
+ * Gets the calendar periods a match settled at this time counts towards
+ * @param nowMs - Time in epoch ms
+ * @returns Month and quarter
+ */
+export const getCalendarPeriods = (nowMs: number): PeriodBounds[] => {
+  return [getMonthlyPeriod(nowMs), getQuarterlyPeriod(nowMs)];
+};
+
+/**
+ * Names a place in the standings
+ * @param rank - 1-based rank
+ * @returns "1st", "2nd", "3rd", "4th", ...
+ */
+export const getOrdinal = (rank: number): string => {
+  const lastTwo = rank % 100;
+  if (lastTwo >= 11 && lastTwo <= 13) return `${rank}th`;
+  switch (rank % 10) {
+    case 1: return `${rank}st`;
+    case 2: return `${rank}nd`;
+    case 3: return `${rank}rd`;
+    default: return `${rank}th`;
+  }
+};
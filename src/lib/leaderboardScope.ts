@@ -0,0 +1,91 @@
+/**
+ * Leaderboard Scope
+ * Local all-time rankings: players who share a home court, players whose home
+ * court is near me, and the players I follow
+ */
+
+import { getDistanceKm, type LocationCoords } from './location';
+import { getRankingKey } from './points';
+import type { Court } from '@/types/court';
+import type { GameCategory } from '@/types/lobby';
+import type { LeaderboardScope } from '@/types/leaderboard';
+import type { UserDocument } from '@/types/user';
+
+export const LEADERBOARD_SCOPE_LABELS: Record<LeaderboardScope, string> = {
+  everyone: 'Everyone',
+  home_court: 'Home Court',
+  nearby: 'Nearby',
+  following: 'Following',
+};
+
+export const NEARBY_RADIUS_OPTIONS_KM = [5, 10, 25, 50];
+export const DEFAULT_NEARBY_RADIUS_KM = 10;
+
+// Firestore allows at most 30 values in an `in` filter
+export const SCOPE_QUERY_CHUNK_SIZE = 30;
+
+/**
+ * Gets a court's coordinates
+ * @param court - Court
+ * @returns Latitude and longitude
+ */
+export const getCourtCoords = (court: Court): LocationCoords => ({
+  lat: court.latitude,
+  lng: court.longitude,
+});
+
+/**
+ * Finds the courts within a radius, nearest first
+ * @param courts - Courts to search
+ * @param origin - Centre of the search
+ * @param radiusKm - Radius in kilometres
+ * @returns Court IDs
+ */
+export const getCourtIdsWithinKm = (
+  courts: Court[],
+  origin: LocationCoords,
+  radiusKm: number
+): string[] => {
+  return courts
+    .map((court) => ({ id: court.id, distance: getDistanceKm(origin, getCourtCoords(court)) }))
+    .filter((court) => court.distance <= radiusKm)
+    .sort((a, b) => a.distance - b.distance)
+    .map((court) => court.id);
+};
+
+/**
+ * Splits values into groups small enough for one `in` query
+ * @param values - Values to query
+ * @returns Groups of at most SCOPE_QUERY_CHUNK_SIZE
+ */
+export const chunkScopeValues = (values: string[]): string[][] => {
+  const chunks: string[][] = [];
+  for (let i = 0; i < values.length; i += SCOPE_QUERY_CHUNK_SIZE) {
+    chunks.push(values.slice(i, i + SCOPE_QUERY_CHUNK_SIZE));
+  }
+  return chunks;
+};
+
+/**
+ * Ranks the players in a scope as the global leaderboard would
+ * Scoped queries return every player in scope, so gender, order and limit are
+ * applied here rather than in Firestore.
+ * @param players - Players in scope
+ * @param category - Game category to rank
+ * @param gender - Gender filter - only applies to singles/same_gender_doubles
+ * @param limitCount - Maximum number of players to keep
+ * @returns Players, highest rated first
+ */
+export const rankScopedPlayers = (
+  players: UserDocument[],
+  category: GameCategory,
+  gender: 'male' | 'female' | undefined,
+  limitCount: number
+): UserDocument[] => {
+  const key = getRankingKey(category);
+
+  return players
+    .filter((player) => !gender || category === 'mixed_doubles' || player.gender === gender)
+    .sort((a, b) => (b.rankings?.[key] || 1000) - (a.rankings?.[key] || 1000))
+    .slice(0, limitCount);
+};
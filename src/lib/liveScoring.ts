@@ -0,0 +1,123 @@
+/**
+ * Live Scoring Utilities
+ * Pure functions that replay a rally log into the current score and serve state
+ *
+ * Side-out (standard) scoring:
+ * - Only the serving team scores
+ * - Doubles: each team gets two servers, except the first service turn of the
+ *   game, which starts on server 2 ("0-0-2")
+ * - Call order: serving score, receiving score, server number
+ *
+ * Rally scoring:
+ * - Every rally wins a point; the rally winner serves next
+ *
+ * Best-of-N matches keep one rally log: the rally after a finished game starts
+ * the next game, with the first serve alternating between teams.
+ */
+
+import { DEFAULT_GAME_FORMAT, getMatchResult, isValidPickleballScore } from './scoreValidation';
+import type { GameFormat } from '@/types/game';
+import type { GameMode, GameScore, Rally, ScoringSystem } from '@/types/lobby';
+
+export interface LiveScoreState {
+  team1: number;         // Current (or last finished) game
+  team2: number;
+  servingTeam: 1 | 2;
+  serverNumber: 1 | 2;
+  call: string;
+  isGameOver: boolean;   // Current game has a valid final score
+  games: GameScore[];    // Finished games, including the current one once over
+  isMatchOver: boolean;
+}
+
+/**
+ * Formats the score call the server announces before serving
+ * @param state - Score and serve state
+ * @param gameMode - Singles or doubles
+ * @param system - Scoring system in use
+ * @returns Call such as "4-2-1" (side-out doubles) or "4-2"
+ */
+export const getScoreCall = (
+  state: Pick<LiveScoreState, 'team1' | 'team2' | 'servingTeam' | 'serverNumber'>,
+  gameMode: GameMode,
+  system: ScoringSystem
+): string => {
+  const servingScore = state.servingTeam === 1 ? state.team1 : state.team2;
+  const receivingScore = state.servingTeam === 1 ? state.team2 : state.team1;
+
+  if (system === 'standard' && gameMode === 'doubles') {
+    return `${servingScore}-${receivingScore}-${state.serverNumber}`;
+  }
+
+  return `${servingScore}-${receivingScore}`;
+};
+
+/**
+ * Replays a rally log from the start of the match
+ * Team 1 serves first. Rallies after the match is won are ignored.
+ * @param rallies - Rallies in the order they were played
+ * @param gameMode - Singles or doubles
+ * @param system - Scoring system in use
+ * @param format - Game format (defaults to a single game to 11, win by 2)
+ * @returns Current score, serving team, server number, call and finished games
+ */
+export const getLiveScoreState = (
+  rallies: Rally[],
+  gameMode: GameMode,
+  system: ScoringSystem,
+  format: GameFormat = DEFAULT_GAME_FORMAT
+): LiveScoreState => {
+  const games: GameScore[] = [];
+  let team1 = 0;
+  let team2 = 0;
+  let servingTeam: 1 | 2 = 1;
+  // First service turn of a doubles game only gets one server
+  let serverNumber: 1 | 2 = gameMode === 'doubles' ? 2 : 1;
+
+  for (const rally of rallies) {
+    if (isValidPickleballScore(team1, team2, format).valid) {
+      const finished = [...games, { team1, team2 }];
+      if (getMatchResult(finished, format).valid) break;
+
+      // Next game: scores reset and the other team serves first
+      games.push({ team1, team2 });
+      team1 = 0;
+      team2 = 0;
+      servingTeam = games.length % 2 === 0 ? 1 : 2;
+      serverNumber = gameMode === 'doubles' ? 2 : 1;
+    }
+
+    if (system === 'rally') {
+      if (rally.winner === 1) team1++;
+      else team2++;
+      servingTeam = rally.winner;
+      serverNumber = 1;
+      continue;
+    }
+
+    if (rally.winner === servingTeam) {
+      if (servingTeam === 1) team1++;
+      else team2++;
+    } else if (gameMode === 'doubles' && serverNumber === 1) {
+      serverNumber = 2;
+    } else {
+      // Side out
+      servingTeam = servingTeam === 1 ? 2 : 1;
+      serverNumber = 1;
+    }
+  }
+
+  const isGameOver = isValidPickleballScore(team1, team2, format).valid;
+  const finishedGames = isGameOver ? [...games, { team1, team2 }] : games;
+
+  return {
+    team1,
+    team2,
+    servingTeam,
+    serverNumber,
+    call: getScoreCall({ team1, team2, servingTeam, serverNumber }, gameMode, system),
+    isGameOver,
+    games: finishedGames,
+    isMatchOver: getMatchResult(finishedGames, format).valid,
+  };
+};
@@ -0,0 +1,146 @@
+/**
+ * Lobby Chat Utilities
+ * Pure rules for the chat thread attached to a lobby: who is in it and which
+ * system messages a lobby change produces
+ * Shared by the syncLobbyChat function and the app
+ */
+
+import type { Chat, ChatType } from '@/types/chat';
+import type { Lobby, Player } from '@/types/lobby';
+
+// senderId of messages posted by the app rather than a player
+export const SYSTEM_SENDER_ID = 'system';
+export const SYSTEM_SENDER_NAME = 'Picklebean';
+
+/**
+ * Gets the chat ID for a lobby
+ * One chat per lobby, so the ID is derived from the room code
+ * @param roomCode - Lobby room code
+ * @returns Chat document ID
+ */
+export const getLobbyChatId = (roomCode: string): string => `lobby-${roomCode}`;
+
+/**
+ * Checks if a chat is the one created for a lobby
+ * Guards the chat sync: a lobby's chatId must not point it at another chat
+ * @param chatId - Chat document ID
+ * @param chat - Chat document
+ * @param roomCode - Lobby room code
+ * @returns true if the chat belongs to the lobby
+ */
+export const isLobbyChatFor = (
+  chatId: string,
+  chat: Pick<Chat, 'lobbyRoomCode'>,
+  roomCode: string
+): boolean => {
+  return chatId === getLobbyChatId(roomCode) || chat.lobbyRoomCode === roomCode;
+};
+
+/**
+ * Gets the display name of a lobby chat
+ */
+export const getLobbyChatName = (roomCode: string): string => `Game ${roomCode}`;
+
+/**
+ * Checks if a chat shows sender names and a member count
+ * @param type - Chat type
+ * @returns true for group and lobby chats
+ */
+export const isMultiMemberChat = (type: ChatType | undefined): boolean => {
+  return type === 'group' || type === 'lobby';
+};
+
+/**
+ * Gets seated players with their team
+ */
+const getSeatedPlayers = (lobby: Lobby): { player: Player; team: 1 | 2 }[] => {
+  return ([
+    [lobby.team1.player1, 1],
+    [lobby.team1.player2, 1],
+    [lobby.team2.player1, 2],
+    [lobby.team2.player2, 2],
+  ] as const)
+    .filter(([player]) => !!player?.uid)
+    .map(([player, team]) => ({ player: player as Player, team }));
+};
+
+/**
+ * Gets everyone who belongs in a lobby's chat
+ * The host, the seated players and the waiting list
+ * @param lobby - Lobby
+ * @returns Unique user IDs, host first
+ */
+export const getLobbyChatMemberIds = (lobby: Lobby): string[] => {
+  const ids = [
+    lobby.hostId,
+    ...getSeatedPlayers(lobby).map(({ player }) => player.uid),
+    ...(lobby.waitingPlayers ?? []).map((p) => p.uid),
+  ];
+  return [...new Set(ids)];
+};
+
+/**
+ * Formats a completed game's result, e.g. "Final 11-7" or "Final 11-7, 9-11, 11-5"
+ * @param lobby - Completed lobby
+ * @returns Result text, or null if no score was recorded
+ */
+export const getFinalScoreMessage = (lobby: Lobby): string | null => {
+  if (lobby.finalGames && lobby.finalGames.length > 0) {
+    return `Final ${lobby.finalGames.map((g) => `${g.team1}-${g.team2}`).join(', ')}`;
+  }
+  if (lobby.finalScores) {
+    return `Final ${lobby.finalScores.team1}-${lobby.finalScores.team2}`;
+  }
+  return null;
+};
+
+/**
+ * Works out the system messages for a lobby change
+ * @param before - Lobby before the change
+ * @param after - Lobby after the change
+ * @returns Messages in the order they should be posted
+ */
+export const getLobbyChatEvents = (before: Lobby, after: Lobby): string[] => {
+  const events: string[] = [];
+
+  const teamBefore = new Map(getSeatedPlayers(before).map(({ player, team }) => [player.uid, team]));
+  const queuedBefore = new Set((before.waitingPlayers ?? []).map((p) => p.uid));
+  const seatedAfter = getSeatedPlayers(after);
+  const queuedAfter = after.waitingPlayers ?? [];
+
+  seatedAfter.forEach(({ player, team }) => {
+    const previousTeam = teamBefore.get(player.uid);
+    if (previousTeam === undefined) {
+      events.push(`${player.displayName} joined team ${team}`);
+    } else if (previousTeam !== team) {
+      events.push(`${player.displayName} moved to team ${team}`);
+    }
+  });
+
+  queuedAfter.forEach((player) => {
+    if (!queuedBefore.has(player.uid) && !teamBefore.has(player.uid)) {
+      events.push(`${player.displayName} joined the queue`);
+    }
+  });
+
+  const idsAfter = new Set([
+    ...seatedAfter.map(({ player }) => player.uid),
+    ...queuedAfter.map((p) => p.uid),
+  ]);
+  [...getSeatedPlayers(before).map(({ player }) => player), ...(before.waitingPlayers ?? [])]
+    .filter((player) => !idsAfter.has(player.uid))
+    .forEach((player) => events.push(`${player.displayName} left the lobby`));
+
+  if (!before.gameStarted && after.gameStarted) {
+    events.push('Game started');
+  }
+
+  if (!before.gameCompleted && after.gameCompleted) {
+    const result = after.cancelled
+      ? `Game cancelled${after.cancelReason ? `: ${after.cancelReason}` : ''}`
+      : getFinalScoreMessage(after);
+    if (result) events.push(result);
+  }
+
+  return events;
+};
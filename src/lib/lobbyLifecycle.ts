@@ -0,0 +1,80 @@
+/**
+ * Lobby Lifecycle Utilities
+ * Pure rules for when abandoned lobbies and games expire
+ * Shared by the expireLobbies scheduled function and the app
+ */
+
+import type { Lobby, LobbyExpiryReason } from '@/types/lobby';
+
+// Waiting lobbies with no activity for this long are expired
+export const LOBBY_IDLE_TIMEOUT_MINUTES = 30;
+
+// Started games that were never completed are cancelled after this long
+export const MAX_GAME_DURATION_MINUTES = 240;
+
+// cancelledBy value for lobbies cancelled by the sweeper rather than a host
+export const SYSTEM_CANCELLER_ID = 'system';
+
+export interface LobbyExpiryOptions {
+  idleTimeoutMinutes: number;
+  maxGameDurationMinutes: number;
+}
+
+const DEFAULT_EXPIRY_OPTIONS: LobbyExpiryOptions = {
+  idleTimeoutMinutes: LOBBY_IDLE_TIMEOUT_MINUTES,
+  maxGameDurationMinutes: MAX_GAME_DURATION_MINUTES,
+};
+
+/**
+ * Decides whether a lobby should be expired
+ * Games with a submitted score awaiting confirmation are left alone: they
+ * settle when players confirm, or the sweeper settles them once the
+ * confirmation window passes, and cancelling would drop the result.
+ * @param lobby - Lobby to check
+ * @param nowMs - Current time in epoch ms
+ * @param options - Idle timeout and maximum game duration
+ * @returns Why the lobby has expired, or null if it is still live
+ */
+export const getLobbyExpiryReason = (
+  lobby: Lobby,
+  nowMs: number,
+  options: LobbyExpiryOptions = DEFAULT_EXPIRY_OPTIONS
+): LobbyExpiryReason | null => {
+  if (lobby.gameCompleted || lobby.cancelled) {
+    return null;
+  }
+
+  if (!lobby.gameStarted) {
+    const lastActivityMs = lobby.lastActivity?.toMillis() ?? lobby.createdAt?.toMillis();
+    if (lastActivityMs === undefined) return null;
+
+    return nowMs - lastActivityMs > options.idleTimeoutMinutes * 60 * 1000 ? 'idle' : null;
+  }
+
+  if (lobby.scoreStatus === 'pending') {
+    return null;
+  }
+
+  const startedAtMs = lobby.gameStartedAt?.toMillis() ?? lobby.lastActivity?.toMillis();
+  if (startedAtMs === undefined) return null;
+
+  return nowMs - startedAtMs > options.maxGameDurationMinutes * 60 * 1000 ? 'max_duration' : null;
+};
+
+/**
+ * Explains an expiry to players
+ * @param reason - Why the lobby expired
+ * @param options - Idle timeout and maximum game duration
+ * @returns Message stored as the cancel reason and shown in the app
+ */
+export const getExpiryMessage = (
+  reason: LobbyExpiryReason,
+  options: LobbyExpiryOptions = DEFAULT_EXPIRY_OPTIONS
+): string => {
+  if (reason === 'idle') {
+    return `Lobby expired after ${options.idleTimeoutMinutes} minutes without activity`;
+  }
+
+  const hours = options.maxGameDurationMinutes / 60;
+  return `Game cancelled after running for more than ${hours} hour${hours === 1 ? '' : 's'} without a final score`;
+};
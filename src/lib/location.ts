@@ -6,6 +6,8 @@
 
 import * as Location from 'expo-location';
 
+const EARTH_RADIUS_KM = 6371;
+
 // Phase 1: 3-state model
 export type LocationPreference = 
   | 'undecided'      // Default - never interacted with button
@@ -112,3 +114,18 @@ export async function requestLocationWithOutcome(): Promise<PermissionResult> {
     };
   }
 }
+
+/**
+ * Straight-line distance between two points (haversine)
+ * Returns: distance in kilometres
+ */
+export function getDistanceKm(from: LocationCoords, to: LocationCoords): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(to.lat - from.lat);
+  const dLng = toRadians(to.lng - from.lng);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
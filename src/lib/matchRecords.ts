@@ -0,0 +1,128 @@
+/**
+ * Match Record Utilities
+ * Builds the denormalized fields of a Match document, projects a match into
+ * one player's MatchHistoryRecord and maps history filters onto queries
+ * Shared by the settleMatch function, the match migration and the app
+ */
+
+import type { Match } from '@/types/game';
+import type { MatchHistoryFilters, MatchHistoryRecord } from '@/types/user';
+
+/**
+ * Gets the key stored in playerPairs for two players
+ * Sorted so both players build the same key
+ * @param uidA - First player
+ * @param uidB - Second player
+ * @returns Pair key
+ */
+export const getPairKey = (uidA: string, uidB: string): string => {
+  return [uidA, uidB].sort().join('_');
+};
+
+/**
+ * Gets the pair keys of every two players in a match
+ * @param playerIds - Every player in the match
+ * @returns Pair keys, one per pair of players
+ */
+export const getPlayerPairs = (playerIds: string[]): string[] => {
+  return playerIds.flatMap((uid, index) =>
+    playerIds.slice(index + 1).map((otherUid) => getPairKey(uid, otherUid))
+  );
+};
+
+/**
+ * Projects a match into one player's history record
+ * @param match - Settled match
+ * @param playerId - Player whose view to build
+ * @returns The player's record, or null if they were not in the match
+ */
+export const toPlayerRecord = (match: Match, playerId: string): MatchHistoryRecord | null => {
+  const player = match.players.find((p) => p.uid === playerId);
+  if (!player) return null;
+
+  const opponents = match.players.filter((p) => p.team !== player.team);
+  const partner = match.players.find((p) => p.team === player.team && p.uid !== playerId);
+
+  return {
+    id: match.id,
+    gameId: match.gameId,
+    playerId,
+    gameType: match.gameType,
+    gameCategory: match.gameCategory,
+    result: match.winner === player.team ? 'win' : 'loss',
+    pointsChange: player.pointsChange,
+    opponentIds: opponents.map((p) => p.uid),
+    opponentNames: opponents.map((p) => p.displayName),
+    ...(partner && { partnerId: partner.uid, partnerName: partner.displayName }),
+    status: match.status,
+    ...(match.score && { score: match.score }),
+    ...(match.games && { games: match.games }),
+    ...(match.ratingCategory && { ratingCategory: match.ratingCategory }),
+    ...(player.ratingBefore !== undefined && { ratingBefore: player.ratingBefore }),
+    ...(player.ratingAfter !== undefined && { ratingAfter: player.ratingAfter }),
+    // Firestore returns a Timestamp; consumers format either
+    createdAt: match.createdAt as unknown as Date,
+  };
+};
+
+/**
+ * Projects matches into one player's history, skipping matches they were not in
+ * @param matches - Settled matches
+ * @param playerId - Player whose view to build
+ * @returns The player's records, in the order given
+ */
+export const toPlayerRecords = (matches: Match[], playerId: string): MatchHistoryRecord[] => {
+  return matches
+    .map((match) => toPlayerRecord(match, playerId))
+    .filter((record): record is MatchHistoryRecord => record !== null);
+};
+
+
+/**
+ * Picks the array field a history query filters on
+ * Firestore allows one array-contains per query, and each of these fields only
+ * holds matches the player was in, so it replaces the playerIds filter.
+ * @param userId - Player whose history is read
+ * @param filters - History filters
+ * @returns Array field and the value it must contain
+ */
+export const getHistoryQueryAnchor = (
+  userId: string,
+  filters: MatchHistoryFilters
+): { field: 'playerIds' | 'playerPairs' | 'winnerIds' | 'loserIds'; value: string } => {
+  if (filters.otherPlayerId) {
+    return { field: 'playerPairs', value: getPairKey(userId, filters.otherPlayerId) };
+  }
+  if (filters.result) {
+    return { field: filters.result === 'win' ? 'winnerIds' : 'loserIds', value: userId };
+  }
+  return { field: 'playerIds', value: userId };
+};
+
+/**
+ * Checks if some filters cannot be expressed in the history query and must be
+ * applied to each page as it loads
+ */
+export const needsClientFilter = (filters: MatchHistoryFilters): boolean => {
+  return !!filters.otherPlayerId && (!!filters.relation || !!filters.result);
+};
+
+/**
+ * Checks a player's record against the filters the query could not apply
+ * @param record - The player's view of a match
+ * @param filters - History filters
+ * @returns Whether the record belongs in the filtered history
+ */
+export const matchesHistoryFilters = (
+  record: MatchHistoryRecord,
+  filters: MatchHistoryFilters
+): boolean => {
+  if (filters.result && record.result !== filters.result) return false;
+
+  if (filters.otherPlayerId && filters.relation) {
+    const isPartner = record.partnerId === filters.otherPlayerId;
+    if ((filters.relation === 'partner') !== isPartner) return false;
+  }
+
+  return true;
+};
@@ -3,7 +3,37 @@
  * Pure functions for ELO-style ranking calculations
  */
 
-import type { UserRankings } from '@/types/user';
+import type { UserRankings, UserDocument } from '@/types/user';
+import type {
+  GameCategory,
+  GameMode,
+  PlayerStake,
+  PointChanges,
+  StakesSnapshot,
+} from '@/types/lobby';
+
+/**
+ * Rating inputs for one player in a points calculation
+ */
+export interface RatedPlayer {
+  rating: number;
+  gamesPlayed: number;
+  deviation?: number;   // Glicko-2 deviation, when stored
+  volatility?: number;  // Glicko-2 volatility, when stored
+}
+
+/**
+ * Rating inputs for a player seated in a specific lobby slot
+ */
+export interface SeatedPlayer extends RatedPlayer {
+  uid: string;
+}
+
+/**
+ * Whether settlement scales point changes by margin of victory.
+ * Off by default so the stakes shown before a match are exactly what is applied.
+ */
+export const MARGIN_OF_VICTORY_ENABLED = false;
 
 /**
  * Determines K-factor based on player experience
@@ -61,7 +91,7 @@ export const calculatePointsChange = (
  */
 export const updateRankings = (
   currentRankings: UserRankings,
-  category: 'singles' | 'sameGenderDoubles',
+  category: keyof UserRankings,
   pointsChange: number
 ): UserRankings => {
   const newRankings = { ...currentRankings };
@@ -85,6 +115,7 @@ export const getTeamRating = (player1Rating: number, player2Rating: number): num
 
 /**
  * Calculates points change for doubles match (team vs team) with dynamic K-factor
+ * @deprecated Every player on a team gets the same delta; use calculateStakes for per-player deltas
  * @param team1Player1Rating - Team 1, Player 1 rating
  * @param team1Player2Rating - Team 1, Player 2 rating
  * @param team1Player1Games - Team 1, Player 1 games played
@@ -121,6 +152,159 @@ export const calculateDoublesPointsChange = (
   }
 };
 
+/**
+ * Collapses a team into a single rating profile (identity for singles)
+ * @param players - One player for singles, two for doubles
+ * @returns Average rating and average games played for the team
+ */
+export const getTeamProfile = (players: RatedPlayer[]): RatedPlayer => {
+  if (players.length === 1) {
+    return players[0];
+  }
+
+  return {
+    rating: getTeamRating(players[0].rating, players[1].rating),
+    gamesPlayed: Math.round((players[0].gamesPlayed + players[1].gamesPlayed) / 2),
+  };
+};
+
+/**
+ * Calculates one doubles player's stakes from their own rating and K-factor
+ * against the opposing team's average rating
+ * @param player - The player's rating inputs
+ * @param opponentRating - Average rating of the opposing team
+ * @returns Points the player gains on a win or loses on a loss
+ */
+export const calculatePlayerStake = (
+  player: RatedPlayer,
+  opponentRating: number
+): PlayerStake => {
+  const kFactor = getKFactor(player.gamesPlayed);
+  const expectedScore = getExpectedScore(player.rating, opponentRating);
+
+  return {
+    win: Math.max(1, Math.round(kFactor * (1 - expectedScore))),
+    loss: Math.max(1, Math.round(kFactor * expectedScore)),
+  };
+};
+
+/**
+ * Scales point changes by how decisive the win was
+ * Win-by-2 is the baseline; each extra point adds 5%, capped at +50%
+ * @param winnerScore - Winning team's score
+ * @param loserScore - Losing team's score
+ * @returns Multiplier between 1 and 1.5
+ */
+export const getMarginMultiplier = (winnerScore: number, loserScore: number): number => {
+  const extraMargin = Math.max(0, winnerScore - loserScore - 2);
+  return 1 + Math.min(0.5, extraMargin * 0.05);
+};
+
+/**
+ * Calculates win/loss stakes for both teams before a match is played
+ * Shared by the lobby UI and the settleMatch function so both agree on points.
+ * Singles stakes are zero-sum; doubles players each get their own stake.
+ * @param team1Players - Rating inputs for team 1
+ * @param team2Players - Rating inputs for team 2
+ * @returns Points each team and each player gains on a win or loses on a loss
+ */
+export const calculateStakes = (
+  team1Players: SeatedPlayer[],
+  team2Players: SeatedPlayer[]
+): StakesSnapshot => {
+  const team1 = getTeamProfile(team1Players);
+  const team2 = getTeamProfile(team2Players);
+
+  if (team1Players.length === 1 && team2Players.length === 1) {
+    const team1WinPoints = calculatePointsChange(
+      team1.rating,
+      team2.rating,
+      team1.gamesPlayed,
+      team2.gamesPlayed
+    );
+    const team2WinPoints = calculatePointsChange(
+      team2.rating,
+      team1.rating,
+      team2.gamesPlayed,
+      team1.gamesPlayed
+    );
+
+    return {
+      team1Win: team1WinPoints,
+      team1Loss: team2WinPoints, // What team 1 loses if team 2 wins
+      team2Win: team2WinPoints,
+      team2Loss: team1WinPoints, // What team 2 loses if team 1 wins
+      players: {
+        [team1Players[0].uid]: { win: team1WinPoints, loss: team2WinPoints },
+        [team2Players[0].uid]: { win: team2WinPoints, loss: team1WinPoints },
+      },
+    };
+  }
+
+  return buildStakesSnapshot(
+    team1Players,
+    team2Players,
+    team1Players.map((p) => calculatePlayerStake(p, team2.rating)),
+    team2Players.map((p) => calculatePlayerStake(p, team1.rating))
+  );
+};
+
+/**
+ * Assembles per-player stakes into a snapshot with team averages for display
+ * @param team1Players - Team 1 players
+ * @param team2Players - Team 2 players
+ * @param team1Stakes - Stakes for team 1, in player order
+ * @param team2Stakes - Stakes for team 2, in player order
+ * @returns Stakes snapshot
+ */
+export const buildStakesSnapshot = (
+  team1Players: SeatedPlayer[],
+  team2Players: SeatedPlayer[],
+  team1Stakes: PlayerStake[],
+  team2Stakes: PlayerStake[]
+): StakesSnapshot => {
+  const average = (values: number[]): number =>
+    Math.round(values.reduce((sum, v) => sum + v, 0) / values.length);
+
+  const players: StakesSnapshot['players'] = {};
+  team1Players.forEach((p, i) => { players[p.uid] = team1Stakes[i]; });
+  team2Players.forEach((p, i) => { players[p.uid] = team2Stakes[i]; });
+
+  return {
+    team1Win: average(team1Stakes.map((s) => s.win)),
+    team1Loss: average(team1Stakes.map((s) => s.loss)),
+    team2Win: average(team2Stakes.map((s) => s.win)),
+    team2Loss: average(team2Stakes.map((s) => s.loss)),
+    players,
+  };
+};
+
+/**
+ * Resolves stakes into the signed point change applied to each player
+ * @param stakes - Stakes calculated before the match
+ * @param winnerIds - UIDs of the winning team
+ * @param loserIds - UIDs of the losing team
+ * @param marginMultiplier - Optional margin-of-victory scaling (see getMarginMultiplier)
+ * @returns Point change per player (positive for winners, negative for losers)
+ */
+export const getPointChanges = (
+  stakes: StakesSnapshot,
+  winnerIds: string[],
+  loserIds: string[],
+  marginMultiplier: number = 1
+): PointChanges => {
+  const pointChanges: PointChanges = {};
+
+  winnerIds.forEach((uid) => {
+    pointChanges[uid] = Math.max(1, Math.round(stakes.players[uid].win * marginMultiplier));
+  });
+  loserIds.forEach((uid) => {
+    pointChanges[uid] = -Math.round(stakes.players[uid].loss * marginMultiplier);
+  });
+
+  return pointChanges;
+};
+
 /**
  * Gets the initial default rankings for a new user
  * @returns Default rankings object with 1000 points each
@@ -129,5 +313,46 @@ export const getDefaultRankings = (): UserRankings => {
   return {
     singles: 1000,
     sameGenderDoubles: 1000,
+    mixedDoubles: 1000,
   };
 };
+
+/**
+ * Classifies a game from its mode and the genders of its players
+ * Mixed doubles needs one man and one woman on each team. Every other doubles
+ * game counts as same_gender_doubles: men against women, a mixed team against
+ * a same-gender team, and any game with a player whose gender is not set.
+ * @param gameMode - Singles or doubles
+ * @param genders - Gender of every seat: team 1 player 1, team 1 player 2, team 2 player 1, team 2 player 2
+ * @returns singles, mixed_doubles or same_gender_doubles
+ */
+export const getGameCategory = (
+  gameMode: GameMode,
+  genders: (UserDocument['gender'] | undefined)[]
+): GameCategory => {
+  if (gameMode === 'singles') {
+    return 'singles';
+  }
+
+  const isMixedTeam = (team: (UserDocument['gender'] | undefined)[]) =>
+    team.includes('male') && team.includes('female');
+
+  return genders.length === 4 && isMixedTeam(genders.slice(0, 2)) && isMixedTeam(genders.slice(2))
+    ? 'mixed_doubles'
+    : 'same_gender_doubles';
+};
+
+/**
+ * Maps a game category to the rating track it updates
+ * @param category - Game category
+ * @returns Key into UserRankings
+ */
+export const getRankingKey = (category: GameCategory): keyof UserRankings => {
+  const categoryToRankingKey: Record<GameCategory, keyof UserRankings> = {
+    'singles': 'singles',
+    'same_gender_doubles': 'sameGenderDoubles',
+    'mixed_doubles': 'mixedDoubles',
+  };
+
+  return categoryToRankingKey[category];
+};
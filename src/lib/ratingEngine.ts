@@ -0,0 +1,157 @@
+/**
+ * Rating Engine
+ * Selects the stakes calculation (ELO or Glicko-2) used by both the lobby UI
+ * and the settleMatch function, and tracks rating uncertainty for either engine
+ */
+
+import { RATING_ENGINE } from '../config/rating';
+import { buildStakesSnapshot, calculateStakes } from './points';
+import {
+  DEFAULT_VOLATILITY,
+  estimateDeviation,
+  getTeamGlicko2,
+  isProvisionalDeviation,
+  updateGlicko2,
+} from './glicko2';
+import type { Glicko2Rating } from './glicko2';
+import type { RatedPlayer, SeatedPlayer } from './points';
+import type { PlayerStake, StakesSnapshot } from '@/types/lobby';
+import type { RatingEngineId } from '@/types/rating';
+import type { UserDocument, UserRankings } from '@/types/user';
+
+export type RatingConfidence = 'LOW' | 'MEDIUM' | 'HIGH';
+
+/**
+ * Reads a player's Glicko-2 state, estimating deviation for older accounts
+ * @param player - Rating inputs (deviation and volatility optional)
+ * @returns Full Glicko-2 state
+ */
+export const toGlicko2 = (player: RatedPlayer): Glicko2Rating => {
+  return {
+    rating: player.rating,
+    deviation: player.deviation ?? estimateDeviation(player.gamesPlayed),
+    volatility: player.volatility ?? DEFAULT_VOLATILITY,
+  };
+};
+
+/**
+ * Calculates one player's Glicko-2 stake against the opposing team
+ */
+const calculateGlicko2PlayerStake = (
+  player: SeatedPlayer,
+  opponents: SeatedPlayer[]
+): PlayerStake => {
+  const current = toGlicko2(player);
+  const opponent = getTeamGlicko2(opponents.map(toGlicko2));
+
+  return {
+    win: Math.max(1, Math.round(updateGlicko2(current, opponent, 1).rating - current.rating)),
+    loss: Math.max(1, Math.round(current.rating - updateGlicko2(current, opponent, 0).rating)),
+  };
+};
+
+/**
+ * Calculates win/loss stakes with Glicko-2
+ * Uncertain players move further; each player gets an individual stake
+ * @param team1Players - Rating inputs for team 1
+ * @param team2Players - Rating inputs for team 2
+ * @returns Points each team and each player gains on a win or loses on a loss
+ */
+export const calculateGlicko2Stakes = (
+  team1Players: SeatedPlayer[],
+  team2Players: SeatedPlayer[]
+): StakesSnapshot => {
+  return buildStakesSnapshot(
+    team1Players,
+    team2Players,
+    team1Players.map((p) => calculateGlicko2PlayerStake(p, team2Players)),
+    team2Players.map((p) => calculateGlicko2PlayerStake(p, team1Players))
+  );
+};
+
+/**
+ * Calculates match stakes with the configured rating engine
+ * @param team1Players - Rating inputs for team 1
+ * @param team2Players - Rating inputs for team 2
+ * @param engine - Engine to use (defaults to RATING_ENGINE)
+ * @returns Stakes snapshot
+ */
+export const calculateMatchStakes = (
+  team1Players: SeatedPlayer[],
+  team2Players: SeatedPlayer[],
+  engine: RatingEngineId = RATING_ENGINE
+): StakesSnapshot => {
+  return engine === 'GLICKO2'
+    ? calculateGlicko2Stakes(team1Players, team2Players)
+    : calculateStakes(team1Players, team2Players);
+};
+
+/**
+ * Updates every player's deviation and volatility after a match
+ * Runs for both engines so provisional badges work regardless of engine
+ * @param team1Players - Rating inputs for team 1
+ * @param team2Players - Rating inputs for team 2
+ * @param winner - Winning team
+ * @returns New deviation and volatility per player
+ */
+export const getUncertaintyUpdates = (
+  team1Players: SeatedPlayer[],
+  team2Players: SeatedPlayer[],
+  winner: 1 | 2
+): { [playerId: string]: Pick<Glicko2Rating, 'deviation' | 'volatility'> } => {
+  const updates: { [playerId: string]: Pick<Glicko2Rating, 'deviation' | 'volatility'> } = {};
+
+  const rateTeam = (team: SeatedPlayer[], opponents: SeatedPlayer[], won: boolean) => {
+    const opponent = getTeamGlicko2(opponents.map(toGlicko2));
+    team.forEach((player) => {
+      const { deviation, volatility } = updateGlicko2(toGlicko2(player), opponent, won ? 1 : 0);
+      updates[player.uid] = { deviation, volatility };
+    });
+  };
+
+  rateTeam(team1Players, team2Players, winner === 1);
+  rateTeam(team2Players, team1Players, winner === 2);
+
+  return updates;
+};
+
+/**
+ * Gets a user's rating deviation for one category
+ * @param user - User document
+ * @param category - Rating track
+ * @returns Stored deviation, or an estimate from games played
+ */
+export const getUserDeviation = (user: UserDocument, category: keyof UserRankings): number => {
+  return user.rankingDeviations?.[category] ?? estimateDeviation(user.matchStats?.totalMatches || 0);
+};
+
+/**
+ * Checks if a user's rating in a category is still provisional
+ * @param user - User document
+ * @param category - Rating track
+ * @returns true if the rating is not yet established
+ */
+export const isProvisionalRating = (user: UserDocument, category: keyof UserRankings): boolean => {
+  return isProvisionalDeviation(getUserDeviation(user, category));
+};
+
+/**
+ * Maps a rating deviation to a coarse confidence level
+ * @param deviation - Rating deviation
+ * @returns LOW while provisional, HIGH once well established
+ */
+export const getRatingConfidence = (deviation: number): RatingConfidence => {
+  if (isProvisionalDeviation(deviation)) return 'LOW';
+  if (deviation > 70) return 'MEDIUM';
+  return 'HIGH';
+};
+
+/**
+ * Checks if a user has no established rating in any category yet
+ * @param user - User document
+ * @returns true if every rating track is still provisional
+ */
+export const isProvisionalPlayer = (user: UserDocument): boolean => {
+  const categories: (keyof UserRankings)[] = ['singles', 'sameGenderDoubles', 'mixedDoubles'];
+  return categories.every((category) => isProvisionalRating(user, category));
+};
@@ -0,0 +1,41 @@
+/**
+ * Rating History Utilities
+ * Pure functions for summarising a player's rating over time
+ */
+
+import type { RatingHistoryPoint, RatingHistorySummary } from '@/types/user';
+
+const THIRTY_DAYS_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Summarises a rating series for display
+ * @param points - Rating history for one category, oldest first
+ * @param nowMs - Current time (epoch ms)
+ * @returns Current, peak and lowest rating plus the change over the last 30 days
+ */
+export const summarizeRatingHistory = (
+  points: RatingHistoryPoint[],
+  nowMs: number = Date.now()
+): RatingHistorySummary | null => {
+  if (points.length === 0) {
+    return null;
+  }
+
+  const ratings = [points[0].ratingBefore, ...points.map((p) => p.ratingAfter)];
+  const current = points[points.length - 1].ratingAfter;
+
+  // Rating as it stood 30 days ago: after the last match before the cutoff,
+  // or before the first match if every match is within the window
+  const cutoff = nowMs - THIRTY_DAYS_MS;
+  const beforeWindow = points.filter((p) => p.createdAt.getTime() < cutoff);
+  const startRating = beforeWindow.length > 0
+    ? beforeWindow[beforeWindow.length - 1].ratingAfter
+    : points[0].ratingBefore;
+
+  return {
+    current,
+    peak: Math.max(...ratings),
+    low: Math.min(...ratings),
+    delta30d: current - startRating,
+  };
+};
@@ -0,0 +1,64 @@
+/**
+ * Rematch Seating
+ * Decides where each player sits in a rematch of a completed lobby
+ */
+
+import { getTeamPlayers, toTeam } from '@/lib/rotation';
+import type { GameMode, Lobby, Player, RematchArrangement, Team } from '@/types/lobby';
+
+export interface RematchTeams {
+  team1: Team;
+  team2: Team;
+}
+
+export const REMATCH_ARRANGEMENT_LABELS: Record<RematchArrangement, string> = {
+  same: 'Same Sides',
+  switch_sides: 'Switch Sides',
+  shuffle_partners: 'New Partners',
+};
+
+/**
+ * Lists the arrangements the host can pick for a game mode
+ * Shuffling partners only applies to doubles.
+ */
+export const getRematchArrangements = (gameMode: GameMode): RematchArrangement[] => {
+  return gameMode === 'doubles'
+    ? ['same', 'switch_sides', 'shuffle_partners']
+    : ['same', 'switch_sides'];
+};
+
+/**
+ * Works out the teams of a rematch
+ * - same: every player keeps their side and slot
+ * - switch_sides: team 1 and team 2 swap
+ * - shuffle_partners: every player gets a new partner; of the two pairings
+ *   that split all partnerships, one is picked at random
+ *
+ * @param lobby - Completed lobby
+ * @param arrangement - How to reseat the players
+ * @param random - Random source in [0, 1), for the shuffle
+ * @returns Teams for the rematch
+ */
+export const getRematchTeams = (
+  lobby: Lobby,
+  arrangement: RematchArrangement,
+  random: () => number = Math.random
+): RematchTeams => {
+  const team1 = getTeamPlayers(lobby.team1);
+  const team2 = getTeamPlayers(lobby.team2);
+
+  if (arrangement === 'switch_sides') {
+    return { team1: toTeam(team2), team2: toTeam(team1) };
+  }
+
+  if (arrangement === 'shuffle_partners' && lobby.gameMode === 'doubles') {
+    const [a, b] = team1;
+    const [c, d] = random() < 0.5 ? team2 : [...team2].reverse();
+    return {
+      team1: toTeam([a, c].filter((p): p is Player => !!p)),
+      team2: toTeam([b, d].filter((p): p is Player => !!p)),
+    };
+  }
+
+  return { team1: toTeam(team1), team2: toTeam(team2) };
+};
@@ -1,19 +1,33 @@
 /**
  * Room Code Utilities
  * Pure functions for room code generation, validation, and formatting
+ *
+ * New codes use an alphabet without look-alike characters (no 0/O, 1/I) and a
+ * configurable length. Codes from before the change are 4 characters drawn from
+ * A-Z and 0-9 and remain valid so old links and QR codes keep working, as do
+ * codes generated under any other supported length.
  */
 
+import { MAX_ROOM_CODE_LENGTH, MIN_ROOM_CODE_LENGTH, ROOM_CODE_LENGTH } from '@/config/roomCode';
+
+// A-Z and 2-9 without O and I (32 symbols)
+export const ROOM_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const LEGACY_ROOM_CODE_LENGTH = 4;
+
+const LEGACY_ROOM_CODE_PATTERN = /^[A-Z0-9]{4}$/;
+
 /**
- * Generates a random 4-character alphanumeric room code
- * @returns Uppercase room code (e.g., "AB12")
+ * Generates a random room code from the unambiguous alphabet
+ * @param length - Number of characters (defaults to the configured length)
+ * @returns Uppercase room code (e.g., "K7MX3Q")
  */
-export const generateRoomCode = (): string => {
-  const characters = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+export const generateRoomCode = (length: number = ROOM_CODE_LENGTH): string => {
   let code = '';
   
-  for (let i = 0; i < 4; i++) {
-    const randomIndex = Math.floor(Math.random() * characters.length);
-    code += characters[randomIndex];
+  for (let i = 0; i < length; i++) {
+    const randomIndex = Math.floor(Math.random() * ROOM_CODE_ALPHABET.length);
+    code += ROOM_CODE_ALPHABET[randomIndex];
   }
   
   return code;
@@ -22,15 +36,21 @@ export const generateRoomCode = (): string => {
 /**
  * Validates a room code format
  * @param code - Room code to validate
- * @returns true if code is 4 alphanumeric characters
+ * @returns true if code is a supported-length code from the alphabet or a legacy 4-character code
  */
 export const validateRoomCode = (code: string): boolean => {
   if (!code || typeof code !== 'string') {
     return false;
   }
   
-  // Must be exactly 4 characters, alphanumeric only
-  return /^[A-Z0-9]{4}$/.test(code);
+  // Legacy codes: exactly 4 characters, alphanumeric only
+  if (LEGACY_ROOM_CODE_PATTERN.test(code)) {
+    return true;
+  }
+
+  return code.length >= MIN_ROOM_CODE_LENGTH &&
+    code.length <= MAX_ROOM_CODE_LENGTH &&
+    [...code].every((char) => ROOM_CODE_ALPHABET.includes(char));
 };
 
 /**
@@ -40,6 +60,14 @@ export const validateRoomCode = (code: string): boolean => {
  */
 export const isValidRoomCode = validateRoomCode;
 
+/**
+ * Longest room code a user may need to type
+ * @returns Maximum input length for room code fields
+ */
+export const getMaxRoomCodeLength = (): number => {
+  return MAX_ROOM_CODE_LENGTH;
+};
+
 /**
  * Formats a room code to uppercase and removes whitespace
  * @param code - Raw room code input
@@ -65,13 +93,17 @@ export const getRoomCodeError = (code: string): string | null => {
     return 'Room code is required';
   }
   
-  if (formatted.length !== 4) {
-    return 'Room code must be 4 characters';
+  if (formatted.length < MIN_ROOM_CODE_LENGTH || formatted.length > MAX_ROOM_CODE_LENGTH) {
+    return `Room code must be ${MIN_ROOM_CODE_LENGTH}-${MAX_ROOM_CODE_LENGTH} characters`;
   }
   
-  if (!validateRoomCode(formatted)) {
+  if (!/^[A-Z0-9]+$/.test(formatted)) {
     return 'Room code must contain only letters and numbers';
   }
+
+  if (!validateRoomCode(formatted)) {
+    return 'Room codes never contain 0, O, 1 or I - check for look-alike characters';
+  }
   
   return null;
 };
@@ -0,0 +1,128 @@
+/**
+ * Open-Play Rotation ("King of the Court")
+ * Decides who plays the next game of a rotation lobby from the last result
+ * and the waiting list, and estimates how long queued players will wait
+ */
+
+import type { Lobby, Player, RotationRule, Team } from '@/types/lobby';
+
+// Rough length of one open-play game, used for wait estimates
+export const ESTIMATED_GAME_MINUTES = 15;
+
+export interface RotationResult {
+  team1: Team;
+  team2: Team;
+  waitingPlayers: Player[];
+}
+
+export interface QueueEstimate {
+  player: Player;
+  position: number;    // 1-based place in the queue
+  gamesToWait: number; // Games that must finish before this player is on court
+  minutes: number;     // Rough wait in minutes
+}
+
+export const ROTATION_RULE_LABELS: Record<RotationRule, string> = {
+  winners_stay: 'Winners Stay',
+  everyone_rotates: 'Everyone Rotates',
+};
+
+/**
+ * Gets the players seated on a team in slot order
+ */
+export const getTeamPlayers = (team: Team): Player[] => {
+  return [team.player1, team.player2].filter((p): p is Player => !!p?.uid);
+};
+
+/**
+ * Seats players on a team in slot order
+ * Only sets player2 when present (Firestore rejects undefined)
+ */
+export const toTeam = (players: Player[]): Team => {
+  return {
+    ...(players[0] && { player1: players[0] }),
+    ...(players[1] && { player2: players[1] }),
+  };
+};
+
+/**
+ * Number of players one side puts on court
+ */
+const getSeatsPerTeam = (gameMode: Lobby['gameMode']): number => {
+  return gameMode === 'singles' ? 1 : 2;
+};
+
+/**
+ * Works out the next game of a rotation lobby
+ * Players leaving the court join the back of the queue and the next players
+ * come off the front (FIFO). With a short queue, players who just came off
+ * are pulled straight back on.
+ *
+ * - winners_stay: the winning team keeps its side; the losers rotate out
+ * - everyone_rotates: all players rotate out and the next players are seated
+ *   team 1 first
+ *
+ * @param lobby - Completed lobby
+ * @param winner - Team that won the completed game
+ * @param rule - Rotation rule
+ * @returns Teams and waiting list for the next game
+ */
+export const getNextRotation = (
+  lobby: Lobby,
+  winner: 1 | 2,
+  rule: RotationRule
+): RotationResult => {
+  const seatsPerTeam = getSeatsPerTeam(lobby.gameMode);
+  const winners = getTeamPlayers(winner === 1 ? lobby.team1 : lobby.team2);
+  const losers = getTeamPlayers(winner === 1 ? lobby.team2 : lobby.team1);
+  const queue = [...(lobby.waitingPlayers ?? [])];
+
+  if (rule === 'winners_stay') {
+    queue.push(...losers);
+    const challengers = queue.splice(0, seatsPerTeam);
+
+    return {
+      team1: toTeam(winner === 1 ? winners : challengers),
+      team2: toTeam(winner === 1 ? challengers : winners),
+      waitingPlayers: queue,
+    };
+  }
+
+  queue.push(...winners, ...losers);
+  const nextPlayers = queue.splice(0, seatsPerTeam * 2);
+
+  return {
+    team1: toTeam(nextPlayers.slice(0, seatsPerTeam)),
+    team2: toTeam(nextPlayers.slice(seatsPerTeam)),
+    waitingPlayers: queue,
+  };
+};
+
+/**
+ * Estimates each queued player's wait
+ * Each game frees one team's seats under winners_stay and every seat under
+ * everyone_rotates; the game in progress has to finish first.
+ *
+ * @param lobby - Rotation lobby
+ * @param rule - Rotation rule
+ * @param gameMinutes - Assumed length of one game
+ * @returns Estimate for each waiting player in queue order
+ */
+export const getQueueEstimates = (
+  lobby: Lobby,
+  rule: RotationRule,
+  gameMinutes: number = ESTIMATED_GAME_MINUTES
+): QueueEstimate[] => {
+  const seatsPerTeam = getSeatsPerTeam(lobby.gameMode);
+  const seatsFreedPerGame = rule === 'winners_stay' ? seatsPerTeam : seatsPerTeam * 2;
+
+  return (lobby.waitingPlayers ?? []).map((player, index) => {
+    const gamesToWait = Math.floor(index / seatsFreedPerGame) + 1;
+    return {
+      player,
+      position: index + 1,
+      gamesToWait,
+      minutes: gamesToWait * gameMinutes,
+    };
+  });
+};
@@ -1,54 +1,160 @@
 /**
  * Pickleball Score Validation
- * 
- * Official Rules:
+ *
+ * Official Rules (default format):
  * - First to 11 points
  * - Must win by 2 points
  * - If tied at 10-10, play continues until someone leads by 2
+ *
+ * Lobbies may choose another GameFormat: first to 15 or 21, win by 1
+ * (the game ends as soon as a team reaches the target), or best-of-3/5 games.
  */
 
+import type { GameFormat } from '@/types/game';
+import type { GameScore, Lobby } from '@/types/lobby';
+
 export interface ScoreRange {
   min: number;
   max: number;
   explanation: string;
 }
 
+export interface MatchResult {
+  valid: boolean;
+  error?: string;
+  winner?: 1 | 2;
+  gamesWon: GameScore;  // Games won by each team
+}
+
+export const DEFAULT_GAME_FORMAT: GameFormat = {
+  pointsToWin: 11,
+  winBy: 2,
+  bestOf: 1,
+};
+
+const SUPPORTED_POINTS_TO_WIN: readonly number[] = [11, 15, 21];
+const SUPPORTED_WIN_BY: readonly number[] = [1, 2];
+const SUPPORTED_BEST_OF: readonly number[] = [1, 3, 5];
+
+/**
+ * Checks that a format is one the app offers
+ * Formats stored on lobbies are client-written, so the server checks them before settling
+ *
+ * @param format - Game format to check
+ * @returns True if every field is a supported option
+ */
+export function isSupportedGameFormat(format: GameFormat): boolean {
+  return (
+    SUPPORTED_POINTS_TO_WIN.includes(format?.pointsToWin) &&
+    SUPPORTED_WIN_BY.includes(format?.winBy) &&
+    SUPPORTED_BEST_OF.includes(format?.bestOf)
+  );
+}
+
+/**
+ * Gets a lobby's game format, falling back to the default for older lobbies
+ *
+ * @param lobby - Lobby (or any object carrying an optional format)
+ * @returns Game format in effect
+ */
+export function getGameFormat(lobby: Pick<Lobby, 'gameFormat'>): GameFormat {
+  return lobby.gameFormat ?? DEFAULT_GAME_FORMAT;
+}
+
+/**
+ * Short description of a format for headers and cards
+ *
+ * @param format - Game format
+ * @returns Label such as "To 11 · Win by 2 · Best of 3"
+ */
+export function getGameFormatLabel(format: GameFormat): string {
+  const parts = [`To ${format.pointsToWin}`, `Win by ${format.winBy}`];
+  if (format.bestOf > 1) {
+    parts.push(`Best of ${format.bestOf}`);
+  }
+  return parts.join(' · ');
+}
+
+/**
+ * Number of games a team must win to take the match
+ *
+ * @param bestOf - Games in the match
+ * @returns Games needed to win
+ */
+export function getGamesToWin(bestOf: GameFormat['bestOf']): number {
+  return Math.floor(bestOf / 2) + 1;
+}
+
+/**
+ * Highest score a picker should offer for a format
+ * Leaves room for extended win-by-2 games
+ *
+ * @param format - Game format
+ * @returns Maximum selectable score
+ */
+export function getMaxSelectableScore(format: GameFormat = DEFAULT_GAME_FORMAT): number {
+  return format.winBy === 1 ? format.pointsToWin : format.pointsToWin + 9;
+}
+
 /**
  * Calculate valid score range for one team based on the other team's score.
  * This enforces pickleball scoring rules proactively.
- * 
+ *
  * @param otherTeamScore - The score of the other team
+ * @param format - Game format (defaults to first to 11, win by 2)
  * @returns Valid range and explanation for current team
  */
-export function getValidScoreRange(otherTeamScore: number): ScoreRange {
-  // If other team < 10: This team can be 0-9 (still playing) or 11 (won)
-  if (otherTeamScore < 10) {
+export function getValidScoreRange(
+  otherTeamScore: number,
+  format: GameFormat = DEFAULT_GAME_FORMAT
+): ScoreRange {
+  const target = format.pointsToWin;
+
+  // Win by 1: the game ends the moment either team reaches the target
+  if (format.winBy === 1) {
+    if (otherTeamScore < target) {
+      return {
+        min: 0,
+        max: target,
+        explanation: `Can be 0-${target} (game ends at ${target}-${otherTeamScore})`,
+      };
+    }
+
+    return {
+      min: 0,
+      max: target - 1,
+      explanation: `Can be 0-${target - 1} (lost at ${target})`,
+    };
+  }
+
+  // If other team < target - 1: This team can be still playing or have won at the target
+  if (otherTeamScore < target - 1) {
     return {
       min: 0,
-      max: 11,
-      explanation: `Can be 0-11 (game ends at 11-${otherTeamScore})`,
+      max: target,
+      explanation: `Can be 0-${target} (game ends at ${target}-${otherTeamScore})`,
     };
   }
-  
-  // If other team = 10: This team can be 0-9 (losing), 10 (tied), or 12 (won after 10-10 tie)
-  if (otherTeamScore === 10) {
+
+  // If other team = target - 1: This team can be losing, tied, or won after the tie
+  if (otherTeamScore === target - 1) {
     return {
       min: 0,
-      max: 12,
-      explanation: 'Can be 0-9 (losing), 10 (tied), or 12 (won after tie)',
+      max: target + 1,
+      explanation: `Can be 0-${target - 2} (losing), ${target - 1} (tied), or ${target + 1} (won after tie)`,
     };
   }
-  
-  // If other team = 11: This team can be 0-9 (lost at 11) or 11-13 (extended game)
-  if (otherTeamScore === 11) {
+
+  // If other team = target: This team lost at the target or is in an extended game
+  if (otherTeamScore === target) {
     return {
       min: 0,
-      max: 13,
-      explanation: 'Can be 0-9 (lost) or 11-13 (extended game)',
+      max: target + 2,
+      explanation: `Can be 0-${target - 2} (lost) or ${target}-${target + 2} (extended game)`,
     };
   }
-  
-  // If other team > 11: Extended game, this team must be exactly ±2
+
+  // If other team > target: Extended game, this team must be exactly ±2
   // Winner is 2 ahead, loser is 2 behind
   return {
     min: otherTeamScore - 2,
@@ -59,60 +165,153 @@ export function getValidScoreRange(otherTeamScore: number): ScoreRange {
 
 /**
  * Validate if a final score combination is valid according to pickleball rules.
- * 
+ *
  * @param team1Score - Team 1's final score
  * @param team2Score - Team 2's final score
+ * @param format - Game format (defaults to first to 11, win by 2)
  * @returns Validation result with error message if invalid
  */
 export function isValidPickleballScore(
-  team1Score: number, 
-  team2Score: number
+  team1Score: number,
+  team2Score: number,
+  format: GameFormat = DEFAULT_GAME_FORMAT
 ): { valid: boolean; error?: string } {
+  const target = format.pointsToWin;
+
   // Check for tie
   if (team1Score === team2Score) {
-    return { valid: false, error: 'Game cannot end in a tie - the winner must win by 2' };
+    return { valid: false, error: `Game cannot end tied - the winner must win by ${format.winBy}` };
   }
-  
+
   const maxScore = Math.max(team1Score, team2Score);
   const minScore = Math.min(team1Score, team2Score);
-  
-  // At least one team must reach 11
-  if (maxScore < 11) {
-    return { valid: false, error: 'Game not complete - at least one team must reach 11 points' };
-  }
-  
-  // If winner has exactly 11, loser must be 0-9
-  if (maxScore === 11) {
-    if (minScore >= 10) {
-      return { valid: false, error: 'Score 11-10 is invalid - game must continue to 12-10 (win by 2)' };
+
+  // At least one team must reach the target
+  if (maxScore < target) {
+    return { valid: false, error: `Game not complete - at least one team must reach ${target} points` };
+  }
+
+  // Win by 1: the game ends at the target
+  if (format.winBy === 1) {
+    if (maxScore > target) {
+      return {
+        valid: false,
+        error: `Score ${maxScore}-${minScore} is invalid - game would've ended at ${target}-${minScore}`,
+      };
+    }
+    return { valid: true };
+  }
+
+  // If winner has exactly the target, loser must be at least 2 behind
+  if (maxScore === target) {
+    if (minScore >= target - 1) {
+      return {
+        valid: false,
+        error: `Score ${target}-${minScore} is invalid - game must continue to ${target + 1}-${target - 1} (win by 2)`,
+      };
     }
     return { valid: true };
   }
-  
-  // If winner > 11, this was an extended game (tied at 10-10+)
+
+  // If winner > target, this was an extended game (tied at target - 1 or later)
+  // Both teams must be at least target - 1
+  if (minScore < target - 1) {
+    return {
+      valid: false,
+      error: `Score ${maxScore}-${minScore} is invalid - game would've ended at ${target}-${minScore}`,
+    };
+  }
+
   // Winner must be exactly 2 ahead
   if (maxScore - minScore !== 2) {
-    return { 
-      valid: false, 
-      error: `Score ${maxScore}-${minScore} is invalid - the winner must win by 2`,
+    return {
+      valid: false,
+      error: `Score ${maxScore}-${minScore} is invalid - the winner must win by exactly 2`,
     };
   }
-  
-  // Both teams must be 10+ in extended games
-  if (minScore < 10) {
-    return { 
-      valid: false, 
-      error: `Score ${maxScore}-${minScore} is invalid - game would've ended at 11-${minScore}`,
+
+  return { valid: true };
+}
+
+/**
+ * Validate the games of a match and decide its winner.
+ * Every game must be a valid final score, and the match must stop as soon as
+ * one team has won enough games.
+ *
+ * @param games - Per-game scores in the order they were played
+ * @param format - Game format (defaults to a single game to 11, win by 2)
+ * @returns Validation result with the match winner and games won
+ */
+export function getMatchResult(
+  games: GameScore[],
+  format: GameFormat = DEFAULT_GAME_FORMAT
+): MatchResult {
+  const gamesWon: GameScore = { team1: 0, team2: 0 };
+  const gamesToWin = getGamesToWin(format.bestOf);
+
+  if (games.length === 0) {
+    return { valid: false, error: 'Enter the score of at least one game', gamesWon };
+  }
+
+  for (let i = 0; i < games.length; i++) {
+    const game = games[i];
+    const validation = isValidPickleballScore(game.team1, game.team2, format);
+    if (!validation.valid) {
+      return {
+        valid: false,
+        error: format.bestOf > 1 ? `Game ${i + 1}: ${validation.error}` : validation.error,
+        gamesWon,
+      };
+    }
+
+    if (gamesWon.team1 === gamesToWin || gamesWon.team2 === gamesToWin) {
+      return { valid: false, error: `Match was already decided after game ${i}`, gamesWon };
+    }
+
+    if (game.team1 > game.team2) {
+      gamesWon.team1++;
+    } else {
+      gamesWon.team2++;
+    }
+  }
+
+  if (gamesWon.team1 < gamesToWin && gamesWon.team2 < gamesToWin) {
+    return {
+      valid: false,
+      error: `Match not complete - a team must win ${gamesToWin} of ${format.bestOf} games`,
+      gamesWon,
     };
   }
-  
-  return { valid: true };
+
+  return {
+    valid: true,
+    winner: gamesWon.team1 > gamesWon.team2 ? 1 : 2,
+    gamesWon,
+  };
+}
+
+/**
+ * Headline score for a match: the points of a single game, or games won in best-of-N
+ *
+ * @param games - Per-game scores
+ * @param format - Game format
+ * @returns Match-level score
+ */
+export function getMatchScore(
+  games: GameScore[],
+  format: GameFormat = DEFAULT_GAME_FORMAT
+): GameScore {
+  if (format.bestOf === 1) {
+    return { team1: games[0].team1, team2: games[0].team2 };
+  }
+
+  return getMatchResult(games, format).gamesWon;
 }
 
 /**
  * Clamp a score value within the valid range.
  * Used when ranges change and current value is outside new range.
- * 
+ *
  * @param value - Current score value
  * @param range - Valid score range
  * @returns Clamped value within range
@@ -125,23 +324,28 @@ export function clampScoreToRange(value: number, range: ScoreRange): number {
 
 /**
  * Get a reasonable default score within a range.
- * Prefers 11 for winner, middle of range otherwise.
- * 
+ * Prefers the target score for winner, middle of range otherwise.
+ *
  * @param range - Valid score range
- * @param preferWinning - Whether to prefer a winning score (11+)
+ * @param preferWinning - Whether to prefer a winning score
+ * @param pointsToWin - Target score of the format (defaults to 11)
  * @returns Suggested default score
  */
-export function getDefaultScoreInRange(range: ScoreRange, preferWinning = false): number {
-  // If 11 is in range and we prefer winning, return 11
-  if (preferWinning && range.min <= 11 && range.max >= 11) {
-    return 11;
+export function getDefaultScoreInRange(
+  range: ScoreRange,
+  preferWinning = false,
+  pointsToWin = DEFAULT_GAME_FORMAT.pointsToWin
+): number {
+  // If the target is in range and we prefer winning, return it
+  if (preferWinning && range.min <= pointsToWin && range.max >= pointsToWin) {
+    return pointsToWin;
   }
-  
+
   // If range is narrow (extended game), return min (loser's score)
   if (range.max - range.min <= 2) {
     return range.min;
   }
-  
+
   // Otherwise return middle of range
   return Math.floor((range.min + range.max) / 2);
 }
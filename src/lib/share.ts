@@ -4,6 +4,11 @@
  */
 
 import { Share, Platform } from 'react-native';
+import { File, Paths } from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+import type Svg from 'react-native-svg';
+import { SHARE_CARD_SIZES } from './shareCard';
+import type { ShareCardLayout } from './shareCard';
 import type { Lobby } from '@/types/lobby';
 
 /**
@@ -70,3 +75,63 @@ export const shareMatchResult = async (
     throw error;
   }
 };
+
+/**
+ * Exports a rendered SVG as a PNG in the cache directory
+ * @param svg - Mounted Svg element
+ * @param fileName - File name without extension
+ * @param size - Output size in pixels (defaults to the rendered size)
+ * @returns file:// URI of the PNG
+ */
+export const exportSvgToPng = (
+  svg: Svg,
+  fileName: string,
+  size?: { width: number; height: number }
+): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    svg.toDataURL((base64) => {
+      try {
+        const file = new File(Paths.cache, `${fileName}.png`);
+        file.create({ overwrite: true });
+        file.write(base64, { encoding: 'base64' });
+        resolve(file.uri);
+      } catch (error) {
+        reject(error);
+      }
+    }, size);
+  });
+};
+
+/**
+ * Shares a rendered match card image, falling back to the text result when
+ * the device cannot share files
+ * @param svg - Mounted share card
+ * @param layout - Card layout, which sets the exported size
+ * @param lobby - Completed lobby
+ * @param playerName - Sharing player's name
+ * @param playerPointsChange - Sharing player's rating change
+ */
+export const shareMatchCard = async (
+  svg: Svg,
+  layout: ShareCardLayout,
+  lobby: Lobby,
+  playerName: string,
+  playerPointsChange: number
+): Promise<void> => {
+  if (!(await Sharing.isAvailableAsync())) {
+    await shareMatchResult(lobby, playerName, playerPointsChange);
+    return;
+  }
+
+  try {
+    const uri = await exportSvgToPng(svg, `picklebean-${lobby.roomCode}-${layout}`, SHARE_CARD_SIZES[layout]);
+    await Sharing.shareAsync(uri, {
+      mimeType: 'image/png',
+      UTI: 'public.png',
+      dialogTitle: 'Share Match Result',
+    });
+  } catch (error) {
+    console.error('Error sharing match card:', error);
+    throw error;
+  }
+};
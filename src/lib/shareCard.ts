@@ -0,0 +1,107 @@
+/**
+ * Share Card Utilities
+ * Lays out the data drawn on a match result share card
+ */
+
+import type { GameCategory, Lobby, Player, Team } from '@/types/lobby';
+
+export type ShareCardLayout = 'square' | 'story';
+
+// Exported image size in pixels; the card is drawn in these units and scaled for preview
+export const SHARE_CARD_SIZES: Record<ShareCardLayout, { width: number; height: number }> = {
+  square: { width: 1080, height: 1080 },
+  story: { width: 1080, height: 1920 },
+};
+
+export const SHARE_CARD_LAYOUT_LABELS: Record<ShareCardLayout, string> = {
+  square: 'Square',
+  story: 'Story',
+};
+
+const PROFILE_BASE_URL = 'https://picklebean-ranking-app.web.app/profile';
+
+const CATEGORY_LABELS: Record<GameCategory, string> = {
+  singles: 'Singles',
+  same_gender_doubles: 'Same Gender Doubles',
+  mixed_doubles: 'Mixed Doubles',
+};
+
+export interface ShareCardPlayer {
+  uid: string;
+  displayName: string;
+  photoURL?: string;
+  ratingDelta: number | null;  // null when the match was not rated
+}
+
+export interface ShareCardTeam {
+  players: ShareCardPlayer[];
+  score: number;
+  isWinner: boolean;
+}
+
+export interface ShareCardData {
+  team1: ShareCardTeam;
+  team2: ShareCardTeam;
+  gameScores: string | null;  // "11-7 · 9-11 · 11-5" for best-of-N matches
+  categoryLabel: string;
+  dateLabel: string;
+  profileUrl: string | null;
+}
+
+/**
+ * Formats a rating change with its sign, e.g. "+12" or "-8"
+ */
+export const formatRatingDelta = (delta: number): string => {
+  return `${delta > 0 ? '+' : ''}${delta}`;
+};
+
+/**
+ * Gets a player's profile deep link
+ * @param username - Player's username
+ * @returns Profile URL
+ */
+export const getProfileUrl = (username: string): string => `${PROFILE_BASE_URL}/${username}`;
+
+const toCardPlayers = (team: Team, lobby: Lobby): ShareCardPlayer[] => {
+  return [team.player1, team.player2]
+    .filter((p): p is Player => !!p?.uid)
+    .map((player) => ({
+      uid: player.uid,
+      displayName: player.displayName,
+      ...(player.photoURL && { photoURL: player.photoURL }),
+      ratingDelta: lobby.pointChanges?.[player.uid] ?? null,
+    }));
+};
+
+/**
+ * Builds the data for a completed match's share card
+ * @param lobby - Completed lobby with final scores
+ * @param username - Sharing player's username, for the profile link
+ * @returns Card data, or null if the match has no result yet
+ */
+export const getShareCardData = (lobby: Lobby, username?: string): ShareCardData | null => {
+  if (!lobby.finalScores || !lobby.winner) {
+    return null;
+  }
+
+  const completedAt = lobby.gameCompletedAt?.toDate?.() ?? new Date();
+  const category: GameCategory = lobby.gameCategory ?? (lobby.gameMode === 'singles' ? 'singles' : 'same_gender_doubles');
+  const games = lobby.finalGames ?? [];
+
+  return {
+    team1: {
+      players: toCardPlayers(lobby.team1, lobby),
+      score: lobby.finalScores.team1,
+      isWinner: lobby.winner === 1,
+    },
+    team2: {
+      players: toCardPlayers(lobby.team2, lobby),
+      score: lobby.finalScores.team2,
+      isWinner: lobby.winner === 2,
+    },
+    gameScores: games.length > 1 ? games.map((g) => `${g.team1}-${g.team2}`).join(' · ') : null,
+    categoryLabel: CATEGORY_LABELS[category],
+    dateLabel: completedAt.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' }),
+    profileUrl: username ? getProfileUrl(username) : null,
+  };
+};
@@ -0,0 +1,37 @@
+/**
+ * Slot Change Messages
+ * User-facing copy for the result of a transactional join, leave, move or removal
+ */
+
+import type { SlotChangeResult } from '@/types/lobby';
+
+/**
+ * Explains a slot change to the player who made it
+ * @param result - Result from a lobby slot service call
+ * @returns Message to show, or null when it went through first time
+ */
+export const getSlotChangeMessage = (result: SlotChangeResult): string | null => {
+  if (result.ok) {
+    if (!result.retried) return null;
+    if (result.slot) return `Slot taken, retried - seated on Team ${result.slot.team}`;
+    if (result.queued) return 'Slot taken, retried - added to the queue';
+    return null;
+  }
+
+  switch (result.error) {
+    case 'not_found':
+      return 'Lobby not found. It may have been closed.';
+    case 'full':
+      return result.retried ? 'Slot taken, retried - the lobby is now full' : 'Lobby is full';
+    case 'already_seated':
+      return 'Already in this lobby';
+    case 'slot_changed':
+      return 'Someone else just changed the teams. Check them and try again.';
+    case 'game_started':
+      return 'The game has already started';
+    case 'conflict':
+      return 'Slot taken, retrying failed. Please try again.';
+    default:
+      return 'Something went wrong. Please try again.';
+  }
+};
@@ -62,6 +62,31 @@ export const uploadImage = async (
   }
 };
 
+/**
+ * Uploads a club photo to Firebase Storage
+ * @param clubId - Club ID
+ * @param imageUri - Local image URI
+ * @returns Download URL of uploaded image
+ */
+export const uploadClubPhoto = async (
+  clubId: string,
+  imageUri: string
+): Promise<string> => {
+  try {
+    const response = await fetch(imageUri);
+    const blob = await response.blob();
+
+    const storageRef = ref(storage, `club-photos/${clubId}/photo_${Date.now()}.jpg`);
+    await uploadBytes(storageRef, blob);
+
+    const downloadURL = await getDownloadURL(storageRef);
+    return downloadURL;
+  } catch (error) {
+    console.error('Error uploading club photo:', error);
+    throw new Error('Failed to upload club photo');
+  }
+};
+
 /**
  * Uploads a chat image to Firebase Storage
  * @param chatId - Chat ID
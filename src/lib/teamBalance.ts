@@ -0,0 +1,82 @@
+/**
+ * Team Balancing
+ * Ranks the possible doubles pairings of four players by how evenly matched
+ * the two teams are
+ */
+
+import { getExpectedScore, getGameCategory, getRankingKey, getTeamRating } from './points';
+import type { GameCategory, Player, Team } from '@/types/lobby';
+import type { UserDocument, UserRankings } from '@/types/user';
+
+export interface BalancePlayer {
+  player: Player;
+  gender?: UserDocument['gender'];
+  rankings?: Partial<UserRankings>;  // Missing tracks count as the default 1000
+}
+
+export interface TeamPairing {
+  team1: [BalancePlayer, BalancePlayer];
+  team2: [BalancePlayer, BalancePlayer];
+  category: GameCategory;  // Mixed doubles depends on who partners whom
+  team1Rating: number;
+  team2Rating: number;
+  ratingGap: number;
+  team1WinProbability: number;  // 0-1, from getExpectedScore
+  isCurrent: boolean;  // Matches the lobby's current teams
+}
+
+/**
+ * Gets a player's rating on a track
+ */
+const getTrackRating = (player: BalancePlayer, rankingKey: keyof UserRankings): number => {
+  return player.rankings?.[rankingKey] || 1000;
+};
+
+/**
+ * Gets every way to split four players into two teams of two, best balanced first
+ * There are three pairings: the first player partners each of the others in turn.
+ * The first player stays on team 1 so the pairing that matches the lobby's
+ * current teams can be recognised. Each pairing is rated on the track it would
+ * count towards.
+ *
+ * @param players - Team 1 player 1, team 1 player 2, team 2 player 1, team 2 player 2
+ * @returns Pairings sorted by smallest rating gap; ties keep the current teams first
+ */
+export const getTeamPairings = (
+  players: [BalancePlayer, BalancePlayer, BalancePlayer, BalancePlayer]
+): TeamPairing[] => {
+  const [first, ...others] = players;
+
+  const pairings = others.map((partner, index): TeamPairing => {
+    const opponents = others.filter((_, i) => i !== index) as [BalancePlayer, BalancePlayer];
+    const category = getGameCategory('doubles', [first, partner, ...opponents].map((p) => p.gender));
+    const rankingKey = getRankingKey(category);
+    const team1Rating = getTeamRating(getTrackRating(first, rankingKey), getTrackRating(partner, rankingKey));
+    const team2Rating = getTeamRating(getTrackRating(opponents[0], rankingKey), getTrackRating(opponents[1], rankingKey));
+
+    return {
+      team1: [first, partner],
+      team2: opponents,
+      category,
+      team1Rating,
+      team2Rating,
+      ratingGap: Math.abs(team1Rating - team2Rating),
+      team1WinProbability: getExpectedScore(team1Rating, team2Rating),
+      isCurrent: index === 0,
+    };
+  });
+
+  return pairings.sort((a, b) => a.ratingGap - b.ratingGap || Number(b.isCurrent) - Number(a.isCurrent));
+};
+
+/**
+ * Converts a pairing into lobby teams
+ * @param pairing - Chosen pairing
+ * @returns Team 1 and team 2 with both slots filled
+ */
+export const getPairingTeams = (pairing: TeamPairing): { team1: Team; team2: Team } => {
+  return {
+    team1: { player1: pairing.team1[0].player, player2: pairing.team1[1].player },
+    team2: { player1: pairing.team2[0].player, player2: pairing.team2[1].player },
+  };
+};
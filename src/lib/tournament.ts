@@ -0,0 +1,482 @@
+/**
+ * Tournament Scheduling
+ * Seeds registered players and generates round-robin, rotating-partners and
+ * elimination schedules, then moves results through the bracket
+ * Shared by the app (schedule generation) and the settleMatch function (results)
+ */
+
+import { getDefaultRankings } from './points';
+import { getPairKey } from './matchRecords';
+import type { GameMode, GameScore } from '@/types/lobby';
+import type {
+  Tournament,
+  TournamentEntry,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentPlayer,
+  TournamentSide,
+} from '@/types/tournament';
+import type { UserRankings } from '@/types/user';
+
+export const MAX_TOURNAMENT_PLAYERS = 32;
+
+export const TOURNAMENT_FORMAT_LABELS: Record<TournamentFormat, string> = {
+  round_robin: 'Round Robin',
+  single_elimination: 'Single Elimination',
+  double_elimination: 'Double Elimination',
+  rotating_partners: 'Rotating Partners',
+};
+
+// Fewest entries each format can run with
+const MIN_ENTRIES: Record<TournamentFormat, number> = {
+  round_robin: 3,
+  single_elimination: 2,
+  double_elimination: 4,
+  rotating_partners: 4,
+};
+
+// Side of a match with nobody in it (the other side advances)
+const BYE: TournamentSide = { playerIds: [] };
+
+/**
+ * Checks if a format seats fixed doubles pairs as entries
+ */
+const hasFixedPairs = (format: TournamentFormat, gameMode: GameMode): boolean => {
+  return gameMode === 'doubles' && format !== 'rotating_partners';
+};
+
+/**
+ * Gets the rating a player is seeded by
+ * Doubles uses the better of the player's two doubles ratings.
+ * @param rankings - Player's rankings (missing on new profiles)
+ * @param gameMode - Tournament game mode
+ * @returns Seeding rating
+ */
+export const getSeedRating = (
+  rankings: Partial<UserRankings> | undefined,
+  gameMode: GameMode
+): number => {
+  const current = { ...getDefaultRankings(), ...rankings };
+  return gameMode === 'singles'
+    ? current.singles
+    : Math.max(current.sameGenderDoubles, current.mixedDoubles);
+};
+
+/**
+ * Checks whether a tournament can start
+ * @param tournament - Tournament in registration
+ * @returns Reason it cannot start, or null
+ */
+export const getTournamentStartError = (
+  tournament: Pick<Tournament, 'format' | 'gameMode' | 'players' | 'poolCount'>
+): string | null => {
+  const playerCount = tournament.players.length;
+  const perEntry = hasFixedPairs(tournament.format, tournament.gameMode) ? 2 : 1;
+  const minPlayers = MIN_ENTRIES[tournament.format] * perEntry;
+
+  if (tournament.format === 'rotating_partners' && tournament.gameMode !== 'doubles') {
+    return 'Rotating partners is a doubles format';
+  }
+  if (playerCount < minPlayers) {
+    return `At least ${minPlayers} players are needed`;
+  }
+  if (perEntry === 2 && playerCount % 2 !== 0) {
+    return 'Doubles needs an even number of players';
+  }
+  if (tournament.format === 'round_robin' && playerCount / perEntry < tournament.poolCount * MIN_ENTRIES.round_robin) {
+    return `Each pool needs at least ${MIN_ENTRIES.round_robin} entries`;
+  }
+  return null;
+};
+
+/**
+ * Seeds players into entries by rating
+ * Doubles pairs the strongest remaining player with the weakest so teams are
+ * balanced; round-robin pools are filled in snake order (1-2-2-1).
+ * @param players - Registered players with current ratings
+ * @param format - Tournament format
+ * @param gameMode - Singles or doubles
+ * @param poolCount - Round-robin pools
+ * @returns Entries, seed 1 first
+ */
+export const seedEntries = (
+  players: TournamentPlayer[],
+  format: TournamentFormat,
+  gameMode: GameMode,
+  poolCount = 1
+): TournamentEntry[] => {
+  const ranked = [...players].sort((a, b) => b.rating - a.rating);
+
+  const groups: string[][] = hasFixedPairs(format, gameMode)
+    ? ranked.slice(0, ranked.length / 2).map((player, index) => [
+        player.uid,
+        ranked[ranked.length - 1 - index].uid,
+      ])
+    : ranked.map((player) => [player.uid]);
+
+  return groups.map((playerIds, index) => {
+    const lap = Math.floor(index / poolCount);
+    const pool = lap % 2 === 0 ? index % poolCount : poolCount - 1 - (index % poolCount);
+
+    return {
+      id: playerIds.length === 2 ? getPairKey(playerIds[0], playerIds[1]) : playerIds[0],
+      seed: index + 1,
+      playerIds,
+      ...(format === 'round_robin' && poolCount > 1 && { pool }),
+    };
+  });
+};
+
+/**
+ * Builds the side of a match for an entry
+ */
+const toSide = (entry: TournamentEntry): TournamentSide => {
+  return { entryId: entry.id, playerIds: entry.playerIds };
+};
+
+/**
+ * Lists the players seated on a match's sides
+ */
+const getSidePlayerIds = (match: Pick<TournamentMatch, 'team1' | 'team2'>): string[] => {
+  return [...(match.team1?.playerIds ?? []), ...(match.team2?.playerIds ?? [])];
+};
+
+/**
+ * Creates a match with the given sides, ready when both are seated
+ */
+const createMatch = (
+  fields: Omit<TournamentMatch, 'playerIds' | 'status'>
+): TournamentMatch => {
+  return {
+    ...fields,
+    playerIds: getSidePlayerIds(fields),
+    status: fields.team1 && fields.team2 ? 'ready' : 'pending',
+  };
+};
+
+/**
+ * Pairs items into rounds where everyone meets everyone once (circle method)
+ * With an odd count, whoever is paired with null sits the round out.
+ * @param items - Items to pair
+ * @returns Rounds of pairs
+ */
+export const getRoundRobinRounds = <T>(items: T[]): [T | null, T | null][][] => {
+  const circle: (T | null)[] = items.length % 2 === 0 ? [...items] : [...items, null];
+  const rounds: [T | null, T | null][][] = [];
+
+  for (let round = 0; round < circle.length - 1; round++) {
+    const pairs: [T | null, T | null][] = [];
+    for (let i = 0; i < circle.length / 2; i++) {
+      pairs.push([circle[i], circle[circle.length - 1 - i]]);
+    }
+    rounds.push(pairs);
+
+    // Keep the first item fixed and rotate the rest one place
+    circle.splice(1, 0, circle.pop() as T | null);
+  }
+
+  return rounds;
+};
+
+/**
+ * Schedules every entry in a pool against every other
+ */
+const getRoundRobinMatches = (entries: TournamentEntry[], pool: number): TournamentMatch[] => {
+  return getRoundRobinRounds(entries).flatMap((pairs, roundIndex) =>
+    pairs
+      .filter((pair): pair is [TournamentEntry, TournamentEntry] => !!pair[0] && !!pair[1])
+      .map(([a, b], position) =>
+        createMatch({
+          id: `p${pool}-r${roundIndex + 1}-m${position}`,
+          bracket: 'pool',
+          round: roundIndex + 1,
+          position,
+          pool,
+          team1: toSide(a),
+          team2: toSide(b),
+        })
+      )
+  );
+};
+
+/**
+ * Schedules a rotating-partners round robin
+ * Partners come from the circle method, so every player partners every other
+ * player once; consecutive pairs play each other. Players without a partner
+ * or an opposing pair sit the round out.
+ */
+const getRotatingPartnersMatches = (entries: TournamentEntry[]): TournamentMatch[] => {
+  return getRoundRobinRounds(entries.map((entry) => entry.playerIds[0])).flatMap((pairs, roundIndex) => {
+    const teams = pairs.filter((pair): pair is [string, string] => !!pair[0] && !!pair[1]);
+    const matches: TournamentMatch[] = [];
+
+    for (let i = 0; i + 1 < teams.length; i += 2) {
+      matches.push(createMatch({
+        id: `rp-r${roundIndex + 1}-m${i / 2}`,
+        bracket: 'pool',
+        round: roundIndex + 1,
+        position: i / 2,
+        team1: { playerIds: teams[i] },
+        team2: { playerIds: teams[i + 1] },
+      }));
+    }
+
+    return matches;
+  });
+};
+
+/**
+ * Gets the seed order of a bracket's first round, top to bottom
+ * Seeds 1 and 2 can only meet in the final (1 v 8, 4 v 5, 3 v 6, 2 v 7).
+ * @param size - Bracket size (a power of two)
+ * @returns Seeds in slot order
+ */
+export const getBracketSeedOrder = (size: number): number[] => {
+  let order = [1];
+  while (order.length < size) {
+    const next = order.length * 2 + 1;
+    order = order.flatMap((seed) => [seed, next - seed]);
+  }
+  return order;
+};
+
+const winnersId = (round: number, position: number) => `w-r${round}-m${position}`;
+const losersId = (round: number, position: number) => `l-r${round}-m${position}`;
+const FINAL_ID = 'final';
+
+/**
+ * Schedules a single or double elimination bracket
+ * The bracket is padded to a power of two; top seeds get the byes. In double
+ * elimination, losers drop into the losers bracket and its winner meets the
+ * winners bracket champion in a single grand final.
+ */
+const getEliminationMatches = (entries: TournamentEntry[], double: boolean): TournamentMatch[] => {
+  const rounds = Math.ceil(Math.log2(entries.length));
+  const size = 2 ** rounds;
+  const seedOrder = getBracketSeedOrder(size);
+  const bySeed = new Map(entries.map((entry) => [entry.seed, entry]));
+  const matches: TournamentMatch[] = [];
+
+  // Winners bracket
+  for (let round = 1; round <= rounds; round++) {
+    const count = size / 2 ** round;
+    for (let position = 0; position < count; position++) {
+      const isLast = round === rounds;
+      const seeds = round === 1 ? [seedOrder[position * 2], seedOrder[position * 2 + 1]] : null;
+      const sides = seeds?.map((seed) => {
+        const entry = bySeed.get(seed);
+        return entry ? toSide(entry) : BYE;
+      });
+
+      matches.push(createMatch({
+        id: winnersId(round, position),
+        bracket: 'winners',
+        round,
+        position,
+        team1: sides?.[0] ?? null,
+        team2: sides?.[1] ?? null,
+        ...(!isLast && {
+          nextMatchId: winnersId(round + 1, Math.floor(position / 2)),
+          nextSlot: position % 2 === 0 ? 1 : 2,
+        }),
+        ...(isLast && double && { nextMatchId: FINAL_ID, nextSlot: 1 }),
+        ...(double && round === 1 && {
+          loserNextMatchId: losersId(1, Math.floor(position / 2)),
+          loserNextSlot: position % 2 === 0 ? 1 : 2,
+        }),
+        // Later losers drop in against the losers bracket, in reverse order
+        // so players don't meet again straight away
+        ...(double && round > 1 && {
+          loserNextMatchId: losersId(2 * (round - 1), count - 1 - position),
+          loserNextSlot: 2,
+        }),
+      }));
+    }
+  }
+
+  if (!double) {
+    return resolveByes(matches);
+  }
+
+  // Losers bracket: odd rounds pair up survivors, even rounds take the
+  // losers dropping from the winners bracket
+  const losersRounds = 2 * (rounds - 1);
+  for (let round = 1; round <= losersRounds; round++) {
+    const count = size / 2 ** (Math.floor((round + 1) / 2) + 1);
+    for (let position = 0; position < count; position++) {
+      const isLast = round === losersRounds;
+      const feedsDropRound = round % 2 === 1;
+
+      matches.push(createMatch({
+        id: losersId(round, position),
+        bracket: 'losers',
+        round,
+        position,
+        team1: null,
+        team2: null,
+        ...(isLast
+          ? { nextMatchId: FINAL_ID, nextSlot: 2 }
+          : feedsDropRound
+            ? { nextMatchId: losersId(round + 1, position), nextSlot: 1 }
+            : {
+                nextMatchId: losersId(round + 1, Math.floor(position / 2)),
+                nextSlot: position % 2 === 0 ? 1 : 2,
+              }),
+      }));
+    }
+  }
+
+  matches.push(createMatch({
+    id: FINAL_ID,
+    bracket: 'final',
+    round: 1,
+    position: 0,
+    team1: null,
+    team2: null,
+  }));
+
+  return resolveByes(matches);
+};
+
+/**
+ * Generates a tournament's schedule from its seeded entries
+ * @param format - Tournament format
+ * @param entries - Seeded entries
+ * @param poolCount - Round-robin pools
+ * @returns Every match; byes are already resolved
+ */
+export const generateSchedule = (
+  format: TournamentFormat,
+  entries: TournamentEntry[],
+  poolCount = 1
+): TournamentMatch[] => {
+  switch (format) {
+    case 'round_robin':
+      return Array.from({ length: poolCount }, (_, pool) =>
+        getRoundRobinMatches(entries.filter((entry) => (entry.pool ?? 0) === pool), pool)
+      ).flat();
+    case 'rotating_partners':
+      return getRotatingPartnersMatches(entries);
+    case 'single_elimination':
+      return getEliminationMatches(entries, false);
+    case 'double_elimination':
+      return getEliminationMatches(entries, true);
+  }
+};
+
+/**
+ * Seats a side in a match and advances it when the other side is a bye
+ */
+const placeSide = (
+  byId: Map<string, TournamentMatch>,
+  changed: Set<string>,
+  matchId: string,
+  slot: 1 | 2,
+  side: TournamentSide
+): void => {
+  const current = byId.get(matchId);
+  if (!current) return;
+
+  const match: TournamentMatch = { ...current, [slot === 1 ? 'team1' : 'team2']: side };
+  match.playerIds = getSidePlayerIds(match);
+  if (match.team1 && match.team2) {
+    match.status = 'ready';
+  }
+  byId.set(matchId, match);
+  changed.add(matchId);
+
+  advanceBye(byId, changed, match);
+};
+
+/**
+ * Sends a finished match's winner (and, in double elimination, its loser) on
+ */
+const advance = (
+  byId: Map<string, TournamentMatch>,
+  changed: Set<string>,
+  match: TournamentMatch
+): void => {
+  if (!match.winner || !match.team1 || !match.team2) return;
+
+  const [winnerSide, loserSide] = match.winner === 1
+    ? [match.team1, match.team2]
+    : [match.team2, match.team1];
+
+  if (match.nextMatchId && match.nextSlot) {
+    placeSide(byId, changed, match.nextMatchId, match.nextSlot, winnerSide);
+  }
+  if (match.loserNextMatchId && match.loserNextSlot) {
+    placeSide(byId, changed, match.loserNextMatchId, match.loserNextSlot, loserSide);
+  }
+};
+
+/**
+ * Completes a seated match against a bye without playing it
+ */
+const advanceBye = (
+  byId: Map<string, TournamentMatch>,
+  changed: Set<string>,
+  match: TournamentMatch
+): void => {
+  if (!match.team1 || !match.team2 || match.status === 'bye' || match.status === 'completed') return;
+  if (match.team1.playerIds.length > 0 && match.team2.playerIds.length > 0) return;
+
+  const byeMatch: TournamentMatch = {
+    ...match,
+    status: 'bye',
+    winner: match.team1.playerIds.length > 0 ? 1 : 2,
+  };
+  byId.set(match.id, byeMatch);
+  changed.add(match.id);
+
+  advance(byId, changed, byeMatch);
+};
+
+/**
+ * Resolves every first-round bye in a new bracket
+ */
+const resolveByes = (matches: TournamentMatch[]): TournamentMatch[] => {
+  const byId = new Map(matches.map((match) => [match.id, match]));
+  const changed = new Set<string>();
+
+  matches.forEach((match) => advanceBye(byId, changed, byId.get(match.id) ?? match));
+
+  return matches.map((match) => byId.get(match.id) ?? match);
+};
+
+/**
+ * Records a settled match and moves the result through the bracket
+ * @param matches - Every match in the tournament
+ * @param matchId - Match that settled
+ * @param winner - Winning side
+ * @param games - Per-game scores
+ * @param score - Match score (games won for best-of-N)
+ * @returns The matches that changed
+ */
+export const applyMatchResult = (
+  matches: TournamentMatch[],
+  matchId: string,
+  winner: 1 | 2,
+  games: GameScore[],
+  score: GameScore
+): TournamentMatch[] => {
+  const byId = new Map(matches.map((match) => [match.id, match]));
+  const changed = new Set<string>();
+  const match = byId.get(matchId);
+  if (!match) return [];
+
+  const completed: TournamentMatch = { ...match, status: 'completed', winner, score, games };
+  byId.set(matchId, completed);
+  changed.add(matchId);
+
+  advance(byId, changed, completed);
+
+  return [...changed].map((id) => byId.get(id) as TournamentMatch);
+};
+
+/**
+ * Checks if every match has been played or skipped
+ */
+export const isScheduleComplete = (matches: TournamentMatch[]): boolean => {
+  return matches.every((match) => match.status === 'completed' || match.status === 'bye');
+};
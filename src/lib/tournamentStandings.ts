@@ -0,0 +1,178 @@
+/**
+ * Tournament Standings
+ * Round-robin tables, bracket layout and champions, derived from the
+ * tournament's matches so they update as each result settles
+ */
+
+import type { GameScore } from '@/types/lobby';
+import type {
+  Tournament,
+  TournamentBracket,
+  TournamentEntry,
+  TournamentMatch,
+  TournamentPlayer,
+  TournamentSide,
+  TournamentStanding,
+} from '@/types/tournament';
+
+/**
+ * Names the players on a side for display
+ * @param playerIds - Players on the side
+ * @param players - Registered players
+ * @returns Names joined with "&", "BYE" for an empty side, or "TBD" before it is known
+ */
+export const getSideName = (
+  playerIds: TournamentSide['playerIds'] | undefined,
+  players: TournamentPlayer[]
+): string => {
+  if (!playerIds) return 'TBD';
+  if (playerIds.length === 0) return 'BYE';
+  return playerIds
+    .map((uid) => players.find((p) => p.uid === uid)?.displayName || 'Player')
+    .join(' & ');
+};
+
+/**
+ * Totals the points each side scored in a match
+ */
+const getPointTotals = (match: TournamentMatch): GameScore => {
+  const games = match.games?.length ? match.games : match.score ? [match.score] : [];
+  return games.reduce(
+    (total, game) => ({ team1: total.team1 + game.team1, team2: total.team2 + game.team2 }),
+    { team1: 0, team2: 0 }
+  );
+};
+
+/**
+ * Ranks rows by wins, then point difference, then points scored
+ */
+const compareStandings = (a: TournamentStanding, b: TournamentStanding): number => {
+  return (
+    b.wins - a.wins ||
+    (b.pointsFor - b.pointsAgainst) - (a.pointsFor - a.pointsAgainst) ||
+    b.pointsFor - a.pointsFor
+  );
+};
+
+/**
+ * Builds round-robin standings
+ * Fixed entries are ranked as teams; in rotating partners every player is
+ * their own entry and is credited with each result they were part of.
+ * @param entries - Seeded entries
+ * @param matches - Every match in the tournament
+ * @returns Rows ranked best first (pools are mixed; filter by pool to split them)
+ */
+export const getStandings = (
+  entries: TournamentEntry[],
+  matches: TournamentMatch[]
+): TournamentStanding[] => {
+  const rows = new Map<string, TournamentStanding>(
+    entries.map((entry) => [entry.id, {
+      id: entry.id,
+      playerIds: entry.playerIds,
+      ...(entry.pool !== undefined && { pool: entry.pool }),
+      played: 0,
+      wins: 0,
+      losses: 0,
+      pointsFor: 0,
+      pointsAgainst: 0,
+    }])
+  );
+
+  matches
+    .filter((match) => match.bracket === 'pool' && match.status === 'completed' && match.winner)
+    .forEach((match) => {
+      const points = getPointTotals(match);
+
+      ([1, 2] as const).forEach((team) => {
+        const side = team === 1 ? match.team1 : match.team2;
+        const rowIds = side?.entryId ? [side.entryId] : side?.playerIds ?? [];
+
+        rowIds.forEach((rowId) => {
+          const row = rows.get(rowId);
+          if (!row) return;
+
+          row.played++;
+          if (match.winner === team) row.wins++;
+          else row.losses++;
+          row.pointsFor += team === 1 ? points.team1 : points.team2;
+          row.pointsAgainst += team === 1 ? points.team2 : points.team1;
+        });
+      });
+    });
+
+  return [...rows.values()].sort(compareStandings);
+};
+
+/**
+ * Groups a bracket's matches into rounds for display
+ * @param matches - Every match in the tournament
+ * @param bracket - Bracket to lay out
+ * @returns Rounds in order, each sorted top to bottom
+ */
+export const getBracketRounds = (
+  matches: TournamentMatch[],
+  bracket: TournamentBracket
+): TournamentMatch[][] => {
+  const rounds = new Map<number, TournamentMatch[]>();
+
+  matches
+    .filter((match) => match.bracket === bracket)
+    .forEach((match) => {
+      rounds.set(match.round, [...(rounds.get(match.round) ?? []), match]);
+    });
+
+  return [...rounds.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, round]) => round.sort((a, b) => a.position - b.position));
+};
+
+/**
+ * Names a round for display
+ * @param bracket - Bracket the round belongs to
+ * @param round - 1-based round number
+ * @param roundCount - Rounds in the bracket
+ * @returns Round label
+ */
+export const getRoundLabel = (
+  bracket: TournamentBracket,
+  round: number,
+  roundCount: number
+): string => {
+  if (bracket === 'final') return 'Grand Final';
+  if (bracket === 'losers') return `Losers Round ${round}`;
+  if (bracket === 'winners') {
+    const fromEnd = roundCount - round;
+    if (fromEnd === 0) return 'Final';
+    if (fromEnd === 1) return 'Semifinals';
+    if (fromEnd === 2) return 'Quarterfinals';
+  }
+  return `Round ${round}`;
+};
+
+/**
+ * Gets the players who won a finished tournament
+ * Elimination: the side that won the last match. Round robin: the leader of
+ * each pool.
+ * @param tournament - Tournament with its entries
+ * @param matches - Every match, all played or skipped
+ * @returns Winning player IDs
+ */
+export const getChampionIds = (
+  tournament: Pick<Tournament, 'format' | 'poolCount' | 'entries'>,
+  matches: TournamentMatch[]
+): string[] => {
+  if (tournament.format === 'single_elimination' || tournament.format === 'double_elimination') {
+    const rounds = getBracketRounds(matches, tournament.format === 'double_elimination' ? 'final' : 'winners');
+    const lastMatch = rounds[rounds.length - 1]?.[0];
+    const side = lastMatch?.winner === 1 ? lastMatch.team1 : lastMatch?.team2;
+    return side?.playerIds ?? [];
+  }
+
+  const standings = getStandings(tournament.entries ?? [], matches);
+  const pools = tournament.format === 'round_robin' ? tournament.poolCount : 1;
+
+  return Array.from({ length: pools }, (_, pool) =>
+    standings.find((row) => (row.pool ?? 0) === pool)?.playerIds ?? []
+  ).flat();
+};
@@ -3,7 +3,9 @@
  * Pure functions for validating game data and business rules
  */
 
-import type { Lobby, Player, Team } from '@/types/lobby';
+import { DEFAULT_GAME_FORMAT } from './scoreValidation';
+import type { GameFormat } from '@/types/game';
+import type { Lobby, LobbySlot, Player, Team } from '@/types/lobby';
 import type { UserDocument } from '@/types/user';
 
 /**
@@ -101,6 +103,78 @@ export const allPlayersConfirmed = (
   return playerIds.every((playerId) => confirmations[playerId] === true);
 };
 
+/**
+ * How long players have to confirm or dispute a submitted score
+ * before it settles without their confirmation
+ */
+export const SCORE_CONFIRMATION_TIMEOUT_MS = 10 * 60 * 1000;
+
+/**
+ * settleMatch error message when another device (or the lobby sweeper)
+ * settled the match first; clients stop retrying on it
+ */
+export const MATCH_ALREADY_SETTLED_ERROR = 'Match has already been settled';
+
+/**
+ * settleMatch error message when the score is not ready to settle yet,
+ * e.g. a device clock running ahead of the server's at the timeout
+ */
+export const SCORE_NOT_READY_ERROR = 'Waiting for all players to confirm the score';
+
+/**
+ * Gets the UIDs of every seated player (team 1 first, then team 2)
+ * @param lobby - Lobby to read
+ * @returns Player IDs, excluding empty slots and the waiting list
+ */
+export const getLobbyPlayerIds = (lobby: Lobby): string[] => {
+  return [
+    lobby.team1.player1?.uid,
+    lobby.team1.player2?.uid,
+    lobby.team2.player1?.uid,
+    lobby.team2.player2?.uid,
+  ].filter((uid): uid is string => !!uid);
+};
+
+/**
+ * Checks if the confirmation window for a submitted score has passed
+ * @param submittedAtMs - When the score was submitted (epoch ms)
+ * @param nowMs - Current time (epoch ms)
+ * @returns true if the timeout has elapsed
+ */
+export const isScoreConfirmationExpired = (
+  submittedAtMs: number,
+  nowMs: number = Date.now()
+): boolean => {
+  return nowMs - submittedAtMs >= SCORE_CONFIRMATION_TIMEOUT_MS;
+};
+
+/**
+ * Checks if a submitted score is ready to be settled
+ * Requires every seated player to confirm, or the timeout to pass without a dispute.
+ * Only counts confirmations the lobby rules allow: made after a submission
+ * (which stamps scoreSubmittedAt), by players in the seats
+ * @param lobby - Lobby with a submitted score
+ * @param nowMs - Current time (epoch ms)
+ * @returns true if settlement can proceed
+ */
+export const canSettleScore = (lobby: Lobby, nowMs: number = Date.now()): boolean => {
+  if (
+    lobby.gameCompleted ||
+    lobby.scoreStatus !== 'pending' ||
+    !lobby.proposedScores ||
+    !lobby.scoreSubmittedAt
+  ) {
+    return false;
+  }
+
+  const playerIds = getLobbyPlayerIds(lobby);
+  if (playerIds.length > 0 && allPlayersConfirmed(lobby.scoreConfirmations, playerIds)) {
+    return true;
+  }
+
+  return isScoreConfirmationExpired(lobby.scoreSubmittedAt.toMillis(), nowMs);
+};
+
 /**
  * Validates a display name
  * @param name - Display name to validate
@@ -218,16 +292,68 @@ export const getTeamAssignment = (lobby: Lobby): 'team1' | 'team2' | 'waiting' =
   return 'waiting';
 };
 
+/**
+ * Finds the first empty slot, filling team 1 before team 2
+ * Slots cleared by a leave or removal may hold null or an empty object
+ * @param lobby - Lobby to check
+ * @returns Team and slot to seat a player in, or null if every slot is taken
+ */
+export const getOpenSlot = (lobby: Lobby): LobbySlot | null => {
+  const slots: LobbySlot[] = lobby.gameMode === 'singles'
+    ? [{ team: 1, slot: 1 }, { team: 2, slot: 1 }]
+    : [{ team: 1, slot: 1 }, { team: 1, slot: 2 }, { team: 2, slot: 1 }, { team: 2, slot: 2 }];
+
+  return slots.find((slot) => !getSlotPlayer(lobby, slot)) ?? null;
+};
+
+/**
+ * Finds the slot a player is seated in
+ * @param lobby - Lobby to check
+ * @param userId - Player to look for
+ * @returns Team and slot, or null if the player is not seated
+ */
+export const findPlayerSlot = (lobby: Lobby, userId: string): LobbySlot | null => {
+  const slots: LobbySlot[] = [
+    { team: 1, slot: 1 },
+    { team: 1, slot: 2 },
+    { team: 2, slot: 1 },
+    { team: 2, slot: 2 },
+  ];
+
+  return slots.find(({ team, slot }) => getSlotPlayer(lobby, { team, slot })?.uid === userId) ?? null;
+};
+
+/**
+ * Gets the player in a slot
+ * @param lobby - Lobby to read
+ * @param slot - Team and slot
+ * @returns Seated player, or undefined if the slot is empty
+ */
+export const getSlotPlayer = (lobby: Lobby, { team, slot }: LobbySlot): Player | undefined => {
+  const teamData = team === 1 ? lobby.team1 : lobby.team2;
+  const player = slot === 1 ? teamData.player1 : teamData.player2;
+  return player?.uid ? player : undefined;
+};
+
 /**
  * Validates pickleball scores according to official rules
  * @param team1Score - Team 1's final score
  * @param team2Score - Team 2's final score
+ * @param format - Game format (defaults to first to 11, win by 2)
  * @returns Error message if invalid, null if valid
  */
 export const validatePickleballScore = (
   team1Score: number,
-  team2Score: number
+  team2Score: number,
+  format: GameFormat = DEFAULT_GAME_FORMAT
 ): string | null => {
+  const { pointsToWin, winBy } = format;
+
+  // Rule 0: Whole numbers only (scores written by clients are untrusted)
+  if (!Number.isInteger(team1Score) || !Number.isInteger(team2Score)) {
+    return 'Scores must be whole numbers';
+  }
+
   // Rule 1: No negative scores
   if (team1Score < 0 || team2Score < 0) {
     return 'Scores cannot be negative';
@@ -247,16 +373,24 @@ export const validatePickleballScore = (
   const winnerScore = Math.max(team1Score, team2Score);
   const loserScore = Math.min(team1Score, team2Score);
 
-  // Rule 4: Winner must have at least 11 points
-  if (winnerScore < 11) {
-    return 'Winning team must have at least 11 points';
+  // Rule 4: Winner must have at least the target points
+  if (winnerScore < pointsToWin) {
+    return `Winning team must have at least ${pointsToWin} points`;
+  }
+
+  // Rule 5: Win by 1 ends the game at the target
+  if (winBy === 1) {
+    if (winnerScore === loserScore || winnerScore > pointsToWin) {
+      return `Game ends as soon as a team reaches ${pointsToWin} points`;
+    }
+    return null;
   }
 
-  // Rule 5: Win by 2 if both teams >= 10
-  if (loserScore >= 10) {
+  // Rule 6: Win by 2 if both teams >= target - 1
+  if (loserScore >= pointsToWin - 1) {
     const scoreDifference = winnerScore - loserScore;
     if (scoreDifference < 2) {
-      return 'Must win by 2 points when score is 10-10 or higher';
+      return `Must win by 2 points when score is ${pointsToWin - 1}-${pointsToWin - 1} or higher`;
     }
   }
 
@@ -20,9 +20,20 @@ import { EditDisplayNameScreen } from '@/screens/EditDisplayNameScreen';
 import { EditBioScreen } from '@/screens/EditBioScreen';
 import { EditUsernameScreen } from '@/screens/EditUsernameScreen';
 import { EditGenderScreen } from '@/screens/EditGenderScreen';
+import { EditHomeCourtScreen } from '@/screens/EditHomeCourtScreen';
 import { TapToPlayScreen } from '@/screens/TapToPlayScreen';
 import { FollowListScreen } from '@/screens/FollowListScreen';
 import { ChangePasswordScreen } from '@/screens/settings/ChangePasswordScreen';
+import { TournamentsScreen } from '@/screens/TournamentsScreen';
+import { CreateTournamentScreen } from '@/screens/CreateTournamentScreen';
+import { TournamentDetailScreen } from '@/screens/TournamentDetailScreen';
+import { LaddersScreen } from '@/screens/LaddersScreen';
+import { CreateLadderScreen } from '@/screens/CreateLadderScreen';
+import { LadderDetailScreen } from '@/screens/LadderDetailScreen';
+import { ClubsScreen } from '@/screens/ClubsScreen';
+import { CreateClubScreen } from '@/screens/CreateClubScreen';
+import { ClubDetailScreen } from '@/screens/ClubDetailScreen';
+import { InviteToClubScreen } from '@/screens/InviteToClubScreen';
 import { CreateSessionScreen } from '@/screens/gravity/CreateSessionScreen';
 import { MapFilterScreen } from '@/screens/gravity/MapFilterScreen';
 import { ChatDetailScreen } from '@/screens/ChatDetailScreen';
@@ -116,9 +127,36 @@ export const AppNavigator = memo(() => {
           <RootStack.Screen name="EditBio" component={EditBioScreen} />
           <RootStack.Screen name="EditUsername" component={EditUsernameScreen} />
           <RootStack.Screen name="EditGender" component={EditGenderScreen} />
+          <RootStack.Screen name="EditHomeCourt" component={EditHomeCourtScreen} />
           <RootStack.Screen name="ChangePassword" component={ChangePasswordScreen} />
           <RootStack.Screen name="FollowList" component={FollowListScreen} />
           <RootStack.Screen name="ProgramPaddle" component={TapToPlayScreen} />
+          <RootStack.Screen name="Tournaments" component={TournamentsScreen} />
+          <RootStack.Screen 
+            name="CreateTournament" 
+            component={CreateTournamentScreen} 
+            options={{ presentation: 'modal' }}
+          />
+          <RootStack.Screen name="TournamentDetail" component={TournamentDetailScreen} />
+          <RootStack.Screen name="Ladders" component={LaddersScreen} />
+          <RootStack.Screen 
+            name="CreateLadder" 
+            component={CreateLadderScreen} 
+            options={{ presentation: 'modal' }}
+          />
+          <RootStack.Screen name="LadderDetail" component={LadderDetailScreen} />
+          <RootStack.Screen name="Clubs" component={ClubsScreen} />
+          <RootStack.Screen 
+            name="CreateClub" 
+            component={CreateClubScreen} 
+            options={{ presentation: 'modal' }}
+          />
+          <RootStack.Screen name="ClubDetail" component={ClubDetailScreen} />
+          <RootStack.Screen 
+            name="InviteToClub" 
+            component={InviteToClubScreen} 
+            options={{ presentation: 'modal' }}
+          />
           <RootStack.Screen name="CreateSession" component={CreateSessionScreen} />
           <RootStack.Screen name="MapFilter" component={MapFilterScreen} />
           <RootStack.Screen name="ChatDetail" component={ChatDetailScreen} />
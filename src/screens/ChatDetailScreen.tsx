@@ -60,6 +60,7 @@ import { ImagePreviewSheet } from "@/components/chat/ImagePreviewSheet";
 import { MessageContextMenu } from "@/components/chat/MessageContextMenu";
 import { SwipeableMessage } from "@/components/chat/SwipeableMessage";
 import { uploadChatImage } from "@/lib/storage";
+import { isMultiMemberChat } from "@/lib/lobbyChat";
 import type { RootStackParamList } from "@/types/navigation";
 import type {
   Chat,
@@ -194,6 +195,18 @@ export const ChatDetailScreen = () => {
     loadChat();
   }, [chatId]);
 
+  // Lobby chats are archived by a system message when the game ends;
+  // re-read the chat when one arrives so the input bar can close
+  const lastMessage = messages[messages.length - 1];
+  const lastSystemMessageId = lastMessage?.type === "system" ? lastMessage.id : null;
+  useEffect(() => {
+    if (!chatId || !lastSystemMessageId || chat?.type !== "lobby") return;
+
+    getChat(chatId)
+      .then(setChat)
+      .catch((error) => console.error("Error refreshing chat:", error));
+  }, [chatId, lastSystemMessageId, chat?.type]);
+
   // Get display info for the chat
   const getDisplayInfo = useCallback(() => {
     // Use recipientUser prop immediately if passed (avoids loading flash)
@@ -208,7 +221,7 @@ export const ChatDetailScreen = () => {
     if (!chat || !userId)
       return { name: "Chat", photoURL: null, username: null };
 
-    if (chat.type === "group") {
+    if (isMultiMemberChat(chat.type)) {
       return {
         name: chat.name || "Group Chat",
         photoURL: chat.photoURL || null,
@@ -767,12 +780,21 @@ export const ChatDetailScreen = () => {
       const isOwnMessage = item.senderId === userId;
       const previousMessage = index > 0 ? messages[index - 1] : null;
       const showSender =
-        chat?.type === "group" &&
+        isMultiMemberChat(chat?.type) &&
         !isOwnMessage &&
         previousMessage?.senderId !== item.senderId;
 
       const messageType = item.type || "text";
 
+      // System message (lobby chats) - centered, no bubble
+      if (messageType === "system") {
+        return (
+          <View className="items-center px-4 py-1">
+            <Text className="text-sm text-center text-gray-500">{item.text}</Text>
+          </View>
+        );
+      }
+
       // Image message
       if (messageType === "image" && item.image) {
         const { width, height } = getImageDimensions(
@@ -1076,7 +1098,8 @@ export const ChatDetailScreen = () => {
 
   // No loading gate - show UI immediately, images load from cache
   // Header is tappable for all existing chats and draft mode
-  const isHeaderTappable = !!chatId || isDraftMode;
+  // (lobby chats have no info screen - members follow the lobby)
+  const isHeaderTappable = (!!chatId && chat?.type !== "lobby") || isDraftMode;
 
   return (
     <KeyboardAvoidingView
@@ -1146,7 +1169,7 @@ export const ChatDetailScreen = () => {
               disabled={!isHeaderTappable}
               className="flex-row items-center flex-1"
             >
-              {chat?.type === "group" ? (
+              {isMultiMemberChat(chat?.type) ? (
                 <View className="items-center justify-center w-10 h-10 mr-3 overflow-hidden bg-green-500 rounded-full">
                   {displayInfo.photoURL ? (
                     <Image
@@ -1177,7 +1200,7 @@ export const ChatDetailScreen = () => {
                 >
                   {displayInfo.name}
                 </Text>
-                {chat?.type === "group" && 'memberCount' in displayInfo && (
+                {isMultiMemberChat(chat?.type) && 'memberCount' in displayInfo && (
                   <Text className="text-sm text-gray-500">
                     {displayInfo.memberCount} members
                   </Text>
@@ -1277,8 +1300,17 @@ export const ChatDetailScreen = () => {
           }
         />
 
-        {/* Bottom Bar - Input or Search Navigation */}
-        {isSearchMode ? (
+        {/* Bottom Bar - Input, Search Navigation or Archived Notice */}
+        {chat?.archived && !isSearchMode ? (
+          <View
+            className="items-center px-4 py-3 bg-white border-t border-gray-100"
+            style={{ paddingBottom: Math.max(insets.bottom, 12) }}
+          >
+            <Text className="text-sm text-gray-500">
+              This game is over. The chat is read-only.
+            </Text>
+          </View>
+        ) : isSearchMode ? (
           // Search Navigation Bar (replaces input bar)
           <View
             className="flex-row items-center justify-between px-4 py-3 bg-white border-t border-gray-100"
@@ -0,0 +1,446 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { MapPin, MessageCircle, UserPlus } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClub } from '@/hooks/firestore/useClub';
+import { useToast } from '@/hooks/common/useToast';
+import { useAlert } from '@/hooks/common/useAlert';
+import { ErrorMessage, LoadingSpinner, ScreenHeader } from '@/components/common';
+import { Avatar } from '@/components/ui/Avatar';
+import { ClubMemberRow } from '@/components/club/ClubMemberRow';
+import type { ClubMemberAction } from '@/components/club/ClubMemberRow';
+import { ClubStandingRow } from '@/components/club/ClubStandingRow';
+import { ClubJoinRequestCard } from '@/components/club/ClubJoinRequestCard';
+import {
+  approveClubJoinRequest,
+  cancelClubJoinRequest,
+  declineClubJoinRequest,
+  joinClub,
+  removeClubInvite,
+  removeClubMember,
+  requestToJoinClub,
+  setClubAdmin,
+  transferClubOwnership,
+  updateClubJoinPolicy,
+} from '@/services/clubService';
+import {
+  CLUB_JOIN_POLICY_LABELS,
+  MAX_CLUB_MEMBERS,
+  canManageClub,
+  getClubRole,
+} from '@/lib/club';
+import type { ClubJoinPolicy, ClubJoinRequest, ClubMember } from '@/types/club';
+
+type Tab = 'leaderboard' | 'members' | 'requests';
+
+const TAB_LABELS: Record<Tab, string> = {
+  leaderboard: 'Leaderboard',
+  members: 'Members',
+  requests: 'Requests',
+};
+
+export const ClubDetailScreen = memo(({ navigation, route }: RootStackScreenProps<'ClubDetail'>) => {
+  const { clubId } = route.params;
+  const { user, userDocument } = useAuth();
+  const userId = user?.id || '';
+  const toast = useToast();
+  const alert = useAlert();
+  const [activeTab, setActiveTab] = useState<Tab>('leaderboard');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const { club, standings, requests, myRequest, loading, error } = useClub(clubId, userId);
+  const isManager = !!club && canManageClub(club, userId);
+
+  const myRole = club ? getClubRole(club, userId) : null;
+  const isOwner = myRole === 'owner';
+  const isInvited = !!club && club.invitedIds.includes(userId);
+  const isFull = !!club && club.memberIds.length >= MAX_CLUB_MEMBERS;
+  const hasPendingRequest = myRequest?.status === 'pending';
+
+  const tabs = useMemo(
+    () => (Object.keys(TAB_LABELS) as Tab[]).filter((tab) => tab !== 'requests' || isManager),
+    [isManager]
+  );
+
+  const me = useMemo((): ClubMember | null => {
+    if (!user || !userDocument) return null;
+    return {
+      uid: user.id,
+      username: userDocument.username,
+      displayName: userDocument.displayName || user.id,
+      ...(userDocument.profilePictureUrl && { photoURL: userDocument.profilePictureUrl }),
+    };
+  }, [user, userDocument]);
+
+  const runUpdate = useCallback(async (action: () => Promise<void>, errorMessage: string) => {
+    setIsUpdating(true);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Error updating club:', err);
+      toast.error(err instanceof Error && err.message ? err.message : errorMessage);
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [toast]);
+
+  const handleJoin = useCallback(() => {
+    if (!me) return;
+    runUpdate(async () => {
+      await joinClub(clubId, me);
+      toast.success("You're in the club!");
+    }, 'Failed to join. Please try again.');
+  }, [clubId, me, runUpdate, toast]);
+
+  const handleRequest = useCallback(() => {
+    if (!me) return;
+    runUpdate(async () => {
+      await requestToJoinClub(clubId, me);
+      toast.success('Request sent');
+    }, 'Failed to send your request. Please try again.');
+  }, [clubId, me, runUpdate, toast]);
+
+  const handleCancelRequest = useCallback(() => {
+    runUpdate(() => cancelClubJoinRequest(clubId, userId), 'Failed to cancel your request. Please try again.');
+  }, [clubId, userId, runUpdate]);
+
+  const handleDeclineInvite = useCallback(() => {
+    runUpdate(() => removeClubInvite(clubId, userId), 'Failed to decline. Please try again.');
+  }, [clubId, userId, runUpdate]);
+
+  const handleLeave = useCallback(() => {
+    if (!club) return;
+
+    alert.confirm(
+      'Leave Club?',
+      'You leave the club chat too. Your results stay on the leaderboard if you come back.',
+      {
+        onConfirm: () => {
+          removeClubMember(club.id, userId).catch((err) => {
+            console.error('Error leaving club:', err);
+            toast.error('Failed to leave. Please try again.');
+          });
+        },
+        confirmText: 'Leave',
+        confirmStyle: 'destructive',
+      }
+    );
+  }, [club, userId, alert, toast]);
+
+  const handleOpenChat = useCallback(() => {
+    if (!club) return;
+    navigation.navigate('ChatDetail', { chatId: club.chatId });
+  }, [club, navigation]);
+
+  const handleChangePolicy = useCallback((joinPolicy: ClubJoinPolicy) => {
+    if (!club || joinPolicy === club.joinPolicy) return;
+    runUpdate(() => updateClubJoinPolicy(club.id, joinPolicy), 'Failed to update. Please try again.');
+  }, [club, runUpdate]);
+
+  const handleOpenProfile = useCallback((member: Pick<ClubMember, 'username'>) => {
+    navigation.navigate('UserProfile', { username: member.username });
+  }, [navigation]);
+
+  const handleApprove = useCallback((request: ClubJoinRequest) => {
+    runUpdate(() => approveClubJoinRequest(clubId, request), 'Failed to approve. Please try again.');
+  }, [clubId, runUpdate]);
+
+  const handleDeclineRequest = useCallback((request: ClubJoinRequest) => {
+    runUpdate(() => declineClubJoinRequest(clubId, request.uid), 'Failed to decline. Please try again.');
+  }, [clubId, runUpdate]);
+
+  const handleRemoveMember = useCallback((member: ClubMember) => {
+    alert.confirm(
+      `Remove ${member.displayName}?`,
+      'They leave the club and its chat.',
+      {
+        onConfirm: () => {
+          removeClubMember(clubId, member.uid).catch((err) => {
+            console.error('Error removing club member:', err);
+            toast.error('Failed to remove. Please try again.');
+          });
+        },
+        confirmText: 'Remove',
+        confirmStyle: 'destructive',
+      }
+    );
+  }, [clubId, alert, toast]);
+
+  const handleToggleAdmin = useCallback((member: ClubMember) => {
+    if (!club) return;
+    const isAdmin = club.adminIds.includes(member.uid);
+    runUpdate(() => setClubAdmin(club.id, member.uid, !isAdmin), 'Failed to update. Please try again.');
+  }, [club, runUpdate]);
+
+  const handleMakeOwner = useCallback((member: ClubMember) => {
+    if (!club) return;
+
+    alert.confirm(
+      `Make ${member.displayName} the Owner?`,
+      'You stay on as an admin.',
+      {
+        onConfirm: () => {
+          transferClubOwnership(club, member.uid).catch((err) => {
+            console.error('Error transferring club ownership:', err);
+            toast.error('Failed to transfer. Please try again.');
+          });
+        },
+        confirmText: 'Make Owner',
+      }
+    );
+  }, [club, alert, toast]);
+
+  // The owner manages everyone; admins can only remove plain members
+  const getMemberActions = (member: ClubMember): ClubMemberAction[] => {
+    if (!club || member.uid === userId || !isManager) return [];
+    const role = getClubRole(club, member.uid);
+
+    if (isOwner) {
+      return [
+        { label: role === 'admin' ? 'Remove Admin' : 'Make Admin', onPress: handleToggleAdmin },
+        { label: 'Make Owner', onPress: handleMakeOwner },
+        { label: 'Remove', onPress: handleRemoveMember, destructive: true },
+      ];
+    }
+
+    return role === 'member'
+      ? [{ label: 'Remove', onPress: handleRemoveMember, destructive: true }]
+      : [];
+  };
+
+  const renderMembershipAction = () => {
+    if (!club || myRole) return null;
+
+    if (isInvited) {
+      return (
+        <View className="mb-4">
+          <Text className="mb-2 text-sm text-center !text-gray-700">You've been invited to join</Text>
+          <View className="flex-row gap-2">
+            <Pressable
+              onPress={handleJoin}
+              disabled={isUpdating || isFull}
+              className={`items-center flex-1 py-4 bg-green-500 rounded-lg ${
+                isUpdating || isFull ? 'opacity-50' : 'active:bg-green-600'
+              }`}
+            >
+              <Text className="text-lg font-bold !text-white">{isFull ? 'Club Full' : 'Join Club'}</Text>
+            </Pressable>
+            <Pressable
+              onPress={handleDeclineInvite}
+              disabled={isUpdating}
+              className="items-center justify-center px-6 bg-gray-100 rounded-lg active:bg-gray-200"
+            >
+              <Text className="text-base font-semibold !text-gray-700">Decline</Text>
+            </Pressable>
+          </View>
+        </View>
+      );
+    }
+
+    if (club.joinPolicy === 'invite') {
+      return (
+        <Text className="mb-4 text-sm text-center !text-gray-500">
+          This club is invite only. Ask a member to invite you.
+        </Text>
+      );
+    }
+
+    if (hasPendingRequest) {
+      return (
+        <View className="items-center mb-4">
+          <Text className="text-sm !text-gray-700">Request sent. An admin will let you know.</Text>
+          <Pressable onPress={handleCancelRequest} disabled={isUpdating} className="py-2">
+            <Text className="text-sm font-semibold !text-red-500">Cancel Request</Text>
+          </Pressable>
+        </View>
+      );
+    }
+
+    const isOpen = club.joinPolicy === 'open';
+
+    return (
+      <Pressable
+        onPress={isOpen ? handleJoin : handleRequest}
+        disabled={isUpdating || isFull}
+        className={`items-center py-4 mb-4 bg-green-500 rounded-lg ${
+          isUpdating || isFull ? 'opacity-50' : 'active:bg-green-600'
+        }`}
+      >
+        <Text className="text-lg font-bold !text-white">
+          {isFull ? 'Club Full' : isOpen ? 'Join Club' : 'Request to Join'}
+        </Text>
+      </Pressable>
+    );
+  };
+
+  const renderTab = () => {
+    if (!club) return null;
+
+    if (activeTab === 'leaderboard') {
+      const ranked = standings.filter((standing) => standing.matches > 0);
+      return ranked.length > 0
+        ? ranked.map((standing, index) => (
+          <ClubStandingRow
+            key={standing.uid}
+            standing={standing}
+            rank={index + 1}
+            isCurrentUser={standing.uid === userId}
+            onPress={() => handleOpenProfile(standing)}
+          />
+        ))
+        : (
+          <Text className="py-6 text-sm text-center !text-gray-500">
+            No club matches yet. Matches where every player is a member count here.
+          </Text>
+        );
+    }
+
+    if (activeTab === 'members') {
+      return club.members.map((member) => (
+        <ClubMemberRow
+          key={member.uid}
+          member={member}
+          role={getClubRole(club, member.uid) ?? 'member'}
+          isMe={member.uid === userId}
+          actions={getMemberActions(member)}
+          onPress={handleOpenProfile}
+        />
+      ));
+    }
+
+    return requests.length > 0
+      ? requests.map((request) => (
+        <ClubJoinRequestCard
+          key={request.uid}
+          request={request}
+          disabled={isUpdating || isFull}
+          onApprove={handleApprove}
+          onDecline={handleDeclineRequest}
+          onPress={handleOpenProfile}
+        />
+      ))
+      : <Text className="py-6 text-sm text-center !text-gray-500">No requests waiting</Text>;
+  };
+
+  if (loading) {
+    return <LoadingSpinner fullScreen />;
+  }
+
+  if (error || !club) {
+    return (
+      <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+        <ScreenHeader title="Club" onLeftPress={() => navigation.goBack()} />
+        <View className="p-4">
+          <ErrorMessage message={error ? 'Failed to load club.' : 'Club not found.'} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader title={club.name} onLeftPress={() => navigation.goBack()} />
+
+      <ScrollView className="flex-1" contentContainerClassName="px-4 py-4">
+        <View className="items-center mb-4">
+          <Avatar uri={club.photoURL} name={club.name} size="xl" />
+          {club.description && (
+            <Text className="mt-3 text-sm text-center !text-gray-700">{club.description}</Text>
+          )}
+          <Text className="mt-2 text-xs text-center !text-gray-500">
+            {club.memberIds.length} {club.memberIds.length === 1 ? 'member' : 'members'} · {CLUB_JOIN_POLICY_LABELS[club.joinPolicy]}
+          </Text>
+          {club.homeCourts.length > 0 && (
+            <View className="flex-row flex-wrap justify-center gap-2 mt-2">
+              {club.homeCourts.map((court) => (
+                <View key={court.id} className="flex-row items-center px-2 py-1 bg-gray-100 rounded-full">
+                  <MapPin size={12} color="#6b7280" />
+                  <Text className="ml-1 text-xs !text-gray-600">{court.name}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {renderMembershipAction()}
+
+        {myRole && (
+          <View className="flex-row gap-2 mb-4">
+            <Pressable
+              onPress={handleOpenChat}
+              className="flex-row items-center justify-center flex-1 py-3 bg-green-500 rounded-lg active:bg-green-600"
+            >
+              <MessageCircle size={18} color="#ffffff" />
+              <Text className="ml-2 text-base font-semibold !text-white">Club Chat</Text>
+            </Pressable>
+            {isManager && (
+              <Pressable
+                onPress={() => navigation.navigate('InviteToClub', { clubId: club.id })}
+                disabled={isFull}
+                className={`flex-row items-center justify-center flex-1 py-3 bg-gray-100 rounded-lg ${
+                  isFull ? 'opacity-50' : 'active:bg-gray-200'
+                }`}
+              >
+                <UserPlus size={18} color="#374151" />
+                <Text className="ml-2 text-base font-semibold !text-gray-700">Invite</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+
+        {isManager && (
+          <View className="mb-4">
+            <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Who Can Join</Text>
+            <View className="flex-row gap-2">
+              {(Object.keys(CLUB_JOIN_POLICY_LABELS) as ClubJoinPolicy[]).map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => handleChangePolicy(option)}
+                  disabled={isUpdating}
+                  className={`flex-1 py-2 rounded-lg border ${
+                    club.joinPolicy === option ? 'bg-green-500 border-green-500' : 'bg-white border-gray-300'
+                  }`}
+                >
+                  <Text className={`text-center text-xs font-semibold ${
+                    club.joinPolicy === option ? '!text-white' : '!text-gray-700'
+                  }`}>
+                    {CLUB_JOIN_POLICY_LABELS[option]}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+        )}
+
+        <View className="flex-row p-1 mb-4 bg-gray-100 rounded-lg">
+          {tabs.map((tab) => (
+            <Pressable
+              key={tab}
+              onPress={() => setActiveTab(tab)}
+              className={`flex-1 py-2 rounded-md ${activeTab === tab ? 'bg-white' : ''}`}
+            >
+              <Text className={`text-center text-sm font-semibold ${
+                activeTab === tab ? '!text-gray-900' : '!text-gray-600'
+              }`}>
+                {TAB_LABELS[tab]}
+                {tab === 'requests' && requests.length > 0 ? ` (${requests.length})` : ''}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {renderTab()}
+
+        {myRole && !isOwner && (
+          <Pressable onPress={handleLeave} className="items-center py-3 mt-6">
+            <Text className="text-sm font-semibold !text-red-500">Leave Club</Text>
+          </Pressable>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+});
+
+ClubDetailScreen.displayName = 'ClubDetailScreen';
@@ -0,0 +1,112 @@
+import { memo, useCallback } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ChevronRight, Plus } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClubs } from '@/hooks/firestore/useClubs';
+import { ErrorMessage, LoadingSpinner, ScreenHeader } from '@/components/common';
+import { Avatar } from '@/components/ui/Avatar';
+import { CLUB_JOIN_POLICY_LABELS, CLUB_ROLE_LABELS, getClubRole } from '@/lib/club';
+import type { Club } from '@/types/club';
+
+interface ClubRowProps {
+  club: Club;
+  userId: string;
+  onPress: (clubId: string) => void;
+}
+
+const ClubRow = memo(({ club, userId, onPress }: ClubRowProps) => {
+  const role = getClubRole(club, userId);
+
+  return (
+    <Pressable
+      onPress={() => onPress(club.id)}
+      className="flex-row items-center p-4 mb-2 border border-gray-200 rounded-lg active:bg-gray-50"
+    >
+      <Avatar uri={club.photoURL} name={club.name} size="md" />
+      <View className="flex-1 ml-3">
+        <Text className="text-base font-semibold !text-gray-900" numberOfLines={1}>
+          {club.name}
+        </Text>
+        <Text className="text-xs !text-gray-500" numberOfLines={1}>
+          {club.memberIds.length} {club.memberIds.length === 1 ? 'member' : 'members'} · {CLUB_JOIN_POLICY_LABELS[club.joinPolicy]}
+        </Text>
+        {role && role !== 'member' && (
+          <Text className="text-xs !text-gray-400">{CLUB_ROLE_LABELS[role]}</Text>
+        )}
+      </View>
+      <ChevronRight size={18} color="#9ca3af" />
+    </Pressable>
+  );
+});
+
+ClubRow.displayName = 'ClubRow';
+
+export const ClubsScreen = memo(({ navigation }: RootStackScreenProps<'Clubs'>) => {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+  const { clubs, myClubs, invites, loading, error } = useClubs(userId);
+
+  const handleOpen = useCallback((clubId: string) => {
+    navigation.navigate('ClubDetail', { clubId });
+  }, [navigation]);
+
+  // Clubs the user is in or invited to are listed under theirs; invite-only
+  // clubs can't be joined from the list
+  const listedIds = new Set([...myClubs, ...invites].map((c) => c.id));
+  const otherClubs = clubs.filter((c) => !listedIds.has(c.id) && c.joinPolicy !== 'invite');
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader
+        title="Clubs"
+        onLeftPress={() => navigation.goBack()}
+        rightComponent={
+          <Pressable onPress={() => navigation.navigate('CreateClub')} className="p-2">
+            <Plus size={22} color="#16a34a" />
+          </Pressable>
+        }
+      />
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : (
+        <ScrollView className="flex-1" contentContainerClassName="px-4 py-4">
+          {error && <ErrorMessage message="Failed to load clubs." />}
+
+          {invites.length > 0 && (
+            <View className="mb-6">
+              <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Invites</Text>
+              {invites.map((club) => (
+                <ClubRow key={club.id} club={club} userId={userId} onPress={handleOpen} />
+              ))}
+            </View>
+          )}
+
+          {myClubs.length > 0 && (
+            <View className="mb-6">
+              <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Your Clubs</Text>
+              {myClubs.map((club) => (
+                <ClubRow key={club.id} club={club} userId={userId} onPress={handleOpen} />
+              ))}
+            </View>
+          )}
+
+          <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Find a Club</Text>
+          {otherClubs.length > 0 ? (
+            otherClubs.map((club) => (
+              <ClubRow key={club.id} club={club} userId={userId} onPress={handleOpen} />
+            ))
+          ) : (
+            <Text className="py-6 text-sm text-center !text-gray-500">
+              No other clubs yet. Start one with +.
+            </Text>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+});
+
+ClubsScreen.displayName = 'ClubsScreen';
@@ -0,0 +1,225 @@
+import { memo, useState, useCallback, useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, TextInput, KeyboardAvoidingView, Platform, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as ImagePicker from 'expo-image-picker';
+import { Camera } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { ErrorMessage, ScreenHeader } from '@/components/common';
+import { Avatar } from '@/components/ui/Avatar';
+import { createClub } from '@/services/clubService';
+import { CLUB_JOIN_POLICY_LABELS, MAX_CLUB_HOME_COURTS } from '@/lib/club';
+import { MOCK_COURTS } from '@/mocks/courts';
+import type { ClubCourt, ClubJoinPolicy } from '@/types/club';
+
+const JOIN_POLICY_DESCRIPTIONS: Record<ClubJoinPolicy, string> = {
+  open: 'Anyone can join straight away.',
+  request: 'Players ask to join and an admin approves them.',
+  invite: 'Only players an admin invites can join. The club is hidden from the list.',
+};
+
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export const CreateClubScreen = memo(({ navigation }: RootStackScreenProps<'CreateClub'>) => {
+  const { user, userDocument } = useAuth();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [photoUri, setPhotoUri] = useState<string | null>(null);
+  const [joinPolicy, setJoinPolicy] = useState<ClubJoinPolicy>('request');
+  const [homeCourts, setHomeCourts] = useState<ClubCourt[]>(
+    userDocument?.homeCourtId && userDocument.homeCourtName
+      ? [{ id: userDocument.homeCourtId, name: userDocument.homeCourtName }]
+      : []
+  );
+  const [error, setError] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const canCreate = name.trim().length > 0 && !isCreating;
+
+  // The creator's home court first, then A-Z
+  const courts = useMemo(
+    () => [...MOCK_COURTS].sort((a, b) =>
+      Number(b.id === userDocument?.homeCourtId) - Number(a.id === userDocument?.homeCourtId) ||
+      a.name.localeCompare(b.name)
+    ),
+    [userDocument?.homeCourtId]
+  );
+
+  const handleToggleCourt = useCallback((court: ClubCourt) => {
+    setHomeCourts((current) => {
+      if (current.some((c) => c.id === court.id)) {
+        return current.filter((c) => c.id !== court.id);
+      }
+      return current.length < MAX_CLUB_HOME_COURTS ? [...current, court] : current;
+    });
+  }, []);
+
+  const handlePickPhoto = useCallback(async () => {
+    const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (status !== 'granted') {
+      Alert.alert('Permission Required', 'Please allow access to your photos.');
+      return;
+    }
+
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ImagePicker.MediaTypeOptions.Images,
+      allowsEditing: true,
+      aspect: [1, 1],
+      quality: 0.8,
+    });
+
+    if (!result.canceled && result.assets[0]) {
+      setPhotoUri(result.assets[0].uri);
+    }
+  }, []);
+
+  const handleCreate = useCallback(async () => {
+    if (!user || !userDocument || !name.trim()) return;
+
+    setError('');
+    setIsCreating(true);
+
+    try {
+      const clubId = await createClub(
+        {
+          uid: user.id,
+          username: userDocument.username,
+          displayName: userDocument.displayName || user.id,
+          ...(userDocument.profilePictureUrl && { photoURL: userDocument.profilePictureUrl }),
+        },
+        name,
+        description,
+        joinPolicy,
+        homeCourts,
+        photoUri
+      );
+      navigation.replace('ClubDetail', { clubId });
+    } catch (err) {
+      console.error('Error creating club:', err);
+      setError('Failed to create club. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  }, [user, userDocument, name, description, joinPolicy, homeCourts, photoUri, navigation]);
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader title="New Club" leftAction="close" onLeftPress={() => navigation.goBack()} />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <ScrollView
+          className="flex-1"
+          contentContainerClassName="px-4 py-6 gap-6"
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Photo */}
+          <Pressable onPress={handlePickPhoto} className="items-center active:opacity-70">
+            {photoUri ? (
+              <Avatar uri={photoUri} name={name || 'Club'} size="xl" />
+            ) : (
+              <View className="items-center justify-center w-24 h-24 bg-gray-100 rounded-full">
+                <Camera size={28} color="#9ca3af" />
+              </View>
+            )}
+            <Text className="mt-2 text-sm font-semibold text-green-600">
+              {photoUri ? 'Change Photo' : 'Add Photo'}
+            </Text>
+          </Pressable>
+
+          {/* Name */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Name</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Riverside Picklers"
+              placeholderTextColor="#9ca3af"
+              maxLength={MAX_NAME_LENGTH}
+              className="px-4 py-3 text-base bg-white border border-gray-300 rounded-lg"
+            />
+          </View>
+
+          {/* Description */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Description</Text>
+            <TextInput
+              value={description}
+              onChangeText={setDescription}
+              placeholder="Who you are and when you play"
+              placeholderTextColor="#9ca3af"
+              maxLength={MAX_DESCRIPTION_LENGTH}
+              multiline
+              className="px-4 py-3 text-base bg-white border border-gray-300 rounded-lg min-h-[80px]"
+            />
+          </View>
+
+          {/* Join Policy */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Who Can Join</Text>
+            <View className="gap-2">
+              {(Object.keys(CLUB_JOIN_POLICY_LABELS) as ClubJoinPolicy[]).map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => setJoinPolicy(option)}
+                  className={`p-3 rounded-lg border-2 ${
+                    joinPolicy === option ? 'border-green-500 bg-green-50' : 'border-gray-200'
+                  }`}
+                >
+                  <Text className="text-base font-semibold text-gray-900">
+                    {CLUB_JOIN_POLICY_LABELS[option]}
+                  </Text>
+                  <Text className="mt-1 text-xs text-gray-500">{JOIN_POLICY_DESCRIPTIONS[option]}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          {/* Home Courts */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">
+              Home Courts ({homeCourts.length}/{MAX_CLUB_HOME_COURTS})
+            </Text>
+            <View className="flex-row flex-wrap gap-2">
+              {courts.map((court) => {
+                const isSelected = homeCourts.some((c) => c.id === court.id);
+                return (
+                  <Pressable
+                    key={court.id}
+                    onPress={() => handleToggleCourt({ id: court.id, name: court.name })}
+                    className={`px-3 py-1.5 rounded-full border ${
+                      isSelected ? 'bg-green-500 border-green-500' : 'bg-white border-gray-300'
+                    }`}
+                  >
+                    <Text className={`text-sm font-medium ${isSelected ? 'text-white' : 'text-gray-700'}`}>
+                      {court.name}
+                    </Text>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </View>
+
+          {error && <ErrorMessage message={error} />}
+
+          <Pressable
+            onPress={handleCreate}
+            disabled={!canCreate}
+            className={`py-4 rounded-lg bg-green-500 items-center ${
+              canCreate ? 'active:bg-green-600' : 'opacity-50'
+            }`}
+          >
+            <Text className="text-lg font-bold text-white">
+              {isCreating ? 'Creating...' : 'Create Club'}
+            </Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+});
+
+CreateClubScreen.displayName = 'CreateClubScreen';
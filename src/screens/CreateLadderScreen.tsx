@@ -0,0 +1,186 @@
+import { memo, useState, useCallback } from 'react';
+import { View, Text, Pressable, ScrollView, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { ErrorMessage, ScreenHeader } from '@/components/common';
+import { GameFormatSelector } from '@/components/features/play/GameFormatSelector';
+import { createLadder } from '@/services/ladderService';
+import {
+  CHALLENGE_EXPIRY_DAYS_OPTIONS,
+  CHALLENGE_RANGE_OPTIONS,
+  DEFAULT_CHALLENGE_EXPIRY_DAYS,
+  DEFAULT_CHALLENGE_RANGE,
+  LADDER_SEASON_MODE_LABELS,
+} from '@/lib/ladder';
+import { DEFAULT_GAME_FORMAT } from '@/lib/scoreValidation';
+import type { GameFormat } from '@/types/game';
+import type { LadderSeasonMode } from '@/types/ladder';
+
+const SEASON_MODE_DESCRIPTIONS: Record<LadderSeasonMode, string> = {
+  reset: 'Each new season starts with everyone re-seeded by singles rating.',
+  decay: 'Rungs carry over, but players who played no challenge drop below those who did.',
+};
+
+const MAX_NAME_LENGTH = 40;
+
+interface OptionRowProps {
+  options: number[];
+  value: number;
+  onChange: (value: number) => void;
+  formatOption: (value: number) => string;
+}
+
+const OptionRow = memo(({ options, value, onChange, formatOption }: OptionRowProps) => (
+  <View className="flex-row p-1 bg-gray-100 rounded-lg">
+    {options.map((option) => (
+      <Pressable
+        key={option}
+        onPress={() => onChange(option)}
+        className={`flex-1 py-2 rounded-md ${value === option ? 'bg-white' : ''}`}
+      >
+        <Text className={`text-center text-sm font-semibold ${
+          value === option ? 'text-gray-900' : 'text-gray-600'
+        }`}>
+          {formatOption(option)}
+        </Text>
+      </Pressable>
+    ))}
+  </View>
+));
+
+OptionRow.displayName = 'OptionRow';
+
+export const CreateLadderScreen = memo(({ navigation }: RootStackScreenProps<'CreateLadder'>) => {
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [challengeRange, setChallengeRange] = useState(DEFAULT_CHALLENGE_RANGE);
+  const [challengeExpiryDays, setChallengeExpiryDays] = useState(DEFAULT_CHALLENGE_EXPIRY_DAYS);
+  const [seasonMode, setSeasonMode] = useState<LadderSeasonMode>('decay');
+  const [gameFormat, setGameFormat] = useState<GameFormat>(DEFAULT_GAME_FORMAT);
+  const [error, setError] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const canCreate = name.trim().length > 0 && !isCreating;
+
+  const handleCreate = useCallback(async () => {
+    if (!user || !name.trim()) return;
+
+    setError('');
+    setIsCreating(true);
+
+    try {
+      const ladderId = await createLadder(
+        user.id,
+        name,
+        challengeRange,
+        challengeExpiryDays,
+        seasonMode,
+        gameFormat
+      );
+      navigation.replace('LadderDetail', { ladderId });
+    } catch (err) {
+      console.error('Error creating ladder:', err);
+      setError('Failed to create ladder. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  }, [user, name, challengeRange, challengeExpiryDays, seasonMode, gameFormat, navigation]);
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader title="New Ladder" leftAction="close" onLeftPress={() => navigation.goBack()} />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <ScrollView
+          className="flex-1"
+          contentContainerClassName="px-4 py-6 gap-6"
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Name */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Name</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Club Singles Ladder"
+              placeholderTextColor="#9ca3af"
+              maxLength={MAX_NAME_LENGTH}
+              className="px-4 py-3 text-base bg-white border border-gray-300 rounded-lg"
+            />
+          </View>
+
+          {/* Challenge Range */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Challenge Range</Text>
+            <OptionRow
+              options={CHALLENGE_RANGE_OPTIONS}
+              value={challengeRange}
+              onChange={setChallengeRange}
+              formatOption={(rungs) => `${rungs} ${rungs === 1 ? 'rung' : 'rungs'}`}
+            />
+            <Text className="mt-2 text-xs text-gray-500">
+              How far above themselves a player may challenge. Winning a challenge swaps places.
+            </Text>
+          </View>
+
+          {/* Challenge Window */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Play Within</Text>
+            <OptionRow
+              options={CHALLENGE_EXPIRY_DAYS_OPTIONS}
+              value={challengeExpiryDays}
+              onChange={setChallengeExpiryDays}
+              formatOption={(days) => `${days} days`}
+            />
+            <Text className="mt-2 text-xs text-gray-500">
+              Challenges not played in time expire and free both players.
+            </Text>
+          </View>
+
+          {/* Seasons */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">New Season</Text>
+            <View className="gap-2">
+              {(Object.keys(LADDER_SEASON_MODE_LABELS) as LadderSeasonMode[]).map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => setSeasonMode(option)}
+                  className={`p-3 rounded-lg border-2 ${
+                    seasonMode === option ? 'border-green-500 bg-green-50' : 'border-gray-200'
+                  }`}
+                >
+                  <Text className="text-base font-semibold text-gray-900">
+                    {LADDER_SEASON_MODE_LABELS[option]}
+                  </Text>
+                  <Text className="mt-1 text-xs text-gray-500">{SEASON_MODE_DESCRIPTIONS[option]}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          <GameFormatSelector format={gameFormat} onChange={setGameFormat} />
+
+          {error && <ErrorMessage message={error} />}
+
+          <Pressable
+            onPress={handleCreate}
+            disabled={!canCreate}
+            className={`py-4 rounded-lg bg-green-500 items-center ${
+              canCreate ? 'active:bg-green-600' : 'opacity-50'
+            }`}
+          >
+            <Text className="text-lg font-bold text-white">
+              {isCreating ? 'Creating...' : 'Create Ladder'}
+            </Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+});
+
+CreateLadderScreen.displayName = 'CreateLadderScreen';
@@ -0,0 +1,172 @@
+import { memo, useState, useCallback } from 'react';
+import { View, Text, Pressable, ScrollView, TextInput, KeyboardAvoidingView, Platform } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { ErrorMessage, ScreenHeader } from '@/components/common';
+import { GameFormatSelector } from '@/components/features/play/GameFormatSelector';
+import { createTournament } from '@/services/tournamentService';
+import { TOURNAMENT_FORMAT_LABELS } from '@/lib/tournament';
+import { DEFAULT_GAME_FORMAT } from '@/lib/scoreValidation';
+import type { GameMode } from '@/types/lobby';
+import type { GameFormat } from '@/types/game';
+import type { TournamentFormat } from '@/types/tournament';
+
+const FORMAT_DESCRIPTIONS: Record<TournamentFormat, string> = {
+  round_robin: 'Everyone plays everyone in their pool. Most wins takes it.',
+  single_elimination: 'Seeded bracket. Lose once and you are out.',
+  double_elimination: 'Seeded bracket with a losers bracket. Out after two losses.',
+  rotating_partners: 'Doubles with a new partner every round. Players are ranked on their own record.',
+};
+
+const POOL_OPTIONS = [1, 2, 4];
+
+const MAX_NAME_LENGTH = 40;
+
+export const CreateTournamentScreen = memo(({ navigation }: RootStackScreenProps<'CreateTournament'>) => {
+  const { user } = useAuth();
+  const [name, setName] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('round_robin');
+  const [gameMode, setGameMode] = useState<GameMode>('doubles');
+  const [poolCount, setPoolCount] = useState(1);
+  const [gameFormat, setGameFormat] = useState<GameFormat>(DEFAULT_GAME_FORMAT);
+  const [error, setError] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+
+  const canCreate = name.trim().length > 0 && !isCreating;
+
+  const handleCreate = useCallback(async () => {
+    if (!user || !name.trim()) return;
+
+    setError('');
+    setIsCreating(true);
+
+    try {
+      const tournamentId = await createTournament(user.id, name, format, gameMode, gameFormat, poolCount);
+      navigation.replace('TournamentDetail', { tournamentId });
+    } catch (err) {
+      console.error('Error creating tournament:', err);
+      setError('Failed to create tournament. Please try again.');
+    } finally {
+      setIsCreating(false);
+    }
+  }, [user, name, format, gameMode, gameFormat, poolCount, navigation]);
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader title="New Tournament" leftAction="close" onLeftPress={() => navigation.goBack()} />
+
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+        className="flex-1"
+      >
+        <ScrollView
+          className="flex-1"
+          contentContainerClassName="px-4 py-6 gap-6"
+          keyboardShouldPersistTaps="handled"
+        >
+          {/* Name */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Name</Text>
+            <TextInput
+              value={name}
+              onChangeText={setName}
+              placeholder="Saturday Round Robin"
+              placeholderTextColor="#9ca3af"
+              maxLength={MAX_NAME_LENGTH}
+              className="px-4 py-3 text-base bg-white border border-gray-300 rounded-lg"
+            />
+          </View>
+
+          {/* Format */}
+          <View>
+            <Text className="mb-2 text-sm font-semibold text-gray-700">Format</Text>
+            <View className="gap-2">
+              {(Object.keys(TOURNAMENT_FORMAT_LABELS) as TournamentFormat[]).map((option) => (
+                <Pressable
+                  key={option}
+                  onPress={() => setFormat(option)}
+                  className={`p-3 rounded-lg border-2 ${
+                    format === option ? 'border-green-500 bg-green-50' : 'border-gray-200'
+                  }`}
+                >
+                  <Text className="text-base font-semibold text-gray-900">
+                    {TOURNAMENT_FORMAT_LABELS[option]}
+                  </Text>
+                  <Text className="mt-1 text-xs text-gray-500">{FORMAT_DESCRIPTIONS[option]}</Text>
+                </Pressable>
+              ))}
+            </View>
+          </View>
+
+          {/* Game Mode (rotating partners is always doubles) */}
+          {format !== 'rotating_partners' && (
+            <View>
+              <Text className="mb-2 text-sm font-semibold text-gray-700">Game Mode</Text>
+              <View className="flex-row p-1 bg-gray-100 rounded-lg">
+                {(['singles', 'doubles'] as const).map((mode) => (
+                  <Pressable
+                    key={mode}
+                    onPress={() => setGameMode(mode)}
+                    className={`flex-1 py-2 rounded-md ${gameMode === mode ? 'bg-white' : ''}`}
+                  >
+                    <Text className={`text-center text-sm font-semibold ${
+                      gameMode === mode ? 'text-gray-900' : 'text-gray-600'
+                    }`}>
+                      {mode === 'singles' ? 'Singles' : 'Doubles'}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+              {gameMode === 'doubles' && (
+                <Text className="mt-2 text-xs text-gray-500">
+                  Players register on their own and are paired into balanced teams by rating.
+                </Text>
+              )}
+            </View>
+          )}
+
+          {/* Pools */}
+          {format === 'round_robin' && (
+            <View>
+              <Text className="mb-2 text-sm font-semibold text-gray-700">Pools</Text>
+              <View className="flex-row p-1 bg-gray-100 rounded-lg">
+                {POOL_OPTIONS.map((count) => (
+                  <Pressable
+                    key={count}
+                    onPress={() => setPoolCount(count)}
+                    className={`flex-1 py-2 rounded-md ${poolCount === count ? 'bg-white' : ''}`}
+                  >
+                    <Text className={`text-center text-sm font-semibold ${
+                      poolCount === count ? 'text-gray-900' : 'text-gray-600'
+                    }`}>
+                      {count === 1 ? 'One Pool' : `${count} Pools`}
+                    </Text>
+                  </Pressable>
+                ))}
+              </View>
+            </View>
+          )}
+
+          <GameFormatSelector format={gameFormat} onChange={setGameFormat} />
+
+          {error && <ErrorMessage message={error} />}
+
+          <Pressable
+            onPress={handleCreate}
+            disabled={!canCreate}
+            className={`py-4 rounded-lg bg-green-500 items-center ${
+              canCreate ? 'active:bg-green-600' : 'opacity-50'
+            }`}
+          >
+            <Text className="text-lg font-bold text-white">
+              {isCreating ? 'Creating...' : 'Create Tournament'}
+            </Text>
+          </Pressable>
+        </ScrollView>
+      </KeyboardAvoidingView>
+    </SafeAreaView>
+  );
+});
+
+CreateTournamentScreen.displayName = 'CreateTournamentScreen';
@@ -10,6 +10,7 @@ import { useLeaderboard } from '@/hooks/firestore/useLeaderboard';
 import { Avatar } from '@/components/ui/Avatar';
 import { LoadingSpinner } from '@/components/common';
 import { PendingGameBanner } from '@/components/common/PendingGameBanner';
+import { ExpiredLobbyNotice } from '@/components/common/ExpiredLobbyNotice';
 import { MatchCard } from '@/components/history/MatchCard';
 import { StatCard } from '@/components/dashboard/StatCard';
 import { CompactRankingCard } from '@/components/dashboard/CompactRankingCard';
@@ -17,7 +18,7 @@ import { CompactRankingCard } from '@/components/dashboard/CompactRankingCard';
 export const DashboardScreen = memo(({ navigation }: TabScreenProps<'Dashboard'>) => {
   const { user, userDocument } = useAuth();
   const { matches, loading, refetch } = useMatches(userDocument?.uid || '', 5);
-  const { pendingGame, loading: pendingGameLoading } = usePendingGame();
+  const { pendingGame, expiredLobby, dismissExpiredLobby, loading: pendingGameLoading } = usePendingGame();
   
   // Get rankings for all categories
   const userGender =
@@ -202,6 +203,11 @@ export const DashboardScreen = memo(({ navigation }: TabScreenProps<'Dashboard'>
               <PendingGameBanner pendingGame={pendingGame} />
             )}
 
+            {/* Expired Lobby Notice */}
+            {expiredLobby && !pendingGameLoading && (
+              <ExpiredLobbyNotice lobby={expiredLobby} onDismiss={dismissExpiredLobby} />
+            )}
+
             {/* Stats Section */}
             <View className="mb-6">
               <Text className="mb-3 text-lg font-bold text-gray-900">Your Stats</Text>
@@ -0,0 +1,152 @@
+import { memo, useState, useCallback, useEffect, useMemo } from 'react';
+import { View, Text, Pressable, ScrollView, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import * as Haptics from 'expo-haptics';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { setHomeCourt } from '@/services/userService';
+import { getCurrentLocation, getDistanceKm, type LocationCoords } from '@/lib/location';
+import { getCourtCoords } from '@/lib/leaderboardScope';
+import { MOCK_COURTS } from '@/mocks/courts';
+import { ScreenHeader } from '@/components/common';
+import { useToast } from '@/hooks/common/useToast';
+
+export const EditHomeCourtScreen = memo(({ navigation, route }: RootStackScreenProps<'EditHomeCourt'>) => {
+  const { currentCourtId } = route.params;
+  const { userDocument } = useAuth();
+  const toast = useToast();
+
+  const [courtId, setCourtId] = useState<string | null>(currentCourtId ?? null);
+  const [location, setLocation] = useState<LocationCoords | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Nearest courts first when location is available (no permission prompt here)
+  useEffect(() => {
+    getCurrentLocation().then(setLocation);
+  }, []);
+
+  const courts = useMemo(() => {
+    const withDistance = MOCK_COURTS.map((court) => ({
+      court,
+      distanceKm: location ? getDistanceKm(location, getCourtCoords(court)) : null,
+    }));
+
+    return location
+      ? withDistance.sort((a, b) => (a.distanceKm ?? 0) - (b.distanceKm ?? 0))
+      : withDistance.sort((a, b) => a.court.name.localeCompare(b.court.name));
+  }, [location]);
+
+  const handleBack = () => {
+    navigation.goBack();
+  };
+
+  const handleSelect = (id: string | null) => {
+    setCourtId(id);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+  };
+
+  const handleSave = useCallback(async () => {
+    if (!userDocument?.uid) {
+      toast.error('User not found');
+      return;
+    }
+
+    if (courtId === (currentCourtId ?? null)) {
+      navigation.goBack();
+      return;
+    }
+
+    await Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
+    setIsSaving(true);
+
+    try {
+      await setHomeCourt(userDocument.uid, MOCK_COURTS.find((court) => court.id === courtId) ?? null);
+
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      toast.success(courtId ? 'Home court updated' : 'Home court removed');
+      navigation.goBack();
+    } catch (error) {
+      console.error('Error updating home court:', error);
+      await Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+      toast.error('Failed to update home court');
+    } finally {
+      setIsSaving(false);
+    }
+  }, [courtId, currentCourtId, userDocument, navigation, toast]);
+
+  const hasChanges = courtId !== (currentCourtId ?? null);
+  const canSave = hasChanges && !isSaving;
+
+  const renderOption = (id: string | null, title: string, subtitle?: string) => {
+    const isSelected = courtId === id;
+    return (
+      <Pressable
+        key={id ?? 'none'}
+        onPress={() => handleSelect(id)}
+        className={`py-3 px-4 border-2 rounded-lg active:opacity-70 ${
+          isSelected
+            ? 'bg-green-50 border-green-500'
+            : 'bg-white border-gray-300'
+        }`}
+      >
+        <Text
+          className={`text-base font-semibold ${
+            isSelected ? '!text-green-700' : '!text-gray-700'
+          }`}
+        >
+          {title}
+        </Text>
+        {subtitle && (
+          <Text className="mt-0.5 text-sm !text-gray-500" numberOfLines={1}>
+            {subtitle}
+          </Text>
+        )}
+      </Pressable>
+    );
+  };
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader
+        title="Home Court"
+        onLeftPress={handleBack}
+        rightComponent={
+          isSaving ? (
+            <ActivityIndicator size="small" color="#16a34a" />
+          ) : (
+            <Pressable
+              onPress={handleSave}
+              disabled={!canSave}
+              className="active:opacity-70"
+            >
+              <Text className={`text-base font-semibold ${
+                canSave ? '!text-green-600' : '!text-gray-400'
+              }`}>
+                Save
+              </Text>
+            </Pressable>
+          )
+        }
+      />
+
+      <ScrollView className="flex-1" contentContainerStyle={{ padding: 24 }}>
+        <Text className="mb-4 text-sm !text-gray-600">
+          Where you usually play. Players who share your home court appear on your Home Court leaderboard.
+        </Text>
+
+        <View className="gap-3">
+          {renderOption(null, 'No home court')}
+          {courts.map(({ court, distanceKm }) =>
+            renderOption(
+              court.id,
+              court.name,
+              distanceKm !== null ? `${distanceKm.toFixed(1)} km · ${court.address}` : court.address
+            )
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+});
+
+EditHomeCourtScreen.displayName = 'EditHomeCourtScreen';
@@ -204,7 +204,7 @@ export const EditProfileScreen = memo(({ navigation }: RootStackScreenProps<'Edi
             onPress={() => navigation.navigate('EditGender', { 
               currentGender: userDocument.gender 
             })}
-            className="flex-row items-center justify-between px-6 py-4 active:bg-gray-50"
+            className="flex-row items-center justify-between px-6 py-4 border-b border-gray-100 active:bg-gray-50"
           >
             <View className="flex-1">
               <Text className="mb-1 text-sm !text-gray-500">Gender</Text>
@@ -214,6 +214,22 @@ export const EditProfileScreen = memo(({ navigation }: RootStackScreenProps<'Edi
             </View>
             <ChevronRight size={20} color="#9CA3AF" />
           </Pressable>
+
+          {/* Home Court */}
+          <Pressable
+            onPress={() => navigation.navigate('EditHomeCourt', { 
+              currentCourtId: userDocument.homeCourtId 
+            })}
+            className="flex-row items-center justify-between px-6 py-4 active:bg-gray-50"
+          >
+            <View className="flex-1">
+              <Text className="mb-1 text-sm !text-gray-500">Home Court</Text>
+              <Text className={`text-base ${userDocument.homeCourtName ? '!text-gray-900' : '!text-gray-400'}`}>
+                {userDocument.homeCourtName || 'Not set'}
+              </Text>
+            </View>
+            <ChevronRight size={20} color="#9CA3AF" />
+          </Pressable>
         </View>
       </ScrollView>
     </SafeAreaView>
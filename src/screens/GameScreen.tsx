@@ -1,4 +1,4 @@
-import { memo, useCallback, useState, useMemo, useEffect } from 'react';
+import { memo, useCallback, useState, useMemo, useEffect, useRef } from 'react';
 import { View, Text, Pressable, ScrollView } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -8,6 +8,8 @@ import type { RootStackParamList, RootStackScreenProps } from '@/types/navigatio
 import { useAuth } from '@/contexts/AuthContext';
 import { useLobby } from '@/hooks/firestore/useLobby';
 import { useStakesCalculation } from '@/hooks/game/useStakesCalculation';
+import { useScoreConfirmation } from '@/hooks/game/useScoreConfirmation';
+import { useLiveScoring } from '@/hooks/game/useLiveScoring';
 import { useToast } from '@/hooks/common/useToast';
 import { useAlert } from '@/hooks/common/useAlert';
 import { LoadingSpinner, ErrorMessage, ScreenHeader } from '@/components/common';
@@ -17,24 +19,46 @@ import { GameTimer } from '@/components/game/GameTimer';
 import { ScorePickerSheet } from '@/components/game/ScorePickerSheet';
 import { CancelMatchSheet } from '@/components/game/CancelMatchSheet';
 import { GameSummary } from '@/components/game/GameSummary';
-import { completeMatch, calculateGameDuration } from '@/lib/matchHistory';
-import { cancelMatch, createRematch } from '@/services/lobbyService';
-import type { Player } from '@/types/lobby';
+import { ScoreConfirmationView } from '@/components/game/ScoreConfirmationView';
+import { LiveScoreboard } from '@/components/game/LiveScoreboard';
+import {
+  cancelMatch,
+  createNextRotationGame,
+  createRematch,
+  submitScore,
+} from '@/services/lobbyService';
+import { getLobbyPlayerIds } from '@/lib/validation';
+import { getGameFormat, getGameFormatLabel } from '@/lib/scoreValidation';
+import type { LiveScoreState } from '@/lib/liveScoring';
+import type { GameScore, Player, RematchArrangement, ScoringSystem } from '@/types/lobby';
 
 type GameNavigationProp = NativeStackNavigationProp<RootStackParamList, 'Game'>;
 
+/**
+ * Prefills the score picker with the live score, including an unfinished game
+ */
+const getLiveDefaultGames = (state: LiveScoreState): GameScore[] => {
+  return state.isGameOver ? state.games : [...state.games, { team1: state.team1, team2: state.team2 }];
+};
+
 export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
   const { roomCode } = route.params;
   const navigation = useNavigation<GameNavigationProp>();
-  const { user } = useAuth();
+  const { user, userDocument } = useAuth();
   const { lobby, loading, error, exists} = useLobby(roomCode);
   const toast = useToast();
   const alert = useAlert();
   const [showScoreEntry, setShowScoreEntry] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
+  const [showDisputeEntry, setShowDisputeEntry] = useState(false);
   const insets = useSafeAreaInsets();
 
   const isHost = user?.id === lobby?.hostId;
+  const scoreConfirmation = useScoreConfirmation(lobby, user?.id);
+  const isConfirmingScore = !!lobby?.scoreStatus && !lobby.gameCompleted;
+  const liveScoring = useLiveScoring(lobby, user?.id);
+  const isSeated = !!lobby && !!user?.id && getLobbyPlayerIds(lobby).includes(user.id);
+  const gameFormat = lobby ? getGameFormat(lobby) : undefined;
 
   // Disable swipe-back gesture during active game
   useEffect(() => {
@@ -43,13 +67,43 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
     });
   }, [navigation]);
 
-  // Determine game category for stakes calculation
-  const getGameCategory = (): 'singles' | 'same_gender_doubles' | 'mixed_doubles' => {
-    if (!lobby) return 'singles';
-    if (lobby.gameMode === 'singles') return 'singles';
-    // For doubles, use stored category or default to same_gender_doubles
-    return lobby.gameCategory || 'same_gender_doubles';
-  };
+  // Settlement was turned down for good (e.g. the submitted score is invalid)
+  useEffect(() => {
+    if (scoreConfirmation.settleError) {
+      toast.error(`Couldn't settle the match: ${scoreConfirmation.settleError}`);
+    }
+  }, [scoreConfirmation.settleError, toast]);
+
+  // Open play: the host's device sets up the next rotation game once this one settles
+  const isCreatingNextGame = useRef(false);
+  useEffect(() => {
+    if (!isHost || !lobby?.rotationRule || !lobby.winner || lobby.cancelled) return;
+    if (lobby.nextRoomCode || isCreatingNextGame.current) return;
+
+    isCreatingNextGame.current = true;
+    createNextRotationGame(lobby).catch((err) => {
+      console.error('Error creating next rotation game:', err);
+      toast.error('Failed to set up the next game. Please try again.');
+      isCreatingNextGame.current = false;
+    });
+  }, [isHost, lobby, toast]);
+
+  // Rematch: players watching the summary when the host creates the rematch
+  // move there; anyone opening the summary later gets a Join Rematch button
+  // (null once loaded without a rematch)
+  const initialRematchRoomCode = useRef<string | null | undefined>(undefined);
+  useEffect(() => {
+    if (!lobby) return;
+    if (initialRematchRoomCode.current === undefined) {
+      initialRematchRoomCode.current = lobby.rematchRoomCode ?? null;
+      return;
+    }
+    if (isHost || !isSeated || !lobby.rematchRoomCode) return;
+    if (lobby.rematchRoomCode === initialRematchRoomCode.current) return;
+
+    toast.success('The host started a rematch');
+    navigation.replace('LobbyDetail', { roomCode: lobby.rematchRoomCode });
+  }, [lobby, isHost, isSeated, navigation, toast]);
 
   // Extract player UIDs for stakes calculation (stable references)
   const team1PlayerIds = useMemo(() => {
@@ -77,8 +131,7 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
   const stakesData = useStakesCalculation(
     team1PlayerIds,
     team2PlayerIds,
-    lobby?.gameMode || 'doubles',
-    getGameCategory()
+    lobby?.gameMode || 'doubles'
   );
 
   const handleLeaveGame = useCallback(() => {
@@ -99,63 +152,110 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
     setShowScoreEntry(true);
   }, []);
 
-  const handleSubmitScores = useCallback(async (team1Score: number, team2Score: number) => {
-    if (!lobby || !lobby.gameStartedAt) {
-      throw new Error('Game data not available');
+  const handleStartLiveScoring = useCallback(async (system: ScoringSystem) => {
+    try {
+      await liveScoring.start(system);
+    } catch (err) {
+      console.error('Error starting live scoring:', err);
+      toast.error('Failed to start live scoring. Please try again.');
     }
+  }, [liveScoring.start, toast]);
 
-    if (!stakesData || stakesData.loading) {
-      throw new Error('Point calculation not ready');
+  const handleRallyWon = useCallback(async (team: 1 | 2) => {
+    try {
+      await liveScoring.rallyWon(team);
+    } catch (err) {
+      console.error('Error recording rally:', err);
+      toast.error('Failed to record rally. Please try again.');
     }
+  }, [liveScoring.rallyWon, toast]);
 
+  const handleUndoRally = useCallback(async () => {
     try {
-      // Determine winner
-      const winner = team1Score > team2Score ? 1 : 2;
-      
-      // Calculate game duration
-      const gameDuration = calculateGameDuration(lobby.gameStartedAt.toDate());
-
-      // Calculate REAL point changes based on winner
-      const pointChanges = {
-        team1: winner === 1 ? stakesData.team1Win : -stakesData.team1Loss,
-        team2: winner === 2 ? stakesData.team2Win : -stakesData.team2Loss,
-      };
-
-      // Store stakes snapshot for debugging/audit
-      const stakesSnapshot = {
-        team1Win: stakesData.team1Win,
-        team1Loss: stakesData.team1Loss,
-        team2Win: stakesData.team2Win,
-        team2Loss: stakesData.team2Loss,
-      };
-
-      // Complete match with REAL calculated points
-      await completeMatch(lobby, {
-        team1Score,
-        team2Score,
-        winner,
-        gameDuration,
-        pointChanges,
-        stakesSnapshot,
-      });
-
-      // Close modal - user will see GameSummary screen automatically
+      await liveScoring.undo();
+    } catch (err) {
+      console.error('Error undoing rally:', err);
+      toast.error('Failed to undo rally. Please try again.');
+    }
+  }, [liveScoring.undo, toast]);
+
+  const handleSubmitScores = useCallback(async (games: GameScore[]) => {
+    if (!lobby || !lobby.gameStartedAt || !user?.id) {
+      throw new Error('Game data not available');
+    }
+
+    try {
+      // Opens the confirmation phase; settlement runs once players confirm
+      await submitScore(roomCode, user.id, games, getGameFormat(lobby));
       setShowScoreEntry(false);
     } catch (err) {
-      console.error('Error completing match:', err);
-      throw new Error('Failed to complete match. Please try again.');
+      console.error('Error submitting score:', err);
+      throw new Error('Failed to submit score. Please try again.');
     }
-  }, [lobby, stakesData]);
+  }, [lobby, roomCode, user?.id]);
+
+  // With live scoring the final score comes from the rally log
+  const handleSubmitLiveScore = useCallback(async () => {
+    if (!liveScoring.state) return;
+
+    try {
+      await handleSubmitScores(liveScoring.state.games);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to submit score. Please try again.');
+    }
+  }, [liveScoring.state, handleSubmitScores, toast]);
+
+  const handleConfirmScore = useCallback(async () => {
+    try {
+      await scoreConfirmation.confirm();
+    } catch (err) {
+      console.error('Error confirming score:', err);
+      toast.error('Failed to confirm score. Please try again.');
+    }
+  }, [scoreConfirmation.confirm, toast]);
+
+  const handleSubmitDispute = useCallback(async (games: GameScore[]) => {
+    try {
+      await scoreConfirmation.dispute(games);
+      setShowDisputeEntry(false);
+    } catch (err) {
+      console.error('Error disputing score:', err);
+      throw new Error('Failed to dispute score. Please try again.');
+    }
+  }, [scoreConfirmation.dispute]);
+
+  const handleAcceptCounterScore = useCallback(async () => {
+    if (!lobby?.scoreDispute || !user?.id) return;
+
+    const { games, team1, team2 } = lobby.scoreDispute;
+
+    try {
+      await submitScore(roomCode, user.id, games ?? [{ team1, team2 }], getGameFormat(lobby));
+    } catch (err) {
+      console.error('Error accepting counter-score:', err);
+      toast.error('Failed to update score. Please try again.');
+    }
+  }, [lobby, roomCode, user?.id, toast]);
 
   const handlePlayAgain = useCallback(() => {
     navigation.navigate('Tabs');
   }, [navigation]);
 
-  const handleRematch = useCallback(async () => {
+  const handleNextGame = useCallback(() => {
+    if (!lobby?.nextRoomCode) return;
+    navigation.replace('LobbyDetail', { roomCode: lobby.nextRoomCode });
+  }, [lobby?.nextRoomCode, navigation]);
+
+  const handleJoinRematch = useCallback(() => {
+    if (!lobby?.rematchRoomCode) return;
+    navigation.replace('LobbyDetail', { roomCode: lobby.rematchRoomCode });
+  }, [lobby?.rematchRoomCode, navigation]);
+
+  const handleRematch = useCallback(async (arrangement: RematchArrangement) => {
     if (!lobby) return;
     
     try {
-      const newRoomCode = await createRematch(lobby);
+      const newRoomCode = await createRematch(lobby, arrangement);
       toast.success(`Rematch created! New lobby: ${newRoomCode}`);
       // Navigate after short delay to let toast show
       setTimeout(() => {
@@ -191,6 +291,10 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
 
       const isCurrentUser = player.uid === user?.id;
       const isHostPlayer = player.uid === lobby?.hostId;
+      // Doubles stakes are individual; singles stakes are shown on the team header
+      const playerStake = lobby?.gameMode === 'doubles' && !stakesData.loading
+        ? stakesData.playerStakes[player.uid]
+        : undefined;
 
       return (
         <View className="flex-row items-center gap-3 p-3 bg-white border border-gray-200 rounded-lg">
@@ -203,6 +307,11 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
             <Text className="text-base font-semibold !text-gray-900">
               {player.displayName}
             </Text>
+            {playerStake && (
+              <Text className="text-xs !text-gray-500">
+                Win: +{playerStake.win} | Lose: -{playerStake.loss}
+              </Text>
+            )}
           </View>
           <View className="flex-row gap-2">
             {isCurrentUser && (
@@ -220,7 +329,7 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
         </View>
       );
     },
-    [user?.id, lobby?.hostId]
+    [user?.id, lobby?.hostId, lobby?.gameMode, stakesData]
   );
 
   // Loading state
@@ -260,6 +369,30 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
     );
   }
 
+  // Cancelled by the host, or expired by the lobby sweeper
+  if (lobby.cancelled) {
+    return (
+      <View className="flex-1 bg-white">
+        <SafeAreaView edges={['top']}>
+          <View className="px-4 py-6">
+            <ErrorMessage
+              title={lobby.expiredReason ? 'Game Expired' : 'Game Cancelled'}
+              message={lobby.cancelReason || 'This game was cancelled by the host.'}
+            />
+            <Pressable
+              onPress={() => navigation.navigate('Tabs')}
+              className="py-3 mt-4 bg-green-500 rounded-lg"
+            >
+              <Text className="font-semibold text-center text-white">
+                Back to Home
+              </Text>
+            </Pressable>
+          </View>
+        </SafeAreaView>
+      </View>
+    );
+  }
+
   // Game not started yet
   if (!lobby.gameStarted || !lobby.gameStartedAt) {
     return (
@@ -289,8 +422,11 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
           lobby={lobby}
           currentUserId={user.id}
           currentUserName={user.displayName || 'Player'}
+          currentUsername={userDocument?.username}
           onPlayAgain={handlePlayAgain}
-          onRematch={isHost ? handleRematch : undefined}
+          onRematch={isHost && !lobby.rotationRule && !lobby.rematchRoomCode ? handleRematch : undefined}
+          onJoinRematch={lobby.rematchRoomCode ? handleJoinRematch : undefined}
+          onNextGame={lobby.nextRoomCode ? handleNextGame : undefined}
         />
       </SafeAreaView>
     );
@@ -328,6 +464,10 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
             {lobby.gameMode === 'singles' ? 'Singles (1v1)' : 'Doubles (2v2)'}
           </Text>
           <Text className="text-xs !text-gray-400">•</Text>
+          <Text className="text-xs !text-gray-500">
+            {getGameFormatLabel(getGameFormat(lobby))}
+          </Text>
+          <Text className="text-xs !text-gray-400">•</Text>
           <Text className="text-xs !text-gray-500">
             Room: {roomCode}
           </Text>
@@ -337,71 +477,114 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
 
       <ScrollView
         className="flex-1"
-        contentContainerStyle={{ paddingBottom: isHost ? 100 : 20 }}
+        contentContainerStyle={{ paddingBottom: isHost && !isConfirmingScore ? 100 : 20 }}
       >
-        <View className="px-4 py-6">
-          {/* Teams */}
-          <View className="gap-6">
-            {/* Team 1 - Darker for active game */}
-            <Card variant="outlined" padding="lg" className="bg-green-100 border-green-300">
-              <View className="flex-row items-start justify-between mb-3">
-                <Text className="text-base font-semibold !text-green-800">
-                  Team 1
-                </Text>
-                {stakesData && !stakesData.loading && (
-                  <Text className="text-xs !text-green-700">
-                    Win: +{stakesData.team1Win} | Lose: -{stakesData.team1Loss}
-                  </Text>
-                )}
-              </View>
-              <View className="gap-3">
-                {renderPlayer(lobby.team1.player1, 1)}
-                {lobby.gameMode === 'doubles' && renderPlayer(lobby.team1.player2, 1)}
-              </View>
-            </Card>
-
-            {/* VS Divider - Minimal */}
-            <View className="flex-row items-center justify-center py-3">
-              <View className="flex-1 h-px bg-gray-300" />
-              <Text className="px-3 text-sm font-medium !text-gray-500">vs</Text>
-              <View className="flex-1 h-px bg-gray-300" />
+        {isConfirmingScore && user?.id ? (
+          <ScoreConfirmationView
+            lobby={lobby}
+            currentUserId={user.id}
+            isHost={isHost}
+            hasConfirmed={scoreConfirmation.hasConfirmed}
+            isDisputed={scoreConfirmation.isDisputed}
+            secondsRemaining={scoreConfirmation.secondsRemaining}
+            onConfirm={handleConfirmScore}
+            onDispute={() => setShowDisputeEntry(true)}
+            onAcceptCounter={handleAcceptCounterScore}
+            onReenter={handleCompleteGame}
+          />
+        ) : (
+          <View className="px-4 py-6">
+            {/* Live Score */}
+            <View className="mb-6">
+              <LiveScoreboard
+                gameMode={lobby.gameMode}
+                bestOf={getGameFormat(lobby).bestOf}
+                system={liveScoring.system}
+                state={liveScoring.state}
+                rallyCount={liveScoring.rallyCount}
+                canScore={isSeated}
+                onStart={handleStartLiveScoring}
+                onRallyWon={handleRallyWon}
+                onUndo={handleUndoRally}
+              />
             </View>
 
-            {/* Team 2 - Darker for active game */}
-            <Card variant="outlined" padding="lg" className="bg-blue-100 !border-blue-300">
-              <View className="flex-row items-start justify-between mb-3">
-                <Text className="text-base font-semibold !text-blue-800">
-                  Team 2
-                </Text>
-                {stakesData && !stakesData.loading && (
-                  <Text className="text-xs !text-blue-700">
-                    Win: +{stakesData.team2Win} | Lose: -{stakesData.team2Loss}
+            {/* Teams */}
+            <View className="gap-6">
+              {/* Team 1 - Darker for active game */}
+              <Card variant="outlined" padding="lg" className="bg-green-100 border-green-300">
+                <View className="flex-row items-start justify-between mb-3">
+                  <Text className="text-base font-semibold !text-green-800">
+                    Team 1
                   </Text>
-                )}
+                  {stakesData && !stakesData.loading && lobby.gameMode === 'singles' && (
+                    <Text className="text-xs !text-green-700">
+                      Win: +{stakesData.team1Win} | Lose: -{stakesData.team1Loss}
+                    </Text>
+                  )}
+                </View>
+                <View className="gap-3">
+                  {renderPlayer(lobby.team1.player1, 1)}
+                  {lobby.gameMode === 'doubles' && renderPlayer(lobby.team1.player2, 1)}
+                </View>
+              </Card>
+
+              {/* VS Divider - Minimal */}
+              <View className="flex-row items-center justify-center py-3">
+                <View className="flex-1 h-px bg-gray-300" />
+                <Text className="px-3 text-sm font-medium !text-gray-500">vs</Text>
+                <View className="flex-1 h-px bg-gray-300" />
               </View>
-              <View className="gap-3">
-                {renderPlayer(lobby.team2.player1, 2)}
-                {lobby.gameMode === 'doubles' && renderPlayer(lobby.team2.player2, 2)}
-              </View>
-            </Card>
+
+              {/* Team 2 - Darker for active game */}
+              <Card variant="outlined" padding="lg" className="bg-blue-100 !border-blue-300">
+                <View className="flex-row items-start justify-between mb-3">
+                  <Text className="text-base font-semibold !text-blue-800">
+                    Team 2
+                  </Text>
+                  {stakesData && !stakesData.loading && lobby.gameMode === 'singles' && (
+                    <Text className="text-xs !text-blue-700">
+                      Win: +{stakesData.team2Win} | Lose: -{stakesData.team2Loss}
+                    </Text>
+                  )}
+                </View>
+                <View className="gap-3">
+                  {renderPlayer(lobby.team2.player1, 2)}
+                  {lobby.gameMode === 'doubles' && renderPlayer(lobby.team2.player2, 2)}
+                </View>
+              </Card>
+            </View>
           </View>
-        </View>
+        )}
       </ScrollView>
 
       {/* Fixed Bottom - Complete Game Button (Host Only) with Safe Area */}
-      {isHost && (
+      {isHost && !isConfirmingScore && (
         <View 
           className="absolute bottom-0 left-0 right-0 px-4 pt-4 bg-white border-t border-gray-200"
           style={{ paddingBottom: Math.max(insets.bottom, 16) }}
         >
-          <Pressable
-            onPress={handleCompleteGame}
-            className="items-center py-4 bg-green-500 rounded-lg active:bg-green-600"
-          >
-            <Text className="text-lg font-bold !text-white">
-              Complete Game
-            </Text>
-          </Pressable>
+          {liveScoring.state?.isMatchOver ? (
+            <Pressable
+              onPress={handleSubmitLiveScore}
+              className="items-center py-4 bg-green-500 rounded-lg active:bg-green-600"
+            >
+              <Text className="text-lg font-bold !text-white">
+                {liveScoring.state.games.length > 1
+                  ? 'Submit Match Result'
+                  : `Submit ${liveScoring.state.team1} – ${liveScoring.state.team2}`}
+              </Text>
+            </Pressable>
+          ) : (
+            <Pressable
+              onPress={handleCompleteGame}
+              className="items-center py-4 bg-green-500 rounded-lg active:bg-green-600"
+            >
+              <Text className="text-lg font-bold !text-white">
+                Complete Game
+              </Text>
+            </Pressable>
+          )}
         </View>
       )}
 
@@ -410,8 +593,19 @@ export const GameScreen = memo(({ route }: RootStackScreenProps<'Game'>) => {
         visible={showScoreEntry}
         onClose={() => setShowScoreEntry(false)}
         onSubmit={handleSubmitScores}
-        defaultTeam1Score={0}
-        defaultTeam2Score={0}
+        format={gameFormat}
+        defaultGames={liveScoring.state ? getLiveDefaultGames(liveScoring.state) : undefined}
+      />
+
+      {/* Counter-score Sheet (Dispute) */}
+      <ScorePickerSheet
+        visible={showDisputeEntry}
+        onClose={() => setShowDisputeEntry(false)}
+        onSubmit={handleSubmitDispute}
+        format={gameFormat}
+        defaultGames={lobby.proposedGames ?? (lobby.proposedScores ? [lobby.proposedScores] : undefined)}
+        title="Enter Correct Score"
+        submitLabel="Submit Dispute"
       />
     </SafeAreaView>
   );
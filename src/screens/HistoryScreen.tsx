@@ -1,5 +1,5 @@
 import { memo, useCallback, useState, Fragment, useMemo } from 'react';
-import { View, Text, FlatList, RefreshControl } from 'react-native';
+import { View, Text, FlatList, RefreshControl, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { History, Trophy, TrendingUp } from 'lucide-react-native';
 import type { TabScreenProps } from '@/types/navigation';
@@ -8,40 +8,60 @@ import { useMatches } from '@/hooks/firestore/useMatches';
 import { LoadingSpinner, ErrorMessage } from '@/components/common';
 import { MatchCard } from '@/components/history/MatchCard';
 import { MatchDetailModal } from '@/components/history/MatchDetailModal';
+import { MatchFilterBar } from '@/components/history/MatchFilterBar';
 import { getTimeGroup } from '@/lib/dateFormat';
+import { getWinRate, hasCareerBreakdown } from '@/lib/careerStats';
+import {
+  EMPTY_HISTORY_FILTERS,
+  getHistoryPlayers,
+  hasHistoryFilters,
+  toMatchHistoryFilters,
+} from '@/lib/historyFilters';
+import type { HistoryFilterState } from '@/lib/historyFilters';
 import type { MatchHistoryRecord } from '@/types/user';
 
+// Matches per page; more load as the list nears its end
+const PAGE_SIZE = 20;
+
 export const HistoryScreen = memo(({}: TabScreenProps<'History'>) => {
-  const { user } = useAuth();
-  const { matches, loading, error, refetch } = useMatches(user?.id || '', 50);
+  const { user, userDocument } = useAuth();
+  const [filterState, setFilterState] = useState<HistoryFilterState>(EMPTY_HISTORY_FILTERS);
+  // Date presets resolve against the time the filter was picked, not every render
+  const filters = useMemo(() => toMatchHistoryFilters(filterState), [filterState]);
+  const { matches, loading, loadingMore, error, hasMore, loadMore, refetch } = useMatches(
+    user?.id || '',
+    PAGE_SIZE,
+    filters
+  );
   const [refreshing, setRefreshing] = useState(false);
   const [selectedMatch, setSelectedMatch] = useState<MatchHistoryRecord | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
+  const isFiltered = hasHistoryFilters(filterState);
+
+  // Keep the selected player offered even once the list only shows their matches
+  const players = useMemo(() => {
+    const options = getHistoryPlayers(matches);
+    const selected = filterState.player;
+    return selected && !options.some((p) => p.uid === selected.uid) ? [selected, ...options] : options;
+  }, [matches, filterState.player]);
 
-  // Calculate summary stats
+  // Career summary comes from the stored matchStats, not the loaded pages
   const stats = useMemo(() => {
-    const totalMatches = matches.length;
-    const wins = matches.filter(m => m.result === 'win').length;
-    const losses = totalMatches - wins;
-    const winRate = totalMatches > 0 ? Math.round((wins / totalMatches) * 100) : 0;
-
-    // Calculate current streak
-    let currentStreak = 0;
-    let streakType: 'win' | 'loss' | null = null;
-    
-    for (const match of matches) {
-      if (streakType === null) {
-        streakType = match.result;
-        currentStreak = 1;
-      } else if (match.result === streakType) {
-        currentStreak++;
-      } else {
-        break;
-      }
-    }
+    const matchStats = userDocument?.matchStats;
+    const wins = matchStats?.wins || 0;
+    const losses = matchStats?.losses || 0;
+    const streak = hasCareerBreakdown(matchStats) ? matchStats?.currentStreak || 0 : 0;
+    const streakType: 'win' | 'loss' | null = streak > 0 ? 'win' : streak < 0 ? 'loss' : null;
 
-    return { totalMatches, wins, losses, winRate, currentStreak, streakType };
-  }, [matches]);
+    return {
+      totalMatches: matchStats?.totalMatches || 0,
+      wins,
+      losses,
+      winRate: getWinRate(wins, losses),
+      currentStreak: Math.abs(streak),
+      streakType,
+    };
+  }, [userDocument?.matchStats]);
 
   const handleRefresh = useCallback(async () => {
     setRefreshing(true);
@@ -86,7 +106,26 @@ export const HistoryScreen = memo(({}: TabScreenProps<'History'>) => {
   const keyExtractor = useCallback((item: MatchHistoryRecord) => item.id, []);
 
   const renderEmptyState = useCallback(() => {
-    if (loading) return null;
+    if (loading) {
+      return (
+        <View className="items-center justify-center flex-1 py-12">
+          <LoadingSpinner />
+        </View>
+      );
+    }
+
+    if (isFiltered) {
+      return (
+        <View className="items-center justify-center flex-1 px-4 py-12">
+          <Text className="mb-2 text-xl font-bold text-gray-900">
+            No Matching Matches
+          </Text>
+          <Text className="text-base text-center text-gray-600">
+            Try a different filter or clear them to see all your matches.
+          </Text>
+        </View>
+      );
+    }
 
     return (
       <View className="items-center justify-center flex-1 px-4 py-12">
@@ -101,17 +140,7 @@ export const HistoryScreen = memo(({}: TabScreenProps<'History'>) => {
         </Text>
       </View>
     );
-  }, [loading]);
-
-  // Loading state (initial load)
-  if (loading && !refreshing) {
-    return (
-      <View className="items-center justify-center flex-1 bg-white">
-        <LoadingSpinner />
-        <Text className="mt-4 text-gray-600">Loading match history...</Text>
-      </View>
-    );
-  }
+  }, [loading, isFiltered]);
 
   // Error state
   if (error) {
@@ -143,66 +172,86 @@ export const HistoryScreen = memo(({}: TabScreenProps<'History'>) => {
             flexGrow: 1,
           }}
           ListHeaderComponent={
-            matches.length > 0 ? (
-              <View className="flex-row gap-2 mb-6">
-                {/* Total Matches */}
-                <View className="flex-1 p-4 rounded-lg bg-gray-50">
-                  <Text className="mb-1 text-xs font-semibold text-gray-500 uppercase">
-                    Matches
-                  </Text>
-                  <Text className="text-2xl font-bold text-gray-900">
-                    {stats.totalMatches}
-                  </Text>
-                  <Text className="mt-1 text-xs text-gray-600">
-                    {stats.wins}W - {stats.losses}L
-                  </Text>
-                </View>
-
-                {/* Win Rate */}
-                <View className="flex-1 p-4 rounded-lg bg-green-50">
-                  <View className="flex-row items-center mb-1">
-                    <Trophy size={12} color="#16a34a" />
-                    <Text className="ml-1 text-xs font-semibold text-green-700 uppercase">
-                      Win Rate
+            <>
+              {!isFiltered && stats.totalMatches > 0 && (
+                <View className="flex-row gap-2 mb-6">
+                  {/* Total Matches */}
+                  <View className="flex-1 p-4 rounded-lg bg-gray-50">
+                    <Text className="mb-1 text-xs font-semibold text-gray-500 uppercase">
+                      Matches
+                    </Text>
+                    <Text className="text-2xl font-bold text-gray-900">
+                      {stats.totalMatches}
+                    </Text>
+                    <Text className="mt-1 text-xs text-gray-600">
+                      {stats.wins}W - {stats.losses}L
                     </Text>
                   </View>
-                  <Text className="text-2xl font-bold text-green-900">
-                    {stats.winRate}%
-                  </Text>
-                  <Text className="mt-1 text-xs text-green-700">
-                    {stats.wins} wins
-                  </Text>
-                </View>
 
-                {/* Streak */}
-                {stats.currentStreak > 1 && (
-                  <View className={`flex-1 p-4 rounded-lg ${
-                    stats.streakType === 'win' ? 'bg-blue-50' : 'bg-red-50'
-                  }`}>
+                  {/* Win Rate */}
+                  <View className="flex-1 p-4 rounded-lg bg-green-50">
                     <View className="flex-row items-center mb-1">
-                      <TrendingUp size={12} color={stats.streakType === 'win' ? '#2563eb' : '#dc2626'} />
-                      <Text className={`ml-1 text-xs font-semibold uppercase ${
-                        stats.streakType === 'win' ? 'text-blue-700' : 'text-red-700'
-                      }`}>
-                        Streak
+                      <Trophy size={12} color="#16a34a" />
+                      <Text className="ml-1 text-xs font-semibold text-green-700 uppercase">
+                        Win Rate
                       </Text>
                     </View>
-                    <Text className={`text-2xl font-bold ${
-                      stats.streakType === 'win' ? 'text-blue-900' : 'text-red-900'
-                    }`}>
-                      {stats.currentStreak}
+                    <Text className="text-2xl font-bold text-green-900">
+                      {stats.winRate}%
                     </Text>
-                    <Text className={`mt-1 text-xs ${
-                      stats.streakType === 'win' ? 'text-blue-700' : 'text-red-700'
-                    }`}>
-                      {stats.streakType === 'win' ? 'wins' : 'losses'}
+                    <Text className="mt-1 text-xs text-green-700">
+                      {stats.wins} wins
                     </Text>
                   </View>
-                )}
+
+                  {/* Streak */}
+                  {stats.currentStreak > 1 && (
+                    <View className={`flex-1 p-4 rounded-lg ${
+                      stats.streakType === 'win' ? 'bg-blue-50' : 'bg-red-50'
+                    }`}>
+                      <View className="flex-row items-center mb-1">
+                        <TrendingUp size={12} color={stats.streakType === 'win' ? '#2563eb' : '#dc2626'} />
+                        <Text className={`ml-1 text-xs font-semibold uppercase ${
+                          stats.streakType === 'win' ? 'text-blue-700' : 'text-red-700'
+                        }`}>
+                          Streak
+                        </Text>
+                      </View>
+                      <Text className={`text-2xl font-bold ${
+                        stats.streakType === 'win' ? 'text-blue-900' : 'text-red-900'
+                      }`}>
+                        {stats.currentStreak}
+                      </Text>
+                      <Text className={`mt-1 text-xs ${
+                        stats.streakType === 'win' ? 'text-blue-700' : 'text-red-700'
+                      }`}>
+                        {stats.streakType === 'win' ? 'wins' : 'losses'}
+                      </Text>
+                    </View>
+                  )}
+                </View>
+              )}
+
+              {/* Filters */}
+              <View className="mb-4">
+                <MatchFilterBar
+                  filters={filterState}
+                  players={players}
+                  onChange={setFilterState}
+                />
               </View>
-            ) : null
+            </>
           }
           ListEmptyComponent={renderEmptyState}
+          ListFooterComponent={
+            loadingMore ? (
+              <View className="py-4">
+                <ActivityIndicator color="#16a34a" />
+              </View>
+            ) : null
+          }
+          onEndReachedThreshold={0.5}
+          onEndReached={hasMore ? loadMore : undefined}
           refreshControl={
             <RefreshControl refreshing={refreshing} onRefresh={handleRefresh} />
           }
@@ -0,0 +1,126 @@
+import { memo, useCallback, useEffect, useState } from 'react';
+import { View, Text, Pressable, ScrollView, TextInput, ActivityIndicator } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Search } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useClub } from '@/hooks/firestore/useClub';
+import { useSearchUsers } from '@/hooks/firestore/useSearchUsers';
+import { useToast } from '@/hooks/common/useToast';
+import { ErrorMessage, LoadingSpinner, ScreenHeader } from '@/components/common';
+import { Avatar } from '@/components/ui/Avatar';
+import { inviteToClub, removeClubInvite } from '@/services/clubService';
+import type { UserSearchResult } from '@/services/userService';
+
+const MIN_QUERY_LENGTH = 2;
+
+export const InviteToClubScreen = memo(({ navigation, route }: RootStackScreenProps<'InviteToClub'>) => {
+  const { clubId } = route.params;
+  const { user } = useAuth();
+  const { club, loading, error } = useClub(clubId, user?.id);
+  const { results, loading: searching, search } = useSearchUsers(club?.memberIds ?? []);
+  const toast = useToast();
+  const [query, setQuery] = useState('');
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  useEffect(() => {
+    search(query.trim());
+  }, [query, search]);
+
+  const handleToggleInvite = useCallback(async (player: UserSearchResult) => {
+    if (!club) return;
+    const isInvited = club.invitedIds.includes(player.uid);
+    setPendingId(player.uid);
+
+    try {
+      if (isInvited) {
+        await removeClubInvite(club.id, player.uid);
+      } else {
+        await inviteToClub(club.id, player.uid);
+        toast.success(`Invited ${player.displayName}`);
+      }
+    } catch (err) {
+      console.error('Error updating club invite:', err);
+      toast.error('Failed to update the invite. Please try again.');
+    } finally {
+      setPendingId(null);
+    }
+  }, [club, toast]);
+
+  if (loading) {
+    return <LoadingSpinner fullScreen />;
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader title="Invite Players" leftAction="close" onLeftPress={() => navigation.goBack()} />
+
+      {error || !club ? (
+        <View className="p-4">
+          <ErrorMessage message={error ? 'Failed to load club.' : 'Club not found.'} />
+        </View>
+      ) : (
+        <>
+          <View className="px-4 py-3 border-b border-gray-100">
+            <View className="flex-row items-center px-3 bg-gray-100 rounded-full">
+              <Search size={20} color="#9ca3af" />
+              <TextInput
+                value={query}
+                onChangeText={setQuery}
+                placeholder="Search players..."
+                placeholderTextColor="#9ca3af"
+                autoCapitalize="none"
+                autoCorrect={false}
+                returnKeyType="search"
+                className="flex-1 py-3 ml-2 text-base"
+              />
+            </View>
+          </View>
+
+          <ScrollView className="flex-1" keyboardShouldPersistTaps="handled">
+            {query.trim().length < MIN_QUERY_LENGTH ? (
+              <Text className="px-4 py-6 text-sm text-center !text-gray-500">
+                Search by name or username. Invited players see the club under Clubs and can join from there.
+              </Text>
+            ) : searching ? (
+              <View className="items-center py-6">
+                <ActivityIndicator size="small" color="#16a34a" />
+              </View>
+            ) : results.length === 0 ? (
+              <Text className="px-4 py-6 text-sm text-center !text-gray-500">No players found</Text>
+            ) : (
+              results.map((player) => {
+                const isInvited = club.invitedIds.includes(player.uid);
+
+                return (
+                  <View key={player.uid} className="flex-row items-center px-4 py-3">
+                    <Avatar uri={player.photoURL} name={player.displayName} size="sm" />
+                    <View className="flex-1 ml-3">
+                      <Text className="text-base font-medium !text-gray-900" numberOfLines={1}>
+                        {player.displayName}
+                      </Text>
+                      <Text className="text-sm !text-gray-500" numberOfLines={1}>@{player.username}</Text>
+                    </View>
+                    <Pressable
+                      onPress={() => handleToggleInvite(player)}
+                      disabled={pendingId === player.uid}
+                      className={`px-4 py-1.5 rounded-full ${
+                        isInvited ? 'bg-gray-100 active:bg-gray-200' : 'bg-green-500 active:bg-green-600'
+                      } ${pendingId === player.uid ? 'opacity-50' : ''}`}
+                    >
+                      <Text className={`text-sm font-semibold ${isInvited ? '!text-gray-700' : '!text-white'}`}>
+                        {isInvited ? 'Invited' : 'Invite'}
+                      </Text>
+                    </Pressable>
+                  </View>
+                );
+              })
+            )}
+          </ScrollView>
+        </>
+      )}
+    </SafeAreaView>
+  );
+});
+
+InviteToClubScreen.displayName = 'InviteToClubScreen';
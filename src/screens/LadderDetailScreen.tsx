@@ -0,0 +1,313 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ChevronRight } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLadder } from '@/hooks/firestore/useLadder';
+import { useToast } from '@/hooks/common/useToast';
+import { useAlert } from '@/hooks/common/useAlert';
+import { ErrorMessage, LoadingSpinner, ScreenHeader } from '@/components/common';
+import { ChallengeCard } from '@/components/ladder/ChallengeCard';
+import { SeasonArchiveCard } from '@/components/ladder/SeasonArchiveCard';
+import {
+  acceptChallenge,
+  cancelChallenge,
+  declineChallenge,
+  endLadderSeason,
+  joinLadder,
+  leaveLadder,
+} from '@/services/ladderService';
+import {
+  LADDER_SEASON_MODE_LABELS,
+  MAX_LADDER_MEMBERS,
+  getRung,
+  isChallengeOpen,
+} from '@/lib/ladder';
+import { getGameFormatLabel } from '@/lib/scoreValidation';
+import type { LadderChallenge } from '@/types/ladder';
+
+type Tab = 'ladder' | 'challenges' | 'seasons';
+
+const TAB_LABELS: Record<Tab, string> = {
+  ladder: 'Ladder',
+  challenges: 'Challenges',
+  seasons: 'Past Seasons',
+};
+
+export const LadderDetailScreen = memo(({ navigation, route }: RootStackScreenProps<'LadderDetail'>) => {
+  const { ladderId } = route.params;
+  const { user, userDocument } = useAuth();
+  const { ladder, challenges, seasons, loading, error } = useLadder(ladderId);
+  const toast = useToast();
+  const alert = useAlert();
+  const [activeTab, setActiveTab] = useState<Tab>('ladder');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const userId = user?.id || '';
+  const isOrganizer = !!ladder && ladder.hostId === userId;
+  const myRung = ladder ? getRung(ladder.rungs, userId) : null;
+  const isFull = !!ladder && ladder.rungs.length >= MAX_LADDER_MEMBERS;
+
+  const myChallenges = useMemo(
+    () => challenges.filter((c) => c.playerIds.includes(userId) && isChallengeOpen(c, Date.now())),
+    [challenges, userId]
+  );
+
+  const handleJoin = useCallback(async () => {
+    if (!ladder || !user || !userDocument) return;
+    setIsUpdating(true);
+
+    try {
+      await joinLadder(ladder.id, {
+        uid: user.id,
+        username: userDocument.username,
+        displayName: userDocument.displayName || user.id,
+        ...(userDocument.profilePictureUrl && { photoURL: userDocument.profilePictureUrl }),
+      });
+      toast.success("You're on the ladder!");
+    } catch (err) {
+      console.error('Error joining ladder:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to join. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [ladder, user, userDocument, toast]);
+
+  const handleLeave = useCallback(() => {
+    if (!ladder || !user) return;
+
+    alert.confirm(
+      'Leave Ladder?',
+      'You give up your rung. Rejoining starts from the bottom.',
+      {
+        onConfirm: () => {
+          leaveLadder(ladder.id, user.id).catch((err) => {
+            console.error('Error leaving ladder:', err);
+            toast.error('Failed to leave. Please try again.');
+          });
+        },
+        confirmText: 'Leave',
+        confirmStyle: 'destructive',
+      }
+    );
+  }, [ladder, user, alert, toast]);
+
+  const handleEndSeason = useCallback(() => {
+    if (!ladder) return;
+
+    alert.confirm(
+      `End Season ${ladder.season}?`,
+      `Final standings are archived and open challenges are cancelled. Season ${ladder.season + 1} starts with: ${LADDER_SEASON_MODE_LABELS[ladder.seasonMode].toLowerCase()}.`,
+      {
+        onConfirm: async () => {
+          setIsUpdating(true);
+          try {
+            await endLadderSeason(ladder);
+          } catch (err) {
+            console.error('Error ending ladder season:', err);
+            toast.error('Failed to end the season. Please try again.');
+          } finally {
+            setIsUpdating(false);
+          }
+        },
+        confirmText: 'End Season',
+      }
+    );
+  }, [ladder, alert, toast]);
+
+  const handleAccept = useCallback(async (challenge: LadderChallenge) => {
+    if (!ladder || !user || !userDocument) return;
+
+    try {
+      const roomCode = await acceptChallenge(ladder, challenge, {
+        uid: user.id,
+        displayName: userDocument.displayName || user.id,
+        ...(userDocument.profilePictureUrl && { photoURL: userDocument.profilePictureUrl }),
+      });
+      navigation.navigate('LobbyDetail', { roomCode });
+    } catch (err) {
+      console.error('Error accepting challenge:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to accept. Please try again.');
+    }
+  }, [ladder, user, userDocument, navigation, toast]);
+
+  const handleDecline = useCallback((challenge: LadderChallenge) => {
+    declineChallenge(ladderId, challenge.id).catch((err) => {
+      console.error('Error declining challenge:', err);
+      toast.error('Failed to decline. Please try again.');
+    });
+  }, [ladderId, toast]);
+
+  const handleCancel = useCallback((challenge: LadderChallenge) => {
+    cancelChallenge(ladderId, challenge.id).catch((err) => {
+      console.error('Error withdrawing challenge:', err);
+      toast.error('Failed to withdraw. Please try again.');
+    });
+  }, [ladderId, toast]);
+
+  const handleOpenLobby = useCallback((roomCode: string) => {
+    navigation.navigate('LobbyDetail', { roomCode });
+  }, [navigation]);
+
+  const renderChallenge = (challenge: LadderChallenge) => (
+    <ChallengeCard
+      key={challenge.id}
+      challenge={challenge}
+      members={ladder?.members ?? []}
+      currentUserId={userId}
+      onAccept={handleAccept}
+      onDecline={handleDecline}
+      onCancel={handleCancel}
+      onOpenLobby={handleOpenLobby}
+    />
+  );
+
+  const renderRungs = () => {
+    if (!ladder) return null;
+
+    if (ladder.rungs.length === 0) {
+      return <Text className="py-6 text-sm text-center !text-gray-500">Nobody has joined yet</Text>;
+    }
+
+    return ladder.rungs.map((uid, index) => {
+      const member = ladder.members.find((m) => m.uid === uid);
+      const rung = index + 1;
+      const isMe = uid === userId;
+      const inRange = myRung !== null && rung < myRung && myRung - rung <= ladder.challengeRange;
+
+      return (
+        <Pressable
+          key={uid}
+          onPress={() => member && navigation.navigate('UserProfile', { username: member.username })}
+          className={`flex-row items-center px-3 py-2.5 mb-1 rounded-lg ${
+            isMe ? 'bg-green-50' : 'active:bg-gray-50'
+          }`}
+        >
+          <Text className="w-8 text-sm font-bold !text-gray-500">{rung}</Text>
+          <Text
+            className={`flex-1 text-sm ${isMe ? 'font-bold !text-green-700' : 'font-medium !text-gray-900'}`}
+            numberOfLines={1}
+          >
+            {member?.displayName || 'Player'}
+          </Text>
+          {inRange && (
+            <Text className="mr-2 text-xs font-semibold !text-green-600">Can challenge</Text>
+          )}
+          <ChevronRight size={16} color="#9ca3af" />
+        </Pressable>
+      );
+    });
+  };
+
+  const renderTab = () => {
+    if (activeTab === 'ladder') return renderRungs();
+
+    if (activeTab === 'challenges') {
+      return challenges.length > 0
+        ? challenges.map(renderChallenge)
+        : <Text className="py-6 text-sm text-center !text-gray-500">No challenges yet</Text>;
+    }
+
+    return seasons.length > 0
+      ? seasons.map((season) => (
+        <SeasonArchiveCard key={season.id} season={season} currentUserId={userId} />
+      ))
+      : <Text className="py-6 text-sm text-center !text-gray-500">This is the first season</Text>;
+  };
+
+  if (loading) {
+    return <LoadingSpinner fullScreen />;
+  }
+
+  if (error || !ladder) {
+    return (
+      <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+        <ScreenHeader title="Ladder" onLeftPress={() => navigation.goBack()} />
+        <View className="p-4">
+          <ErrorMessage message={error ? 'Failed to load ladder.' : 'Ladder not found.'} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader title={ladder.name} onLeftPress={() => navigation.goBack()} />
+
+      <ScrollView className="flex-1" contentContainerClassName="px-4 py-4">
+        <Text className="text-sm text-center !text-gray-500">
+          Season {ladder.season} · {getGameFormatLabel(ladder.gameFormat)}
+        </Text>
+        <Text className="mb-4 text-xs text-center !text-gray-400">
+          Challenge up to {ladder.challengeRange} {ladder.challengeRange === 1 ? 'rung' : 'rungs'} above you · Play within {ladder.challengeExpiryDays} days
+        </Text>
+
+        {myRung === null ? (
+          <Pressable
+            onPress={handleJoin}
+            disabled={isUpdating || isFull}
+            className={`items-center py-4 mb-4 bg-green-500 rounded-lg active:bg-green-600 ${
+              isUpdating || isFull ? 'opacity-50' : ''
+            }`}
+          >
+            <Text className="text-lg font-bold !text-white">{isFull ? 'Ladder Full' : 'Join Ladder'}</Text>
+          </Pressable>
+        ) : (
+          <Text className="mb-4 text-sm text-center !text-gray-700">
+            You're on rung <Text className="font-bold !text-gray-900">{myRung}</Text> of {ladder.rungs.length}.
+            Open a player's profile to challenge them.
+          </Text>
+        )}
+
+        {myChallenges.length > 0 && (
+          <View className="mb-4">
+            <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Your Challenges</Text>
+            {myChallenges.map(renderChallenge)}
+          </View>
+        )}
+
+        <View className="flex-row p-1 mb-4 bg-gray-100 rounded-lg">
+          {(Object.keys(TAB_LABELS) as Tab[]).map((tab) => (
+            <Pressable
+              key={tab}
+              onPress={() => setActiveTab(tab)}
+              className={`flex-1 py-2 rounded-md ${activeTab === tab ? 'bg-white' : ''}`}
+            >
+              <Text className={`text-center text-sm font-semibold ${
+                activeTab === tab ? '!text-gray-900' : '!text-gray-600'
+              }`}>
+                {TAB_LABELS[tab]}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        {renderTab()}
+
+        {(isOrganizer || myRung !== null) && (
+          <View className="gap-2 mt-6">
+            {isOrganizer && (
+              <Pressable
+                onPress={handleEndSeason}
+                disabled={isUpdating}
+                className={`items-center py-4 bg-gray-900 rounded-lg ${
+                  isUpdating ? 'opacity-50' : 'active:bg-gray-800'
+                }`}
+              >
+                <Text className="text-lg font-bold !text-white">End Season {ladder.season}</Text>
+              </Pressable>
+            )}
+            {myRung !== null && (
+              <Pressable onPress={handleLeave} className="items-center py-3">
+                <Text className="text-sm font-semibold !text-red-500">Leave Ladder</Text>
+              </Pressable>
+            )}
+          </View>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+});
+
+LadderDetailScreen.displayName = 'LadderDetailScreen';
@@ -0,0 +1,103 @@
+import { memo, useCallback } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ChevronRight, ListOrdered, Plus } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLadders } from '@/hooks/firestore/useLadders';
+import { ErrorMessage, LoadingSpinner, ScreenHeader } from '@/components/common';
+import { getRung } from '@/lib/ladder';
+import type { Ladder } from '@/types/ladder';
+
+interface LadderRowProps {
+  ladder: Ladder;
+  userId: string;
+  onPress: (ladderId: string) => void;
+}
+
+const LadderRow = memo(({ ladder, userId, onPress }: LadderRowProps) => {
+  const rung = getRung(ladder.rungs, userId);
+
+  return (
+    <Pressable
+      onPress={() => onPress(ladder.id)}
+      className="flex-row items-center p-4 mb-2 border border-gray-200 rounded-lg active:bg-gray-50"
+    >
+      <View className="items-center justify-center w-10 h-10 mr-3 bg-green-50 rounded-full">
+        <ListOrdered size={20} color="#16a34a" />
+      </View>
+      <View className="flex-1">
+        <Text className="text-base font-semibold !text-gray-900" numberOfLines={1}>
+          {ladder.name}
+        </Text>
+        <Text className="text-xs !text-gray-500">
+          Season {ladder.season} · {ladder.rungs.length} players
+        </Text>
+        {rung !== null && (
+          <Text className="text-xs !text-gray-400">You're on rung {rung}</Text>
+        )}
+      </View>
+      <ChevronRight size={18} color="#9ca3af" />
+    </Pressable>
+  );
+});
+
+LadderRow.displayName = 'LadderRow';
+
+export const LaddersScreen = memo(({ navigation }: RootStackScreenProps<'Ladders'>) => {
+  const { user } = useAuth();
+  const userId = user?.id || '';
+  const { ladders, myLadders, loading, error } = useLadders(userId);
+
+  const handleOpen = useCallback((ladderId: string) => {
+    navigation.navigate('LadderDetail', { ladderId });
+  }, [navigation]);
+
+  // Ladders the user is already on are listed under theirs
+  const myIds = new Set(myLadders.map((l) => l.id));
+  const otherLadders = ladders.filter((l) => !myIds.has(l.id));
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader
+        title="Ladders"
+        onLeftPress={() => navigation.goBack()}
+        rightComponent={
+          <Pressable onPress={() => navigation.navigate('CreateLadder')} className="p-2">
+            <Plus size={22} color="#16a34a" />
+          </Pressable>
+        }
+      />
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : (
+        <ScrollView className="flex-1" contentContainerClassName="px-4 py-4">
+          {error && <ErrorMessage message="Failed to load ladders." />}
+
+          {myLadders.length > 0 && (
+            <View className="mb-6">
+              <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Your Ladders</Text>
+              {myLadders.map((ladder) => (
+                <LadderRow key={ladder.id} ladder={ladder} userId={userId} onPress={handleOpen} />
+              ))}
+            </View>
+          )}
+
+          <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Join a Ladder</Text>
+          {otherLadders.length > 0 ? (
+            otherLadders.map((ladder) => (
+              <LadderRow key={ladder.id} ladder={ladder} userId={userId} onPress={handleOpen} />
+            ))
+          ) : (
+            <Text className="py-6 text-sm text-center !text-gray-500">
+              No other ladders yet. Start one with +.
+            </Text>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+});
+
+LaddersScreen.displayName = 'LaddersScreen';
@@ -1,4 +1,4 @@
-import { memo, useState, useCallback, useRef } from 'react';
+import { memo, useState, useCallback, useRef, useMemo } from 'react';
 import { View, Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useNavigation } from '@react-navigation/native';
@@ -8,30 +8,94 @@ import type { TabScreenProps } from '@/types/navigation';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '@/types/navigation';
 import { useAuth } from '@/contexts/AuthContext';
-import { useLeaderboard } from '@/hooks/firestore/useLeaderboard';
+import { useLeaderboard, useScopedLeaderboard } from '@/hooks/firestore/useLeaderboard';
+import { useLeaderboardPeriods, usePeriodLeaderboard } from '@/hooks/firestore/useLeaderboardPeriods';
+import { CATEGORY_FILTER_LABELS, parseCategoryFilter } from '@/lib/leaderboardPeriods';
+import {
+  DEFAULT_NEARBY_RADIUS_KM,
+  getCourtCoords,
+  getCourtIdsWithinKm,
+} from '@/lib/leaderboardScope';
+import { getCurrentLocation, requestLocationPermission, type LocationCoords } from '@/lib/location';
+import { MOCK_COURTS } from '@/mocks/courts';
 import { LoadingSpinner } from '@/components/common';
-import { CategorySelect, parseCategoryFilter, type CategoryFilter } from '@/components/leaderboard/CategorySelect';
+import { CategorySelect } from '@/components/leaderboard/CategorySelect';
+import { PeriodSelect } from '@/components/leaderboard/PeriodSelect';
+import { ScopeSelect } from '@/components/leaderboard/ScopeSelect';
 import { LeaderboardPage } from '@/components/leaderboard/LeaderboardPage';
+import { PeriodLeaderboardPage } from '@/components/leaderboard/PeriodLeaderboardPage';
+import type {
+  CategoryFilter,
+  LeaderboardMetric,
+  LeaderboardPeriod,
+  LeaderboardScope,
+} from '@/types/leaderboard';
 
-const categories: CategoryFilter[] = [
-  'all_doubles',
-  'all_singles',
-  'mens_doubles',
-  'womens_doubles',
-  'mens_singles',
-  'womens_singles',
-];
+const categories = Object.keys(CATEGORY_FILTER_LABELS) as CategoryFilter[];
+
+// Players a local leaderboard lists, or why it cannot list any yet
+interface ScopeQuery {
+  field: 'homeCourtId' | 'uid';
+  values: string[];
+  emptyTitle: string;
+  emptyMessage: string;
+}
 
 export const LeaderboardScreen = memo(({}: TabScreenProps<'Leaderboard'>) => {
   const navigation = useNavigation<NativeStackNavigationProp<RootStackParamList>>();
-  const { user: currentUser } = useAuth();
+  const { user: currentUser, userDocument } = useAuth();
+  const { periods } = useLeaderboardPeriods();
   const pagerRef = useRef<PagerView>(null);
   
   // Start with "Doubles" as default (index 0)
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [refreshing, setRefreshing] = useState<Record<number, boolean>>({});
+  // null shows the all-time rankings
+  const [periodId, setPeriodId] = useState<string | null>(null);
+  const [metric, setMetric] = useState<LeaderboardMetric>('rating_gain');
+  const [scope, setScope] = useState<LeaderboardScope>('everyone');
+  const [radiusKm, setRadiusKm] = useState(DEFAULT_NEARBY_RADIUS_KM);
+  const [location, setLocation] = useState<LocationCoords | null>(null);
 
   const selectedCategory = categories[selectedIndex];
+  const selectedPeriod = periods.find((period) => period.id === periodId);
+
+  const homeCourt = MOCK_COURTS.find((court) => court.id === userDocument?.homeCourtId);
+
+  const scopeQuery = useMemo((): ScopeQuery | null => {
+    switch (scope) {
+      case 'everyone':
+        return null;
+      case 'home_court':
+        return {
+          field: 'homeCourtId',
+          values: homeCourt ? [homeCourt.id] : [],
+          emptyTitle: homeCourt ? 'No Rankings Yet' : 'No Home Court',
+          emptyMessage: homeCourt
+            ? `Nobody else calls ${homeCourt.name} home yet.`
+            : 'Set a home court in Edit Profile to see who tops your courts.',
+        };
+      case 'nearby': {
+        // Device location, falling back to the home court
+        const origin = location ?? (homeCourt ? getCourtCoords(homeCourt) : null);
+        return {
+          field: 'homeCourtId',
+          values: origin ? getCourtIdsWithinKm(MOCK_COURTS, origin, radiusKm) : [],
+          emptyTitle: origin ? 'No Players Nearby' : 'Location Needed',
+          emptyMessage: origin
+            ? `No players have a home court within ${radiusKm} km.`
+            : 'Turn on location or set a home court to see players near you.',
+        };
+      }
+      case 'following':
+        return {
+          field: 'uid',
+          values: userDocument ? [userDocument.uid, ...(userDocument.following ?? [])] : [],
+          emptyTitle: 'No Rankings Yet',
+          emptyMessage: 'Follow players to rank yourself against them.',
+        };
+    }
+  }, [scope, homeCourt, location, radiusKm, userDocument]);
 
   const handleCategoryChange = useCallback((category: CategoryFilter) => {
     const index = categories.indexOf(category);
@@ -45,6 +109,13 @@ export const LeaderboardScreen = memo(({}: TabScreenProps<'Leaderboard'>) => {
     setSelectedIndex(e.nativeEvent.position);
   }, []);
 
+  const handleScopeChange = useCallback(async (value: LeaderboardScope) => {
+    setScope(value);
+    if (value === 'nearby' && !location && await requestLocationPermission()) {
+      setLocation(await getCurrentLocation());
+    }
+  }, [location]);
+
   const handleUserPress = useCallback((username: string) => {
     navigation.navigate('UserProfile', { username });
   }, [navigation]);
@@ -59,12 +130,32 @@ export const LeaderboardScreen = memo(({}: TabScreenProps<'Leaderboard'>) => {
 
   return (
     <SafeAreaView className="flex-1 bg-white" edges={['right', 'left']}>
-      {/* Category Filter */}
+      {/* Category and Period Filters */}
       <View className="px-4 pt-3 pb-4 border-b border-gray-200">
         <CategorySelect
           value={selectedCategory}
           onChange={handleCategoryChange}
         />
+        <View className="mt-3">
+          <PeriodSelect
+            periods={periods}
+            periodId={selectedPeriod ? periodId : null}
+            metric={metric}
+            onPeriodChange={setPeriodId}
+            onMetricChange={setMetric}
+          />
+        </View>
+        {/* Local rankings are all-time only */}
+        {!selectedPeriod && (
+          <View className="mt-3">
+            <ScopeSelect
+              scope={scope}
+              radiusKm={radiusKm}
+              onScopeChange={handleScopeChange}
+              onRadiusChange={setRadiusKm}
+            />
+          </View>
+        )}
       </View>
 
       {/* Swipeable Pages */}
@@ -75,15 +166,40 @@ export const LeaderboardScreen = memo(({}: TabScreenProps<'Leaderboard'>) => {
         onPageSelected={handlePageSelected}
       >
         {categories.map((categoryFilter, index) => (
-          <LeaderboardPageWrapper
-            key={categoryFilter}
-            categoryFilter={categoryFilter}
-            currentUserId={currentUser?.id}
-            refreshing={refreshing[index] || false}
-            onRefresh={handleRefresh}
-            onUserPress={handleUserPress}
-            index={index}
-          />
+          selectedPeriod ? (
+            <PeriodLeaderboardPageWrapper
+              key={categoryFilter}
+              categoryFilter={categoryFilter}
+              period={selectedPeriod}
+              metric={metric}
+              currentUserId={currentUser?.id}
+              refreshing={refreshing[index] || false}
+              onRefresh={handleRefresh}
+              onUserPress={handleUserPress}
+              index={index}
+            />
+          ) : scopeQuery ? (
+            <ScopedLeaderboardPageWrapper
+              key={categoryFilter}
+              categoryFilter={categoryFilter}
+              scopeQuery={scopeQuery}
+              currentUserId={currentUser?.id}
+              refreshing={refreshing[index] || false}
+              onRefresh={handleRefresh}
+              onUserPress={handleUserPress}
+              index={index}
+            />
+          ) : (
+            <LeaderboardPageWrapper
+              key={categoryFilter}
+              categoryFilter={categoryFilter}
+              currentUserId={currentUser?.id}
+              refreshing={refreshing[index] || false}
+              onRefresh={handleRefresh}
+              onUserPress={handleUserPress}
+              index={index}
+            />
+          )
         ))}
       </PagerView>
     </SafeAreaView>
@@ -143,3 +259,118 @@ const LeaderboardPageWrapper = memo(({
 });
 
 LeaderboardPageWrapper.displayName = 'LeaderboardPageWrapper';
+
+// Wrapper component for each page of a local leaderboard
+interface ScopedLeaderboardPageWrapperProps {
+  categoryFilter: CategoryFilter;
+  scopeQuery: ScopeQuery;
+  currentUserId?: string;
+  refreshing: boolean;
+  onRefresh: (index: number, refetch: () => void) => void;
+  onUserPress: (username: string) => void;
+  index: number;
+}
+
+const ScopedLeaderboardPageWrapper = memo(({
+  categoryFilter,
+  scopeQuery,
+  currentUserId,
+  refreshing,
+  onRefresh,
+  onUserPress,
+  index,
+}: ScopedLeaderboardPageWrapperProps) => {
+  const { category, gender } = parseCategoryFilter(categoryFilter);
+  const { rankings, loading, refetch } = useScopedLeaderboard(
+    scopeQuery.field,
+    scopeQuery.values,
+    category,
+    gender,
+    50
+  );
+
+  const handleRefresh = useCallback(() => {
+    onRefresh(index, refetch);
+  }, [index, onRefresh, refetch]);
+
+  if (loading && rankings.length === 0) {
+    return (
+      <View style={{ flex: 1 }} className="items-center justify-center">
+        <LoadingSpinner />
+        <Text className="mt-4 text-gray-600">Loading rankings...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <LeaderboardPage
+      rankings={rankings}
+      category={category}
+      loading={loading}
+      refreshing={refreshing}
+      currentUserId={currentUserId}
+      onRefresh={handleRefresh}
+      onUserPress={onUserPress}
+      emptyTitle={scopeQuery.emptyTitle}
+      emptyMessage={scopeQuery.emptyMessage}
+    />
+  );
+});
+
+ScopedLeaderboardPageWrapper.displayName = 'ScopedLeaderboardPageWrapper';
+
+// Wrapper component for each page of a period leaderboard
+interface PeriodLeaderboardPageWrapperProps {
+  categoryFilter: CategoryFilter;
+  period: LeaderboardPeriod;
+  metric: LeaderboardMetric;
+  currentUserId?: string;
+  refreshing: boolean;
+  onRefresh: (index: number, refetch: () => void) => void;
+  onUserPress: (username: string) => void;
+  index: number;
+}
+
+const PeriodLeaderboardPageWrapper = memo(({
+  categoryFilter,
+  period,
+  metric,
+  currentUserId,
+  refreshing,
+  onRefresh,
+  onUserPress,
+  index,
+}: PeriodLeaderboardPageWrapperProps) => {
+  const { category, gender } = parseCategoryFilter(categoryFilter);
+  const { entries, loading, refetch } = usePeriodLeaderboard(period.id, category, metric, gender, 50);
+
+  const handleRefresh = useCallback(() => {
+    onRefresh(index, refetch);
+  }, [index, onRefresh, refetch]);
+
+  if (loading && entries.length === 0) {
+    return (
+      <View style={{ flex: 1 }} className="items-center justify-center">
+        <LoadingSpinner />
+        <Text className="mt-4 text-gray-600">Loading {period.label}...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <PeriodLeaderboardPage
+      entries={entries}
+      category={category}
+      metric={metric}
+      periodLabel={period.label}
+      isClosed={period.status === 'closed'}
+      loading={loading}
+      refreshing={refreshing}
+      currentUserId={currentUserId}
+      onRefresh={handleRefresh}
+      onUserPress={onUserPress}
+    />
+  );
+});
+
+PeriodLeaderboardPageWrapper.displayName = 'PeriodLeaderboardPageWrapper';
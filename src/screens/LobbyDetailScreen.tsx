@@ -8,7 +8,7 @@ import {
 import { SafeAreaView, useSafeAreaInsets } from "react-native-safe-area-context";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
 import { useNavigation } from "@react-navigation/native";
-import { User, Users } from "lucide-react-native";
+import { Scale, User, Users } from "lucide-react-native";
 import Animated, { 
   useSharedValue, 
   useAnimatedStyle, 
@@ -23,11 +23,13 @@ import type {
 } from "@/types/navigation";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLobby } from "@/hooks/firestore/useLobby";
+import { useJoinRequests } from "@/hooks/firestore/useJoinRequests";
 import { useLobbyActions } from "@/hooks/actions/useLobbyActions";
 import { useToast } from "@/hooks/common/useToast";
 import { useAlert } from "@/hooks/common/useAlert";
 import { useNFC } from "@/hooks/common/useNFC";
 import { useStakesCalculation } from "@/hooks/game/useStakesCalculation";
+import { useTeamBalance } from "@/hooks/game/useTeamBalance";
 import { LoadingSpinner, ErrorMessage, ScreenHeader } from "@/components/common";
 import { Card } from "@/components/ui/Card";
 import { DraggablePlayerSlot } from "@/components/features/lobby/DraggablePlayerSlot";
@@ -36,11 +38,31 @@ import { LobbyHeader } from "@/components/features/lobby/LobbyHeader";
 import { QRCodeModal } from "@/components/features/lobby/QRCodeModal";
 import { PlayerActionSheet } from "@/components/features/lobby/PlayerActionSheet";
 import { CloseLobbySheet } from "@/components/features/lobby/CloseLobbySheet";
-import type { Player } from "@/types/lobby";
+import { WaitingQueueCard } from "@/components/features/lobby/WaitingQueueCard";
+import { BalanceTeamsSheet } from "@/components/features/lobby/BalanceTeamsSheet";
+import { JoinRequestsCard } from "@/components/features/lobby/JoinRequestsCard";
+import type { JoinRequest, Player, PlayerStake } from "@/types/lobby";
 import { doc, updateDoc, getDoc, serverTimestamp } from "firebase/firestore";
-import { removePlayerFromLobby } from "@/services/lobbyService";
+import {
+  approveJoinRequest,
+  cancelJoinRequest,
+  claimOpenSlot,
+  determineLobbyGameCategory,
+  kickPlayer,
+  movePlayer,
+  rejectJoinRequest,
+  removePlayerFromLobby,
+  requestToJoinLobby,
+  setLobbyTeams,
+} from "@/services/lobbyService";
 import { firestore } from "@/config/firebase";
 import { extractUsernameFromNFCUrl, getUserIdFromUsername } from "@/lib/nfc";
+import { getGameFormat, getGameFormatLabel } from "@/lib/scoreValidation";
+import { getQueueEstimates } from "@/lib/rotation";
+import { getPairingTeams } from "@/lib/teamBalance";
+import { getSlotChangeMessage } from "@/lib/slotChanges";
+import { getOrCreateLobbyChat } from "@/services/chatService";
+import type { TeamPairing } from "@/lib/teamBalance";
 
 type LobbyDetailNavigationProp = NativeStackNavigationProp<
   RootStackParamList,
@@ -87,6 +109,11 @@ export const LobbyDetailScreen = memo(
 
     // Check if current user is host
     const isHost = user?.id === lobby?.hostId;
+    const isBanned = !!user && !!lobby?.bannedPlayerIds?.includes(user.id);
+
+    // Private lobbies: the host sees pending requests, everyone else their own
+    const joinRequests = useJoinRequests(lobby?.isPrivate ? roomCode : "", user?.id, isHost);
+    const [selectedJoinRequest, setSelectedJoinRequest] = useState<JoinRequest | null>(null);
 
     // State for NFC scanning
     const [isScanning, setIsScanning] = useState(false);
@@ -94,6 +121,9 @@ export const LobbyDetailScreen = memo(
     // State for QR code modal
     const [showQRModal, setShowQRModal] = useState(false);
 
+    // State for opening the lobby chat
+    const [isOpeningChat, setIsOpeningChat] = useState(false);
+
     // State for player action sheet
     const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
     const [selectedPlayerTeam, setSelectedPlayerTeam] = useState<1 | 2 | null>(null);
@@ -103,6 +133,10 @@ export const LobbyDetailScreen = memo(
     // State for close lobby sheet
     const [showCloseLobbySheet, setShowCloseLobbySheet] = useState(false);
 
+    // State for balance teams sheet
+    const [showBalanceSheet, setShowBalanceSheet] = useState(false);
+    const teamBalance = useTeamBalance(lobby, showBalanceSheet);
+
     // State for player ratings
     const [playerRatings, setPlayerRatings] = useState<Record<string, number>>({});
 
@@ -122,14 +156,6 @@ export const LobbyDetailScreen = memo(
       }
     }, [lobby]);
 
-    // Determine game category for stakes calculation
-    const getGameCategory = (): 'singles' | 'same_gender_doubles' | 'mixed_doubles' => {
-      if (!lobby) return 'singles';
-      if (lobby.gameMode === 'singles') return 'singles';
-      // For doubles, use stored category or default to same_gender_doubles
-      return lobby.gameCategory || 'same_gender_doubles';
-    };
-
     // Extract player UIDs for stakes calculation (stable references)
     const team1PlayerIds = useMemo(() => {
       if (!lobby) return [];
@@ -156,10 +182,17 @@ export const LobbyDetailScreen = memo(
     const stakesData = useStakesCalculation(
       team1PlayerIds,
       team2PlayerIds,
-      lobby?.gameMode || 'doubles',
-      getGameCategory()
+      lobby?.gameMode || 'doubles'
     );
 
+    // Doubles stakes differ per player, so show them on each slot instead of the team header
+    const getPlayerStake = (uid?: string): PlayerStake | undefined => {
+      if (!uid || lobby?.gameMode !== "doubles" || !canStartGame() || stakesData.loading) {
+        return undefined;
+      }
+      return stakesData.playerStakes[uid];
+    };
+
     // Initialize NFC
     const {
       isSupported,
@@ -321,16 +354,21 @@ export const LobbyDetailScreen = memo(
         }
 
         try {
-          const lobbyRef = doc(firestore, "lobbies", roomCode);
           const targetPlayer =
             lobby[`team${targetTeam as 1 | 2}`][`player${targetSlot as 1 | 2}`];
 
-          // Swap players
-          await updateDoc(lobbyRef, {
-            [`team${sourceTeam}.player${sourceSlot}`]: targetPlayer || {},
-            [`team${targetTeam}.player${targetSlot}`]: draggedPlayer.player,
-            lastActivity: new Date(),
-          });
+          // Swap players, unless someone changed either slot since this render
+          const result = await movePlayer(
+            roomCode,
+            { team: sourceTeam as 1 | 2, slot: sourceSlot as 1 | 2 },
+            { team: targetTeam as 1 | 2, slot: targetSlot as 1 | 2 },
+            draggedPlayer.player.uid,
+            targetPlayer?.uid || null
+          );
+
+          if (!result.ok) {
+            toast.error(getSlotChangeMessage(result) ?? "Failed to move player");
+          }
         } catch (err) {
           console.error("Error moving player:", err);
           alert.show("Error", "Failed to move player");
@@ -338,7 +376,7 @@ export const LobbyDetailScreen = memo(
           setDraggedPlayer(null);
         }
       },
-      [draggedPlayer, lobby, roomCode, calculateDropTarget]
+      [draggedPlayer, lobby, roomCode, calculateDropTarget, toast]
     );
 
     // Check if user is in lobby
@@ -353,6 +391,16 @@ export const LobbyDetailScreen = memo(
       );
     }, [lobby, user]);
 
+    const isQueued = !!user && !!lobby?.waitingPlayers?.some((p) => p.uid === user.id);
+
+    // Lobby chat is for the host, seated players and the queue
+    const canOpenChat = !!lobby && !lobby.gameCompleted && (isHost || isInLobby() || isQueued);
+
+    const queueEstimates = useMemo(() => {
+      if (!lobby?.rotationRule) return [];
+      return getQueueEstimates(lobby, lobby.rotationRule);
+    }, [lobby]);
+
     // NFC Tag Handler - Returns false to stop scanning
     async function handleNFCTagRead(url: string): Promise<boolean> {
       console.log("📱 NFC tag detected:", url);
@@ -418,44 +466,24 @@ export const LobbyDetailScreen = memo(
           player.photoURL = scannedUser.profilePictureUrl;
         }
 
-        // Find first empty slot
-        let targetTeam: 1 | 2 = 1;
-        let targetSlot: 1 | 2 = 1;
-
-        if (lobby.gameMode === "singles") {
-          const hasTeam1 = !!lobby.team1.player1?.uid;
-          const hasTeam2 = !!lobby.team2.player1?.uid;
+        // Seat them in whichever slot is still open when the write lands
+        const result = await claimOpenSlot(roomCode, player);
 
-          if (!hasTeam1) {
-            targetTeam = 1;
-          } else if (!hasTeam2) {
-            targetTeam = 2;
+        if (!result.ok) {
+          if (result.error === "already_seated") {
+            toast.info("Player already in lobby");
+            return true; // Continue scanning
           }
-          targetSlot = 1;
-        } else {
-          if (!lobby.team1.player1?.uid) {
-            targetTeam = 1;
-            targetSlot = 1;
-          } else if (!lobby.team1.player2?.uid) {
-            targetTeam = 1;
-            targetSlot = 2;
-          } else if (!lobby.team2.player1?.uid) {
-            targetTeam = 2;
-            targetSlot = 1;
-          } else if (!lobby.team2.player2?.uid) {
-            targetTeam = 2;
-            targetSlot = 2;
-          }
-        }
 
-        // Add player to lobby
-        const lobbyRef = doc(firestore, "lobbies", roomCode);
-        await updateDoc(lobbyRef, {
-          [`team${targetTeam}.player${targetSlot}`]: player,
-          lastActivity: new Date(),
-        });
+          toast.error(getSlotChangeMessage(result) ?? "Failed to add player");
+          return result.error !== "full" && result.error !== "not_found";
+        }
 
-        toast.success(`${player.displayName} joined the lobby!`);
+        toast.success(
+          result.retried
+            ? `Slot taken, retried - ${player.displayName} joined Team ${result.slot?.team}`
+            : `${player.displayName} joined the lobby!`
+        );
 
         // Check if lobby is now full
         const newCount = getCurrentPlayerCount() + 1;
@@ -551,15 +579,30 @@ export const LobbyDetailScreen = memo(
     // Auto-join when lobby loads
     useEffect(() => {
       if (!lobby || !user || !userDocument || isJoining || isInLobby()) return;
+      if (lobby.cancelled || lobby.gameCompleted || isBanned) return;
+      // Private lobbies are joined through a request the host approves
+      if (lobby.isPrivate && !isHost) return;
 
       const currentCount = getCurrentPlayerCount();
       const capacity = lobby.gameMode === "singles" ? 2 : 4;
 
-      if (currentCount < capacity) {
+      if (lobby.rotationRule && (lobby.gameStarted || currentCount >= capacity)) {
+        // Open play: a full (or already playing) court puts newcomers in the queue
+        if (!isQueued) handleJoinQueue();
+      } else if (currentCount < capacity) {
         handleAutoJoin();
       }
     }, [lobby, user, userDocument]);
 
+    // Rotation and rematches: follow the lobby to its next game once it has
+    // been created (queued players are carried over)
+    const followRoomCode = lobby?.nextRoomCode ?? lobby?.rematchRoomCode;
+    useEffect(() => {
+      if (followRoomCode) {
+        navigation.replace("LobbyDetail", { roomCode: followRoomCode });
+      }
+    }, [followRoomCode, navigation]);
+
     const getCurrentPlayerCount = (): number => {
       if (!lobby) return 0;
 
@@ -572,6 +615,60 @@ export const LobbyDetailScreen = memo(
       return count;
     };
 
+    const getCurrentPlayerData = (): Player | null => {
+      if (!user || !userDocument) return null;
+
+      return {
+        uid: user.id,
+        displayName: userDocument.displayName || user.email || "Unknown",
+        ...(userDocument.profilePictureUrl && { photoURL: userDocument.profilePictureUrl }),
+      };
+    };
+
+    const handleRequestToJoin = async () => {
+      const player = getCurrentPlayerData();
+      if (!player) return;
+
+      try {
+        await requestToJoinLobby(roomCode, player);
+      } catch (err) {
+        console.error("Error requesting to join:", err);
+        toast.error("Failed to send join request. Please try again.");
+      }
+    };
+
+    const handleCancelRequest = async () => {
+      if (!user) return;
+
+      try {
+        await cancelJoinRequest(roomCode, user.id);
+      } catch (err) {
+        console.error("Error cancelling join request:", err);
+        toast.error("Failed to cancel request. Please try again.");
+      }
+    };
+
+    const handleJoinQueue = async () => {
+      const player = getCurrentPlayerData();
+      if (!player) return;
+
+      setIsJoining(true);
+      try {
+        const result = await joinLobby(roomCode, player);
+        const message = getSlotChangeMessage(result);
+        if (message && result.ok) {
+          toast.info(message);
+        } else if (message) {
+          toast.error(message);
+        }
+      } catch (err) {
+        console.error("Error joining queue:", err);
+        toast.error("Failed to join the queue. Please try again.");
+      } finally {
+        setIsJoining(false);
+      }
+    };
+
     const handleAutoJoin = async () => {
       if (!user || !userDocument || !lobby) return;
 
@@ -588,43 +685,15 @@ export const LobbyDetailScreen = memo(
           player.photoURL = userDocument.profilePictureUrl;
         }
 
-        // Find first empty slot
-        let targetTeam: 1 | 2 = 1;
-        let targetSlot: 1 | 2 = 1;
-
-        if (lobby.gameMode === "singles") {
-          // Singles: opposing teams
-          const hasTeam1 = !!lobby.team1.player1?.uid;
-          const hasTeam2 = !!lobby.team2.player1?.uid;
-
-          if (!hasTeam1) {
-            targetTeam = 1;
-          } else if (!hasTeam2) {
-            targetTeam = 2;
-          }
-          targetSlot = 1;
-        } else {
-          // Doubles: fill Team 1 first, then Team 2
-          if (!lobby.team1.player1?.uid) {
-            targetTeam = 1;
-            targetSlot = 1;
-          } else if (!lobby.team1.player2?.uid) {
-            targetTeam = 1;
-            targetSlot = 2;
-          } else if (!lobby.team2.player1?.uid) {
-            targetTeam = 2;
-            targetSlot = 1;
-          } else if (!lobby.team2.player2?.uid) {
-            targetTeam = 2;
-            targetSlot = 2;
-          }
+        // Another player may take the same slot at the same moment; the
+        // transaction re-reads the lobby and seats us in the next open one
+        const result = await claimOpenSlot(roomCode, player);
+        const message = getSlotChangeMessage(result);
+        if (message && result.ok) {
+          toast.info(message);
+        } else if (message) {
+          toast.error(message);
         }
-
-        const lobbyRef = doc(firestore, "lobbies", roomCode);
-        await updateDoc(lobbyRef, {
-          [`team${targetTeam}.player${targetSlot}`]: player,
-          lastActivity: new Date(),
-        });
       } catch (err) {
         console.error("Error auto-joining lobby:", err);
       } finally {
@@ -632,6 +701,22 @@ export const LobbyDetailScreen = memo(
       }
     };
 
+    // Open (or start) the lobby's chat thread
+    const handleOpenChat = async () => {
+      if (!lobby) return;
+
+      setIsOpeningChat(true);
+      try {
+        const chatId = await getOrCreateLobbyChat(lobby);
+        navigation.navigate("ChatDetail", { chatId });
+      } catch (err) {
+        console.error("Error opening lobby chat:", err);
+        toast.error("Failed to open chat. Please try again.");
+      } finally {
+        setIsOpeningChat(false);
+      }
+    };
+
     const handleQrPress = () => {
       setShowQRModal(true);
     };
@@ -696,12 +781,45 @@ export const LobbyDetailScreen = memo(
 
     // Player tap handler - opens action sheet
     const handlePlayerTap = useCallback((player: Player, team: 1 | 2, slot: 1 | 2) => {
+      setSelectedJoinRequest(null);
       setSelectedPlayer(player);
       setSelectedPlayerTeam(team);
       setSelectedPlayerSlot(slot);
       setShowPlayerActionSheet(true);
     }, []);
 
+    // Handle join request tap - host approves or declines from the action sheet
+    const handleJoinRequestPress = useCallback((request: JoinRequest) => {
+      setSelectedJoinRequest(request);
+      setSelectedPlayer(request);
+      setSelectedPlayerTeam(null);
+      setSelectedPlayerSlot(null);
+      setShowPlayerActionSheet(true);
+    }, []);
+
+    const handleApproveRequest = useCallback(async () => {
+      if (!selectedJoinRequest) return;
+
+      try {
+        await approveJoinRequest(roomCode, selectedJoinRequest);
+        toast.success(`${selectedJoinRequest.displayName} joined the lobby`);
+      } catch (err) {
+        console.error("Error approving join request:", err);
+        toast.error(err instanceof Error ? err.message : "Failed to approve request.");
+      }
+    }, [roomCode, selectedJoinRequest, toast]);
+
+    const handleRejectRequest = useCallback(async () => {
+      if (!selectedJoinRequest) return;
+
+      try {
+        await rejectJoinRequest(roomCode, selectedJoinRequest.uid);
+      } catch (err) {
+        console.error("Error declining join request:", err);
+        toast.error("Failed to decline request. Please try again.");
+      }
+    }, [roomCode, selectedJoinRequest, toast]);
+
     // Navigate to player profile - fetch username first
     const handleViewProfile = useCallback(async (userId: string) => {
       try {
@@ -729,19 +847,61 @@ export const LobbyDetailScreen = memo(
       }
     }, [navigation, toast]);
 
+    // Apply a pairing chosen in the balance teams sheet
+    const handleApplyPairing = useCallback(async (pairing: TeamPairing) => {
+      try {
+        const { team1, team2 } = getPairingTeams(pairing);
+        const result = await setLobbyTeams(roomCode, team1, team2);
+        if (result.ok) {
+          toast.success("Teams balanced");
+        } else {
+          toast.error(getSlotChangeMessage(result) ?? "Failed to update teams");
+        }
+      } catch (err) {
+        console.error("Error balancing teams:", err);
+        toast.error("Failed to update teams. Please try again.");
+      }
+    }, [roomCode, toast]);
+
     // Remove player from lobby
     const handleRemovePlayer = useCallback(async () => {
       if (!selectedPlayerTeam || !selectedPlayerSlot || !selectedPlayer) return;
 
       try {
-        await removePlayerFromLobby(roomCode, selectedPlayerTeam, selectedPlayerSlot);
-        toast.success(`${selectedPlayer.displayName} removed from lobby`);
+        const result = await removePlayerFromLobby(
+          roomCode,
+          selectedPlayerTeam,
+          selectedPlayerSlot,
+          selectedPlayer.uid
+        );
+        if (result.ok) {
+          toast.success(`${selectedPlayer.displayName} removed from lobby`);
+        } else {
+          toast.error(getSlotChangeMessage(result) ?? 'Failed to remove player');
+        }
       } catch (err) {
         console.error('Error removing player:', err);
         toast.error('Failed to remove player. Please try again.');
       }
     }, [roomCode, selectedPlayerTeam, selectedPlayerSlot, selectedPlayer, toast]);
 
+    // Remove a player and block them from rejoining this lobby
+    const handleBanPlayer = useCallback(async () => {
+      if (!selectedPlayer) return;
+
+      try {
+        const result = await kickPlayer(roomCode, selectedPlayer.uid, true);
+        if (result.ok) {
+          toast.success(`${selectedPlayer.displayName} removed and blocked`);
+        } else {
+          toast.error(getSlotChangeMessage(result) ?? 'Failed to remove player');
+        }
+      } catch (err) {
+        console.error('Error blocking player:', err);
+        toast.error('Failed to remove player. Please try again.');
+      }
+    }, [roomCode, selectedPlayer, toast]);
+
     // Countdown effect - host manages countdown progression
     useEffect(() => {
       if (!isHost || !lobby?.countdownActive || !lobby?.countdownValue) return;
@@ -785,6 +945,7 @@ export const LobbyDetailScreen = memo(
             await updateDoc(lobbyRef, {
               gameStarted: true,
               gameStartedAt: serverTimestamp(),
+              gameCategory: await determineLobbyGameCategory(lobby),
               countdownActive: false,
               countdownValue: null,
               lastActivity: new Date(),
@@ -872,6 +1033,50 @@ export const LobbyDetailScreen = memo(
       );
     }
 
+    // Cancelled by the host, or expired by the lobby sweeper
+    if (lobby.cancelled) {
+      return (
+        <View className="flex-1 bg-white">
+          <View className="px-4 py-6">
+            <ErrorMessage
+              title={lobby.expiredReason ? "Lobby Expired" : "Lobby Closed"}
+              message={lobby.cancelReason || "The host closed this lobby."}
+            />
+            <Pressable
+              onPress={() => navigation.goBack()}
+              className="py-3 mt-4 bg-green-500 rounded-lg"
+            >
+              <Text className="font-semibold text-center text-white">
+                Back to Play
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      );
+    }
+
+    // Removed and blocked by the host
+    if (isBanned && !isInLobby()) {
+      return (
+        <View className="flex-1 bg-white">
+          <View className="px-4 py-6">
+            <ErrorMessage
+              title="Can't Join"
+              message="The host removed you from this lobby."
+            />
+            <Pressable
+              onPress={() => navigation.goBack()}
+              className="py-3 mt-4 bg-green-500 rounded-lg"
+            >
+              <Text className="font-semibold text-center text-white">
+                Back to Play
+              </Text>
+            </Pressable>
+          </View>
+        </View>
+      );
+    }
+
     return (
       <GestureHandlerRootView style={{ flex: 1 }}>
         <SafeAreaView className="flex-1 bg-white" edges={["top"]}>
@@ -882,15 +1087,16 @@ export const LobbyDetailScreen = memo(
           />
 
           {/* Lobby Header with Room Code and Actions */}
-          {isHost && isSupported && (
+          {(isHost && isSupported) || canOpenChat ? (
             <LobbyHeader
               roomCode={roomCode}
               isScanning={isScanning}
-              onQrPress={handleQrPress}
-              onScanPress={handleScanPlayers}
+              onQrPress={isHost && isSupported ? handleQrPress : undefined}
+              onScanPress={isHost && isSupported ? handleScanPlayers : undefined}
+              onChatPress={canOpenChat ? handleOpenChat : undefined}
+              isOpeningChat={isOpeningChat}
             />
-          )}
-          {(!isHost || !isSupported) && (
+          ) : (
             <View className="flex-col items-center justify-center px-4 py-3 bg-white border-b border-gray-200">
               <Text className="mb-1 text-xs font-medium tracking-wider text-gray-500">
                 ROOM CODE
@@ -914,6 +1120,10 @@ export const LobbyDetailScreen = memo(
                   ? "Singles (1v1)"
                   : "Doubles (2v2)"}
               </Text>
+              <Text className="text-sm text-gray-400">•</Text>
+              <Text className="text-sm font-medium text-gray-600">
+                {getGameFormatLabel(getGameFormat(lobby))}
+              </Text>
             </View>
           </View>
 
@@ -932,7 +1142,7 @@ export const LobbyDetailScreen = memo(
               )}
 
               {/* Room Full Message */}
-              {isRoomFull() && !isUserInLobby() && (
+              {isRoomFull() && !isUserInLobby() && !lobby.rotationRule && (
                 <View className="p-4 border border-red-200 rounded-lg bg-red-50">
                   <Text className="font-medium text-center text-red-600">
                     Room is full ({getCurrentPlayerCount()}/
@@ -941,6 +1151,25 @@ export const LobbyDetailScreen = memo(
                 </View>
               )}
 
+              {/* Join Requests - host only, private lobbies */}
+              {isHost && lobby.isPrivate && (
+                <JoinRequestsCard
+                  requests={joinRequests.requests}
+                  onRequestPress={handleJoinRequestPress}
+                />
+              )}
+
+              {/* Balance Teams - host only, full doubles lobby */}
+              {isHost && lobby.gameMode === "doubles" && getCurrentPlayerCount() === 4 && !lobby.countdownActive && (
+                <Pressable
+                  onPress={() => setShowBalanceSheet(true)}
+                  className="flex-row items-center justify-center gap-2 py-3 mb-4 bg-gray-100 rounded-lg active:bg-gray-200"
+                >
+                  <Scale size={18} color="#374151" />
+                  <Text className="font-semibold !text-gray-700">Balance Teams</Text>
+                </Pressable>
+              )}
+
               {/* Teams */}
               <View className="space-y-6">
                 {/* Team 1 - Highlight if current user's team */}
@@ -953,7 +1182,7 @@ export const LobbyDetailScreen = memo(
                     <Text className="text-base font-semibold !text-green-700">
                       Team 1
                     </Text>
-                    {canStartGame() && !stakesData.loading && (
+                    {canStartGame() && !stakesData.loading && lobby.gameMode === "singles" && (
                       <Text className="text-xs !text-green-600">
                         Win: +{stakesData.team1Win} | Lose: -{stakesData.team1Loss}
                       </Text>
@@ -969,6 +1198,7 @@ export const LobbyDetailScreen = memo(
                       hostId={lobby.hostId}
                       gameMode={lobby.gameMode}
                       playerRating={lobby.team1.player1?.uid ? playerRatings[lobby.team1.player1.uid] || 1000 : 1000}
+                      playerStake={getPlayerStake(lobby.team1.player1?.uid)}
                       onDragStart={handleDragStart}
                       onDragMove={handleDragMove}
                       onDragEnd={handleDragEnd}
@@ -992,6 +1222,7 @@ export const LobbyDetailScreen = memo(
                         hostId={lobby.hostId}
                         gameMode={lobby.gameMode}
                         playerRating={lobby.team1.player2?.uid ? playerRatings[lobby.team1.player2.uid] || 1000 : 1000}
+                        playerStake={getPlayerStake(lobby.team1.player2?.uid)}
                         onDragStart={handleDragStart}
                         onDragMove={handleDragMove}
                         onDragEnd={handleDragEnd}
@@ -1029,7 +1260,7 @@ export const LobbyDetailScreen = memo(
                     <Text className="text-base font-semibold !text-blue-700">
                       Team 2
                     </Text>
-                    {canStartGame() && !stakesData.loading && (
+                    {canStartGame() && !stakesData.loading && lobby.gameMode === "singles" && (
                       <Text className="text-xs !text-blue-600">
                         Win: +{stakesData.team2Win} | Lose: -{stakesData.team2Loss}
                       </Text>
@@ -1045,6 +1276,7 @@ export const LobbyDetailScreen = memo(
                       hostId={lobby.hostId}
                       gameMode={lobby.gameMode}
                       playerRating={lobby.team2.player1?.uid ? playerRatings[lobby.team2.player1.uid] || 1000 : 1000}
+                      playerStake={getPlayerStake(lobby.team2.player1?.uid)}
                       onDragStart={handleDragStart}
                       onDragMove={handleDragMove}
                       onDragEnd={handleDragEnd}
@@ -1068,6 +1300,7 @@ export const LobbyDetailScreen = memo(
                         hostId={lobby.hostId}
                         gameMode={lobby.gameMode}
                         playerRating={lobby.team2.player2?.uid ? playerRatings[lobby.team2.player2.uid] || 1000 : 1000}
+                        playerStake={getPlayerStake(lobby.team2.player2?.uid)}
                         onDragStart={handleDragStart}
                         onDragMove={handleDragMove}
                         onDragEnd={handleDragEnd}
@@ -1086,6 +1319,16 @@ export const LobbyDetailScreen = memo(
                   </View>
                 </Card>
               </View>
+
+              {/* Open Play Queue */}
+              {lobby.rotationRule && (
+                <WaitingQueueCard
+                  rule={lobby.rotationRule}
+                  gameNumber={lobby.rotationGameNumber ?? 1}
+                  estimates={queueEstimates}
+                  currentUserId={user?.id}
+                />
+              )}
             </View>
           </ScrollView>
 
@@ -1112,9 +1355,39 @@ export const LobbyDetailScreen = memo(
               className="absolute bottom-0 left-0 right-0 px-4 py-4 bg-white border-t border-gray-200"
               style={{ paddingBottom: Math.max(insets.bottom, 16) }}
             >
-              <Text className="text-center text-sm !text-gray-500">
-                Waiting for host to start game...
-              </Text>
+              {lobby.isPrivate && !isInLobby() && !isQueued ? (
+                joinRequests.myRequest?.status === "pending" ? (
+                  <View className="items-center gap-2">
+                    <Text className="text-center text-sm !text-gray-500">
+                      Waiting for the host to approve your request...
+                    </Text>
+                    <Pressable onPress={handleCancelRequest} hitSlop={8}>
+                      <Text className="text-sm font-medium !text-red-600">Cancel Request</Text>
+                    </Pressable>
+                  </View>
+                ) : (
+                  <View className="gap-2">
+                    {joinRequests.myRequest?.status === "rejected" && (
+                      <Text className="text-center text-sm !text-gray-500">
+                        The host declined your request.
+                      </Text>
+                    )}
+                    <Pressable
+                      onPress={handleRequestToJoin}
+                      disabled={joinRequests.loading}
+                      className="items-center py-4 bg-green-500 rounded-xl active:bg-green-600"
+                    >
+                      <Text className="text-lg font-bold !text-white">Ask to Join</Text>
+                    </Pressable>
+                  </View>
+                )
+              ) : (
+                <Text className="text-center text-sm !text-gray-500">
+                  {lobby.gameStarted
+                    ? "Game in progress - you'll move to the next game when it ends"
+                    : "Waiting for host to start game..."}
+                </Text>
+              )}
             </View>
           )}
 
@@ -1131,6 +1404,15 @@ export const LobbyDetailScreen = memo(
             onClose={() => setShowQRModal(false)}
           />
 
+          {/* Balance Teams Sheet */}
+          <BalanceTeamsSheet
+            visible={showBalanceSheet}
+            pairings={teamBalance.pairings}
+            loading={teamBalance.loading}
+            onClose={() => setShowBalanceSheet(false)}
+            onApply={handleApplyPairing}
+          />
+
           {/* Player Action Sheet */}
           {selectedPlayer && (
             <PlayerActionSheet
@@ -1146,6 +1428,9 @@ export const LobbyDetailScreen = memo(
                 setShowPlayerActionSheet(false);
                 handleRemovePlayer();
               }}
+              onBan={handleBanPlayer}
+              onApprove={selectedJoinRequest ? handleApproveRequest : undefined}
+              onReject={selectedJoinRequest ? handleRejectRequest : undefined}
               onClose={() => setShowPlayerActionSheet(false)}
             />
           )}
@@ -1,18 +1,24 @@
 import { memo, useState, useCallback, useEffect } from 'react';
-import { View, Text, Pressable, KeyboardAvoidingView, Platform, ScrollView, TextInput } from 'react-native';
-import { User, Users, X } from 'lucide-react-native';
+import { View, Text, Pressable, KeyboardAvoidingView, Platform, ScrollView, Switch, TextInput } from 'react-native';
+import { ChevronRight, ListOrdered, Shield, Trophy, User, Users, X } from 'lucide-react-native';
 import { useNavigation } from '@react-navigation/native';
 import type { TabScreenProps } from '@/types/navigation';
 import type { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import type { RootStackParamList } from '@/types/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLobbyActions } from '@/hooks/actions/useLobbyActions';
-import { isValidRoomCode } from '@/lib/roomCode';
+import { formatRoomCode, getMaxRoomCodeLength, getRoomCodeError, isValidRoomCode } from '@/lib/roomCode';
+import { ROOM_CODE_LENGTH } from '@/config/roomCode';
 import { ErrorMessage } from '@/components/common';
 import { GameModeCard } from '@/components/features/play/GameModeCard';
+import { GameFormatSelector } from '@/components/features/play/GameFormatSelector';
+import { RotationRuleSelector } from '@/components/features/play/RotationRuleSelector';
 import { PendingGameBanner } from '@/components/common/PendingGameBanner';
+import { ExpiredLobbyNotice } from '@/components/common/ExpiredLobbyNotice';
 import { usePendingGame } from '@/hooks/firestore/usePendingGame';
-import type { GameMode } from '@/types/lobby';
+import { DEFAULT_GAME_FORMAT } from '@/lib/scoreValidation';
+import type { GameMode, RotationRule } from '@/types/lobby';
+import type { GameFormat } from '@/types/game';
 import { doc, getDoc } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
 
@@ -35,12 +41,15 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
 
   // Host state
   const [selectedMode, setSelectedMode] = useState<GameMode | null>(null);
+  const [gameFormat, setGameFormat] = useState<GameFormat>(DEFAULT_GAME_FORMAT);
+  const [rotationRule, setRotationRule] = useState<RotationRule | null>(null);
+  const [isPrivate, setIsPrivate] = useState(false);
   const [createError, setCreateError] = useState('');
   const [isCreating, setIsCreating] = useState(false);
 
   // Pending game detection (suppress during create/join)
   const [isSuppressingBanner, setIsSuppressingBanner] = useState(false);
-  const { pendingGame, loading: pendingGameLoading } = usePendingGame(isSuppressingBanner);
+  const { pendingGame, expiredLobby, dismissExpiredLobby, loading: pendingGameLoading } = usePendingGame(isSuppressingBanner);
 
   // Reset banner suppression when leaving screen
   useEffect(() => {
@@ -52,10 +61,9 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
   // Check if functionality should be disabled
   const isDisabled = !!pendingGame;
 
-  // Handle room code input (auto-uppercase, max 4 chars)
+  // Handle room code input (auto-uppercase, no spaces; length capped by the input)
   const handleRoomCodeChange = useCallback((text: string) => {
-    const uppercased = text.toUpperCase();
-    setRoomCode(uppercased);
+    setRoomCode(formatRoomCode(text));
     if (joinError) setJoinError(''); // Clear error on change
   }, [joinError]);
 
@@ -69,11 +77,12 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
   const handleJoinGame = useCallback(async () => {
     if (!user || !userDocument) return;
 
-    const code = roomCode.trim();
+    const code = formatRoomCode(roomCode);
 
-    // Validate format
-    if (!isValidRoomCode(code)) {
-      setJoinError('Please enter a valid 4-character room code');
+    // Validate format (current codes and legacy 4-character codes)
+    const codeError = getRoomCodeError(code);
+    if (codeError) {
+      setJoinError(codeError);
       return;
     }
 
@@ -122,7 +131,7 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
       }
 
       // Create lobby
-      const roomCode = await createLobby(user.id, selectedMode, hostData);
+      const roomCode = await createLobby(user.id, selectedMode, hostData, gameFormat, rotationRule, isPrivate);
 
       // Navigate to lobby
       navigation.navigate('LobbyDetail', { roomCode });
@@ -132,7 +141,7 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
     } finally {
       setIsCreating(false);
     }
-  }, [user, userDocument, selectedMode, createLobby, navigation]);
+  }, [user, userDocument, selectedMode, gameFormat, rotationRule, isPrivate, createLobby, navigation]);
 
   // Handle mode selection
   const handleModeSelect = useCallback((mode: GameMode) => {
@@ -156,6 +165,11 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
             <PendingGameBanner pendingGame={pendingGame} />
           )}
 
+          {/* Expired Lobby Notice */}
+          {expiredLobby && !pendingGameLoading && (
+            <ExpiredLobbyNotice lobby={expiredLobby} onDismiss={dismissExpiredLobby} />
+          )}
+
 
           {/* Tab Switcher */}
           <View className="flex-row p-1 mb-6 bg-gray-100 rounded-lg">
@@ -199,7 +213,7 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
                   Join Game
                 </Text>
                 <Text className="text-base text-gray-600">
-                  Enter the 4-character room code
+                  Enter the {ROOM_CODE_LENGTH}-character room code
                 </Text>
               </View>
 
@@ -212,9 +226,9 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
                   <TextInput
                     value={roomCode}
                     onChangeText={handleRoomCodeChange}
-                    placeholder="ABCD"
+                    placeholder={'ABCDEFGH'.slice(0, ROOM_CODE_LENGTH)}
                     placeholderTextColor="#d1d5db"
-                    maxLength={4}
+                    maxLength={getMaxRoomCodeLength()}
                     autoCapitalize="characters"
                     autoCorrect={false}
                     className="px-4 py-6 pr-16 text-4xl font-bold tracking-widest bg-white border-2 border-gray-300 rounded-lg"
@@ -238,9 +252,9 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
               {/* Join Button */}
               <Pressable
                 onPress={handleJoinGame}
-                disabled={roomCode.length !== 4 || isJoining}
+                disabled={!isValidRoomCode(roomCode) || isJoining}
                 className={`py-4 rounded-lg bg-green-500 items-center mt-2 ${
-                  (roomCode.length !== 4 || isJoining) ? 'opacity-50' : 'active:bg-green-600'
+                  (!isValidRoomCode(roomCode) || isJoining) ? 'opacity-50' : 'active:bg-green-600'
                 }`}
               >
                 <Text className="text-lg font-bold text-white">
@@ -280,6 +294,23 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
                 />
               </View>
 
+              {/* Game Format Selection */}
+              <GameFormatSelector format={gameFormat} onChange={setGameFormat} />
+
+              {/* Rotation Selection */}
+              <RotationRuleSelector rule={rotationRule} onChange={setRotationRule} />
+
+              {/* Private Lobby */}
+              <View className="flex-row items-center justify-between">
+                <View className="flex-1 pr-4">
+                  <Text className="text-sm font-semibold text-gray-700">Private Lobby</Text>
+                  <Text className="text-xs text-gray-500">
+                    Players ask to join and you approve them
+                  </Text>
+                </View>
+                <Switch value={isPrivate} onValueChange={setIsPrivate} />
+              </View>
+
               {/* Create Error */}
               {createError && (
                 <ErrorMessage message={createError} />
@@ -300,6 +331,45 @@ export const PlayScreen = memo(({}: TabScreenProps<'Play'>) => {
             </View>
           )}
           </View>
+
+          {/* Tournaments */}
+          <Pressable
+            onPress={() => navigation.navigate('Tournaments')}
+            className="flex-row items-center p-4 mt-8 border border-gray-200 rounded-lg active:bg-gray-50"
+          >
+            <Trophy size={22} color="#16a34a" />
+            <View className="flex-1 ml-3">
+              <Text className="text-base font-semibold text-gray-900">Tournaments</Text>
+              <Text className="text-xs text-gray-500">Round robins and brackets, seeded by rating</Text>
+            </View>
+            <ChevronRight size={18} color="#9ca3af" />
+          </Pressable>
+
+          {/* Ladders */}
+          <Pressable
+            onPress={() => navigation.navigate('Ladders')}
+            className="flex-row items-center p-4 mt-2 border border-gray-200 rounded-lg active:bg-gray-50"
+          >
+            <ListOrdered size={22} color="#16a34a" />
+            <View className="flex-1 ml-3">
+              <Text className="text-base font-semibold text-gray-900">Ladders</Text>
+              <Text className="text-xs text-gray-500">Challenge players above you to climb</Text>
+            </View>
+            <ChevronRight size={18} color="#9ca3af" />
+          </Pressable>
+
+          {/* Clubs */}
+          <Pressable
+            onPress={() => navigation.navigate('Clubs')}
+            className="flex-row items-center p-4 mt-2 border border-gray-200 rounded-lg active:bg-gray-50"
+          >
+            <Shield size={22} color="#16a34a" />
+            <View className="flex-1 ml-3">
+              <Text className="text-base font-semibold text-gray-900">Clubs</Text>
+              <Text className="text-xs text-gray-500">Play and rank with your regular group</Text>
+            </View>
+            <ChevronRight size={18} color="#9ca3af" />
+          </Pressable>
         </View>
       </ScrollView>
     </KeyboardAvoidingView>
@@ -7,11 +7,17 @@ import type { TabScreenProps, RootStackParamList } from '@/types/navigation';
 import type { NavigationProp } from '@react-navigation/native';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLeaderboard } from '@/hooks/firestore/useLeaderboard';
+import { useBestPartners } from '@/hooks/firestore/useHeadToHead';
+import { useSeasonFinishes } from '@/hooks/firestore/useLeaderboardPeriods';
+import { useUserClubs } from '@/hooks/firestore/useClubs';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
 import { ProfileHero } from '@/components/profile/ProfileHero';
 import { RankingStatCard } from '@/components/profile/RankingStatCard';
 import { MatchesTab } from '@/components/profile/MatchesTab';
+import { BestPartnersCard } from '@/components/profile/BestPartnersCard';
+import { SeasonBadges } from '@/components/profile/SeasonBadges';
 import { isGravity } from '@/config/product';
+import { isProvisionalPlayer } from '@/lib/ratingEngine';
 
 const HEADER_HEIGHT = 56;
 
@@ -28,6 +34,9 @@ export const ProfileScreen = memo((props: TabScreenProps<'Profile'>) => {
       : undefined;
   const { rankings: singlesRankings } = useLeaderboard('singles', userGender, 100);
   const { rankings: doublesRankings } = useLeaderboard('same_gender_doubles', userGender, 100);
+  const { partners } = useBestPartners(userDocument?.uid || '');
+  const { finishes } = useSeasonFinishes(userDocument?.uid || '');
+  const { clubs } = useUserClubs(userDocument?.uid || '');
 
   // Calculate positions
   const singlesPosition = useMemo(() => {
@@ -75,9 +84,8 @@ export const ProfileScreen = memo((props: TabScreenProps<'Profile'>) => {
     }
   };
 
-  const handleViewAllHistory = () => {
-    // Navigate to Map tab (was History)
-    props.navigation.navigate('Map');
+  const handleClubPress = (clubId: string) => {
+    rootNavigation.navigate('ClubDetail', { clubId });
   };
 
   // Pull-to-refresh handler
@@ -130,12 +138,15 @@ export const ProfileScreen = memo((props: TabScreenProps<'Profile'>) => {
           fullName={fullName}
           username={username}
           bio={bio}
+          isProvisional={!!userDocument && isProvisionalPlayer(userDocument)}
           followingCount={followingCount}
           followersCount={followersCount}
+          clubs={clubs}
           isOwnProfile={true}
           onEditPress={handleEditProfile}
           onFollowingPress={handleFollowingPress}
           onFollowersPress={handleFollowersPress}
+          onClubPress={handleClubPress}
         />
       </View>
 
@@ -171,6 +182,14 @@ export const ProfileScreen = memo((props: TabScreenProps<'Profile'>) => {
         </View>
       </View>
 
+      {/* Season Finishes and Best Partners Section */}
+      {(finishes.length > 0 || partners.length > 0) && (
+        <View className="gap-2 px-4 py-2 bg-white">
+          <SeasonBadges finishes={finishes} />
+          <BestPartnersCard partners={partners} />
+        </View>
+      )}
+
       {/* Section Divider */}
       {/* <View className="border-t-2 border-gray-300" /> */}
     </>
@@ -202,7 +221,6 @@ export const ProfileScreen = memo((props: TabScreenProps<'Profile'>) => {
       <MatchesTab 
         userId={userDocument.uid} 
         header={renderHeader()} 
-        onViewAllHistory={handleViewAllHistory}
         refreshing={refreshing}
         onRefresh={handleRefresh}
         isOwnProfile={true}
@@ -0,0 +1,364 @@
+import { memo, useCallback, useMemo, useState } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Trophy } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTournament } from '@/hooks/firestore/useTournament';
+import { useToast } from '@/hooks/common/useToast';
+import { useAlert } from '@/hooks/common/useAlert';
+import { ErrorMessage, LoadingSpinner, ScreenHeader } from '@/components/common';
+import { TournamentMatchCard } from '@/components/tournament/TournamentMatchCard';
+import { StandingsTable } from '@/components/tournament/StandingsTable';
+import { BracketView } from '@/components/tournament/BracketView';
+import {
+  registerForTournament,
+  resetTournamentMatch,
+  startTournament,
+  startTournamentMatch,
+  withdrawFromTournament,
+} from '@/services/tournamentService';
+import {
+  MAX_TOURNAMENT_PLAYERS,
+  TOURNAMENT_FORMAT_LABELS,
+  getSeedRating,
+  getTournamentStartError,
+} from '@/lib/tournament';
+import {
+  getBracketRounds,
+  getRoundLabel,
+  getSideName,
+  getStandings,
+} from '@/lib/tournamentStandings';
+import { getGameFormatLabel } from '@/lib/scoreValidation';
+import type { TournamentBracket, TournamentMatch } from '@/types/tournament';
+
+type Tab = 'matches' | 'results';
+
+const BRACKET_ORDER: TournamentBracket[] = ['pool', 'winners', 'losers', 'final'];
+
+const getPoolName = (pool: number) => `Pool ${String.fromCharCode(65 + pool)}`;
+
+export const TournamentDetailScreen = memo(({ navigation, route }: RootStackScreenProps<'TournamentDetail'>) => {
+  const { tournamentId } = route.params;
+  const { user, userDocument } = useAuth();
+  const { tournament, matches, loading, error } = useTournament(tournamentId);
+  const toast = useToast();
+  const alert = useAlert();
+  const [activeTab, setActiveTab] = useState<Tab>('matches');
+  const [isUpdating, setIsUpdating] = useState(false);
+
+  const userId = user?.id || '';
+  const isOrganizer = !!tournament && tournament.hostId === userId;
+  const isRegistered = !!tournament && tournament.playerIds.includes(userId);
+  const isElimination = tournament?.format === 'single_elimination' || tournament?.format === 'double_elimination';
+
+  // Matches in play order, each with its round name
+  const schedule = useMemo(() => {
+    const roundCounts = new Map(
+      BRACKET_ORDER.map((bracket) => [bracket, getBracketRounds(matches, bracket).length])
+    );
+
+    return [...matches]
+      .sort((a, b) =>
+        BRACKET_ORDER.indexOf(a.bracket) - BRACKET_ORDER.indexOf(b.bracket) ||
+        a.round - b.round ||
+        (a.pool ?? 0) - (b.pool ?? 0) ||
+        a.position - b.position
+      )
+      .filter((match) => match.status !== 'bye')
+      .map((match) => {
+        const roundLabel = getRoundLabel(match.bracket, match.round, roundCounts.get(match.bracket) ?? 0);
+        return {
+          match,
+          label: match.pool !== undefined && (tournament?.poolCount ?? 1) > 1
+            ? `${getPoolName(match.pool)} · ${roundLabel}`
+            : roundLabel,
+        };
+      });
+  }, [matches, tournament?.poolCount]);
+
+  const myNextMatch = schedule.find(({ match }) =>
+    match.playerIds.includes(userId) && (match.status === 'ready' || match.status === 'in_progress')
+  );
+
+  const standings = useMemo(
+    () => (tournament?.entries && !isElimination ? getStandings(tournament.entries, matches) : []),
+    [tournament?.entries, isElimination, matches]
+  );
+
+  const handleRegister = useCallback(async () => {
+    if (!tournament || !user || !userDocument) return;
+    setIsUpdating(true);
+
+    try {
+      await registerForTournament(tournament.id, {
+        uid: user.id,
+        displayName: userDocument.displayName || user.id,
+        ...(userDocument.profilePictureUrl && { photoURL: userDocument.profilePictureUrl }),
+        rating: getSeedRating(userDocument.rankings, tournament.gameMode),
+      });
+      toast.success("You're in!");
+    } catch (err) {
+      console.error('Error registering for tournament:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to register. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [tournament, user, userDocument, toast]);
+
+  const handleWithdraw = useCallback(async () => {
+    if (!tournament || !user) return;
+    setIsUpdating(true);
+
+    try {
+      await withdrawFromTournament(tournament.id, user.id);
+    } catch (err) {
+      console.error('Error withdrawing from tournament:', err);
+      toast.error('Failed to withdraw. Please try again.');
+    } finally {
+      setIsUpdating(false);
+    }
+  }, [tournament, user, toast]);
+
+  const handleStart = useCallback(() => {
+    if (!tournament) return;
+
+    alert.confirm(
+      'Start Tournament?',
+      `Registration closes and ${tournament.players.length} players are seeded by rating.`,
+      {
+        onConfirm: async () => {
+          setIsUpdating(true);
+          try {
+            await startTournament(tournament);
+          } catch (err) {
+            console.error('Error starting tournament:', err);
+            toast.error(err instanceof Error ? err.message : 'Failed to start tournament. Please try again.');
+          } finally {
+            setIsUpdating(false);
+          }
+        },
+        confirmText: 'Start',
+      }
+    );
+  }, [tournament, alert, toast]);
+
+  const handleStartMatch = useCallback(async (match: TournamentMatch) => {
+    if (!tournament || !user || !userDocument) return;
+
+    try {
+      const roomCode = await startTournamentMatch(tournament, match, {
+        uid: user.id,
+        displayName: userDocument.displayName || user.id,
+        ...(userDocument.profilePictureUrl && { photoURL: userDocument.profilePictureUrl }),
+      });
+      navigation.navigate('LobbyDetail', { roomCode });
+    } catch (err) {
+      console.error('Error starting tournament match:', err);
+      toast.error('Failed to start match. Please try again.');
+    }
+  }, [tournament, user, userDocument, navigation, toast]);
+
+  const handleOpenLobby = useCallback((roomCode: string) => {
+    navigation.navigate('LobbyDetail', { roomCode });
+  }, [navigation]);
+
+  const handleResetMatch = useCallback((match: TournamentMatch) => {
+    alert.confirm(
+      'Reset Match?',
+      'The match goes back to ready and can be started in a new lobby.',
+      {
+        onConfirm: () => {
+          resetTournamentMatch(tournamentId, match.id).catch((err) => {
+            console.error('Error resetting tournament match:', err);
+            toast.error('Failed to reset match. Please try again.');
+          });
+        },
+        confirmText: 'Reset',
+        confirmStyle: 'destructive',
+      }
+    );
+  }, [tournamentId, alert, toast]);
+
+  const renderMatch = (match: TournamentMatch, label: string) => (
+    <TournamentMatchCard
+      key={match.id}
+      match={match}
+      players={tournament?.players ?? []}
+      label={label}
+      canStart={isOrganizer || match.playerIds.includes(userId)}
+      isOrganizer={isOrganizer}
+      onStart={handleStartMatch}
+      onOpenLobby={handleOpenLobby}
+      onReset={handleResetMatch}
+    />
+  );
+
+  const renderRegistration = () => {
+    if (!tournament) return null;
+    const startError = getTournamentStartError(tournament);
+
+    return (
+      <View className="gap-4">
+        <View className="p-4 rounded-lg bg-gray-50">
+          <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">
+            Players ({tournament.players.length}/{MAX_TOURNAMENT_PLAYERS})
+          </Text>
+          {tournament.players.length === 0 ? (
+            <Text className="py-2 text-sm !text-gray-500">Nobody has registered yet</Text>
+          ) : (
+            tournament.players.map((player) => (
+              <View key={player.uid} className="flex-row items-center justify-between py-1.5">
+                <Text className="text-sm font-medium !text-gray-900" numberOfLines={1}>
+                  {player.displayName}
+                </Text>
+                <Text className="text-xs !text-gray-500">{player.rating}</Text>
+              </View>
+            ))
+          )}
+        </View>
+
+        <Pressable
+          onPress={isRegistered ? handleWithdraw : handleRegister}
+          disabled={isUpdating}
+          className={`items-center py-4 rounded-lg ${
+            isRegistered ? 'bg-gray-100 active:bg-gray-200' : 'bg-green-500 active:bg-green-600'
+          } ${isUpdating ? 'opacity-50' : ''}`}
+        >
+          <Text className={`text-lg font-bold ${isRegistered ? '!text-gray-700' : '!text-white'}`}>
+            {isRegistered ? 'Withdraw' : 'Register'}
+          </Text>
+        </Pressable>
+
+        {isOrganizer && (
+          <View>
+            <Pressable
+              onPress={handleStart}
+              disabled={!!startError || isUpdating}
+              className={`items-center py-4 bg-gray-900 rounded-lg ${
+                startError || isUpdating ? 'opacity-50' : 'active:bg-gray-800'
+              }`}
+            >
+              <Text className="text-lg font-bold !text-white">Start Tournament</Text>
+            </Pressable>
+            {startError && (
+              <Text className="mt-2 text-xs text-center !text-gray-500">{startError}</Text>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderResults = () => {
+    if (!tournament) return null;
+
+    if (isElimination) {
+      const isDouble = tournament.format === 'double_elimination';
+      return (
+        <View>
+          <BracketView
+            matches={matches}
+            players={tournament.players}
+            bracket="winners"
+            title={isDouble ? 'Winners Bracket' : undefined}
+          />
+          {isDouble && (
+            <>
+              <BracketView matches={matches} players={tournament.players} bracket="losers" title="Losers Bracket" />
+              <BracketView matches={matches} players={tournament.players} bracket="final" />
+            </>
+          )}
+        </View>
+      );
+    }
+
+    const pools = tournament.format === 'round_robin' ? tournament.poolCount : 1;
+    return Array.from({ length: pools }, (_, pool) => (
+      <StandingsTable
+        key={pool}
+        standings={standings.filter((row) => (row.pool ?? 0) === pool)}
+        players={tournament.players}
+        title={pools > 1 ? getPoolName(pool) : undefined}
+        currentUserId={userId}
+      />
+    ));
+  };
+
+  if (loading) {
+    return <LoadingSpinner fullScreen />;
+  }
+
+  if (error || !tournament) {
+    return (
+      <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+        <ScreenHeader title="Tournament" onLeftPress={() => navigation.goBack()} />
+        <View className="p-4">
+          <ErrorMessage message={error ? 'Failed to load tournament.' : 'Tournament not found.'} />
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader title={tournament.name} onLeftPress={() => navigation.goBack()} />
+
+      <ScrollView className="flex-1" contentContainerClassName="px-4 py-4">
+        <Text className="mb-4 text-sm text-center !text-gray-500">
+          {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.gameMode === 'singles' ? 'Singles' : 'Doubles'} · {getGameFormatLabel(tournament.gameFormat)}
+        </Text>
+
+        {tournament.status === 'registration' ? (
+          renderRegistration()
+        ) : (
+          <>
+            {tournament.status === 'completed' && tournament.championIds && (
+              <View className="flex-row items-center gap-3 p-4 mb-4 rounded-lg bg-yellow-50">
+                <Trophy size={24} color="#ca8a04" />
+                <View className="flex-1">
+                  <Text className="text-xs font-semibold !text-yellow-700 uppercase">
+                    {tournament.format === 'round_robin' && tournament.poolCount > 1 ? 'Pool Winners' : 'Champion'}
+                  </Text>
+                  <Text className="text-base font-bold !text-gray-900">
+                    {getSideName(tournament.championIds, tournament.players)}
+                  </Text>
+                </View>
+              </View>
+            )}
+
+            {myNextMatch && (
+              <View className="mb-4">
+                <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Your Next Match</Text>
+                {renderMatch(myNextMatch.match, myNextMatch.label)}
+              </View>
+            )}
+
+            <View className="flex-row p-1 mb-4 bg-gray-100 rounded-lg">
+              {(['matches', 'results'] as const).map((tab) => (
+                <Pressable
+                  key={tab}
+                  onPress={() => setActiveTab(tab)}
+                  className={`flex-1 py-2 rounded-md ${activeTab === tab ? 'bg-white' : ''}`}
+                >
+                  <Text className={`text-center text-sm font-semibold ${
+                    activeTab === tab ? '!text-gray-900' : '!text-gray-600'
+                  }`}>
+                    {tab === 'matches' ? 'Matches' : isElimination ? 'Bracket' : 'Standings'}
+                  </Text>
+                </Pressable>
+              ))}
+            </View>
+
+            {activeTab === 'matches'
+              ? schedule.map(({ match, label }) => renderMatch(match, label))
+              : renderResults()}
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+});
+
+TournamentDetailScreen.displayName = 'TournamentDetailScreen';
@@ -0,0 +1,101 @@
+import { memo, useCallback } from 'react';
+import { View, Text, Pressable, ScrollView } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { ChevronRight, Plus, Trophy } from 'lucide-react-native';
+import type { RootStackScreenProps } from '@/types/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import { useTournaments } from '@/hooks/firestore/useTournaments';
+import { ErrorMessage, LoadingSpinner, ScreenHeader } from '@/components/common';
+import { TOURNAMENT_FORMAT_LABELS } from '@/lib/tournament';
+import type { Tournament, TournamentStatus } from '@/types/tournament';
+
+const STATUS_LABELS: Record<TournamentStatus, string> = {
+  registration: 'Registration open',
+  in_progress: 'In progress',
+  completed: 'Completed',
+};
+
+interface TournamentRowProps {
+  tournament: Tournament;
+  onPress: (tournamentId: string) => void;
+}
+
+const TournamentRow = memo(({ tournament, onPress }: TournamentRowProps) => (
+  <Pressable
+    onPress={() => onPress(tournament.id)}
+    className="flex-row items-center p-4 mb-2 border border-gray-200 rounded-lg active:bg-gray-50"
+  >
+    <View className="items-center justify-center w-10 h-10 mr-3 bg-green-50 rounded-full">
+      <Trophy size={20} color="#16a34a" />
+    </View>
+    <View className="flex-1">
+      <Text className="text-base font-semibold !text-gray-900" numberOfLines={1}>
+        {tournament.name}
+      </Text>
+      <Text className="text-xs !text-gray-500">
+        {TOURNAMENT_FORMAT_LABELS[tournament.format]} · {tournament.gameMode === 'singles' ? 'Singles' : 'Doubles'} · {tournament.playerIds.length} players
+      </Text>
+      <Text className="text-xs !text-gray-400">{STATUS_LABELS[tournament.status]}</Text>
+    </View>
+    <ChevronRight size={18} color="#9ca3af" />
+  </Pressable>
+));
+
+TournamentRow.displayName = 'TournamentRow';
+
+export const TournamentsScreen = memo(({ navigation }: RootStackScreenProps<'Tournaments'>) => {
+  const { user } = useAuth();
+  const { openTournaments, myTournaments, loading, error } = useTournaments(user?.id || '');
+
+  const handleOpen = useCallback((tournamentId: string) => {
+    navigation.navigate('TournamentDetail', { tournamentId });
+  }, [navigation]);
+
+  // Open tournaments the user is already in are listed under theirs
+  const myIds = new Set(myTournaments.map((t) => t.id));
+  const otherOpen = openTournaments.filter((t) => !myIds.has(t.id));
+
+  return (
+    <SafeAreaView className="flex-1 bg-white" edges={['top']}>
+      <ScreenHeader
+        title="Tournaments"
+        onLeftPress={() => navigation.goBack()}
+        rightComponent={
+          <Pressable onPress={() => navigation.navigate('CreateTournament')} className="p-2">
+            <Plus size={22} color="#16a34a" />
+          </Pressable>
+        }
+      />
+
+      {loading ? (
+        <LoadingSpinner />
+      ) : (
+        <ScrollView className="flex-1" contentContainerClassName="px-4 py-4">
+          {error && <ErrorMessage message="Failed to load tournaments." />}
+
+          {myTournaments.length > 0 && (
+            <View className="mb-6">
+              <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Your Tournaments</Text>
+              {myTournaments.map((tournament) => (
+                <TournamentRow key={tournament.id} tournament={tournament} onPress={handleOpen} />
+              ))}
+            </View>
+          )}
+
+          <Text className="mb-2 text-xs font-semibold !text-gray-500 uppercase">Open for Registration</Text>
+          {otherOpen.length > 0 ? (
+            otherOpen.map((tournament) => (
+              <TournamentRow key={tournament.id} tournament={tournament} onPress={handleOpen} />
+            ))
+          ) : (
+            <Text className="py-6 text-sm text-center !text-gray-500">
+              No tournaments are taking entries. Start one with +.
+            </Text>
+          )}
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+});
+
+TournamentsScreen.displayName = 'TournamentsScreen';
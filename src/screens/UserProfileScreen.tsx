@@ -1,4 +1,4 @@
-import { memo, useMemo } from 'react';
+import { memo, useCallback, useMemo, useState } from 'react';
 import { View, Text } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Lock } from 'lucide-react-native';
@@ -6,10 +6,23 @@ import type { RootStackScreenProps } from '@/types/navigation';
 import { usePublicProfile } from '@/hooks/firestore/usePublicProfile';
 import { useLeaderboard } from '@/hooks/firestore/useLeaderboard';
 import { useFollow } from '@/hooks/actions/useFollow';
+import { useHeadToHead, useBestPartners } from '@/hooks/firestore/useHeadToHead';
+import { useLadders } from '@/hooks/firestore/useLadders';
+import { useSeasonFinishes } from '@/hooks/firestore/useLeaderboardPeriods';
+import { useUserClubs } from '@/hooks/firestore/useClubs';
+import { useToast } from '@/hooks/common/useToast';
+import { useAuth } from '@/contexts/AuthContext';
 import { LoadingSpinner, ErrorMessage, ScreenHeader } from '@/components/common';
 import { ProfileHero } from '@/components/profile/ProfileHero';
 import { RankingStatCard } from '@/components/profile/RankingStatCard';
 import { MatchesTab } from '@/components/profile/MatchesTab';
+import { HeadToHeadCard } from '@/components/profile/HeadToHeadCard';
+import { BestPartnersCard } from '@/components/profile/BestPartnersCard';
+import { LadderChallengeCard } from '@/components/profile/LadderChallengeCard';
+import { SeasonBadges } from '@/components/profile/SeasonBadges';
+import { isProvisionalPlayer } from '@/lib/ratingEngine';
+import { createChallenge } from '@/services/ladderService';
+import type { Ladder } from '@/types/ladder';
 
 export const UserProfileScreen = memo(
   ({ navigation, route }: RootStackScreenProps<'UserProfile'>) => {
@@ -19,6 +32,39 @@ export const UserProfileScreen = memo(
     // Follow functionality
     const { isFollowing, loading: followLoading, toggleFollow } = useFollow(user?.uid || '');
 
+    // Head-to-head from the viewer's side, and this player's best partners
+    const { userDocument: viewer } = useAuth();
+    const { stats: headToHead } = useHeadToHead(viewer?.uid || '', isOwn ? '' : user?.uid || '');
+    const { partners } = useBestPartners(user?.uid || '');
+    const { finishes } = useSeasonFinishes(user?.uid || '');
+    const { clubs } = useUserClubs(user?.uid || '');
+
+    // Ladders both players are on, where the viewer can challenge from here
+    const toast = useToast();
+    const { myLadders } = useLadders(isOwn ? '' : viewer?.uid || '');
+    const [challengingLadderId, setChallengingLadderId] = useState<string | null>(null);
+    const sharedLadders = useMemo(
+      () => myLadders.filter((ladder) =>
+        !!viewer && !!user && ladder.rungs.includes(viewer.uid) && ladder.rungs.includes(user.uid)
+      ),
+      [myLadders, viewer, user]
+    );
+
+    const handleChallenge = useCallback(async (ladder: Ladder) => {
+      if (!viewer || !user) return;
+      setChallengingLadderId(ladder.id);
+
+      try {
+        await createChallenge(ladder, viewer.uid, user.uid);
+        toast.success(`Challenge sent to @${username}`);
+      } catch (err) {
+        console.error('Error creating ladder challenge:', err);
+        toast.error(err instanceof Error ? err.message : 'Failed to send challenge. Please try again.');
+      } finally {
+        setChallengingLadderId(null);
+      }
+    }, [viewer, user, username, toast]);
+
     // Get rankings for position calculation
     const userGender =
       user?.gender === 'male' || user?.gender === 'female' ? user.gender : undefined;
@@ -60,6 +106,10 @@ export const UserProfileScreen = memo(
       }
     };
 
+    const handleClubPress = (clubId: string) => {
+      navigation.navigate('ClubDetail', { clubId });
+    };
+
     // Loading state
     if (loading) {
       return (
@@ -142,14 +192,17 @@ export const UserProfileScreen = memo(
             fullName={displayName}
             username={username}
             bio={bio}
+            isProvisional={isProvisionalPlayer(user)}
             followingCount={followingCount}
             followersCount={followersCount}
+            clubs={clubs}
             isOwnProfile={isOwn}
             isFollowing={isFollowing}
             followLoading={followLoading}
             onFollowPress={toggleFollow}
             onFollowingPress={handleFollowingPress}
             onFollowersPress={handleFollowersPress}
+            onClubPress={handleClubPress}
           />
         </View>
 
@@ -185,6 +238,25 @@ export const UserProfileScreen = memo(
           </View>
         </View>
 
+        {/* Head-to-Head, Ladders, Season Finishes and Partners Section */}
+        {(headToHead || sharedLadders.length > 0 || finishes.length > 0 || partners.length > 0) && (
+          <View className="gap-2 px-4 py-2 bg-white">
+            {headToHead && (
+              <HeadToHeadCard stats={headToHead} opponentUsername={username} />
+            )}
+            <LadderChallengeCard
+              ladders={sharedLadders}
+              viewerId={viewer?.uid || ''}
+              opponentId={user.uid}
+              opponentUsername={username}
+              challengingLadderId={challengingLadderId}
+              onChallenge={handleChallenge}
+            />
+            <SeasonBadges finishes={finishes} />
+            <BestPartnersCard partners={partners} />
+          </View>
+        )}
+
         {/* Section Divider */}
         {/* <View className="border-t-2 border-gray-300" /> */}
       </>
@@ -203,7 +275,6 @@ export const UserProfileScreen = memo(
         <MatchesTab 
           userId={user.uid} 
           header={renderHeader()} 
-          onViewAllHistory={() => navigation.goBack()}
           isOwnProfile={isOwn}
         />
       </SafeAreaView>
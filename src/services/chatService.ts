@@ -21,8 +21,11 @@ import {
   increment,
   Timestamp,
   writeBatch,
+  runTransaction,
 } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
+import { getLobbyChatId, getLobbyChatMemberIds, getLobbyChatName } from '@/lib/lobbyChat';
+import type { Lobby } from '@/types/lobby';
 import type {
   Chat,
   Message,
@@ -44,6 +47,7 @@ export const createChat = async (data: CreateChatData): Promise<string> => {
     name: data.name || null,
     participantIds: data.participantIds,
     participantInfo: data.participantInfo,
+    ...(data.clubId && { clubId: data.clubId }),
     lastMessage: null,
     unreadCount: data.participantIds.reduce((acc, id) => ({ ...acc, [id]: 0 }), {}),
     deletedFor: [],
@@ -115,10 +119,12 @@ export const getOrCreateIndividualChat = async (
 
 /**
  * Create a group chat
+ * Pass clubId for a club's chat, which syncClubChat then keeps in step with the club
  */
 export const createGroupChat = async (
   name: string,
-  participants: ChatParticipant[]
+  participants: ChatParticipant[],
+  clubId?: string
 ): Promise<string> => {
   const participantIds = participants.map(p => p.userId);
   const participantInfo = participants.reduce(
@@ -131,6 +137,63 @@ export const createGroupChat = async (
     name,
     participantIds,
     participantInfo,
+    clubId,
+  });
+
+  return chatId;
+};
+
+/**
+ * Builds a chat participant from a user's profile
+ */
+const getChatParticipant = async (userId: string): Promise<ChatParticipant> => {
+  const userSnap = await getDoc(doc(firestore, 'users', userId));
+  const userData = userSnap.data();
+
+  return {
+    userId,
+    username: userData?.username || '',
+    displayName: userData?.displayName || 'Unknown',
+    photoURL: userData?.profilePictureUrl || null,
+  };
+};
+
+/**
+ * Get or create the chat for a lobby
+ * Starts with the host, seated players and waiting list; the syncLobbyChat
+ * function keeps members in step with the lobby and posts game updates
+ * @param lobby - Lobby to chat in
+ * @returns Chat ID
+ */
+export const getOrCreateLobbyChat = async (lobby: Lobby): Promise<string> => {
+  if (lobby.chatId) {
+    return lobby.chatId;
+  }
+
+  const chatId = getLobbyChatId(lobby.roomCode);
+  const chatRef = doc(firestore, CHATS_COLLECTION, chatId);
+  const lobbyRef = doc(firestore, 'lobbies', lobby.roomCode);
+  const participants = await Promise.all(getLobbyChatMemberIds(lobby).map(getChatParticipant));
+
+  // Two players opening the chat at once must not overwrite each other
+  await runTransaction(firestore, async (tx) => {
+    const existing = await tx.get(chatRef);
+    if (!existing.exists()) {
+      tx.set(chatRef, {
+        type: 'lobby',
+        name: getLobbyChatName(lobby.roomCode),
+        lobbyRoomCode: lobby.roomCode,
+        participantIds: participants.map((p) => p.userId),
+        participantInfo: participants.reduce((acc, p) => ({ ...acc, [p.userId]: p }), {}),
+        lastMessage: null,
+        unreadCount: participants.reduce((acc, p) => ({ ...acc, [p.userId]: 0 }), {}),
+        deletedFor: [],
+        archived: false,
+        createdAt: serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+    }
+    tx.update(lobbyRef, { chatId });
   });
 
   return chatId;
@@ -273,8 +336,8 @@ export const subscribeToChats = (
       const chats: Chat[] = [];
       snapshot.forEach((docSnap) => {
         const chat = { id: docSnap.id, ...docSnap.data() } as Chat;
-        // Filter out chats that user has "deleted"
-        if (!chat.deletedFor.includes(userId)) {
+        // Filter out chats that user has "deleted" and finished games' chats
+        if (!chat.deletedFor.includes(userId) && !chat.archived) {
           chats.push(chat);
         }
       });
@@ -387,7 +450,7 @@ export const getTotalUnreadCount = async (userId: string): Promise<number> => {
 
   snapshot.forEach((docSnap) => {
     const chat = docSnap.data() as Chat;
-    if (!chat.deletedFor.includes(userId)) {
+    if (!chat.deletedFor.includes(userId) && !chat.archived) {
       total += chat.unreadCount[userId] || 0;
     }
   });
@@ -414,7 +477,7 @@ export const subscribeToUnreadCount = (
       let total = 0;
       snapshot.forEach((docSnap) => {
         const chat = docSnap.data() as Chat;
-        if (!chat.deletedFor.includes(userId)) {
+        if (!chat.deletedFor.includes(userId) && !chat.archived) {
           total += chat.unreadCount[userId] || 0;
         }
       });
@@ -0,0 +1,271 @@
+/**
+ * Club Service
+ * Firebase operations for clubs: creating them with their group chat,
+ * membership (open, by request or by invite) and roles
+ * The chat's members follow the club through the syncClubChat function, and
+ * club standings are written by settleMatch
+ */
+
+import {
+  arrayRemove,
+  arrayUnion,
+  collection,
+  deleteDoc,
+  doc,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { createGroupChat } from '@/services/chatService';
+import { uploadClubPhoto } from '@/lib/storage';
+import { MAX_CLUB_MEMBERS, canJoinDirectly } from '@/lib/club';
+import type { Club, ClubCourt, ClubJoinPolicy, ClubJoinRequest, ClubMember } from '@/types/club';
+
+const clubRef = (clubId: string) => doc(firestore, 'clubs', clubId);
+const joinRequestRef = (clubId: string, userId: string) =>
+  doc(firestore, 'clubs', clubId, 'joinRequests', userId);
+
+/**
+ * Adds a member to a club document inside a transaction
+ */
+const addMember = (club: Club, member: ClubMember) => {
+  if (club.memberIds.includes(member.uid)) {
+    return null;
+  }
+  if (club.memberIds.length >= MAX_CLUB_MEMBERS) {
+    throw new Error('Club is full');
+  }
+
+  return {
+    memberIds: [...club.memberIds, member.uid],
+    members: [...club.members, member],
+    invitedIds: club.invitedIds.filter((id) => id !== member.uid),
+  };
+};
+
+/**
+ * Creates a club with its owner as the only member, and its group chat
+ * @param owner - Player creating the club
+ * @param name - Club name
+ * @param description - Short description ('' for none)
+ * @param joinPolicy - How players get in
+ * @param homeCourts - Courts the club plays at
+ * @param photoUri - Local image to upload as the club photo
+ * @returns Club ID
+ */
+export const createClub = async (
+  owner: ClubMember,
+  name: string,
+  description: string,
+  joinPolicy: ClubJoinPolicy,
+  homeCourts: ClubCourt[],
+  photoUri?: string | null
+): Promise<string> => {
+  const ref = doc(collection(firestore, 'clubs'));
+  const photoURL = photoUri ? await uploadClubPhoto(ref.id, photoUri) : undefined;
+
+  const chatId = await createGroupChat(name.trim(), [
+    {
+      userId: owner.uid,
+      username: owner.username,
+      displayName: owner.displayName,
+      photoURL: owner.photoURL ?? null,
+    },
+  ], ref.id);
+
+  await setDoc(ref, {
+    name: name.trim(),
+    ...(description.trim() && { description: description.trim() }),
+    ...(photoURL && { photoURL }),
+    homeCourts,
+    joinPolicy,
+    ownerId: owner.uid,
+    adminIds: [],
+    memberIds: [owner.uid],
+    members: [owner],
+    invitedIds: [],
+    chatId,
+    createdAt: serverTimestamp(),
+  });
+
+  return ref.id;
+};
+
+/**
+ * Joins an open club, or a club the player has been invited to
+ * @param clubId - Club ID
+ * @param member - Player joining
+ */
+export const joinClub = async (clubId: string, member: ClubMember): Promise<void> => {
+  await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(clubRef(clubId));
+    if (!snap.exists()) {
+      throw new Error('Club not found');
+    }
+
+    const club = snap.data() as Club;
+    if (!canJoinDirectly(club, member.uid)) {
+      throw new Error(club.joinPolicy === 'invite' ? 'This club is invite only' : 'Ask to join this club');
+    }
+
+    const updates = addMember(club, member);
+    if (updates) {
+      tx.update(snap.ref, updates);
+    }
+  });
+};
+
+/**
+ * Asks the admins of a club to let a player join
+ * @param clubId - Club ID
+ * @param member - Player asking to join
+ */
+export const requestToJoinClub = async (clubId: string, member: ClubMember): Promise<void> => {
+  const requestRef = joinRequestRef(clubId, member.uid);
+
+  // Clear an earlier declined request first - writing over it would be an update,
+  // which only admins may make
+  await deleteDoc(requestRef);
+  await setDoc(requestRef, {
+    ...member,
+    status: 'pending',
+    createdAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Withdraws a player's request to join
+ * @param clubId - Club ID
+ * @param userId - Player who asked to join
+ */
+export const cancelClubJoinRequest = async (clubId: string, userId: string): Promise<void> => {
+  await deleteDoc(joinRequestRef(clubId, userId));
+};
+
+/**
+ * Approves a join request and adds the player in one transaction
+ * @param clubId - Club ID
+ * @param request - Request being approved
+ */
+export const approveClubJoinRequest = async (clubId: string, request: ClubJoinRequest): Promise<void> => {
+  await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(clubRef(clubId));
+    if (!snap.exists()) {
+      throw new Error('Club not found');
+    }
+
+    const member: ClubMember = {
+      uid: request.uid,
+      username: request.username,
+      displayName: request.displayName,
+      ...(request.photoURL && { photoURL: request.photoURL }),
+    };
+    const updates = addMember(snap.data() as Club, member);
+    if (updates) {
+      tx.update(snap.ref, updates);
+    }
+
+    tx.update(joinRequestRef(clubId, request.uid), {
+      status: 'approved',
+      respondedAt: serverTimestamp(),
+    });
+  });
+};
+
+/**
+ * Declines a join request
+ * @param clubId - Club ID
+ * @param userId - Player who asked to join
+ */
+export const declineClubJoinRequest = async (clubId: string, userId: string): Promise<void> => {
+  await updateDoc(joinRequestRef(clubId, userId), {
+    status: 'declined',
+    respondedAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Invites a player; they join from the club page or turn it down
+ * @param clubId - Club ID
+ * @param userId - Player to invite
+ */
+export const inviteToClub = async (clubId: string, userId: string): Promise<void> => {
+  await updateDoc(clubRef(clubId), {
+    invitedIds: arrayUnion(userId),
+  });
+};
+
+/**
+ * Turns down an invite (or withdraws one, for admins)
+ * @param clubId - Club ID
+ * @param userId - Invited player
+ */
+export const removeClubInvite = async (clubId: string, userId: string): Promise<void> => {
+  await updateDoc(clubRef(clubId), {
+    invitedIds: arrayRemove(userId),
+  });
+};
+
+/**
+ * Removes a member, who may be leaving or removed by an admin
+ * The owner cannot leave; they hand the club to another member first
+ * @param clubId - Club ID
+ * @param userId - Member to remove
+ */
+export const removeClubMember = async (clubId: string, userId: string): Promise<void> => {
+  await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(clubRef(clubId));
+    if (!snap.exists()) return;
+
+    const club = snap.data() as Club;
+    if (!club.memberIds.includes(userId)) return;
+    if (club.ownerId === userId) {
+      throw new Error('Make another member the owner before leaving');
+    }
+
+    tx.update(snap.ref, {
+      memberIds: club.memberIds.filter((id) => id !== userId),
+      members: club.members.filter((m) => m.uid !== userId),
+      adminIds: club.adminIds.filter((id) => id !== userId),
+    });
+  });
+};
+
+/**
+ * Makes a member an admin or back to a member (owner only)
+ * @param clubId - Club ID
+ * @param userId - Member
+ * @param isAdmin - Whether they should be an admin
+ */
+export const setClubAdmin = async (clubId: string, userId: string, isAdmin: boolean): Promise<void> => {
+  await updateDoc(clubRef(clubId), {
+    adminIds: isAdmin ? arrayUnion(userId) : arrayRemove(userId),
+  });
+};
+
+/**
+ * Hands the club to another member; the old owner stays on as an admin
+ * @param club - Club
+ * @param userId - New owner
+ */
+export const transferClubOwnership = async (club: Club, userId: string): Promise<void> => {
+  if (!club.memberIds.includes(userId)) {
+    throw new Error('Only members can own the club');
+  }
+
+  await updateDoc(clubRef(club.id), {
+    ownerId: userId,
+    adminIds: [...club.adminIds.filter((id) => id !== userId), club.ownerId],
+  });
+};
+
+/**
+ * Changes who can join (admins)
+ * @param clubId - Club ID
+ * @param joinPolicy - New policy
+ */
+export const updateClubJoinPolicy = async (clubId: string, joinPolicy: ClubJoinPolicy): Promise<void> => {
+  await updateDoc(clubRef(clubId), { joinPolicy });
+};
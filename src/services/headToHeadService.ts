@@ -0,0 +1,61 @@
+/**
+ * Head-to-Head Service
+ * Reads matches between players and with doubles partners
+ */
+
+import { collection, getDocs, query, where, orderBy, limit } from 'firebase/firestore';
+import type { QuerySnapshot } from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { getBestPartners, summarizeHeadToHead } from '@/lib/headToHead';
+import { getPairKey, toPlayerRecords } from '@/lib/matchRecords';
+import type { Match } from '@/types/game';
+import type { HeadToHeadStats, MatchHistoryRecord, PartnerStats } from '@/types/user';
+
+// Recent matches scanned when ranking partners
+const PARTNER_HISTORY_LIMIT = 200;
+
+const toRecords = (snapshot: QuerySnapshot, userId: string): MatchHistoryRecord[] => {
+  const matches = snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Match));
+  return toPlayerRecords(matches, userId);
+};
+
+/**
+ * Gets the record between two players
+ * Matches are found through the playerPairs index, which covers both sides
+ * of the net
+ * @param userId - Player whose side the stats are from
+ * @param otherUserId - Player they met
+ * @returns Wins and losses against each other, results as partners,
+ * average margin and the most recent meetings
+ */
+export const getHeadToHead = async (
+  userId: string,
+  otherUserId: string
+): Promise<HeadToHeadStats> => {
+  const snapshot = await getDocs(query(
+    collection(firestore, 'matches'),
+    where('playerPairs', 'array-contains', getPairKey(userId, otherUserId))
+  ));
+
+  const records = toRecords(snapshot, userId);
+  return summarizeHeadToHead(
+    records.filter((r) => r.partnerId !== otherUserId),
+    records.filter((r) => r.partnerId === otherUserId)
+  );
+};
+
+/**
+ * Gets a player's doubles partners ranked by win rate
+ * @param userId - Player
+ * @returns Partners with enough matches together, best first
+ */
+export const getPartnerStats = async (userId: string): Promise<PartnerStats[]> => {
+  const snapshot = await getDocs(query(
+    collection(firestore, 'matches'),
+    where('playerIds', 'array-contains', userId),
+    orderBy('createdAt', 'desc'),
+    limit(PARTNER_HISTORY_LIMIT)
+  ));
+
+  return getBestPartners(toRecords(snapshot, userId));
+};
@@ -0,0 +1,302 @@
+/**
+ * Ladder Service
+ * Firebase operations for challenge ladders: membership, challenges and
+ * seasons, with challenges played as lobbies
+ * Results are written by the settleMatch function when a challenge's lobby
+ * settles, and unplayed challenges are expired by expireLadderChallenges
+ */
+
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { createLobby } from '@/services/lobbyService';
+import { DEFAULT_GAME_FORMAT } from '@/lib/scoreValidation';
+import { getSeedRating } from '@/lib/tournament';
+import {
+  MAX_LADDER_MEMBERS,
+  getChallengeError,
+  getChallengeExpiry,
+  getNextSeasonRungs,
+  isChallengeOpen,
+} from '@/lib/ladder';
+import type { GameFormat } from '@/types/game';
+import type { Player } from '@/types/lobby';
+import type {
+  Ladder,
+  LadderChallenge,
+  LadderMember,
+  LadderSeasonMode,
+} from '@/types/ladder';
+import type { UserRankings } from '@/types/user';
+
+const ladderRef = (ladderId: string) => doc(firestore, 'ladders', ladderId);
+const challengesRef = (ladderId: string) => collection(firestore, 'ladders', ladderId, 'challenges');
+
+/**
+ * Reads a ladder's open challenges
+ */
+const getOpenChallenges = async (ladderId: string): Promise<LadderChallenge[]> => {
+  const snapshot = await getDocs(
+    query(challengesRef(ladderId), where('status', 'in', ['pending', 'accepted']))
+  );
+  return snapshot.docs
+    .map((snap) => ({ ...snap.data(), id: snap.id } as LadderChallenge))
+    .filter((challenge) => isChallengeOpen(challenge, Date.now()));
+};
+
+/**
+ * Creates a ladder with no members yet
+ * @param hostId - Organizer's user ID (they join separately to play)
+ * @param name - Ladder name
+ * @param challengeRange - Rungs above themselves a member may challenge
+ * @param challengeExpiryDays - Days a challenge has to be played
+ * @param seasonMode - How the rungs change when a season ends
+ * @param gameFormat - Points to win, win-by and best-of-N for every challenge
+ * @returns Ladder ID
+ */
+export const createLadder = async (
+  hostId: string,
+  name: string,
+  challengeRange: number,
+  challengeExpiryDays: number,
+  seasonMode: LadderSeasonMode,
+  gameFormat: GameFormat = DEFAULT_GAME_FORMAT
+): Promise<string> => {
+  const ref = doc(collection(firestore, 'ladders'));
+
+  await setDoc(ref, {
+    name: name.trim(),
+    hostId,
+    gameFormat,
+    challengeRange,
+    challengeExpiryDays,
+    seasonMode,
+    season: 1,
+    members: [],
+    rungs: [],
+    activeIds: [],
+    createdAt: serverTimestamp(),
+    seasonStartedAt: serverTimestamp(),
+  });
+
+  return ref.id;
+};
+
+/**
+ * Adds a member on the bottom rung
+ * @param ladderId - Ladder ID
+ * @param member - Player joining
+ */
+export const joinLadder = async (ladderId: string, member: LadderMember): Promise<void> => {
+  await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(ladderRef(ladderId));
+    if (!snap.exists()) {
+      throw new Error('Ladder not found');
+    }
+
+    const ladder = snap.data() as Ladder;
+    if (ladder.rungs.includes(member.uid)) {
+      return;
+    }
+    if (ladder.rungs.length >= MAX_LADDER_MEMBERS) {
+      throw new Error('Ladder is full');
+    }
+
+    tx.update(snap.ref, {
+      members: [...ladder.members, member],
+      rungs: [...ladder.rungs, member.uid],
+    });
+  });
+};
+
+/**
+ * Removes a member; everyone below them moves up a rung
+ * @param ladderId - Ladder ID
+ * @param userId - Member leaving
+ */
+export const leaveLadder = async (ladderId: string, userId: string): Promise<void> => {
+  await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(ladderRef(ladderId));
+    if (!snap.exists()) return;
+
+    const ladder = snap.data() as Ladder;
+    if (!ladder.rungs.includes(userId)) return;
+
+    tx.update(snap.ref, {
+      members: ladder.members.filter((m) => m.uid !== userId),
+      rungs: ladder.rungs.filter((uid) => uid !== userId),
+    });
+  });
+};
+
+/**
+ * Challenges a member on a higher rung
+ * @param ladder - Ladder both players are on
+ * @param challengerId - Member making the challenge
+ * @param defenderId - Member being challenged
+ * @returns Challenge ID
+ */
+export const createChallenge = async (
+  ladder: Ladder,
+  challengerId: string,
+  defenderId: string
+): Promise<string> => {
+  const openChallenges = await getOpenChallenges(ladder.id);
+  const challengeError = getChallengeError(ladder, challengerId, defenderId, openChallenges);
+  if (challengeError) {
+    throw new Error(challengeError);
+  }
+
+  const ref = await addDoc(challengesRef(ladder.id), {
+    challengerId,
+    defenderId,
+    playerIds: [challengerId, defenderId],
+    season: ladder.season,
+    status: 'pending',
+    createdAt: serverTimestamp(),
+    expiresAt: Timestamp.fromMillis(getChallengeExpiry(Date.now(), ladder.challengeExpiryDays)),
+  });
+
+  return ref.id;
+};
+
+/**
+ * Accepts a challenge and starts it as a lobby hosted by the defender
+ * The challenger is seated on team 1 and the defender on team 2.
+ * @param ladder - Ladder the challenge is on
+ * @param challenge - Pending challenge
+ * @param defender - Defender accepting it
+ * @returns Room code of the challenge's lobby
+ */
+export const acceptChallenge = async (
+  ladder: Ladder,
+  challenge: LadderChallenge,
+  defender: Player
+): Promise<string> => {
+  if (!isChallengeOpen(challenge, Date.now()) || challenge.status !== 'pending') {
+    throw new Error('This challenge is no longer open');
+  }
+
+  const challenger = ladder.members.find((m) => m.uid === challenge.challengerId);
+  const roomCode = await createLobby(
+    defender.uid,
+    'singles',
+    defender,
+    ladder.gameFormat,
+    null,
+    false,
+    {
+      team1: {
+        player1: {
+          uid: challenge.challengerId,
+          displayName: challenger?.displayName || 'Player',
+          ...(challenger?.photoURL && { photoURL: challenger.photoURL }),
+        },
+      },
+      team2: { player1: defender },
+      ladderId: ladder.id,
+      ladderChallengeId: challenge.id,
+    }
+  );
+
+  try {
+    await runTransaction(firestore, async (tx) => {
+      const ref = doc(challengesRef(ladder.id), challenge.id);
+      const snap = await tx.get(ref);
+      if (snap.get('status') !== 'pending') {
+        throw new Error('This challenge is no longer open');
+      }
+
+      tx.update(ref, { status: 'accepted', roomCode, respondedAt: serverTimestamp() });
+    });
+  } catch (error) {
+    await deleteDoc(doc(firestore, 'lobbies', roomCode));
+    throw error;
+  }
+
+  return roomCode;
+};
+
+/**
+ * Declines a pending challenge (defender only)
+ * @param ladderId - Ladder ID
+ * @param challengeId - Challenge ID
+ */
+export const declineChallenge = async (ladderId: string, challengeId: string): Promise<void> => {
+  await updateDoc(doc(challengesRef(ladderId), challengeId), {
+    status: 'declined',
+    respondedAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Withdraws a pending challenge (challenger only)
+ * @param ladderId - Ladder ID
+ * @param challengeId - Challenge ID
+ */
+export const cancelChallenge = async (ladderId: string, challengeId: string): Promise<void> => {
+  await updateDoc(doc(challengesRef(ladderId), challengeId), {
+    status: 'cancelled',
+    respondedAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Archives the season's final standings and starts the next season
+ * Open challenges are cancelled. Reset re-seeds by current singles rating;
+ * decay drops members who played no ladder match below those who did.
+ * @param ladder - Ladder whose season is ending
+ * @returns Number of the new season
+ */
+export const endLadderSeason = async (ladder: Ladder): Promise<number> => {
+  const [openChallenges, userSnaps] = await Promise.all([
+    getDocs(query(challengesRef(ladder.id), where('status', 'in', ['pending', 'accepted']))),
+    ladder.seasonMode === 'reset'
+      ? Promise.all(ladder.rungs.map((uid) => getDoc(doc(firestore, 'users', uid))))
+      : Promise.resolve([]),
+  ]);
+
+  const ratings = Object.fromEntries(
+    userSnaps.map((snap) => [
+      snap.id,
+      getSeedRating(snap.get('rankings') as Partial<UserRankings> | undefined, 'singles'),
+    ])
+  );
+  const standings = ladder.rungs
+    .map((uid) => ladder.members.find((m) => m.uid === uid))
+    .filter((member): member is LadderMember => !!member);
+
+  const batch = writeBatch(firestore);
+  batch.set(doc(firestore, 'ladders', ladder.id, 'seasons', String(ladder.season)), {
+    season: ladder.season,
+    standings,
+    startedAt: ladder.seasonStartedAt,
+    endedAt: serverTimestamp(),
+  });
+  openChallenges.docs.forEach((snap) => {
+    batch.update(snap.ref, { status: 'cancelled', respondedAt: serverTimestamp() });
+  });
+  batch.update(ladderRef(ladder.id), {
+    season: ladder.season + 1,
+    rungs: getNextSeasonRungs(ladder, ratings),
+    activeIds: [],
+    seasonStartedAt: serverTimestamp(),
+  });
+  await batch.commit();
+
+  return ladder.season + 1;
+};
@@ -3,6 +3,7 @@
  * Firebase operations for lobby management
  */
 
+import { FirebaseError } from 'firebase/app';
 import {
   doc,
   setDoc,
@@ -10,142 +11,340 @@ import {
   deleteDoc,
   serverTimestamp,
   arrayUnion,
-  arrayRemove,
   getDoc,
+  deleteField,
+  runTransaction,
 } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
 import { generateRoomCode } from '@/lib/roomCode';
-import { getTeamAssignment } from '@/lib/validation';
-import type { Lobby, Player, GameMode } from '@/types/lobby';
+import { findPlayerSlot, getLobbyPlayerIds, getOpenSlot, getSlotPlayer } from '@/lib/validation';
+import {
+  DEFAULT_GAME_FORMAT,
+  getGameFormat,
+  getMatchResult,
+  getMatchScore,
+} from '@/lib/scoreValidation';
+import { getGameCategory } from '@/lib/points';
+import { getRematchTeams } from '@/lib/rematch';
+import { getNextRotation } from '@/lib/rotation';
+import type { GameFormat } from '@/types/game';
+import type {
+  Lobby,
+  Player,
+  GameMode,
+  GameCategory,
+  GameScore,
+  JoinRequest,
+  LobbyPrefill,
+  LobbySlot,
+  Rally,
+  RematchArrangement,
+  RotationRule,
+  ScoringSystem,
+  SlotChangeResult,
+  Team,
+} from '@/types/lobby';
+import type { UserDocument } from '@/types/user';
+
+// Fresh codes rarely collide; give up after a few tries rather than loop forever
+const MAX_ROOM_CODE_ATTEMPTS = 5;
+
+// Slot change computed from a fresh read of the lobby inside a transaction
+interface SlotChange {
+  result: Omit<SlotChangeResult, 'retried'>;
+  updates?: Record<string, unknown>;  // Omitted when nothing should be written
+}
+
+/**
+ * Applies a slot change to a lobby in a transaction
+ * Firestore re-runs the transaction when another client writes the lobby
+ * between the read and the commit, so the change is always decided against
+ * the current slots. A re-run means someone else got there first and is
+ * reported as retried so the UI can say so.
+ * @param roomCode - Room code
+ * @param change - Works out the result and updates from the current lobby
+ * @returns Result of the change
+ */
+const runSlotChange = async (
+  roomCode: string,
+  change: (lobby: Lobby) => SlotChange
+): Promise<SlotChangeResult> => {
+  const lobbyRef = doc(firestore, 'lobbies', roomCode);
+  let attempts = 0;
+
+  try {
+    const result = await runTransaction(firestore, async (tx) => {
+      attempts++;
+      const lobbySnap = await tx.get(lobbyRef);
+      if (!lobbySnap.exists()) {
+        return { ok: false, error: 'not_found' } as const;
+      }
+
+      const { result: changeResult, updates } = change(lobbySnap.data() as Lobby);
+      if (updates) {
+        tx.update(lobbyRef, { ...updates, lastActivity: serverTimestamp() });
+      }
+      return changeResult;
+    });
+
+    return { ...result, retried: attempts > 1 };
+  } catch (error) {
+    // Firestore gives up after repeated contention
+    if (error instanceof FirebaseError && (error.code === 'aborted' || error.code === 'failed-precondition')) {
+      return { ok: false, error: 'conflict', retried: true };
+    }
+    throw error;
+  }
+};
+
+/**
+ * Gets the Firestore field path of a lobby slot
+ */
+const getSlotField = ({ team, slot }: LobbySlot): string => `team${team}.player${slot}`;
+
+/**
+ * Seats a player in the first open slot, or queues them when allowed
+ * @param player - Player joining
+ * @param allowQueue - Whether a full (or started) rotation lobby queues the player
+ */
+const getJoinChange = (player: Player, allowQueue: boolean) => (lobby: Lobby): SlotChange => {
+  if (findPlayerSlot(lobby, player.uid) || lobby.waitingPlayers?.some((p) => p.uid === player.uid)) {
+    return { result: { ok: false, error: 'already_seated' } };
+  }
+
+  // Rotation games in progress queue newcomers for the next game
+  const queueOnly = !!lobby.rotationRule && lobby.gameStarted;
+  if (lobby.gameStarted && !queueOnly) {
+    return { result: { ok: false, error: 'game_started' } };
+  }
+
+  const openSlot = queueOnly ? null : getOpenSlot(lobby);
+  if (openSlot) {
+    return {
+      result: { ok: true, slot: openSlot },
+      updates: { [getSlotField(openSlot)]: player },
+    };
+  }
+
+  // Only rotation lobbies have a queue that is ever seated
+  if (!allowQueue || !lobby.rotationRule) {
+    return { result: { ok: false, error: 'full' } };
+  }
+
+  return {
+    result: { ok: true, queued: true },
+    updates: { waitingPlayers: [...(lobby.waitingPlayers ?? []), player] },
+  };
+};
+
+/**
+ * Builds the updates that take a player out of every slot and the queue
+ * @param lobby - Current lobby
+ * @param userId - Player to remove
+ * @returns Field updates, or undefined if the player is not in the lobby
+ */
+const getRemovalUpdates = (lobby: Lobby, userId: string): Record<string, unknown> | undefined => {
+  const updates: Record<string, unknown> = {};
+
+  const slot = findPlayerSlot(lobby, userId);
+  if (slot) {
+    updates[getSlotField(slot)] = null;
+  }
+
+  if (lobby.waitingPlayers?.some((p) => p.uid === userId)) {
+    updates.waitingPlayers = lobby.waitingPlayers.filter((p) => p.uid !== userId);
+  }
+
+  return Object.keys(updates).length > 0 ? updates : undefined;
+};
+
+/**
+ * Writes a new lobby under a freshly generated room code
+ * The code is reserved in a transaction only if no lobby already uses it,
+ * otherwise another code is tried, so a live lobby is never overwritten
+ * @param buildLobby - Builds the lobby document for a room code
+ * @returns Room code the lobby was created under
+ */
+const createLobbyWithUniqueCode = async (
+  buildLobby: (roomCode: string) => Lobby
+): Promise<string> => {
+  for (let attempt = 0; attempt < MAX_ROOM_CODE_ATTEMPTS; attempt++) {
+    const roomCode = generateRoomCode();
+    const lobbyRef = doc(firestore, 'lobbies', roomCode);
+
+    const reserved = await runTransaction(firestore, async (tx) => {
+      const existing = await tx.get(lobbyRef);
+      if (existing.exists()) {
+        return false;
+      }
+
+      tx.set(lobbyRef, buildLobby(roomCode));
+      return true;
+    });
+
+    if (reserved) {
+      return roomCode;
+    }
+  }
+
+  throw new Error('Could not find a free room code. Please try again.');
+};
 
 /**
  * Creates a new lobby
  * @param hostId - User ID of the host
  * @param gameMode - Singles or doubles
  * @param hostData - Host player data
+ * @param gameFormat - Points to win, win-by and best-of-N
+ * @param rotationRule - Open-play rotation rule, or null for a one-off game
+ * @param isPrivate - Whether players must ask the host to join
+ * @param prefill - Teams to seat instead of just the host (tournaments, ladders)
  * @returns Room code of created lobby
  */
 export const createLobby = async (
   hostId: string,
   gameMode: GameMode,
-  hostData: Player
+  hostData: Player,
+  gameFormat: GameFormat = DEFAULT_GAME_FORMAT,
+  rotationRule: RotationRule | null = null,
+  isPrivate = false,
+  prefill: LobbyPrefill | null = null
 ): Promise<string> => {
-  const roomCode = generateRoomCode();
-
-  const lobbyData: Lobby = {
+  return createLobbyWithUniqueCode((roomCode): Lobby => ({
     roomCode,
     hostId,
     gameMode,
-    team1: {
+    gameFormat,
+    ...(rotationRule && { rotationRule, rotationGameNumber: 1 }),
+    ...(isPrivate && { isPrivate }),
+    ...(prefill?.tournamentId && prefill.tournamentMatchId && {
+      tournamentId: prefill.tournamentId,
+      tournamentMatchId: prefill.tournamentMatchId,
+    }),
+    ...(prefill?.ladderId && prefill.ladderChallengeId && {
+      ladderId: prefill.ladderId,
+      ladderChallengeId: prefill.ladderChallengeId,
+    }),
+    team1: prefill?.team1 ?? {
       player1: hostData,
     },
-    team2: {},
+    team2: prefill?.team2 ?? {},
     waitingPlayers: [],
     gameStarted: false,
+    gameCompleted: false,  // Explicit so the expiry sweeper can query open lobbies
     createdAt: serverTimestamp() as any,
     lastActivity: serverTimestamp() as any,
-  };
-
-  await setDoc(doc(firestore, 'lobbies', roomCode), lobbyData);
-
-  return roomCode;
+  }));
 };
 
 /**
  * Joins an existing lobby
+ * Seats the player in the first open slot, or adds them to the waiting list
+ * when the lobby is full or a rotation game is in progress
  * @param roomCode - Room code to join
  * @param playerData - Player data
- * @returns Updated lobby or null if join failed
+ * @returns Where the player ended up, or why they could not join
  */
 export const joinLobby = async (
   roomCode: string,
   playerData: Player
-): Promise<Lobby | null> => {
-  const lobbyRef = doc(firestore, 'lobbies', roomCode);
-  const lobbySnap = await getDoc(lobbyRef);
+): Promise<SlotChangeResult> => {
+  return runSlotChange(roomCode, getJoinChange(playerData, true));
+};
 
-  if (!lobbySnap.exists()) {
-    throw new Error('Lobby not found');
-  }
+/**
+ * Seats a player in the first open slot without falling back to the queue
+ * Used when a player is added straight onto the court (auto-join, NFC)
+ * @param roomCode - Room code
+ * @param playerData - Player to seat
+ * @returns Slot the player got, or why there was none
+ */
+export const claimOpenSlot = async (
+  roomCode: string,
+  playerData: Player
+): Promise<SlotChangeResult> => {
+  return runSlotChange(roomCode, getJoinChange(playerData, false));
+};
 
-  const lobby = lobbySnap.data() as Lobby;
-  const teamAssignment = getTeamAssignment(lobby);
+/**
+ * Leaves a lobby
+ * @param roomCode - Room code to leave
+ * @param userId - User ID leaving
+ * @returns Result of the change; leaving a lobby you are not in is a no-op
+ */
+export const leaveLobby = async (roomCode: string, userId: string): Promise<SlotChangeResult> => {
+  return runSlotChange(roomCode, (lobby) => ({
+    result: { ok: true },
+    updates: getRemovalUpdates(lobby, userId),
+  }));
+};
 
-  if (teamAssignment === 'team1') {
-    const updateData: any = {
-      lastActivity: serverTimestamp(),
-    };
+/**
+ * Replaces both teams of a lobby, e.g. with a balanced pairing
+ * Only applies if the same players are still seated, so a pairing worked out
+ * before someone left or joined is not written over the change
+ * @param roomCode - Room code
+ * @param team1 - New team 1
+ * @param team2 - New team 2
+ * @returns Result of the change
+ */
+export const setLobbyTeams = async (
+  roomCode: string,
+  team1: Team,
+  team2: Team
+): Promise<SlotChangeResult> => {
+  const newPlayerIds = getLobbyPlayerIds({ team1, team2 } as Lobby).sort();
 
-    if (!lobby.team1.player1) {
-      updateData['team1.player1'] = playerData;
-    } else {
-      updateData['team1.player2'] = playerData;
+  return runSlotChange(roomCode, (lobby) => {
+    if (lobby.gameStarted) {
+      return { result: { ok: false, error: 'game_started' } };
     }
 
-    await updateDoc(lobbyRef, updateData);
-  } else if (teamAssignment === 'team2') {
-    const updateData: any = {
-      lastActivity: serverTimestamp(),
-    };
-
-    if (!lobby.team2.player1) {
-      updateData['team2.player1'] = playerData;
-    } else {
-      updateData['team2.player2'] = playerData;
+    const currentPlayerIds = getLobbyPlayerIds(lobby).sort();
+    if (currentPlayerIds.join() !== newPlayerIds.join()) {
+      return { result: { ok: false, error: 'slot_changed' } };
     }
 
-    await updateDoc(lobbyRef, updateData);
-  } else {
-    // Add to waiting list
-    await updateDoc(lobbyRef, {
-      waitingPlayers: arrayUnion(playerData),
-      lastActivity: serverTimestamp(),
-    });
-  }
-
-  const updatedSnap = await getDoc(lobbyRef);
-  return updatedSnap.data() as Lobby;
+    return { result: { ok: true }, updates: { team1, team2 } };
+  });
 };
 
 /**
- * Leaves a lobby
- * @param roomCode - Room code to leave
- * @param userId - User ID leaving
+ * Swaps the players in two slots, or moves a player into an empty slot
+ * Only applies if both slots still hold who the caller saw there
+ * @param roomCode - Room code
+ * @param from - Slot the dragged player is in
+ * @param to - Slot they were dropped on
+ * @param expectedFromUid - Player the caller saw in `from`
+ * @param expectedToUid - Player the caller saw in `to`, or null if it looked empty
+ * @returns Result of the change
  */
-export const leaveLobby = async (roomCode: string, userId: string): Promise<void> => {
-  const lobbyRef = doc(firestore, 'lobbies', roomCode);
-  const lobbySnap = await getDoc(lobbyRef);
-
-  if (!lobbySnap.exists()) {
-    return;
-  }
-
-  const lobby = lobbySnap.data() as Lobby;
-  const updates: any = { lastActivity: serverTimestamp() };
-
-  // Remove from teams
-  if (lobby.team1.player1?.uid === userId) {
-    updates['team1.player1'] = null;
-  }
-  if (lobby.team1.player2?.uid === userId) {
-    updates['team1.player2'] = null;
-  }
-  if (lobby.team2.player1?.uid === userId) {
-    updates['team2.player1'] = null;
-  }
-  if (lobby.team2.player2?.uid === userId) {
-    updates['team2.player2'] = null;
-  }
+export const movePlayer = async (
+  roomCode: string,
+  from: LobbySlot,
+  to: LobbySlot,
+  expectedFromUid: string,
+  expectedToUid: string | null
+): Promise<SlotChangeResult> => {
+  return runSlotChange(roomCode, (lobby) => {
+    if (lobby.gameStarted) {
+      return { result: { ok: false, error: 'game_started' } };
+    }
 
-  // Remove from waiting list
-  if (lobby.waitingPlayers) {
-    const playerInWaiting = lobby.waitingPlayers.find((p) => p.uid === userId);
-    if (playerInWaiting) {
-      updates.waitingPlayers = arrayRemove(playerInWaiting);
+    const fromPlayer = getSlotPlayer(lobby, from);
+    const toPlayer = getSlotPlayer(lobby, to);
+    if (fromPlayer?.uid !== expectedFromUid || (toPlayer?.uid ?? null) !== expectedToUid) {
+      return { result: { ok: false, error: 'slot_changed' } };
     }
-  }
 
-  await updateDoc(lobbyRef, updates);
+    return {
+      result: { ok: true, slot: to },
+      updates: {
+        [getSlotField(to)]: fromPlayer,
+        [getSlotField(from)]: toPlayer ?? null,
+      },
+    };
+  });
 };
 
 /**
@@ -156,14 +355,40 @@ export const deleteLobby = async (roomCode: string): Promise<void> => {
   await deleteDoc(doc(firestore, 'lobbies', roomCode));
 };
 
+/**
+ * Determines the game category from the genders of the seated players
+ * @param lobby - Lobby with all players seated
+ * @returns singles, same_gender_doubles or mixed_doubles
+ */
+export const determineLobbyGameCategory = async (lobby: Lobby): Promise<GameCategory> => {
+  if (lobby.gameMode === 'singles') {
+    return 'singles';
+  }
+
+  const userSnaps = await Promise.all(
+    getLobbyPlayerIds(lobby).map((uid) => getDoc(doc(firestore, 'users', uid)))
+  );
+  const genders = userSnaps.map((snap) => (snap.data() as UserDocument | undefined)?.gender);
+
+  return getGameCategory(lobby.gameMode, genders);
+};
+
 /**
  * Starts a game in a lobby
  * @param roomCode - Room code to start game in
  */
 export const startGame = async (roomCode: string): Promise<void> => {
-  await updateDoc(doc(firestore, 'lobbies', roomCode), {
+  const lobbyRef = doc(firestore, 'lobbies', roomCode);
+  const lobbySnap = await getDoc(lobbyRef);
+
+  if (!lobbySnap.exists()) {
+    throw new Error('Lobby not found');
+  }
+
+  await updateDoc(lobbyRef, {
     gameStarted: true,
     gameStartedAt: serverTimestamp(),
+    gameCategory: await determineLobbyGameCategory(lobbySnap.data() as Lobby),
     lastActivity: serverTimestamp(),
   });
 };
@@ -185,6 +410,72 @@ export const endGame = async (
   });
 };
 
+/**
+ * Submits a final score and opens the confirmation phase
+ * Resets any previous confirmations or dispute (used to resolve disputes too)
+ * @param roomCode - Room code
+ * @param submittedBy - User ID of host submitting the score
+ * @param games - Proposed per-game scores (one entry for a single game)
+ * @param format - Lobby's game format
+ */
+export const submitScore = async (
+  roomCode: string,
+  submittedBy: string,
+  games: GameScore[],
+  format: GameFormat = DEFAULT_GAME_FORMAT
+): Promise<void> => {
+  const validation = getMatchResult(games, format);
+  if (!validation.valid) {
+    throw new Error(validation.error || 'Invalid score');
+  }
+
+  await updateDoc(doc(firestore, 'lobbies', roomCode), {
+    scoreStatus: 'pending',
+    proposedScores: getMatchScore(games, format),
+    proposedGames: games,
+    scoreSubmittedBy: submittedBy,
+    scoreSubmittedAt: serverTimestamp(),
+    scoreConfirmations: { [submittedBy]: true },
+    scoreDispute: deleteField(),
+    lastActivity: serverTimestamp(),
+  });
+};
+
+/**
+ * Disputes a submitted score with a counter-score
+ * Freezes the match until the host resubmits or cancels
+ * @param roomCode - Room code
+ * @param playerId - Player ID disputing
+ * @param counterGames - Per-game scores the player believes are correct
+ * @param format - Lobby's game format
+ */
+export const disputeScore = async (
+  roomCode: string,
+  playerId: string,
+  counterGames: GameScore[],
+  format: GameFormat = DEFAULT_GAME_FORMAT
+): Promise<void> => {
+  const validation = getMatchResult(counterGames, format);
+  if (!validation.valid) {
+    throw new Error(validation.error || 'Invalid score');
+  }
+
+  const counterScores = getMatchScore(counterGames, format);
+
+  await updateDoc(doc(firestore, 'lobbies', roomCode), {
+    scoreStatus: 'disputed',
+    scoreDispute: {
+      disputedBy: playerId,
+      team1: counterScores.team1,
+      team2: counterScores.team2,
+      games: counterGames,
+      disputedAt: serverTimestamp(),
+    },
+    [`scoreConfirmations.${playerId}`]: false,
+    lastActivity: serverTimestamp(),
+  });
+};
+
 /**
  * Updates score confirmation for a player
  * @param roomCode - Room code
@@ -225,52 +516,294 @@ export const cancelMatch = async (
 };
 
 /**
- * Creates a rematch lobby with same players and settings
- * @param previousLobby - The completed lobby to rematch
- * @returns New room code
+ * Starts live point-by-point scoring for a game in progress
+ * @param roomCode - Room code
+ * @param startedBy - User ID of the scorer
+ * @param system - Side-out or rally scoring
+ */
+export const startLiveScoring = async (
+  roomCode: string,
+  startedBy: string,
+  system: ScoringSystem
+): Promise<void> => {
+  await updateDoc(doc(firestore, 'lobbies', roomCode), {
+    liveScoring: {
+      system,
+      rallies: [],
+      startedBy,
+    },
+    lastActivity: serverTimestamp(),
+  });
+};
+
+/**
+ * Appends a rally to the live scoring log
+ * @param roomCode - Room code
+ * @param winner - Team that won the rally
+ * @param recordedBy - User ID of the scorer
+ */
+export const recordRally = async (
+  roomCode: string,
+  winner: 1 | 2,
+  recordedBy: string
+): Promise<void> => {
+  const rally: Rally = {
+    winner,
+    recordedBy,
+    recordedAt: Date.now(),
+  };
+
+  await updateDoc(doc(firestore, 'lobbies', roomCode), {
+    'liveScoring.rallies': arrayUnion(rally),
+    lastActivity: serverTimestamp(),
+  });
+};
+
+/**
+ * Removes the most recent rally from the live scoring log
+ * Runs in a transaction so two scorers undoing at once only remove one rally each
+ * @param roomCode - Room code
  */
+export const undoLastRally = async (roomCode: string): Promise<void> => {
+  const lobbyRef = doc(firestore, 'lobbies', roomCode);
+
+  await runTransaction(firestore, async (tx) => {
+    const lobbySnap = await tx.get(lobbyRef);
+    const rallies = (lobbySnap.data() as Lobby | undefined)?.liveScoring?.rallies;
+
+    if (!rallies || rallies.length === 0) {
+      return;
+    }
+
+    tx.update(lobbyRef, {
+      'liveScoring.rallies': rallies.slice(0, -1),
+      lastActivity: serverTimestamp(),
+    });
+  });
+};
+
 /**
- * Remove a player from a lobby slot
+ * Removes the player from a lobby slot
+ * Only applies if the slot still holds the player the caller saw there
+ * @param roomCode - Room code
+ * @param team - Team of the slot
+ * @param slot - Slot on the team
+ * @param expectedUid - Player the caller saw in the slot
+ * @returns Result of the change
  */
 export const removePlayerFromLobby = async (
   roomCode: string,
   team: 1 | 2,
-  slot: 1 | 2
-): Promise<void> => {
+  slot: 1 | 2,
+  expectedUid: string
+): Promise<SlotChangeResult> => {
+  return runSlotChange(roomCode, (lobby) => {
+    if (getSlotPlayer(lobby, { team, slot })?.uid !== expectedUid) {
+      return { result: { ok: false, error: 'slot_changed' } };
+    }
+
+    return {
+      result: { ok: true },
+      updates: { [getSlotField({ team, slot })]: null },
+    };
+  });
+};
+
+/**
+ * Asks the host of a private lobby to let a player join
+ * @param roomCode - Room code
+ * @param playerData - Player asking to join
+ */
+export const requestToJoinLobby = async (roomCode: string, playerData: Player): Promise<void> => {
+  const requestRef = doc(firestore, 'lobbies', roomCode, 'joinRequests', playerData.uid);
+
+  // Clear an earlier declined request first - writing over it would be an update,
+  // which only the host may make
+  await deleteDoc(requestRef);
+  await setDoc(requestRef, {
+    ...playerData,
+    status: 'pending',
+    createdAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Withdraws a player's request to join
+ * @param roomCode - Room code
+ * @param userId - Player who asked to join
+ */
+export const cancelJoinRequest = async (roomCode: string, userId: string): Promise<void> => {
+  await deleteDoc(doc(firestore, 'lobbies', roomCode, 'joinRequests', userId));
+};
+
+/**
+ * Approves a join request and seats the player in the first open slot
+ * (or the queue of a rotation lobby) in one transaction
+ * @param roomCode - Room code
+ * @param request - Request being approved
+ */
+export const approveJoinRequest = async (roomCode: string, request: JoinRequest): Promise<void> => {
   const lobbyRef = doc(firestore, 'lobbies', roomCode);
-  
-  await updateDoc(lobbyRef, {
-    [`team${team}.player${slot}`]: {},
-    lastActivity: new Date(),
+  const requestRef = doc(firestore, 'lobbies', roomCode, 'joinRequests', request.uid);
+
+  await runTransaction(firestore, async (tx) => {
+    const lobbySnap = await tx.get(lobbyRef);
+    if (!lobbySnap.exists()) {
+      throw new Error('Lobby not found');
+    }
+
+    const lobby = lobbySnap.data() as Lobby;
+    if (lobby.bannedPlayerIds?.includes(request.uid)) {
+      throw new Error('Player has been removed from this lobby');
+    }
+
+    const player: Player = {
+      uid: request.uid,
+      displayName: request.displayName,
+      ...(request.photoURL && { photoURL: request.photoURL }),
+    };
+    const openSlot = lobby.gameStarted ? null : getOpenSlot(lobby);
+
+    if (openSlot) {
+      tx.update(lobbyRef, {
+        [`team${openSlot.team}.player${openSlot.slot}`]: player,
+        lastActivity: serverTimestamp(),
+      });
+    } else if (lobby.rotationRule) {
+      tx.update(lobbyRef, {
+        waitingPlayers: arrayUnion(player),
+        lastActivity: serverTimestamp(),
+      });
+    } else {
+      throw new Error('Lobby is full');
+    }
+
+    tx.update(requestRef, {
+      status: 'approved',
+      respondedAt: serverTimestamp(),
+    });
+  });
+};
+
+/**
+ * Declines a join request
+ * @param roomCode - Room code
+ * @param userId - Player who asked to join
+ */
+export const rejectJoinRequest = async (roomCode: string, userId: string): Promise<void> => {
+  await updateDoc(doc(firestore, 'lobbies', roomCode, 'joinRequests', userId), {
+    status: 'rejected',
+    respondedAt: serverTimestamp(),
+  });
+};
+
+/**
+ * Removes a player from their slot or the queue, optionally blocking them
+ * from rejoining or asking to join this lobby
+ * @param roomCode - Room code
+ * @param userId - Player to remove
+ * @param ban - Whether to block the player from coming back
+ * @returns Result of the change
+ */
+export const kickPlayer = async (
+  roomCode: string,
+  userId: string,
+  ban: boolean
+): Promise<SlotChangeResult> => {
+  return runSlotChange(roomCode, (lobby) => {
+    const updates = getRemovalUpdates(lobby, userId) ?? {};
+
+    if (ban && !lobby.bannedPlayerIds?.includes(userId)) {
+      updates.bannedPlayerIds = [...(lobby.bannedPlayerIds ?? []), userId];
+    }
+
+    return {
+      result: { ok: true },
+      updates: Object.keys(updates).length > 0 ? updates : undefined,
+    };
   });
 };
 
-export const createRematch = async (previousLobby: Lobby): Promise<string> => {
-  const newRoomCode = generateRoomCode();
+/**
+ * Creates a rematch lobby with the same players and settings
+ * Reseats the players by the host's chosen arrangement, carries the waiting
+ * list over and links the completed lobby to the rematch so its players can
+ * follow. A lobby that already has a rematch returns that room code.
+ * @param previousLobby - The completed lobby to rematch
+ * @param arrangement - How to reseat the players (default: same sides)
+ * @returns New room code
+ */
+export const createRematch = async (
+  previousLobby: Lobby,
+  arrangement: RematchArrangement = 'same'
+): Promise<string> => {
+  if (previousLobby.rematchRoomCode) {
+    return previousLobby.rematchRoomCode;
+  }
+
+  const { team1, team2 } = getRematchTeams(previousLobby, arrangement);
 
-  // Create new lobby with same settings and players
-  // Only include player2 fields if they exist (prevents undefined in Firestore)
-  const rematchLobby: Lobby = {
-    roomCode: newRoomCode,
+  const newRoomCode = await createLobbyWithUniqueCode((roomCode): Lobby => ({
+    roomCode,
     hostId: previousLobby.hostId,
     gameMode: previousLobby.gameMode,
-    team1: {
-      player1: previousLobby.team1.player1,
-      ...(previousLobby.team1.player2 && { player2: previousLobby.team1.player2 }),
-    },
-    team2: {
-      player1: previousLobby.team2.player1,
-      ...(previousLobby.team2.player2 && { player2: previousLobby.team2.player2 }),
-    },
-    waitingPlayers: [],
+    gameFormat: getGameFormat(previousLobby),
+    team1,
+    team2,
+    waitingPlayers: previousLobby.waitingPlayers ?? [],
     gameStarted: false,
+    gameCompleted: false,
+    ...(previousLobby.isPrivate && { isPrivate: true }),
+    ...(previousLobby.bannedPlayerIds && { bannedPlayerIds: previousLobby.bannedPlayerIds }),
     isRematch: true,
     originalRoomCode: previousLobby.roomCode,
     createdAt: serverTimestamp() as any,
     lastActivity: serverTimestamp() as any,
-  };
+  }));
+
+  await updateDoc(doc(firestore, 'lobbies', previousLobby.roomCode), {
+    rematchRoomCode: newRoomCode,
+  });
+
+  return newRoomCode;
+};
+
+/**
+ * Creates the next game of an open-play rotation session
+ * Applies the lobby's rotation rule to the result, carries the waiting list
+ * over and links both lobbies so players can follow along
+ * @param previousLobby - Completed rotation lobby
+ * @returns Room code of the next game
+ */
+export const createNextRotationGame = async (previousLobby: Lobby): Promise<string> => {
+  if (!previousLobby.rotationRule || !previousLobby.winner) {
+    throw new Error('Lobby is not a completed rotation game');
+  }
+
+  const next = getNextRotation(previousLobby, previousLobby.winner, previousLobby.rotationRule);
 
-  await setDoc(doc(firestore, 'lobbies', newRoomCode), rematchLobby);
+  const newRoomCode = await createLobbyWithUniqueCode((roomCode): Lobby => ({
+    roomCode,
+    hostId: previousLobby.hostId,
+    gameMode: previousLobby.gameMode,
+    gameFormat: getGameFormat(previousLobby),
+    team1: next.team1,
+    team2: next.team2,
+    waitingPlayers: next.waitingPlayers,
+    gameStarted: false,
+    gameCompleted: false,
+    rotationRule: previousLobby.rotationRule,
+    rotationGameNumber: (previousLobby.rotationGameNumber ?? 1) + 1,
+    ...(previousLobby.isPrivate && { isPrivate: true }),
+    ...(previousLobby.bannedPlayerIds && { bannedPlayerIds: previousLobby.bannedPlayerIds }),
+    previousRoomCode: previousLobby.roomCode,
+    createdAt: serverTimestamp() as any,
+    lastActivity: serverTimestamp() as any,
+  }));
+
+  await updateDoc(doc(firestore, 'lobbies', previousLobby.roomCode), {
+    nextRoomCode: newRoomCode,
+  });
 
   return newRoomCode;
 };
@@ -1,226 +1,166 @@
 /**
  * Match Service
- * Firebase operations for match history and confirmations
+ * Firebase reads for settled matches
+ * Matches are written by the settleMatch function, one document per match;
+ * a player's history is a projection of the matches they played in
  */
 
 import {
   collection,
   doc,
-  setDoc,
-  updateDoc,
-  serverTimestamp,
+  getDoc,
   getDocs,
   query,
   where,
   orderBy,
   limit,
+  startAfter,
+  Timestamp,
 } from 'firebase/firestore';
+import type { Query, QueryConstraint, QueryDocumentSnapshot } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
-import { calculatePointsChange, calculateDoublesPointsChange } from '@/lib/points';
-import type { Lobby, GameCategory } from '@/types/lobby';
+import {
+  getHistoryQueryAnchor,
+  matchesHistoryFilters,
+  needsClientFilter,
+  toPlayerRecords,
+} from '@/lib/matchRecords';
 import type { Match } from '@/types/game';
-import type { MatchHistoryRecord, UserDocument } from '@/types/user';
+import type { MatchHistoryFilters, MatchHistoryRecord } from '@/types/user';
+
+// Pages read to fill one page when filters are applied on the client
+const MAX_FILTERED_READS = 5;
+
+export interface MatchHistoryPage {
+  records: MatchHistoryRecord[];
+  cursor: QueryDocumentSnapshot | null;  // Last match read; pass back for the next page
+  hasMore: boolean;
+}
 
 /**
- * Determines game category based on lobby and player genders
- * @param lobby - Lobby data
- * @param users - User documents for all players
- * @returns Game category
+ * Gets a settled match
+ * @param matchId - Match ID
+ * @returns Match, or null if it does not exist
  */
-export const determineGameCategory = (
-  lobby: Lobby,
-  users: UserDocument[]
-): GameCategory => {
-  if (lobby.gameMode === 'singles') {
-    return 'singles';
+export const getMatch = async (matchId: string): Promise<Match | null> => {
+  const matchSnap = await getDoc(doc(firestore, 'matches', matchId));
+  if (!matchSnap.exists()) {
+    return null;
   }
 
-  // Doubles - check gender composition
-  const genders = users.map((u) => u.gender).filter(Boolean);
-
-  const allMale = genders.every((g) => g === 'male');
-  const allFemale = genders.every((g) => g === 'female');
+  return { ...matchSnap.data(), id: matchSnap.id } as Match;
+};
 
-  if (allMale || allFemale) {
-    return 'same_gender_doubles';
-  }
+/**
+ * Gets match history for a user
+ * @param userId - User ID
+ * @param limitCount - Number of matches to fetch
+ * @returns The user's view of their most recent matches, newest first
+ */
+export const getMatchHistory = async (
+  userId: string,
+  limitCount = 20
+): Promise<MatchHistoryRecord[]> => {
+  const q = query(
+    collection(firestore, 'matches'),
+    where('playerIds', 'array-contains', userId),
+    orderBy('createdAt', 'desc'),
+    limit(limitCount)
+  );
 
-  return 'same_gender_doubles';  // Default to same_gender_doubles
+  const snapshot = await getDocs(q);
+  const matches = snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as Match));
+  return toPlayerRecords(matches, userId);
 };
 
 /**
- * Creates match history records for all players
- * @param lobby - Completed lobby
- * @param users - All player user documents
- * @param winningTeam - Which team won ('team1' or 'team2')
- * @returns Array of created match IDs
+ * Builds the query for one page of a player's match history
+ * Fetches one match more than the page size to tell whether more remain.
+ * @param userId - User ID
+ * @param filters - History filters (category and dates are applied here)
+ * @param pageSize - Matches per page
+ * @param cursor - Last match of the previous page
+ * @returns Query, newest first
  */
-export const createMatchRecords = async (
-  lobby: Lobby,
-  users: UserDocument[],
-  winningTeam: 'team1' | 'team2'
-): Promise<string[]> => {
-  const gameCategory = determineGameCategory(lobby, users);
-  const matchIds: string[] = [];
-
-  const allPlayers = [
-    lobby.team1.player1,
-    lobby.team1.player2,
-    lobby.team2.player1,
-    lobby.team2.player2,
-  ].filter(Boolean);
-
-  // Calculate points change
-  let pointsChange = 0;
-
-  if (lobby.gameMode === 'singles') {
-    const winner = users.find((u) => u.uid === (winningTeam === 'team1' ? lobby.team1.player1?.uid : lobby.team2.player1?.uid));
-    const loser = users.find((u) => u.uid === (winningTeam === 'team1' ? lobby.team2.player1?.uid : lobby.team1.player1?.uid));
-
-    if (winner && loser) {
-      const rankingKey = gameCategory === 'singles' ? 'singles' : 'sameGenderDoubles';
-      const winnerRating = winner.rankings?.[rankingKey] || 1000;
-      const loserRating = loser.rankings?.[rankingKey] || 1000;
-      const winnerGames = winner.matchStats?.totalMatches || 0;
-      const loserGames = loser.matchStats?.totalMatches || 0;
-      pointsChange = calculatePointsChange(winnerRating, loserRating, winnerGames, loserGames);
-    }
-  } else {
-    // Doubles
-    const team1Users = users.filter((u) => 
-      u.uid === lobby.team1.player1?.uid || u.uid === lobby.team1.player2?.uid
-    );
-    const team2Users = users.filter((u) =>
-      u.uid === lobby.team2.player1?.uid || u.uid === lobby.team2.player2?.uid
-    );
-
-    if (team1Users.length === 2 && team2Users.length === 2) {
-      // Map game category to rankings key
-      const categoryToRankingKey: Record<GameCategory, keyof import('@/types/user').UserRankings> = {
-        'singles': 'singles',
-        'same_gender_doubles': 'sameGenderDoubles',
-        'mixed_doubles': 'sameGenderDoubles',  // Map mixed to sameGenderDoubles
-      };
-      
-      const rankingKey = categoryToRankingKey[gameCategory];
-      pointsChange = calculateDoublesPointsChange(
-        team1Users[0].rankings?.[rankingKey] || 1000,
-        team1Users[1].rankings?.[rankingKey] || 1000,
-        team1Users[0].matchStats?.totalMatches || 0,
-        team1Users[1].matchStats?.totalMatches || 0,
-        team2Users[0].rankings?.[rankingKey] || 1000,
-        team2Users[1].rankings?.[rankingKey] || 1000,
-        team2Users[0].matchStats?.totalMatches || 0,
-        team2Users[1].matchStats?.totalMatches || 0,
-        winningTeam === 'team1'
-      );
-    }
+export const getMatchHistoryQuery = (
+  userId: string,
+  filters: MatchHistoryFilters,
+  pageSize: number,
+  cursor?: QueryDocumentSnapshot | null
+): Query => {
+  const anchor = getHistoryQueryAnchor(userId, filters);
+  const constraints: QueryConstraint[] = [where(anchor.field, 'array-contains', anchor.value)];
+
+  if (filters.category) {
+    constraints.push(where('gameCategory', '==', filters.category));
   }
-
-  // Create match history for each player
-  for (const player of allPlayers) {
-    if (!player) continue;
-
-    const isWinner = (winningTeam === 'team1' && (player.uid === lobby.team1.player1?.uid || player.uid === lobby.team1.player2?.uid)) ||
-                     (winningTeam === 'team2' && (player.uid === lobby.team2.player1?.uid || player.uid === lobby.team2.player2?.uid));
-
-    const opponents = allPlayers.filter((p) => {
-      if (!p) return false;
-      if (isWinner) {
-        return p.uid === lobby.team2.player1?.uid || p.uid === lobby.team2.player2?.uid;
-      } else {
-        return p.uid === lobby.team1.player1?.uid || p.uid === lobby.team1.player2?.uid;
-      }
-    }).map((p) => p!.displayName.split(' ')[0]);
-
-    let partnerName: string | undefined;
-    if (lobby.gameMode === 'doubles') {
-      const partner = allPlayers.find((p) => {
-        if (!p || p.uid === player.uid) return false;
-        if (isWinner) {
-          return p.uid === lobby.team1.player1?.uid || p.uid === lobby.team1.player2?.uid;
-        } else {
-          return p.uid === lobby.team2.player1?.uid || p.uid === lobby.team2.player2?.uid;
-        }
-      });
-      partnerName = partner ? partner.displayName.split(' ')[0] : undefined;
-    }
-
-    const matchRecord: MatchHistoryRecord = {
-      id: '',
-      gameId: lobby.roomCode,
-      playerId: player.uid,
-      gameType: lobby.gameMode,
-      gameCategory,
-      result: isWinner ? 'win' : 'loss',
-      pointsChange: isWinner ? pointsChange : -pointsChange,
-      opponentNames: opponents,
-      partnerName,
-      status: 'pending',
-      createdAt: new Date(),
-    };
-
-    const matchRef = doc(collection(firestore, 'matches'));
-    matchRecord.id = matchRef.id;
-
-    await setDoc(matchRef, {
-      ...matchRecord,
-      createdAt: serverTimestamp(),
-    });
-
-    matchIds.push(matchRef.id);
+  if (filters.from) {
+    constraints.push(where('createdAt', '>=', Timestamp.fromDate(filters.from)));
+  }
+  if (filters.to) {
+    constraints.push(where('createdAt', '<=', Timestamp.fromDate(filters.to)));
   }
 
-  return matchIds;
-};
+  constraints.push(orderBy('createdAt', 'desc'));
+  if (cursor) {
+    constraints.push(startAfter(cursor));
+  }
+  constraints.push(limit(pageSize + 1));
 
-/**
- * Confirms a match for a specific player
- * @param matchId - Match ID to confirm
- * @param playerId - Player ID confirming
- */
-export const confirmMatch = async (matchId: string, playerId: string): Promise<void> => {
-  await updateDoc(doc(firestore, 'matches', matchId), {
-    status: 'confirmed',
-    confirmedAt: serverTimestamp(),
-  });
+  return query(collection(firestore, 'matches'), ...constraints);
 };
 
 /**
- * Gets pending matches for a user
+ * Reads one page of query results into the player's records
+ * @param docs - Query results, including the look-ahead match
  * @param userId - User ID
- * @returns Array of pending matches
+ * @param filters - History filters
+ * @param pageSize - Matches per page
+ * @returns Page of records with its cursor
  */
-export const getPendingMatches = async (userId: string): Promise<MatchHistoryRecord[]> => {
-  const q = query(
-    collection(firestore, 'matches'),
-    where('playerId', '==', userId),
-    where('status', '==', 'pending'),
-    orderBy('createdAt', 'desc'),
-    limit(10)
-  );
-
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as MatchHistoryRecord));
+export const toMatchHistoryPage = (
+  docs: QueryDocumentSnapshot[],
+  userId: string,
+  filters: MatchHistoryFilters,
+  pageSize: number
+): MatchHistoryPage => {
+  const pageDocs = docs.slice(0, pageSize);
+  const matches = pageDocs.map((doc) => ({ ...doc.data(), id: doc.id } as Match));
+
+  return {
+    records: toPlayerRecords(matches, userId).filter((r) => matchesHistoryFilters(r, filters)),
+    cursor: pageDocs[pageDocs.length - 1] ?? null,
+    hasMore: docs.length > pageSize,
+  };
 };
 
 /**
- * Gets match history for a user
+ * Gets the next page of a player's match history
+ * When filters are applied on the client, further pages are read (up to
+ * MAX_FILTERED_READS) until the page has any records.
  * @param userId - User ID
- * @param limitCount - Number of matches to fetch
- * @returns Array of match records
+ * @param filters - History filters
+ * @param pageSize - Matches per page
+ * @param cursor - Last match of the previous page
+ * @returns Page of records, newest first, with its cursor
  */
-export const getMatchHistory = async (
+export const getMatchHistoryPage = async (
   userId: string,
-  limitCount = 20
-): Promise<MatchHistoryRecord[]> => {
-  const q = query(
-    collection(firestore, 'matches'),
-    where('playerId', '==', userId),
-    orderBy('createdAt', 'desc'),
-    limit(limitCount)
-  );
+  filters: MatchHistoryFilters,
+  pageSize: number,
+  cursor: QueryDocumentSnapshot | null
+): Promise<MatchHistoryPage> => {
+  const page: MatchHistoryPage = { records: [], cursor, hasMore: true };
+  const maxReads = needsClientFilter(filters) ? MAX_FILTERED_READS : 1;
+
+  for (let read = 0; read < maxReads && page.hasMore && page.records.length === 0; read++) {
+    const snapshot = await getDocs(getMatchHistoryQuery(userId, filters, pageSize, page.cursor));
+    const next = toMatchHistoryPage(snapshot.docs, userId, filters, pageSize);
+
+    page.records = next.records;
+    page.cursor = next.cursor ?? page.cursor;
+    page.hasMore = next.hasMore;
+  }
 
-  const snapshot = await getDocs(q);
-  return snapshot.docs.map((doc) => ({ ...doc.data(), id: doc.id } as MatchHistoryRecord));
+  return page;
 };
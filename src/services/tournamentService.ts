@@ -0,0 +1,265 @@
+/**
+ * Tournament Service
+ * Firebase operations for tournaments: registration, seeding and schedule
+ * generation, and starting scheduled matches as lobbies
+ * Results are written by the settleMatch function when a match's lobby settles
+ */
+
+import {
+  collection,
+  deleteDoc,
+  deleteField,
+  doc,
+  getDoc,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+  writeBatch,
+} from 'firebase/firestore';
+import { firestore } from '@/config/firebase';
+import { createLobby } from '@/services/lobbyService';
+import { DEFAULT_GAME_FORMAT } from '@/lib/scoreValidation';
+import {
+  MAX_TOURNAMENT_PLAYERS,
+  generateSchedule,
+  getSeedRating,
+  getTournamentStartError,
+  seedEntries,
+} from '@/lib/tournament';
+import type { GameFormat } from '@/types/game';
+import type { GameMode, Player, Team } from '@/types/lobby';
+import type {
+  Tournament,
+  TournamentFormat,
+  TournamentMatch,
+  TournamentPlayer,
+  TournamentSide,
+} from '@/types/tournament';
+import type { UserRankings } from '@/types/user';
+
+const tournamentRef = (tournamentId: string) => doc(firestore, 'tournaments', tournamentId);
+const matchRef = (tournamentId: string, matchId: string) =>
+  doc(firestore, 'tournaments', tournamentId, 'matches', matchId);
+
+/**
+ * Creates a tournament open for registration
+ * @param hostId - Organizer's user ID (they register separately to play)
+ * @param name - Tournament name
+ * @param format - Round robin, elimination or rotating partners
+ * @param gameMode - Singles or doubles
+ * @param gameFormat - Points to win, win-by and best-of-N for every match
+ * @param poolCount - Round-robin pools (1 for everyone plays everyone)
+ * @returns Tournament ID
+ */
+export const createTournament = async (
+  hostId: string,
+  name: string,
+  format: TournamentFormat,
+  gameMode: GameMode,
+  gameFormat: GameFormat = DEFAULT_GAME_FORMAT,
+  poolCount = 1
+): Promise<string> => {
+  const ref = doc(collection(firestore, 'tournaments'));
+
+  await setDoc(ref, {
+    name: name.trim(),
+    hostId,
+    format,
+    gameMode: format === 'rotating_partners' ? 'doubles' : gameMode,
+    gameFormat,
+    poolCount: format === 'round_robin' ? poolCount : 1,
+    status: 'registration',
+    players: [],
+    playerIds: [],
+    createdAt: serverTimestamp(),
+  });
+
+  return ref.id;
+};
+
+/**
+ * Registers a player while the tournament is taking entries
+ * @param tournamentId - Tournament ID
+ * @param player - Player registering (rating is refreshed when seeding)
+ */
+export const registerForTournament = async (
+  tournamentId: string,
+  player: TournamentPlayer
+): Promise<void> => {
+  await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(tournamentRef(tournamentId));
+    if (!snap.exists()) {
+      throw new Error('Tournament not found');
+    }
+
+    const tournament = snap.data() as Tournament;
+    if (tournament.status !== 'registration') {
+      throw new Error('Registration has closed');
+    }
+    if (tournament.playerIds.includes(player.uid)) {
+      return;
+    }
+    if (tournament.playerIds.length >= MAX_TOURNAMENT_PLAYERS) {
+      throw new Error('Tournament is full');
+    }
+
+    tx.update(snap.ref, {
+      players: [...tournament.players, player],
+      playerIds: [...tournament.playerIds, player.uid],
+    });
+  });
+};
+
+/**
+ * Withdraws a player before the tournament starts
+ * @param tournamentId - Tournament ID
+ * @param userId - Player withdrawing
+ */
+export const withdrawFromTournament = async (
+  tournamentId: string,
+  userId: string
+): Promise<void> => {
+  await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(tournamentRef(tournamentId));
+    if (!snap.exists()) return;
+
+    const tournament = snap.data() as Tournament;
+    if (tournament.status !== 'registration') {
+      throw new Error('The tournament has already started');
+    }
+    if (!tournament.playerIds.includes(userId)) return;
+
+    tx.update(snap.ref, {
+      players: tournament.players.filter((p) => p.uid !== userId),
+      playerIds: tournament.playerIds.filter((uid) => uid !== userId),
+    });
+  });
+};
+
+/**
+ * Closes registration, seeds players by current rating and writes the schedule
+ * @param tournament - Tournament in registration
+ * @returns Number of matches scheduled
+ */
+export const startTournament = async (tournament: Tournament): Promise<number> => {
+  const startError = getTournamentStartError(tournament);
+  if (startError) {
+    throw new Error(startError);
+  }
+
+  // Ratings may have moved since players registered
+  const userSnaps = await Promise.all(
+    tournament.players.map((player) => getDoc(doc(firestore, 'users', player.uid)))
+  );
+  const players = tournament.players.map((player, index) => ({
+    ...player,
+    rating: getSeedRating(
+      userSnaps[index].get('rankings') as Partial<UserRankings> | undefined,
+      tournament.gameMode
+    ),
+  }));
+
+  const entries = seedEntries(players, tournament.format, tournament.gameMode, tournament.poolCount);
+  const matches = generateSchedule(tournament.format, entries, tournament.poolCount);
+
+  const batch = writeBatch(firestore);
+  matches.forEach(({ id, ...match }) => batch.set(matchRef(tournament.id, id), match));
+  batch.update(tournamentRef(tournament.id), {
+    status: 'in_progress',
+    players,
+    entries,
+    startedAt: serverTimestamp(),
+  });
+  await batch.commit();
+
+  return matches.length;
+};
+
+/**
+ * Seats a side's players on a lobby team
+ */
+const toLobbyTeam = (side: TournamentSide | null, players: TournamentPlayer[]): Team => {
+  const [player1, player2] = (side?.playerIds ?? []).map((uid): Player => {
+    const player = players.find((p) => p.uid === uid);
+    return {
+      uid,
+      displayName: player?.displayName || 'Player',
+      ...(player?.photoURL && { photoURL: player.photoURL }),
+    };
+  });
+
+  return {
+    ...(player1 && { player1 }),
+    ...(player2 && { player2 }),
+  };
+};
+
+/**
+ * Starts a scheduled match as a lobby with both teams already seated
+ * If someone else started the match first, their lobby is used instead.
+ * @param tournament - Tournament in progress
+ * @param match - Ready match
+ * @param starter - Player (or organizer) starting it; hosts the lobby
+ * @returns Room code of the match's lobby
+ */
+export const startTournamentMatch = async (
+  tournament: Tournament,
+  match: TournamentMatch,
+  starter: Player
+): Promise<string> => {
+  if (match.roomCode) {
+    return match.roomCode;
+  }
+  if (match.status !== 'ready') {
+    throw new Error('This match is not ready to play');
+  }
+
+  const roomCode = await createLobby(
+    starter.uid,
+    tournament.gameMode,
+    starter,
+    tournament.gameFormat,
+    null,
+    false,
+    {
+      team1: toLobbyTeam(match.team1, tournament.players),
+      team2: toLobbyTeam(match.team2, tournament.players),
+      tournamentId: tournament.id,
+      tournamentMatchId: match.id,
+    }
+  );
+
+  const claimedRoomCode = await runTransaction(firestore, async (tx) => {
+    const snap = await tx.get(matchRef(tournament.id, match.id));
+    const existing = snap.get('roomCode') as string | undefined;
+    if (existing) {
+      return existing;
+    }
+
+    tx.update(snap.ref, { roomCode, status: 'in_progress' });
+    return roomCode;
+  });
+
+  if (claimedRoomCode !== roomCode) {
+    await deleteDoc(doc(firestore, 'lobbies', roomCode));
+  }
+
+  return claimedRoomCode;
+};
+
+/**
+ * Unlinks a match from its lobby so it can be started again
+ * Used by the organizer when a lobby was abandoned or its players changed
+ * @param tournamentId - Tournament ID
+ * @param matchId - Match in progress
+ */
+export const resetTournamentMatch = async (
+  tournamentId: string,
+  matchId: string
+): Promise<void> => {
+  await updateDoc(matchRef(tournamentId, matchId), {
+    roomCode: deleteField(),
+    status: 'ready',
+  });
+};
@@ -3,10 +3,11 @@
  * Firebase operations for user profile management
  */
 
-import { doc, updateDoc, serverTimestamp, getDoc, collection, query, where, orderBy, limit, getDocs, or } from 'firebase/firestore';
+import { doc, updateDoc, serverTimestamp, getDoc, collection, query, where, orderBy, limit, getDocs, or, deleteField } from 'firebase/firestore';
 import { firestore } from '@/config/firebase';
-import { getDefaultRankings, updateRankings } from '@/lib/points';
-import type { UserDocument, UserRankings, MatchStats } from '@/types/user';
+import { getDefaultRankings, getRankingKey, updateRankings } from '@/lib/points';
+import type { UserDocument, MatchStats } from '@/types/user';
+import type { Court } from '@/types/court';
 import type { GameCategory } from '@/types/lobby';
 
 /**
@@ -24,8 +25,23 @@ export const updateUserProfile = async (
   });
 };
 
+/**
+ * Sets or clears a user's home court (used by local leaderboards)
+ * @param userId - User ID
+ * @param court - New home court, or null to clear it
+ */
+export const setHomeCourt = async (userId: string, court: Court | null): Promise<void> => {
+  await updateDoc(doc(firestore, 'users', userId), {
+    homeCourtId: court ? court.id : deleteField(),
+    homeCourtName: court ? court.name : deleteField(),
+    updatedAt: serverTimestamp(),
+  });
+};
+
 /**
  * Updates user rankings after a confirmed match
+ * @deprecated Rankings are applied server-side by the settleMatch function;
+ * firestore.rules rejects client writes to `rankings`
  * @param userId - User ID
  * @param category - Game category
  * @param pointsChange - Points to add/subtract
@@ -43,16 +59,9 @@ export const updateUserRankings = async (
   }
 
   const userData = userSnap.data() as UserDocument;
-  const currentRankings = userData.rankings || getDefaultRankings();
-
-  // Map game category to rankings key
-  const categoryToRankingKey: Record<GameCategory, keyof UserRankings> = {
-    'singles': 'singles',
-    'same_gender_doubles': 'sameGenderDoubles',
-    'mixed_doubles': 'sameGenderDoubles',  // Map mixed to sameGenderDoubles
-  };
+  const currentRankings = { ...getDefaultRankings(), ...userData.rankings };
 
-  const rankingKey = categoryToRankingKey[category];
+  const rankingKey = getRankingKey(category);
   const newRankings = updateRankings(currentRankings, rankingKey, pointsChange);
 
   await updateDoc(userRef, {
@@ -63,6 +72,7 @@ export const updateUserRankings = async (
 
 /**
  * Updates user match statistics
+ * @deprecated Match stats are applied server-side by the settleMatch function
  * @param userId - User ID
  * @param result - Match result ('win' or 'loss')
  */
@@ -4,7 +4,7 @@ import type { Timestamp } from 'firebase/firestore';
  * Chat types for messaging feature
  */
 
-export type ChatType = 'individual' | 'group';
+export type ChatType = 'individual' | 'group' | 'lobby';
 
 export interface ChatParticipant {
   userId: string;
@@ -23,18 +23,22 @@ export interface LastMessage {
 export interface Chat {
   id: string;
   type: ChatType;
-  name: string | null; // Only for group chats
+  name: string | null; // Group and lobby chats
   photoURL?: string | null; // Group photo URL
   participantIds: string[];
   participantInfo: Record<string, ChatParticipant>;
   lastMessage: LastMessage | null;
   unreadCount: Record<string, number>; // { [userId]: count }
   deletedFor: string[]; // User IDs who "deleted" (hid) this chat
+  lobbyRoomCode?: string; // Lobby chats: the game the chat belongs to
+  clubId?: string; // Club chats: the club whose members the chat follows
+  archived?: boolean; // Lobby chats: read-only once the game is over
+  archivedAt?: Timestamp;
   createdAt: Timestamp;
   updatedAt: Timestamp;
 }
 
-export type MessageType = 'text' | 'image' | 'location';
+export type MessageType = 'text' | 'image' | 'location' | 'system';
 
 export interface LocationAttachment {
   latitude: number;
@@ -87,6 +91,7 @@ export interface CreateChatData {
   name?: string; // Required for group chats
   participantIds: string[];
   participantInfo: Record<string, ChatParticipant>;
+  clubId?: string; // Club chats
 }
 
 // For creating a new message
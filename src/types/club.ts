@@ -0,0 +1,57 @@
+import type { Timestamp } from 'firebase/firestore';
+
+// Owner: one per club, manages admins. Admins: manage members. Members: play.
+export type ClubRole = 'owner' | 'admin' | 'member';
+
+// How players get into a club
+export type ClubJoinPolicy =
+  | 'open'     // Anyone can join
+  | 'request'  // Players ask and an admin approves
+  | 'invite';  // Only players an admin invites
+
+export interface ClubMember {
+  uid: string;
+  username: string;
+  displayName: string;
+  photoURL?: string;
+}
+
+export interface ClubCourt {
+  id: string;  // Court ID
+  name: string;
+}
+
+// Roles live in ownerId and adminIds; everyone else in memberIds is a member
+export interface Club {
+  id: string;
+  name: string;
+  description?: string;
+  photoURL?: string;
+  homeCourts: ClubCourt[];
+  joinPolicy: ClubJoinPolicy;
+  ownerId: string;
+  adminIds: string[];
+  memberIds: string[];
+  members: ClubMember[];
+  invitedIds: string[];  // Players an admin has invited and who have not answered yet
+  chatId: string;  // Group chat kept in step with memberIds by syncClubChat
+  createdAt: Timestamp;
+}
+
+export type ClubJoinRequestStatus = 'pending' | 'approved' | 'declined';
+
+// clubs/{clubId}/joinRequests/{uid}, for clubs with the 'request' policy
+export interface ClubJoinRequest extends ClubMember {
+  status: ClubJoinRequestStatus;
+  createdAt: Timestamp;
+  respondedAt?: Timestamp;
+}
+
+// clubs/{clubId}/standings/{uid}: totals from matches where every player was a member
+export interface ClubStanding extends ClubMember {
+  wins: number;
+  losses: number;
+  matches: number;
+  ratingGain: number;
+  updatedAt: Timestamp;
+}
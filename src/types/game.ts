@@ -1,5 +1,6 @@
 import type { Timestamp } from 'firebase/firestore';
-import type { GameMode, GameCategory } from './lobby';
+import type { GameMode, GameCategory, GameScore, PointChanges } from './lobby';
+import type { UserRankings } from './user';
 
 export interface Game {
   id: string;
@@ -18,25 +19,52 @@ export interface GameSettings {
   pointsToWin: number;
 }
 
+// Scoring rules for a lobby, chosen by the host when creating it
+export interface GameFormat {
+  pointsToWin: GameSettings['pointsToWin'];  // 11, 15 or 21
+  winBy: 1 | 2;                               // 1 for timed league rounds
+  bestOf: 1 | 3 | 5;                          // Games in the match
+}
+
 export interface GameScores {
   [playerId: string]: number;
 }
 
 export type GameStatus = 'active' | 'paused' | 'completed' | 'cancelled';
 
+// One player's side of a settled match
+export interface MatchPlayer {
+  uid: string;
+  displayName: string;
+  team: 1 | 2;
+  pointsChange: number;
+  // Rating on the match's track around it (absent on records settled before ratings were stored)
+  ratingBefore?: number;
+  ratingAfter?: number;
+}
+
+// A settled match: one document per match in the `matches` collection
+// Per-player views (MatchHistoryRecord) are projected with toPlayerRecord
 export interface Match {
   id: string;
-  playerIds: string[];
-  scores: GameScores;
-  winnerId: string;
-  gameMode: GameMode;
+  gameId: string;                 // Room code of the lobby it was played in
+  gameType: GameMode;
   gameCategory: GameCategory;
-  duration: number; // in seconds
+  ratingCategory?: keyof UserRankings;
+  players: MatchPlayer[];         // Team 1 first
+  playerIds: string[];            // Every player, for per-player queries
+  playerPairs: string[];          // Pair keys of every two players, for head-to-head queries
+  winnerIds: string[];            // Players on the winning team, for result filters
+  loserIds: string[];
+  winner: 1 | 2;
+  score?: {
+    team1: number;
+    team2: number;
+  };
+  games?: GameScore[];            // Per-game scores for best-of-N matches
+  duration?: number;              // In seconds
+  status: 'pending' | 'confirmed'; // Only migrated client-recorded matches can be pending
   createdAt: Timestamp;
-  // Match confirmation fields
-  status: 'pending' | 'confirmed' | 'disputed';
-  confirmations?: { [playerId: string]: boolean };
-  confirmedAt?: Timestamp;
 }
 
 export interface MatchConfirmation {
@@ -46,6 +74,18 @@ export interface MatchConfirmation {
   confirmedAt: Timestamp;
 }
 
+// Payload for the settleMatch callable function
+// Scores are read from the lobby's confirmed proposedScores, never from the caller
+export interface SettleMatchRequest {
+  roomCode: string;
+}
+
+// Result returned by settleMatch once rankings have been applied
+export interface SettleMatchResponse {
+  winner: 1 | 2;
+  pointChanges: PointChanges;
+}
+
 export interface GameStats {
   totalPoints: number;
   longestRally?: number;
@@ -0,0 +1,66 @@
+import type { Timestamp } from 'firebase/firestore';
+import type { GameFormat } from './game';
+import type { GameScore } from './lobby';
+
+// What happens to the rungs when the organizer ends a season
+export type LadderSeasonMode =
+  | 'reset'   // Re-seed everyone by singles rating
+  | 'decay';  // Members who played no ladder match drop below those who did
+
+export type LadderChallengeStatus =
+  | 'pending'    // Waiting for the defender to accept
+  | 'accepted'   // Lobby created; the result is written by settleMatch
+  | 'completed'
+  | 'declined'
+  | 'cancelled'  // Withdrawn by the challenger, or closed by the end of the season
+  | 'expired';   // Not played within the ladder's challenge window
+
+export interface LadderMember {
+  uid: string;
+  username: string;  // Opens their profile, where challenges are made
+  displayName: string;
+  photoURL?: string;
+}
+
+// Singles challenge ladder; the rung order lives in `rungs`
+export interface Ladder {
+  id: string;
+  name: string;
+  hostId: string;  // Organizer (joins separately to play)
+  gameFormat: GameFormat;
+  challengeRange: number;  // How many rungs above themselves a member may challenge
+  challengeExpiryDays: number;  // Days a challenge has to be played
+  seasonMode: LadderSeasonMode;
+  season: number;  // 1-based
+  members: LadderMember[];
+  rungs: string[];  // Member UIDs, top rung first
+  activeIds: string[];  // Members who have played a ladder match this season
+  createdAt: Timestamp;
+  seasonStartedAt: Timestamp;
+}
+
+// Stored in ladders/{id}/challenges/{challengeId}
+export interface LadderChallenge {
+  id: string;
+  challengerId: string;
+  defenderId: string;  // Holds a higher rung than the challenger
+  playerIds: string[];  // [challengerId, defenderId]
+  season: number;
+  status: LadderChallengeStatus;
+  roomCode?: string;
+  winnerId?: string;
+  score?: GameScore;  // team1 is the challenger
+  createdAt: Timestamp;
+  expiresAt: Timestamp;
+  respondedAt?: Timestamp;
+  completedAt?: Timestamp;
+}
+
+// Final standings of a finished season, stored in ladders/{id}/seasons/{season}
+export interface LadderSeason {
+  id: string;
+  season: number;
+  standings: LadderMember[];  // Top rung first
+  startedAt: Timestamp;
+  endedAt: Timestamp;
+}
@@ -0,0 +1,83 @@
+import type { Timestamp } from 'firebase/firestore';
+import type { UserRankings } from './user';
+
+// Leaderboard tab: a rating category, optionally split by gender
+export type CategoryFilter =
+  | 'all_singles'
+  | 'mens_singles'
+  | 'womens_singles'
+  | 'all_doubles'
+  | 'mens_doubles'
+  | 'womens_doubles';
+
+// Which players the all-time rankings include
+export type LeaderboardScope = 'everyone' | 'home_court' | 'nearby' | 'following';
+
+export type LeaderboardPeriodType = 'monthly' | 'quarterly' | 'custom';
+
+export type LeaderboardPeriodStatus = 'active' | 'closed';
+
+// What a period leaderboard ranks by
+export type LeaderboardMetric = 'rating_gain' | 'wins';
+
+// Start and end of a period; calendar periods are derived from the date in UTC
+export interface PeriodBounds {
+  id: string;  // '2026-10' (monthly), '2026-Q4' (quarterly) or a custom season ID
+  type: LeaderboardPeriodType;
+  label: string;
+  startMs: number;
+  endMs: number;  // Exclusive
+}
+
+// A top finisher in a closed period's final standings
+export interface PeriodStanding {
+  uid: string;
+  username: string;
+  displayName: string;
+  photoURL?: string;
+  rank: number;
+  value: number;
+}
+
+// Stored in leaderboardPeriods/{periodId}
+export interface LeaderboardPeriod {
+  id: string;
+  type: LeaderboardPeriodType;
+  label: string;
+  startAt: Timestamp;
+  endAt: Timestamp;  // Exclusive
+  status: LeaderboardPeriodStatus;
+  closedAt?: Timestamp;
+  // Final standings keyed by `${CategoryFilter}_${LeaderboardMetric}`, written on close
+  standings?: Record<string, PeriodStanding[]>;
+}
+
+// Per rating category totals (only categories the player has played)
+export type PeriodTotals = Partial<Record<keyof UserRankings, number>>;
+
+// A player's totals within a period, stored in leaderboardPeriods/{id}/entries/{uid}
+// (kept up to date by settleMatch)
+export interface PeriodEntry {
+  uid: string;
+  username: string;
+  displayName: string;
+  photoURL?: string;
+  gender?: 'male' | 'female';
+  ratingGain: PeriodTotals;
+  wins: PeriodTotals;
+  matches: PeriodTotals;
+  updatedAt: Timestamp;
+}
+
+// A podium finish in a closed period, stored in users/{uid}/seasonFinishes/{id}
+export interface SeasonFinish {
+  id: string;
+  periodId: string;
+  periodLabel: string;
+  periodType: LeaderboardPeriodType;
+  categoryFilter: CategoryFilter;
+  metric: LeaderboardMetric;
+  rank: number;
+  value: number;
+  endedAt: Timestamp;
+}
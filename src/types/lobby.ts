@@ -1,4 +1,5 @@
 import type { Timestamp } from 'firebase/firestore';
+import type { GameFormat } from './game';
 
 export interface Player {
   uid: string;
@@ -15,6 +16,7 @@ export interface Lobby {
   roomCode: string;
   hostId: string;
   gameMode: 'singles' | 'doubles';
+  gameFormat?: GameFormat;  // Missing on older lobbies (first to 11, win by 2, single game)
   team1: Team;
   team2: Team;
   waitingPlayers?: Player[];
@@ -26,22 +28,42 @@ export interface Lobby {
     team1: number;
     team2: number;
   };
+  finalGames?: GameScore[];  // Per-game scores (one entry for single-game matches)
   winner?: 1 | 2;
+  // Score confirmation phase (between host submission and settlement)
+  scoreStatus?: ScoreStatus;
+  proposedScores?: {
+    team1: number;
+    team2: number;
+  };
+  proposedGames?: GameScore[];
+  scoreSubmittedBy?: string;
+  scoreSubmittedAt?: Timestamp;
   scoreConfirmations?: { [playerId: string]: boolean };
+  scoreDispute?: ScoreDispute;
   // Point calculation results (NEW - Phase 1)
-  pointChanges?: {
-    team1: number;  // Actual points applied to team 1 players
-    team2: number;  // Actual points applied to team 2 players
-  };
-  stakesSnapshot?: {
-    team1Win: number;   // Points team 1 would gain if they win
-    team1Loss: number;  // Points team 1 would lose if they lose
-    team2Win: number;   // Points team 2 would gain if they win
-    team2Loss: number;  // Points team 2 would lose if they lose
-  };
+  pointChanges?: PointChanges;  // Actual points applied to each player
+  stakesSnapshot?: StakesSnapshot;  // Written by settleMatch, derived server-side
   // Rematch tracking (NEW - Phase 1)
   isRematch?: boolean;
   originalRoomCode?: string;  // Link to original game if this is a rematch
+  rematchRoomCode?: string;  // Rematch of this game, written once the host has created it
+  // Open-play rotation (king of the court)
+  rotationRule?: RotationRule;  // Set on rotation lobbies; the next game is created on completion
+  rotationGameNumber?: number;  // 1 for the first game of a rotation session
+  previousRoomCode?: string;  // Previous game of the rotation session
+  nextRoomCode?: string;  // Next game, written once it has been created
+  // Tournament match this lobby was started for (settleMatch reports the result)
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  // Ladder challenge this lobby was started for (settleMatch moves the rungs)
+  ladderId?: string;
+  ladderChallengeId?: string;
+  // Access control
+  isPrivate?: boolean;  // Players ask to join and the host approves (joinRequests subcollection)
+  bannedPlayerIds?: string[];  // Kicked players who may not rejoin or ask to join
+  // Live point-by-point scoring (rally log shared by every player's phone)
+  liveScoring?: LiveScoring;
   // Game category for match classification
   gameCategory?: 'singles' | 'same_gender_doubles' | 'mixed_doubles';
   // Countdown fields
@@ -50,14 +72,117 @@ export interface Lobby {
   // Cancellation fields
   cancelled?: boolean;
   cancelledAt?: Timestamp;
-  cancelledBy?: string;  // uid of host who cancelled
+  cancelledBy?: string;  // uid of host who cancelled, or 'system' when expired
   cancelReason?: string;  // optional reason for cancellation
+  expiredReason?: LobbyExpiryReason;  // Set when the lifecycle sweeper cancelled it
+  chatId?: string;  // Lobby chat, set once someone opens it
   createdAt: Timestamp;
   lastActivity: Timestamp;
 }
 
+// A seat on court
+export interface LobbySlot {
+  team: 1 | 2;
+  slot: 1 | 2;
+}
+
+// Why a transactional slot change did not go through
+export type SlotChangeError =
+  | 'not_found'       // Lobby no longer exists
+  | 'full'            // No open slot to take
+  | 'already_seated'  // Player is already in the lobby
+  | 'slot_changed'    // The slot no longer holds who the caller saw there
+  | 'game_started'    // Teams are locked once the game starts
+  | 'conflict';       // Kept losing to concurrent changes and gave up retrying
+
+// Outcome of a join, leave, move or removal
+export interface SlotChangeResult {
+  ok: boolean;
+  error?: SlotChangeError;
+  slot?: LobbySlot;  // Where the player was seated
+  queued?: boolean;  // Added to the waiting list instead of a slot
+  retried: boolean;  // Someone else changed the lobby first and the change re-ran on fresh data
+}
+
+// Request to join a private lobby, stored at lobbies/{roomCode}/joinRequests/{uid}
+export interface JoinRequest {
+  uid: string;
+  displayName: string;
+  photoURL?: string;
+  status: JoinRequestStatus;
+  createdAt: Timestamp;
+  respondedAt?: Timestamp;
+}
+
+export interface StakesSnapshot {
+  team1Win: number;   // Points team 1 would gain if they win (team average in doubles)
+  team1Loss: number;  // Points team 1 would lose if they lose
+  team2Win: number;   // Points team 2 would gain if they win
+  team2Loss: number;  // Points team 2 would lose if they lose
+  players: { [playerId: string]: PlayerStake };
+}
+
+export interface PlayerStake {
+  win: number;   // Points this player gains if their team wins
+  loss: number;  // Points this player loses if their team loses
+}
+
+// Signed rating change applied to each player, keyed by uid
+export type PointChanges = { [playerId: string]: number };
+
+export interface ScoreDispute {
+  disputedBy: string;  // uid of player who disputed
+  team1: number;       // Counter-score proposed by the disputing player
+  team2: number;
+  games?: GameScore[]; // Per-game counter-scores
+  disputedAt: Timestamp;
+}
+
+// 'idle' = waiting lobby with no activity, 'max_duration' = started game never completed
+export type LobbyExpiryReason = 'idle' | 'max_duration';
+
+export type JoinRequestStatus = 'pending' | 'approved' | 'rejected';
+
+// 'pending' = waiting for confirmations, 'disputed' = frozen until host resubmits
+export type ScoreStatus = 'pending' | 'disputed';
+
+// Points for one game. Match-level scores reuse the shape with games won.
+export interface GameScore {
+  team1: number;
+  team2: number;
+}
+
+export interface Rally {
+  winner: 1 | 2;       // Team that won the rally
+  recordedBy: string;  // uid of the scorer
+  recordedAt: number;  // epoch ms (serverTimestamp is not allowed inside arrays)
+}
+
+export interface LiveScoring {
+  system: ScoringSystem;
+  rallies: Rally[];
+  startedBy: string;
+}
+
 export type GameMode = 'singles' | 'doubles';
 
+// Who stays on court when a rotation game completes
+export type RotationRule = 'winners_stay' | 'everyone_rotates';
+
+// Teams seated when a lobby is created from a schedule (tournament matches,
+// ladder challenges)
+export interface LobbyPrefill {
+  team1: Team;
+  team2: Team;
+  tournamentId?: string;
+  tournamentMatchId?: string;
+  ladderId?: string;
+  ladderChallengeId?: string;
+}
+
+// How the host reseats the players for a rematch
+export type RematchArrangement = 'same' | 'switch_sides' | 'shuffle_partners';
+
 export type GameCategory = 'singles' | 'same_gender_doubles' | 'mixed_doubles';
 
 export type LobbyStatus = 'waiting' | 'starting' | 'active' | 'completed';
@@ -54,9 +54,23 @@ export type RootStackParamList = {
   EditBio: { currentBio?: string };
   EditUsername: { currentUsername: string };
   EditGender: { currentGender: 'male' | 'female' };
+  EditHomeCourt: { currentCourtId?: string };
   ChangePassword: undefined;
   ProgramPaddle: undefined;
   FollowList: { userId: string; initialTab?: 'following' | 'followers' };
+  // Tournaments
+  Tournaments: undefined;
+  CreateTournament: undefined;
+  TournamentDetail: { tournamentId: string };
+  // Ladders
+  Ladders: undefined;
+  CreateLadder: undefined;
+  LadderDetail: { ladderId: string };
+  // Clubs
+  Clubs: undefined;
+  CreateClub: undefined;
+  ClubDetail: { clubId: string };
+  InviteToClub: { clubId: string };
   // Sessions (court params optional for auto-selection)
   CreateSession: { courtId?: string; courtName?: string };
   // Chat - either chatId (existing chat) or recipientUser (draft mode)
@@ -0,0 +1,13 @@
+/**
+ * Rating Engine Types
+ *
+ * ELO - K-factor ELO (src/lib/points.ts)
+ * GLICKO2 - Glicko-2 with deviation and volatility (src/lib/glicko2.ts)
+ */
+
+export type RatingEngineId = 'ELO' | 'GLICKO2';
+
+export const RATING_ENGINE_ID = {
+  ELO: 'ELO' as const,
+  GLICKO2: 'GLICKO2' as const,
+} as const;
@@ -0,0 +1,91 @@
+import type { Timestamp } from 'firebase/firestore';
+import type { GameFormat } from './game';
+import type { GameMode, GameScore } from './lobby';
+
+export type TournamentFormat =
+  | 'round_robin'
+  | 'single_elimination'
+  | 'double_elimination'
+  | 'rotating_partners';  // Doubles round robin with a new partner every round
+
+export type TournamentStatus = 'registration' | 'in_progress' | 'completed';
+
+// A registered player; rating is refreshed from their profile when seeding
+export interface TournamentPlayer {
+  uid: string;
+  displayName: string;
+  photoURL?: string;
+  rating: number;
+}
+
+// A seeded competitor: one player in singles, a fixed pair in doubles
+// (rotating partners has no fixed pairs, so every player is their own entry)
+export interface TournamentEntry {
+  id: string;
+  seed: number;  // 1 is the highest rated
+  playerIds: string[];
+  pool?: number;  // Round-robin pool, 0-based
+}
+
+// One side of a scheduled match; empty playerIds is a bye
+export interface TournamentSide {
+  entryId?: string;  // Unset for rotating-partners pairs
+  playerIds: string[];
+}
+
+export type TournamentBracket = 'pool' | 'winners' | 'losers' | 'final';
+
+export type TournamentMatchStatus = 'pending' | 'ready' | 'in_progress' | 'completed' | 'bye';
+
+// Stored in tournaments/{id}/matches/{matchId}
+export interface TournamentMatch {
+  id: string;
+  bracket: TournamentBracket;
+  round: number;  // 1-based within its bracket
+  position: number;  // 0-based order within the round
+  pool?: number;
+  team1: TournamentSide | null;  // Null until the match feeding it finishes
+  team2: TournamentSide | null;
+  playerIds: string[];  // Everyone seated so far (rules and "my matches" queries)
+  status: TournamentMatchStatus;
+  // Where the result goes (elimination brackets)
+  nextMatchId?: string;
+  nextSlot?: 1 | 2;
+  loserNextMatchId?: string;
+  loserNextSlot?: 1 | 2;
+  // Lobby the match is played in, and its settled result
+  roomCode?: string;
+  winner?: 1 | 2;
+  score?: GameScore;
+  games?: GameScore[];
+}
+
+export interface Tournament {
+  id: string;
+  name: string;
+  hostId: string;
+  format: TournamentFormat;
+  gameMode: GameMode;
+  gameFormat: GameFormat;
+  poolCount: number;  // Round robin only; 1 means everyone plays everyone
+  status: TournamentStatus;
+  players: TournamentPlayer[];
+  playerIds: string[];
+  entries?: TournamentEntry[];  // Written when the tournament starts
+  championIds?: string[];  // Written by settleMatch when the last match settles
+  createdAt: Timestamp;
+  startedAt?: Timestamp;
+  completedAt?: Timestamp;
+}
+
+// One row of round-robin standings (an entry, or a player in rotating partners)
+export interface TournamentStanding {
+  id: string;
+  playerIds: string[];
+  pool?: number;
+  played: number;
+  wins: number;
+  losses: number;
+  pointsFor: number;
+  pointsAgainst: number;
+}
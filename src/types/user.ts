@@ -1,16 +1,27 @@
 import type { Timestamp } from 'firebase/firestore';
+import type { GameScore } from './lobby';
 
 export interface UserRankings {
   singles: number;
-  sameGenderDoubles: number;  // Used for ALL doubles games (same-gender + mixed)
+  sameGenderDoubles: number;  // Every doubles game that is not mixed
+  mixedDoubles: number;       // Doubles with one man and one woman on each team
 }
 
 export interface MatchStats {
   totalMatches: number;
   wins: number;
   losses: number;
+  // Career breakdown kept up to date by settleMatch (absent until backfilled)
+  singlesWins?: number;
+  singlesLosses?: number;
+  doublesWins?: number;
+  doublesLosses?: number;
+  currentStreak?: number;  // Positive for consecutive wins, negative for losses
+  bestWinStreak?: number;
 }
 
+// One player's view of a Match, projected by toPlayerRecord
+// id is the match ID, shared by every player's view of the same match
 export interface MatchHistoryRecord {
   id: string;
   gameId: string;
@@ -19,16 +30,79 @@ export interface MatchHistoryRecord {
   gameCategory: 'singles' | 'same_gender_doubles' | 'mixed_doubles';
   result: 'win' | 'loss';
   pointsChange: number;
+  opponentIds?: string[];
   opponentNames: string[];
+  partnerId?: string;  // Doubles only
   partnerName?: string;
   status: 'pending' | 'confirmed';
   score?: {
     team1: number;
     team2: number;
   };
+  games?: GameScore[];  // Per-game scores for best-of-N matches
+  // Rating track this match settled and the player's rating around it
+  ratingCategory?: keyof UserRankings;
+  ratingBefore?: number;
+  ratingAfter?: number;
   createdAt: Date;
 }
 
+// Filters for a player's match history
+// category and the date range are applied by the query; relation, and result
+// together with otherPlayerId, are applied to each page as it loads
+export interface MatchHistoryFilters {
+  category?: MatchHistoryRecord['gameCategory'];
+  result?: MatchHistoryRecord['result'];
+  otherPlayerId?: string;                // Matches that included this player
+  relation?: 'opponent' | 'partner';     // How otherPlayerId played in them
+  from?: Date;
+  to?: Date;
+}
+
+// One match two players were both in, from the first player's side
+export interface HeadToHeadMeeting {
+  matchId: string;
+  relation: 'opponent' | 'partner';
+  result: 'win' | 'loss';
+  margin: number;  // Points won minus points lost (signed)
+  score?: { team1: number; team2: number };
+  createdAt: Date;
+}
+
+// Record between two players, from the first player's side
+export interface HeadToHeadStats {
+  wins: number;       // Against each other
+  losses: number;
+  partnerWins: number;   // As partners
+  partnerLosses: number;
+  averageMargin: number | null;  // Per match against each other; null before they have met
+  recentMeetings: HeadToHeadMeeting[];  // Newest first, opponents and partners
+}
+
+// A player's results with one doubles partner
+export interface PartnerStats {
+  partnerId: string;
+  partnerName: string;
+  wins: number;
+  losses: number;
+  winRate: number;  // 0-100
+}
+
+export interface RatingHistoryPoint {
+  matchId: string;
+  category: keyof UserRankings;
+  ratingBefore: number;
+  ratingAfter: number;
+  createdAt: Date;
+}
+
+export interface RatingHistorySummary {
+  current: number;
+  peak: number;
+  low: number;
+  delta30d: number;
+}
+
 export interface User {
   id: string;
   email: string;
@@ -65,6 +139,9 @@ export interface UserDocument {
   adminFeedback?: string;
   // Ranking points (default 1000 each when user is created)
   rankings?: UserRankings;
+  // Glicko-2 uncertainty per rating category (written by settleMatch)
+  rankingDeviations?: Partial<UserRankings>;
+  rankingVolatilities?: Partial<UserRankings>;
   // Match statistics (updated when matches are confirmed)
   matchStats?: MatchStats;
   // Profile visibility (default: 'public')
@@ -74,6 +151,9 @@ export interface UserDocument {
   followers?: string[];       // Array of user IDs who follow this user
   followingCount?: number;    // Denormalized count for performance
   followersCount?: number;    // Denormalized count for performance
+  // Home court (a Court ID and its name), for local leaderboards
+  homeCourtId?: string;
+  homeCourtName?: string;
   // Onboarding tracking
   hasSeenTapToPlayOnboarding?: boolean;  // Whether user has seen NFC onboarding
 }